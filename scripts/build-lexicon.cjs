@@ -0,0 +1,31 @@
+/**
+ * Build the compressed pronunciation dictionary
+ * Reads a CMU Pronouncing Dictionary file and writes public/lexicon/cmudict.txt.gz
+ *
+ * Usage: npm run build:lexicon -- path/to/cmudict.dict
+ * (cmudict.dict from https://github.com/cmusphinx/cmudict)
+ */
+
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+const input = process.argv[2];
+if (!input) {
+  console.error('Usage: npm run build:lexicon -- path/to/cmudict.dict');
+  process.exit(1);
+}
+
+const output = path.join(__dirname, '..', 'public', 'lexicon', 'cmudict.txt.gz');
+
+// Keep first pronunciations only and drop comments - the lexicon ignores the rest anyway
+const lines = fs.readFileSync(input, 'latin1')
+  .split('\n')
+  .filter(line => line && !line.startsWith(';;;'))
+  .map(line => line.replace(/\s+#.*$/, '').trim())
+  .filter(line => !/^\S+\(\d+\)\s/.test(line));
+
+fs.mkdirSync(path.dirname(output), { recursive: true });
+fs.writeFileSync(output, zlib.gzipSync(lines.join('\n') + '\n', { level: 9 }));
+
+console.log(`Wrote ${lines.length} entries to ${path.relative(process.cwd(), output)}`);
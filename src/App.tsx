@@ -1,10 +1,10 @@
-import { useCallback, useState, useEffect, lazy, Suspense } from 'react';
-import CharacterGLBScene, { type CharacterReady } from './scenes/CharacterGLBScene';
+import { useCallback, useMemo, useState, useEffect, lazy, Suspense } from 'react';
+import CharacterGLBScene, { type CharacterReady, type LoadedCharacter, type SceneCharacter } from './scenes/CharacterGLBScene';
 import Preloader from './components/Preloader';
 import { ThreeProvider, useThreeOptional } from './context/threeContext';
 import { ModulesProvider, useModulesContext } from './context/ModulesContext';
-import { createEyeHeadTrackingService } from './latticework/eyeHeadTracking/eyeHeadTrackingService';
-import { getDefaultCharacterConfig } from './presets/annotations';
+import { createAgentLatticework } from './latticework/agentLatticework';
+import { DEMO_CAST, getAnnotationConfig, getCastPlacement, getDefaultCharacterConfig } from './presets/annotations';
 import type { CharacterAnnotationConfig } from './camera/types';
 
 // Lazy load Chakra UI - won't be parsed/executed until animationReady is true
@@ -19,35 +19,94 @@ const getToaster = () => {
   return toasterPromise;
 };
 
+/**
+ * Resolve a model path from an annotation config - handles blob URLs for uploaded characters
+ */
+function resolveModelPath(config: CharacterAnnotationConfig): string {
+  return config.modelPath.startsWith('blob:')
+    ? config.modelPath
+    : import.meta.env.BASE_URL + config.modelPath;
+}
+
+/**
+ * Initial scene cast: the default character, or the demo preset when opted in with `?cast=demo`
+ */
+function getInitialCast(): CharacterAnnotationConfig[] {
+  if (new URLSearchParams(window.location.search).get('cast') === 'demo') {
+    const cast = DEMO_CAST
+      .map((p) => getAnnotationConfig(p.characterId))
+      .filter((c): c is CharacterAnnotationConfig => !!c);
+    if (cast.length > 0) return cast;
+  }
+  const config = getDefaultCharacterConfig();
+  return config ? [config] : [];
+}
+
 function AppContent() {
   const threeCtx = useThreeOptional();
-  const { setEyeHeadTrackingService, setCameraController } = useModulesContext();
+  const { setEyeHeadTrackingService, setEmotionService, setBackchannelService, setCameraController } = useModulesContext();
 
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [loadProgress, setLoadProgress] = useState(0);
   const [animationReady, setAnimationReady] = useState(false);
 
-  // Character annotation config
-  const [annotationConfig, setAnnotationConfig] = useState<CharacterAnnotationConfig | undefined>(
-    getDefaultCharacterConfig()
-  );
-  // Track previous config for fallback on load error
-  const [previousConfig, setPreviousConfig] = useState<CharacterAnnotationConfig | undefined>(
-    getDefaultCharacterConfig()
+  // Characters in the scene, and the one the UI/camera/modules are driving
+  const [cast, setCast] = useState<CharacterAnnotationConfig[]>(getInitialCast);
+  const [activeCharacterId, setActiveCharacterId] = useState<string | undefined>(() => getInitialCast()[0]?.characterId);
+  const [loadedCharacters, setLoadedCharacters] = useState<LoadedCharacter[]>([]);
+  // Track previous cast for fallback on load error
+  const [previousCast, setPreviousCast] = useState<CharacterAnnotationConfig[]>([]);
+
+  const activeConfig = cast.find((c) => c.characterId === activeCharacterId) ?? cast[0];
+
+  const sceneCharacters = useMemo<SceneCharacter[]>(
+    () =>
+      cast.map((config, index) => {
+        const placement = getCastPlacement(config.characterId);
+        return {
+          id: config.characterId,
+          src: resolveModelPath(config),
+          annotationConfig: config,
+          // Characters without a preset placement line up to the right
+          position: placement?.position ?? (cast.length > 1 ? [index * 0.9, 0, 0] : undefined),
+          rotationY: placement?.rotationY,
+          fitHeight: cast.length > 1 ? placement?.fitHeight : undefined,
+        };
+      }),
+    [cast]
   );
 
-  // Handle character change from CharacterSection
-  const handleCharacterChange = useCallback((config: CharacterAnnotationConfig) => {
-    // Save current config as fallback before changing
-    setPreviousConfig(annotationConfig);
+  // Reload the scene with a new cast
+  const changeCast = useCallback((next: CharacterAnnotationConfig[]) => {
+    // Save current cast as fallback before changing
+    setPreviousCast(cast);
     setIsLoading(true);
     setLoadProgress(0);
     setAnimationReady(false);
-    setAnnotationConfig(config);
-  }, [annotationConfig]);
+    setCast(next);
+  }, [cast]);
 
-  // Handle load error - show toast and revert to previous character
+  // Handle character selection from CharacterSwitcher:
+  // characters already in the scene become active, others are added to the scene
+  const handleCharacterChange = useCallback((config: CharacterAnnotationConfig) => {
+    setActiveCharacterId(config.characterId);
+    if (!cast.some((c) => c.characterId === config.characterId)) {
+      changeCast([...cast, config]);
+    }
+  }, [cast, changeCast]);
+
+  // Remove a character from the scene (the last one always stays)
+  const handleCharacterRemove = useCallback((characterId: string) => {
+    const next = cast.filter((c) => c.characterId !== characterId);
+    if (next.length === 0 || next.length === cast.length) return;
+    if (activeCharacterId === characterId) {
+      setActiveCharacterId(next[0].characterId);
+    }
+    changeCast(next);
+  }, [cast, activeCharacterId, changeCast]);
+
+  // Handle load error - show toast and revert to previous cast
   const handleLoadError = useCallback((error: Error, characterId?: string) => {
     console.error(`Failed to load character ${characterId}:`, error);
 
@@ -55,28 +114,33 @@ function AppContent() {
     getToaster().then(({ toaster }) => {
       toaster.create({
         title: 'Failed to load character',
-        description: `Could not load ${characterId || 'character'}. Reverting to previous character.`,
+        description: `Could not load ${characterId || 'character'}. Reverting to previous characters.`,
         type: 'error',
         duration: 4000,
       });
     });
 
-    // Revert to previous config (or default if no previous)
-    const fallback = previousConfig || getDefaultCharacterConfig();
-    if (fallback && fallback.characterId !== characterId) {
-      setAnnotationConfig(fallback);
+    // Revert to previous cast, or drop the failed character if there is none to go back to
+    const fallback = previousCast.some((c) => c.characterId === characterId)
+      ? previousCast.filter((c) => c.characterId !== characterId)
+      : previousCast;
+    const next = fallback.length > 0 ? fallback : cast.filter((c) => c.characterId !== characterId);
+    if (next.length > 0) {
+      setPreviousCast([]);
+      setCast(next);
+      setActiveCharacterId((id) => (next.some((c) => c.characterId === id) ? id : next[0].characterId));
       setLoadProgress(0);
     } else {
-      // If fallback is the same as failed, just stop loading
+      // Nothing left to fall back to, just stop loading
       setIsLoading(false);
     }
-  }, [previousConfig]);
+  }, [previousCast, cast]);
 
   const handleReady = useCallback(
-    ({ cameraController, engine, anim, scene, renderer }: CharacterReady) => {
-      // Pass engine, anim, scene, and renderer to context
-      threeCtx?.setEngine(engine, anim);
+    ({ cameraController, scene, renderer, characters }: CharacterReady) => {
+      // Pass scene and renderer to context; the engine follows the active character
       threeCtx?.setScene(scene, renderer);
+      setLoadedCharacters(characters);
 
       setCameraController(cameraController);
       setIsLoading(false);
@@ -90,34 +154,40 @@ function AppContent() {
     [threeCtx, setCameraController]
   );
 
+  // Point the shared engine/animation context at the active character
+  useEffect(() => {
+    if (loadedCharacters.length === 0) return;
+    const active = loadedCharacters.find((c) => c.id === activeCharacterId) ?? loadedCharacters[0];
+    threeCtx?.setEngine(active.engine, active.anim);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadedCharacters, activeCharacterId]);
+
   const handleDrawerToggle = useCallback(() => {
     setDrawerOpen(prev => !prev);
   }, []);
 
-  // Initialize eye/head tracking service when animation is ready
+  // Initialize the character's agency bundle when animation is ready.
+  // Eye/head tracking, emotion and backchannel are shared with modules through ModulesContext.
   useEffect(() => {
     if (!threeCtx?.engine || !threeCtx?.anim || !animationReady) return;
 
-    const service = createEyeHeadTrackingService({
-      animationAgency: threeCtx.anim,
-      engine: threeCtx.engine,
-    });
+    const latticework = createAgentLatticework(
+      { animation: threeCtx.anim, engine: threeCtx.engine },
+      {},
+      { agentId: 'main' }
+    );
 
-    service.start();
-    setEyeHeadTrackingService(service);
+    setEyeHeadTrackingService(latticework.get('eyeHeadTracking'));
+    setEmotionService(latticework.get('emotion'));
+    setBackchannelService(latticework.get('backchannel'));
 
     return () => {
-      service.dispose();
+      latticework.dispose();
       setEyeHeadTrackingService(null);
+      setEmotionService(null);
+      setBackchannelService(null);
     };
-  }, [threeCtx?.engine, threeCtx?.anim, animationReady, setEyeHeadTrackingService]);
-
-  // Build GLB source from annotation config - handle blob URLs for uploaded characters
-  const glbSrc = annotationConfig
-    ? annotationConfig.modelPath.startsWith('blob:')
-      ? annotationConfig.modelPath
-      : import.meta.env.BASE_URL + annotationConfig.modelPath
-    : import.meta.env.BASE_URL + "characters/jonathan_new.glb";
+  }, [threeCtx?.engine, threeCtx?.anim, animationReady, setEyeHeadTrackingService, setEmotionService, setBackchannelService]);
 
   return (
     <div className="fullscreen-scene">
@@ -130,12 +200,12 @@ function AppContent() {
 
       {/* CharacterGLBScene handles its own visibility */}
       <CharacterGLBScene
-        src={glbSrc}
+        characters={sceneCharacters}
+        activeCharacterId={activeConfig?.characterId}
         className="fullscreen-scene"
         onReady={handleReady}
         onProgress={setLoadProgress}
         onError={handleLoadError}
-        annotationConfig={annotationConfig}
       />
 
       {/* Lazy load Chakra UI after animation is ready */}
@@ -146,7 +216,9 @@ function AppContent() {
             onDrawerToggle={handleDrawerToggle}
             animationManager={threeCtx?.anim}
             onCharacterChange={handleCharacterChange}
-            currentCharacterConfig={annotationConfig}
+            onCharacterRemove={handleCharacterRemove}
+            currentCharacterConfig={activeConfig}
+            sceneCharacterIds={cast.map((c) => c.characterId)}
           />
         </Suspense>
       )}
@@ -10,6 +10,7 @@ import type {
   CameraState,
   FocusPosition,
   AnnotationChangeCallback,
+  ActiveCharacterChangeCallback,
   MarkerStyle,
 } from './types';
 
@@ -24,6 +25,12 @@ interface AnnotationMarkers {
   dispose(): void;
 }
 
+/** A character registered with the controller in a multi-character scene */
+interface RegisteredCharacter {
+  model: THREE.Object3D;
+  config: CharacterAnnotationConfig | null;
+}
+
 /**
  * Default configuration values
  */
@@ -48,6 +55,7 @@ const DEFAULTS = {
  * - Smart bounding box calculation with size-based padding
  * - Smooth animated transitions between views
  * - Self-contained DOM controls for annotation selection
+ * - Multiple characters per scene, each with its own annotations and focus target
  *
  * Designed for future NPM packaging - no React dependencies.
  */
@@ -80,6 +88,10 @@ export class AnnotationCameraController {
   private currentAnnotation: string | null = null;
   private characterConfig: CharacterAnnotationConfig | null = null;
 
+  // Multi-character registry (model + annotations per character)
+  private characters = new Map<string, RegisteredCharacter>();
+  private activeCharacterId: string | null = null;
+
   // Animation
   private animationId: number | null = null;
   private isAnimating = false;
@@ -94,6 +106,7 @@ export class AnnotationCameraController {
 
   // Callbacks
   private onAnnotationChangeCallbacks: AnnotationChangeCallback[] = [];
+  private onActiveCharacterChangeCallbacks: ActiveCharacterChangeCallback[] = [];
 
   constructor(inputConfig: AnnotationCameraControllerConfig) {
     this.camera = inputConfig.camera;
@@ -167,8 +180,9 @@ export class AnnotationCameraController {
 
   /**
    * Load annotation config for a character
+   * The default annotation is focused over focusDuration ms (immediate by default)
    */
-  loadAnnotations(config: CharacterAnnotationConfig): void {
+  loadAnnotations(config: CharacterAnnotationConfig, focusDuration = 0): void {
     this.characterConfig = config;
     this.annotations = config.annotations;
     this.updateDOMControls();
@@ -209,12 +223,91 @@ export class AnnotationCameraController {
     // Load annotations into markers
     this.markers.loadAnnotations(config);
 
-    // Focus default annotation if specified (immediate, no animation)
+    // Focus default annotation if specified (immediate unless a duration is given)
     if (config.defaultAnnotation) {
-      this.focusAnnotation(config.defaultAnnotation, 0);
+      this.focusAnnotation(config.defaultAnnotation, focusDuration);
     }
   }
 
+  // ====== MULTI-CHARACTER METHODS ======
+
+  /**
+   * Register a character model (and its annotations) in the scene.
+   * The first registered character becomes active.
+   */
+  addCharacter(characterId: string, model: THREE.Object3D, config?: CharacterAnnotationConfig): void {
+    this.characters.set(characterId, { model, config: config ?? null });
+
+    if (this.activeCharacterId === null) {
+      this.setActiveCharacter(characterId, 0);
+    }
+  }
+
+  /**
+   * Unregister a character. If it was active, the next registered character takes focus.
+   */
+  removeCharacter(characterId: string): void {
+    if (!this.characters.delete(characterId)) return;
+    if (this.activeCharacterId !== characterId) return;
+
+    this.activeCharacterId = null;
+    const next = this.characters.keys().next();
+    if (!next.done) {
+      this.setActiveCharacter(next.value, 0);
+    } else {
+      this.model = null;
+      this.annotations = [];
+      this.characterConfig = null;
+      this.currentAnnotation = null;
+      this.markers?.clear();
+      this.updateDOMControls();
+    }
+  }
+
+  /**
+   * Make a registered character the focus target.
+   * Swaps the model, annotations and markers, then focuses its default annotation
+   * (or full body when it has no annotations).
+   */
+  setActiveCharacter(characterId: string, duration?: number): void {
+    const character = this.characters.get(characterId);
+    if (!character) {
+      console.warn(`[AnnotationCameraController] Character "${characterId}" not registered`);
+      return;
+    }
+
+    const focusDuration = duration ?? this.config.transitionDuration;
+    this.activeCharacterId = characterId;
+    this.currentAnnotation = null;
+    this.setModel(character.model);
+
+    if (character.config) {
+      this.loadAnnotations(character.config, focusDuration);
+    } else {
+      this.characterConfig = null;
+      this.annotations = [];
+      this.markers?.clear();
+      this.updateDOMControls();
+      this.focusFullBody(focusDuration);
+    }
+
+    this.onActiveCharacterChangeCallbacks.forEach((cb) => cb(characterId));
+  }
+
+  /**
+   * Get the active character ID (null when no characters are registered)
+   */
+  getActiveCharacterId(): string | null {
+    return this.activeCharacterId;
+  }
+
+  /**
+   * Get IDs of all registered characters, in registration order
+   */
+  getCharacterIds(): string[] {
+    return Array.from(this.characters.keys());
+  }
+
   /**
    * Focus on a named annotation from the loaded config
    */
@@ -457,6 +550,17 @@ export class AnnotationCameraController {
     };
   }
 
+  /**
+   * Register callback for active character changes
+   */
+  onActiveCharacterChange(callback: ActiveCharacterChangeCallback): () => void {
+    this.onActiveCharacterChangeCallbacks.push(callback);
+    return () => {
+      const index = this.onActiveCharacterChangeCallbacks.indexOf(callback);
+      if (index > -1) this.onActiveCharacterChangeCallbacks.splice(index, 1);
+    };
+  }
+
   // ====== LIFECYCLE ======
 
   /**
@@ -488,8 +592,11 @@ export class AnnotationCameraController {
     // Dispose OrbitControls
     this.controls.dispose();
 
-    // Clear callbacks
+    // Clear characters and callbacks
+    this.characters.clear();
+    this.activeCharacterId = null;
     this.onAnnotationChangeCallbacks = [];
+    this.onActiveCharacterChangeCallbacks = [];
   }
 
   // ====== PRIVATE METHODS ======
@@ -18,4 +18,5 @@ export type {
   FocusPosition,
   AnnotationChangeCallback,
   CharacterChangeCallback,
+  ActiveCharacterChangeCallback,
 } from './types';
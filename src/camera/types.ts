@@ -126,3 +126,8 @@ export type AnnotationChangeCallback = (annotationName: string) => void;
  * Callback for character change events
  */
 export type CharacterChangeCallback = (config: CharacterAnnotationConfig) => void;
+
+/**
+ * Callback for active character changes in a multi-character scene
+ */
+export type ActiveCharacterChangeCallback = (characterId: string) => void;
@@ -14,7 +14,9 @@ type Props = {
   onDrawerToggle: () => void;
   animationManager: any;
   onCharacterChange?: (config: CharacterAnnotationConfig) => void;
+  onCharacterRemove?: (characterId: string) => void;
   currentCharacterConfig?: CharacterAnnotationConfig;
+  sceneCharacterIds?: string[];
 };
 
 export default function ChakraUI({
@@ -22,7 +24,9 @@ export default function ChakraUI({
   onDrawerToggle,
   animationManager,
   onCharacterChange,
+  onCharacterRemove,
   currentCharacterConfig,
+  sceneCharacterIds,
 }: Props) {
   return (
     <ChakraProvider value={defaultSystem}>
@@ -35,7 +39,9 @@ export default function ChakraUI({
       <CharacterSwitcher
         isDrawerOpen={drawerOpen}
         onCharacterChange={onCharacterChange}
+        onCharacterRemove={onCharacterRemove}
         currentCharacterConfig={currentCharacterConfig}
+        sceneCharacterIds={sceneCharacterIds}
       />
       <ModulesMenu animationManager={animationManager} characterName={currentCharacterConfig?.characterName} />
     </ChakraProvider>
@@ -1,7 +1,7 @@
 import { memo, useCallback, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { Switch } from '@chakra-ui/react';
-import { FaChevronLeft, FaChevronRight, FaCamera, FaVideo, FaPlus } from 'react-icons/fa';
+import { FaChevronLeft, FaChevronRight, FaCamera, FaVideo, FaPlus, FaTimes } from 'react-icons/fa';
 import { useModulesContext } from '../context/ModulesContext';
 import { useThreeOptional } from '../context/threeContext';
 import { ANNOTATION_REGISTRY, getAnnotationConfig } from '../presets/annotations';
@@ -193,6 +193,44 @@ const switcherStyles = `
   .character-card:hover .character-card-placeholder {
     transform: scale(1.4);
   }
+  .character-card.in-scene::after {
+    content: '';
+    position: absolute;
+    bottom: 4px;
+    left: 4px;
+    width: 6px;
+    height: 6px;
+    border-radius: 50%;
+    background: #48BB78;
+    z-index: 3;
+  }
+  .character-card-remove {
+    position: absolute;
+    top: 2px;
+    right: 2px;
+    width: 16px;
+    height: 16px;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    padding: 0;
+    border: none;
+    border-radius: 50%;
+    background: rgba(0, 0, 0, 0.6);
+    color: rgba(255, 255, 255, 0.8);
+    font-size: 8px;
+    cursor: pointer;
+    opacity: 0;
+    z-index: 3;
+    transition: opacity 0.15s;
+  }
+  .character-card:hover .character-card-remove {
+    opacity: 1;
+  }
+  .character-card-remove:hover {
+    background: rgba(229, 62, 62, 0.9);
+    color: white;
+  }
   .character-card.disabled {
     opacity: 0.4;
     cursor: not-allowed;
@@ -403,8 +441,14 @@ const PLACEHOLDER_CHARACTERS = [
 
 interface CharacterSwitcherProps {
   isDrawerOpen: boolean;
+  /** Select a character (adds it to the scene if it isn't there yet) */
   onCharacterChange?: (config: CharacterAnnotationConfig) => void;
+  /** Remove a character from the scene */
+  onCharacterRemove?: (characterId: string) => void;
+  /** The active character */
   currentCharacterConfig?: CharacterAnnotationConfig;
+  /** IDs of all characters currently in the scene */
+  sceneCharacterIds?: string[];
   disabled?: boolean;
 }
 
@@ -416,7 +460,9 @@ const CARD_GAP = 8;
 export const CharacterSwitcher = memo(function CharacterSwitcher({
   isDrawerOpen,
   onCharacterChange,
+  onCharacterRemove,
   currentCharacterConfig,
+  sceneCharacterIds = [],
   disabled = false,
 }: CharacterSwitcherProps) {
   const { cameraController, markersVisible, setMarkersVisible, markerStyle, setMarkerStyle } = useModulesContext();
@@ -558,10 +604,11 @@ export const CharacterSwitcher = memo(function CharacterSwitcher({
               {allCharacters.map((char) => {
                 const thumbnail = getCharacterThumbnail(char.characterId);
                 const isDisabled = char.isPlaceholder;
+                const inScene = sceneCharacterIds.includes(char.characterId);
                 return (
                   <div
                     key={char.characterId}
-                    className={`character-card ${currentCharacterConfig?.characterId === char.characterId ? 'active' : ''} ${isDisabled ? 'disabled' : ''}`}
+                    className={`character-card ${currentCharacterConfig?.characterId === char.characterId ? 'active' : ''} ${inScene ? 'in-scene' : ''} ${isDisabled ? 'disabled' : ''}`}
                     onClick={() => !isDisabled && handleCharacterClick(char.characterId)}
                     onMouseEnter={(e) => {
                       if (isDisabled) return;
@@ -591,8 +638,21 @@ export const CharacterSwitcher = memo(function CharacterSwitcher({
                         {getCharacterEmoji(char.characterId)}
                       </div>
                     )}
+                    {inScene && sceneCharacterIds.length > 1 && onCharacterRemove && (
+                      <button
+                        className="character-card-remove"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          if (!disabled) onCharacterRemove(char.characterId);
+                        }}
+                        title="Remove from scene"
+                        aria-label={`Remove ${char.characterName} from scene`}
+                      >
+                        <FaTimes />
+                      </button>
+                    )}
                     <div className="character-card-tooltip">
-                      {char.characterName}
+                      {char.characterName}{inScene ? '' : ' (add to scene)'}
                     </div>
                   </div>
                 );
@@ -1,9 +1,18 @@
 
 
 import React, { useRef, useState, useCallback } from 'react';
-import { Box, Text, VStack, HStack } from '@chakra-ui/react';
+import { Box, Text, VStack, HStack, Button } from '@chakra-ui/react';
+import type { CurveInterpolation, CurvePoint, CurveTangent } from '../latticework/animation/types';
+import { CURVE_INTERPOLATIONS, evaluateSegment } from '../latticework/animation/curveInterpolation';
+import type { CurveEditSession, KeyRef } from '../latticework/animation/curveEditSession';
 
-type Keyframe = { time: number; value: number };
+type Keyframe = {
+  time: number;
+  value: number;
+  interpolation?: CurveInterpolation;
+  inTangent?: CurveTangent;
+  outTangent?: CurveTangent;
+};
 
 export interface CurveEditorProps {
   auId: number | string;
@@ -24,6 +33,19 @@ const INNER_W = WIDTH - MARGIN.left - MARGIN.right;
 const INNER_H = HEIGHT - MARGIN.top - MARGIN.bottom;
 const POINT_RADIUS = 7;
 const HIT_RADIUS = 10;
+const HANDLE_RADIUS = 5;
+const EASE_SAMPLES = 16;
+
+const INTERPOLATION_LABELS: Record<CurveInterpolation, string> = {
+  linear: 'Linear',
+  step: 'Step',
+  easeIn: 'Ease In',
+  easeOut: 'Ease Out',
+  easeInOut: 'Ease In/Out',
+  bezier: 'Bezier',
+};
+
+type HandleSide = 'in' | 'out';
 
 function clamp(v: number, min: number, max: number) {
   return Math.max(min, Math.min(max, v));
@@ -50,17 +72,73 @@ function timeToX(time: number, duration: number) {
 function xToTime(x: number, duration: number) {
   return clamp((x - MARGIN.left) / INNER_W * duration, 0, duration);
 }
+// Unclamped variants for Bezier handles, which may extend past the plot area
+function xToTimeUnclamped(x: number, duration: number) {
+  return (x - MARGIN.left) / INNER_W * duration;
+}
+function yToValueUnclamped(y: number, min: number, max: number) {
+  const range = max - min || 1;
+  return (1 - (y - MARGIN.top) / INNER_H) * range + min;
+}
+
+// Evaluate a segment with the shared animation-agency interpolation (editor uses `value`, agency uses `intensity`)
+const toCurvePoint = (kf: Keyframe) => ({
+  time: kf.time,
+  intensity: kf.value,
+  interpolation: kf.interpolation,
+  inTangent: kf.inTangent,
+  outTangent: kf.outTangent,
+});
+
+// Default Bezier handle for a key: a flat third of the adjacent segment
+function handleOffset(keyframes: Keyframe[], idx: number, side: HandleSide): CurveTangent {
+  const kf = keyframes[idx];
+  const stored = side === 'out' ? kf.outTangent : kf.inTangent;
+  if (stored) return stored;
+  const neighbor = keyframes[side === 'out' ? idx + 1 : idx - 1];
+  const span = neighbor ? Math.abs(neighbor.time - kf.time) : 0;
+  return { dt: side === 'out' ? span / 3 : -span / 3, dv: 0 };
+}
+
+// Which Bezier handles a keyframe exposes: 'out' when its own segment is Bezier, 'in' when the previous one is
+function visibleHandles(keyframes: Keyframe[], idx: number): HandleSide[] {
+  const sides: HandleSide[] = [];
+  if (idx > 0 && keyframes[idx - 1].interpolation === 'bezier') sides.push('in');
+  if (idx < keyframes.length - 1 && keyframes[idx].interpolation === 'bezier') sides.push('out');
+  return sides;
+}
 
 function getPath(keyframes: Keyframe[], duration: number, min: number, max: number) {
   if (!keyframes.length) return '';
   const sorted = sortKeyframes(keyframes);
-  let d = '';
-  for (let i = 0; i < sorted.length; ++i) {
-    const kf = sorted[i];
-    const x = timeToX(kf.time, duration);
-    const y = valueToY(kf.value, min, max);
-    if (i === 0) d += `M ${x} ${y}`;
-    else d += ` L ${x} ${y}`;
+  let d = `M ${timeToX(sorted[0].time, duration)} ${valueToY(sorted[0].value, min, max)}`;
+  for (let i = 0; i < sorted.length - 1; ++i) {
+    const a = sorted[i];
+    const b = sorted[i + 1];
+    const bx = timeToX(b.time, duration);
+    const by = valueToY(b.value, min, max);
+    const mode = a.interpolation ?? 'linear';
+    if (mode === 'step') {
+      d += ` L ${bx} ${valueToY(a.value, min, max)} L ${bx} ${by}`;
+    } else if (mode === 'bezier') {
+      const out = handleOffset(sorted, i, 'out');
+      const inn = handleOffset(sorted, i + 1, 'in');
+      const x1 = timeToX(clamp(a.time + out.dt, a.time, b.time), duration);
+      const y1 = valueToY(a.value + out.dv, min, max);
+      const x2 = timeToX(clamp(b.time + inn.dt, a.time, b.time), duration);
+      const y2 = valueToY(b.value + inn.dv, min, max);
+      d += ` C ${x1} ${y1} ${x2} ${y2} ${bx} ${by}`;
+    } else if (mode !== 'linear') {
+      const pa = toCurvePoint(a);
+      const pb = toCurvePoint(b);
+      for (let s = 1; s < EASE_SAMPLES; s++) {
+        const t = a.time + ((b.time - a.time) * s) / EASE_SAMPLES;
+        d += ` L ${timeToX(t, duration)} ${valueToY(evaluateSegment(pa, pb, t), min, max)}`;
+      }
+      d += ` L ${bx} ${by}`;
+    } else {
+      d += ` L ${bx} ${by}`;
+    }
   }
   return d;
 }
@@ -88,6 +166,93 @@ function nearestKeyframeIdx(
   return idx;
 }
 
+// Axes, ticks and value grid shared by the single- and multi-curve editors
+function CurveAxes({ duration, valueMin, valueMax }: { duration: number; valueMin: number; valueMax: number }) {
+  const xTicks = [];
+  for (let i = 0; i <= duration; i += duration <= 1.2 ? 0.2 : 0.5) {
+    const t = Math.round(i * 100) / 100;
+    xTicks.push(t);
+  }
+  const yTicks = React.useMemo(() => {
+    const steps = 4;
+    const ticks: number[] = [];
+    for (let i = 0; i <= steps; i += 1) {
+      const t = valueMin + (i / steps) * (valueMax - valueMin);
+      ticks.push(Math.abs(t) < 1e-6 ? 0 : t);
+    }
+    return ticks;
+  }, [valueMin, valueMax]);
+
+  return (
+    <g>
+      {/* X axis */}
+      <line
+        x1={MARGIN.left}
+        y1={HEIGHT - MARGIN.bottom}
+        x2={WIDTH - MARGIN.right}
+        y2={HEIGHT - MARGIN.bottom}
+        stroke="#aaa"
+        strokeWidth={1.5}
+      />
+      {/* Y axis */}
+      <line
+        x1={MARGIN.left}
+        y1={MARGIN.top}
+        x2={MARGIN.left}
+        y2={HEIGHT - MARGIN.bottom}
+        stroke="#aaa"
+        strokeWidth={1.5}
+      />
+      {/* X ticks */}
+      {xTicks.map((t, i) => {
+        const x = timeToX(t, duration);
+        return (
+          <g key={i}>
+            <line x1={x} y1={HEIGHT - MARGIN.bottom} x2={x} y2={HEIGHT - MARGIN.bottom + 6} stroke="#aaa" strokeWidth={1} />
+            <text
+              x={x}
+              y={HEIGHT - MARGIN.bottom + 17}
+              fontSize="10"
+              textAnchor="middle"
+              fill="#aaa"
+            >
+              {t.toFixed(1)}
+            </text>
+          </g>
+        );
+      })}
+      {/* Y ticks */}
+      {yTicks.map((v, i) => {
+        const y = valueToY(v, valueMin, valueMax);
+        return (
+          <g key={i}>
+            <line x1={MARGIN.left - 6} y1={y} x2={MARGIN.left} y2={y} stroke="#aaa" strokeWidth={1} />
+            <text
+              x={MARGIN.left - 8}
+              y={y + 3}
+              fontSize="10"
+              textAnchor="end"
+              fill="#aaa"
+            >
+              {v.toFixed(2)}
+            </text>
+            {/* Optional: grid lines */}
+            <line
+              x1={MARGIN.left}
+              y1={y}
+              x2={WIDTH - MARGIN.right}
+              y2={y}
+              stroke="#444"
+              strokeWidth={0.7}
+              strokeDasharray="3 2"
+            />
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
 export const CurveEditor: React.FC<CurveEditorProps> = ({
   auId,
   label,
@@ -101,20 +266,93 @@ export const CurveEditor: React.FC<CurveEditorProps> = ({
 }) => {
   // Local state for drag interaction
   const [dragIdx, setDragIdx] = useState<number | null>(null);
-  const [dragOffset, setDragOffset] = useState<{ dx: number; dy: number } | null>(null);
+  const [dragHandle, setDragHandle] = useState<HandleSide | null>(null);
   const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+  const [selectedIdx, setSelectedIdx] = useState<number | null>(null);
   const svgRef = useRef<SVGSVGElement>(null);
 
   // Copy keyframes to local state during drag for smooth UX
   const [editing, setEditing] = useState<Keyframe[] | null>(null);
   const editingKeyframes = editing ?? keyframes;
 
+  // Window listeners outlive the render that registered them, so drag state lives in a ref
+  const dragRef = useRef<{ idx: number; handle: HandleSide | null; frames: Keyframe[] } | null>(null);
+
+  const toSvgCoords = (e: { clientX: number; clientY: number }) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { svgX: e.clientX - rect.left, svgY: e.clientY - rect.top };
+  };
+
+  // Find a Bezier handle of the selected keyframe under the pointer
+  const nearestHandle = (x: number, y: number): HandleSide | null => {
+    if (selectedIdx == null || !editingKeyframes[selectedIdx]) return null;
+    for (const side of visibleHandles(editingKeyframes, selectedIdx)) {
+      const kf = editingKeyframes[selectedIdx];
+      const off = handleOffset(editingKeyframes, selectedIdx, side);
+      const hx = timeToX(kf.time + off.dt, duration);
+      const hy = valueToY(kf.value + off.dv, valueMin, valueMax);
+      if (Math.hypot(hx - x, hy - y) < HIT_RADIUS) return side;
+    }
+    return null;
+  };
+
+  // Drag move
+  const handlePointerMove = useCallback((e: PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !svgRef.current) return;
+    const { svgX, svgY } = toSvgCoords(e);
+    const prev = drag.frames;
+    const kf = prev[drag.idx];
+    let next: Keyframe[];
+
+    if (drag.handle) {
+      // Handle drag: store the offset from the keyframe, keeping in-handles left and out-handles right
+      const rawDt = xToTimeUnclamped(svgX, duration) - kf.time;
+      const dt = drag.handle === 'out' ? Math.max(0, rawDt) : Math.min(0, rawDt);
+      const dv = yToValueUnclamped(svgY, valueMin, valueMax) - kf.value;
+      const key = drag.handle === 'out' ? 'outTangent' : 'inTangent';
+      next = prev.map((k, i) => (i === drag.idx ? { ...k, [key]: { dt, dv } } : k));
+    } else {
+      // Clamp to bounds
+      const t = clamp(xToTime(svgX, duration), 0, duration);
+      const v = clamp(yToValue(svgY, valueMin, valueMax), valueMin, valueMax);
+      // Prevent moving past neighbors
+      let minT = 0, maxT = duration;
+      if (drag.idx > 0) minT = prev[drag.idx - 1].time + 1e-4;
+      if (drag.idx < prev.length - 1) maxT = prev[drag.idx + 1].time - 1e-4;
+      const clippedT = clamp(t, minT, maxT);
+      next = prev.map((k, i) => (i === drag.idx ? { ...k, time: clippedT, value: v } : k));
+    }
+
+    drag.frames = next;
+    setEditing(next);
+  }, [duration, valueMin, valueMax]);
+
+  // Drag end
+  const handlePointerUp = useCallback(() => {
+    const drag = dragRef.current;
+    window.removeEventListener('pointermove', handlePointerMove);
+    window.removeEventListener('pointerup', handlePointerUp);
+    dragRef.current = null;
+    setDragIdx(null);
+    setDragHandle(null);
+    setEditing(null);
+    if (drag) onChange?.(sortKeyframes(drag.frames));
+  }, [handlePointerMove, onChange]);
+
+  const beginDrag = (idx: number, handle: HandleSide | null) => {
+    dragRef.current = { idx, handle, frames: [...editingKeyframes] };
+    setDragIdx(idx);
+    setDragHandle(handle);
+    setEditing([...editingKeyframes]);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+  };
+
   // Handlers
   const handlePointerDown = (e: React.PointerEvent) => {
     if (!svgRef.current) return;
-    const rect = svgRef.current.getBoundingClientRect();
-    const svgX = e.clientX - rect.left;
-    const svgY = e.clientY - rect.top;
+    const { svgX, svgY } = toSvgCoords(e);
     const idx = nearestKeyframeIdx(editingKeyframes, svgX, svgY, duration, valueMin, valueMax);
     if (e.button === 2) {
       // Right-click: delete point if near
@@ -123,16 +361,17 @@ export const CurveEditor: React.FC<CurveEditorProps> = ({
         const next = editingKeyframes.filter((_, i) => i !== idx);
         onChange?.(sortKeyframes(next));
         setEditing(null);
+        setSelectedIdx(null);
       }
       return;
     }
-    if (idx != null) {
+    const handle = nearestHandle(svgX, svgY);
+    if (handle && selectedIdx != null) {
+      beginDrag(selectedIdx, handle);
+    } else if (idx != null) {
       // Begin drag
-      setDragIdx(idx);
-      setDragOffset({ dx: svgX, dy: svgY });
-      setEditing([...editingKeyframes]);
-      window.addEventListener('pointermove', handlePointerMove as any);
-      window.addEventListener('pointerup', handlePointerUp as any);
+      setSelectedIdx(idx);
+      beginDrag(idx, null);
     } else {
       // Add keyframe at click position
       const t = clamp(xToTime(svgX, duration), 0, duration);
@@ -142,53 +381,27 @@ export const CurveEditor: React.FC<CurveEditorProps> = ({
         const next = sortKeyframes([...editingKeyframes, { time: t, value: v }]);
         onChange?.(next);
         setEditing(null);
+        setSelectedIdx(next.findIndex(kf => kf.time === t));
       }
     }
   };
 
-  // Drag move
-  const handlePointerMove = useCallback((e: PointerEvent) => {
-    if (dragIdx == null || !svgRef.current) return;
-    const rect = svgRef.current.getBoundingClientRect();
-    const svgX = e.clientX - rect.left;
-    const svgY = e.clientY - rect.top;
-    // Clamp to bounds
-    const t = clamp(xToTime(svgX, duration), 0, duration);
-    const v = clamp(yToValue(svgY, valueMin, valueMax), valueMin, valueMax);
-    setEditing((prev) => {
-      if (!prev) return null;
-      // Prevent moving past neighbors
-      let minT = 0, maxT = duration;
-      if (dragIdx > 0) minT = prev[dragIdx - 1].time + 1e-4;
-      if (dragIdx < prev.length - 1) maxT = prev[dragIdx + 1].time - 1e-4;
-      const clippedT = clamp(t, minT, maxT);
-      const next = prev.map((kf, i) =>
-        i === dragIdx ? { ...kf, time: clippedT, value: v } : kf
-      );
-      return next;
-    });
-  }, [dragIdx, duration]);
-
-  // Drag end
-  const handlePointerUp = useCallback((e: PointerEvent) => {
-    if (dragIdx == null) return;
-    setDragIdx(null);
-    setDragOffset(null);
-    setEditing((prev) => {
-      if (!prev) return null;
-      onChange?.(sortKeyframes(prev));
-      return null;
+  // Change the interpolation of the segment leaving the selected keyframe
+  const setSelectedInterpolation = (mode: CurveInterpolation) => {
+    if (selectedIdx == null || !editingKeyframes[selectedIdx]) return;
+    const next = editingKeyframes.map((kf, i) => {
+      if (i !== selectedIdx) return kf;
+      const { interpolation, ...rest } = kf;
+      return mode === 'linear' ? rest : { ...rest, interpolation: mode };
     });
-    window.removeEventListener('pointermove', handlePointerMove as any);
-    window.removeEventListener('pointerup', handlePointerUp as any);
-  }, [dragIdx, handlePointerMove, onChange]);
+    onChange?.(sortKeyframes(next));
+    setEditing(null);
+  };
 
   // Hover effect
   const handlePointerMoveSVG = (e: React.PointerEvent) => {
     if (!svgRef.current) return;
-    const rect = svgRef.current.getBoundingClientRect();
-    const svgX = e.clientX - rect.left;
-    const svgY = e.clientY - rect.top;
+    const { svgX, svgY } = toSvgCoords(e);
     const idx = nearestKeyframeIdx(editingKeyframes, svgX, svgY, duration, valueMin, valueMax);
     setHoverIdx(idx);
   };
@@ -199,21 +412,8 @@ export const CurveEditor: React.FC<CurveEditorProps> = ({
     e.preventDefault();
   };
 
-  // Axis ticks
-  const xTicks = [];
-  for (let i = 0; i <= duration; i += duration <= 1.2 ? 0.2 : 0.5) {
-    const t = Math.round(i * 100) / 100;
-    xTicks.push(t);
-  }
-  const yTicks = React.useMemo(() => {
-    const steps = 4;
-    const ticks: number[] = [];
-    for (let i = 0; i <= steps; i += 1) {
-      const t = valueMin + (i / steps) * (valueMax - valueMin);
-      ticks.push(Math.abs(t) < 1e-6 ? 0 : t);
-    }
-    return ticks;
-  }, [valueMin, valueMax]);
+  const selectedKeyframe = selectedIdx != null ? editingKeyframes[selectedIdx] : undefined;
+  const selectedMode = selectedKeyframe?.interpolation ?? 'linear';
 
   return (
     <VStack align="stretch" gap={1}>
@@ -253,73 +453,7 @@ export const CurveEditor: React.FC<CurveEditorProps> = ({
           onPointerLeave={handlePointerLeaveSVG}
           onContextMenu={handleContextMenu}
         >
-          {/* Axes */}
-          <g>
-            {/* X axis */}
-            <line
-              x1={MARGIN.left}
-              y1={HEIGHT - MARGIN.bottom}
-              x2={WIDTH - MARGIN.right}
-              y2={HEIGHT - MARGIN.bottom}
-              stroke="#aaa"
-              strokeWidth={1.5}
-            />
-            {/* Y axis */}
-            <line
-              x1={MARGIN.left}
-              y1={MARGIN.top}
-              x2={MARGIN.left}
-              y2={HEIGHT - MARGIN.bottom}
-              stroke="#aaa"
-              strokeWidth={1.5}
-            />
-            {/* X ticks */}
-            {xTicks.map((t, i) => {
-              const x = timeToX(t, duration);
-              return (
-                <g key={i}>
-                  <line x1={x} y1={HEIGHT - MARGIN.bottom} x2={x} y2={HEIGHT - MARGIN.bottom + 6} stroke="#aaa" strokeWidth={1} />
-                  <text
-                    x={x}
-                    y={HEIGHT - MARGIN.bottom + 17}
-                    fontSize="10"
-                    textAnchor="middle"
-                    fill="#aaa"
-                  >
-                    {t.toFixed(1)}
-                  </text>
-                </g>
-              );
-            })}
-            {/* Y ticks */}
-            {yTicks.map((v, i) => {
-              const y = valueToY(v, valueMin, valueMax);
-              return (
-                <g key={i}>
-                  <line x1={MARGIN.left - 6} y1={y} x2={MARGIN.left} y2={y} stroke="#aaa" strokeWidth={1} />
-                  <text
-                    x={MARGIN.left - 8}
-                    y={y + 3}
-                    fontSize="10"
-                    textAnchor="end"
-                    fill="#aaa"
-                  >
-                    {v.toFixed(2)}
-                  </text>
-                  {/* Optional: grid lines */}
-                  <line
-                    x1={MARGIN.left}
-                    y1={y}
-                    x2={WIDTH - MARGIN.right}
-                    y2={y}
-                    stroke="#444"
-                    strokeWidth={0.7}
-                    strokeDasharray="3 2"
-                  />
-                </g>
-              );
-            })}
-          </g>
+          <CurveAxes duration={duration} valueMin={valueMin} valueMax={valueMax} />
           {/* Curve path */}
           <path
             d={getPath(editingKeyframes, duration, valueMin, valueMax)}
@@ -352,6 +486,7 @@ export const CurveEditor: React.FC<CurveEditorProps> = ({
             const x = timeToX(kf.time, duration);
             const y = valueToY(kf.value, valueMin, valueMax);
             const isActive = i === dragIdx || i === hoverIdx;
+            const isSelected = i === selectedIdx;
             return (
               <circle
                 key={i}
@@ -359,14 +494,38 @@ export const CurveEditor: React.FC<CurveEditorProps> = ({
                 cy={y}
                 r={isActive ? POINT_RADIUS + 2 : POINT_RADIUS}
                 fill={isActive ? "#fbbf24" : "#38bdf8"}
-                stroke="#222"
-                strokeWidth={isActive ? 2 : 1}
+                stroke={isSelected ? "#fbbf24" : "#222"}
+                strokeWidth={isActive || isSelected ? 2 : 1}
                 style={{ pointerEvents: 'all', cursor: 'pointer' }}
               />
             );
           })}
+          {/* Bezier handles for the selected keyframe */}
+          {selectedKeyframe && visibleHandles(editingKeyframes, selectedIdx!).map((side) => {
+            const off = handleOffset(editingKeyframes, selectedIdx!, side);
+            const x = timeToX(selectedKeyframe.time, duration);
+            const y = valueToY(selectedKeyframe.value, valueMin, valueMax);
+            const hx = timeToX(selectedKeyframe.time + off.dt, duration);
+            const hy = valueToY(selectedKeyframe.value + off.dv, valueMin, valueMax);
+            const isActive = dragHandle === side;
+            return (
+              <g key={side}>
+                <line x1={x} y1={y} x2={hx} y2={hy} stroke="#f472b6" strokeWidth={1.5} pointerEvents="none" />
+                <rect
+                  x={hx - HANDLE_RADIUS}
+                  y={hy - HANDLE_RADIUS}
+                  width={HANDLE_RADIUS * 2}
+                  height={HANDLE_RADIUS * 2}
+                  fill={isActive ? "#fbbf24" : "#f472b6"}
+                  stroke="#222"
+                  strokeWidth={1}
+                  style={{ pointerEvents: 'all', cursor: 'move' }}
+                />
+              </g>
+            );
+          })}
           {/* Drag preview: show point value/time */}
-          {dragIdx != null && editingKeyframes[dragIdx] && (
+          {dragIdx != null && dragHandle == null && editingKeyframes[dragIdx] && (
             <g pointerEvents="none">
               <rect
                 x={timeToX(editingKeyframes[dragIdx].time, duration) + 12}
@@ -393,8 +552,353 @@ export const CurveEditor: React.FC<CurveEditorProps> = ({
           )}
         </svg>
       </Box>
+      {selectedKeyframe && selectedIdx! < editingKeyframes.length - 1 && (
+        <HStack gap={1} flexWrap="wrap">
+          {CURVE_INTERPOLATIONS.map((mode) => (
+            <Button
+              key={mode}
+              size="2xs"
+              variant={mode === selectedMode ? 'solid' : 'outline'}
+              colorPalette="brand"
+              onClick={() => setSelectedInterpolation(mode)}
+            >
+              {INTERPOLATION_LABELS[mode]}
+            </Button>
+          ))}
+        </HStack>
+      )}
+      <Text fontSize="xs" color="white" mt={1} opacity={0.8}>
+        Click to add keyframe. Drag to move. Right-click to delete. Select a keyframe to set its interpolation; drag pink handles to shape Bezier segments.
+      </Text>
+    </VStack>
+  );
+};
+
+// ============ Multi-curve editor (edit session) ============
+
+const CURVE_COLORS = ['#38bdf8', '#f472b6', '#a3e635', '#fbbf24', '#c084fc', '#fb7185', '#2dd4bf', '#f97316'];
+const SNAP_FPS_OPTIONS = [24, 30, 60];
+const NUDGE_TIME = 0.01;   // seconds per arrow press when snapping is off
+const NUDGE_VALUE = 0.01;  // value per arrow press
+const BOX_MIN_PX = 3;      // smaller drags count as a click
+
+const fromCurvePoint = (k: CurvePoint): Keyframe => ({
+  time: k.time,
+  value: k.intensity,
+  interpolation: k.interpolation,
+  inTangent: k.inTangent,
+  outTangent: k.outTangent,
+});
+
+export interface SnippetCurveEditorProps {
+  session: CurveEditSession;
+  duration?: number;      // seconds shown on the time axis (grows to fit the keys)
+  currentTime?: number;   // playhead; paste target
+  isPlaying?: boolean;
+  curveLabels?: Record<string, string>;
+}
+
+/**
+ * SnippetCurveEditor - edits every curve of a snippet together through a CurveEditSession.
+ * Click or box-drag to select keys across curves, drag to move them, double-click to add a key
+ * on the active curve. Keyboard: arrows nudge (Shift = x10), Ctrl/Cmd+Z / Shift+Z / Y undo/redo,
+ * Ctrl/Cmd+C / V copy/paste at the playhead, Ctrl/Cmd+A select all, Delete removes.
+ */
+export const SnippetCurveEditor: React.FC<SnippetCurveEditorProps> = ({
+  session,
+  duration = 2.0,
+  currentTime = 0,
+  isPlaying = false,
+  curveLabels = {},
+}) => {
+  const curves = session.getCurves();
+  const curveIds = Object.keys(curves);
+  const snap = session.getSnap();
+  const selection = session.getSelection();
+  const [activeCurve, setActiveCurve] = useState<string | null>(null);
+  const [box, setBox] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const valueMin = 0;
+  const valueMax = 1;
+
+  const lastKeyTime = Math.max(0, ...curveIds.map(id => curves[id][curves[id].length - 1]?.time ?? 0));
+  const plotDuration = Math.max(duration, lastKeyTime, 0.5);
+  const targetCurve = activeCurve && curves[activeCurve] ? activeCurve : curveIds[0] ?? null;
+
+  const toSvgCoords = (e: { clientX: number; clientY: number }) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { svgX: e.clientX - rect.left, svgY: e.clientY - rect.top };
+  };
+
+  const hitTest = (x: number, y: number): KeyRef | null => {
+    let best: KeyRef | null = null;
+    let bestDist = HIT_RADIUS;
+    for (const curveId of curveIds) {
+      curves[curveId].forEach((k, index) => {
+        const dist = Math.hypot(timeToX(k.time, plotDuration) - x, valueToY(k.intensity, valueMin, valueMax) - y);
+        if (dist < bestDist) {
+          bestDist = dist;
+          best = { curveId, index };
+        }
+      });
+    }
+    return best;
+  };
+
+  const beginKeyDrag = (start: { svgX: number; svgY: number }) => {
+    session.beginGesture();
+    const onMove = (e: PointerEvent) => {
+      const { svgX, svgY } = toSvgCoords(e);
+      const dt = ((svgX - start.svgX) / INNER_W) * plotDuration;
+      const dv = -((svgY - start.svgY) / INNER_H) * (valueMax - valueMin);
+      session.dragSelection(dt, dv);
+    };
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      session.endGesture();
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
+
+  const beginBoxSelect = (start: { svgX: number; svgY: number }, additive: boolean) => {
+    let current = { x0: start.svgX, y0: start.svgY, x1: start.svgX, y1: start.svgY };
+    setBox(current);
+    const onMove = (e: PointerEvent) => {
+      const { svgX, svgY } = toSvgCoords(e);
+      current = { ...current, x1: svgX, y1: svgY };
+      setBox(current);
+    };
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      setBox(null);
+      if (Math.abs(current.x1 - current.x0) < BOX_MIN_PX && Math.abs(current.y1 - current.y0) < BOX_MIN_PX) {
+        if (!additive) session.clearSelection();
+        return;
+      }
+      session.boxSelect({
+        t0: xToTimeUnclamped(current.x0, plotDuration),
+        t1: xToTimeUnclamped(current.x1, plotDuration),
+        v0: yToValueUnclamped(current.y0, valueMin, valueMax),
+        v1: yToValueUnclamped(current.y1, valueMin, valueMax),
+      }, { additive });
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!svgRef.current || e.button !== 0) return;
+    const coords = toSvgCoords(e);
+    const ref = hitTest(coords.svgX, coords.svgY);
+    if (!ref) {
+      beginBoxSelect(coords, e.shiftKey);
+      return;
+    }
+    setActiveCurve(ref.curveId);
+    if (e.shiftKey) {
+      session.toggle(ref);
+      return;
+    }
+    if (!session.isSelected(ref.curveId, ref.index)) session.select([ref]);
+    beginKeyDrag(coords);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (!svgRef.current || !targetCurve) return;
+    const { svgX, svgY } = toSvgCoords(e);
+    if (hitTest(svgX, svgY)) return;
+    session.insertKey(targetCurve, xToTime(svgX, plotDuration), yToValue(svgY, valueMin, valueMax));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const mod = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+    const step = e.shiftKey ? 10 : 1;
+    const frame = snap.enabled ? 1 / snap.fps : NUDGE_TIME;
+    let handled = true;
+
+    if (mod && key === 'z') {
+      if (e.shiftKey) session.redo(); else session.undo();
+    } else if (mod && key === 'y') {
+      session.redo();
+    } else if (mod && key === 'c') {
+      session.copy();
+    } else if (mod && key === 'v') {
+      session.paste(currentTime, targetCurve ?? undefined);
+    } else if (mod && key === 'a') {
+      session.selectAll();
+    } else if (key === 'delete' || key === 'backspace') {
+      session.deleteSelection();
+    } else if (key === 'arrowleft' || key === 'arrowright') {
+      session.nudge((key === 'arrowleft' ? -frame : frame) * step, 0);
+    } else if (key === 'arrowup' || key === 'arrowdown') {
+      session.nudge(0, (key === 'arrowdown' ? -NUDGE_VALUE : NUDGE_VALUE) * step);
+    } else if (key === 'escape') {
+      session.cancelGesture();
+      session.clearSelection();
+    } else {
+      handled = false;
+    }
+    if (handled) e.preventDefault();
+  };
+
+  const cycleSnapFps = () => {
+    const idx = SNAP_FPS_OPTIONS.indexOf(snap.fps);
+    session.setSnap({ fps: SNAP_FPS_OPTIONS[(idx + 1) % SNAP_FPS_OPTIONS.length] });
+  };
+
+  const selectedModes = new Set(selection.map(r => curves[r.curveId]?.[r.index]?.interpolation ?? 'linear'));
+
+  return (
+    <VStack align="stretch" gap={1}>
+      <HStack gap={1} flexWrap="wrap">
+        <Button size="2xs" variant="outline" colorPalette="brand" onClick={() => session.undo()} disabled={!session.canUndo()}>
+          Undo
+        </Button>
+        <Button size="2xs" variant="outline" colorPalette="brand" onClick={() => session.redo()} disabled={!session.canRedo()}>
+          Redo
+        </Button>
+        <Button size="2xs" variant="outline" colorPalette="brand" onClick={() => session.copy()} disabled={!selection.length}>
+          Copy
+        </Button>
+        <Button
+          size="2xs"
+          variant="outline"
+          colorPalette="brand"
+          onClick={() => session.paste(currentTime, targetCurve ?? undefined)}
+          disabled={!session.hasClipboard()}
+        >
+          Paste
+        </Button>
+        <Button size="2xs" variant="outline" colorPalette="red" onClick={() => session.deleteSelection()} disabled={!selection.length}>
+          Delete
+        </Button>
+        <Button
+          size="2xs"
+          variant={snap.enabled ? 'solid' : 'outline'}
+          colorPalette="teal"
+          onClick={() => session.setSnap({ enabled: !snap.enabled })}
+        >
+          Snap
+        </Button>
+        <Button size="2xs" variant="ghost" colorPalette="teal" onClick={cycleSnapFps}>
+          {snap.fps} fps
+        </Button>
+        {isPlaying && (
+          <HStack gap={1} ml="auto">
+            <Box w={2} h={2} borderRadius="full" bg="green.400" />
+            <Text fontSize="xs" color="green.400" fontWeight="bold">Playing</Text>
+          </HStack>
+        )}
+      </HStack>
+      <Box
+        border="1px solid"
+        borderColor="gray.600"
+        rounded="md"
+        bg="gray.800"
+        w={`${WIDTH}px`}
+        h={`${HEIGHT}px`}
+        userSelect="none"
+        tabIndex={0}
+        outline="none"
+        _focus={{ borderColor: 'brand.400' }}
+        onKeyDown={handleKeyDown}
+      >
+        <svg
+          ref={svgRef}
+          width={WIDTH}
+          height={HEIGHT}
+          style={{ display: 'block', cursor: 'crosshair' }}
+          onPointerDown={handlePointerDown}
+          onDoubleClick={handleDoubleClick}
+          onContextMenu={(e) => e.preventDefault()}
+        >
+          <CurveAxes duration={plotDuration} valueMin={valueMin} valueMax={valueMax} />
+          {curveIds.map((curveId, ci) => (
+            <path
+              key={curveId}
+              d={getPath(curves[curveId].map(fromCurvePoint), plotDuration, valueMin, valueMax)}
+              fill="none"
+              stroke={CURVE_COLORS[ci % CURVE_COLORS.length]}
+              strokeWidth={curveId === targetCurve ? 2.5 : 1.5}
+              opacity={curveId === targetCurve ? 1 : 0.7}
+            />
+          ))}
+          {currentTime >= 0 && currentTime <= plotDuration && (
+            <line
+              x1={timeToX(currentTime, plotDuration)}
+              y1={MARGIN.top}
+              x2={timeToX(currentTime, plotDuration)}
+              y2={HEIGHT - MARGIN.bottom}
+              stroke="#22c55e"
+              strokeWidth={1.5}
+              strokeDasharray="4 2"
+              pointerEvents="none"
+            />
+          )}
+          {curveIds.map((curveId, ci) => curves[curveId].map((k, index) => {
+            const selected = session.isSelected(curveId, index);
+            return (
+              <circle
+                key={`${curveId}-${index}`}
+                cx={timeToX(k.time, plotDuration)}
+                cy={valueToY(k.intensity, valueMin, valueMax)}
+                r={selected ? POINT_RADIUS - 1 : POINT_RADIUS - 3}
+                fill={selected ? '#fbbf24' : CURVE_COLORS[ci % CURVE_COLORS.length]}
+                stroke="#222"
+                strokeWidth={1}
+              />
+            );
+          }))}
+          {box && (
+            <rect
+              x={Math.min(box.x0, box.x1)}
+              y={Math.min(box.y0, box.y1)}
+              width={Math.abs(box.x1 - box.x0)}
+              height={Math.abs(box.y1 - box.y0)}
+              fill="#38bdf8"
+              fillOpacity={0.12}
+              stroke="#38bdf8"
+              strokeDasharray="3 2"
+              pointerEvents="none"
+            />
+          )}
+        </svg>
+      </Box>
+      <HStack gap={1} flexWrap="wrap">
+        {curveIds.map((curveId, ci) => (
+          <Button
+            key={curveId}
+            size="2xs"
+            variant={curveId === targetCurve ? 'solid' : 'outline'}
+            colorPalette="gray"
+            onClick={() => setActiveCurve(curveId)}
+          >
+            <Box w={2} h={2} borderRadius="full" bg={CURVE_COLORS[ci % CURVE_COLORS.length]} />
+            {curveLabels[curveId] ?? (/^\d+$/.test(curveId) ? `AU ${curveId}` : curveId)}
+          </Button>
+        ))}
+      </HStack>
+      {selection.length > 0 && (
+        <HStack gap={1} flexWrap="wrap">
+          {CURVE_INTERPOLATIONS.map((mode) => (
+            <Button
+              key={mode}
+              size="2xs"
+              variant={selectedModes.size === 1 && selectedModes.has(mode) ? 'solid' : 'outline'}
+              colorPalette="brand"
+              onClick={() => session.setInterpolation(mode)}
+            >
+              {INTERPOLATION_LABELS[mode]}
+            </Button>
+          ))}
+        </HStack>
+      )}
       <Text fontSize="xs" color="white" mt={1} opacity={0.8}>
-        Click to add keyframe. Drag to move. Right-click to delete.
+        Drag a box to select across curves, Shift-click to add to the selection, drag keys to move them. Double-click adds a key on the highlighted curve. Arrows nudge, Ctrl/Cmd+Z/Y undo/redo, Ctrl/Cmd+C/V copy/paste at the playhead, Delete removes.
       </Text>
     </VStack>
   );
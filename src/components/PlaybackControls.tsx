@@ -25,8 +25,10 @@ import {
   FaChevronDown,
   FaChevronRight,
 } from 'react-icons/fa';
-import { ChevronDown, Film } from 'lucide-react';
-import { useThreeState } from '../context/threeContext';
+import { ChevronDown, Film, Box as BoxIcon } from 'lucide-react';
+import { useThreeState, useThreeOptional } from '../context/threeContext';
+import { timelineEntriesToAnimationClip, downloadClipsAsGLB, findCharacterRoot } from '../services/animationExportService';
+import { parseLiveLinkCSV } from '../latticework/animation/liveLinkImport';
 import { useSnippets, useBakedClips, usePlayingBakedAnimations } from '../hooks/useAnimationStream';
 import type { BakedClipInfo, BakedAnimationUIState } from '../latticework/animation/animationEvents';
 
@@ -178,6 +180,7 @@ const DEFAULT_AGENCY_INFO: AgencyInfo = { name: 'Unknown', description: 'Unknown
  */
 function PlaybackControls() {
   const { anim, engine } = useThreeState();
+  const scene = useThreeOptional()?.scene ?? null;
   const [enginePaused, setEnginePaused] = useState(false);
 
   const [jsonFilename, setJsonFilename] = useState('animation.json');
@@ -314,16 +317,29 @@ function PlaybackControls() {
     }
   }
 
-  // Load animation from JSON file
+  // Load animation from JSON file (or a Live Link Face CSV capture)
   function handleLoadFromFile(e: React.ChangeEvent<HTMLInputElement>) {
     if (!e.target.files?.length) return;
     const file = e.target.files[0];
     const base = file.name.replace(/\.\w+$/, '');
 
+    const isCSV = /\.csv$/i.test(file.name);
+
     const reader = new FileReader();
     reader.onload = (evt) => {
+      const text = evt.target?.result as string;
+      if (isCSV) {
+        // Live Link Face / ARKit blendshape recording
+        const snippet = parseLiveLinkCSV(text, { name: base });
+        if (!snippet) {
+          toaster.error({ title: 'Unrecognized CSV', description: 'No ARKit blendshape or head rotation columns found' });
+          return;
+        }
+        anim?.schedule?.(snippet, { priority: 0 });
+        toaster.success({ title: 'Imported Face Capture', description: `${file.name} (${snippet.au?.length ?? 0} keys)` });
+        return;
+      }
       try {
-        const text = evt.target?.result as string;
         const parsed = JSON.parse(text);
         parsed.name = parsed.name || base;
         anim?.schedule?.(parsed, { priority: 0 });
@@ -366,6 +382,44 @@ function PlaybackControls() {
     toaster.success({ title: 'Downloaded JSON', description: filename });
   }
 
+  // Export the current timeline (all enabled snippets, blended) as a glTF animation clip
+  async function handleDownloadGLB() {
+    const animations = anim?.getState?.()?.context?.animations || [];
+    const model = scene ? findCharacterRoot(scene) : null;
+    if (!animations.length || !model || !engine) {
+      toaster.error({ title: 'Nothing to export', description: 'Load a character and at least one snippet' });
+      return;
+    }
+
+    const schedule = anim.getScheduleSnapshot();
+    const exported = animations
+      .map((sn: any) => ({ sn, rt: schedule.find(r => r.name === sn.name) }))
+      .filter(({ sn, rt }) => sn.isPlaying !== false || rt?.enabled);
+    if (!exported.length) {
+      toaster.error({ title: 'Nothing to export', description: 'Play or enable at least one snippet' });
+      return;
+    }
+    // startsAt is session play-time; shift so the clip begins with the first snippet
+    const firstStart = Math.min(...exported.map(({ rt }) => rt?.startsAt ?? 0));
+    const entries = exported.map(({ sn, rt }) => ({
+      snippet: sn,
+      opts: { startAtSec: (rt?.startsAt ?? 0) - firstStart, offsetSec: rt?.offset ?? 0 },
+    }));
+
+    const base = jsonFilename.replace(/\.\w+$/, '') || 'animation';
+    try {
+      const clip = timelineEntriesToAnimationClip(entries, model, engine.getAUMappings(), {
+        name: base,
+        fps: 30,
+        layers: anim.getLayers?.(),
+      });
+      await downloadClipsAsGLB(model, [clip], `${base}.glb`);
+      toaster.success({ title: 'Downloaded glTF', description: `${base}.glb (${clip.tracks.length} tracks)` });
+    } catch (err: any) {
+      toaster.error({ title: 'glTF export failed', description: err.message });
+    }
+  }
+
   // Snippet controls - memoized to prevent SnippetCard rerenders
   const handlePlaySnippet = useCallback((name: string) => {
     anim?.setSnippetPlaying?.(name, true);
@@ -776,9 +830,17 @@ function PlaybackControls() {
         >
           <FaDownload />
         </IconButton>
+        <IconButton
+          aria-label="Download glTF"
+          colorPalette="teal"
+          size="sm"
+          onClick={handleDownloadGLB}
+        >
+          <BoxIcon size={14} />
+        </IconButton>
         <input
           type="file"
-          accept=".json"
+          accept=".json,.csv"
           style={{ display: 'none' }}
           id="json-file-input"
           onChange={handleLoadFromFile}
@@ -786,7 +848,7 @@ function PlaybackControls() {
         <label htmlFor="json-file-input">
           <IconButton
             as="span"
-            aria-label="Load from JSON"
+            aria-label="Load from JSON or Live Link CSV"
             colorPalette="orange"
             size="sm"
           >
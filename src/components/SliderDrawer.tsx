@@ -136,7 +136,7 @@ interface SliderDrawerProps {
   disabled?: boolean;
 }
 
-type Keyframe = { time: number; value: number };
+type Keyframe = Pick<CurvePoint, 'interpolation' | 'inTangent' | 'outTangent'> & { time: number; value: number };
 
 type SnippetCurveData = {
   snippetName: string;
@@ -148,7 +148,10 @@ type SnippetCurveData = {
 function curvePointsToKeyframes(points: CurvePoint[]): Keyframe[] {
   return points.map(p => ({
     time: p.time,
-    value: p.intensity > 1 ? p.intensity / 100 : p.intensity
+    value: p.intensity > 1 ? p.intensity / 100 : p.intensity,
+    interpolation: p.interpolation,
+    inTangent: p.inTangent,
+    outTangent: p.outTangent,
   }));
 }
 
@@ -8,8 +8,11 @@ import {
   Switch,
   Flex,
 } from '@chakra-ui/react';
-import { FaPlay, FaPause, FaTrashAlt, FaClock } from 'react-icons/fa';
+import { FaPlay, FaPause, FaTrashAlt, FaClock, FaBezierCurve } from 'react-icons/fa';
 import { useSnippetState } from '../hooks/useAnimationStream';
+import { useCurveEditSession } from '../hooks/useCurveEditSession';
+import { useThreeState } from '../context/threeContext';
+import { SnippetCurveEditor } from './CurveEditor';
 
 interface SnippetCardProps {
   snippetName: string;
@@ -22,6 +25,27 @@ interface SnippetCardProps {
   onIntensityScale: (name: string, val: number) => void;
 }
 
+/**
+ * Curve editor panel for a snippet. Mounted only while open so the edit session
+ * (and its undo history) is created on demand.
+ */
+function SnippetCurvesPanel({ snippetName }: { snippetName: string }) {
+  const { anim } = useThreeState();
+  const session = useCurveEditSession(anim, snippetName);
+  const snippet = useSnippetState(snippetName);
+
+  return (
+    <Box mt={2}>
+      <SnippetCurveEditor
+        session={session}
+        duration={snippet?.duration}
+        currentTime={snippet?.currentTime}
+        isPlaying={snippet?.isPlaying}
+      />
+    </Box>
+  );
+}
+
 /**
  * SnippetCard - Component for rendering a single animation snippet
  *
@@ -45,6 +69,7 @@ function SnippetCard({
   const [localTime, setLocalTime] = useState(snippet?.currentTime ?? 0);
   const [localRate, setLocalRate] = useState(snippet?.playbackRate ?? 1);
   const [localIntensity, setLocalIntensity] = useState(snippet?.intensityScale ?? 1);
+  const [showCurves, setShowCurves] = useState(false);
 
   // Debounce refs
   const timeTimerRef = useRef<number | null>(null);
@@ -145,6 +170,15 @@ function SnippetCard({
           >
             <FaPause />
           </IconButton>
+          <IconButton
+            size="xs"
+            colorPalette="brand"
+            variant={showCurves ? 'solid' : 'outline'}
+            aria-label="Edit curves"
+            onClick={() => setShowCurves(v => !v)}
+          >
+            <FaBezierCurve />
+          </IconButton>
           <IconButton
             size="xs"
             colorPalette="gray"
@@ -230,6 +264,8 @@ function SnippetCard({
           <Slider.Thumb index={0} />
         </Slider.Control>
       </Slider.Root>
+
+      {showCurves && <SnippetCurvesPanel snippetName={snippetName} />}
     </Box>
   );
 }
@@ -9,8 +9,9 @@ import {
   Button,
 } from '@chakra-ui/react';
 import { BlinkService } from '../../latticework/blink/blinkService';
-import { BlinkState } from '../../latticework/blink/types';
+import { BlinkState, BlinkKind } from '../../latticework/blink/types';
 import { useThreeState } from '../../context/threeContext';
+import { useModulesContext } from '../../context/ModulesContext';
 import DockableAccordionItem from './DockableAccordionItem';
 
 interface BlinkSectionProps {
@@ -20,6 +21,7 @@ interface BlinkSectionProps {
 
 function BlinkSection({ disabled = false, defaultExpanded = false }: BlinkSectionProps) {
   const { anim } = useThreeState();
+  const { setBlinkService } = useModulesContext();
   const blinkServiceRef = useRef<BlinkService | null>(null);
   const [state, setState] = useState<BlinkState | null>(null);
 
@@ -36,6 +38,8 @@ function BlinkSection({ disabled = false, defaultExpanded = false }: BlinkSectio
     }
 
     const service = blinkServiceRef.current;
+    // Share it so conversations can drive speech/listening blinks
+    setBlinkService(service);
 
     // Get initial state
     setState(service.getState());
@@ -47,11 +51,12 @@ function BlinkSection({ disabled = false, defaultExpanded = false }: BlinkSectio
 
     return () => {
       unsubscribe();
+      setBlinkService(null);
       // Dispose service on unmount
       service.dispose();
       blinkServiceRef.current = null;
     };
-  }, [anim]);
+  }, [anim, setBlinkService]);
 
   const blinkService = blinkServiceRef.current;
 
@@ -92,8 +97,12 @@ function BlinkSection({ disabled = false, defaultExpanded = false }: BlinkSectio
     blinkService.setRandomness(details.value[0]);
   };
 
-  const handleManualBlink = () => {
-    blinkService.triggerBlink();
+  const handleManualBlink = (kind: BlinkKind = 'full') => {
+    blinkService.triggerBlink(undefined, undefined, kind);
+  };
+
+  const handleSpeechSyncToggle = (details: { checked: boolean }) => {
+    blinkService.setSpeechSync(details.checked);
   };
 
   const handleReset = () => {
@@ -122,15 +131,59 @@ function BlinkSection({ disabled = false, defaultExpanded = false }: BlinkSectio
           </Switch.Root>
         </HStack>
 
-        {/* Manual Blink Button */}
+        {/* Speech Sync Toggle */}
+        <HStack justify="space-between">
+          <VStack align="start" gap={0}>
+            <Text fontSize="xs" color="gray.50">Speech &amp; Gaze Sync</Text>
+            <Text fontSize="xs" color="white" fontStyle="italic">
+              Blink at phrase ends and big gaze shifts, not on stressed words
+            </Text>
+          </VStack>
+          <Switch.Root
+            checked={state.speechSync}
+            onCheckedChange={handleSpeechSyncToggle}
+            disabled={disabled}
+            size="sm"
+            colorPalette="brand"
+          >
+            <Switch.HiddenInput />
+            <Switch.Control>
+              <Switch.Thumb />
+            </Switch.Control>
+          </Switch.Root>
+        </HStack>
+
+        {/* Manual Blink Buttons */}
         <Button
           size="sm"
           colorPalette="blue"
-          onClick={handleManualBlink}
+          onClick={() => handleManualBlink('full')}
           disabled={disabled}
         >
           Trigger Blink Now
         </Button>
+        <HStack gap={2}>
+          <Button
+            size="sm"
+            flex={1}
+            variant="outline"
+            colorPalette="blue"
+            onClick={() => handleManualBlink('half')}
+            disabled={disabled}
+          >
+            Half Blink
+          </Button>
+          <Button
+            size="sm"
+            flex={1}
+            variant="outline"
+            colorPalette="blue"
+            onClick={() => handleManualBlink('double')}
+            disabled={disabled}
+          >
+            Double Blink
+          </Button>
+        </HStack>
 
         {/* Frequency Slider */}
         <VStack align="stretch" gap={1}>
@@ -7,9 +7,21 @@ import {
   Badge,
   Box,
   Switch,
+  Button,
+  NativeSelect,
 } from '@chakra-ui/react';
 import DockableAccordionItem from './DockableAccordionItem';
+import { toaster } from '../ui/toaster';
 import { useModulesContext } from '../../context/ModulesContext';
+import { useEngineState } from '../../context/engineContext';
+import type { EyeHeadTrackingMode } from '../../latticework/eyeHeadTracking/eyeHeadTrackingMachine';
+import {
+  CALIBRATION_POSES,
+  deleteCalibrationProfile,
+  loadCalibrationProfiles,
+  type CalibrationPose,
+  type CalibrationSample,
+} from '../../latticework/eyeHeadTracking/webcamCalibration';
 
 interface EyeHeadTrackingSectionProps {
   engine?: any;
@@ -19,7 +31,8 @@ interface EyeHeadTrackingSectionProps {
 
 function EyeHeadTrackingSection({ engine, disabled = false, defaultExpanded = false }: EyeHeadTrackingSectionProps) {
   const { eyeHeadTrackingService } = useModulesContext();
-  const [trackingMode, setTrackingMode] = useState<'manual' | 'mouse' | 'webcam'>('manual');
+  const { anim } = useEngineState();
+  const [trackingMode, setTrackingMode] = useState<EyeHeadTrackingMode>('manual');
   const [gazeX, setGazeX] = useState(0);
   const [gazeY, setGazeY] = useState(0);
   const [webcamFaceDetected, setWebcamFaceDetected] = useState(false);
@@ -38,6 +51,18 @@ function EyeHeadTrackingSection({ engine, disabled = false, defaultExpanded = fa
   const [headBlendWeight, setHeadBlendWeight] = useState(0.7);
   const [useAnimationAgency, setUseAnimationAgency] = useState(true);
 
+  // Puppeteer (face capture) state
+  const [isRecording, setIsRecording] = useState(false);
+  const [puppeteerSmoothing, setPuppeteerSmoothing] = useState(0.5);
+  const [puppeteerMirror, setPuppeteerMirror] = useState(false);
+
+  // Webcam calibration state (calibrationStep is the pose index while calibrating, null otherwise)
+  const [calibrationProfiles, setCalibrationProfiles] = useState<string[]>(() => Object.keys(loadCalibrationProfiles()));
+  const [activeProfile, setActiveProfile] = useState<string>('');
+  const [calibrationStep, setCalibrationStep] = useState<number | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const calibrationSamples = useRef<Partial<Record<CalibrationPose, CalibrationSample>>>({});
+
   // Initialize service config on mount
   useEffect(() => {
     if (!eyeHeadTrackingService) return;
@@ -55,6 +80,7 @@ function EyeHeadTrackingSection({ engine, disabled = false, defaultExpanded = fa
     });
     eyeHeadTrackingService.setEyeBlendWeight(eyeBlendWeight);
     eyeHeadTrackingService.setHeadBlendWeight(headBlendWeight);
+    setActiveProfile(eyeHeadTrackingService.getCalibrationProfile()?.name ?? '');
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [eyeHeadTrackingService]);
 
@@ -81,12 +107,97 @@ function EyeHeadTrackingSection({ engine, disabled = false, defaultExpanded = fa
     return unsubscribe;
   }, [eyeHeadTrackingService]);
 
-  const handleModeChange = (mode: 'manual' | 'mouse' | 'webcam') => {
+  const handleModeChange = (mode: EyeHeadTrackingMode) => {
     if (!eyeHeadTrackingService) return;
+    // Leaving puppeteer mode discards an unfinished take
+    if (isRecording) {
+      eyeHeadTrackingService.getFacePuppeteer().stopRecording();
+      setIsRecording(false);
+    }
+    setCalibrationStep(null);
     setTrackingMode(mode);
     eyeHeadTrackingService.setMode(mode);
   };
 
+  const handleProfileChange = (name: string) => {
+    setActiveProfile(name);
+    eyeHeadTrackingService?.setCalibrationProfile(name || null);
+  };
+
+  const handleDeleteProfile = () => {
+    if (!activeProfile) return;
+    deleteCalibrationProfile(activeProfile);
+    eyeHeadTrackingService?.setCalibrationProfile(null);
+    setCalibrationProfiles(Object.keys(loadCalibrationProfiles()));
+    setActiveProfile('');
+  };
+
+  const handleStartCalibration = () => {
+    calibrationSamples.current = {};
+    setCalibrationStep(0);
+  };
+
+  // Hold the current pose for a second, then move to the next one (or finish)
+  const handleCalibrationStep = async (capture: boolean) => {
+    if (!eyeHeadTrackingService || calibrationStep === null) return;
+    const { pose } = CALIBRATION_POSES[calibrationStep];
+
+    if (capture) {
+      setIsCapturing(true);
+      const sample = await eyeHeadTrackingService.captureCalibrationSample(1000);
+      setIsCapturing(false);
+      if (!sample) {
+        toaster.error({ title: 'No face detected', description: 'Make sure your face is in view and try again' });
+        return;
+      }
+      calibrationSamples.current[pose] = sample;
+    }
+
+    if (calibrationStep < CALIBRATION_POSES.length - 1) {
+      setCalibrationStep(calibrationStep + 1);
+      return;
+    }
+
+    setCalibrationStep(null);
+    const name = prompt('Name this calibration profile:', activeProfile || 'default');
+    if (!name) return;
+    const profile = eyeHeadTrackingService.createCalibrationProfile(name, calibrationSamples.current);
+    setCalibrationProfiles(Object.keys(loadCalibrationProfiles()));
+    setActiveProfile(profile.name);
+    toaster.success({ title: 'Calibration Saved', description: `Profile "${profile.name}" is now active` });
+  };
+
+  // Record a puppeteer take and load it into the animation service as an AU snippet
+  const handleToggleRecording = () => {
+    if (!eyeHeadTrackingService) return;
+    const puppeteer = eyeHeadTrackingService.getFacePuppeteer();
+
+    if (!isRecording) {
+      puppeteer.startRecording();
+      setIsRecording(true);
+      return;
+    }
+
+    setIsRecording(false);
+    const snippet = puppeteer.stopRecording(`puppeteer_${Date.now()}`);
+    if (!snippet) {
+      toaster.error({ title: 'Nothing recorded', description: 'No face was captured during the take' });
+      return;
+    }
+    if (!anim) {
+      toaster.error({ title: 'Animation service not available' });
+      return;
+    }
+    anim.schedule(snippet, { priority: 0 });
+    toaster.success({ title: 'Recorded Take', description: `${snippet.name} (${snippet.au?.length ?? 0} keys)` });
+  };
+
+  const handlePuppeteerConfigChange = (config: { smoothing?: number; mirror?: boolean }) => {
+    eyeHeadTrackingService?.updateConfig({
+      puppeteer: { ...eyeHeadTrackingService.getFacePuppeteer().getConfig(), ...config },
+    });
+  };
+
   const handleManualGazeChange = (x: number, y: number) => {
     setGazeX(x);
     setGazeY(y);
@@ -137,18 +248,108 @@ function EyeHeadTrackingSection({ engine, disabled = false, defaultExpanded = fa
                 <Switch.Control><Switch.Thumb /></Switch.Control>
               </Switch.Root>
             </HStack>
+            <HStack justify="space-between" bg={trackingMode === 'puppeteer' ? 'orange.900' : 'gray.800'} p={2} borderRadius="md">
+              <Text fontSize="sm" color={trackingMode === 'puppeteer' ? 'orange.100' : 'gray.400'}>Puppeteer (Face Capture) {webcamFaceDetected && trackingMode === 'puppeteer' && '🎭'}</Text>
+              <Switch.Root checked={trackingMode === 'puppeteer'} onCheckedChange={(d) => d.checked && handleModeChange('puppeteer')} size="sm" colorPalette="orange" disabled={disabled}>
+                <Switch.HiddenInput />
+                <Switch.Control><Switch.Thumb /></Switch.Control>
+              </Switch.Root>
+            </HStack>
           </VStack>
         </Box>
 
         {/* Webcam Preview */}
-        {trackingMode === 'webcam' && (
+        {(trackingMode === 'webcam' || trackingMode === 'puppeteer') && (
           <Box>
             <HStack gap={2} mb={2}>
               <Text fontSize="sm" color="white">Face Detection:</Text>
               <Badge colorPalette={webcamFaceDetected ? 'green' : 'yellow'}>{webcamFaceDetected ? 'Detected' : 'Searching...'}</Badge>
             </HStack>
             <Box ref={videoContainerRef} position="relative" display="inline-block" width="100%" minHeight="200px" bg="black" borderRadius="md" />
-            <Text fontSize="xs" color="white" mt={2}>{eyeHeadTrackingService?.isWebcamActive() ? 'Webcam active - character tracking your face' : 'Initializing webcam...'}</Text>
+            <Text fontSize="xs" color="white" mt={2}>
+              {!eyeHeadTrackingService?.isWebcamActive()
+                ? 'Initializing webcam...'
+                : trackingMode === 'puppeteer'
+                  ? 'Webcam active - character mirrors your head and expression'
+                  : 'Webcam active - character tracking your face'}
+            </Text>
+          </Box>
+        )}
+
+        {/* Calibration */}
+        {(trackingMode === 'webcam' || trackingMode === 'puppeteer') && (
+          <Box>
+            <Text fontSize="sm" fontWeight="bold" mb={2} color="white">Calibration</Text>
+            {calibrationStep === null ? (
+              <VStack gap={2} align="stretch">
+                <HStack gap={2}>
+                  <NativeSelect.Root size="sm">
+                    <NativeSelect.Field
+                      value={activeProfile}
+                      onChange={(e) => handleProfileChange(e.target.value)}
+                      style={{ background: '#2D3748', color: 'white', borderColor: '#4A5568' }}
+                    >
+                      <option value="">Default (uncalibrated)</option>
+                      {calibrationProfiles.map((name) => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </NativeSelect.Field>
+                  </NativeSelect.Root>
+                  <Button size="sm" variant="outline" colorPalette="red" onClick={handleDeleteProfile} disabled={disabled || !activeProfile}>
+                    Delete
+                  </Button>
+                </HStack>
+                <Button size="sm" colorPalette="cyan" onClick={handleStartCalibration} disabled={disabled || !webcamFaceDetected}>
+                  Calibrate
+                </Button>
+              </VStack>
+            ) : (
+              <VStack gap={2} align="stretch" bg="cyan.900" p={3} borderRadius="md">
+                <Text fontSize="xs" color="cyan.200">Step {calibrationStep + 1} of {CALIBRATION_POSES.length}</Text>
+                <Text fontSize="sm" color="cyan.100">{CALIBRATION_POSES[calibrationStep].prompt}</Text>
+                <HStack gap={2}>
+                  <Button size="sm" colorPalette="cyan" onClick={() => handleCalibrationStep(true)} loading={isCapturing} disabled={disabled}>
+                    Capture
+                  </Button>
+                  {CALIBRATION_POSES[calibrationStep].optional && (
+                    <Button size="sm" variant="outline" onClick={() => handleCalibrationStep(false)} disabled={disabled || isCapturing}>
+                      Skip
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => setCalibrationStep(null)} disabled={isCapturing}>
+                    Cancel
+                  </Button>
+                </HStack>
+              </VStack>
+            )}
+          </Box>
+        )}
+
+        {/* Puppeteer Controls */}
+        {trackingMode === 'puppeteer' && (
+          <Box>
+            <Text fontSize="sm" fontWeight="bold" mb={2} color="white">Face Capture</Text>
+            <VStack gap={3} align="stretch">
+              <Button size="sm" colorPalette={isRecording ? 'red' : 'orange'} onClick={handleToggleRecording} disabled={disabled}>
+                {isRecording ? 'Stop Recording' : 'Record Take'}
+              </Button>
+              <VStack gap={1} align="stretch">
+                <HStack justify="space-between">
+                  <Text fontSize="xs" color="white">Smoothing</Text>
+                  <Text fontSize="xs" color="white" fontFamily="mono">{puppeteerSmoothing.toFixed(2)}</Text>
+                </HStack>
+                <Slider.Root value={[puppeteerSmoothing]} onValueChange={(d) => { setPuppeteerSmoothing(d.value[0]); handlePuppeteerConfigChange({ smoothing: d.value[0] }); }} min={0} max={0.95} step={0.01} disabled={disabled}>
+                  <Slider.Control><Slider.Track><Slider.Range /></Slider.Track><Slider.Thumb index={0} /></Slider.Control>
+                </Slider.Root>
+              </VStack>
+              <HStack justify="space-between">
+                <Text fontSize="xs" color="white">Mirror Left/Right</Text>
+                <Switch.Root checked={puppeteerMirror} onCheckedChange={(d) => { setPuppeteerMirror(d.checked); handlePuppeteerConfigChange({ mirror: d.checked }); }} size="sm" colorPalette="orange" disabled={disabled}>
+                  <Switch.HiddenInput />
+                  <Switch.Control><Switch.Thumb /></Switch.Control>
+                </Switch.Root>
+              </HStack>
+            </VStack>
           </Box>
         )}
 
@@ -1,5 +1,8 @@
 import React, { createContext, useContext, useState, ReactNode, useMemo, useCallback } from 'react';
 import type { EyeHeadTrackingService } from '../latticework/eyeHeadTracking/eyeHeadTrackingService';
+import type { EmotionServiceAPI } from '../latticework/emotion/emotionService';
+import type { BlinkServiceAPI } from '../latticework/blink/blinkService';
+import type { BackchannelServiceAPI } from '../latticework/backchannel/backchannelService';
 import type { AnnotationCameraController } from '../camera';
 import type { MarkerStyle } from '../camera/types';
 
@@ -14,6 +17,12 @@ interface ModulesContextType {
   setSpeakingText: (value: string | null) => void;
   eyeHeadTrackingService: EyeHeadTrackingService | null;
   setEyeHeadTrackingService: (service: EyeHeadTrackingService | null) => void;
+  emotionService: EmotionServiceAPI | null;
+  setEmotionService: (service: EmotionServiceAPI | null) => void;
+  blinkService: BlinkServiceAPI | null;
+  setBlinkService: (service: BlinkServiceAPI | null) => void;
+  backchannelService: BackchannelServiceAPI | null;
+  setBackchannelService: (service: BackchannelServiceAPI | null) => void;
   cameraController: AnnotationCameraController | null;
   setCameraController: (controller: AnnotationCameraController | null) => void;
   markersVisible: boolean;
@@ -38,6 +47,9 @@ export const ModulesProvider: React.FC<{ children: ReactNode }> = ({ children })
   const [transcribedText, setTranscribedText] = useState<string | null>(null);
   const [speakingText, setSpeakingText] = useState<string | null>(null);
   const [eyeHeadTrackingService, setEyeHeadTrackingService] = useState<EyeHeadTrackingService | null>(null);
+  const [emotionService, setEmotionService] = useState<EmotionServiceAPI | null>(null);
+  const [blinkService, setBlinkService] = useState<BlinkServiceAPI | null>(null);
+  const [backchannelService, setBackchannelService] = useState<BackchannelServiceAPI | null>(null);
   const [cameraController, setCameraController] = useState<AnnotationCameraController | null>(null);
   const [markersVisible, setMarkersVisibleState] = useState(true);
   const [markerStyle, setMarkerStyleState] = useState<MarkerStyle>('3d');
@@ -65,13 +77,19 @@ export const ModulesProvider: React.FC<{ children: ReactNode }> = ({ children })
     setSpeakingText,
     eyeHeadTrackingService,
     setEyeHeadTrackingService,
+    emotionService,
+    setEmotionService,
+    blinkService,
+    setBlinkService,
+    backchannelService,
+    setBackchannelService,
     cameraController,
     setCameraController,
     markersVisible,
     setMarkersVisible,
     markerStyle,
     setMarkerStyle,
-  }), [isTalking, isListening, transcribedText, speakingText, eyeHeadTrackingService, cameraController, markersVisible, setMarkersVisible, markerStyle, setMarkerStyle]);
+  }), [isTalking, isListening, transcribedText, speakingText, eyeHeadTrackingService, emotionService, blinkService, backchannelService, cameraController, markersVisible, setMarkersVisible, markerStyle, setMarkerStyle]);
 
   return (
     <ModulesContext.Provider value={value}>
@@ -10,20 +10,25 @@
  * - Per-snippet subscriptions for granular control
  * - `distinctUntilChanged` prevents redundant re-renders
  * - Events are just notifications; state is read from XState actor
+ *
+ * Each hook follows the active character's animation service (from ThreeContext),
+ * falling back to the shared emitter outside a provider or before the engine is ready.
  */
 
 import { useState, useEffect, useRef } from 'react';
 import { filter } from 'rxjs/operators';
+import { useThreeOptional } from '../context/threeContext';
 import {
   animationEventEmitter,
   snippetState$,
   snippetTime$,
-  snippetList$,
-  globalPlaybackState$,
-  bakedClipList$,
-  playingBakedAnimations$,
+  snippetListFrom,
+  globalPlaybackStateFrom,
+  bakedClipListFrom,
+  playingBakedAnimationsFrom,
   bakedAnimationState$,
   bakedAnimationProgress$,
+  type AnimationEventEmitter,
 } from '../latticework/animation/animationService';
 import type {
   AnimationEvent,
@@ -32,6 +37,16 @@ import type {
   BakedAnimationUIState,
 } from '../latticework/animation/animationEvents';
 
+// ============ Active emitter ============
+
+/**
+ * Event emitter of the animation service the UI is driving.
+ * Changes when the active character changes, so hooks re-subscribe.
+ */
+export function useAnimationEvents(): AnimationEventEmitter {
+  return useThreeOptional()?.anim?.events ?? animationEventEmitter;
+}
+
 // ============ Hook: Snippet list only ============
 
 /**
@@ -41,14 +56,16 @@ import type {
  * Returns array of snippet names.
  */
 export function useSnippetList(): string[] {
+  const events = useAnimationEvents();
   const [names, setNames] = useState<string[]>(() =>
-    animationEventEmitter.getSnippets().map(s => s.name)
+    events.getSnippets().map(s => s.name)
   );
 
   useEffect(() => {
-    const sub = snippetList$.subscribe(setNames);
+    setNames(events.getSnippets().map(s => s.name));
+    const sub = snippetListFrom(events).subscribe(setNames);
     return () => sub.unsubscribe();
-  }, []);
+  }, [events]);
 
   return names;
 }
@@ -63,14 +80,16 @@ export function useSnippetList(): string[] {
  * @returns SnippetUIState or null if snippet doesn't exist
  */
 export function useSnippetState(snippetName: string): SnippetUIState | null {
+  const events = useAnimationEvents();
   const [state, setState] = useState<SnippetUIState | null>(() =>
-    animationEventEmitter.getSnippet(snippetName)
+    events.getSnippet(snippetName)
   );
 
   useEffect(() => {
-    const sub = snippetState$(snippetName).subscribe(setState);
+    setState(events.getSnippet(snippetName));
+    const sub = snippetState$(snippetName, events).subscribe(setState);
     return () => sub.unsubscribe();
-  }, [snippetName]);
+  }, [snippetName, events]);
 
   return state;
 }
@@ -86,15 +105,17 @@ export function useSnippetState(snippetName: string): SnippetUIState | null {
  * @returns Current time in seconds
  */
 export function useSnippetTime(snippetName: string, throttleMs = 100): number {
+  const events = useAnimationEvents();
   const [time, setTime] = useState<number>(() => {
-    const snippet = animationEventEmitter.getSnippet(snippetName);
+    const snippet = events.getSnippet(snippetName);
     return snippet?.currentTime ?? 0;
   });
 
   useEffect(() => {
-    const sub = snippetTime$(snippetName, throttleMs).subscribe(setTime);
+    setTime(events.getSnippet(snippetName)?.currentTime ?? 0);
+    const sub = snippetTime$(snippetName, throttleMs, events).subscribe(setTime);
     return () => sub.unsubscribe();
-  }, [snippetName, throttleMs]);
+  }, [snippetName, throttleMs, events]);
 
   return time;
 }
@@ -105,14 +126,16 @@ export function useSnippetTime(snippetName: string, throttleMs = 100): number {
  * Subscribe to global playback state changes.
  */
 export function useGlobalPlaybackState(): 'playing' | 'paused' | 'stopped' {
+  const events = useAnimationEvents();
   const [state, setState] = useState<'playing' | 'paused' | 'stopped'>(() =>
-    animationEventEmitter.getGlobalState()
+    events.getGlobalState()
   );
 
   useEffect(() => {
-    const sub = globalPlaybackState$.subscribe(setState);
+    setState(events.getGlobalState());
+    const sub = globalPlaybackStateFrom(events).subscribe(setState);
     return () => sub.unsubscribe();
-  }, []);
+  }, [events]);
 
   return state;
 }
@@ -130,19 +153,20 @@ export function useAnimationEvent(
   eventTypes: AnimationEvent['type'][],
   callback: (event: AnimationEvent) => void
 ) {
+  const events = useAnimationEvents();
   const callbackRef = useRef(callback);
   callbackRef.current = callback;
 
   const typesKey = eventTypes.join(',');
 
   useEffect(() => {
-    const sub = animationEventEmitter.events
+    const sub = events.events
       .pipe(filter(e => eventTypes.includes(e.type)))
       .subscribe(e => callbackRef.current(e));
 
     return () => sub.unsubscribe();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [typesKey]);
+  }, [typesKey, events]);
 }
 
 // ============ Hook: Snippet list with full state ============
@@ -154,20 +178,22 @@ export function useAnimationEvent(
  * Only updates on add/remove events - not on every parameter change.
  */
 export function useSnippets(): SnippetUIState[] {
+  const events = useAnimationEvents();
   const [snippets, setSnippets] = useState<SnippetUIState[]>(() =>
-    animationEventEmitter.getSnippets()
+    events.getSnippets()
   );
 
   useEffect(() => {
+    setSnippets(events.getSnippets());
     // Only subscribe to structural changes (add/remove)
-    const sub = animationEventEmitter.events
+    const sub = events.events
       .pipe(filter(e => e.type === 'SNIPPET_ADDED' || e.type === 'SNIPPET_REMOVED'))
       .subscribe(() => {
-        setSnippets(animationEventEmitter.getSnippets());
+        setSnippets(events.getSnippets());
       });
 
     return () => sub.unsubscribe();
-  }, []);
+  }, [events]);
 
   return snippets;
 }
@@ -179,14 +205,16 @@ export function useSnippets(): SnippetUIState[] {
  * Updates when clips are loaded from a model.
  */
 export function useBakedClips(): BakedClipInfo[] {
+  const events = useAnimationEvents();
   const [clips, setClips] = useState<BakedClipInfo[]>(() =>
-    animationEventEmitter.getBakedClips()
+    events.getBakedClips()
   );
 
   useEffect(() => {
-    const sub = bakedClipList$.subscribe(setClips);
+    setClips(events.getBakedClips());
+    const sub = bakedClipListFrom(events).subscribe(setClips);
     return () => sub.unsubscribe();
-  }, []);
+  }, [events]);
 
   return clips;
 }
@@ -196,14 +224,16 @@ export function useBakedClips(): BakedClipInfo[] {
  * Updates on play/pause/stop/progress events.
  */
 export function usePlayingBakedAnimations(): BakedAnimationUIState[] {
+  const events = useAnimationEvents();
   const [animations, setAnimations] = useState<BakedAnimationUIState[]>(() =>
-    animationEventEmitter.getPlayingBakedAnimations()
+    events.getPlayingBakedAnimations()
   );
 
   useEffect(() => {
-    const sub = playingBakedAnimations$.subscribe(setAnimations);
+    setAnimations(events.getPlayingBakedAnimations());
+    const sub = playingBakedAnimationsFrom(events).subscribe(setAnimations);
     return () => sub.unsubscribe();
-  }, []);
+  }, [events]);
 
   return animations;
 }
@@ -213,14 +243,16 @@ export function usePlayingBakedAnimations(): BakedAnimationUIState[] {
  * Optimal for individual animation controls.
  */
 export function useBakedAnimationState(clipName: string): BakedAnimationUIState | null {
+  const events = useAnimationEvents();
   const [state, setState] = useState<BakedAnimationUIState | null>(() =>
-    animationEventEmitter.getBakedAnimationState(clipName)
+    events.getBakedAnimationState(clipName)
   );
 
   useEffect(() => {
-    const sub = bakedAnimationState$(clipName).subscribe(setState);
+    setState(events.getBakedAnimationState(clipName));
+    const sub = bakedAnimationState$(clipName, events).subscribe(setState);
     return () => sub.unsubscribe();
-  }, [clipName]);
+  }, [clipName, events]);
 
   return state;
 }
@@ -233,15 +265,18 @@ export function useBakedAnimationProgress(
   clipName: string,
   throttleMs = 100
 ): { time: number; duration: number } {
+  const events = useAnimationEvents();
   const [progress, setProgress] = useState<{ time: number; duration: number }>(() => {
-    const state = animationEventEmitter.getBakedAnimationState(clipName);
+    const state = events.getBakedAnimationState(clipName);
     return { time: state?.time ?? 0, duration: state?.duration ?? 0 };
   });
 
   useEffect(() => {
-    const sub = bakedAnimationProgress$(clipName, throttleMs).subscribe(setProgress);
+    const state = events.getBakedAnimationState(clipName);
+    setProgress({ time: state?.time ?? 0, duration: state?.duration ?? 0 });
+    const sub = bakedAnimationProgress$(clipName, throttleMs, events).subscribe(setProgress);
     return () => sub.unsubscribe();
-  }, [clipName, throttleMs]);
+  }, [clipName, throttleMs, events]);
 
   return progress;
 }
@@ -0,0 +1,48 @@
+/**
+ * React hook for a multi-curve edit session on one snippet.
+ *
+ * Creates a CurveEditSession for the snippet, routes its CURVE_CHANGED events through
+ * the animation service (so playing snippets pick up edits immediately) and keeps the
+ * session in sync with curves changed elsewhere (retiming, reloads).
+ */
+
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useSelector } from '@xstate/react';
+import { CurveEditSession } from '../latticework/animation/curveEditSession';
+import type { AnimationService } from '../latticework/animation/animationService';
+import type { CurvesMap, NormalizedSnippet } from '../latticework/animation/types';
+
+const EMPTY_CURVES: CurvesMap = {};
+
+export function useCurveEditSession(anim: AnimationService, snippetName: string) {
+  const curves = useSelector(
+    anim.actor,
+    (state) => ((state.context.animations as NormalizedSnippet[]).find(s => s.name === snippetName)?.curves ?? EMPTY_CURVES)
+  );
+
+  // One session per snippet; history lives as long as the editor stays open
+  const session = useMemo(
+    () => new CurveEditSession({
+      snippetName,
+      curves,
+      onCurvesChanged: (events) => anim.setSnippetCurves(
+        snippetName,
+        Object.fromEntries(events.map((e) => [e.auId, e.curve]))
+      ),
+    }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [anim, snippetName]
+  );
+
+  useEffect(() => {
+    session.sync(curves);
+  }, [session, curves]);
+
+  // Re-render on every session change (selection, drags, snap settings)
+  useSyncExternalStore(
+    (cb) => session.subscribe(cb),
+    () => session.getVersion()
+  );
+
+  return session;
+}
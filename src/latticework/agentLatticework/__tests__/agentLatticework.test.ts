@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Subject } from 'rxjs';
+import { createAgentLatticework, getAgentLatticework, listAgentLatticeworks } from '../agentLatticework';
+import type { AgentLatticework } from '../agentLatticework';
+import type { AgentLatticeworkEvent } from '../types';
+
+/**
+ * Tests for per-agent agency bundles.
+ *
+ * Each agent gets a stub AnimationService, so the agencies that schedule snippets can
+ * start without an engine and their snippets can be told apart per agent.
+ */
+describe('AgentLatticework', () => {
+  const created: AgentLatticework[] = [];
+
+  const createStubAnimation = () => ({
+    schedule: vi.fn((snippet: any) => snippet.name ?? null),
+    remove: vi.fn(),
+    dispose: vi.fn(),
+    events: { events: new Subject<any>() },
+  });
+
+  const createAgent = (agentId?: string) => {
+    const animation = createStubAnimation();
+    const agent = createAgentLatticework({ animation: animation as any }, {}, { agentId });
+    created.push(agent);
+    return { agent, animation };
+  };
+
+  const record = (agent: AgentLatticework) => {
+    const events: AgentLatticeworkEvent[] = [];
+    agent.events$.subscribe(event => events.push(event));
+    return events;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    created.splice(0).forEach(agent => agent.dispose());
+    vi.useRealTimers();
+  });
+
+  describe('Registry', () => {
+    it('should register agents by ID until they are disposed', () => {
+      const { agent } = createAgent('ada');
+      const { agent: other } = createAgent();
+
+      expect(getAgentLatticework('ada')).toBe(agent);
+      expect(listAgentLatticeworks()).toEqual(expect.arrayContaining(['ada', other.agentId]));
+      expect(other.agentId).toMatch(/^agent_\d+$/);
+
+      agent.dispose();
+      expect(getAgentLatticework('ada')).toBeNull();
+      expect(listAgentLatticeworks()).not.toContain('ada');
+      expect(() => agent.get('bml')).toThrow(/disposed/);
+    });
+
+    it('should reject a second agent with the same ID', () => {
+      createAgent('ada');
+      expect(() => createAgentLatticework({ animation: createStubAnimation() as any }, {}, { agentId: 'ada' }))
+        .toThrow(/already exists/);
+    });
+
+    it('should accept an ID again once its agent is disposed', () => {
+      const { agent } = createAgent('ada');
+      agent.dispose();
+      expect(() => createAgent('ada')).not.toThrow();
+    });
+  });
+
+  describe('Lifecycle', () => {
+    it('should start agencies on first get, and the animation agency they need', () => {
+      const { agent, animation } = createAgent();
+
+      expect(agent.running()).toEqual([]);
+      const bml = agent.get('bml');
+      expect(agent.get('bml')).toBe(bml);
+      expect(agent.peek('animation')).toBe(animation);
+      expect(agent.running()).toEqual(expect.arrayContaining(['bml', 'animation']));
+      expect(agent.peek('tts')).toBeNull();
+    });
+
+    it('should stop the dependents before the animation agency', () => {
+      const { agent, animation } = createAgent();
+      agent.get('bml');
+      agent.get('blink');
+      const events = record(agent);
+
+      agent.stop('animation');
+
+      const stopped = events.filter(e => e.type === 'AGENCY_STOPPED').map(e => e.agency);
+      expect(stopped[stopped.length - 1]).toBe('animation');
+      expect(stopped).toEqual(expect.arrayContaining(['bml', 'blink', 'animation']));
+      expect(agent.running()).toEqual([]);
+      // A caller-provided animation service is left to the caller
+      expect(animation.dispose).not.toHaveBeenCalled();
+    });
+
+    it('should stop one dependent without touching the animation agency', () => {
+      const { agent } = createAgent();
+      agent.get('bml');
+      agent.get('blink');
+
+      agent.stop('bml');
+      expect(agent.isRunning('bml')).toBe(false);
+      expect(agent.isRunning('blink')).toBe(true);
+      expect(agent.isRunning('animation')).toBe(true);
+    });
+  });
+
+  describe('Events', () => {
+    it('should tag every relayed event with its agent', () => {
+      const { agent: ada, animation } = createAgent('ada');
+      const { agent: bob } = createAgent('bob');
+      const adaEvents = record(ada);
+      const bobEvents = record(bob);
+
+      ada.get('bml');
+      animation.events.events.next({ type: 'SNIPPET_ADDED', snippetName: 'smile' });
+      ada.get('bml').perform('<bml id="b1"><faceLexeme id="f1" lexeme="SMILE"/></bml>');
+
+      expect(adaEvents.length).toBeGreaterThan(0);
+      expect(adaEvents.every(e => e.agentId === 'ada')).toBe(true);
+      expect(adaEvents).toContainEqual(expect.objectContaining({ agency: 'animation', type: 'SNIPPET_ADDED' }));
+      expect(adaEvents).toContainEqual(expect.objectContaining({ agency: 'bml', type: 'BLOCK_PROGRESS' }));
+      expect(bobEvents).toEqual([]);
+    });
+
+    it('should schedule snippets through the own animation agency only', () => {
+      const { agent: ada, animation: adaAnimation } = createAgent('ada');
+      const { animation: bobAnimation } = createAgent('bob');
+
+      ada.get('bml').perform('<bml id="b1"><faceLexeme id="f1" lexeme="SMILE"/></bml>');
+
+      expect(adaAnimation.schedule).toHaveBeenCalledWith(expect.objectContaining({ name: 'bml:b1:f1' }));
+      expect(bobAnimation.schedule).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,481 @@
+/**
+ * Agent Latticework
+ * Factory for an isolated bundle of agencies per avatar
+ *
+ * - Agencies start on demand (get) and can be stopped individually or all at once (dispose)
+ * - Each bundle schedules through its own animation agency, so snippet names never collide
+ *   between characters sharing a scene
+ * - Every agency event is relayed on events$ tagged with the agent ID
+ */
+
+import { Subject, type Observable, type Subscription } from 'rxjs';
+import { createAnimationService } from '../animation/animationService';
+import { createBackchannelService } from '../backchannel/backchannelService';
+import { createBlinkService } from '../blink/blinkService';
+import { createBMLService } from '../bml/bmlService';
+import { createEmotionService } from '../emotion/emotionService';
+import { createEyeHeadTrackingService } from '../eyeHeadTracking/eyeHeadTrackingService';
+import { createLipSyncService } from '../lipsync/lipSyncService';
+import { createAudioLipSyncService } from '../lipsync/audioLipSync';
+import { EmotionalModulator } from '../lipsync/emotionalModulation';
+import { createProsodicService } from '../prosodic/prosodicService';
+import { createTTSService } from '../tts/ttsService';
+import { createTranscriptionService } from '../transcription/transcriptionService';
+import { parseTokens } from '../tts/utils';
+import { isEmotionName, type EmotionName } from '../emotion';
+import type { GazeShiftEvent, GazeTarget } from '../eyeHeadTracking/types';
+import type { MarkupGazeTarget, MarkupTimelineEvent, WordTimelineItem } from '../tts/types';
+import type {
+  AgencyMap,
+  AgencyName,
+  AgentHostCaps,
+  AgentLatticeworkEvent,
+  AgentLatticeworkOptions,
+  AgentSources,
+  AgentSourceKind,
+} from './types';
+
+export interface AgentLatticework {
+  readonly agentId: string;
+  readonly events$: Observable<AgentLatticeworkEvent>;
+  get: <K extends AgencyName>(name: K) => AgencyMap[K];
+  peek: <K extends AgencyName>(name: K) => AgencyMap[K] | null;
+  isRunning: (name: AgencyName) => boolean;
+  running: () => AgencyName[];
+  stop: (name: AgencyName) => void;
+  setSource: <K extends AgentSourceKind>(kind: K, source: AgentSources[K] | null) => void;
+  dispose: () => void;
+}
+
+// Agencies that schedule snippets and therefore need the animation agency
+const ANIMATION_DEPENDENTS: AgencyName[] = ['blink', 'backchannel', 'bml', 'emotion', 'eyeHeadTracking', 'lipSync', 'audioLipSync', 'prosodic'];
+
+// Where <gaze target="..."/> tags in the agent's speech look
+const MARKUP_GAZE_TARGETS: Record<MarkupGazeTarget, GazeTarget> = {
+  user: { x: 0, y: 0, z: 0 },
+  away: { x: 0.35, y: 0.15, z: 0 },
+  up: { x: 0, y: 0.35, z: 0 },
+  down: { x: 0, y: -0.3, z: 0 },
+  left: { x: -0.35, y: 0, z: 0 },
+  right: { x: 0.35, y: 0, z: 0 },
+};
+
+// Live bundles by agent ID
+const registry = new Map<string, AgentLatticework>();
+let agentCounter = 0;
+
+/**
+ * onSpeechStart -> SPEECH_START
+ */
+function callbackEventType(callbackName: string): string {
+  return callbackName.replace(/^on/, '').replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+/**
+ * Create an isolated set of agencies for one avatar
+ */
+export function createAgentLatticework(
+  hostCaps: AgentHostCaps,
+  sources: AgentSources = {},
+  options: AgentLatticeworkOptions = {}
+): AgentLatticework {
+  const agentId = options.agentId ?? `agent_${++agentCounter}`;
+  if (registry.has(agentId)) {
+    throw new Error(`[AgentLatticework] Agent "${agentId}" already exists`);
+  }
+
+  const config = options.config ?? {};
+  const currentSources: AgentSources = { ...sources };
+  const event$ = new Subject<AgentLatticeworkEvent>();
+  const instances: Partial<AgencyMap> = {};
+  const cleanups = new Map<AgencyName, Array<() => void>>();
+  let disposed = false;
+
+  const emit = (agency: AgencyName, type: string, data?: unknown) => {
+    event$.next({ agentId, agency, type, data, timestamp: Date.now() });
+  };
+
+  const onCleanup = (agency: AgencyName, fn: () => void) => {
+    cleanups.set(agency, [...(cleanups.get(agency) ?? []), fn]);
+  };
+
+  /**
+   * Callback object that relays every call onto events$
+   */
+  const relay = <T extends object>(agency: AgencyName, names: Array<keyof T & string>): T => {
+    const callbacks: Record<string, (...args: unknown[]) => void> = {};
+    names.forEach(name => {
+      const type = callbackEventType(name);
+      callbacks[name] = (...args: unknown[]) => emit(agency, type, args.length <= 1 ? args[0] : args);
+    });
+    return callbacks as T;
+  };
+
+  // Snippet scheduling for agencies, always through this agent's animation agency
+  const snippetHost = () => {
+    const anim = api.get('animation');
+    return {
+      scheduleSnippet: (snippet: any) => anim.schedule(snippet),
+      removeSnippet: (name: string) => anim.remove(name),
+    };
+  };
+
+  const factories: { [K in AgencyName]: () => AgencyMap[K] } = {
+    animation: () => {
+      if (hostCaps.animation) {
+        return hostCaps.animation;
+      }
+      if (!hostCaps.host) {
+        throw new Error(`[AgentLatticework] Agent "${agentId}" has no animation service or engine host`);
+      }
+      const anim = createAnimationService(hostCaps.host, { agentId });
+      onCleanup('animation', () => anim.dispose());
+      return anim;
+    },
+
+    blink: () => {
+      const blink = createBlinkService(snippetHost());
+      onCleanup('blink', blink.subscribe(state => emit('blink', 'STATE_CHANGED', state)));
+
+      // Blink with this agent's own speech, listening and gaze
+      const sub = event$.subscribe(({ agency, type, data }) => {
+        if (agency === 'tts') {
+          if (type === 'START') {
+            // Boundaries index into the spoken text, without markup or emojis
+            const text = instances.tts?.getState().currentText;
+            blink.setUtterance(text ? parseTokens(text).text : null);
+            blink.setSpeaking(true);
+          } else if (type === 'BOUNDARY') {
+            const { word, charIndex } = data as { word: string; charIndex: number };
+            blink.notifyWordBoundary(word, charIndex);
+          } else if (type === 'END') {
+            blink.notifySentenceEnd();
+            blink.setSpeaking(false);
+          } else if (type === 'MARKUP') {
+            const markup = data as MarkupTimelineEvent;
+            if (markup.type === 'EMPHASIS') blink.notifyEmphasis(markup.durMs);
+          }
+        } else if (agency === 'transcription') {
+          if (type === 'START') blink.setListening(true);
+          else if (type === 'END') blink.setListening(false);
+        } else if (agency === 'eyeHeadTracking' && type === 'GAZE_SHIFT') {
+          const shift = data as GazeShiftEvent;
+          if (shift.kind === 'saccade') blink.notifyGazeShift(shift.amplitude);
+        }
+      });
+      onCleanup('blink', () => sub.unsubscribe());
+      return blink;
+    },
+
+    backchannel: () => {
+      const backchannel = createBackchannelService(
+        snippetHost(),
+        relay('backchannel', ['onBackchannel', 'onVocalize', 'onError']),
+        config.backchannel
+      );
+      onCleanup('backchannel', backchannel.subscribe(state => emit('backchannel', 'STATE_CHANGED', state)));
+      if (currentSources.microphone) {
+        backchannel.attachMicrophone(currentSources.microphone);
+      }
+
+      // Respond to the user while this agent's transcription is listening; never while it talks
+      const sub = event$.subscribe(({ agency, type, data }) => {
+        if (agency === 'transcription') {
+          if (type === 'START') backchannel.setListening(true);
+          else if (type === 'END') backchannel.setListening(false);
+          else if (type === 'BOUNDARY') backchannel.handleWordBoundary();
+          else if (type === 'TRANSCRIPT') {
+            const [transcript, isFinal] = data as [string, boolean];
+            backchannel.handleTranscript(transcript, isFinal);
+          }
+        } else if (agency === 'tts' && type === 'START') {
+          backchannel.setListening(false);
+        }
+      });
+      onCleanup('backchannel', () => sub.unsubscribe());
+      return backchannel;
+    },
+
+    bml: () => {
+      // Speech and gaze go through this agent's own agencies, started when a block uses them
+      const bml = createBMLService(
+        {
+          ...snippetHost(),
+          speak: (text: string) => { api.get('tts').speak(text); },
+          stopSpeech: () => instances.tts?.stop(),
+          setGazeTarget: target => api.get('eyeHeadTracking').setGazeTarget(target),
+        },
+        relay('bml', ['onBlockProgress', 'onSyncPointProgress', 'onWarning', 'onError']),
+        { speechRate: config.tts?.rate ?? 1.0, ...config.bml }
+      );
+      onCleanup('bml', bml.subscribe(state => emit('bml', 'STATE_CHANGED', state)));
+      return bml;
+    },
+
+    emotion: () => {
+      // Private modulator so one character's mood doesn't change another's speech
+      const emotion = createEmotionService(snippetHost(), config.emotion, new EmotionalModulator());
+      onCleanup('emotion', emotion.subscribe(state => emit('emotion', 'STATE_CHANGED', state)));
+      if (instances.lipSync) {
+        onCleanup('emotion', emotion.attachLipSync(instances.lipSync));
+      }
+
+      // <emotion> tags in this agent's speech
+      const sub = event$.subscribe(({ agency, type, data }) => {
+        if (agency !== 'tts' || type !== 'MARKUP') return;
+        const markup = data as MarkupTimelineEvent;
+        if (markup.type !== 'EMOTION') return;
+        if (markup.emotion !== 'neutral' && !isEmotionName(markup.emotion)) {
+          console.warn(`[AgentLatticework] Unknown emotion in markup: ${markup.emotion}`);
+          return;
+        }
+        emotion.express(markup.emotion as EmotionName | 'neutral', markup.intensity);
+      });
+      onCleanup('emotion', () => sub.unsubscribe());
+      return emotion;
+    },
+
+    eyeHeadTracking: () => {
+      const tracking = createEyeHeadTrackingService(
+        {
+          ...config.eyeHeadTracking,
+          animationAgency: api.get('animation'),
+          engine: hostCaps.engine,
+          webcamStream: currentSources.camera,
+        },
+        relay(
+          'eyeHeadTracking',
+          ['onEyeStart', 'onEyeStop', 'onHeadStart', 'onHeadStop', 'onGazeChange', 'onGazeShift', 'onBlink', 'onError']
+        )
+      );
+      tracking.start();
+
+      // <gaze> tags in this agent's speech
+      const sub = event$.subscribe(({ agency, type, data }) => {
+        if (agency !== 'tts' || type !== 'MARKUP') return;
+        const markup = data as MarkupTimelineEvent;
+        if (markup.type === 'GAZE') tracking.setGazeTarget(MARKUP_GAZE_TARGETS[markup.target]);
+      });
+      onCleanup('eyeHeadTracking', () => sub.unsubscribe());
+      return tracking;
+    },
+
+    lipSync: () => {
+      const lipSync = createLipSyncService(
+        config.lipSync,
+        relay('lipSync', ['onVisemeStart', 'onVisemeEnd', 'onSpeechStart', 'onSpeechEnd', 'onError']),
+        snippetHost()
+      );
+      if (instances.emotion) {
+        onCleanup('lipSync', instances.emotion.attachLipSync(lipSync));
+      }
+      return lipSync;
+    },
+
+    audioLipSync: () => {
+      const audioLipSync = createAudioLipSyncService(
+        config.audioLipSync,
+        relay('audioLipSync', ['onVisemeStart', 'onVisemeEnd', 'onSpeechStart', 'onSpeechEnd', 'onError']),
+        snippetHost()
+      );
+      if (currentSources.voice) {
+        audioLipSync.attach(currentSources.voice);
+      }
+      return audioLipSync;
+    },
+
+    prosodic: () => {
+      const prosodic = createProsodicService(
+        config.prosodic,
+        relay('prosodic', ['onBrowStart', 'onBrowStop', 'onHeadStart', 'onHeadStop', 'onPulse', 'onError']),
+        snippetHost()
+      );
+
+      // Plan gestures from this agent's utterance, aligned to the TTS word timeline
+      const sub = event$.subscribe(({ agency, type, data }) => {
+        if (agency !== 'tts') return;
+        if (type === 'START') {
+          const ttsState = instances.tts?.getState();
+          const wordTimings = ttsState?.currentTimeline?.filter((e): e is WordTimelineItem => e.type === 'WORD');
+          prosodic.startTalking(ttsState?.currentText, { wordTimings });
+        } else if (type === 'END') {
+          prosodic.stopTalking();
+        } else if (type === 'MARKUP') {
+          // <nod/>, <shake/>, <tilt/> and <emphasis> tags
+          const markup = data as MarkupTimelineEvent;
+          if (markup.type === 'GESTURE') {
+            prosodic.gesture(markup.gesture === 'tilt' ? 'question' : markup.gesture, markup.intensity);
+          } else if (markup.type === 'EMPHASIS') {
+            prosodic.gesture('beat', markup.level);
+          }
+        }
+      });
+      onCleanup('prosodic', () => sub.unsubscribe());
+      return prosodic;
+    },
+
+    tts: () =>
+      createTTSService(
+        config.tts,
+        relay('tts', ['onStart', 'onEnd', 'onBoundary', 'onViseme', 'onError', 'onPause', 'onResume', 'onMarkup'])
+      ),
+
+    transcription: () =>
+      createTranscriptionService(
+        config.transcription,
+        relay('transcription', ['onTranscript', 'onStart', 'onEnd', 'onError', 'onBoundary'])
+      ),
+  };
+
+  const api: AgentLatticework = {
+    agentId,
+
+    /**
+     * Stream of events from every running agency, tagged with this agent
+     */
+    events$: event$.asObservable(),
+
+    /**
+     * Get an agency, starting it (and the animation agency it needs) on first use
+     */
+    get<K extends AgencyName>(name: K): AgencyMap[K] {
+      if (disposed) {
+        throw new Error(`[AgentLatticework] Agent "${agentId}" has been disposed`);
+      }
+      const existing = instances[name];
+      if (existing) return existing as AgencyMap[K];
+
+      const instance = factories[name]();
+      instances[name] = instance;
+
+      // Animation events already carry the agent ID; relay them with the rest
+      if (name === 'animation') {
+        const sub: Subscription = (instance as AgencyMap['animation']).events.events.subscribe(event => {
+          emit('animation', event.type, event);
+        });
+        onCleanup('animation', () => sub.unsubscribe());
+      }
+
+      emit(name, 'AGENCY_STARTED');
+      return instance;
+    },
+
+    /**
+     * Get an agency only if it is already running
+     */
+    peek<K extends AgencyName>(name: K): AgencyMap[K] | null {
+      return (instances[name] as AgencyMap[K] | undefined) ?? null;
+    },
+
+    /**
+     * Whether an agency is running
+     */
+    isRunning(name: AgencyName): boolean {
+      return instances[name] !== undefined;
+    },
+
+    /**
+     * Names of running agencies
+     */
+    running(): AgencyName[] {
+      return Object.keys(instances) as AgencyName[];
+    },
+
+    /**
+     * Stop and release one agency. Stopping animation stops everything that schedules through it.
+     */
+    stop(name: AgencyName): void {
+      const instance = instances[name];
+      if (!instance) return;
+
+      if (name === 'animation') {
+        ANIMATION_DEPENDENTS.forEach(dependent => api.stop(dependent));
+      }
+
+      cleanups.get(name)?.forEach(fn => {
+        try {
+          fn();
+        } catch {
+          // Ignore errors on cleanup
+        }
+      });
+      cleanups.delete(name);
+
+      // A caller-provided animation service belongs to the caller
+      if (name !== 'animation') {
+        try {
+          (instance as { dispose: () => void }).dispose();
+        } catch (error) {
+          console.warn(`[AgentLatticework] Error disposing ${name} for "${agentId}":`, error);
+        }
+      }
+
+      delete instances[name];
+      emit(name, 'AGENCY_STOPPED');
+    },
+
+    /**
+     * Swap a sensor source at runtime (null removes it)
+     */
+    setSource<K extends AgentSourceKind>(kind: K, source: AgentSources[K] | null): void {
+      if (source) {
+        currentSources[kind] = source;
+      } else {
+        delete currentSources[kind];
+      }
+
+      if (kind === 'voice' && instances.audioLipSync) {
+        if (currentSources.voice) {
+          instances.audioLipSync.attach(currentSources.voice);
+        } else {
+          instances.audioLipSync.detach();
+        }
+      }
+      if (kind === 'camera' && instances.eyeHeadTracking) {
+        // Picked up the next time webcam tracking starts
+        instances.eyeHeadTracking.updateConfig({ webcamStream: currentSources.camera });
+      }
+      if (kind === 'microphone' && instances.backchannel) {
+        if (currentSources.microphone) {
+          instances.backchannel.attachMicrophone(currentSources.microphone);
+        } else {
+          instances.backchannel.detachMicrophone();
+        }
+      }
+    },
+
+    /**
+     * Stop every agency and unregister the agent
+     */
+    dispose(): void {
+      if (disposed) return;
+      (Object.keys(instances) as AgencyName[])
+        .filter(name => name !== 'animation')
+        .reverse()
+        .forEach(name => api.stop(name));
+      api.stop('animation');
+      disposed = true;
+      registry.delete(agentId);
+      event$.complete();
+    },
+  };
+
+  registry.set(agentId, api);
+  options.autoStart?.forEach(name => api.get(name));
+
+  return api;
+}
+
+/**
+ * Look up a live bundle by agent ID
+ */
+export function getAgentLatticework(agentId: string): AgentLatticework | null {
+  return registry.get(agentId) ?? null;
+}
+
+/**
+ * IDs of all live bundles
+ */
+export function listAgentLatticeworks(): string[] {
+  return Array.from(registry.keys());
+}
@@ -0,0 +1,23 @@
+/**
+ * Agent Latticework
+ * Exports the per-agent agency bundle factory and types
+ */
+
+export {
+  createAgentLatticework,
+  getAgentLatticework,
+  listAgentLatticeworks,
+} from './agentLatticework';
+
+export type { AgentLatticework } from './agentLatticework';
+
+export type {
+  AgencyMap,
+  AgencyName,
+  AgencyConfigMap,
+  AgentHostCaps,
+  AgentSources,
+  AgentSourceKind,
+  AgentLatticeworkOptions,
+  AgentLatticeworkEvent,
+} from './types';
@@ -0,0 +1,115 @@
+/**
+ * Agent Latticework Types
+ *
+ * Type definitions for per-agent agency bundles.
+ * Part of the latticework agency architecture.
+ */
+
+import type { AnimationService } from '../animation/animationService';
+import type { HostCaps } from '../animation/types';
+import type { BackchannelServiceAPI } from '../backchannel/backchannelService';
+import type { BackchannelTiming } from '../backchannel/types';
+import type { BlinkServiceAPI } from '../blink/blinkService';
+import type { BMLServiceAPI } from '../bml/bmlService';
+import type { BMLConfig } from '../bml/types';
+import type { EmotionServiceAPI } from '../emotion/emotionService';
+import type { EmotionSchedulerConfig } from '../emotion/emotionScheduler';
+import type { EyeHeadTrackingService } from '../eyeHeadTracking/eyeHeadTrackingService';
+import type { EyeHeadTrackingConfig } from '../eyeHeadTracking/types';
+import type { LipSyncServiceAPI } from '../lipsync/lipSyncService';
+import type { AudioLipSyncServiceAPI, AudioLipSyncConfig, AudioLipSyncSource } from '../lipsync/audioLipSync';
+import type { LipSyncConfig } from '../lipsync/types';
+import type { ProsodicServiceAPI } from '../prosodic/prosodicService';
+import type { ProsodicConfig } from '../prosodic/types';
+import type { TTSService } from '../tts/ttsService';
+import type { TTSConfig } from '../tts/types';
+import type { TranscriptionService } from '../transcription/transcriptionService';
+import type { TranscriptionConfig } from '../transcription/types';
+
+/**
+ * Every agency an agent can run, by name
+ */
+export interface AgencyMap {
+  animation: AnimationService;
+  blink: BlinkServiceAPI;
+  backchannel: BackchannelServiceAPI;
+  bml: BMLServiceAPI;
+  emotion: EmotionServiceAPI;
+  eyeHeadTracking: EyeHeadTrackingService;
+  lipSync: LipSyncServiceAPI;
+  audioLipSync: AudioLipSyncServiceAPI;
+  prosodic: ProsodicServiceAPI;
+  tts: TTSService;
+  transcription: TranscriptionService;
+}
+
+export type AgencyName = keyof AgencyMap;
+
+/**
+ * Construction-time configuration per agency
+ */
+export interface AgencyConfigMap {
+  backchannel?: Partial<BackchannelTiming>;
+  bml?: BMLConfig;
+  emotion?: Partial<EmotionSchedulerConfig>;
+  eyeHeadTracking?: EyeHeadTrackingConfig;
+  lipSync?: LipSyncConfig;
+  audioLipSync?: Partial<AudioLipSyncConfig>;
+  prosodic?: ProsodicConfig;
+  tts?: TTSConfig;
+  transcription?: TranscriptionConfig;
+}
+
+/**
+ * What the host exposes for one avatar
+ * Pass either an existing animation service for the avatar or the engine bindings to create one.
+ */
+export interface AgentHostCaps {
+  /** Animation service already driving this avatar (not disposed with the bundle) */
+  animation?: AnimationService;
+
+  /** Engine bindings used to create a private animation service when none is given */
+  host?: HostCaps;
+
+  /** Engine for agencies that can apply values directly (eye/head tracking) */
+  engine?: any;
+}
+
+/**
+ * Sensor streams owned by one agent
+ */
+export interface AgentSources {
+  /** The agent's own voice (e.g. a LiveKit remote track) - drives audio lip-sync */
+  voice?: AudioLipSyncSource;
+
+  /** Camera the agent watches - used by eye/head webcam tracking */
+  camera?: MediaStream;
+
+  /** Microphone of the person the agent listens to - backchannel pause detection */
+  microphone?: MediaStream;
+}
+
+export type AgentSourceKind = keyof AgentSources;
+
+export interface AgentLatticeworkOptions {
+  /** Unique agent ID (generated when omitted) */
+  agentId?: string;
+
+  /** Agencies to start right away; the rest start on first get() */
+  autoStart?: AgencyName[];
+
+  /** Per-agency configuration applied when the agency starts */
+  config?: AgencyConfigMap;
+}
+
+/**
+ * Event relayed from any agency in the bundle, tagged with its agent
+ */
+export interface AgentLatticeworkEvent {
+  agentId: string;
+  agency: AgencyName;
+  /** Animation event type, 'STATE_CHANGED', or the callback name in SNAKE_CASE (onSpeechStart -> SPEECH_START) */
+  type: string;
+  data?: unknown;
+  timestamp: number;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { LayerStack, resolveLayerContributions, DEFAULT_LAYER } from '../animationLayers';
+
+/**
+ * Tests for animation layers.
+ *
+ * Snippets resolve inside their layer first (priority / additive), then layers are
+ * stacked by order with their weight, mute and solo state.
+ */
+describe('animationLayers', () => {
+  describe('resolveLayerContributions', () => {
+    it('should let the highest priority replace contribution win', () => {
+      const result = resolveLayerContributions([
+        { v: 0.8, pri: 1, additive: false },
+        { v: 0.3, pri: 5, additive: false },
+      ]);
+      expect(result?.v).toBeCloseTo(0.3);
+      expect(result?.pri).toBe(5);
+    });
+
+    it('should break priority ties by higher value', () => {
+      const result = resolveLayerContributions([
+        { v: 0.2, pri: 1, additive: false },
+        { v: 0.6, pri: 1, additive: false },
+      ]);
+      expect(result?.v).toBeCloseTo(0.6);
+    });
+
+    it('should add additive contributions on top and clamp', () => {
+      const result = resolveLayerContributions([
+        { v: 0.7, pri: 1, additive: false },
+        { v: 0.2, pri: 0, additive: true },
+        { v: 0.3, pri: 0, additive: true },
+      ]);
+      expect(result?.v).toBe(1);
+    });
+
+    it('should return null when there are no contributions', () => {
+      expect(resolveLayerContributions([])).toBeNull();
+    });
+  });
+
+  describe('LayerStack', () => {
+    it('should place snippets without a channel on the default layer', () => {
+      const stack = new LayerStack();
+      expect(stack.layerOf({})).toBe(DEFAULT_LAYER);
+      expect(stack.layerOf({ mixerChannel: 'mouth' })).toBe('mouth');
+    });
+
+    it('should leave a single full-weight layer unchanged', () => {
+      const stack = new LayerStack();
+      expect(stack.compose(new Map([['face', 0.42]]))).toBeCloseTo(0.42);
+    });
+
+    it('should crossfade replace layers by weight', () => {
+      const stack = new LayerStack();
+      stack.update('mouth', { weight: 0.5 });
+      expect(stack.compose(new Map([['face', 0.2], ['mouth', 1]]))).toBeCloseTo(0.6);
+    });
+
+    it('should add additive layers on top of lower layers', () => {
+      const stack = new LayerStack();
+      stack.update('head', { blendMode: 'additive', weight: 0.5 });
+      expect(stack.compose(new Map([['face', 0.4], ['head', 0.4]]))).toBeCloseTo(0.6);
+    });
+
+    it('should apply override layers last regardless of order', () => {
+      const stack = new LayerStack();
+      stack.update('face', { blendMode: 'override' });
+      expect(stack.compose(new Map([['face', 0.1], ['mouth', 0.9]]))).toBeCloseTo(0.1);
+    });
+
+    it('should drop muted layers and return null when nothing is audible', () => {
+      const stack = new LayerStack();
+      stack.update('mouth', { muted: true });
+      expect(stack.compose(new Map([['face', 0.3], ['mouth', 0.9]]))).toBeCloseTo(0.3);
+      expect(stack.compose(new Map([['mouth', 0.9]]))).toBeNull();
+    });
+
+    it('should only let soloed layers contribute', () => {
+      const stack = new LayerStack();
+      stack.update('eyes', { solo: true });
+      expect(stack.effectiveWeight('face')).toBe(0);
+      expect(stack.effectiveWeight('eyes')).toBe(1);
+      expect(stack.compose(new Map([['face', 0.3], ['eyes', 0.7]]))).toBeCloseTo(0.7);
+    });
+
+    it('should create unknown layers on top of the stack', () => {
+      const stack = new LayerStack();
+      const layer = stack.ensure('gesture');
+      const names = stack.list().map(l => l.name);
+      expect(names[names.length - 1]).toBe('gesture');
+      expect(layer.weight).toBe(1);
+    });
+  });
+});
@@ -97,6 +97,27 @@ describe('AnimationMachine', () => {
       expect(curves[1]).toMatchObject({ time: 1, intensity: 1.0 });
     });
 
+    it('should preserve keyframe interpolation and tangents', () => {
+      machine.send({
+        type: 'LOAD_ANIMATION',
+        data: {
+          name: 'test_interpolation',
+          curves: {
+            '1': [
+              { time: 0, intensity: 0, interpolation: 'bezier', outTangent: { dt: 0.2, dv: 0.1 } },
+              { time: 1, intensity: 1, interpolation: 'step', inTangent: { dt: -0.3, dv: 0 } },
+              { time: 2, intensity: 0 }
+            ]
+          }
+        }
+      });
+
+      const curves = machine.getSnapshot().context.animations[0].curves['1'];
+      expect(curves[0]).toMatchObject({ interpolation: 'bezier', outTangent: { dt: 0.2, dv: 0.1 } });
+      expect(curves[1]).toMatchObject({ interpolation: 'step', inTangent: { dt: -0.3, dv: 0 } });
+      expect(curves[2].interpolation).toBeUndefined();
+    });
+
     it('should sort curves by time', () => {
       machine.send({
         type: 'LOAD_ANIMATION',
@@ -335,7 +356,7 @@ describe('AnimationMachine', () => {
   });
 
   describe('Curve Changes', () => {
-    // Note: CURVE_CHANGED is only handled in 'playing' or 'paused' states
+    // CURVE_CHANGED is handled in every state so the curve editor can edit stopped snippets
 
     it('should update curve data', () => {
       machine.send({
@@ -456,6 +477,24 @@ describe('AnimationMachine', () => {
       // Should not change existing animation
       expect(state.context.animations[0].curves['1'][0].intensity).toBe(0);
     });
+
+    it('should update curves while stopped', () => {
+      machine.send({
+        type: 'LOAD_ANIMATION',
+        data: { name: 'stopped_edit', curves: { '1': [{ time: 0, intensity: 0 }] } }
+      });
+
+      machine.send({
+        type: 'CURVE_CHANGED',
+        nameOrId: 'stopped_edit',
+        auId: '1',
+        curve: [{ time: 0, intensity: 0.7 }]
+      });
+
+      const state = machine.getSnapshot();
+      expect(state.value).toBe('stopped');
+      expect(state.context.animations[0].curves['1'][0].intensity).toBe(0.7);
+    });
   });
 
   describe('Manual Overrides', () => {
@@ -822,4 +861,56 @@ describe('AnimationMachine', () => {
       expect(state.value).toBe('paused');
     });
   });
+
+  describe('Snippet Edits (undo/redo)', () => {
+    const load = () => machine.send({
+      type: 'LOAD_ANIMATION',
+      data: { name: 'edit_me', curves: { '1': [{ time: 0, intensity: 0 }, { time: 1, intensity: 1 }] } }
+    });
+    const current = () => machine.getSnapshot().context.animations.find((s: any) => s.name === 'edit_me');
+
+    it('should replace the snippet and record the edit', () => {
+      load();
+      const edited = { ...current(), curves: { '1': [{ time: 0, intensity: 1 }, { time: 2, intensity: 0 }] }, duration: 2 };
+      machine.send({ type: 'APPLY_SNIPPET_EDIT', operation: 'stretch', snippet: edited });
+
+      const ctx: AnimContext = machine.getSnapshot().context;
+      expect(ctx.animations).toHaveLength(1);
+      expect(current().duration).toBe(2);
+      expect(ctx.editHistory.past.map(e => e.operation)).toEqual(['stretch']);
+    });
+
+    it('should undo and redo an in-place edit', () => {
+      load();
+      machine.send({ type: 'APPLY_SNIPPET_EDIT', operation: 'stretch', snippet: { ...current(), duration: 2 } });
+
+      machine.send({ type: 'UNDO_SNIPPET_EDIT' });
+      expect(current().duration).toBe(1);
+      expect(machine.getSnapshot().context.editHistory.future).toHaveLength(1);
+
+      machine.send({ type: 'REDO_SNIPPET_EDIT' });
+      expect(current().duration).toBe(2);
+      expect(machine.getSnapshot().context.editHistory.future).toHaveLength(0);
+    });
+
+    it('should remove an added snippet on undo', () => {
+      load();
+      machine.send({ type: 'APPLY_SNIPPET_EDIT', operation: 'concat', snippet: { ...current(), name: 'joined' } });
+      expect(machine.getSnapshot().context.animations).toHaveLength(2);
+
+      machine.send({ type: 'UNDO_SNIPPET_EDIT' });
+      expect(machine.getSnapshot().context.animations.map((s: any) => s.name)).toEqual(['edit_me']);
+    });
+
+    it('should keep the current play flag and clear redo after a new edit', () => {
+      load();
+      machine.send({ type: 'PLAY_ALL' });
+      machine.send({ type: 'APPLY_SNIPPET_EDIT', operation: 'reverse', snippet: { ...current(), isPlaying: false } });
+      expect(current().isPlaying).toBe(true);
+
+      machine.send({ type: 'UNDO_SNIPPET_EDIT' });
+      machine.send({ type: 'APPLY_SNIPPET_EDIT', operation: 'mirror', snippet: current() });
+      expect(machine.getSnapshot().context.editHistory.future).toEqual([]);
+    });
+  });
 });
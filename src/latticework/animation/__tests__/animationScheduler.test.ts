@@ -426,4 +426,43 @@ describe('AnimationScheduler', () => {
       expect(au1!.value).toBeCloseTo(0.25, 2);
     });
   });
+
+  describe('Curve Edits While Playing', () => {
+    it('should continue a playing clip from its current time after a curve edit', () => {
+      let clipTime = 0;
+      const buildClip = vi.fn((clipName: string, _curves: Record<string, Array<{ time: number; intensity: number }>>) => ({
+        clipName,
+        play: vi.fn(),
+        stop: vi.fn(),
+        pause: vi.fn(),
+        resume: vi.fn(),
+        getTime: () => clipTime,
+        getDuration: () => 1,
+        finished: new Promise<void>(() => {}),
+      }));
+      const clipScheduler = new AnimationScheduler(createActor(animationMachine).start(), { ...mockHost, buildClip });
+
+      clipScheduler.schedule({
+        name: 'smile',
+        curves: { '12': [{ time: 0, intensity: 0 }, { time: 1, intensity: 1 }] },
+      });
+      clipScheduler.play();
+      const before = clipScheduler.getScheduleSnapshot()[0];
+
+      clipTime = 0.4;
+      (clipScheduler as any).machine.send({ type: 'CURVE_CHANGED', nameOrId: 'smile', auId: '12', curve: [{ time: 0, intensity: 0 }, { time: 1, intensity: 0.5 }] });
+      clipScheduler.refreshSnippet('smile', { keepTime: true });
+
+      expect(buildClip).toHaveBeenCalledTimes(2);
+      const resumed = buildClip.mock.calls[1][1];
+      expect(resumed['12'][0].time).toBe(0);
+      expect(resumed['12'][0].intensity).toBeCloseTo(0.2);
+      expect(resumed['12'][resumed['12'].length - 1].time).toBeCloseTo(0.6);
+
+      const after = clipScheduler.getScheduleSnapshot()[0];
+      expect(after.startsAt).toBe(before.startsAt);
+      expect(after.offset).toBe(before.offset);
+      clipScheduler.dispose();
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { createAnimationService } from '../animationService';
+import { createAnimationService, snippetListFrom, snippetState$ } from '../animationService';
 import type { HostCaps } from '../types';
 
 describe('AnimationService', () => {
@@ -517,6 +517,40 @@ describe('AnimationService', () => {
     });
   });
 
+  describe('Per-Agent Event Streams', () => {
+    it('should publish a per-agent service on its own emitter', () => {
+      const agent = createAnimationService(mockHost, { agentId: 'betta' });
+      const sharedNames: string[][] = [];
+      const agentNames: string[][] = [];
+      const subs = [
+        snippetListFrom(service.events).subscribe(n => sharedNames.push(n)),
+        snippetListFrom(agent.events).subscribe(n => agentNames.push(n)),
+      ];
+
+      agent.schedule({ name: 'fin_wave', curves: { '1': [{ time: 0, intensity: 0.5 }] } });
+
+      expect(agent.events).not.toBe(service.events);
+      expect(agentNames.at(-1)).toEqual(['fin_wave']);
+      expect(sharedNames).toEqual([]);
+
+      subs.forEach(s => s.unsubscribe());
+      agent.dispose();
+    });
+
+    it('should read snippet state from the given emitter', () => {
+      const agent = createAnimationService(mockHost, { agentId: 'betta' });
+      const states: Array<string | undefined> = [];
+      const sub = snippetState$('fin_wave', agent.events).subscribe(s => states.push(s?.name));
+
+      agent.schedule({ name: 'fin_wave', curves: { '1': [{ time: 0, intensity: 0.5 }] } });
+
+      expect(states.at(-1)).toBe('fin_wave');
+
+      sub.unsubscribe();
+      agent.dispose();
+    });
+  });
+
   describe('Debug Helper', () => {
     it('should provide debug information', () => {
       const consoleSpy = vi.spyOn(console, 'log');
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CurveEditSession } from '../curveEditSession';
+import type { CurveChangedEvent, CurvesMap } from '../types';
+
+/**
+ * Tests for the multi-curve editing session used by the curve editor.
+ *
+ * The session is UI-free, so selection, clipboard, snapping and history are checked
+ * directly along with the CURVE_CHANGED events it reports.
+ */
+describe('CurveEditSession', () => {
+  let events: CurveChangedEvent[];
+  let session: CurveEditSession;
+
+  const curves = (): CurvesMap => ({
+    '12': [{ time: 0, intensity: 0 }, { time: 0.5, intensity: 0.8 }, { time: 1, intensity: 0 }],
+    '6': [{ time: 0.2, intensity: 0.1 }, { time: 0.6, intensity: 0.6 }],
+  });
+
+  beforeEach(() => {
+    events = [];
+    session = new CurveEditSession({
+      snippetName: 'smile',
+      curves: curves(),
+      onCurveChanged: (e) => events.push(e),
+    });
+  });
+
+  it('should box-select keys across curves', () => {
+    session.boxSelect({ t0: 0.4, t1: 0.7, v0: 0.5, v1: 1 });
+    expect(session.getSelection()).toEqual([
+      { curveId: '6', index: 1 },
+      { curveId: '12', index: 1 },
+    ]);
+  });
+
+  it('should nudge selected keys and send one CURVE_CHANGED per touched curve', () => {
+    session.boxSelect({ t0: 0.4, t1: 0.7, v0: 0.5, v1: 1 });
+    session.nudge(0.1, 0.5);
+
+    expect(session.getCurves()['12'][1]).toEqual({ time: 0.6, intensity: 1 }); // value clamped to 1
+    expect(events.map(e => [e.nameOrId, e.auId])).toEqual([['smile', '6'], ['smile', '12']]);
+    expect(events[1].curve).toBe(session.getCurves()['12']);
+  });
+
+  it('should report all curves of one edit together through onCurvesChanged', () => {
+    const batches: CurveChangedEvent[][] = [];
+    const batched = new CurveEditSession({
+      snippetName: 'smile',
+      curves: curves(),
+      onCurvesChanged: (e) => batches.push(e),
+    });
+    batched.boxSelect({ t0: 0.4, t1: 0.7, v0: 0.5, v1: 1 });
+    batched.nudge(0.1, 0);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].map(e => e.auId)).toEqual(['6', '12']);
+  });
+
+  it('should undo and redo edits', () => {
+    session.select([{ curveId: '6', index: 0 }]);
+    session.deleteSelection();
+    expect(session.getCurves()['6']).toHaveLength(1);
+
+    expect(session.undo()).toBe(true);
+    expect(session.getCurves()['6']).toHaveLength(2);
+    expect(events[events.length - 1].curve).toHaveLength(2);
+
+    expect(session.redo()).toBe(true);
+    expect(session.getCurves()['6']).toHaveLength(1);
+    expect(session.canRedo()).toBe(false);
+  });
+
+  it('should record a drag gesture as a single undo step with snapping', () => {
+    session.setSnap({ enabled: true, fps: 10 });
+    session.select([{ curveId: '12', index: 1 }]);
+    session.beginGesture();
+    session.dragSelection(0.03, 0);
+    session.dragSelection(0.07, 0);
+    expect(events).toHaveLength(0);
+    session.endGesture();
+
+    expect(session.getCurves()['12'][1].time).toBeCloseTo(0.6);
+    expect(events).toHaveLength(1);
+    session.undo();
+    expect(session.getCurves()['12'][1].time).toBe(0.5);
+    expect(session.canUndo()).toBe(false);
+  });
+
+  it('should keep keys sorted and the selection attached when moving past neighbours', () => {
+    session.select([{ curveId: '12', index: 0 }]);
+    session.nudge(0.75, 0);
+    expect(session.getCurves()['12'].map(k => k.time)).toEqual([0.5, 0.75, 1]);
+    expect(session.getSelection()).toEqual([{ curveId: '12', index: 1 }]);
+  });
+
+  it('should copy and paste keys at a new time, onto another curve when asked', () => {
+    session.select([{ curveId: '12', index: 1 }, { curveId: '12', index: 2 }]);
+    session.copy();
+    session.paste(2, '4');
+
+    expect(session.getCurves()['4'].map(k => [k.time, k.intensity])).toEqual([[2, 0.8], [2.5, 0]]);
+    expect(session.getSelection()).toEqual([{ curveId: '4', index: 0 }, { curveId: '4', index: 1 }]);
+
+    // Undo removes the curve the paste created
+    session.undo();
+    expect(events[events.length - 1]).toMatchObject({ auId: '4', curve: [] });
+  });
+
+  it('should ignore echoes of its own edits but adopt external changes', () => {
+    session.select([{ curveId: '12', index: 1 }]);
+    session.nudge(0, -0.1);
+    session.sync(JSON.parse(JSON.stringify(session.getCurves())));
+    expect(session.canUndo()).toBe(true);
+
+    session.sync({ '12': [{ time: 0, intensity: 1 }] });
+    expect(session.getCurves()['12']).toHaveLength(1);
+    expect(session.getSelection()).toEqual([]);
+    expect(session.canUndo()).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sampleCurve,
+  densifyCurve,
+  readInterpolation,
+  hasNonLinearSegments,
+} from '../curveInterpolation';
+import type { CurvePoint } from '../types';
+
+/**
+ * Tests for per-keyframe curve interpolation.
+ *
+ * The interpolation mode lives on the key that starts a segment. These tests cover
+ * sampling (used by scrubbing and target maps) and densification (used by the
+ * transition runner and buildClip()).
+ */
+describe('curveInterpolation', () => {
+  const segment = (mode?: CurvePoint['interpolation'], extra: Partial<CurvePoint> = {}): CurvePoint[] => [
+    { time: 0, intensity: 0, interpolation: mode, ...extra },
+    { time: 1, intensity: 1 },
+  ];
+
+  describe('sampleCurve', () => {
+    it('should interpolate linearly by default', () => {
+      expect(sampleCurve(segment(), 0.25)).toBeCloseTo(0.25);
+      expect(sampleCurve(segment('linear'), 0.5)).toBeCloseTo(0.5);
+    });
+
+    it('should hold the value on step segments until the next key', () => {
+      const curve = segment('step');
+      expect(sampleCurve(curve, 0.5)).toBe(0);
+      expect(sampleCurve(curve, 0.999)).toBe(0);
+      expect(sampleCurve(curve, 1)).toBe(1);
+    });
+
+    it('should ease in, ease out and ease in/out', () => {
+      expect(sampleCurve(segment('easeIn'), 0.5)).toBeLessThan(0.5);
+      expect(sampleCurve(segment('easeOut'), 0.5)).toBeGreaterThan(0.5);
+      expect(sampleCurve(segment('easeInOut'), 0.5)).toBeCloseTo(0.5);
+      expect(sampleCurve(segment('easeInOut'), 0.25)).toBeLessThan(0.25);
+      expect(sampleCurve(segment('easeInOut'), 0.75)).toBeGreaterThan(0.75);
+    });
+
+    it('should follow Bezier tangents', () => {
+      // Steep outgoing handle overshoots the linear value early in the segment
+      const steep = segment('bezier', { outTangent: { dt: 0.1, dv: 0.8 } });
+      expect(sampleCurve(steep, 0.2)).toBeGreaterThan(0.2);
+
+      // Flat default handles behave like an S-curve
+      const flat = segment('bezier');
+      expect(sampleCurve(flat, 0.5)).toBeCloseTo(0.5, 3);
+      expect(sampleCurve(flat, 0.1)).toBeLessThan(0.1);
+    });
+
+    it('should hit keyframe values exactly at key times', () => {
+      const curve: CurvePoint[] = [
+        { time: 0, intensity: 0.2, interpolation: 'bezier' },
+        { time: 0.5, intensity: 0.9, interpolation: 'easeIn' },
+        { time: 1, intensity: 0.4 },
+      ];
+      expect(sampleCurve(curve, 0)).toBeCloseTo(0.2);
+      expect(sampleCurve(curve, 0.5)).toBeCloseTo(0.9);
+      expect(sampleCurve(curve, 1)).toBeCloseTo(0.4);
+    });
+  });
+
+  describe('densifyCurve', () => {
+    it('should return linear curves unchanged', () => {
+      const curve = segment();
+      expect(hasNonLinearSegments(curve)).toBe(false);
+      expect(densifyCurve(curve)).toBe(curve);
+    });
+
+    it('should insert a hold key before the next key for step segments', () => {
+      const dense = densifyCurve(segment('step'));
+      expect(dense).toHaveLength(3);
+      expect(dense[1].intensity).toBe(0);
+      expect(dense[1].time).toBeLessThan(1);
+      expect(dense[1].time).toBeGreaterThan(0.99);
+    });
+
+    it('should split eased segments into linear pieces that follow the curve', () => {
+      const curve = segment('easeIn');
+      const dense = densifyCurve(curve, 4);
+      expect(dense.map(k => k.time)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+      dense.forEach(k => expect(k.intensity).toBeCloseTo(sampleCurve(curve, k.time)));
+      expect(dense.every(k => k.interpolation === undefined)).toBe(true);
+    });
+
+    it('should keep the inherit flag on the first key', () => {
+      const dense = densifyCurve(segment('easeOut', { inherit: true }));
+      expect(dense[0].inherit).toBe(true);
+    });
+  });
+
+  describe('readInterpolation', () => {
+    it('should keep valid modes and tangents', () => {
+      expect(readInterpolation({ interpolation: 'bezier', outTangent: { dt: 0.1, dv: 0.2 } })).toEqual({
+        interpolation: 'bezier',
+        outTangent: { dt: 0.1, dv: 0.2 },
+      });
+    });
+
+    it('should drop unknown modes, linear and malformed tangents', () => {
+      expect(readInterpolation({ interpolation: 'wobble' })).toEqual({});
+      expect(readInterpolation({ interpolation: 'linear' })).toEqual({});
+      expect(readInterpolation({ inTangent: { dt: 'x' } })).toEqual({});
+    });
+  });
+});
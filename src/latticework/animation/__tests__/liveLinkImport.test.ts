@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { parseLiveLinkCSV, parseTimecode, decimateKeys } from '../liveLinkImport';
+
+/**
+ * Tests for the Live Link Face / ARKit CSV importer.
+ *
+ * Covers timecode parsing, column → AU mapping (including merged L/R shapes, eyes and
+ * head rotation) and key decimation.
+ */
+describe('liveLinkImport', () => {
+  const csv = (header: string[], rows: Array<Array<string | number>>) =>
+    [header.join(','), ...rows.map(r => r.join(','))].join('\n');
+
+  describe('parseTimecode', () => {
+    it('should convert HH:MM:SS:FF.sss using the frame rate', () => {
+      expect(parseTimecode('00:00:01:30.000', 60)).toBeCloseTo(1.5);
+      expect(parseTimecode('01:02:03:00', 30)).toBe(3723);
+      expect(parseTimecode('not a timecode', 60)).toBeNull();
+    });
+  });
+
+  describe('decimateKeys', () => {
+    it('should drop keys that lie on a straight line', () => {
+      const keys = [0, 0.25, 0.5, 0.75, 1].map(t => ({ t, v: t }));
+      expect(decimateKeys(keys, 0.01).map(k => k.t)).toEqual([0, 1]);
+    });
+
+    it('should keep peaks above the tolerance', () => {
+      const keys = [{ t: 0, v: 0 }, { t: 0.5, v: 0.8 }, { t: 1, v: 0 }];
+      expect(decimateKeys(keys, 0.01)).toHaveLength(3);
+    });
+  });
+
+  describe('parseLiveLinkCSV', () => {
+    const header = ['Timecode', 'BlendShapeCount', 'JawOpen', 'MouthSmileLeft', 'MouthSmileRight', 'EyeLookOutLeft', 'EyeLookInRight', 'HeadYaw'];
+
+    it('should map blendshapes, eyes and head rotation onto AUs', () => {
+      const snippet = parseLiveLinkCSV(csv(header, [
+        ['00:00:00:00.000', 61, 0, 0, 0, 0, 0, 0],
+        ['00:00:00:30.000', 61, 0.6, 0.4, 0.8, 0.5, 0.3, Math.PI / 6],
+      ]), { fps: 60, tolerance: 0 })!;
+
+      const at = (id: number, t: number) => snippet.au!.find(k => k.id === id && k.t === t)?.v;
+      expect(snippet.snippetCategory).toBe('auSnippet');
+      expect(at(26, 0.5)).toBeCloseTo(0.6);  // jawOpen
+      expect(at(12, 0.5)).toBeCloseTo(0.8);  // smile L/R merged into the stronger side
+      expect(at(61, 0.5)).toBeCloseTo(0.4);  // both eyes look left = mean of left-out/right-in
+      expect(at(51, 0.5)).toBeCloseTo(1);    // 30° yaw at headMaxDegrees 30
+      expect(snippet.au!.some(k => k.id === 52 && k.v > 0)).toBe(false);
+      expect(snippet.snippetBalanceMap!['12']).toBeCloseTo(0.5); // right-biased smile
+    });
+
+    it('should write per-eye AUs and mirror sides when asked', () => {
+      const snippet = parseLiveLinkCSV(csv(header, [
+        ['00:00:00:00.000', 61, 0, 0, 0, 0.5, 0, 0],
+      ]), { eyeMode: 'individual', mirror: true })!;
+      // Left eye looking out (AU 65) becomes the right eye looking out (AU 70)
+      expect(snippet.au!.map(k => k.id)).toEqual([70]);
+    });
+
+    it('should fall back to a seconds column and drop curves that never move', () => {
+      const snippet = parseLiveLinkCSV(csv(['time', 'jawOpen', 'cheekPuff'], [
+        [0, 0, 0],
+        [0.1, 0.5, 0],
+        [0.2, 1, 0],
+      ]))!;
+      expect(snippet.au!.map(k => [k.t, k.id])).toEqual([[0, 26], [0.2, 26]]);
+    });
+
+    it('should return null for unrelated CSV files', () => {
+      expect(parseLiveLinkCSV(csv(['a', 'b'], [[1, 2]]))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AnimationScheduler } from '../animationScheduler';
+import { createAnimationService } from '../animationService';
+import { createActor } from 'xstate';
+import { animationMachine } from '../animationMachine';
+import type { HostCaps } from '../types';
+
+/**
+ * Tests for offline (virtual-time) rendering.
+ *
+ * renderTimeline() steps play-time at a fixed frame rate and samples every enabled
+ * snippet like seek() does, so these run without fake timers or TransitionHandles.
+ */
+describe('Offline rendering', () => {
+  let scheduler: AnimationScheduler;
+  let host: HostCaps;
+  let applied: Array<{ id: number; value: number }>;
+
+  const ramp = {
+    name: 'ramp',
+    loop: false,
+    curves: {
+      '12': [
+        { time: 0, intensity: 0 },
+        { time: 1, intensity: 1 },
+      ],
+    },
+  };
+
+  beforeEach(() => {
+    applied = [];
+    host = {
+      applyAU: vi.fn((id: number, value: number) => { applied.push({ id, value }); }),
+      setMorph: vi.fn(),
+      setViseme: vi.fn(),
+      onSnippetEnd: vi.fn(),
+    };
+    scheduler = new AnimationScheduler(createActor(animationMachine).start(), host);
+  });
+
+  it('should render one frame per 1/fps including both ends', () => {
+    scheduler.schedule(ramp);
+    const timeline = scheduler.renderTimeline({ fps: 4 });
+
+    expect(timeline.durationSec).toBe(1);
+    expect(timeline.frames.map(f => f.time)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(timeline.frames.map(f => f.aus[12])).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(timeline.frames[2].snippetTimes.ramp).toBeCloseTo(0.5);
+  });
+
+  it('should push every frame to the host with immediate calls', () => {
+    scheduler.schedule(ramp);
+    scheduler.renderTimeline({ fps: 2 });
+
+    expect(applied).toEqual([
+      { id: 12, value: 0 },
+      { id: 12, value: 0.5 },
+      { id: 12, value: 1 },
+    ]);
+  });
+
+  it('should produce identical frames when rendered twice', () => {
+    scheduler.schedule(ramp);
+    scheduler.schedule({ ...ramp, name: 'late', loop: true, curves: { '1': ramp.curves['12'] } }, { startAtSec: 0.5 });
+
+    const first = scheduler.renderTimeline({ fps: 30, durationSec: 2 });
+    const second = scheduler.renderTimeline({ fps: 30, durationSec: 2 });
+    expect(second).toEqual(first);
+  });
+
+  it('should honor start offsets and priority when snippets overlap', () => {
+    scheduler.schedule({ ...ramp, name: 'low', snippetPriority: 1 });
+    scheduler.schedule(
+      // The time-0 key is re-seeded from the current value (continuity), so hold 0.2 from 0.25s
+      { name: 'high', snippetPriority: 5, curves: { '12': [{ time: 0, intensity: 0.2 }, { time: 0.25, intensity: 0.2 }] } },
+      { startAtSec: 0.5 }
+    );
+
+    const { frames } = scheduler.renderTimeline({ fps: 4, durationSec: 1 });
+    expect(frames[1].aus[12]).toBeCloseTo(0.25); // only 'low' has started
+    expect(frames[3].aus[12]).toBeCloseTo(0.2);  // 'high' wins once it starts
+    expect(frames[1].snippetTimes.high).toBeUndefined();
+  });
+
+  it('should report visemes separately from AUs', () => {
+    scheduler.schedule({
+      name: 'speech',
+      snippetCategory: 'visemeSnippet',
+      curves: { '3': [{ time: 0, intensity: 0 }, { time: 0.5, intensity: 0.8 }] },
+    });
+
+    const { frames } = scheduler.renderTimeline({ fps: 2 });
+    expect(frames[1].visemes[3]).toBeCloseTo(0.8);
+    expect(frames[1].aus[3]).toBeUndefined();
+    expect(host.setViseme).toHaveBeenLastCalledWith(3, 0.8, 1);
+  });
+
+  it('should notify the host once when a non-looping snippet ends', () => {
+    scheduler.schedule(ramp);
+    scheduler.renderTimeline({ fps: 10, durationSec: 2 });
+    expect(host.onSnippetEnd).toHaveBeenCalledTimes(1);
+    expect(host.onSnippetEnd).toHaveBeenCalledWith('ramp');
+  });
+
+  it('should refuse to render while playing', () => {
+    scheduler.schedule(ramp);
+    scheduler.play();
+    expect(() => scheduler.renderTimeline({ fps: 30 })).toThrow();
+    scheduler.stop();
+  });
+});
+
+describe('Offline rendering through the service', () => {
+  let host: HostCaps;
+
+  const ramp = {
+    name: 'ramp',
+    loop: false,
+    curves: { '12': [{ time: 0, intensity: 0 }, { time: 1, intensity: 1 }] },
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('window', {});
+    host = {
+      applyAU: vi.fn(),
+      setMorph: vi.fn(),
+      setViseme: vi.fn(),
+      onSnippetEnd: vi.fn(),
+    };
+  });
+
+  it('should render a copy of the schedule without touching the live host', () => {
+    const anim = createAnimationService(host);
+    anim.schedule(ramp, { startAtSec: 0.5 });
+    anim.seek('ramp', 0.25);
+    vi.mocked(host.applyAU).mockClear();
+    const before = anim.getScheduleSnapshot();
+
+    const { frames } = anim.renderTimeline({ fps: 4, durationSec: 1 });
+
+    expect(frames.map(f => f.aus[12])).toEqual([0.25, 0.5, 0.75, 1, 1]);
+    expect(host.applyAU).not.toHaveBeenCalled();
+    expect(host.onSnippetEnd).not.toHaveBeenCalled();
+    expect(anim.getScheduleSnapshot()).toEqual(before);
+    anim.dispose();
+  });
+
+  it('should keep disabled snippets silent in the copy', () => {
+    const anim = createAnimationService(host);
+    anim.schedule(ramp);
+    anim.enable('ramp', false);
+
+    const { frames } = anim.renderTimeline({ fps: 2, durationSec: 1 });
+    expect(frames.every(f => f.aus[12] === undefined)).toBe(true);
+    anim.dispose();
+  });
+
+  it('should apply the live layer state in the copy', () => {
+    const anim = createAnimationService(host);
+    anim.schedule({ ...ramp, mixerChannel: 'eyes' });
+
+    anim.setLayerWeight('eyes', 0.5);
+    expect(anim.renderTimeline({ fps: 2, durationSec: 1 }).frames.map(f => f.aus[12])).toEqual([0, 0.25, 0.5]);
+
+    anim.setLayerMuted('eyes', true);
+    const muted = anim.renderTimeline({ fps: 2, durationSec: 1 }).frames;
+    expect(muted.every(f => !f.aus[12])).toBe(true);
+
+    // The live layers are left as they were
+    expect(anim.getLayers().find(l => l.name === 'eyes')).toMatchObject({ weight: 0.5, muted: true });
+    anim.dispose();
+  });
+});
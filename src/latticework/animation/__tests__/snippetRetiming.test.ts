@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  reverseSnippet,
+  trimSnippet,
+  stretchSnippet,
+  concatSnippets,
+  mirrorSnippet,
+} from '../snippetRetiming';
+import { sampleCurve } from '../curveInterpolation';
+import type { CurvePoint, NormalizedSnippet } from '../types';
+
+/**
+ * Tests for the pure retiming operations (reverse, trim, stretch, concat, mirror).
+ *
+ * Every operation returns a new NormalizedSnippet; values are checked by sampling the
+ * resulting curves, so resampled segments and preserved interpolation are both covered.
+ */
+describe('snippetRetiming', () => {
+  const snippet = (curves: Record<string, CurvePoint[]>, patch: Partial<NormalizedSnippet> = {}): NormalizedSnippet => ({
+    name: 'clip',
+    curves,
+    isPlaying: false,
+    loop: false,
+    loopIteration: 0,
+    lastLoopTime: 0,
+    snippetPlaybackRate: 1,
+    snippetIntensityScale: 1,
+    snippetCategory: 'auSnippet',
+    snippetPriority: 0,
+    snippetBlendMode: 'replace',
+    snippetJawScale: 1,
+    snippetBalance: 0,
+    snippetBalanceMap: {},
+    currentTime: 0.5,
+    startWallTime: 0,
+    duration: 1,
+    cursor: {},
+    ...patch,
+  });
+
+  const ramp = () => snippet({ '12': [{ time: 0, intensity: 0 }, { time: 1, intensity: 1 }] });
+
+  describe('reverseSnippet', () => {
+    it('should mirror key times and swap ease-in/out', () => {
+      const sn = snippet({
+        '12': [{ time: 0, intensity: 0, interpolation: 'easeIn' }, { time: 2, intensity: 1 }],
+        '4': [{ time: 0, intensity: 0.5 }, { time: 1, intensity: 0 }],
+      });
+      const out = reverseSnippet(sn);
+
+      expect(out.duration).toBe(2);
+      expect(out.curves['12'][0]).toMatchObject({ time: 0, intensity: 1, interpolation: 'easeOut' });
+      expect(sampleCurve(out.curves['12'], 0.5)).toBeCloseTo(sampleCurve(sn.curves['12'], 1.5));
+      // Shorter curves stay aligned to the snippet's end
+      expect(out.curves['4'].map(k => k.time)).toEqual([1, 2]);
+      expect(out.currentTime).toBe(0);
+      expect(sn.curves['12'][0].interpolation).toBe('easeIn');
+    });
+
+    it('should jump first and then hold when reversing a step', () => {
+      const out = reverseSnippet(snippet({
+        '12': [{ time: 0, intensity: 0.2, interpolation: 'step' }, { time: 1, intensity: 0.8 }],
+      }));
+      expect(sampleCurve(out.curves['12'], 0)).toBeCloseTo(0.8);
+      expect(sampleCurve(out.curves['12'], 0.5)).toBeCloseTo(0.2);
+    });
+  });
+
+  describe('trimSnippet', () => {
+    it('should keep the range and shift it to start at 0', () => {
+      const out = trimSnippet(ramp(), 0.25, 0.75);
+      expect(out.duration).toBeCloseTo(0.5);
+      expect(out.curves['12'].map(k => [k.time, k.intensity])).toEqual([[0, 0.25], [0.5, 0.75]]);
+    });
+
+    it('should resample eased segments that are cut', () => {
+      const sn = snippet({ '12': [{ time: 0, intensity: 0, interpolation: 'easeInOut' }, { time: 1, intensity: 1 }] });
+      const out = trimSnippet(sn, 0.2);
+      expect(out.curves['12'].every(k => !k.interpolation)).toBe(true);
+      expect(sampleCurve(out.curves['12'], 0.3)).toBeCloseTo(sampleCurve(sn.curves['12'], 0.5), 2);
+    });
+
+    it('should reject an empty range', () => {
+      expect(() => trimSnippet(ramp(), 0.8, 0.2)).toThrow();
+    });
+  });
+
+  describe('stretchSnippet', () => {
+    it('should scale key and Bezier handle times to the target duration', () => {
+      const sn = snippet({
+        '12': [
+          { time: 0, intensity: 0, interpolation: 'bezier', outTangent: { dt: 0.25, dv: 0.5 } },
+          { time: 1, intensity: 1, inTangent: { dt: -0.25, dv: 0 } },
+        ],
+      });
+      const out = stretchSnippet(sn, 3);
+      expect(out.duration).toBe(3);
+      expect(out.curves['12'][0].outTangent).toEqual({ dt: 0.75, dv: 0.5 });
+      expect(sampleCurve(out.curves['12'], 1.5)).toBeCloseTo(sampleCurve(sn.curves['12'], 0.5));
+    });
+  });
+
+  describe('concatSnippets', () => {
+    it('should append the second snippet with a crossfade', () => {
+      const a = snippet({ '12': [{ time: 0, intensity: 1 }, { time: 1, intensity: 1 }] }, { name: 'a' });
+      const b = snippet({ '4': [{ time: 0, intensity: 1 }, { time: 1, intensity: 1 }] }, { name: 'b' });
+      const out = concatSnippets(a, b, 0.5);
+
+      expect(out.name).toBe('a+b');
+      expect(out.duration).toBeCloseTo(1.5);
+      expect(sampleCurve(out.curves['12'], 0.25)).toBeCloseTo(1);
+      expect(sampleCurve(out.curves['12'], 0.75)).toBeCloseTo(0.5); // fading out
+      expect(sampleCurve(out.curves['4'], 0.75)).toBeCloseTo(0.5);  // fading in
+      expect(sampleCurve(out.curves['4'], 1.25)).toBeCloseTo(1);
+    });
+  });
+
+  describe('mirrorSnippet', () => {
+    it('should swap left/right AUs and morphs and negate balance', () => {
+      const key = [{ time: 0, intensity: 1 }];
+      const out = mirrorSnippet(snippet(
+        { '61': key, '51': key, '12': key, 'Mouth_Smile_L': key, 'EyeBlinkLeft': key },
+        { snippetBalance: 0.4, snippetBalanceMap: { '12': -0.5 } }
+      ));
+
+      expect(Object.keys(out.curves).sort()).toEqual(['12', '52', '62', 'EyeBlinkRight', 'Mouth_Smile_R'].sort());
+      expect(out.snippetBalance).toBe(-0.4);
+      expect(out.snippetBalanceMap).toEqual({ '12': 0.5 });
+    });
+  });
+});
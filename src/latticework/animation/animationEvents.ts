@@ -5,10 +5,14 @@
  * (keyframe completion, state changes) rather than on every tick.
  */
 
+import type { AnimationLayer } from './types';
+
 // ============ Core Event Types ============
 
 interface AnimationEventBase {
   timestamp: number;
+  /** Agent whose animation agency emitted the event (unset on the shared app-wide stream) */
+  agentId?: string;
 }
 
 /** Emitted when a snippet is added to the animation system */
@@ -81,6 +85,20 @@ export interface SnippetSeekedEvent extends AnimationEventBase {
   time: number;
 }
 
+/** Emitted when a retiming edit (or its undo/redo) replaces a snippet's curves */
+export interface SnippetEditedEvent extends AnimationEventBase {
+  type: 'SNIPPET_EDITED';
+  snippetName: string;
+  operation: string;
+  undo?: boolean;
+}
+
+/** Emitted when a layer (named channel) is created or its weight/mute/solo/blend mode changes */
+export interface LayerChangedEvent extends AnimationEventBase {
+  type: 'LAYER_CHANGED';
+  layer: AnimationLayer;
+}
+
 // ============ Baked Animation Event Types ============
 
 /** State of a baked animation (from GLB/GLTF file) */
@@ -168,6 +186,8 @@ export type AnimationEvent =
   | SnippetParamsChangedEvent
   | GlobalPlaybackChangedEvent
   | SnippetSeekedEvent
+  | SnippetEditedEvent
+  | LayerChangedEvent
   | BakedClipsLoadedEvent
   | BakedAnimationStartedEvent
   | BakedAnimationStoppedEvent
@@ -0,0 +1,162 @@
+/**
+ * Animation Layers
+ *
+ * Named channels that snippets are assigned to through `mixerChannel`. Each layer resolves
+ * its own snippets first (snippetPriority / snippetBlendMode, as before), then layers are
+ * stacked bottom-up by `order`:
+ * - 'replace':  value = lower + (layer - lower) * weight
+ * - 'additive': value = lower + layer * weight
+ * - 'override': like 'replace', but applied after every other layer regardless of order
+ *
+ * Muted layers drop out; when any layer is soloed only soloed layers contribute.
+ * Snippets without a channel land on DEFAULT_LAYER, so single-layer setups resolve exactly
+ * like the pre-layer scheduler.
+ */
+
+import type { AnimationLayer, LayerBlendMode } from './types';
+
+export const DEFAULT_LAYER = 'face';
+
+export const DEFAULT_ANIMATION_LAYERS: AnimationLayer[] = [
+  { name: 'face', order: 0, weight: 1, muted: false, solo: false, blendMode: 'replace' },
+  { name: 'eyes', order: 1, weight: 1, muted: false, solo: false, blendMode: 'replace' },
+  { name: 'head', order: 2, weight: 1, muted: false, solo: false, blendMode: 'replace' },
+  { name: 'mouth', order: 3, weight: 1, muted: false, solo: false, blendMode: 'replace' },
+];
+
+/** One snippet's sampled value for a curve, tagged with how it competes inside its layer. */
+export type LayerContribution<M = unknown> = {
+  v: number;
+  pri: number;
+  additive: boolean;
+  /** Caller metadata carried along with the winning contribution (tween duration, category, ...) */
+  meta?: M;
+};
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+/**
+ * Resolve the contributions of a single layer for one curve:
+ * the highest-priority replace contribution wins (ties → higher value), additive ones are summed on top.
+ */
+export function resolveLayerContributions<M>(contributions: LayerContribution<M>[]): { v: number; pri: number; meta?: M } | null {
+  if (!contributions.length) return null;
+  let winner: LayerContribution<M> | null = null;
+  let additiveSum = 0;
+  let maxAdditivePri = 0;
+  let firstAdditive: LayerContribution<M> | null = null;
+
+  for (const c of contributions) {
+    if (c.additive) {
+      additiveSum += c.v;
+      maxAdditivePri = Math.max(maxAdditivePri, c.pri);
+      firstAdditive ??= c;
+      continue;
+    }
+    if (!winner || c.pri > winner.pri || (c.pri === winner.pri && c.v > winner.v)) winner = c;
+  }
+
+  if (winner) return { v: clamp01(winner.v + additiveSum), pri: winner.pri, meta: winner.meta };
+  return { v: clamp01(additiveSum), pri: maxAdditivePri, meta: firstAdditive?.meta };
+}
+
+/**
+ * Registry of layers plus the cross-layer composition rules.
+ * Owned by the scheduler; the service exposes it to agencies.
+ */
+export class LayerStack {
+  private layers = new Map<string, AnimationLayer>();
+
+  constructor(defaults: AnimationLayer[] = DEFAULT_ANIMATION_LAYERS) {
+    defaults.forEach(l => this.layers.set(l.name, { ...l }));
+  }
+
+  /** Layer name for a snippet (its mixerChannel, or the default layer). */
+  layerOf(sn: { mixerChannel?: string } | null | undefined): string {
+    return sn?.mixerChannel || DEFAULT_LAYER;
+  }
+
+  /** Get a layer, creating it on top of the stack if it does not exist yet. */
+  ensure(name: string, init: Partial<Omit<AnimationLayer, 'name'>> = {}): AnimationLayer {
+    let layer = this.layers.get(name);
+    if (!layer) {
+      const topOrder = Math.max(-1, ...Array.from(this.layers.values()).map(l => l.order));
+      layer = {
+        name,
+        order: topOrder + 1,
+        weight: 1,
+        muted: false,
+        solo: false,
+        blendMode: 'replace',
+        ...init,
+      };
+      this.layers.set(name, layer);
+    }
+    return layer;
+  }
+
+  get(name: string): AnimationLayer | undefined {
+    return this.layers.get(name);
+  }
+
+  /** Layers sorted bottom-up (copies, safe to hand to UI). */
+  list(): AnimationLayer[] {
+    return Array.from(this.layers.values())
+      .sort((a, b) => a.order - b.order)
+      .map(l => ({ ...l }));
+  }
+
+  update(name: string, patch: Partial<Omit<AnimationLayer, 'name'>>): AnimationLayer {
+    const layer = this.ensure(name);
+    if (patch.weight !== undefined) layer.weight = clamp01(Number.isFinite(patch.weight) ? patch.weight : 1);
+    if (patch.muted !== undefined) layer.muted = !!patch.muted;
+    if (patch.solo !== undefined) layer.solo = !!patch.solo;
+    if (patch.blendMode !== undefined) layer.blendMode = patch.blendMode;
+    if (patch.order !== undefined && Number.isFinite(patch.order)) layer.order = patch.order;
+    return { ...layer };
+  }
+
+  remove(name: string) {
+    this.layers.delete(name);
+  }
+
+  /** Weight a layer actually contributes with, after mute/solo. */
+  effectiveWeight(name: string): number {
+    const layer = this.layers.get(name);
+    if (!layer) return 1;
+    if (layer.muted) return 0;
+    const anySolo = Array.from(this.layers.values()).some(l => l.solo && !l.muted);
+    if (anySolo && !layer.solo) return 0;
+    return layer.weight;
+  }
+
+  /**
+   * Stack per-layer values for one curve into the final value.
+   * Returns null when no audible layer touches the curve.
+   */
+  compose(perLayer: Map<string, number>): number | null {
+    const ordered = Array.from(perLayer.keys())
+      .map(name => this.ensure(name))
+      .sort((a, b) => {
+        const ao = a.blendMode === 'override' ? 1 : 0;
+        const bo = b.blendMode === 'override' ? 1 : 0;
+        return ao - bo || a.order - b.order;
+      });
+
+    let value = 0;
+    let touched = false;
+    for (const layer of ordered) {
+      const w = this.effectiveWeight(layer.name);
+      if (w <= 0) continue;
+      const v = perLayer.get(layer.name)!;
+      value = blend(value, v, w, layer.blendMode);
+      touched = true;
+    }
+    return touched ? clamp01(value) : null;
+  }
+}
+
+function blend(lower: number, v: number, weight: number, mode: LayerBlendMode): number {
+  if (mode === 'additive') return lower + v * weight;
+  return lower + (v - lower) * weight;
+}
@@ -4,8 +4,12 @@ import type {
   AnimEvent,
   LoadAnimationEvent,
   NormalizedSnippet,
-  CurvePoint
+  CurvePoint,
+  MixerBlendConfig,
+  SnippetEdit
 } from './types';
+import { MIXER_KEYS } from './types';
+import { readInterpolation } from './curveInterpolation';
 
 // ---------- helpers ----------
 function normalizeCurves(input?: Record<string, Array<CurvePoint | { t?: number; v?: number; time?: number; intensity?: number; inherit?: boolean }>>) {
@@ -17,6 +21,7 @@ function normalizeCurves(input?: Record<string, Array<CurvePoint | { t?: number;
       time: typeof k.time === 'number' ? k.time : (typeof k.t === 'number' ? k.t : 0),
       intensity: typeof k.intensity === 'number' ? k.intensity : (typeof k.v === 'number' ? k.v : 0),
       inherit: !!k.inherit,
+      ...readInterpolation(k),
     }));
     norm.sort((a, b) => a.time - b.time);
     out[key] = norm;
@@ -39,6 +44,14 @@ function calculateDuration(curves: Record<string, CurvePoint[]>): number {
   return maxTime;
 }
 
+function pickMixerMetadata(d: NonNullable<LoadAnimationEvent['data']>): MixerBlendConfig {
+  const out: Record<string, unknown> = {};
+  for (const key of MIXER_KEYS) {
+    if (d[key] !== undefined) out[key] = d[key];
+  }
+  return out as MixerBlendConfig;
+}
+
 function coerceSnippet(d: NonNullable<LoadAnimationEvent['data']>, playing: boolean): NormalizedSnippet {
   const rate = typeof d.snippetPlaybackRate === 'number' ? d.snippetPlaybackRate : 1;
   const now = typeof performance !== 'undefined' ? performance.now() : Date.now();
@@ -60,6 +73,7 @@ function coerceSnippet(d: NonNullable<LoadAnimationEvent['data']>, playing: bool
     snippetBalanceMap: (d as any).snippetBalanceMap ?? {},  // Per-AU balance overrides
     snippetCategory: (d as any).snippetCategory ?? 'default',
     snippetPriority: typeof (d as any).snippetPriority === 'number' ? (d as any).snippetPriority : 0,
+    ...pickMixerMetadata(d),  // Layer channel/weight and other mixer metadata, when present
     currentTime: 0,
     startWallTime: now,  // Initialize to current time for wall-clock anchoring
     duration,  // Calculated from keyframes
@@ -67,6 +81,26 @@ function coerceSnippet(d: NonNullable<LoadAnimationEvent['data']>, playing: bool
   };
 }
 
+/** Oldest retiming edits are dropped beyond this many undo steps */
+const MAX_EDIT_HISTORY = 50;
+
+/**
+ * Put an edited snippet into the list: replaces the snippet with the same name (keeping its
+ * current play flag) or appends it.
+ */
+function putSnippet(animations: NormalizedSnippet[], sn: NormalizedSnippet): NormalizedSnippet[] {
+  const idx = animations.findIndex((s) => s?.name === sn.name);
+  if (idx < 0) return [...animations, sn];
+  const out = animations.slice();
+  out[idx] = { ...sn, isPlaying: animations[idx].isPlaying };
+  return out;
+}
+
+function revertEdit(animations: NormalizedSnippet[], edit: SnippetEdit): NormalizedSnippet[] {
+  if (!edit.before) return animations.filter((s) => s?.name !== edit.after.name);
+  return putSnippet(animations, edit.before);
+}
+
 // ---------- machine (XState v5 typing via `types` block) ----------
 export const animationMachine = createMachine({
   id: 'animationMachine',
@@ -82,7 +116,8 @@ export const animationMachine = createMachine({
     currentAUs: {},
     currentVisemes: {},
     manualOverrides: {},
-    scheduledTransitions: []
+    scheduledTransitions: [],
+    editHistory: { past: [], future: [] }
   },
 
   states: {
@@ -91,9 +126,13 @@ export const animationMachine = createMachine({
         LOAD_ANIMATION: { actions: 'addSnippetPaused' },
         REMOVE_ANIMATION: { actions: 'removeSnippet' },
         PLAY_ALL: { target: 'playing', actions: 'markAllPlaying' },
+        CURVE_CHANGED: { actions: 'mergeCurve' },
         SNIPPET_LOOPED: { actions: 'updateLoopState' },
         SET_LOOP_STATE: { actions: 'updateLoopState' },
-        SEEK_SNIPPET: { actions: 'seekSnippet' }
+        SEEK_SNIPPET: { actions: 'seekSnippet' },
+        APPLY_SNIPPET_EDIT: { actions: 'applySnippetEdit' },
+        UNDO_SNIPPET_EDIT: { actions: 'undoSnippetEdit' },
+        REDO_SNIPPET_EDIT: { actions: 'redoSnippetEdit' }
       }
     },
     playing: {
@@ -108,7 +147,10 @@ export const animationMachine = createMachine({
         MANUAL_CLEAR: { actions: 'manualClear' },
         SNIPPET_LOOPED: { actions: 'updateLoopState' },
         SET_LOOP_STATE: { actions: 'updateLoopState' },
-        SEEK_SNIPPET: { actions: 'seekSnippet' }
+        SEEK_SNIPPET: { actions: 'seekSnippet' },
+        APPLY_SNIPPET_EDIT: { actions: 'applySnippetEdit' },
+        UNDO_SNIPPET_EDIT: { actions: 'undoSnippetEdit' },
+        REDO_SNIPPET_EDIT: { actions: 'redoSnippetEdit' }
       }
     },
     paused: {
@@ -122,7 +164,10 @@ export const animationMachine = createMachine({
         MANUAL_CLEAR: { actions: 'manualClear' },
         SNIPPET_LOOPED: { actions: 'updateLoopState' },
         SET_LOOP_STATE: { actions: 'updateLoopState' },
-        SEEK_SNIPPET: { actions: 'seekSnippet' }
+        SEEK_SNIPPET: { actions: 'seekSnippet' },
+        APPLY_SNIPPET_EDIT: { actions: 'applySnippetEdit' },
+        UNDO_SNIPPET_EDIT: { actions: 'undoSnippetEdit' },
+        REDO_SNIPPET_EDIT: { actions: 'redoSnippetEdit' }
       }
     }
   }
@@ -176,7 +221,7 @@ export const animationMachine = createMachine({
       const sn = context.animations[targetIdx];
       const newCurves = { ...sn.curves, [String(auId)]: [...curve].sort((a, b) => a.time - b.time) };
       const newCursor = { ...sn.cursor, [String(auId)]: 0 };
-      const newSn = { ...sn, curves: newCurves, cursor: newCursor };
+      const newSn = { ...sn, curves: newCurves, cursor: newCursor, duration: calculateDuration(newCurves) };
       const animations = context.animations.slice();
       animations[targetIdx] = newSn;
       return { animations };
@@ -254,6 +299,37 @@ export const animationMachine = createMachine({
       // Seeking enables the snippet for playback (clears ended state)
       animations[idx] = { ...sn, currentTime: Math.max(0, time), startWallTime: newStartWallTime, isPlaying: true };
       return { animations };
+    }),
+
+    // Retiming edits with undo/redo
+    applySnippetEdit: assign(({ context, event }) => {
+      if (event.type !== 'APPLY_SNIPPET_EDIT') return {};
+      const before = context.animations.find((s) => s?.name === event.snippet.name) ?? null;
+      const edit: SnippetEdit = { operation: event.operation, before, after: event.snippet };
+      return {
+        animations: putSnippet(context.animations, event.snippet),
+        editHistory: { past: [...context.editHistory.past, edit].slice(-MAX_EDIT_HISTORY), future: [] }
+      };
+    }),
+
+    undoSnippetEdit: assign(({ context }) => {
+      const { past, future } = context.editHistory;
+      const edit = past[past.length - 1];
+      if (!edit) return {};
+      return {
+        animations: revertEdit(context.animations, edit),
+        editHistory: { past: past.slice(0, -1), future: [edit, ...future] }
+      };
+    }),
+
+    redoSnippetEdit: assign(({ context }) => {
+      const { past, future } = context.editHistory;
+      const edit = future[0];
+      if (!edit) return {};
+      return {
+        animations: putSnippet(context.animations, edit.after),
+        editHistory: { past: [...past, edit], future: future.slice(1) }
+      };
     })
   }
 });
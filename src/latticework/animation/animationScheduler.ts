@@ -1,7 +1,11 @@
-import type { Snippet, HostCaps, ScheduleOpts, ClipHandle } from './types';
+import type { Snippet, HostCaps, ScheduleOpts, ClipHandle, CurvePoint, AnimationLayer, OfflineRenderOptions, RenderedFrame, RenderedTimeline } from './types';
+import { MIXER_KEYS } from './types';
 import type { TransitionHandle } from 'loom3';
 import { VISEME_KEYS } from 'loom3';
-import { animationEventEmitter } from './animationService';
+import { animationEventEmitter, type AnimationEventEmitter } from './animationService';
+import { readInterpolation, sampleCurve as sampleAt, densifyCurve, densifyCurves } from './curveInterpolation';
+import { LayerStack, resolveLayerContributions, type LayerContribution } from './animationLayers';
+import { trimCurve } from './snippetRetiming';
 
 type RuntimeSched = { name: string; startsAt: number; offset: number; enabled: boolean };
 
@@ -18,6 +22,8 @@ type PlaybackRunner = {
   handles: TransitionHandle[];
   /** ClipHandle when using buildClip() - preferred path */
   clipHandle?: ClipHandle;
+  /** Snippet time at which the current clip starts (non-zero when resumed mid-snippet) */
+  clipOffset?: number;
   /** Promise that resolves when the runner completes or is stopped */
   promise: Promise<void>;
 };
@@ -52,7 +58,35 @@ const normalizeIntensity = (value: number): number => {
   return value > 1 ? value / 100 : value;
 };
 
-type SchedulerCurvePoint = { time: number; intensity: number; inherit?: boolean };
+type SchedulerCurvePoint = CurvePoint;
+
+type TargetEntry = { v: number; pri: number; durMs: number; category: string };
+
+/** Copy the mixer/layer metadata that is present on a raw snippet. */
+const pickMixerFields = (sn: any) => {
+  const out: Record<string, unknown> = {};
+  for (const key of MIXER_KEYS) {
+    if (sn[key] !== undefined) out[key] = sn[key];
+  }
+  return out;
+};
+
+/** Per-snippet layer weight (mixerWeight), clamped to [0, 1] */
+const snippetWeight = (sn: any) => {
+  const w = sn?.mixerWeight;
+  return typeof w === 'number' && Number.isFinite(w) ? clamp01(w) : 1;
+};
+
+/**
+ * Viseme index a target curve drives, or -1 when it is not a viseme.
+ * Only viseme/combined snippets address visemes, either by index (0-14) or by VISEME_KEYS name.
+ */
+const visemeIndexOf = (curveId: string, category: string): number => {
+  if (category !== 'visemeSnippet' && category !== 'combined') return -1;
+  const numericId = Number(curveId);
+  if (!Number.isNaN(numericId) && numericId >= 0 && numericId < VISEME_KEYS.length) return numericId;
+  return VISEME_KEYS.indexOf(curveId);
+};
 
 export function normalize(sn: any): Snippet & { curves: Record<string, SchedulerCurvePoint[]> } {
   if (sn && sn.curves) {
@@ -61,7 +95,8 @@ export function normalize(sn: any): Snippet & { curves: Record<string, Scheduler
       curves[key] = arr.map((k: any) => ({
         time: k.time ?? k.t ?? 0,
         intensity: normalizeIntensity(k.intensity ?? k.v ?? 0),
-        inherit: !!k.inherit
+        inherit: !!k.inherit,
+        ...readInterpolation(k)
       }));
     });
     return {
@@ -75,6 +110,7 @@ export function normalize(sn: any): Snippet & { curves: Record<string, Scheduler
       snippetJawScale: sn.snippetJawScale ?? 1.0,  // Jaw bone activation for viseme snippets
       snippetBalance: sn.snippetBalance ?? 0,  // Global L/R balance for bilateral AUs
       snippetBalanceMap: sn.snippetBalanceMap ?? {},  // Per-AU balance overrides
+      ...pickMixerFields(sn),
       curves
     } as any;
   }
@@ -85,7 +121,8 @@ export function normalize(sn: any): Snippet & { curves: Record<string, Scheduler
     (curves[key] ||= []).push({
       time: k.t ?? k.time ?? 0,
       intensity: normalizeIntensity(k.v ?? k.intensity ?? 0),
-      inherit: !!k.inherit
+      inherit: !!k.inherit,
+      ...readInterpolation(k)
     });
   });
   (sn.viseme ?? []).forEach((k: any) => {
@@ -93,7 +130,8 @@ export function normalize(sn: any): Snippet & { curves: Record<string, Scheduler
     (curves[key] ||= []).push({
       time: k.t ?? k.time ?? 0,
       intensity: normalizeIntensity(k.v ?? k.intensity ?? 0),
-      inherit: !!k.inherit
+      inherit: !!k.inherit,
+      ...readInterpolation(k)
     });
   });
   Object.values(curves).forEach(arr => arr.sort((a, b) => a.time - b.time));
@@ -109,28 +147,15 @@ export function normalize(sn: any): Snippet & { curves: Record<string, Scheduler
     snippetJawScale: sn.snippetJawScale ?? 1.0,
     snippetBalance: sn.snippetBalance ?? 0,
     snippetBalanceMap: sn.snippetBalanceMap ?? {},
+    ...pickMixerFields(sn),
     curves
   } as any;
 }
 
-function sampleAt(arr: SchedulerCurvePoint[], t: number) {
-  if (!arr.length) return 0;
-  if (t <= arr[0].time) return arr[0].intensity;
-  if (t >= arr[arr.length - 1].time) return arr[arr.length - 1].intensity;
-  for (let i = 0; i < arr.length - 1; i++) {
-    const a = arr[i],
-      b = arr[i + 1];
-    if (t >= a.time && t <= b.time) {
-      const dt = Math.max(1e-6, b.time - a.time);
-      const p = (t - a.time) / dt;
-      return a.intensity + (b.intensity - a.intensity) * p;
-    }
-  }
-  return 0;
-}
-
 export class AnimationScheduler {
   private host: HostCaps;
+  /** Event stream this scheduler publishes keyframe/loop/completion events on */
+  private events: AnimationEventEmitter;
   private machine: any;
   private sched = new Map<string, RuntimeSched>();
   private playing = false;
@@ -143,6 +168,8 @@ export class AnimationScheduler {
   private loopLocalTimes = new Map<string, { local: number; loopCount: number }>();
   /** Active playback runners per snippet - each runner awaits TransitionHandle promises */
   private playbackRunners = new Map<string, PlaybackRunner>();
+  /** Named channels (face/eyes/head/mouth/...) that snippets blend on via mixerChannel */
+  private layers = new LayerStack();
 
   // Defensive: ensure actor is running before any send, recover if stopped
   private ensureActorRunning() {
@@ -161,9 +188,10 @@ export class AnimationScheduler {
     }
   }
 
-  constructor(machine: any, host: HostCaps) {
+  constructor(machine: any, host: HostCaps, events: AnimationEventEmitter = animationEventEmitter) {
     this.machine = machine;
     this.host = host;
+    this.events = events;
     this.ensureActorRunning();
   }
 
@@ -181,7 +209,7 @@ export class AnimationScheduler {
    * Prefers buildClip() when available (entire clip built upfront, mixer handles interpolation).
    * Falls back to keyframe-by-keyframe transitions for backwards compatibility.
    */
-  private startPlaybackRunner(snippetName: string) {
+  private startPlaybackRunner(snippetName: string, fromLocalSec = 0) {
     // Stop any existing runner for this snippet
     this.stopPlaybackRunner(snippetName);
 
@@ -203,11 +231,11 @@ export class AnimationScheduler {
     // This builds the entire clip upfront and lets Three.js mixer handle interpolation
     if (this.host.buildClip) {
       console.log(`[Scheduler] ✓ Using buildClip() for "${snippetName}" (${Object.keys(sn.curves).length} curves)`);
-      runner.promise = this.runClipBasedPlayback(snippetName, runner);
+      runner.promise = this.runClipBasedPlayback(snippetName, runner, fromLocalSec);
     } else {
       // LEGACY PATH: Keyframe-by-keyframe transitions
       console.log(`[Scheduler] ⚠ Using LEGACY keyframe transitions for "${snippetName}" (buildClip not available)`);
-      runner.promise = this.runPlaybackLoop(snippetName);
+      runner.promise = this.runPlaybackLoop(snippetName, fromLocalSec);
     }
   }
 
@@ -225,8 +253,9 @@ export class AnimationScheduler {
   /**
    * Run clip-based playback using buildClip().
    * Builds entire clip upfront and lets Three.js mixer handle all interpolation.
+   * The first pass starts `fromLocalSec` into the snippet (later loop passes start at 0).
    */
-  private async runClipBasedPlayback(snippetName: string, runner: PlaybackRunner): Promise<void> {
+  private async runClipBasedPlayback(snippetName: string, runner: PlaybackRunner, fromLocalSec = 0): Promise<void> {
     let loopIteration = 0;
 
     // Main playback loop (handles looping)
@@ -241,6 +270,8 @@ export class AnimationScheduler {
       const jawScale = (sn as any).snippetJawScale ?? 1.0;
       const loop = !!sn.loop;
       const duration = this.totalDuration(sn);
+      // Resuming mid-snippet on the first pass: the clip holds only the rest of the curves
+      const from = loopIteration === 0 && fromLocalSec > 0 && fromLocalSec < duration ? fromLocalSec : 0;
 
       // Apply continuity: reseed inherited keyframes with current values
       this.reseedInheritedKeyframes(sn);
@@ -248,8 +279,9 @@ export class AnimationScheduler {
       // Convert curves to format expected by buildClip()
       // buildClip expects: Record<string, Array<{ time: number; intensity: number; inherit?: boolean }>>
       const clipCurves: Record<string, Array<{ time: number; intensity: number; inherit?: boolean }>> = {};
+      // Non-linear segments are densified since the mixer only interpolates linearly
       for (const [curveId, arr] of Object.entries(curves)) {
-        clipCurves[curveId] = arr.map(kf => ({
+        clipCurves[curveId] = densifyCurve(from > 0 ? trimCurve(arr, from, duration) : arr).map(kf => ({
           time: kf.time,
           intensity: kf.intensity,
           inherit: kf.inherit,
@@ -266,6 +298,8 @@ export class AnimationScheduler {
           balance,
           jawScale,
           intensityScale: scale,
+          weight: this.layers.effectiveWeight(this.layers.layerOf(sn)) * snippetWeight(sn),
+          additive: this.layers.get(this.layers.layerOf(sn))?.blendMode === 'additive' || !!(sn as any).mixerAdditive,
         }
       );
 
@@ -275,6 +309,7 @@ export class AnimationScheduler {
       }
 
       runner.clipHandle = clipHandle;
+      runner.clipOffset = from;
       console.log(`[Scheduler] ▶ Playing clip "${clipHandle.clipName}" (duration: ${clipHandle.getDuration().toFixed(2)}s, rate: ${rate}, loop: ${loop})`);
 
       // Start playback
@@ -286,8 +321,8 @@ export class AnimationScheduler {
           clearInterval(progressInterval);
           return;
         }
-        const currentTime = clipHandle.getTime();
-        const clipDuration = clipHandle.getDuration();
+        const currentTime = clipHandle.getTime() + from;
+        const clipDuration = clipHandle.getDuration() + from;
 
         // Update snippet's currentTime in machine context
         const snUpdate = this.getSnippetByName(snippetName);
@@ -301,7 +336,7 @@ export class AnimationScheduler {
           this.currentValues.set(curveId, clamp01(applyIntensityScale(value, scale)));
         }
 
-        animationEventEmitter.emitKeyframeCompleted({
+        this.events.emitKeyframeCompleted({
           snippetName,
           keyframeIndex: -1, // N/A for clip-based playback
           totalKeyframes: -1,
@@ -330,7 +365,7 @@ export class AnimationScheduler {
         console.log(`[Scheduler] ✓ Clip "${snippetName}" completed (non-looping)`);
         this.ended.add(snippetName);
         if (snCheck) (snCheck as any).isPlaying = false;
-        animationEventEmitter.emitSnippetCompleted(snippetName);
+        this.events.emitSnippetCompleted(snippetName);
         try { this.host.onSnippetEnd?.(snippetName); } catch {}
         break;
       }
@@ -338,7 +373,7 @@ export class AnimationScheduler {
       // Looping - increment and continue
       loopIteration++;
       console.log(`[Scheduler] ↻ Clip "${snippetName}" looping (iteration ${loopIteration})`);
-      animationEventEmitter.emitSnippetLooped({
+      this.events.emitSnippetLooped({
         snippetName,
         iteration: loopIteration,
         localTime: 0,
@@ -420,8 +455,9 @@ export class AnimationScheduler {
   /**
    * The main async playback loop for a snippet.
    * Fires transitions at keyframe boundaries and awaits their completion.
+   * The first pass starts `fromLocalSec` into the snippet (later loop passes start at 0).
    */
-  private async runPlaybackLoop(snippetName: string): Promise<void> {
+  private async runPlaybackLoop(snippetName: string, fromLocalSec = 0): Promise<void> {
     const runner = this.playbackRunners.get(snippetName);
     if (!runner) return;
 
@@ -441,7 +477,8 @@ export class AnimationScheduler {
       const sn = getSnippet();
       if (!sn || !sn.curves) break;
 
-      const curves = sn.curves as Record<string, SchedulerCurvePoint[]>;
+      // Eased/Bezier/step segments become extra linear keyframes so engine tweens follow the curve shape
+      const curves = densifyCurves(sn.curves as Record<string, SchedulerCurvePoint[]>);
       const rate = sn.snippetPlaybackRate ?? 1;
       const scale = sn.snippetIntensityScale ?? 1;
 
@@ -452,7 +489,10 @@ export class AnimationScheduler {
           allTimes.add(kf.time);
         }
       }
-      const keyframeTimes = Array.from(allTimes).sort((a, b) => a - b);
+      let keyframeTimes = Array.from(allTimes).sort((a, b) => a - b);
+      if (loopIteration === 0 && fromLocalSec > 0) {
+        keyframeTimes = [fromLocalSec, ...keyframeTimes.filter(t => t > fromLocalSec)];
+      }
 
       if (keyframeTimes.length === 0) break;
 
@@ -476,13 +516,15 @@ export class AnimationScheduler {
         const isVisemeCategory = snippetCategory === 'visemeSnippet' || snippetCategory === 'combined';
 
         for (const [curveId, arr] of Object.entries(curves)) {
-          const targetValue = clamp01(applyIntensityScale(sampleAt(arr, nextTime), scale));
-          this.currentValues.set(curveId, targetValue);
-
           // Check if this is a viseme index (numeric 0-14 in viseme/combined snippets)
           const numericId = Number(curveId);
           const isVisemeIndex = isVisemeCategory && !Number.isNaN(numericId) && numericId >= 0 && numericId < VISEME_KEYS.length;
 
+          // Blend with other playing snippets on the same curve through the layer stack
+          const ownValue = clamp01(applyIntensityScale(sampleAt(arr, nextTime), scale));
+          const targetValue = this.resolveLayeredValue(snippetName, curveId, ownValue, isVisemeIndex);
+          this.currentValues.set(curveId, targetValue);
+
           if (isVisemeIndex) {
             // Use transitionViseme for proper jaw bone coordination
             // Get jawScale from snippet metadata (defaults to 1.0)
@@ -541,7 +583,7 @@ export class AnimationScheduler {
         if (snForDuration) {
           (snForDuration as any).currentTime = keyframeTimes[i];
         }
-        animationEventEmitter.emitKeyframeCompleted({
+        this.events.emitKeyframeCompleted({
           snippetName,
           keyframeIndex: i,
           totalKeyframes: keyframeTimes.length,
@@ -563,7 +605,7 @@ export class AnimationScheduler {
         // Mark snippet as not playing so UI can show play button for replay
         if (snCheck) snCheck.isPlaying = false;
         // Emit snippet completed event for UI
-        animationEventEmitter.emitSnippetCompleted(snippetName);
+        this.events.emitSnippetCompleted(snippetName);
         try { this.host.onSnippetEnd?.(snippetName); } catch {}
         break;
       }
@@ -571,7 +613,7 @@ export class AnimationScheduler {
       // Looping - increment and continue
       loopIteration++;
       // Emit loop event for UI
-      animationEventEmitter.emitSnippetLooped({
+      this.events.emitSnippetLooped({
         snippetName,
         iteration: loopIteration,
         localTime: 0,
@@ -641,13 +683,10 @@ export class AnimationScheduler {
   }
 
   private buildTargetMap(snippets: Array<Snippet & { curves: Record<string, SchedulerCurvePoint[]> }>, tPlay: number, ignorePlayingState = false) {
-    const targets = new Map<string, { v: number; pri: number; durMs: number; category: string }>();
+    const targets = new Map<string, TargetEntry>();
 
-    // Track additive contributions for each AU (all snippets with blendMode='additive' contribute)
-    const additiveContributions = new Map<string, Array<{ snippet: string; v: number; pri: number }>>();
-
-    // Track conflicts for debugging
-    const conflicts = new Map<string, Array<{ snippet: string; pri: number; v: number; won: boolean }>>();
+    // Per curve → per layer → contributions of every snippet on that layer
+    const contributions = new Map<string, Map<string, LayerContribution<TargetEntry>[]>>();
 
     for (const sn of snippets) {
       // Honor per-snippet play state (VISOS parity) - unless explicitly ignoring
@@ -656,6 +695,8 @@ export class AnimationScheduler {
       const scale = sn.snippetIntensityScale ?? 1;
       const pri = typeof sn.snippetPriority === 'number' ? sn.snippetPriority : 0;
       const blendMode = (sn as any).snippetBlendMode ?? 'replace';
+      const layer = this.layers.layerOf(sn);
+      const weight = snippetWeight(sn);
       const info = this.computeLocalInfo(sn, tPlay);
       if (!info) continue;
 
@@ -665,7 +706,7 @@ export class AnimationScheduler {
         // Sample the curve at the current local time
         const rawValue = sampleAt(arr, info.local);
         const scaled = applyIntensityScale(rawValue, scale);
-        const v = clamp01(scaled);
+        const v = clamp01(scaled) * weight;
 
         // Find next keyframe to calculate tween duration
         let nextKfTime = info.duration; // default to end
@@ -678,56 +719,76 @@ export class AnimationScheduler {
         const timeToNext = (nextKfTime - info.local) / info.rate;
         // Use smoother tween duration - longer min for smoother transitions, higher max for slower movements
         const durMs = Math.max(50, Math.min(1000, timeToNext * 1000)); // clamp between 50ms and 1000ms
-        const prev = targets.get(curveId);
-
-        // ADDITIVE BLENDING: snippets with blendMode='additive' contribute cumulatively
-        if (blendMode === 'additive') {
-          if (!additiveContributions.has(curveId)) {
-            additiveContributions.set(curveId, []);
-          }
-          additiveContributions.get(curveId)!.push({ snippet: sn.name || 'unknown', v, pri });
-          continue; // Don't compete with replace-mode snippets here, handle after loop
-        }
 
-        // Track conflict for debugging (only when there's a previous value)
-        if (prev) {
-          if (!conflicts.has(curveId)) conflicts.set(curveId, []);
-          conflicts.get(curveId)!.push({ snippet: sn.name || 'unknown', pri, v, won: false });
-        }
+        if (!contributions.has(curveId)) contributions.set(curveId, new Map());
+        const byLayer = contributions.get(curveId)!;
+        if (!byLayer.has(layer)) byLayer.set(layer, []);
+        byLayer.get(layer)!.push({
+          v,
+          pri,
+          // ADDITIVE BLENDING: snippets with blendMode='additive' contribute cumulatively within their layer
+          additive: blendMode === 'additive',
+          meta: { v, pri, durMs: blendMode === 'additive' ? 120 : durMs, category: sn.snippetCategory || 'default' },
+        });
+      }
+    }
 
-        // REPLACE MODE (default): higher priority wins, ties broken by higher value
-        const wins = !prev || pri > prev.pri || (pri === prev.pri && v > prev.v);
-        if (wins) {
-          targets.set(curveId, { v, pri, durMs, category: sn.snippetCategory || 'default' });
-          if (prev && conflicts.has(curveId)) {
-            // Mark this one as winner
-            const arr = conflicts.get(curveId)!;
-            arr[arr.length - 1].won = true;
-          }
+    // Resolve each layer (priority winner + additive sum), then stack the layers
+    for (const [curveId, byLayer] of contributions) {
+      const perLayer = new Map<string, number>();
+      let top: TargetEntry | undefined;
+      for (const [layer, list] of byLayer) {
+        const resolved = resolveLayerContributions(list);
+        if (!resolved) continue;
+        perLayer.set(layer, resolved.v);
+        if (resolved.meta && this.layers.effectiveWeight(layer) > 0) {
+          if (!top || resolved.pri >= top.pri) top = { ...resolved.meta, pri: resolved.pri };
         }
       }
+      const v = this.layers.compose(perLayer);
+      if (v === null || !top) continue;
+      targets.set(curveId, { ...top, v });
     }
 
-    // Apply additive contributions: sum all additive values and combine with replace-mode winner
-    for (const [curveId, contributions] of additiveContributions.entries()) {
-      // Sum all additive values
-      const additiveSum = contributions.reduce((sum, c) => sum + c.v, 0);
-      const maxAdditivePri = Math.max(...contributions.map(c => c.pri), 0);
-
-      const replaceTarget = targets.get(curveId);
+    return targets;
+  }
 
-      if (replaceTarget) {
-        // Combine replace-mode winner with additive sum
-        const combined = clamp01(replaceTarget.v + additiveSum);
-        targets.set(curveId, { ...replaceTarget, v: combined });
-      } else {
-        // No replace-mode snippet, just use additive sum
-        const combined = clamp01(additiveSum);
-        targets.set(curveId, { v: combined, pri: maxAdditivePri, durMs: 120, category: 'default' });
-      }
+  /**
+   * Resolve the value a runner should send for one curve, taking every other playing snippet
+   * on the same curve into account (sampled at its current time) through the layer stack.
+   * Viseme indices and AU ids share numeric curve keys, so only curves of the same kind are mixed.
+   */
+  private resolveLayeredValue(snippetName: string, curveId: string, ownValue: number, isViseme: boolean): number {
+    const byLayer = new Map<string, LayerContribution[]>();
+    for (const sn of this.currentSnippets()) {
+      if (!sn?.curves?.[curveId]) continue;
+      const isOwn = sn.name === snippetName;
+      if (!isOwn && ((sn as any).isPlaying === false || !this.playbackRunners.has(sn.name || ''))) continue;
+
+      const category = (sn as any).snippetCategory ?? 'default';
+      const snIsViseme = (category === 'visemeSnippet' || category === 'combined') &&
+        Number(curveId) >= 0 && Number(curveId) < VISEME_KEYS.length;
+      if (snIsViseme !== isViseme) continue;
+
+      const v = isOwn
+        ? ownValue
+        : clamp01(applyIntensityScale(sampleAt(sn.curves[curveId], (sn as any).currentTime ?? 0), sn.snippetIntensityScale ?? 1));
+      const layer = this.layers.layerOf(sn);
+      if (!byLayer.has(layer)) byLayer.set(layer, []);
+      byLayer.get(layer)!.push({
+        v: v * snippetWeight(sn),
+        pri: sn.snippetPriority ?? 0,
+        additive: (sn as any).snippetBlendMode === 'additive',
+      });
     }
 
-    return targets;
+    const perLayer = new Map<string, number>();
+    for (const [layer, list] of byLayer) {
+      const resolved = resolveLayerContributions(list);
+      if (resolved) perLayer.set(layer, resolved.v);
+    }
+    // A muted/non-solo layer releases its curves back to neutral
+    return this.layers.compose(perLayer) ?? 0;
   }
 
   /**
@@ -739,7 +800,7 @@ export class AnimationScheduler {
    * @param immediate - If true, use applyAU/setMorph for instant updates (scrubbing).
    *                    If false, use transitionAU/transitionMorph for smooth animation.
    */
-  private applyContinuumTargets(targets: Map<string, { v: number; pri: number; durMs: number; category: string }>, immediate = false) {
+  private applyContinuumTargets(targets: Map<string, TargetEntry>, immediate = false) {
     const processedAUs = new Set<string>();
     const processedContinuums = new Set<string>(); // Track which continuum pairs we've already processed
 
@@ -852,21 +913,12 @@ export class AnimationScheduler {
   /** Apply viseme targets with jaw bone coordination.
    * @param immediate - If true, use setViseme for instant updates (scrubbing).
    */
-  private applyVisemeTargets(targets: Map<string, { v: number; pri: number; durMs: number; category: string }>, immediate = false) {
+  private applyVisemeTargets(targets: Map<string, TargetEntry>, immediate = false) {
     const processedIds: string[] = [];
     const jawScale = 1.0; // Could be made configurable
 
     targets.forEach((entry, curveId) => {
-      const isVisemeCategory = entry.category === 'visemeSnippet' || entry.category === 'combined';
-      if (!isVisemeCategory) return;
-
-      const numericId = Number(curveId);
-      const numericIsViseme = !Number.isNaN(numericId) && numericId >= 0 && numericId < VISEME_KEYS.length;
-      const nameMatchIndex = VISEME_KEYS.indexOf(curveId);
-
-      // Get viseme index (either from numeric ID or name lookup)
-      const visemeIndex = numericIsViseme ? numericId : (nameMatchIndex >= 0 ? nameMatchIndex : -1);
-
+      const visemeIndex = visemeIndexOf(curveId, entry.category);
       if (visemeIndex < 0) return; // Combined snippets can carry AU ids too - leave them for continuum logic
 
       const v = clamp01(entry.v);
@@ -934,7 +986,133 @@ export class AnimationScheduler {
     });
   }
 
+  // ============================================================================
+  // OFFLINE RENDERING
+  // Steps virtual play-time at a fixed frame rate instead of waiting on
+  // setTimeout/TransitionHandle promises. Every frame is sampled exactly like
+  // seek(): target map → immediate host calls (applyAU/setViseme/setMorph).
+  // Pair with a fake HostCaps to record frames without a browser.
+  // ============================================================================
+
+  /**
+   * Render every enabled snippet frame-by-frame on a virtual clock.
+   * The scheduler must not be playing (runners would race the virtual clock);
+   * play-time is restored afterwards so rendering the same schedule twice gives identical frames.
+   */
+  renderTimeline(opts: OfflineRenderOptions): RenderedTimeline {
+    if (this.playing) {
+      throw new Error('[Scheduler] renderTimeline() needs a stopped or paused scheduler');
+    }
+    const fps = opts.fps;
+    if (!Number.isFinite(fps) || fps <= 0) {
+      throw new Error(`[Scheduler] Invalid render fps: ${fps}`);
+    }
+
+    const snippets = this.currentSnippets();
+    const startSec = Math.max(0, opts.startSec ?? 0);
+    const durationSec = Math.max(0, opts.durationSec ?? this.timelineEnd(snippets) - startSec);
+    const frameCount = Math.floor(durationSec * fps + 1e-9) + 1;
+
+    const savedPlayTime = this.playTimeSec;
+    const savedEnded = new Set(this.ended);
+    this.loopLocalTimes.clear();
+    this.ended.clear();
+
+    const frames: RenderedFrame[] = [];
+    try {
+      for (let index = 0; index < frameCount; index++) {
+        const time = startSec + index / fps;
+        this.playTimeSec = time;
+
+        const current = this.currentSnippets();
+        this.refreshSnippetTimes(current, time);
+        // Same rule as seek(): enabled schedule entries render, regardless of the machine's play flag
+        const targets = this.buildTargetMap(current, time, true);
+
+        const frame: RenderedFrame = { index, time, aus: {}, visemes: {}, morphs: {}, snippetTimes: {} };
+        targets.forEach((entry, curveId) => {
+          const visemeIndex = visemeIndexOf(curveId, entry.category);
+          if (visemeIndex >= 0) frame.visemes[visemeIndex] = entry.v;
+          else if (isNum(curveId)) frame.aus[Number(curveId)] = entry.v;
+          else frame.morphs[curveId] = entry.v;
+        });
+
+        for (const sn of current) {
+          const info = this.computeLocalInfo(sn, time);
+          if (!info || !sn.name) continue;
+          frame.snippetTimes[sn.name] = info.local;
+          if (!sn.loop && info.rawLocal >= info.duration && !this.ended.has(sn.name)) {
+            this.ended.add(sn.name);
+            try { this.host.onSnippetEnd?.(sn.name); } catch {}
+          }
+        }
+
+        this.applyVisemeTargets(targets, true);
+        this.applyContinuumTargets(targets, true);
+        frames.push(frame);
+      }
+    } finally {
+      this.playTimeSec = savedPlayTime;
+      this.ended = savedEnded;
+      this.loopLocalTimes.clear();
+    }
+
+    return { fps, startSec, durationSec, frames };
+  }
+
+  /** Play-time at which the last non-looping snippet ends (loops count for one cycle). */
+  private timelineEnd(snippets: Array<Snippet & { curves: Record<string, SchedulerCurvePoint[]> }>) {
+    let end = 0;
+    for (const sn of snippets) {
+      const rt = this.sched.get(sn.name || '');
+      if (!rt?.enabled) continue;
+      const rate = sn.snippetPlaybackRate ?? 1;
+      const remaining = Math.max(0, this.totalDuration(sn) - (sn.loop ? 0 : rt.offset));
+      end = Math.max(end, rt.startsAt + (rate > 0 ? remaining / rate : 0));
+    }
+    return end;
+  }
+
+  // ============================================================================
+  // LAYERS
+  // ============================================================================
+
+  /** All layers, bottom-up. */
+  getLayers(): AnimationLayer[] {
+    return this.layers.list();
+  }
+
+  /** Create a layer if needed (new layers stack on top). */
+  ensureLayer(name: string, init: Partial<Omit<AnimationLayer, 'name'>> = {}): AnimationLayer {
+    return { ...this.layers.ensure(name, init) };
+  }
+
+  /**
+   * Update a layer's weight/mute/solo/blend mode/order.
+   * Runner-based playback picks the change up at its next keyframe; clip-based playback
+   * is re-weighted immediately when the host's ClipHandle supports setWeight().
+   */
+  setLayer(name: string, patch: Partial<Omit<AnimationLayer, 'name'>>): AnimationLayer {
+    const layer = this.layers.update(name, patch);
+    // Solo on one layer changes the effective weight of every other layer, so refresh all clips
+    for (const [snippetName, runner] of this.playbackRunners) {
+      if (!runner.clipHandle?.setWeight) continue;
+      const sn = this.getSnippetByName(snippetName);
+      try {
+        runner.clipHandle.setWeight(this.layers.effectiveWeight(this.layers.layerOf(sn)) * snippetWeight(sn));
+      } catch {}
+    }
+    return layer;
+  }
+
   load(snippet: Snippet) {
+    // Snippets may introduce new channels; the snippet's mixer metadata seeds the layer
+    if (snippet.mixerChannel && !this.layers.get(snippet.mixerChannel)) {
+      this.layers.ensure(snippet.mixerChannel, {
+        blendMode: snippet.mixerBlendMode === 'additive' || snippet.mixerAdditive ? 'additive' : 'replace',
+      });
+    }
+
     // AUTOMATIC CONTINUITY: Apply current values to first keyframe (time=0) before loading
     // This ensures smooth transitions when snippets take over from other snippets
     const snWithContinuity = this.applyContinuity(snippet);
@@ -1166,6 +1344,42 @@ export class AnimationScheduler {
     this.ended.add(name);
   }
 
+  /**
+   * Re-sync playback after the machine replaced a snippet's curves (retiming edits, undo/redo).
+   * A running snippet restarts with the new curves, from the beginning or - with `keepTime`
+   * (curve edits) - from its current local time; a snippet that no longer exists loses its
+   * runner and schedule entry.
+   */
+  refreshSnippet(name: string, opts: { keepTime?: boolean } = {}) {
+    this.loopLocalTimes.delete(name);
+    this.ended.delete(name);
+    const sn = this.getSnippetByName(name);
+    if (!sn) {
+      this.stopPlaybackRunner(name);
+      this.sched.delete(name);
+      return;
+    }
+    // Snippets added by an edit (concat, saved copies) wait until they are played
+    if (!this.sched.has(name)) this.ensureSched(name).enabled = (sn as any).isPlaying !== false;
+    const rt = this.ensureSched(name);
+    if (this.playing && rt.enabled && this.playbackRunners.has(name)) {
+      if (opts.keepTime) {
+        this.startPlaybackRunner(name, this.runnerLocalTime(name));
+        return;
+      }
+      rt.startsAt = this.playTimeSec;
+      rt.offset = 0;
+      this.startPlaybackRunner(name);
+    }
+  }
+
+  /** Where a running snippet is: its clip's time, or the last keyframe its runner reached */
+  private runnerLocalTime(name: string) {
+    const runner = this.playbackRunners.get(name);
+    if (runner?.clipHandle) return runner.clipHandle.getTime() + (runner.clipOffset ?? 0);
+    return (this.getSnippetByName(name) as any)?.currentTime ?? 0;
+  }
+
   /** Introspection: snapshot of current schedule with computed local times. */
   getScheduleSnapshot() {
     const snippets = this.currentSnippets();
@@ -2,8 +2,16 @@ import { createActor, type Actor } from 'xstate';
 import { Subject, Observable } from 'rxjs';
 import { filter, map, distinctUntilChanged, throttleTime, shareReplay } from 'rxjs/operators';
 import { animationMachine } from './animationMachine';
-import type { HostCaps, ScheduleOpts, NormalizedSnippet, BakedAnimationEngine } from './types';
+import type { HostCaps, ScheduleOpts, NormalizedSnippet, CurvePoint, CurvesMap, BakedAnimationEngine, AnimationLayer, LayerBlendMode, OfflineRenderOptions, RenderedTimeline } from './types';
 import { AnimationScheduler as Scheduler } from './animationScheduler';
+import {
+  reverseSnippet,
+  trimSnippet,
+  stretchSnippet,
+  concatSnippets,
+  mirrorSnippet,
+  type SnippetEditOperation,
+} from './snippetRetiming';
 import type {
   AnimationEvent,
   SnippetUIState,
@@ -15,6 +23,7 @@ import type {
   BakedAnimationStartedEvent,
   BakedAnimationStoppedEvent,
   BakedAnimationProgressEvent,
+  LayerChangedEvent,
 } from './animationEvents';
 
 /**
@@ -36,15 +45,26 @@ import type {
  * }
  * ```
  */
-export function createAnimationService(host: HostCaps) {
+export interface AnimationServiceOptions {
+  /** Owner of this animation agency; stamped on every event it emits */
+  agentId?: string;
+  /** Event emitter to publish on (defaults to a new one per agentId, else the shared emitter) */
+  events?: AnimationEventEmitter;
+}
+
+export function createAnimationService(host: HostCaps, options: AnimationServiceOptions = {}) {
+  // Per-agent services get their own event stream; the app-wide service uses the shared one
+  const events = options.events
+    ?? (options.agentId ? new AnimationEventEmitter(options.agentId) : animationEventEmitter);
+
   // Create and start the XState actor
   const actor = createActor(animationMachine).start();
 
   // Create the scheduler that drives playback
-  const scheduler = new Scheduler(actor, host);
+  const scheduler = new Scheduler(actor, host, events);
 
   // Wire up RxJS event emitter with snippet accessor
-  animationEventEmitter.setSnippetAccessor(() => {
+  events.setSnippetAccessor(() => {
     const state = actor.getSnapshot();
     return (state?.context?.animations ?? []) as NormalizedSnippet[];
   });
@@ -67,6 +87,12 @@ export function createAnimationService(host: HostCaps) {
      */
     actor: actor as Actor<typeof animationMachine>,
 
+    /** Event emitter this service publishes on (per-agent, or the shared animationEventEmitter) */
+    events,
+
+    /** Owning agent, when this is a per-agent animation agency */
+    agentId: options.agentId ?? events.agentId,
+
     // --- Core API (delegated to Scheduler) ---
     loadFromJSON(data: any) {
       return scheduler.loadFromJSON(data);
@@ -74,28 +100,28 @@ export function createAnimationService(host: HostCaps) {
 
     schedule(data: any, opts?: ScheduleOpts) {
       const name = scheduler.schedule(data, opts);
-      if (name) animationEventEmitter.emitSnippetAdded(name);
+      if (name) events.emitSnippetAdded(name);
       return name;
     },
 
     remove(name: string) {
       scheduler.remove(name);
-      animationEventEmitter.emitSnippetRemoved(name);
+      events.emitSnippetRemoved(name);
     },
 
     play() {
       scheduler.play();
-      animationEventEmitter.emitGlobalPlaybackChanged('playing');
+      events.emitGlobalPlaybackChanged('playing');
     },
 
     pause() {
       scheduler.pause();
-      animationEventEmitter.emitGlobalPlaybackChanged('paused');
+      events.emitGlobalPlaybackChanged('paused');
     },
 
     stop() {
       scheduler.stop();
-      animationEventEmitter.emitGlobalPlaybackChanged('stopped');
+      events.emitGlobalPlaybackChanged('stopped');
     },
 
     enable(name: string, on = true) {
@@ -106,6 +132,34 @@ export function createAnimationService(host: HostCaps) {
       return scheduler.seek(name, offsetSec);
     },
 
+    /**
+     * Render the current schedule offline at a fixed frame rate (virtual time, no timers).
+     * Runs on a private copy of the schedule and layers with a silent host, so the engine,
+     * play-time and snippet times are left alone and the service may keep playing.
+     */
+    renderTimeline(opts: OfflineRenderOptions): RenderedTimeline {
+      const offline = new Scheduler(createActor(animationMachine).start(), {
+        applyAU: () => {},
+        setMorph: () => {},
+        setViseme: () => {},
+      });
+      try {
+        // Layers first, so mute/solo/weight/blend mode apply and snippets don't re-seed them
+        for (const { name, ...layer } of scheduler.getLayers()) {
+          offline.setLayer(name, layer);
+        }
+        const runtime = new Map(scheduler.getScheduleSnapshot().map(rt => [rt.name, rt]));
+        for (const sn of actor.getSnapshot().context.animations as any[]) {
+          const rt = runtime.get(sn.name);
+          offline.schedule(sn, { startAtSec: rt?.startsAt ?? 0, offsetSec: rt?.offset ?? 0 });
+          if (rt && !rt.enabled) offline.enable(sn.name, false);
+        }
+        return offline.renderTimeline(opts);
+      } finally {
+        offline.dispose();
+      }
+    },
+
     // --- State access ---
     getState() {
       return actor.getSnapshot();
@@ -158,7 +212,7 @@ export function createAnimationService(host: HostCaps) {
         sn.startWallTime = now - (currentLocal / newRate) * 1000;
       }
       sn.snippetPlaybackRate = newRate;
-      animationEventEmitter.emitParamsChanged(name, { playbackRate: newRate });
+      events.emitParamsChanged(name, { playbackRate: newRate });
     },
 
     setSnippetIntensityScale(name: string, scale: number) {
@@ -166,7 +220,7 @@ export function createAnimationService(host: HostCaps) {
       if (sn) {
         const newScale = Math.max(0, Number.isFinite(scale) ? scale : 1);
         sn.snippetIntensityScale = newScale;
-        animationEventEmitter.emitParamsChanged(name, { intensityScale: newScale });
+        events.emitParamsChanged(name, { intensityScale: newScale });
       }
     },
 
@@ -181,7 +235,7 @@ export function createAnimationService(host: HostCaps) {
       const sn = getSnippet(name);
       if (sn) {
         sn.loop = !!loop;
-        animationEventEmitter.emitParamsChanged(name, { loop: !!loop });
+        events.emitParamsChanged(name, { loop: !!loop });
       }
     },
 
@@ -199,19 +253,106 @@ export function createAnimationService(host: HostCaps) {
       } else {
         scheduler.pauseSnippet(name);
       }
-      animationEventEmitter.emitPlayStateChanged(name, !!playing);
+      events.emitPlayStateChanged(name, !!playing);
     },
 
     setSnippetTime(name: string, tSec: number) {
       const time = Math.max(0, tSec || 0);
       scheduler.seek(name, time);
-      animationEventEmitter.emitSnippetSeeked(name, time);
+      events.emitSnippetSeeked(name, time);
+    },
+
+    /**
+     * Replace one curve of a loaded snippet (CURVE_CHANGED). A playing snippet continues
+     * from its current time with the new keys.
+     */
+    setSnippetCurve(name: string, curveId: string | number, curve: CurvePoint[]) {
+      api.setSnippetCurves(name, { [curveId]: curve });
+    },
+
+    /**
+     * Replace several curves of a loaded snippet at once; playback picks them up with a
+     * single refresh. Used by the curve editor session.
+     */
+    setSnippetCurves(name: string, curves: CurvesMap) {
+      if (!getSnippet(name)) return;
+      for (const [curveId, curve] of Object.entries(curves)) {
+        actor.send({ type: 'CURVE_CHANGED', nameOrId: name, auId: curveId, curve });
+      }
+      scheduler.refreshSnippet(name, { keepTime: true });
+      events.emitSnippetEdited(name, 'curve');
     },
 
     setSnippetLoopState(name: string, iteration: number, localTime?: number) {
       actor.send({ type: 'SET_LOOP_STATE', name, iteration, localTime });
     },
 
+    // --- Retiming edits (undoable) ---
+    // Each edit replaces the snippet in place; pass `asName` to keep the original and add
+    // the edited copy instead. Edits return the resulting snippet name (null if not found).
+
+    /** Play a snippet backwards */
+    reverseSnippet(name: string, opts: { asName?: string } = {}) {
+      return applyEdit('reverse', name, reverseSnippet, opts.asName);
+    },
+
+    /** Keep only [startSec, endSec] of a snippet, shifted to start at 0 */
+    trimSnippet(name: string, startSec: number, endSec?: number, opts: { asName?: string } = {}) {
+      return applyEdit('trim', name, (sn) => trimSnippet(sn, startSec, endSec), opts.asName);
+    },
+
+    /** Time-stretch a snippet to last targetDurationSec */
+    stretchSnippet(name: string, targetDurationSec: number, opts: { asName?: string } = {}) {
+      return applyEdit('stretch', name, (sn) => stretchSnippet(sn, targetDurationSec), opts.asName);
+    },
+
+    /** Swap left/right AUs and morphs and negate the snippet's balance */
+    mirrorSnippet(name: string, opts: { asName?: string } = {}) {
+      return applyEdit('mirror', name, mirrorSnippet, opts.asName);
+    },
+
+    /**
+     * Add a new snippet that plays `first` then `second`, blended over crossfadeSec.
+     * Defaults to the name "first+second".
+     */
+    concatSnippets(first: string, second: string, crossfadeSec = 0, asName?: string) {
+      const a = getSnippet(first) as NormalizedSnippet | undefined;
+      const b = getSnippet(second) as NormalizedSnippet | undefined;
+      if (!a || !b) return null;
+      return commitEdit('concat', concatSnippets(a, b, crossfadeSec, asName));
+    },
+
+    canUndoEdit() {
+      return actor.getSnapshot().context.editHistory.past.length > 0;
+    },
+
+    canRedoEdit() {
+      return actor.getSnapshot().context.editHistory.future.length > 0;
+    },
+
+    /** Revert the most recent retiming edit. Returns false when there is nothing to undo. */
+    undoEdit() {
+      const { past } = actor.getSnapshot().context.editHistory;
+      const edit = past[past.length - 1];
+      if (!edit) return false;
+      actor.send({ type: 'UNDO_SNIPPET_EDIT' });
+      scheduler.refreshSnippet(edit.after.name);
+      if (edit.before) events.emitSnippetEdited(edit.after.name, edit.operation, true);
+      else events.emitSnippetRemoved(edit.after.name);
+      return true;
+    },
+
+    /** Re-apply the most recently undone retiming edit. Returns false when there is nothing to redo. */
+    redoEdit() {
+      const edit = actor.getSnapshot().context.editHistory.future[0];
+      if (!edit) return false;
+      actor.send({ type: 'REDO_SNIPPET_EDIT' });
+      scheduler.refreshSnippet(edit.after.name);
+      if (edit.before) events.emitSnippetEdited(edit.after.name, edit.operation);
+      else events.emitSnippetAdded(edit.after.name);
+      return true;
+    },
+
     // --- Playback runner controls ---
     pauseSnippet(name: string) {
       return scheduler.pauseSnippet(name);
@@ -225,6 +366,60 @@ export function createAnimationService(host: HostCaps) {
       return scheduler.stopSnippet(name);
     },
 
+    // --- Layers (named channels) ---
+    /** All layers bottom-up: face, eyes, head, mouth plus any created by snippets/agencies */
+    getLayers(): AnimationLayer[] {
+      return scheduler.getLayers();
+    },
+
+    /** Create a layer if it does not exist yet (new layers stack on top) */
+    ensureLayer(name: string, init?: Partial<Omit<AnimationLayer, 'name'>>) {
+      const existed = scheduler.getLayers().some(l => l.name === name);
+      const layer = scheduler.ensureLayer(name, init);
+      if (!existed) events.emitLayerChanged(layer);
+      return layer;
+    },
+
+    setLayerWeight(name: string, weight: number) {
+      events.emitLayerChanged(scheduler.setLayer(name, { weight }));
+    },
+
+    setLayerMuted(name: string, muted: boolean) {
+      events.emitLayerChanged(scheduler.setLayer(name, { muted }));
+    },
+
+    setLayerSolo(name: string, solo: boolean) {
+      events.emitLayerChanged(scheduler.setLayer(name, { solo }));
+    },
+
+    setLayerBlendMode(name: string, blendMode: LayerBlendMode) {
+      events.emitLayerChanged(scheduler.setLayer(name, { blendMode }));
+    },
+
+    /**
+     * Handle for an agency that owns a layer. Snippets scheduled through it are stamped with
+     * the layer's channel, so e.g. lipsync (mouth) and gaze (eyes/head) never overwrite each other.
+     *
+     * ```ts
+     * const mouth = anim.layer('mouth');
+     * mouth.schedule(visemeSnippet);
+     * mouth.setWeight(0.5);
+     * ```
+     */
+    layer(name: string, init?: Partial<Omit<AnimationLayer, 'name'>>) {
+      api.ensureLayer(name, init);
+      return {
+        name,
+        schedule: (data: any, opts?: ScheduleOpts) => api.schedule({ ...data, mixerChannel: name }, opts),
+        remove: (snippetName: string) => api.remove(snippetName),
+        get: () => scheduler.getLayers().find(l => l.name === name) ?? null,
+        setWeight: (weight: number) => api.setLayerWeight(name, weight),
+        setMuted: (muted: boolean) => api.setLayerMuted(name, muted),
+        setSolo: (solo: boolean) => api.setLayerSolo(name, solo),
+        setBlendMode: (blendMode: LayerBlendMode) => api.setLayerBlendMode(name, blendMode),
+      };
+    },
+
     // --- Legacy subscription (for backwards compatibility) ---
     onTransition(cb: (snapshot: any) => void) {
       const sub = actor.subscribe((snapshot) => {
@@ -266,7 +461,7 @@ export function createAnimationService(host: HostCaps) {
       // Load clips and emit event
       const clips = engine.getAnimationClips?.() || [];
       console.log(`[AnimService:Baked] Found ${clips.length} clips:`, clips.map(c => c.name));
-      animationEventEmitter.emitBakedClipsLoaded(clips.map(c => ({ name: c.name, duration: c.duration })));
+      events.emitBakedClipsLoaded(clips.map(c => ({ name: c.name, duration: c.duration })));
 
       // Start progress polling for baked animations (every 100ms when playing)
       if (bakedProgressInterval) {
@@ -277,7 +472,7 @@ export function createAnimationService(host: HostCaps) {
         const playing = bakedEngine.getPlayingAnimations?.() || [];
         for (const anim of playing) {
           // Update internal state and emit progress
-          animationEventEmitter.updateBakedAnimationState(anim.name, {
+          events.updateBakedAnimationState(anim.name, {
             name: anim.name,
             time: anim.time,
             duration: anim.duration,
@@ -287,7 +482,7 @@ export function createAnimationService(host: HostCaps) {
             isPaused: anim.isPaused,
             loop: anim.loop,
           });
-          animationEventEmitter.emitBakedAnimationProgress(anim.name, anim.time, anim.duration);
+          events.emitBakedAnimationProgress(anim.name, anim.time, anim.duration);
         }
       }, 100);
     },
@@ -302,7 +497,7 @@ export function createAnimationService(host: HostCaps) {
       if (handle) {
         const state = handle.getState();
         console.log(`[AnimService:Baked] Animation started - mixer will handle playback`);
-        animationEventEmitter.emitBakedAnimationStarted(clipName, {
+        events.emitBakedAnimationStarted(clipName, {
           name: state.name,
           time: state.time,
           duration: state.duration,
@@ -315,7 +510,7 @@ export function createAnimationService(host: HostCaps) {
         // Track completion
         handle.finished.then(() => {
           console.log(`[AnimService:Baked] Animation "${clipName}" completed`);
-          animationEventEmitter.emitBakedAnimationCompleted(clipName);
+          events.emitBakedAnimationCompleted(clipName);
         }).catch(() => {
           // Animation might be stopped before completion
         });
@@ -326,45 +521,45 @@ export function createAnimationService(host: HostCaps) {
     stopBakedAnimation(clipName: string) {
       console.log(`[AnimService:Baked] stopBakedAnimation("${clipName}")`);
       bakedEngine?.stopAnimation?.(clipName);
-      animationEventEmitter.emitBakedAnimationStopped(clipName);
+      events.emitBakedAnimationStopped(clipName);
     },
 
     pauseBakedAnimation(clipName: string) {
       bakedEngine?.pauseAnimation?.(clipName);
-      animationEventEmitter.emitBakedAnimationPaused(clipName);
+      events.emitBakedAnimationPaused(clipName);
     },
 
     resumeBakedAnimation(clipName: string) {
       bakedEngine?.resumeAnimation?.(clipName);
-      animationEventEmitter.emitBakedAnimationResumed(clipName);
+      events.emitBakedAnimationResumed(clipName);
     },
 
     setBakedAnimationSpeed(clipName: string, speed: number) {
       bakedEngine?.setAnimationSpeed?.(clipName, speed);
-      animationEventEmitter.emitBakedAnimationParamsChanged(clipName, { speed });
+      events.emitBakedAnimationParamsChanged(clipName, { speed });
     },
 
     setBakedAnimationWeight(clipName: string, weight: number) {
       bakedEngine?.setAnimationIntensity?.(clipName, weight);
-      animationEventEmitter.emitBakedAnimationParamsChanged(clipName, { weight });
+      events.emitBakedAnimationParamsChanged(clipName, { weight });
     },
 
     stopAllBakedAnimations() {
       if (!bakedEngine) return;
-      const playing = animationEventEmitter.getPlayingBakedAnimations();
+      const playing = events.getPlayingBakedAnimations();
       bakedEngine.stopAllAnimations?.();
       // Emit stopped for each
       for (const anim of playing) {
-        animationEventEmitter.emitBakedAnimationStopped(anim.name);
+        events.emitBakedAnimationStopped(anim.name);
       }
     },
 
     getBakedClips() {
-      return animationEventEmitter.getBakedClips();
+      return events.getBakedClips();
     },
 
     getPlayingBakedAnimations() {
-      return animationEventEmitter.getPlayingBakedAnimations();
+      return events.getPlayingBakedAnimations();
     },
   } as const;
 
@@ -374,14 +569,41 @@ export function createAnimationService(host: HostCaps) {
     return list.find(s => s?.name === name);
   }
 
-  // Expose on window for debugging
-  (window as any).anim = api;
+  // Run a retiming operation on a loaded snippet and record it for undo
+  function applyEdit(
+    operation: SnippetEditOperation,
+    name: string,
+    edit: (sn: NormalizedSnippet) => NormalizedSnippet,
+    asName?: string
+  ) {
+    const sn = getSnippet(name) as NormalizedSnippet | undefined;
+    if (!sn) return null;
+    const result = edit(sn);
+    return commitEdit(operation, asName ? { ...result, name: asName } : result);
+  }
+
+  function commitEdit(operation: SnippetEditOperation, snippet: NormalizedSnippet) {
+    const replaces = !!getSnippet(snippet.name);
+    // New snippets (concat, saved copies) are added stopped
+    const next = replaces ? snippet : { ...snippet, isPlaying: false };
+    actor.send({ type: 'APPLY_SNIPPET_EDIT', operation, snippet: next });
+    scheduler.refreshSnippet(snippet.name);
+    if (replaces) events.emitSnippetEdited(snippet.name, operation);
+    else events.emitSnippetAdded(snippet.name);
+    return snippet.name;
+  }
+
+  // Expose on window for debugging (per-agent services stay private so they can't replace it)
+  if (!api.agentId) {
+    (window as any).anim = api;
+  }
 
   return api;
 }
 
 // Export the type for the animation service
 export type AnimationService = ReturnType<typeof createAnimationService>;
+export type AnimationLayerHandle = ReturnType<AnimationService['layer']>;
 
 // ============================================================================
 // RxJS Event Emitter - Singleton for Animation Events
@@ -416,8 +638,9 @@ function toUIState(sn: NormalizedSnippet): SnippetUIState {
  * React hooks subscribe to events and read state from XState actor on demand.
  * No intermediate state copying - events are just notifications.
  */
-class AnimationEventEmitter {
+export class AnimationEventEmitter {
   private event$ = new Subject<AnimationEvent>();
+  readonly agentId?: string;
   private _getSnippets: (() => NormalizedSnippet[]) | null = null;
   private _globalState: 'playing' | 'paused' | 'stopped' = 'stopped';
 
@@ -425,6 +648,10 @@ class AnimationEventEmitter {
   private _bakedClips: BakedClipInfo[] = [];
   private _playingBakedAnimations = new Map<string, BakedAnimationUIState>();
 
+  constructor(agentId?: string) {
+    this.agentId = agentId;
+  }
+
   /** Observable stream of discrete animation events */
   get events(): Observable<AnimationEvent> {
     return this.event$.asObservable();
@@ -460,10 +687,14 @@ class AnimationEventEmitter {
     return typeof performance !== 'undefined' ? performance.now() : Date.now();
   }
 
+  private emit(event: AnimationEvent) {
+    this.event$.next(this.agentId ? { ...event, agentId: this.agentId } : event);
+  }
+
   // ============ Event Emitters (just emit, no state copying) ============
 
   emitSnippetAdded(snippetName: string) {
-    this.event$.next({
+    this.emit({
       type: 'SNIPPET_ADDED',
       snippetName,
       timestamp: this.now(),
@@ -471,7 +702,7 @@ class AnimationEventEmitter {
   }
 
   emitSnippetRemoved(snippetName: string) {
-    this.event$.next({
+    this.emit({
       type: 'SNIPPET_REMOVED',
       snippetName,
       timestamp: this.now(),
@@ -479,7 +710,7 @@ class AnimationEventEmitter {
   }
 
   emitPlayStateChanged(snippetName: string, isPlaying: boolean) {
-    this.event$.next({
+    this.emit({
       type: 'SNIPPET_PLAY_STATE_CHANGED',
       snippetName,
       isPlaying,
@@ -488,7 +719,7 @@ class AnimationEventEmitter {
   }
 
   emitSnippetLooped(data: { snippetName: string; iteration: number; localTime: number }) {
-    this.event$.next({
+    this.emit({
       type: 'SNIPPET_LOOPED',
       ...data,
       timestamp: this.now(),
@@ -496,7 +727,7 @@ class AnimationEventEmitter {
   }
 
   emitSnippetCompleted(snippetName: string) {
-    this.event$.next({
+    this.emit({
       type: 'SNIPPET_COMPLETED',
       snippetName,
       timestamp: this.now(),
@@ -510,7 +741,7 @@ class AnimationEventEmitter {
     currentTime: number;
     duration: number;
   }) {
-    this.event$.next({
+    this.emit({
       type: 'KEYFRAME_COMPLETED',
       ...data,
       timestamp: this.now(),
@@ -519,7 +750,7 @@ class AnimationEventEmitter {
 
   emitGlobalPlaybackChanged(state: 'playing' | 'paused' | 'stopped') {
     this._globalState = state;
-    this.event$.next({
+    this.emit({
       type: 'GLOBAL_PLAYBACK_CHANGED',
       state,
       timestamp: this.now(),
@@ -527,7 +758,7 @@ class AnimationEventEmitter {
   }
 
   emitSnippetSeeked(snippetName: string, time: number) {
-    this.event$.next({
+    this.emit({
       type: 'SNIPPET_SEEKED',
       snippetName,
       time,
@@ -540,7 +771,7 @@ class AnimationEventEmitter {
     intensityScale?: number;
     loop?: boolean;
   }) {
-    this.event$.next({
+    this.emit({
       type: 'SNIPPET_PARAMS_CHANGED',
       snippetName,
       params,
@@ -548,11 +779,29 @@ class AnimationEventEmitter {
     });
   }
 
+  emitSnippetEdited(snippetName: string, operation: string, undo = false) {
+    this.emit({
+      type: 'SNIPPET_EDITED',
+      snippetName,
+      operation,
+      undo,
+      timestamp: this.now(),
+    });
+  }
+
+  emitLayerChanged(layer: AnimationLayer) {
+    this.emit({
+      type: 'LAYER_CHANGED',
+      layer,
+      timestamp: this.now(),
+    });
+  }
+
   // ============ Baked Animation Event Emitters ============
 
   emitBakedClipsLoaded(clips: BakedClipInfo[]) {
     this._bakedClips = clips;
-    this.event$.next({
+    this.emit({
       type: 'BAKED_CLIPS_LOADED',
       clips,
       timestamp: this.now(),
@@ -561,7 +810,7 @@ class AnimationEventEmitter {
 
   emitBakedAnimationStarted(clipName: string, state: BakedAnimationUIState) {
     this._playingBakedAnimations.set(clipName, state);
-    this.event$.next({
+    this.emit({
       type: 'BAKED_ANIMATION_STARTED',
       clipName,
       state,
@@ -571,7 +820,7 @@ class AnimationEventEmitter {
 
   emitBakedAnimationStopped(clipName: string) {
     this._playingBakedAnimations.delete(clipName);
-    this.event$.next({
+    this.emit({
       type: 'BAKED_ANIMATION_STOPPED',
       clipName,
       timestamp: this.now(),
@@ -584,7 +833,7 @@ class AnimationEventEmitter {
       state.isPaused = true;
       state.isPlaying = false;
     }
-    this.event$.next({
+    this.emit({
       type: 'BAKED_ANIMATION_PAUSED',
       clipName,
       timestamp: this.now(),
@@ -597,7 +846,7 @@ class AnimationEventEmitter {
       state.isPaused = false;
       state.isPlaying = true;
     }
-    this.event$.next({
+    this.emit({
       type: 'BAKED_ANIMATION_RESUMED',
       clipName,
       timestamp: this.now(),
@@ -606,7 +855,7 @@ class AnimationEventEmitter {
 
   emitBakedAnimationCompleted(clipName: string) {
     this._playingBakedAnimations.delete(clipName);
-    this.event$.next({
+    this.emit({
       type: 'BAKED_ANIMATION_COMPLETED',
       clipName,
       timestamp: this.now(),
@@ -619,7 +868,7 @@ class AnimationEventEmitter {
       state.time = time;
       state.duration = duration;
     }
-    this.event$.next({
+    this.emit({
       type: 'BAKED_ANIMATION_PROGRESS',
       clipName,
       time,
@@ -639,7 +888,7 @@ class AnimationEventEmitter {
       if (params.weight !== undefined) state.weight = params.weight;
       if (params.loop !== undefined) state.loop = params.loop;
     }
-    this.event$.next({
+    this.emit({
       type: 'BAKED_ANIMATION_PARAMS_CHANGED',
       clipName,
       params,
@@ -666,7 +915,7 @@ class AnimationEventEmitter {
   }
 }
 
-// Singleton instance - shared by scheduler and service
+// Singleton instance - shared by the app-wide scheduler and service
 export const animationEventEmitter = new AnimationEventEmitter();
 
 // ============================================================================
@@ -674,22 +923,30 @@ export const animationEventEmitter = new AnimationEventEmitter();
 // ============================================================================
 
 /**
- * Observable of snippet list changes (add/remove only).
+ * Snippet list changes (add/remove only) on a given emitter.
  * Reads from XState actor on each event - no intermediate state copying.
  */
-export const snippetList$: Observable<string[]> = animationEventEmitter.events.pipe(
-  filter(e => e.type === 'SNIPPET_ADDED' || e.type === 'SNIPPET_REMOVED'),
-  map(() => animationEventEmitter.getSnippets().map((s: SnippetUIState) => s.name)),
-  distinctUntilChanged((a, b) => a.length === b.length && a.every((v: string, i: number) => v === b[i])),
-  shareReplay(1)
-);
+export function snippetListFrom(events: AnimationEventEmitter): Observable<string[]> {
+  return events.events.pipe(
+    filter(e => e.type === 'SNIPPET_ADDED' || e.type === 'SNIPPET_REMOVED'),
+    map(() => events.getSnippets().map((s: SnippetUIState) => s.name)),
+    distinctUntilChanged((a, b) => a.length === b.length && a.every((v: string, i: number) => v === b[i])),
+    shareReplay(1)
+  );
+}
+
+/** Snippet list changes on the shared emitter */
+export const snippetList$: Observable<string[]> = snippetListFrom(animationEventEmitter);
 
 /**
  * Factory for per-snippet state observables.
  * Listens to events that affect a specific snippet and reads current state on demand.
  */
-export function snippetState$(snippetName: string): Observable<SnippetUIState | null> {
-  return animationEventEmitter.events.pipe(
+export function snippetState$(
+  snippetName: string,
+  events: AnimationEventEmitter = animationEventEmitter
+): Observable<SnippetUIState | null> {
+  return events.events.pipe(
     // Only react to events for this snippet (or structural events)
     filter(e => {
       if (e.type === 'SNIPPET_ADDED' || e.type === 'SNIPPET_REMOVED') return true;
@@ -697,7 +954,7 @@ export function snippetState$(snippetName: string): Observable<SnippetUIState |
       return false;
     }),
     // Read current state from XState actor
-    map(() => animationEventEmitter.getSnippet(snippetName)),
+    map(() => events.getSnippet(snippetName)),
     distinctUntilChanged((a, b) => {
       if (!a || !b) return a === b;
       return (
@@ -705,7 +962,8 @@ export function snippetState$(snippetName: string): Observable<SnippetUIState |
         a.loop === b.loop &&
         Math.abs(a.currentTime - b.currentTime) < 0.05 &&
         a.playbackRate === b.playbackRate &&
-        a.intensityScale === b.intensityScale
+        a.intensityScale === b.intensityScale &&
+        a.duration === b.duration
       );
     }),
     shareReplay(1)
@@ -716,8 +974,12 @@ export function snippetState$(snippetName: string): Observable<SnippetUIState |
  * Throttled currentTime updates for a specific snippet.
  * Uses event data directly - no state reading needed.
  */
-export function snippetTime$(snippetName: string, throttleMs = 100): Observable<number> {
-  return animationEventEmitter.events.pipe(
+export function snippetTime$(
+  snippetName: string,
+  throttleMs = 100,
+  events: AnimationEventEmitter = animationEventEmitter
+): Observable<number> {
+  return events.events.pipe(
     filter((e): e is KeyframeCompletedEvent =>
       e.type === 'KEYFRAME_COMPLETED' && e.snippetName === snippetName
     ),
@@ -729,37 +991,59 @@ export function snippetTime$(snippetName: string, throttleMs = 100): Observable<
 }
 
 /**
- * Global playback state observable.
+ * Global playback state on a given emitter.
  * Uses event data directly.
  */
-export const globalPlaybackState$: Observable<'playing' | 'paused' | 'stopped'> =
-  animationEventEmitter.events.pipe(
+export function globalPlaybackStateFrom(
+  events: AnimationEventEmitter
+): Observable<'playing' | 'paused' | 'stopped'> {
+  return events.events.pipe(
     filter((e): e is GlobalPlaybackChangedEvent => e.type === 'GLOBAL_PLAYBACK_CHANGED'),
     map(e => e.state),
     distinctUntilChanged(),
     shareReplay(1)
   );
+}
+
+/** Global playback state on the shared emitter */
+export const globalPlaybackState$: Observable<'playing' | 'paused' | 'stopped'> =
+  globalPlaybackStateFrom(animationEventEmitter);
+
+/**
+ * Observable of layer changes (creation, weight, mute, solo, blend mode).
+ */
+export const layerChanged$: Observable<AnimationLayer> = animationEventEmitter.events.pipe(
+  filter((e): e is LayerChangedEvent => e.type === 'LAYER_CHANGED'),
+  map(e => e.layer)
+);
 
 // ============================================================================
 // Baked Animation Observables
 // ============================================================================
 
 /**
- * Observable of baked clip list changes.
+ * Baked clip list changes on a given emitter.
  * Emits when clips are loaded from a model.
  */
-export const bakedClipList$: Observable<BakedClipInfo[]> = animationEventEmitter.events.pipe(
-  filter((e): e is BakedClipsLoadedEvent => e.type === 'BAKED_CLIPS_LOADED'),
-  map(e => e.clips),
-  shareReplay(1)
-);
+export function bakedClipListFrom(events: AnimationEventEmitter): Observable<BakedClipInfo[]> {
+  return events.events.pipe(
+    filter((e): e is BakedClipsLoadedEvent => e.type === 'BAKED_CLIPS_LOADED'),
+    map(e => e.clips),
+    shareReplay(1)
+  );
+}
+
+/** Baked clip list changes on the shared emitter */
+export const bakedClipList$: Observable<BakedClipInfo[]> = bakedClipListFrom(animationEventEmitter);
 
 /**
- * Observable of playing baked animations list.
+ * Playing baked animations list on a given emitter.
  * Updates on start/stop/pause/resume/complete events.
  */
-export const playingBakedAnimations$: Observable<BakedAnimationUIState[]> =
-  animationEventEmitter.events.pipe(
+export function playingBakedAnimationsFrom(
+  events: AnimationEventEmitter
+): Observable<BakedAnimationUIState[]> {
+  return events.events.pipe(
     filter(e =>
       e.type === 'BAKED_ANIMATION_STARTED' ||
       e.type === 'BAKED_ANIMATION_STOPPED' ||
@@ -769,7 +1053,7 @@ export const playingBakedAnimations$: Observable<BakedAnimationUIState[]> =
       e.type === 'BAKED_ANIMATION_PROGRESS' ||
       e.type === 'BAKED_ANIMATION_PARAMS_CHANGED'
     ),
-    map(() => animationEventEmitter.getPlayingBakedAnimations()),
+    map(() => events.getPlayingBakedAnimations()),
     distinctUntilChanged((a, b) => {
       if (a.length !== b.length) return false;
       // Shallow comparison of animation states
@@ -783,13 +1067,21 @@ export const playingBakedAnimations$: Observable<BakedAnimationUIState[]> =
     }),
     shareReplay(1)
   );
+}
+
+/** Playing baked animations list on the shared emitter */
+export const playingBakedAnimations$: Observable<BakedAnimationUIState[]> =
+  playingBakedAnimationsFrom(animationEventEmitter);
 
 /**
  * Factory for per-baked-animation state observables.
  * Listens to events that affect a specific baked animation.
  */
-export function bakedAnimationState$(clipName: string): Observable<BakedAnimationUIState | null> {
-  return animationEventEmitter.events.pipe(
+export function bakedAnimationState$(
+  clipName: string,
+  events: AnimationEventEmitter = animationEventEmitter
+): Observable<BakedAnimationUIState | null> {
+  return events.events.pipe(
     filter(e => {
       if (e.type === 'BAKED_ANIMATION_STARTED' && e.clipName === clipName) return true;
       if (e.type === 'BAKED_ANIMATION_STOPPED' && e.clipName === clipName) return true;
@@ -800,7 +1092,7 @@ export function bakedAnimationState$(clipName: string): Observable<BakedAnimatio
       if (e.type === 'BAKED_ANIMATION_PARAMS_CHANGED' && e.clipName === clipName) return true;
       return false;
     }),
-    map(() => animationEventEmitter.getBakedAnimationState(clipName)),
+    map(() => events.getBakedAnimationState(clipName)),
     distinctUntilChanged((a, b) => {
       if (!a || !b) return a === b;
       return (
@@ -818,8 +1110,12 @@ export function bakedAnimationState$(clipName: string): Observable<BakedAnimatio
 /**
  * Throttled progress updates for a specific baked animation.
  */
-export function bakedAnimationProgress$(clipName: string, throttleMs = 100): Observable<{ time: number; duration: number }> {
-  return animationEventEmitter.events.pipe(
+export function bakedAnimationProgress$(
+  clipName: string,
+  throttleMs = 100,
+  events: AnimationEventEmitter = animationEventEmitter
+): Observable<{ time: number; duration: number }> {
+  return events.events.pipe(
     filter((e): e is BakedAnimationProgressEvent =>
       e.type === 'BAKED_ANIMATION_PROGRESS' && e.clipName === clipName
     ),
@@ -0,0 +1,430 @@
+/**
+ * Curve Edit Session
+ *
+ * Editing model for all curves of one snippet at once, independent of any UI:
+ * selection (click, box-select across curves), copy/paste, snapping to a frame grid,
+ * time/value nudging, interpolation changes and undo/redo.
+ *
+ * Every committed edit reports the curves it touched through `onCurveChanged` as
+ * CURVE_CHANGED events (or all at once through `onCurvesChanged`), so the animation
+ * machine (and playback) follow live.
+ * Pointer drags are wrapped in beginGesture()/endGesture() and become a single undo step.
+ */
+
+import type { CurveChangedEvent, CurveInterpolation, CurvePoint, CurvesMap } from './types';
+
+/** A keyframe addressed by curve id and index in the (time-sorted) curve */
+export type KeyRef = { curveId: string; index: number };
+
+/** Time/value rectangle used for box selection */
+export type SelectionBox = { t0: number; t1: number; v0: number; v1: number };
+
+export type CurveSnapSettings = {
+  enabled: boolean;
+  /** Grid resolution in frames per second */
+  fps: number;
+};
+
+export type CurveEditSessionOptions = {
+  snippetName: string;
+  curves: CurvesMap;
+  /** Receives one CURVE_CHANGED event per curve an edit touched */
+  onCurveChanged?: (event: CurveChangedEvent) => void;
+  /** Receives the CURVE_CHANGED events of one edit together, so playback refreshes once */
+  onCurvesChanged?: (events: CurveChangedEvent[]) => void;
+  snap?: Partial<CurveSnapSettings>;
+  /** Keyframe values are clamped to this range (default [0, 1]) */
+  valueRange?: [number, number];
+  /** Maximum undo steps (default 100) */
+  maxHistory?: number;
+};
+
+type ClipboardKey = { curveId: string; offset: number; key: CurvePoint };
+
+const DEFAULT_SNAP: CurveSnapSettings = { enabled: false, fps: 30 };
+const DEFAULT_MAX_HISTORY = 100;
+
+/** Keys closer than this (seconds) are treated as the same time when pasting */
+const TIME_EPSILON = 1e-4;
+
+/** Only the fields that affect playback; used to spot external changes */
+const curveSignature = (curves: CurvesMap) =>
+  JSON.stringify(
+    Object.keys(curves).sort().map((id) => [
+      id,
+      curves[id].map((k) => [k.time, k.intensity, k.interpolation ?? 'linear', k.inTangent ?? null, k.outTangent ?? null]),
+    ])
+  );
+
+export class CurveEditSession {
+  readonly snippetName: string;
+
+  private curves: CurvesMap;
+  private selection: KeyRef[] = [];
+  private clipboard: ClipboardKey[] = [];
+  private past: CurvesMap[] = [];
+  private future: CurvesMap[] = [];
+  private snap: CurveSnapSettings;
+  private readonly valueRange: [number, number];
+  private readonly maxHistory: number;
+  private readonly onCurveChanged?: (event: CurveChangedEvent) => void;
+  private readonly onCurvesChanged?: (events: CurveChangedEvent[]) => void;
+
+  /** Curves and selection when the current pointer gesture started */
+  private gesture: { curves: CurvesMap; selection: KeyRef[] } | null = null;
+
+  private listeners = new Set<() => void>();
+  private version = 0;
+
+  constructor(opts: CurveEditSessionOptions) {
+    this.snippetName = opts.snippetName;
+    this.curves = opts.curves;
+    this.onCurveChanged = opts.onCurveChanged;
+    this.onCurvesChanged = opts.onCurvesChanged;
+    this.snap = { ...DEFAULT_SNAP, ...opts.snap };
+    this.valueRange = opts.valueRange ?? [0, 1];
+    this.maxHistory = opts.maxHistory ?? DEFAULT_MAX_HISTORY;
+  }
+
+  // ---------- state access ----------
+
+  getCurves(): CurvesMap {
+    return this.curves;
+  }
+
+  getSelection(): KeyRef[] {
+    return this.selection;
+  }
+
+  isSelected(curveId: string, index: number) {
+    return this.selection.some((r) => r.curveId === curveId && r.index === index);
+  }
+
+  getSnap(): CurveSnapSettings {
+    return this.snap;
+  }
+
+  canUndo() {
+    return this.past.length > 0;
+  }
+
+  canRedo() {
+    return this.future.length > 0;
+  }
+
+  hasClipboard() {
+    return this.clipboard.length > 0;
+  }
+
+  /** Increments on every change; for useSyncExternalStore */
+  getVersion() {
+    return this.version;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // ---------- external sync ----------
+
+  /**
+   * Adopt curves that changed outside the session (retiming edits, reloads).
+   * Curves equal to the session's own are ignored, so echoes of our CURVE_CHANGED events
+   * don't reset anything. A real external change clears selection and history.
+   */
+  sync(curves: CurvesMap) {
+    if (this.gesture) return;
+    if (curveSignature(curves) === curveSignature(this.curves)) return;
+    this.curves = curves;
+    this.selection = [];
+    this.past = [];
+    this.future = [];
+    this.notify();
+  }
+
+  // ---------- snapping ----------
+
+  setSnap(patch: Partial<CurveSnapSettings>) {
+    const fps = patch.fps !== undefined && Number.isFinite(patch.fps) && patch.fps > 0 ? patch.fps : this.snap.fps;
+    this.snap = { enabled: patch.enabled ?? this.snap.enabled, fps };
+    this.notify();
+  }
+
+  /** Round a time to the frame grid when snapping is on */
+  snapTime(time: number) {
+    if (!this.snap.enabled) return time;
+    return Math.round(time * this.snap.fps) / this.snap.fps;
+  }
+
+  /** Snap the selected keys to the frame grid (one undo step) */
+  snapSelection() {
+    const fps = this.snap.fps;
+    this.transformSelection((k) => ({ ...k, time: Math.round(k.time * fps) / fps }));
+  }
+
+  // ---------- selection ----------
+
+  select(refs: KeyRef[], additive = false) {
+    const next = additive ? [...this.selection] : [];
+    for (const ref of refs) {
+      if (!this.curves[ref.curveId]?.[ref.index]) continue;
+      if (!next.some((r) => r.curveId === ref.curveId && r.index === ref.index)) next.push(ref);
+    }
+    this.selection = next;
+    this.notify();
+  }
+
+  toggle(ref: KeyRef) {
+    if (this.isSelected(ref.curveId, ref.index)) {
+      this.selection = this.selection.filter((r) => r.curveId !== ref.curveId || r.index !== ref.index);
+      this.notify();
+    } else {
+      this.select([ref], true);
+    }
+  }
+
+  clearSelection() {
+    if (!this.selection.length) return;
+    this.selection = [];
+    this.notify();
+  }
+
+  selectAll(curveIds: string[] = Object.keys(this.curves)) {
+    this.select(curveIds.flatMap((curveId) => (this.curves[curveId] ?? []).map((_, index) => ({ curveId, index }))));
+  }
+
+  /** Select every key inside the box, across all (or the given) curves */
+  boxSelect(box: SelectionBox, opts: { curveIds?: string[]; additive?: boolean } = {}) {
+    const [tMin, tMax] = [Math.min(box.t0, box.t1), Math.max(box.t0, box.t1)];
+    const [vMin, vMax] = [Math.min(box.v0, box.v1), Math.max(box.v0, box.v1)];
+    const refs: KeyRef[] = [];
+    for (const curveId of opts.curveIds ?? Object.keys(this.curves)) {
+      (this.curves[curveId] ?? []).forEach((k, index) => {
+        if (k.time >= tMin && k.time <= tMax && k.intensity >= vMin && k.intensity <= vMax) refs.push({ curveId, index });
+      });
+    }
+    this.select(refs, !!opts.additive);
+  }
+
+  // ---------- edits ----------
+
+  /** Add (or replace) a key; it becomes the selection */
+  insertKey(curveId: string, time: number, value: number): KeyRef {
+    const t = Math.max(0, this.snapTime(time));
+    const key: CurvePoint = { time: t, intensity: this.clampValue(value) };
+    const arr = (this.curves[curveId] ?? []).filter((k) => Math.abs(k.time - t) > TIME_EPSILON);
+    arr.push(key);
+    arr.sort((a, b) => a.time - b.time);
+    const ref = { curveId, index: arr.indexOf(key) };
+    this.commit({ ...this.curves, [curveId]: arr }, [ref], [curveId]);
+    return ref;
+  }
+
+  deleteSelection() {
+    if (!this.selection.length) return;
+    const doomed = new Set(this.selection.map((r) => `${r.curveId}:${r.index}`));
+    const changed = this.selectedCurveIds();
+    const next = { ...this.curves };
+    for (const curveId of changed) {
+      next[curveId] = this.curves[curveId].filter((_, i) => !doomed.has(`${curveId}:${i}`));
+    }
+    this.commit(next, [], changed);
+  }
+
+  /** Move the selected keys by dt seconds / dv value (arrow-key nudging) */
+  nudge(dt: number, dv: number) {
+    this.transformSelection((k) => ({
+      ...k,
+      time: Math.max(0, k.time + dt),
+      intensity: this.clampValue(k.intensity + dv),
+    }));
+  }
+
+  /** Interpolation of the segments leaving the selected keys */
+  setInterpolation(mode: CurveInterpolation) {
+    this.transformSelection((k) => {
+      const { interpolation, ...rest } = k;
+      return mode === 'linear' ? rest : { ...rest, interpolation: mode };
+    });
+  }
+
+  // ---------- pointer gestures ----------
+
+  beginGesture() {
+    if (this.gesture) return;
+    this.gesture = { curves: this.curves, selection: this.selection };
+  }
+
+  /**
+   * Offset the selection from where it was when the gesture began.
+   * Snapping applies to the resulting key times. Nothing is sent until endGesture().
+   */
+  dragSelection(dt: number, dv: number) {
+    if (!this.gesture) return;
+    const { curves, selection } = this.gesture;
+    const { next, refs } = this.mapKeys(curves, selection, (k) => ({
+      ...k,
+      time: Math.max(0, this.snapTime(k.time + dt)),
+      intensity: this.clampValue(k.intensity + dv),
+    }));
+    this.curves = next;
+    this.selection = refs;
+    this.notify();
+  }
+
+  /** Finish the gesture: record one undo step and send the curves it changed */
+  endGesture() {
+    const gesture = this.gesture;
+    if (!gesture) return;
+    this.gesture = null;
+    const changed = Object.keys(this.curves).filter((id) => this.curves[id] !== gesture.curves[id]);
+    if (!changed.length) return;
+    this.pushHistory(gesture.curves);
+    this.emit(changed);
+    this.notify();
+  }
+
+  cancelGesture() {
+    const gesture = this.gesture;
+    if (!gesture) return;
+    this.gesture = null;
+    this.curves = gesture.curves;
+    this.selection = gesture.selection;
+    this.notify();
+  }
+
+  // ---------- clipboard ----------
+
+  /** Copy the selected keys, with times relative to the earliest one */
+  copy() {
+    if (!this.selection.length) return;
+    const keys = this.selection.map((r) => ({ curveId: r.curveId, key: this.curves[r.curveId][r.index] }));
+    const start = Math.min(...keys.map((k) => k.key.time));
+    this.clipboard = keys.map(({ curveId, key }) => ({ curveId, offset: key.time - start, key: { ...key } }));
+  }
+
+  /**
+   * Paste the clipboard starting at `time`. Keys go back onto the curves they were copied
+   * from; keys copied from a single curve can be redirected with `curveId`. Existing keys at
+   * the same time are replaced. The pasted keys become the selection.
+   */
+  paste(time: number, curveId?: string) {
+    if (!this.clipboard.length) return;
+    const singleCurve = new Set(this.clipboard.map((c) => c.curveId)).size === 1;
+    const start = Math.max(0, this.snapTime(time));
+    const next = { ...this.curves };
+    const pasted = new Set<CurvePoint>();
+
+    for (const c of this.clipboard) {
+      const target = curveId && singleCurve ? curveId : c.curveId;
+      const key: CurvePoint = { ...c.key, time: this.snapTime(start + c.offset), inherit: false };
+      next[target] = [...(next[target] ?? []).filter((k) => Math.abs(k.time - key.time) > TIME_EPSILON), key]
+        .sort((a, b) => a.time - b.time);
+      pasted.add(key);
+    }
+
+    const changed = Object.keys(next).filter((id) => next[id] !== this.curves[id]);
+    this.commit(next, this.refsOf(next, pasted), changed);
+  }
+
+  // ---------- history ----------
+
+  undo() {
+    const prev = this.past.pop();
+    if (!prev) return false;
+    this.future.push(this.curves);
+    this.restore(prev);
+    return true;
+  }
+
+  redo() {
+    const next = this.future.pop();
+    if (!next) return false;
+    this.past.push(this.curves);
+    this.restore(next);
+    return true;
+  }
+
+  // ---------- internals ----------
+
+  private clampValue(v: number) {
+    const [min, max] = this.valueRange;
+    return Math.min(max, Math.max(min, v));
+  }
+
+  private selectedCurveIds() {
+    return [...new Set(this.selection.map((r) => r.curveId))];
+  }
+
+  private transformSelection(fn: (k: CurvePoint) => CurvePoint) {
+    if (!this.selection.length) return;
+    const { next, refs } = this.mapKeys(this.curves, this.selection, fn);
+    this.commit(next, refs, this.selectedCurveIds());
+  }
+
+  /** Apply fn to the referenced keys, re-sort the touched curves and re-resolve the refs */
+  private mapKeys(curves: CurvesMap, refs: KeyRef[], fn: (k: CurvePoint) => CurvePoint) {
+    const next = { ...curves };
+    const moved = new Set<CurvePoint>();
+    for (const curveId of new Set(refs.map((r) => r.curveId))) {
+      const arr = [...curves[curveId]];
+      for (const r of refs) {
+        if (r.curveId !== curveId || !arr[r.index]) continue;
+        arr[r.index] = fn(arr[r.index]);
+        moved.add(arr[r.index]);
+      }
+      next[curveId] = arr.sort((a, b) => a.time - b.time);
+    }
+    return { next, refs: this.refsOf(next, moved) };
+  }
+
+  private refsOf(curves: CurvesMap, keys: Set<CurvePoint>): KeyRef[] {
+    const refs: KeyRef[] = [];
+    for (const [curveId, arr] of Object.entries(curves)) {
+      arr.forEach((k, index) => { if (keys.has(k)) refs.push({ curveId, index }); });
+    }
+    return refs;
+  }
+
+  private commit(next: CurvesMap, selection: KeyRef[], changed: string[]) {
+    this.pushHistory(this.curves);
+    this.curves = next;
+    this.selection = selection;
+    this.emit(changed);
+    this.notify();
+  }
+
+  private pushHistory(curves: CurvesMap) {
+    this.past.push(curves);
+    if (this.past.length > this.maxHistory) this.past.shift();
+    this.future = [];
+  }
+
+  private restore(curves: CurvesMap) {
+    const changed = new Set([...Object.keys(curves), ...Object.keys(this.curves)]);
+    const previous = this.curves;
+    this.curves = curves;
+    this.selection = [];
+    // Curves that only existed after the undone edit are cleared
+    this.emit([...changed].filter((id) => curves[id] !== previous[id]));
+    this.notify();
+  }
+
+  private emit(curveIds: string[]) {
+    if (!curveIds.length || (!this.onCurveChanged && !this.onCurvesChanged)) return;
+    const events: CurveChangedEvent[] = curveIds.map((curveId) => ({
+      type: 'CURVE_CHANGED',
+      nameOrId: this.snippetName,
+      auId: curveId,
+      curve: this.curves[curveId] ?? [],
+    }));
+    events.forEach((event) => this.onCurveChanged?.(event));
+    this.onCurvesChanged?.(events);
+  }
+
+  private notify() {
+    this.version++;
+    this.listeners.forEach((l) => l());
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Curve Interpolation
+ *
+ * Per-keyframe interpolation for snippet curves. The interpolation mode is stored on the
+ * key that starts a segment; the segment runs until the next key.
+ *
+ * The scheduler uses sampleCurve() for scrubbing/target maps and densifyCurve() to turn
+ * non-linear segments into short linear pieces for engines that only tween linearly
+ * (transitionAU/transitionMorph and buildClip()).
+ */
+
+import type { CurveInterpolation, CurvePoint, CurveTangent } from './types';
+
+export const CURVE_INTERPOLATIONS: CurveInterpolation[] = ['linear', 'step', 'easeIn', 'easeOut', 'easeInOut', 'bezier'];
+
+/** Gap left before the next key when a 'step' segment is densified, so the engine jumps instead of tweening. */
+const STEP_EPSILON = 1e-3;
+
+/** Default number of linear pieces per non-linear segment when densifying. */
+const DEFAULT_SEGMENT_STEPS = 8;
+
+type InterpolationFields = Pick<CurvePoint, 'interpolation' | 'inTangent' | 'outTangent'>;
+
+const isInterpolation = (v: unknown): v is CurveInterpolation =>
+  typeof v === 'string' && (CURVE_INTERPOLATIONS as string[]).includes(v);
+
+const toTangent = (v: any): CurveTangent | undefined => {
+  if (!v || typeof v !== 'object') return undefined;
+  const dt = Number(v.dt);
+  const dv = Number(v.dv);
+  if (!Number.isFinite(dt) || !Number.isFinite(dv)) return undefined;
+  return { dt, dv };
+};
+
+/**
+ * Pick the interpolation fields off a raw keyframe (JSON or authoring form).
+ * Unknown modes and malformed tangents are dropped so the key falls back to linear.
+ */
+export function readInterpolation(k: any): InterpolationFields {
+  const out: InterpolationFields = {};
+  if (!k) return out;
+  if (isInterpolation(k.interpolation) && k.interpolation !== 'linear') out.interpolation = k.interpolation;
+  const inTangent = toTangent(k.inTangent);
+  const outTangent = toTangent(k.outTangent);
+  if (inTangent) out.inTangent = inTangent;
+  if (outTangent) out.outTangent = outTangent;
+  return out;
+}
+
+const easeIn = (p: number) => p * p * p;
+const easeOut = (p: number) => 1 - Math.pow(1 - p, 3);
+const easeInOut = (p: number) => (p < 0.5 ? 4 * p * p * p : 1 - Math.pow(-2 * p + 2, 3) / 2);
+
+const cubic = (p0: number, p1: number, p2: number, p3: number, s: number) => {
+  const u = 1 - s;
+  return u * u * u * p0 + 3 * u * u * s * p1 + 3 * u * s * s * p2 + s * s * s * p3;
+};
+
+/**
+ * Resolve the Bezier control points for a segment. Missing handles default to a flat
+ * third of the segment, and handle times are clamped inside the segment so the curve
+ * stays a function of time.
+ */
+export function bezierControlPoints(a: CurvePoint, b: CurvePoint) {
+  const span = Math.max(1e-6, b.time - a.time);
+  const out = a.outTangent ?? { dt: span / 3, dv: 0 };
+  const inn = b.inTangent ?? { dt: -span / 3, dv: 0 };
+  return {
+    x1: Math.min(b.time, Math.max(a.time, a.time + out.dt)),
+    y1: a.intensity + out.dv,
+    x2: Math.min(b.time, Math.max(a.time, b.time + inn.dt)),
+    y2: b.intensity + inn.dv,
+  };
+}
+
+function evaluateBezier(a: CurvePoint, b: CurvePoint, t: number) {
+  const { x1, y1, x2, y2 } = bezierControlPoints(a, b);
+  // x(s) is monotonic once handles are clamped, so bisection always converges
+  let lo = 0, hi = 1, s = 0.5;
+  for (let i = 0; i < 32; i++) {
+    s = (lo + hi) / 2;
+    const x = cubic(a.time, x1, x2, b.time, s);
+    if (Math.abs(x - t) < 1e-7) break;
+    if (x < t) lo = s; else hi = s;
+  }
+  return cubic(a.intensity, y1, y2, b.intensity, s);
+}
+
+/**
+ * Evaluate the segment a→b at time t (a.time <= t <= b.time) using a's interpolation mode.
+ */
+export function evaluateSegment(a: CurvePoint, b: CurvePoint, t: number): number {
+  const dt = Math.max(1e-6, b.time - a.time);
+  const p = Math.min(1, Math.max(0, (t - a.time) / dt));
+  const delta = b.intensity - a.intensity;
+
+  switch (a.interpolation ?? 'linear') {
+    case 'step':
+      return p >= 1 ? b.intensity : a.intensity;
+    case 'easeIn':
+      return a.intensity + delta * easeIn(p);
+    case 'easeOut':
+      return a.intensity + delta * easeOut(p);
+    case 'easeInOut':
+      return a.intensity + delta * easeInOut(p);
+    case 'bezier':
+      return evaluateBezier(a, b, t);
+    default:
+      return a.intensity + delta * p;
+  }
+}
+
+/**
+ * Sample a sorted curve at time t, honoring per-key interpolation.
+ * Values before the first key / after the last key are held.
+ */
+export function sampleCurve(arr: CurvePoint[], t: number): number {
+  if (!arr.length) return 0;
+  if (t <= arr[0].time) return arr[0].intensity;
+  if (t >= arr[arr.length - 1].time) return arr[arr.length - 1].intensity;
+  for (let i = 0; i < arr.length - 1; i++) {
+    const a = arr[i],
+      b = arr[i + 1];
+    if (t >= a.time && t <= b.time) {
+      return evaluateSegment(a, b, t);
+    }
+  }
+  return 0;
+}
+
+/** True when any segment of the curve needs more than a straight line. */
+export function hasNonLinearSegments(arr: CurvePoint[]): boolean {
+  for (let i = 0; i < arr.length - 1; i++) {
+    const mode = arr[i].interpolation ?? 'linear';
+    if (mode !== 'linear') return true;
+  }
+  return false;
+}
+
+/**
+ * Approximate a curve with linear keys only.
+ * Linear segments are kept as-is, 'step' segments get a hold key just before the next key,
+ * and eased/Bezier segments are split into `steps` linear pieces.
+ * The first key keeps its `inherit` flag so continuity reseeding still works.
+ */
+export function densifyCurve(arr: CurvePoint[], steps = DEFAULT_SEGMENT_STEPS): CurvePoint[] {
+  if (!hasNonLinearSegments(arr)) return arr;
+
+  const out: CurvePoint[] = [];
+  for (let i = 0; i < arr.length; i++) {
+    const a = arr[i];
+    out.push({ time: a.time, intensity: a.intensity, inherit: a.inherit });
+
+    const b = arr[i + 1];
+    if (!b) break;
+    const mode = a.interpolation ?? 'linear';
+    const span = b.time - a.time;
+    if (mode === 'linear' || span <= 0) continue;
+
+    if (mode === 'step') {
+      const holdAt = Math.max(a.time, b.time - Math.min(STEP_EPSILON, span / 2));
+      if (holdAt > a.time) out.push({ time: holdAt, intensity: a.intensity });
+      continue;
+    }
+
+    for (let s = 1; s < steps; s++) {
+      const t = a.time + (span * s) / steps;
+      out.push({ time: t, intensity: evaluateSegment(a, b, t) });
+    }
+  }
+  return out;
+}
+
+/** densifyCurve() applied to every curve of a snippet. */
+export function densifyCurves(curves: Record<string, CurvePoint[]>, steps = DEFAULT_SEGMENT_STEPS): Record<string, CurvePoint[]> {
+  const out: Record<string, CurvePoint[]> = {};
+  for (const [curveId, arr] of Object.entries(curves)) {
+    out[curveId] = densifyCurve(arr, steps);
+  }
+  return out;
+}
@@ -0,0 +1,306 @@
+/**
+ * Live Link Face / ARKit CSV Import
+ *
+ * Converts per-frame ARKit blendshape recordings (52 weights + head rotation) into an
+ * AU snippet the scheduler can play:
+ * - Blendshape columns map onto FACS AU IDs (ARKIT_TO_AU); L/R pairs are merged into one
+ *   bilateral AU and their asymmetry is kept in snippetBalanceMap
+ * - Eye look blendshapes drive AUs 61-64 (both eyes) or 65-72 (per eye)
+ * - HeadYaw/HeadPitch/HeadRoll (radians) drive head AUs 51-56
+ * - Redundant keys are removed with a Ramer-Douglas-Peucker pass per curve
+ *
+ * Supported time columns: Live Link Face `Timecode` (HH:MM:SS:FF.sss) or a plain
+ * seconds column (`time`, `timestamp`, `seconds`). Without either, rows are spaced at 1/fps.
+ */
+
+import type { AUKeyframe, Snippet } from './types';
+
+export type LiveLinkImportOptions = {
+  /** Snippet name (default 'livelink_capture') */
+  name?: string;
+  /** Frame rate of the Timecode frame field / row spacing (Live Link Face records at 60) */
+  fps?: number;
+  /** Max vertical error (0-1) tolerated when removing keys; 0 keeps every frame */
+  tolerance?: number;
+  /** 'both' → AUs 61-64, 'individual' → AUs 65-72 */
+  eyeMode?: 'both' | 'individual';
+  /** Head angle (degrees) that maps to AU intensity 1 */
+  headMaxDegrees?: number;
+  /** Swap left/right (performer faces the camera, character faces the viewer) */
+  mirror?: boolean;
+  /** Skip head rotation columns */
+  includeHead?: boolean;
+};
+
+type Side = 'L' | 'R';
+
+/**
+ * ARKit blendshape → AU. Sided entries are merged into a bilateral AU with a balance.
+ * Shapes without a good FACS equivalent (mouthLeft/Right, jawLeft/Right, mouthClose,
+ * mouthShrugUpper) are not imported.
+ */
+export const ARKIT_TO_AU: Record<string, { au: number; side?: Side }> = {
+  browInnerUp: { au: 1 },
+  browOuterUpLeft: { au: 2, side: 'L' },
+  browOuterUpRight: { au: 2, side: 'R' },
+  browDownLeft: { au: 4, side: 'L' },
+  browDownRight: { au: 4, side: 'R' },
+  eyeWideLeft: { au: 5, side: 'L' },
+  eyeWideRight: { au: 5, side: 'R' },
+  cheekSquintLeft: { au: 6, side: 'L' },
+  cheekSquintRight: { au: 6, side: 'R' },
+  eyeSquintLeft: { au: 7, side: 'L' },
+  eyeSquintRight: { au: 7, side: 'R' },
+  noseSneerLeft: { au: 9, side: 'L' },
+  noseSneerRight: { au: 9, side: 'R' },
+  mouthUpperUpLeft: { au: 10, side: 'L' },
+  mouthUpperUpRight: { au: 10, side: 'R' },
+  mouthSmileLeft: { au: 12, side: 'L' },
+  mouthSmileRight: { au: 12, side: 'R' },
+  mouthDimpleLeft: { au: 14, side: 'L' },
+  mouthDimpleRight: { au: 14, side: 'R' },
+  mouthFrownLeft: { au: 15, side: 'L' },
+  mouthFrownRight: { au: 15, side: 'R' },
+  mouthLowerDownLeft: { au: 16, side: 'L' },
+  mouthLowerDownRight: { au: 16, side: 'R' },
+  mouthShrugLower: { au: 17 },
+  mouthPucker: { au: 18 },
+  tongueOut: { au: 19 },
+  mouthStretchLeft: { au: 20, side: 'L' },
+  mouthStretchRight: { au: 20, side: 'R' },
+  mouthFunnel: { au: 22 },
+  mouthPressLeft: { au: 24, side: 'L' },
+  mouthPressRight: { au: 24, side: 'R' },
+  jawOpen: { au: 26 },
+  mouthRollLower: { au: 28 },
+  mouthRollUpper: { au: 28 },
+  jawForward: { au: 29 },
+  cheekPuff: { au: 34 },
+  eyeBlinkLeft: { au: 43, side: 'L' },
+  eyeBlinkRight: { au: 43, side: 'R' },
+};
+
+/** Eye look blendshapes → per-eye AUs 65-72 (left eye "out" looks to the performer's left) */
+const EYE_LOOK_INDIVIDUAL: Record<string, number> = {
+  eyeLookOutLeft: 65,
+  eyeLookInLeft: 66,
+  eyeLookUpLeft: 67,
+  eyeLookDownLeft: 68,
+  eyeLookInRight: 69,
+  eyeLookOutRight: 70,
+  eyeLookUpRight: 71,
+  eyeLookDownRight: 72,
+};
+
+/** Per-eye AU → both-eyes AU (61 left, 62 right, 63 up, 64 down) */
+const EYE_BOTH_FROM_INDIVIDUAL: Record<number, number> = {
+  65: 61, 69: 61,
+  66: 62, 70: 62,
+  67: 63, 71: 63,
+  68: 64, 72: 64,
+};
+
+/** Left/right counterpart of per-eye AUs, used when mirroring */
+const EYE_MIRROR: Record<number, number> = {
+  65: 70, 66: 69, 67: 71, 68: 72,
+  69: 66, 70: 65, 71: 67, 72: 68,
+};
+
+/** Head rotation columns → [AU for positive angle, AU for negative angle] */
+const HEAD_AXES: Record<string, [number, number]> = {
+  headyaw: [51, 52],   // + turn left, - turn right
+  headpitch: [54, 53], // + down, - up
+  headroll: [55, 56],  // + tilt left, - tilt right
+};
+
+const MIRRORED_HEAD_AUS = new Set([51, 52, 55, 56]);
+
+const DEFAULTS = {
+  name: 'livelink_capture',
+  fps: 60,
+  tolerance: 0.01,
+  eyeMode: 'both' as const,
+  headMaxDegrees: 30,
+  mirror: false,
+  includeHead: true,
+};
+
+const TIME_COLUMNS = ['time', 'timestamp', 'seconds', 'time_s'];
+
+/** Column names are matched case-insensitively (Live Link writes EyeBlinkLeft, ARKit uses eyeBlinkLeft). */
+const lowerKeyMap = <T,>(table: Record<string, T>) =>
+  new Map(Object.entries(table).map(([k, v]) => [k.toLowerCase(), v]));
+
+const ARKIT_LOOKUP = lowerKeyMap(ARKIT_TO_AU);
+const EYE_LOOKUP = lowerKeyMap(EYE_LOOK_INDIVIDUAL);
+
+/**
+ * Parse a Live Link Face timecode (HH:MM:SS:FF or HH:MM:SS:FF.sss) into seconds.
+ */
+export function parseTimecode(tc: string, fps: number): number | null {
+  const m = tc.trim().match(/^(\d+):(\d+):(\d+)[:;](\d+(?:\.\d+)?)$/);
+  if (!m) return null;
+  const [, h, min, s, frames] = m;
+  return Number(h) * 3600 + Number(min) * 60 + Number(s) + Number(frames) / fps;
+}
+
+/**
+ * Remove keys that can be recovered by linear interpolation within `tolerance`
+ * (Ramer-Douglas-Peucker on the value axis). First and last keys are always kept.
+ */
+export function decimateKeys<K extends { t: number; v: number }>(keys: K[], tolerance: number): K[] {
+  if (keys.length <= 2 || tolerance <= 0) return keys.slice();
+  const keep = new Array<boolean>(keys.length).fill(false);
+  keep[0] = keep[keys.length - 1] = true;
+
+  const stack: Array<[number, number]> = [[0, keys.length - 1]];
+  while (stack.length) {
+    const [a, b] = stack.pop()!;
+    const ka = keys[a], kb = keys[b];
+    const span = kb.t - ka.t;
+    let maxErr = 0;
+    let maxIdx = -1;
+    for (let i = a + 1; i < b; i++) {
+      const p = span > 0 ? (keys[i].t - ka.t) / span : 0;
+      const err = Math.abs(keys[i].v - (ka.v + (kb.v - ka.v) * p));
+      if (err > maxErr) { maxErr = err; maxIdx = i; }
+    }
+    if (maxIdx >= 0 && maxErr > tolerance) {
+      keep[maxIdx] = true;
+      stack.push([a, maxIdx], [maxIdx, b]);
+    }
+  }
+  return keys.filter((_, i) => keep[i]);
+}
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+/**
+ * Parse a Live Link Face / ARKit blendshape CSV into an AU snippet.
+ * Returns null when the file has no recognizable blendshape or head columns.
+ */
+export function parseLiveLinkCSV(text: string, options: LiveLinkImportOptions = {}): Snippet | null {
+  const opts = { ...DEFAULTS, ...options };
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length < 2) return null;
+
+  const header = lines[0].split(',').map(h => h.trim());
+  const lower = header.map(h => h.toLowerCase());
+  const timecodeCol = lower.indexOf('timecode');
+  const timeCol = lower.findIndex(h => TIME_COLUMNS.includes(h));
+
+  const sided = (side: Side | undefined): Side | undefined =>
+    side && opts.mirror ? (side === 'L' ? 'R' : 'L') : side;
+
+  // Column → how it contributes
+  type ColumnTarget =
+    | { kind: 'face'; au: number; side?: Side }
+    | { kind: 'eye'; au: number }
+    | { kind: 'head'; pos: number; neg: number };
+  const columns = new Map<number, ColumnTarget>();
+  lower.forEach((name, col) => {
+    const face = ARKIT_LOOKUP.get(name);
+    if (face) {
+      columns.set(col, { kind: 'face', au: face.au, side: sided(face.side) });
+      return;
+    }
+    const eye = EYE_LOOKUP.get(name);
+    if (eye !== undefined) {
+      const au = opts.mirror ? EYE_MIRROR[eye] : eye;
+      columns.set(col, { kind: 'eye', au: opts.eyeMode === 'both' ? EYE_BOTH_FROM_INDIVIDUAL[au] : au });
+      return;
+    }
+    const head = HEAD_AXES[name];
+    if (head && opts.includeHead) {
+      let [pos, neg] = head;
+      if (opts.mirror && MIRRORED_HEAD_AUS.has(pos)) [pos, neg] = [neg, pos];
+      columns.set(col, { kind: 'head', pos, neg });
+    }
+  });
+  if (!columns.size) return null;
+
+  const headMaxRad = (opts.headMaxDegrees * Math.PI) / 180;
+  const curves = new Map<number, Array<{ t: number; v: number }>>();
+  // Per-AU totals for each side, to recover a balance for merged L/R shapes
+  const sideTotals = new Map<number, { L: number; R: number }>();
+
+  let t0: number | null = null;
+  for (let row = 1; row < lines.length; row++) {
+    const cells = lines[row].split(',');
+
+    let t: number | null = null;
+    if (timecodeCol >= 0) t = parseTimecode(cells[timecodeCol] ?? '', opts.fps);
+    else if (timeCol >= 0) t = Number(cells[timeCol]);
+    if (t === null || !Number.isFinite(t)) t = (row - 1) / opts.fps;
+    if (t0 === null) t0 = t;
+    const time = round(t - t0);
+
+    const frame = new Map<number, { value: number; count: number; L?: number; R?: number }>();
+    const add = (au: number, v: number, side?: Side) => {
+      const entry = frame.get(au) ?? { value: 0, count: 0 };
+      if (side) entry[side] = v;
+      else { entry.value += v; entry.count += 1; }
+      frame.set(au, entry);
+    };
+
+    for (const [col, target] of columns) {
+      const raw = Number(cells[col]);
+      if (!Number.isFinite(raw)) continue;
+      if (target.kind === 'head') {
+        const v = clamp01(Math.abs(raw) / headMaxRad);
+        add(target.pos, raw > 0 ? v : 0);
+        add(target.neg, raw < 0 ? v : 0);
+      } else if (target.kind === 'eye') {
+        add(target.au, clamp01(raw));
+      } else {
+        add(target.au, clamp01(raw), target.side);
+      }
+    }
+
+    for (const [au, entry] of frame) {
+      let v: number;
+      if (entry.L !== undefined || entry.R !== undefined) {
+        const l = entry.L ?? 0;
+        const r = entry.R ?? 0;
+        const totals = sideTotals.get(au) ?? { L: 0, R: 0 };
+        totals.L += l;
+        totals.R += r;
+        sideTotals.set(au, totals);
+        v = Math.max(l, r);
+      } else {
+        v = entry.count ? entry.value / entry.count : 0;
+      }
+      if (!curves.has(au)) curves.set(au, []);
+      curves.get(au)!.push({ t: time, v: round(v) });
+    }
+  }
+
+  const au: AUKeyframe[] = [];
+  for (const [id, keys] of curves) {
+    // Curves that never move are dropped entirely
+    if (keys.every(k => k.v === 0)) continue;
+    decimateKeys(keys, opts.tolerance).forEach(k => au.push({ t: k.t, id, v: k.v }));
+  }
+  au.sort((a, b) => a.t - b.t || a.id - b.id);
+
+  // balance: -1 left only, +1 right only (see Snippet.snippetBalanceMap)
+  const snippetBalanceMap: Record<string, number> = {};
+  for (const [id, { L, R }] of sideTotals) {
+    const peak = Math.max(L, R);
+    if (peak <= 0) continue;
+    const balance = R >= L ? 1 - L / R : -(1 - R / L);
+    if (Math.abs(balance) > 0.01) snippetBalanceMap[String(id)] = round(balance);
+  }
+
+  return {
+    name: opts.name,
+    loop: false,
+    snippetCategory: 'auSnippet',
+    snippetPriority: 0,
+    snippetPlaybackRate: 1,
+    snippetIntensityScale: 1,
+    snippetBalanceMap,
+    au,
+  };
+}
@@ -0,0 +1,290 @@
+/**
+ * Snippet Retiming
+ *
+ * Pure editing operations on loaded snippets: reverse, trim, time-stretch, concatenate
+ * with a crossfade and left/right mirror. Every operation returns a new NormalizedSnippet
+ * (duration recomputed, playback bookkeeping reset) and never mutates its input, so the
+ * animation machine can keep the before/after pair for undo/redo.
+ *
+ * Per-key interpolation is preserved wherever a segment survives intact. Segments cut by
+ * trim/concat are resampled into linear keys, like densifyCurve() does for the mixer.
+ */
+
+import type { CurveInterpolation, CurvePoint, CurvesMap, CurveTangent, NormalizedSnippet } from './types';
+import { isNumericId } from './types';
+import { evaluateSegment, sampleCurve } from './curveInterpolation';
+
+export type SnippetEditOperation = 'reverse' | 'trim' | 'stretch' | 'concat' | 'mirror';
+
+/** Linear pieces used when a cut eased/Bezier segment is resampled. */
+const CUT_SEGMENT_STEPS = 8;
+
+/** Sample rate of the blended keys written across a crossfade. */
+const CROSSFADE_FPS = 30;
+
+/** Shortest crossfade; a zero-length overlap would put two keys at the same time. */
+const MIN_CROSSFADE_SEC = 1e-3;
+
+/** Gap used to express a reversed 'step' segment (jump first, then hold). */
+const STEP_EPSILON = 1e-3;
+
+/**
+ * Left/right counterparts used by mirrorSnippet():
+ * eyes 61↔62, per-eye 65-72, head turn 51↔52 and head tilt 55↔56.
+ */
+export const MIRROR_AU_PAIRS: Record<string, string> = {
+  '61': '62', '62': '61',
+  '65': '70', '70': '65',
+  '66': '69', '69': '66',
+  '67': '71', '71': '67',
+  '68': '72', '72': '68',
+  '51': '52', '52': '51',
+  '55': '56', '56': '55',
+};
+
+// ---------- helpers ----------
+
+function curvesDuration(curves: CurvesMap): number {
+  let max = 0;
+  for (const arr of Object.values(curves)) {
+    if (arr.length && arr[arr.length - 1].time > max) max = arr[arr.length - 1].time;
+  }
+  return max;
+}
+
+/** New snippet with replaced curves; playback restarts from the beginning. */
+function withCurves(sn: NormalizedSnippet, curves: CurvesMap, patch: Partial<NormalizedSnippet> = {}): NormalizedSnippet {
+  return {
+    ...sn,
+    ...patch,
+    curves,
+    duration: curvesDuration(curves),
+    currentTime: 0,
+    loopIteration: 0,
+    lastLoopTime: 0,
+    cursor: {},
+  };
+}
+
+function mapCurves(curves: CurvesMap, fn: (arr: CurvePoint[]) => CurvePoint[]): CurvesMap {
+  const out: CurvesMap = {};
+  for (const [curveId, arr] of Object.entries(curves)) out[curveId] = fn(arr);
+  return out;
+}
+
+const mirrorTangent = (t?: CurveTangent): CurveTangent | undefined => (t ? { dt: -t.dt, dv: t.dv } : undefined);
+
+/** Build a key, leaving out undefined interpolation fields so snippets stay JSON-clean. */
+function key(
+  time: number,
+  intensity: number,
+  fields: { inherit?: boolean; interpolation?: CurveInterpolation; inTangent?: CurveTangent; outTangent?: CurveTangent } = {}
+): CurvePoint {
+  const k: CurvePoint = { time, intensity, inherit: !!fields.inherit };
+  if (fields.interpolation && fields.interpolation !== 'linear') k.interpolation = fields.interpolation;
+  if (fields.inTangent) k.inTangent = fields.inTangent;
+  if (fields.outTangent) k.outTangent = fields.outTangent;
+  return k;
+}
+
+// ---------- curve operations ----------
+
+/** Mirror a curve in time around `duration` (t → duration - t). */
+export function reverseCurve(arr: CurvePoint[], duration: number): CurvePoint[] {
+  const out: CurvePoint[] = [];
+  for (let i = arr.length - 1; i >= 0; i--) {
+    const k = arr[i];
+    const time = duration - k.time;
+    // The segment leaving this key is the original segment that arrived at it
+    const mode = i > 0 ? (arr[i - 1].interpolation ?? 'linear') : 'linear';
+    const next = arr[i - 1];
+
+    if (mode === 'step' && next) {
+      // Original held the earlier value and jumped at the end; reversed it jumps first, then holds
+      out.push(key(time, k.intensity, { inTangent: mirrorTangent(k.outTangent) }));
+      const holdAt = Math.min(time + STEP_EPSILON, time + (k.time - next.time) / 2);
+      if (holdAt > time) out.push(key(holdAt, next.intensity));
+      continue;
+    }
+
+    const reversedMode: CurveInterpolation =
+      mode === 'easeIn' ? 'easeOut' : mode === 'easeOut' ? 'easeIn' : mode;
+    out.push(key(time, k.intensity, {
+      interpolation: reversedMode,
+      inTangent: mirrorTangent(k.outTangent),
+      outTangent: mirrorTangent(k.inTangent),
+    }));
+  }
+  return out;
+}
+
+/**
+ * Cut a curve to [start, end] and shift it to begin at 0.
+ * Boundary values are sampled; segments cut in the middle are resampled into linear keys
+ * unless they are linear or 'step' (both stay exact).
+ */
+export function trimCurve(arr: CurvePoint[], start: number, end: number): CurvePoint[] {
+  if (!arr.length || !(end > start)) return [];
+  const cuts = [start, ...arr.map(k => k.time).filter(t => t > start && t < end), end];
+  const out: CurvePoint[] = [];
+  let prevIntact = false;
+
+  for (let c = 0; c < cuts.length - 1; c++) {
+    const t0 = cuts[c];
+    const t1 = cuts[c + 1];
+    const i = arr.findIndex((k, j) => j < arr.length - 1 && k.time <= t0 && arr[j + 1].time >= t1);
+    const a = i >= 0 ? arr[i] : undefined;
+    const b = i >= 0 ? arr[i + 1] : undefined;
+    const mode = a?.interpolation ?? 'linear';
+    const inherit = c === 0 && start === 0 && !!arr[0].inherit && arr[0].time === 0;
+    const inTangent = prevIntact && a && a.time === t0 ? a.inTangent : undefined;
+    const v0 = sampleCurve(arr, t0);
+    prevIntact = false;
+
+    if (!a || !b || mode === 'linear') {
+      out.push(key(t0 - start, v0, { inherit, inTangent }));
+    } else if (a.time === t0 && b.time === t1) {
+      out.push(key(t0 - start, v0, { inherit, inTangent, interpolation: mode, outTangent: a.outTangent }));
+      prevIntact = true;
+    } else if (mode === 'step') {
+      out.push(key(t0 - start, v0, { inherit, inTangent, interpolation: 'step' }));
+    } else {
+      out.push(key(t0 - start, v0, { inherit, inTangent }));
+      for (let s = 1; s < CUT_SEGMENT_STEPS; s++) {
+        const t = t0 + ((t1 - t0) * s) / CUT_SEGMENT_STEPS;
+        out.push(key(t - start, evaluateSegment(a, b, t)));
+      }
+    }
+  }
+
+  const endKey = arr.find(k => k.time === end);
+  out.push(key(end - start, sampleCurve(arr, end), { inTangent: prevIntact ? endKey?.inTangent : undefined }));
+  return out;
+}
+
+/** Scale key times (and Bezier handle times) by `factor`. */
+export function stretchCurve(arr: CurvePoint[], factor: number): CurvePoint[] {
+  const scaleTangent = (t?: CurveTangent) => (t ? { dt: t.dt * factor, dv: t.dv } : undefined);
+  return arr.map(k => key(k.time * factor, k.intensity, {
+    inherit: k.inherit,
+    interpolation: k.interpolation,
+    inTangent: scaleTangent(k.inTangent),
+    outTangent: scaleTangent(k.outTangent),
+  }));
+}
+
+// ---------- snippet operations ----------
+
+/** Play the snippet backwards. Ease-in/out segments swap, Bezier handles are mirrored. */
+export function reverseSnippet(sn: NormalizedSnippet): NormalizedSnippet {
+  const duration = curvesDuration(sn.curves);
+  return withCurves(sn, mapCurves(sn.curves, arr => reverseCurve(arr, duration)));
+}
+
+/** Keep only [startSec, endSec] (end defaults to the snippet's end), shifted to start at 0. */
+export function trimSnippet(sn: NormalizedSnippet, startSec: number, endSec?: number): NormalizedSnippet {
+  const duration = curvesDuration(sn.curves);
+  const start = Math.max(0, startSec);
+  const end = Math.min(duration, endSec ?? duration);
+  if (!(end > start)) {
+    throw new Error(`Invalid trim range [${startSec}, ${endSec ?? duration}] for "${sn.name}" (duration ${duration}s)`);
+  }
+  return withCurves(sn, mapCurves(sn.curves, arr => trimCurve(arr, start, end)));
+}
+
+/** Scale the snippet so it lasts `targetDurationSec`. Playback rate is left untouched. */
+export function stretchSnippet(sn: NormalizedSnippet, targetDurationSec: number): NormalizedSnippet {
+  const duration = curvesDuration(sn.curves);
+  if (!(duration > 0)) throw new Error(`Cannot stretch "${sn.name}": snippet has no duration`);
+  if (!Number.isFinite(targetDurationSec) || targetDurationSec <= 0) {
+    throw new Error(`Invalid target duration ${targetDurationSec} for "${sn.name}"`);
+  }
+  const factor = targetDurationSec / duration;
+  return withCurves(sn, mapCurves(sn.curves, arr => stretchCurve(arr, factor)));
+}
+
+/**
+ * Append `b` after `a`, overlapping the last `crossfadeSec` of `a` with the start of `b`.
+ * Across the overlap both snippets are sampled and blended linearly; a curve missing from
+ * one side counts as 0 there, so it fades in or out. Metadata (category, priority, layer,
+ * balance, ...) comes from `a`.
+ */
+export function concatSnippets(a: NormalizedSnippet, b: NormalizedSnippet, crossfadeSec = 0, name?: string): NormalizedSnippet {
+  const durA = curvesDuration(a.curves);
+  const durB = curvesDuration(b.curves);
+  if (!(durA > 0) || !(durB > 0)) {
+    throw new Error(`Cannot concatenate "${a.name}" and "${b.name}": both snippets need a duration`);
+  }
+  const fade = Math.min(durA, durB, Math.max(MIN_CROSSFADE_SEC, crossfadeSec || 0));
+  const fadeStart = durA - fade;
+  const steps = Math.max(1, Math.ceil(fade * CROSSFADE_FPS));
+
+  const sample = (arr: CurvePoint[] | undefined, t: number) => (arr?.length ? sampleCurve(arr, t) : 0);
+  const curves: CurvesMap = {};
+  const ids = new Set([...Object.keys(a.curves), ...Object.keys(b.curves)]);
+
+  for (const id of ids) {
+    const ca = a.curves[id];
+    const cb = b.curves[id];
+
+    // a up to the crossfade (its last key is replaced by the first blended key)
+    const head = fadeStart > 0
+      ? (ca?.length ? trimCurve(ca, 0, fadeStart) : [key(0, 0), key(fadeStart, 0)]).slice(0, -1)
+      : [];
+
+    // b after the crossfade, shifted to the end of a
+    const tail = durB > fade && cb?.length
+      ? trimCurve(cb, fade, durB).map(k => ({ ...k, time: k.time + durA }))
+      : [];
+
+    const blend: CurvePoint[] = [];
+    for (let s = 0; s <= steps; s++) {
+      const w = s / steps;
+      const t = fadeStart + fade * w;
+      blend.push(key(t, (1 - w) * sample(ca, t) + w * sample(cb, t - fadeStart)));
+    }
+    // The tail's first key carries the interpolation of b's first segment
+    if (tail.length) blend.pop();
+
+    curves[id] = [...head, ...blend, ...tail];
+  }
+
+  return withCurves(a, curves, {
+    name: name ?? `${a.name}+${b.name}`,
+    snippetBalanceMap: { ...b.snippetBalanceMap, ...a.snippetBalanceMap },
+  });
+}
+
+/** Swap _L/_R and Left/Right in a morph name (e.g. Mouth_Smile_L → Mouth_Smile_R). */
+function mirrorMorphName(curveId: string): string {
+  return curveId
+    .replace(/_L(?=$|_)|_R(?=$|_)/g, m => (m === '_L' ? '_R' : '_L'))
+    .replace(/Left|Right/g, m => (m === 'Left' ? 'Right' : 'Left'));
+}
+
+/**
+ * Swap left/right: paired AUs (eyes, head turn/tilt) and _L/_R morph curves trade places,
+ * and `snippetBalance` plus every `snippetBalanceMap` entry is negated. Viseme curves are
+ * symmetric and keep their ids.
+ */
+export function mirrorSnippet(sn: NormalizedSnippet): NormalizedSnippet {
+  const curves: CurvesMap = {};
+  if (sn.snippetCategory === 'visemeSnippet') {
+    Object.assign(curves, sn.curves);
+  } else {
+    for (const [curveId, arr] of Object.entries(sn.curves)) {
+      const target = MIRROR_AU_PAIRS[curveId] ?? (isNumericId(curveId) ? curveId : mirrorMorphName(curveId));
+      curves[target] = arr;
+    }
+  }
+
+  const snippetBalanceMap: Record<string, number> = {};
+  for (const [curveId, balance] of Object.entries(sn.snippetBalanceMap ?? {})) {
+    snippetBalanceMap[MIRROR_AU_PAIRS[curveId] ?? curveId] = balance === 0 ? 0 : -balance;
+  }
+
+  return withCurves(sn, curves, {
+    snippetBalance: sn.snippetBalance === 0 ? 0 : -(sn.snippetBalance ?? 0),
+    snippetBalanceMap,
+  });
+}
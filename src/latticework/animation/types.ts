@@ -9,6 +9,10 @@ export interface ClipOptions {
   balance?: number;
   jawScale?: number;
   intensityScale?: number;
+  /** Effective layer weight (0-1) after mute/solo */
+  weight?: number;
+  /** Blend the clip additively on top of other clips */
+  additive?: boolean;
 }
 
 export interface ClipHandle {
@@ -19,6 +23,8 @@ export interface ClipHandle {
   resume(): void;
   getTime(): number;
   getDuration(): number;
+  /** Update the clip's blend weight while it plays (layer weight/mute/solo changes) */
+  setWeight?(weight: number): void;
   finished: Promise<void>;
 }
 
@@ -79,18 +85,63 @@ export type MixerBlendConfig = {
   mixerAdditive?: boolean;            // Treat clip as additive layer
 };
 
+/** Every MixerBlendConfig field, for copying mixer metadata between snippet shapes */
+export const MIXER_KEYS = [
+  'mixerChannel', 'mixerBlendMode', 'mixerWeight', 'mixerFadeDurationMs', 'mixerWarpDurationMs',
+  'mixerTimeScale', 'mixerLoopMode', 'mixerClampWhenFinished', 'mixerAdditive',
+] as const satisfies ReadonlyArray<keyof MixerBlendConfig>;
+
+// ---------- Animation layers (named channels) ----------
+
+/**
+ * How a layer combines with the layers below it:
+ * - 'replace': crossfade from the lower result toward this layer by weight
+ * - 'additive': add this layer's values (scaled by weight) on top
+ * - 'override': like 'replace', but always applied after every other layer
+ */
+export type LayerBlendMode = 'replace' | 'additive' | 'override';
+
+export type AnimationLayer = {
+  name: string;           // Channel name snippets reference via mixerChannel (face/eyes/head/mouth/...)
+  order: number;          // Stacking order, lower layers are applied first
+  weight: number;         // 0-1
+  muted: boolean;
+  solo: boolean;
+  blendMode: LayerBlendMode;
+};
+
 // ---------- Core curve types ----------
+
+/**
+ * How the segment leaving a keyframe is interpolated (the mode lives on the segment's first key):
+ * - 'linear' (default): straight line to the next key
+ * - 'step': hold this key's value until the next key, then jump
+ * - 'easeIn' / 'easeOut' / 'easeInOut': cubic easing between the two keys
+ * - 'bezier': cubic Bezier shaped by this key's outTangent and the next key's inTangent
+ */
+export type CurveInterpolation = 'linear' | 'step' | 'easeIn' | 'easeOut' | 'easeInOut' | 'bezier';
+
+/** Bezier handle as an offset from its keyframe, in seconds (dt) and normalized intensity (dv). */
+export type CurveTangent = { dt: number; dv: number };
+
 export type CurvePoint = {
   time: number;
   intensity: number;
   /** When true, the animation agency re-seeds this keyframe with the current AU value each time the snippet (re)starts. */
   inherit?: boolean;
+  /** Interpolation of the segment from this key to the next (default 'linear'). */
+  interpolation?: CurveInterpolation;
+  /** Incoming Bezier handle (used when the previous key's segment is 'bezier'). dt should be <= 0. */
+  inTangent?: CurveTangent;
+  /** Outgoing Bezier handle (used when this key's segment is 'bezier'). dt should be >= 0. */
+  outTangent?: CurveTangent;
 };
 export type CurvesMap = Record<string, CurvePoint[]>;
 
 // ---------- Snippet (authoring form) ----------
-export type AUKeyframe = { t: number; id: number; v: number };
-export type VisemeKeyframe = { t: number; key: string; v: number };
+type KeyframeInterpolation = Pick<CurvePoint, 'interpolation' | 'inTangent' | 'outTangent'>;
+export type AUKeyframe = { t: number; id: number; v: number } & KeyframeInterpolation;
+export type VisemeKeyframe = { t: number; key: string; v: number } & KeyframeInterpolation;
 
 /**
  * Authoring-time snippet: either AU or Viseme keyframes arrays.
@@ -210,15 +261,33 @@ export interface AnimContext {
 
   // manual slider overrides
   manualOverrides: Record<string | number, number>;
+
+  // retiming edits (reverse/trim/stretch/concat/mirror) for undo/redo
+  editHistory: SnippetEditHistory;
 }
 
+/**
+ * One undoable snippet edit. `before` is null when the edit added a new snippet
+ * (concat, or an edit saved under a new name); undoing it removes `after`.
+ */
+export type SnippetEdit = {
+  operation: string;
+  before: NormalizedSnippet | null;
+  after: NormalizedSnippet;
+};
+
+export type SnippetEditHistory = {
+  past: SnippetEdit[];
+  future: SnippetEdit[];
+};
+
 // ---------- Events (Bethos-style parity) ----------
 export interface LoadAnimationEvent {
   type: 'LOAD_ANIMATION';
   data?: Partial<NormalizedSnippet> & Partial<Snippet> & {
     curves?: Record<string, Array<
-      | { time: number; intensity: number; inherit?: boolean }
-      | { t?: number; v?: number; time?: number; intensity?: number; inherit?: boolean }
+      | CurvePoint
+      | ({ t?: number; v?: number; time?: number; intensity?: number; inherit?: boolean } & KeyframeInterpolation)
     >>;
   };
 }
@@ -272,6 +341,14 @@ export interface SeekSnippetEvent {
   time: number;
 }
 
+export interface ApplySnippetEditEvent {
+  type: 'APPLY_SNIPPET_EDIT';
+  operation: string;           // 'reverse' | 'trim' | 'stretch' | 'concat' | 'mirror'
+  snippet: NormalizedSnippet;  // replaces the snippet with the same name, or is added
+}
+export interface UndoSnippetEditEvent { type: 'UNDO_SNIPPET_EDIT' }
+export interface RedoSnippetEditEvent { type: 'REDO_SNIPPET_EDIT' }
+
 export type AnimEvent =
   | LoadAnimationEvent
   | RemoveAnimationEvent
@@ -284,12 +361,40 @@ export type AnimEvent =
   | ManualClearEvent
   | SnippetLoopEvent
   | SetLoopStateEvent
-  | SeekSnippetEvent;
+  | SeekSnippetEvent
+  | ApplySnippetEditEvent
+  | UndoSnippetEditEvent
+  | RedoSnippetEditEvent;
 
 // ---------- Scheduler plumbing ----------
 export type RuntimeSched = { name: string; startsAt: number; offset: number; enabled: boolean };
 export type ScheduleOpts = { startInSec?: number; startAtSec?: number; offsetSec?: number; priority?: number };
 
+// ---------- Offline rendering ----------
+
+export type OfflineRenderOptions = {
+  fps: number;            // Fixed frame rate, e.g. 30 or 60
+  durationSec?: number;   // Defaults to the end of the last non-looping snippet (or one cycle of the longest loop)
+  startSec?: number;      // Play-time of the first frame (default 0)
+};
+
+/** Resolved values for one frame, after priority/layer blending (before continuum collapsing). */
+export type RenderedFrame = {
+  index: number;
+  time: number;                       // Play-time in seconds
+  aus: Record<number, number>;        // AU id → 0-1
+  visemes: Record<number, number>;    // Viseme index → 0-1
+  morphs: Record<string, number>;     // Named morph curves → 0-1
+  snippetTimes: Record<string, number>; // Local time of every active snippet
+};
+
+export type RenderedTimeline = {
+  fps: number;
+  startSec: number;
+  durationSec: number;
+  frames: RenderedFrame[];
+};
+
 // ---------- Baked Animation Engine Interface ----------
 
 /**
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createActor } from 'xstate';
+import { backchannelMachine } from '../backchannelMachine';
+import { BackchannelScheduler } from '../backchannelScheduler';
+import type { BackchannelEvent } from '../types';
+
+/**
+ * Tests for when the listener responds.
+ *
+ * Math.random is 0.5: every pause is answered with a nod (never "mm-hm") and there
+ * is no jitter. Timing defaults: 400 ms pause after at least 900 ms of speech.
+ */
+describe('BackchannelScheduler', () => {
+  let host: { scheduleSnippet: ReturnType<typeof vi.fn>; removeSnippet: ReturnType<typeof vi.fn> };
+  let onBackchannel: ReturnType<typeof vi.fn>;
+  let machine: ReturnType<typeof createActor<typeof backchannelMachine>>;
+  let scheduler: BackchannelScheduler;
+  let random: ReturnType<typeof vi.spyOn>;
+
+  const responses = () => onBackchannel.mock.calls.map(([e]) => e as BackchannelEvent);
+  const kinds = () => responses().map((e) => e.kind);
+
+  /** Word boundaries every 300 ms for `ms`, ending on the last one */
+  const speak = (ms: number) => {
+    for (let t = 0; t < ms; t += 300) {
+      scheduler.handleWordBoundary();
+      vi.advanceTimersByTime(300);
+    }
+    scheduler.handleWordBoundary();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(10_000);
+    random = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    machine = createActor(backchannelMachine).start();
+    host = { scheduleSnippet: vi.fn((s: { name: string }) => s.name), removeSnippet: vi.fn() };
+    onBackchannel = vi.fn();
+    scheduler = new BackchannelScheduler(machine, host, { onBackchannel });
+    scheduler.setListening(true);
+  });
+
+  afterEach(() => {
+    scheduler.dispose();
+    machine.stop();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('Pauses', () => {
+    it('should nod once the user has been silent for pauseMs', () => {
+      speak(900);
+      vi.advanceTimersByTime(399);
+      expect(responses()).toHaveLength(0);
+
+      vi.advanceTimersByTime(1);
+      expect(responses()).toEqual([expect.objectContaining({ kind: 'nod', reason: 'pause' })]);
+      expect(host.scheduleSnippet).toHaveBeenCalledWith(expect.objectContaining({
+        snippetCategory: 'backchannel',
+        mixerChannel: 'backchannel',
+      }));
+    });
+
+    it('should restart the pause on every word', () => {
+      speak(900);
+      vi.advanceTimersByTime(350);
+      scheduler.handleWordBoundary();
+      vi.advanceTimersByTime(399);
+      expect(responses()).toHaveLength(0);
+      vi.advanceTimersByTime(1);
+      expect(kinds()).toEqual(['nod']);
+    });
+
+    it('should not answer a pause after too little speech', () => {
+      speak(600);
+      vi.advanceTimersByTime(2000);
+      expect(responses()).toHaveLength(0);
+    });
+
+    it('should follow the configured timing', () => {
+      scheduler.setTiming({ pauseMs: 500, minSpeechMs: 600 });
+      speak(600);
+      vi.advanceTimersByTime(499);
+      expect(responses()).toHaveLength(0);
+      vi.advanceTimersByTime(1);
+      expect(kinds()).toEqual(['nod']);
+    });
+
+    it('should skip pauses that lose the draw', () => {
+      random.mockReturnValue(0.8); // Above pauseResponseProbability (0.7)
+      speak(900);
+      vi.advanceTimersByTime(1000);
+      expect(responses()).toHaveLength(0);
+    });
+
+    it('should sometimes answer with "mm-hm", but never twice in a row', () => {
+      const onVocalize = vi.fn();
+      scheduler = new BackchannelScheduler(machine, host, { onBackchannel, onVocalize });
+      scheduler.setListening(true);
+      machine.send({ type: 'SET_FREQUENCY', frequency: 30 });
+      random.mockReturnValue(0.1); // Below vocalRatio (0.25)
+
+      speak(900);
+      vi.advanceTimersByTime(400);
+      vi.advanceTimersByTime(2000); // Past the frequency cap
+      speak(900);
+      vi.advanceTimersByTime(400);
+
+      expect(kinds()).toEqual(['vocal', 'nod']);
+      expect(onVocalize).toHaveBeenCalledWith('mm-hm');
+    });
+
+    it('should respond to a final transcript without waiting for silence', () => {
+      speak(900);
+      scheduler.handleTranscript('and then we went home', true);
+      expect(kinds()).toEqual(['nod']);
+    });
+
+    it('should furrow at a pause after a question', () => {
+      speak(900);
+      scheduler.handleTranscript('do you think so', false);
+      vi.advanceTimersByTime(400);
+      expect(responses()).toEqual([expect.objectContaining({ kind: 'furrow', reason: 'question' })]);
+    });
+  });
+
+  describe('Microphone', () => {
+    it('should time pauses from the microphone level', () => {
+      for (let t = 0; t <= 900; t += 100) {
+        scheduler.notifyLevel(0.5);
+        if (t < 900) vi.advanceTimersByTime(100);
+      }
+      scheduler.notifyLevel(0.1); // Below speechLevel: silence
+      vi.advanceTimersByTime(399);
+      expect(responses()).toHaveLength(0);
+      vi.advanceTimersByTime(1);
+      expect(kinds()).toEqual(['nod']);
+    });
+
+    it('should ignore word boundaries while the microphone is fresh', () => {
+      for (let t = 0; t <= 900; t += 100) {
+        scheduler.notifyLevel(0.5);
+        if (t < 900) vi.advanceTimersByTime(100);
+      }
+      vi.advanceTimersByTime(200);
+      scheduler.handleWordBoundary(); // Late recognizer event; the mic already heard silence
+      vi.advanceTimersByTime(200);
+      expect(kinds()).toEqual(['nod']);
+    });
+  });
+
+  describe('Sentiment', () => {
+    it('should mirror a positive transcript with a smile once per phrase', () => {
+      machine.send({ type: 'SET_FREQUENCY', frequency: 30 });
+      scheduler.setTiming({ pauseMs: 5000 }); // One phrase, past the frequency cap
+      scheduler.handleTranscript('that was great', false);
+      vi.advanceTimersByTime(3000);
+      scheduler.handleTranscript('that was great, really amazing', false);
+      expect(responses()).toEqual([expect.objectContaining({ kind: 'smile', reason: 'sentiment' })]);
+    });
+
+    it('should not smile at negative or neutral transcripts', () => {
+      scheduler.handleTranscript('that was not great', false);
+      scheduler.handleTranscript('I went to the shop', false);
+      expect(kinds()).not.toContain('smile');
+    });
+  });
+
+  describe('Limits', () => {
+    it('should cap responses by frequency', () => {
+      // 8 per minute: one every 7.5 s
+      speak(900);
+      vi.advanceTimersByTime(400);
+      speak(900);
+      vi.advanceTimersByTime(400);
+      expect(kinds()).toEqual(['nod']);
+
+      vi.advanceTimersByTime(7500);
+      speak(900);
+      vi.advanceTimersByTime(400);
+      expect(kinds()).toEqual(['nod', 'nod']);
+    });
+
+    it('should only respond while listening', () => {
+      scheduler.setListening(false);
+      speak(900);
+      scheduler.handleTranscript('that was great', true);
+      vi.advanceTimersByTime(1000);
+      expect(responses()).toHaveLength(0);
+    });
+
+    it('should drop a pending pause when listening stops', () => {
+      speak(900);
+      scheduler.setListening(false);
+      vi.advanceTimersByTime(1000);
+      expect(responses()).toHaveLength(0);
+    });
+
+    it('should respect disabled behaviors, but not for manual triggers', () => {
+      machine.send({ type: 'SET_BEHAVIOR', kind: 'nod', enabled: false });
+      machine.send({ type: 'SET_BEHAVIOR', kind: 'vocal', enabled: false });
+      speak(900);
+      vi.advanceTimersByTime(400);
+      expect(responses()).toHaveLength(0);
+
+      scheduler.trigger('nod');
+      expect(responses()).toEqual([expect.objectContaining({ kind: 'nod', reason: 'manual' })]);
+    });
+
+    it('should remove each response snippet when it ends', () => {
+      scheduler.trigger('nod'); // 0.8 s
+      const [[{ name }]] = host.scheduleSnippet.mock.calls;
+      vi.advanceTimersByTime(899);
+      expect(host.removeSnippet).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(host.removeSnippet).toHaveBeenCalledWith(name);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { scoreSentiment, isQuestion } from '../listenerCues';
+
+/**
+ * Tests for reading sentiment and question form from unpunctuated transcripts.
+ *
+ * One valenced word scores 0.34 + 1/3 of its valence; three or more score in full.
+ */
+describe('listenerCues', () => {
+  const ONE_WORD = 1 / 3 + 0.34;
+
+  describe('scoreSentiment', () => {
+    it('should score valenced words', () => {
+      expect(scoreSentiment('that is good')).toBeCloseTo(ONE_WORD);
+      expect(scoreSentiment('that is awful')).toBeCloseTo(-ONE_WORD);
+    });
+
+    it('should grow more confident with more valenced words', () => {
+      expect(scoreSentiment('great news, I love it, amazing')).toBe(1);
+      expect(scoreSentiment('bad, sad and boring')).toBe(-1);
+    });
+
+    it('should average mixed sentiment', () => {
+      expect(scoreSentiment('good and bad')).toBe(0);
+    });
+
+    it('should score neutral text as 0', () => {
+      expect(scoreSentiment('I went to the shop')).toBe(0);
+      expect(scoreSentiment('')).toBe(0);
+    });
+
+    it('should flip and soften words after a negator', () => {
+      expect(scoreSentiment('not good')).toBeCloseTo(-ONE_WORD / 2);
+      expect(scoreSentiment('not bad')).toBeCloseTo(ONE_WORD / 2);
+      expect(scoreSentiment("I don't like it")).toBeCloseTo(-ONE_WORD / 2);
+    });
+
+    it('should only negate the next two words', () => {
+      expect(scoreSentiment('never so very good')).toBeCloseTo(ONE_WORD);
+      expect(scoreSentiment('never so good')).toBeCloseTo(-ONE_WORD / 2);
+    });
+
+    it('should ignore case and punctuation', () => {
+      expect(scoreSentiment('GOOD!!!')).toBeCloseTo(ONE_WORD);
+    });
+  });
+
+  describe('isQuestion', () => {
+    it('should accept a question mark', () => {
+      expect(isQuestion('you went there?')).toBe(true);
+      expect(isQuestion('you went there? ')).toBe(true);
+    });
+
+    it('should accept question openings without punctuation', () => {
+      expect(isQuestion('what time is it')).toBe(true);
+      expect(isQuestion('Do you like it')).toBe(true);
+      expect(isQuestion("didn't you say so")).toBe(true);
+    });
+
+    it('should accept tag questions', () => {
+      expect(isQuestion("it's nice, right")).toBe(true);
+      expect(isQuestion('that was fun, you know')).toBe(true);
+    });
+
+    it('should not match question words inside other words', () => {
+      expect(isQuestion('whatever happens')).toBe(false);
+      expect(isQuestion('island life is great')).toBe(false);
+      expect(isQuestion('that is alright')).toBe(false);
+    });
+
+    it('should reject statements and empty text', () => {
+      expect(isQuestion('I went home.')).toBe(false);
+      expect(isQuestion('   ')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Backchannel State Machine
+ *
+ * XState machine for managing listener behaviour settings.
+ * Part of the latticework agency architecture.
+ */
+
+import { setup, assign } from 'xstate';
+import { BackchannelContext, BackchannelMachineEvent, DEFAULT_BACKCHANNEL_STATE } from './types';
+
+export const backchannelMachine = setup({
+  types: {
+    context: {} as BackchannelContext,
+    events: {} as BackchannelMachineEvent,
+  },
+  actions: {
+    enable: assign({
+      state: ({ context }) => ({
+        ...context.state,
+        enabled: true,
+      }),
+    }),
+
+    disable: assign({
+      state: ({ context }) => ({
+        ...context.state,
+        enabled: false,
+      }),
+    }),
+
+    setFrequency: assign({
+      state: ({ context, event }) => {
+        if (event.type !== 'SET_FREQUENCY') return context.state;
+        return {
+          ...context.state,
+          frequency: Math.max(0, Math.min(30, event.frequency)), // Clamp 0-30 per minute
+        };
+      },
+    }),
+
+    setIntensity: assign({
+      state: ({ context, event }) => {
+        if (event.type !== 'SET_INTENSITY') return context.state;
+        return {
+          ...context.state,
+          intensity: Math.max(0, Math.min(1, event.intensity)), // Clamp 0-1
+        };
+      },
+    }),
+
+    setRandomness: assign({
+      state: ({ context, event }) => {
+        if (event.type !== 'SET_RANDOMNESS') return context.state;
+        return {
+          ...context.state,
+          randomness: Math.max(0, Math.min(1, event.randomness)), // Clamp 0-1
+        };
+      },
+    }),
+
+    setBehavior: assign({
+      state: ({ context, event }) => {
+        if (event.type !== 'SET_BEHAVIOR') return context.state;
+        return {
+          ...context.state,
+          behaviors: { ...context.state.behaviors, [event.kind]: event.enabled },
+        };
+      },
+    }),
+
+    recordBackchannel: assign({
+      lastBackchannelTime: () => Date.now(),
+      lastKind: ({ context, event }) => (event.type === 'RECORD_BACKCHANNEL' ? event.kind : context.lastKind),
+      backchannelCount: ({ context }) => context.backchannelCount + 1,
+    }),
+
+    resetToDefault: assign({
+      state: () => ({
+        ...DEFAULT_BACKCHANNEL_STATE,
+        behaviors: { ...DEFAULT_BACKCHANNEL_STATE.behaviors },
+      }),
+      lastBackchannelTime: null,
+      lastKind: null,
+      backchannelCount: 0,
+    }),
+  },
+}).createMachine({
+  id: 'backchannel',
+  initial: 'idle',
+  context: {
+    state: {
+      ...DEFAULT_BACKCHANNEL_STATE,
+      behaviors: { ...DEFAULT_BACKCHANNEL_STATE.behaviors },
+    },
+    lastBackchannelTime: null,
+    lastKind: null,
+    backchannelCount: 0,
+  },
+  states: {
+    idle: {
+      on: {
+        ENABLE: {
+          actions: 'enable',
+        },
+        DISABLE: {
+          actions: 'disable',
+        },
+        SET_FREQUENCY: {
+          actions: 'setFrequency',
+        },
+        SET_INTENSITY: {
+          actions: 'setIntensity',
+        },
+        SET_RANDOMNESS: {
+          actions: 'setRandomness',
+        },
+        SET_BEHAVIOR: {
+          actions: 'setBehavior',
+        },
+        RECORD_BACKCHANNEL: {
+          actions: 'recordBackchannel',
+        },
+        RESET_TO_DEFAULT: {
+          actions: 'resetToDefault',
+        },
+      },
+    },
+  },
+});
+
+export type BackchannelMachine = typeof backchannelMachine;
@@ -0,0 +1,350 @@
+/**
+ * Backchannel Scheduler
+ * Decides when the listening avatar responds and schedules the response snippets
+ * Follows the Animation Agency pattern
+ *
+ * Speech activity comes from microphone energy when a microphone is attached, otherwise
+ * from transcript updates and word boundaries. A pause after a stretch of speech is the
+ * main opportunity to respond (nod or "mm-hm"; a brow furrow if the user asked something),
+ * and a positive transcript is mirrored with a smile. Responses are capped by frequency.
+ */
+
+import { isQuestion, scoreSentiment } from './listenerCues';
+import { DEFAULT_BACKCHANNEL_TIMING } from './types';
+import type {
+  BackchannelCallbacks,
+  BackchannelKind,
+  BackchannelReason,
+  BackchannelState,
+  BackchannelTiming,
+} from './types';
+
+export interface BackchannelHostCaps {
+  scheduleSnippet: (snippet: any) => string | null;
+  removeSnippet: (name: string) => void;
+}
+
+type Curves = Record<string, Array<{ time: number; intensity: number }>>;
+
+/** Recent microphone activity wins over transcript timing for pause detection */
+const MIC_FRESH_MS = 1000;
+const VOCAL_UTTERANCE = 'mm-hm';
+
+export class BackchannelScheduler {
+  private machine: any;
+  private host: BackchannelHostCaps;
+  private callbacks: BackchannelCallbacks;
+  private timing: BackchannelTiming;
+
+  private listening = false;
+  private speechStartTime: number | null = null;
+  private lastActivityTime = 0;
+  private lastMicSpeechTime = -Infinity;
+  private pauseTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Current phrase (since the last pause response)
+  private transcript = '';
+  private smiledThisPhrase = false;
+
+  private nextAllowedTime = 0;
+  private snippetCounter = 0;
+  private activeSnippets = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(
+    machine: any,
+    host: BackchannelHostCaps,
+    callbacks: BackchannelCallbacks = {},
+    timing: Partial<BackchannelTiming> = {}
+  ) {
+    this.machine = machine;
+    this.host = host;
+    this.callbacks = callbacks;
+    this.timing = { ...DEFAULT_BACKCHANNEL_TIMING, ...timing };
+  }
+
+  /**
+   * Start/stop listening to the user (responses only happen while listening)
+   */
+  public setListening(listening: boolean): void {
+    if (this.listening === listening) return;
+    this.listening = listening;
+    this.clearPauseTimer();
+    this.speechStartTime = null;
+    this.resetPhrase();
+  }
+
+  public isListening(): boolean {
+    return this.listening;
+  }
+
+  /**
+   * Interim or final transcript of the user's current phrase
+   */
+  public handleTranscript(transcript: string, isFinal: boolean): void {
+    if (!this.listening) return;
+
+    this.transcript = transcript;
+    if (!this.micIsFresh()) this.markActivity();
+
+    // Mirror positive sentiment once per phrase
+    if (!this.smiledThisPhrase && scoreSentiment(transcript) >= this.timing.smileThreshold) {
+      if (this.respond('smile', 'sentiment')) this.smiledThisPhrase = true;
+    }
+
+    // A final result closes the phrase - respond now rather than waiting for silence
+    if (isFinal) {
+      this.clearPauseTimer();
+      this.handlePause();
+    }
+  }
+
+  /**
+   * Word boundary from transcription (counts as speech activity without a microphone)
+   */
+  public handleWordBoundary(): void {
+    if (!this.listening || this.micIsFresh()) return;
+    this.markActivity();
+  }
+
+  /**
+   * Microphone level (0-1)
+   */
+  public notifyLevel(level: number): void {
+    if (!this.listening || level < this.timing.speechLevel) return;
+    this.lastMicSpeechTime = Date.now();
+    this.markActivity();
+  }
+
+  /**
+   * Produce a backchannel now (bypasses the frequency cap)
+   */
+  public trigger(kind: BackchannelKind, intensity?: number): void {
+    this.respond(kind, 'manual', intensity, true);
+  }
+
+  /**
+   * Update timing constants
+   */
+  public setTiming(timing: Partial<BackchannelTiming>): void {
+    this.timing = { ...this.timing, ...timing };
+  }
+
+  public getTiming(): BackchannelTiming {
+    return { ...this.timing };
+  }
+
+  private micIsFresh(): boolean {
+    return Date.now() - this.lastMicSpeechTime < MIC_FRESH_MS;
+  }
+
+  private markActivity(): void {
+    const now = Date.now();
+    if (this.speechStartTime === null) this.speechStartTime = now;
+    this.lastActivityTime = now;
+
+    this.clearPauseTimer();
+    this.pauseTimer = setTimeout(() => {
+      this.pauseTimer = null;
+      this.handlePause();
+    }, this.timing.pauseMs);
+  }
+
+  /**
+   * The user paused: nod, "mm-hm", or furrow at a question
+   */
+  private handlePause(): void {
+    const start = this.speechStartTime;
+    this.speechStartTime = null;
+    const transcript = this.transcript;
+    this.resetPhrase();
+
+    if (!this.listening || start === null) return;
+    if (this.lastActivityTime - start < this.timing.minSpeechMs) return;
+
+    if (isQuestion(transcript)) {
+      this.respond('furrow', 'question');
+      return;
+    }
+
+    const state = this.getState();
+    if (Math.random() > this.timing.pauseResponseProbability) return;
+
+    // Vocal "mm-hm"s are rarer and never back to back
+    const lastKind = this.machine.getSnapshot()?.context?.lastKind as BackchannelKind | null;
+    const wantsVocal = state.behaviors.vocal && lastKind !== 'vocal' && Math.random() < this.timing.vocalRatio;
+    this.respond(wantsVocal || !state.behaviors.nod ? 'vocal' : 'nod', 'pause');
+  }
+
+  /**
+   * Schedule a response if enabled, allowed and not capped. Returns whether it was produced.
+   */
+  private respond(kind: BackchannelKind, reason: BackchannelReason, intensity?: number, force = false): boolean {
+    const state = this.getState();
+    if (!force && (!state.enabled || !state.behaviors[kind] || state.frequency <= 0)) return false;
+
+    const now = Date.now();
+    if (!force && now < this.nextAllowedTime) return false;
+
+    // Next response no sooner than the frequency allows, jittered by randomness
+    if (state.frequency > 0) {
+      const gap = (60000 / state.frequency) * (1 + (Math.random() - 0.5) * state.randomness);
+      this.nextAllowedTime = now + gap;
+    }
+
+    const variation = 1 + (Math.random() - 0.5) * state.randomness * 0.5;
+    const level = Math.max(0, Math.min(1, (intensity ?? state.intensity) * variation));
+    const { curves, maxTime } = this.buildCurves(kind);
+    this.scheduleSnippet(kind, curves, maxTime, level);
+
+    this.machine.send({ type: 'RECORD_BACKCHANNEL', kind });
+    this.callbacks.onBackchannel?.({
+      kind,
+      reason,
+      intensity: level,
+      utterance: kind === 'vocal' ? VOCAL_UTTERANCE : undefined,
+      timestamp: now,
+    });
+    if (kind === 'vocal') {
+      this.callbacks.onVocalize?.(VOCAL_UTTERANCE);
+    }
+    return true;
+  }
+
+  /**
+   * Curves for each response (intensities at full strength, times in seconds)
+   */
+  private buildCurves(kind: BackchannelKind): { curves: Curves; maxTime: number } {
+    switch (kind) {
+      case 'nod':
+        return {
+          curves: {
+            '54': [
+              { time: 0, intensity: 0 },
+              { time: 0.18, intensity: 0.35 },
+              { time: 0.42, intensity: 0.05 },
+              { time: 0.58, intensity: 0.15 },
+              { time: 0.8, intensity: 0 },
+            ],
+          },
+          maxTime: 0.8,
+        };
+
+      case 'vocal':
+        // Two quick nods with closed, pressed lips: "mm-hm"
+        return {
+          curves: {
+            '54': [
+              { time: 0, intensity: 0 },
+              { time: 0.15, intensity: 0.25 },
+              { time: 0.3, intensity: 0.05 },
+              { time: 0.45, intensity: 0.2 },
+              { time: 0.7, intensity: 0 },
+            ],
+            '24': [
+              { time: 0, intensity: 0 },
+              { time: 0.1, intensity: 0.4 },
+              { time: 0.28, intensity: 0.25 },
+              { time: 0.4, intensity: 0.4 },
+              { time: 0.65, intensity: 0 },
+            ],
+          },
+          maxTime: 0.7,
+        };
+
+      case 'smile': {
+        const hold = this.timing.smileHoldMs / 1000;
+        return {
+          curves: {
+            '12': [
+              { time: 0, intensity: 0 },
+              { time: 0.4, intensity: 0.5 },
+              { time: 0.4 + hold, intensity: 0.45 },
+              { time: 1.0 + hold, intensity: 0 },
+            ],
+            '6': [
+              { time: 0, intensity: 0 },
+              { time: 0.5, intensity: 0.25 },
+              { time: 0.4 + hold, intensity: 0.2 },
+              { time: 1.0 + hold, intensity: 0 },
+            ],
+          },
+          maxTime: 1.0 + hold,
+        };
+      }
+
+      case 'furrow':
+        // Knit brows with a slight curious tilt
+        return {
+          curves: {
+            '4': [
+              { time: 0, intensity: 0 },
+              { time: 0.25, intensity: 0.45 },
+              { time: 1.0, intensity: 0.4 },
+              { time: 1.4, intensity: 0 },
+            ],
+            '55': [
+              { time: 0, intensity: 0 },
+              { time: 0.35, intensity: 0.15 },
+              { time: 1.0, intensity: 0.15 },
+              { time: 1.4, intensity: 0 },
+            ],
+          },
+          maxTime: 1.4,
+        };
+    }
+  }
+
+  private scheduleSnippet(kind: BackchannelKind, curves: Curves, maxTime: number, intensity: number): void {
+    const name = `backchannel:${kind}_${++this.snippetCounter}`;
+    const scheduledName = this.host.scheduleSnippet({
+      name,
+      curves,
+      maxTime,
+      loop: false,
+      snippetCategory: 'backchannel',
+      snippetPriority: 3,
+      snippetPlaybackRate: 1.0,
+      snippetIntensityScale: intensity,
+      snippetBlendMode: 'additive' as const,
+      // Own additive layer, so listener responses add to emotion and head tracking
+      mixerChannel: 'backchannel',
+      mixerBlendMode: 'additive' as const,
+    });
+    if (!scheduledName) return;
+
+    const timer = setTimeout(() => {
+      this.activeSnippets.delete(scheduledName);
+      this.host.removeSnippet(scheduledName);
+    }, maxTime * 1000 + 100);
+    this.activeSnippets.set(scheduledName, timer);
+  }
+
+  private getState(): BackchannelState {
+    return this.machine.getSnapshot().context.state;
+  }
+
+  private resetPhrase(): void {
+    this.transcript = '';
+    this.smiledThisPhrase = false;
+  }
+
+  private clearPauseTimer(): void {
+    if (this.pauseTimer) {
+      clearTimeout(this.pauseTimer);
+      this.pauseTimer = null;
+    }
+  }
+
+  /**
+   * Cleanup
+   */
+  public dispose(): void {
+    this.listening = false;
+    this.clearPauseTimer();
+    this.activeSnippets.forEach((timer, name) => {
+      clearTimeout(timer);
+      this.host.removeSnippet(name);
+    });
+    this.activeSnippets.clear();
+  }
+}
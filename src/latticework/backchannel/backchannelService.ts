@@ -0,0 +1,353 @@
+/**
+ * Backchannel Service
+ * Listener behaviour while the user talks: nods at pauses, mirrored smiles,
+ * brow furrows on questions and "mm-hm"s
+ * Follows the Animation Agency architecture pattern
+ */
+
+import { createActor } from 'xstate';
+import { backchannelMachine } from './backchannelMachine';
+import { BackchannelScheduler } from './backchannelScheduler';
+import type { BackchannelHostCaps } from './backchannelScheduler';
+import type { BackchannelCallbacks, BackchannelKind, BackchannelState, BackchannelTiming } from './types';
+
+export type BackchannelMicrophone = MediaStream | MediaStreamTrack;
+
+export interface BackchannelServiceAPI {
+  enable: () => void;
+  disable: () => void;
+  setFrequency: (frequency: number) => void;
+  setIntensity: (intensity: number) => void;
+  setRandomness: (randomness: number) => void;
+  setBehavior: (kind: BackchannelKind, enabled: boolean) => void;
+  setTiming: (timing: Partial<BackchannelTiming>) => void;
+  setListening: (isListening: boolean) => void;
+  handleTranscript: (transcript: string, isFinal: boolean) => void;
+  handleWordBoundary: (word?: string) => void;
+  notifyLevel: (level: number) => void;
+  attachMicrophone: (source: BackchannelMicrophone) => void;
+  detachMicrophone: () => void;
+  trigger: (kind: BackchannelKind, intensity?: number) => void;
+  reset: () => void;
+  getState: () => BackchannelState;
+  subscribe: (callback: (state: BackchannelState) => void) => () => void;
+  dispose: () => void;
+}
+
+const FFT_SIZE = 1024;
+
+/**
+ * Create a Backchannel Service with XState machine and scheduler
+ */
+export function createBackchannelService(
+  hostCaps?: BackchannelHostCaps,
+  callbacks: BackchannelCallbacks = {},
+  timing: Partial<BackchannelTiming> = {}
+): BackchannelServiceAPI {
+  // Create XState machine
+  const machine = createActor(backchannelMachine).start();
+
+  // Host capabilities (animation service integration)
+  const host: BackchannelHostCaps = hostCaps ?? {
+    scheduleSnippet: (snippet: any) => {
+      // Fallback: Try to use global animation service
+      if (typeof window !== 'undefined') {
+        const anim = (window as any).anim;
+        if (anim && typeof anim.schedule === 'function') {
+          return anim.schedule(snippet);
+        }
+      }
+      console.warn('[BackchannelService] No animation service available for scheduling');
+      return null;
+    },
+    removeSnippet: (name: string) => {
+      if (typeof window !== 'undefined') {
+        const anim = (window as any).anim;
+        if (anim && typeof anim.remove === 'function') {
+          anim.remove(name);
+        }
+      }
+    },
+  };
+
+  const scheduler = new BackchannelScheduler(machine, host, callbacks, timing);
+
+  // Subscribers for state changes
+  const subscribers = new Set<(state: BackchannelState) => void>();
+  machine.subscribe((snapshot) => {
+    const state = snapshot.context.state;
+    subscribers.forEach((callback) => callback(state));
+  });
+
+  // Microphone energy (RMS → 0-1 level between the silence and speech thresholds)
+  let audioContext: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let sourceNode: MediaStreamAudioSourceNode | null = null;
+  let micTimer: ReturnType<typeof setInterval> | null = null;
+  const timeData = new Float32Array(FFT_SIZE);
+
+  const micTick = () => {
+    if (!analyser) return;
+    analyser.getFloatTimeDomainData(timeData);
+    let sum = 0;
+    for (let i = 0; i < timeData.length; i++) sum += timeData[i] * timeData[i];
+    const db = 10 * Math.log10(sum / timeData.length + 1e-10);
+    const { silenceDb, speechDb } = scheduler.getTiming();
+    scheduler.notifyLevel(Math.min(1, Math.max(0, (db - silenceDb) / (speechDb - silenceDb))));
+  };
+
+  const api: BackchannelServiceAPI = {
+    /**
+     * Enable listener behaviour
+     */
+    enable(): void {
+      machine.send({ type: 'ENABLE' });
+    },
+
+    /**
+     * Disable listener behaviour
+     */
+    disable(): void {
+      machine.send({ type: 'DISABLE' });
+    },
+
+    /**
+     * Set the most backchannels per minute
+     */
+    setFrequency(frequency: number): void {
+      machine.send({ type: 'SET_FREQUENCY', frequency });
+    },
+
+    /**
+     * Set response intensity (0-1)
+     */
+    setIntensity(intensity: number): void {
+      machine.send({ type: 'SET_INTENSITY', intensity });
+    },
+
+    /**
+     * Set randomness factor (0-1)
+     */
+    setRandomness(randomness: number): void {
+      machine.send({ type: 'SET_RANDOMNESS', randomness });
+    },
+
+    /**
+     * Allow or suppress one kind of response
+     */
+    setBehavior(kind: BackchannelKind, enabled: boolean): void {
+      machine.send({ type: 'SET_BEHAVIOR', kind, enabled });
+    },
+
+    /**
+     * Update pause detection and response timing
+     */
+    setTiming(newTiming: Partial<BackchannelTiming>): void {
+      scheduler.setTiming(newTiming);
+    },
+
+    /**
+     * The avatar started/stopped listening to the user
+     */
+    setListening(isListening: boolean): void {
+      scheduler.setListening(isListening);
+    },
+
+    /**
+     * Interim or final transcript from transcription
+     */
+    handleTranscript(transcript: string, isFinal: boolean): void {
+      scheduler.handleTranscript(transcript, isFinal);
+    },
+
+    /**
+     * Word boundary from transcription
+     */
+    handleWordBoundary(): void {
+      scheduler.handleWordBoundary();
+    },
+
+    /**
+     * Microphone level (0-1) from an external meter
+     */
+    notifyLevel(level: number): void {
+      scheduler.notifyLevel(level);
+    },
+
+    /**
+     * Measure the user's microphone energy directly (replaces any previous source)
+     */
+    attachMicrophone(source: BackchannelMicrophone): void {
+      api.detachMicrophone();
+
+      try {
+        audioContext = audioContext ?? new AudioContext();
+        analyser = audioContext.createAnalyser();
+        analyser.fftSize = FFT_SIZE;
+        const stream = source instanceof MediaStream ? source : new MediaStream([source]);
+        sourceNode = audioContext.createMediaStreamSource(stream);
+        sourceNode.connect(analyser);
+
+        if (audioContext.state === 'suspended') {
+          audioContext.resume().catch(() => {});
+        }
+        micTimer = setInterval(micTick, scheduler.getTiming().frameMs);
+      } catch (error) {
+        console.error('[BackchannelService] Failed to attach microphone:', error);
+        callbacks.onError?.(error as Error);
+        api.detachMicrophone();
+      }
+    },
+
+    /**
+     * Stop measuring microphone energy
+     */
+    detachMicrophone(): void {
+      if (micTimer) {
+        clearInterval(micTimer);
+        micTimer = null;
+      }
+      if (sourceNode) {
+        try {
+          sourceNode.disconnect();
+        } catch {
+          // Already disconnected
+        }
+        sourceNode = null;
+      }
+      analyser = null;
+    },
+
+    /**
+     * Produce a backchannel now
+     */
+    trigger(kind: BackchannelKind, intensity?: number): void {
+      scheduler.trigger(kind, intensity);
+    },
+
+    /**
+     * Reset to default state
+     */
+    reset(): void {
+      machine.send({ type: 'RESET_TO_DEFAULT' });
+    },
+
+    /**
+     * Get current backchannel state
+     */
+    getState(): BackchannelState {
+      return machine.getSnapshot().context.state;
+    },
+
+    /**
+     * Subscribe to state changes
+     */
+    subscribe(callback: (state: BackchannelState) => void): () => void {
+      subscribers.add(callback);
+      return () => subscribers.delete(callback);
+    },
+
+    /**
+     * Cleanup and release resources
+     */
+    dispose(): void {
+      api.detachMicrophone();
+      audioContext?.close().catch(() => {});
+      audioContext = null;
+      scheduler.dispose();
+      subscribers.clear();
+      try {
+        machine.stop();
+      } catch {
+        // Ignore errors on cleanup
+      }
+    },
+  };
+
+  return api;
+}
+
+// For class-based usage
+export class BackchannelService {
+  private api: BackchannelServiceAPI;
+
+  constructor(
+    hostCaps?: BackchannelHostCaps,
+    callbacks: BackchannelCallbacks = {},
+    timing: Partial<BackchannelTiming> = {}
+  ) {
+    this.api = createBackchannelService(hostCaps, callbacks, timing);
+  }
+
+  public enable(): void {
+    this.api.enable();
+  }
+
+  public disable(): void {
+    this.api.disable();
+  }
+
+  public setFrequency(frequency: number): void {
+    this.api.setFrequency(frequency);
+  }
+
+  public setIntensity(intensity: number): void {
+    this.api.setIntensity(intensity);
+  }
+
+  public setRandomness(randomness: number): void {
+    this.api.setRandomness(randomness);
+  }
+
+  public setBehavior(kind: BackchannelKind, enabled: boolean): void {
+    this.api.setBehavior(kind, enabled);
+  }
+
+  public setTiming(timing: Partial<BackchannelTiming>): void {
+    this.api.setTiming(timing);
+  }
+
+  public setListening(isListening: boolean): void {
+    this.api.setListening(isListening);
+  }
+
+  public handleTranscript(transcript: string, isFinal: boolean): void {
+    this.api.handleTranscript(transcript, isFinal);
+  }
+
+  public handleWordBoundary(word?: string): void {
+    this.api.handleWordBoundary(word);
+  }
+
+  public notifyLevel(level: number): void {
+    this.api.notifyLevel(level);
+  }
+
+  public attachMicrophone(source: BackchannelMicrophone): void {
+    this.api.attachMicrophone(source);
+  }
+
+  public detachMicrophone(): void {
+    this.api.detachMicrophone();
+  }
+
+  public trigger(kind: BackchannelKind, intensity?: number): void {
+    this.api.trigger(kind, intensity);
+  }
+
+  public reset(): void {
+    this.api.reset();
+  }
+
+  public getState(): BackchannelState {
+    return this.api.getState();
+  }
+
+  public subscribe(callback: (state: BackchannelState) => void): () => void {
+    return this.api.subscribe(callback);
+  }
+
+  public dispose(): void {
+    this.api.dispose();
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Backchannel Agency
+ * Exports machine, scheduler, service, cues, and types
+ */
+
+export { backchannelMachine } from './backchannelMachine';
+export { BackchannelScheduler } from './backchannelScheduler';
+export type { BackchannelHostCaps } from './backchannelScheduler';
+export { createBackchannelService, BackchannelService } from './backchannelService';
+export type { BackchannelServiceAPI, BackchannelMicrophone } from './backchannelService';
+export { scoreSentiment, isQuestion } from './listenerCues';
+export type {
+  BackchannelKind,
+  BackchannelReason,
+  BackchannelState,
+  BackchannelEvent,
+  BackchannelCallbacks,
+  BackchannelTiming,
+} from './types';
+export { DEFAULT_BACKCHANNEL_STATE, DEFAULT_BACKCHANNEL_TIMING } from './types';
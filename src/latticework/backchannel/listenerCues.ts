@@ -0,0 +1,72 @@
+/**
+ * Listener Cues
+ * Lightweight reading of the user's running transcript: sentiment and question form
+ *
+ * Interim speech-recognition results arrive without reliable punctuation, so both checks
+ * work on words alone. A small valence lexicon is enough to decide when to mirror a smile.
+ */
+
+const POSITIVE = new Set([
+  'good', 'great', 'awesome', 'amazing', 'wonderful', 'fantastic', 'excellent', 'nice', 'love',
+  'loved', 'like', 'liked', 'happy', 'glad', 'fun', 'funny', 'excited', 'exciting', 'beautiful',
+  'perfect', 'cool', 'thanks', 'thank', 'yes', 'yay', 'enjoy', 'enjoyed', 'best', 'better',
+  'brilliant', 'delighted', 'lovely', 'sweet', 'wow', 'haha', 'lol', 'congratulations', 'won',
+  'win', 'success', 'proud', 'interesting', 'hope', 'fine',
+]);
+
+const NEGATIVE = new Set([
+  'bad', 'terrible', 'awful', 'horrible', 'hate', 'hated', 'sad', 'angry', 'upset', 'annoyed',
+  'annoying', 'worst', 'worse', 'boring', 'tired', 'sick', 'hurt', 'pain', 'problem', 'problems',
+  'wrong', 'sorry', 'unfortunately', 'lost', 'lose', 'failed', 'fail', 'difficult', 'hard',
+  'worried', 'scared', 'afraid', 'stressed', 'died', 'broke', 'broken', 'miss', 'missed',
+]);
+
+const NEGATORS = /^(not|never|no|don't|doesn't|didn't|isn't|wasn't|aren't|can't|won't|hardly)$/;
+
+const QUESTION_START = /^(what|where|when|who|whom|whose|why|how|which|is|are|was|were|do|does|did|can|could|would|will|should|shall|may|might|have|has|had|am|isn't|aren't|don't|doesn't|didn't|won't|can't)\b/i;
+const TAG_QUESTION = /\b(right|isn't it|aren't you|don't you|didn't you|won't you|you know)\??$/i;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9'\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 0);
+}
+
+/**
+ * Sentiment of a transcript, -1 (negative) to 1 (positive)
+ * A negator flips the next two words ("not bad" reads as mildly positive).
+ */
+export function scoreSentiment(text: string): number {
+  const words = tokenize(text);
+  let score = 0;
+  let hits = 0;
+  let negateFor = 0;
+
+  for (const word of words) {
+    if (NEGATORS.test(word)) {
+      negateFor = 2;
+      continue;
+    }
+    const valence = POSITIVE.has(word) ? 1 : NEGATIVE.has(word) ? -1 : 0;
+    if (valence !== 0) {
+      score += negateFor > 0 ? -valence * 0.5 : valence;
+      hits++;
+    }
+    if (negateFor > 0) negateFor--;
+  }
+
+  if (hits === 0) return 0;
+  // More valenced words → more confident, saturating at 3
+  return Math.max(-1, Math.min(1, (score / hits) * Math.min(1, hits / 3 + 0.34)));
+}
+
+/**
+ * Whether a transcript reads as a question (explicit "?", question opening or tag question)
+ */
+export function isQuestion(text: string): boolean {
+  const trimmed = text.trim();
+  if (!trimmed) return false;
+  return trimmed.endsWith('?') || QUESTION_START.test(trimmed) || TAG_QUESTION.test(trimmed);
+}
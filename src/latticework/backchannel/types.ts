@@ -0,0 +1,141 @@
+/**
+ * Backchannel Agency Types
+ *
+ * Type definitions for listener behaviour (nods, smiles, brow furrows, "mm-hm").
+ * Part of the latticework agency architecture.
+ */
+
+/**
+ * Listener responses the agency can produce
+ * - nod: small head nod at a pause in the user's speech
+ * - smile: mirrored smile while the user says something positive
+ * - furrow: brow furrow when the user asks a question
+ * - vocal: "mm-hm" - a nod with a closed-lip hum shape (audio is up to the host)
+ */
+export type BackchannelKind = 'nod' | 'smile' | 'furrow' | 'vocal';
+
+/**
+ * What prompted a backchannel
+ */
+export type BackchannelReason = 'pause' | 'sentiment' | 'question' | 'manual';
+
+/**
+ * Backchannel state managed by the machine
+ */
+export interface BackchannelState {
+  /** Whether listener behaviour is produced at all */
+  enabled: boolean;
+
+  /** Upper bound on backchannels per minute (typical listeners: 4-10) */
+  frequency: number;
+
+  /** Intensity of every response (0-1) */
+  intensity: number;
+
+  /** Randomness factor (0-1, varies which pauses get a response and how strong it is) */
+  randomness: number;
+
+  /** Which responses are allowed */
+  behaviors: Record<BackchannelKind, boolean>;
+}
+
+/**
+ * A backchannel that was produced
+ */
+export interface BackchannelEvent {
+  kind: BackchannelKind;
+  reason: BackchannelReason;
+  intensity: number;
+  /** Text to voice for 'vocal' backchannels */
+  utterance?: string;
+  timestamp: number;
+}
+
+export interface BackchannelCallbacks {
+  /** A response was scheduled */
+  onBackchannel?: (event: BackchannelEvent) => void;
+  /** A vocal backchannel wants to be heard (play a clip or a quiet TTS "mm-hm") */
+  onVocalize?: (utterance: string) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Timing and detection constants
+ *
+ * Listeners respond mostly in the user's short pauses after a stretch of speech
+ * (Ward & Tsukahara 2000), and rarely twice in a row with the same response.
+ */
+export interface BackchannelTiming {
+  /** Silence this long (ms) after speech counts as a pause */
+  pauseMs: number;
+  /** The user must have spoken this long (ms) before a pause can be answered */
+  minSpeechMs: number;
+  /** Chance that a pause is answered (before the frequency cap) */
+  pauseResponseProbability: number;
+  /** Share of pause responses that are vocal "mm-hm"s */
+  vocalRatio: number;
+  /** Running transcript sentiment at or above this triggers a smile (-1..1) */
+  smileThreshold: number;
+  /** How long (ms) a mirrored smile is held */
+  smileHoldMs: number;
+  /** Microphone level (0-1) treated as speech */
+  speechLevel: number;
+  /** Microphone RMS level treated as silence (dB) */
+  silenceDb: number;
+  /** Microphone RMS level treated as full speech (dB) */
+  speechDb: number;
+  /** Microphone analysis interval (ms) */
+  frameMs: number;
+}
+
+export const DEFAULT_BACKCHANNEL_TIMING: BackchannelTiming = {
+  pauseMs: 400,
+  minSpeechMs: 900,
+  pauseResponseProbability: 0.7,
+  vocalRatio: 0.25,
+  smileThreshold: 0.4,
+  smileHoldMs: 1800,
+  speechLevel: 0.15,
+  silenceDb: -55,
+  speechDb: -25,
+  frameMs: 50,
+};
+
+/**
+ * Default backchannel state
+ */
+export const DEFAULT_BACKCHANNEL_STATE: BackchannelState = {
+  enabled: true,
+  frequency: 8, // Backchannels per minute at most
+  intensity: 0.8,
+  randomness: 0.3,
+  behaviors: {
+    nod: true,
+    smile: true,
+    furrow: true,
+    vocal: true,
+  },
+};
+
+/**
+ * Events for the backchannel machine
+ */
+export type BackchannelMachineEvent =
+  | { type: 'ENABLE' }
+  | { type: 'DISABLE' }
+  | { type: 'SET_FREQUENCY'; frequency: number }
+  | { type: 'SET_INTENSITY'; intensity: number }
+  | { type: 'SET_RANDOMNESS'; randomness: number }
+  | { type: 'SET_BEHAVIOR'; kind: BackchannelKind; enabled: boolean }
+  | { type: 'RECORD_BACKCHANNEL'; kind: BackchannelKind }
+  | { type: 'RESET_TO_DEFAULT' };
+
+/**
+ * Context for the backchannel machine
+ */
+export interface BackchannelContext {
+  state: BackchannelState;
+  lastBackchannelTime: number | null;
+  lastKind: BackchannelKind | null;
+  backchannelCount: number;
+}
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BlinkScheduler } from '../blinkScheduler';
+import type { BlinkKind } from '../types';
+
+/**
+ * Tests for speech- and gaze-synchronized blinking and the blink curves.
+ *
+ * Randomness is 0 and Math.random is stubbed, so every probability check and
+ * blink kind is chosen by the test. Blinks are read back from scheduleSnippet.
+ */
+describe('BlinkScheduler', () => {
+  type Key = { time: number; intensity: number };
+  type BlinkSnippet = { name: string; curves: { '43': Key[] }; maxTime: number; mixerChannel: string; snippetCategory: string };
+
+  let machine: { send: ReturnType<typeof vi.fn> };
+  let host: { scheduleSnippet: ReturnType<typeof vi.fn>; removeSnippet: ReturnType<typeof vi.fn> };
+  let scheduler: BlinkScheduler;
+  let random: ReturnType<typeof vi.spyOn>;
+
+  const blinks = () => host.scheduleSnippet.mock.calls.map(([s]) => s as BlinkSnippet);
+  const kinds = () => machine.send.mock.calls.map(([e]) => e.kind as BlinkKind);
+  const curveOf = (kind: BlinkKind) => {
+    scheduler.triggerBlink(undefined, undefined, kind);
+    return blinks().at(-1)!;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(10_000);
+    random = vi.spyOn(Math, 'random').mockReturnValue(0);
+    machine = { send: vi.fn() };
+    host = { scheduleSnippet: vi.fn((s: BlinkSnippet) => s.name), removeSnippet: vi.fn() };
+    scheduler = new BlinkScheduler(machine, host, {
+      duration: 0.2,
+      intensity: 1,
+      leftEyeIntensity: null,
+      rightEyeIntensity: null,
+      randomness: 0,
+      speechSync: true,
+    });
+  });
+
+  afterEach(() => {
+    scheduler.dispose();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('Word boundaries', () => {
+    it('should blink at the end of a word that closes a sentence', () => {
+      scheduler.setUtterance('Hello there. How are you?');
+      scheduler.notifyWordBoundary('there', 6);
+
+      // "there" is 5 chars at 65 ms/char
+      vi.advanceTimersByTime(324);
+      expect(blinks()).toHaveLength(0);
+      vi.advanceTimersByTime(1);
+      expect(blinks()).toHaveLength(1);
+    });
+
+    it('should make some sentence-end blinks double', () => {
+      scheduler.notifyWordBoundary('you?');
+      vi.advanceTimersByTime(1000);
+      expect(kinds()).toEqual(['double']);
+
+      random.mockReturnValueOnce(0).mockReturnValueOnce(0.5); // Blink, but not a double
+      vi.advanceTimersByTime(1000);
+      scheduler.notifyWordBoundary('you?');
+      vi.advanceTimersByTime(1000);
+      expect(kinds()).toEqual(['double', 'full']);
+    });
+
+    it('should blink with a single blink at a phrase break', () => {
+      scheduler.setUtterance('Well, maybe.');
+      scheduler.notifyWordBoundary('Well', 0);
+
+      vi.advanceTimersByTime(259);
+      expect(blinks()).toHaveLength(0);
+      vi.advanceTimersByTime(1);
+      expect(kinds()).toEqual(['full']);
+    });
+
+    it('should not blink inside a phrase', () => {
+      scheduler.setUtterance('How are you?');
+      scheduler.notifyWordBoundary('are', 4);
+      vi.advanceTimersByTime(1000);
+      expect(blinks()).toHaveLength(0);
+    });
+
+    it('should skip boundaries that lose the draw', () => {
+      random.mockReturnValue(0.6); // Above the phrase chance (0.5), below the sentence chance (0.8)
+      scheduler.notifyWordBoundary('well,');
+      vi.advanceTimersByTime(1000);
+      expect(blinks()).toHaveLength(0);
+
+      scheduler.notifyWordBoundary('done.');
+      vi.advanceTimersByTime(1000);
+      expect(blinks()).toHaveLength(1);
+    });
+
+    it('should not blink again within the refractory period', () => {
+      scheduler.triggerBlink();
+      vi.advanceTimersByTime(100);
+      scheduler.notifySentenceEnd();
+      expect(blinks()).toHaveLength(1);
+
+      vi.advanceTimersByTime(300);
+      scheduler.notifySentenceEnd();
+      expect(blinks()).toHaveLength(2);
+    });
+
+    it('should ignore speech while speech sync is off', () => {
+      scheduler.updateConfig({ speechSync: false });
+      scheduler.notifyWordBoundary('you?');
+      scheduler.notifySentenceEnd();
+      scheduler.notifyGazeShift(60);
+      vi.advanceTimersByTime(1000);
+      expect(blinks()).toHaveLength(0);
+    });
+  });
+
+  describe('Emphasis', () => {
+    it('should hold a spontaneous blink until an all-caps word is over', () => {
+      scheduler.start(60); // One blink a second
+      vi.advanceTimersByTime(900);
+      // 5 chars at 65 ms, plus the 150 ms hold: blocked until 1375 ms
+      scheduler.notifyWordBoundary('NEVER');
+
+      vi.advanceTimersByTime(474);
+      expect(blinks()).toHaveLength(0);
+      vi.advanceTimersByTime(1);
+      expect(blinks()).toHaveLength(1);
+    });
+
+    it('should hold blinks on words the analyzer stresses', () => {
+      scheduler.setUtterance('It is not that');
+      scheduler.start(60);
+      vi.advanceTimersByTime(900);
+      scheduler.notifyWordBoundary('not', 6); // 195 + 150 ms
+      vi.advanceTimersByTime(100);
+      expect(blinks()).toHaveLength(0);
+      vi.advanceTimersByTime(245);
+      expect(blinks()).toHaveLength(1);
+    });
+
+    it('should not hold blinks on unstressed words', () => {
+      scheduler.setUtterance('It is not that');
+      scheduler.start(60);
+      vi.advanceTimersByTime(900);
+      scheduler.notifyWordBoundary('is', 3);
+      vi.advanceTimersByTime(100);
+      expect(blinks()).toHaveLength(1);
+    });
+
+    it('should hold spontaneous blinks for an explicit emphasis', () => {
+      scheduler.start(60);
+      scheduler.inhibit(1500);
+      vi.advanceTimersByTime(1499);
+      expect(blinks()).toHaveLength(0);
+      vi.advanceTimersByTime(1);
+      expect(blinks()).toHaveLength(1);
+    });
+  });
+
+  describe('Gaze shifts', () => {
+    it('should never blink for shifts under the minimum amplitude', () => {
+      scheduler.notifyGazeShift(14.9);
+      expect(blinks()).toHaveLength(0);
+    });
+
+    it('should always blink for shifts at the full amplitude', () => {
+      random.mockReturnValue(0.999);
+      scheduler.notifyGazeShift(45);
+      expect(kinds()).toEqual(['full']);
+    });
+
+    it('should scale the chance between the two amplitudes', () => {
+      // 30° is halfway between 15° and 45°
+      random.mockReturnValue(0.6);
+      scheduler.notifyGazeShift(30);
+      expect(blinks()).toHaveLength(0);
+
+      random.mockReturnValue(0.4);
+      scheduler.notifyGazeShift(30);
+      expect(blinks()).toHaveLength(1);
+    });
+
+    it('should blink for large shifts even during emphasis', () => {
+      scheduler.inhibit(2000);
+      scheduler.notifyGazeShift(50);
+      expect(blinks()).toHaveLength(1);
+    });
+
+    it('should respect the refractory period', () => {
+      scheduler.notifyGazeShift(60);
+      scheduler.notifyGazeShift(60);
+      expect(blinks()).toHaveLength(1);
+    });
+  });
+
+  describe('Blink curves', () => {
+    const peakOf = (keys: Key[]) => Math.max(...keys.map((k) => k.intensity));
+    const isIncreasing = (keys: Key[]) => keys.every((k, i) => i === 0 || k.time > keys[i - 1].time);
+
+    it('should close fast, hold briefly and open slowly for a full blink', () => {
+      const { curves, maxTime } = curveOf('full');
+      const keys = curves['43'];
+
+      expect(maxTime).toBeCloseTo(0.2);
+      expect(keys[0]).toEqual({ time: 0, intensity: 0 });
+      expect(keys.at(-1)).toEqual({ time: maxTime, intensity: 0 });
+      expect(isIncreasing(keys)).toBe(true);
+      // Closed at 35% of the duration; reopening takes the remaining 55% after the hold
+      const closed = keys.find((k) => k.intensity === 100)!;
+      expect(closed.time).toBeCloseTo(0.07);
+    });
+
+    it('should make a half blink shallower and quicker', () => {
+      const { curves, maxTime } = curveOf('half');
+      const keys = curves['43'];
+
+      expect(maxTime).toBeCloseTo(0.16);
+      expect(peakOf(keys)).toBeCloseTo(50);
+      expect(keys.at(-1)).toEqual({ time: maxTime, intensity: 0 });
+      expect(keys.find((k) => k.intensity === peakOf(keys))!.time).toBeCloseTo(0.16 * 0.35);
+    });
+
+    it('should close twice in a double blink, half reopening in between', () => {
+      const { curves, maxTime } = curveOf('double');
+      const keys = curves['43'];
+
+      expect(maxTime).toBeCloseTo(0.34); // Second closure starts at 70% of the first
+      expect(isIncreasing(keys)).toBe(true);
+      expect(keys[0].intensity).toBe(0);
+      expect(keys.at(-1)).toEqual({ time: maxTime, intensity: 0 });
+
+      const peaks = keys.filter((k) => k.intensity === 100);
+      expect(peaks.map((k) => k.time)).toEqual([expect.closeTo(0.07), expect.closeTo(0.21)]);
+      const between = keys.filter((k) => k.time > peaks[0].time && k.time < peaks[1].time);
+      expect(Math.min(...between.map((k) => k.intensity))).toBeCloseTo(40);
+    });
+
+    it('should schedule blinks on the eyes channel and remove them when done', () => {
+      const snippet = curveOf('full');
+      expect(snippet).toMatchObject({ mixerChannel: 'eyes', snippetCategory: 'blink' });
+
+      vi.advanceTimersByTime(249);
+      expect(host.removeSnippet).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(host.removeSnippet).toHaveBeenCalledWith(snippet.name);
+    });
+  });
+});
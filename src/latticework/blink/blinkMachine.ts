@@ -94,6 +94,16 @@ export const blinkMachine = setup({
       },
     }),
 
+    setSpeechSync: assign({
+      state: ({ context, event }) => {
+        if (event.type !== 'SET_SPEECH_SYNC') return context.state;
+        return {
+          ...context.state,
+          speechSync: event.enabled,
+        };
+      },
+    }),
+
     recordBlinkTime: assign({
       lastBlinkTime: () => Date.now(),
       scheduledBlinkCount: ({ context }) => context.scheduledBlinkCount + 1,
@@ -140,6 +150,9 @@ export const blinkMachine = setup({
         SET_RIGHT_EYE_INTENSITY: {
           actions: 'setRightEyeIntensity',
         },
+        SET_SPEECH_SYNC: {
+          actions: 'setSpeechSync',
+        },
         TRIGGER_BLINK: {
           actions: 'recordBlinkTime',
         },
@@ -2,9 +2,14 @@
  * Blink Scheduler
  * Handles blink animation timing, curve building, and animation scheduling
  * Follows the Animation Agency pattern
+ *
+ * Besides the spontaneous rate, blinks follow the conversation: they land at phrase and
+ * sentence boundaries, accompany large gaze shifts and are held back on stressed words.
  */
 
-import type { BlinkSnippet } from './types';
+import { ProsodicAnalyzer } from '../lipsync/prosodicAnalyzer';
+import { DEFAULT_BLINK_SPEECH_TIMING } from './types';
+import type { BlinkConversationState, BlinkKind, BlinkSpeechTiming } from './types';
 
 export interface BlinkHostCaps {
   scheduleSnippet: (snippet: any) => string | null;
@@ -26,15 +31,44 @@ export interface BlinkSchedulerConfig {
 
   /** Randomness factor (0-1) */
   randomness: number;
+
+  /** React to speech and gaze events */
+  speechSync: boolean;
+
+  /** Speech/gaze timing constants */
+  timing?: Partial<BlinkSpeechTiming>;
+}
+
+/**
+ * Utterance being spoken, pre-analyzed so boundaries and emphasis are known per word
+ */
+interface UtterancePlan {
+  text: string;
+  emphasisWords: Set<number>;
 }
 
+const SENTENCE_END = /[.!?]/;
+const PHRASE_BOUNDARY = /[,;:\u2014]/;
+
 export class BlinkScheduler {
   private machine: any;
   private host: BlinkHostCaps;
   private config: BlinkSchedulerConfig;
+  private timing: BlinkSpeechTiming;
   private autoBlinkInterval: ReturnType<typeof setTimeout> | null = null;
   private isSchedulingBlink = false;
 
+  // Spontaneous rate (blinks per minute) while running, null when stopped
+  private frequencyBPM: number | null = null;
+
+  // Speech/gaze synchronization state
+  private conversationState: BlinkConversationState = 'idle';
+  private utterance: UtterancePlan | null = null;
+  private analyzer = new ProsodicAnalyzer();
+  private inhibitedUntil = 0;
+  private lastBlinkTime = 0;
+  private pendingBlinks = new Set<ReturnType<typeof setTimeout>>();
+
   constructor(
     machine: any,
     host: BlinkHostCaps,
@@ -43,6 +77,7 @@ export class BlinkScheduler {
     this.machine = machine;
     this.host = host;
     this.config = config;
+    this.timing = { ...DEFAULT_BLINK_SPEECH_TIMING, ...config.timing };
   }
 
   /**
@@ -52,28 +87,44 @@ export class BlinkScheduler {
     this.stop();
 
     if (frequencyBPM <= 0) return;
+    this.frequencyBPM = frequencyBPM;
+    this.scheduleNextBlink();
+  }
 
-    // Convert frequency (blinks per minute) to interval (milliseconds)
-    const baseInterval = (60 / frequencyBPM) * 1000;
+  /**
+   * Arm the spontaneous blink timer. The interval follows the conversational state;
+   * a spontaneous blink due during emphasis waits until the emphasis is over.
+   */
+  private scheduleNextBlink(): void {
+    if (this.frequencyBPM === null) return;
+    if (this.autoBlinkInterval) clearTimeout(this.autoBlinkInterval);
 
-    const scheduleNextBlink = () => {
-      // Add randomness to the interval
-      const randomFactor = 1 + (Math.random() - 0.5) * this.config.randomness;
-      const interval = baseInterval * randomFactor;
+    // Convert frequency (blinks per minute) to interval (milliseconds)
+    const baseInterval = (60 / (this.frequencyBPM * this.getRateScale())) * 1000;
 
-      this.autoBlinkInterval = setTimeout(() => {
-        this.triggerBlink();
-        scheduleNextBlink();
-      }, interval);
-    };
+    // Add randomness to the interval
+    const randomFactor = 1 + (Math.random() - 0.5) * this.config.randomness;
+    const interval = baseInterval * randomFactor;
 
-    scheduleNextBlink();
+    this.autoBlinkInterval = setTimeout(() => {
+      this.autoBlinkInterval = null;
+      const wait = this.inhibitedUntil - Date.now();
+      if (wait > 0) {
+        this.autoBlinkInterval = setTimeout(() => {
+          this.autoBlinkInterval = null;
+          this.triggerBlink(undefined, undefined, this.pickSpontaneousKind());
+        }, wait);
+        return;
+      }
+      this.triggerBlink(undefined, undefined, this.pickSpontaneousKind());
+    }, interval);
   }
 
   /**
    * Stop automatic blinking
    */
   public stop(): void {
+    this.frequencyBPM = null;
     if (this.autoBlinkInterval) {
       clearTimeout(this.autoBlinkInterval);
       this.autoBlinkInterval = null;
@@ -83,7 +134,7 @@ export class BlinkScheduler {
   /**
    * Trigger a single blink
    */
-  public triggerBlink(overrideIntensity?: number, overrideDuration?: number): void {
+  public triggerBlink(overrideIntensity?: number, overrideDuration?: number, kind: BlinkKind = 'full'): void {
     // Prevent multiple blinks from being scheduled simultaneously
     if (this.isSchedulingBlink) return;
 
@@ -94,85 +145,257 @@ export class BlinkScheduler {
       const duration = overrideDuration ?? this.config.duration;
 
       // Build blink animation curves
-      const curves = this.buildBlinkCurves(intensity, duration);
+      const { curves, maxTime } = this.buildBlinkCurves(intensity, duration, kind);
 
       // Create snippet
       const snippetName = `blink_${Date.now()}`;
       const snippet = {
         name: snippetName,
         curves,
-        maxTime: duration,
+        maxTime,
         loop: false,
         snippetCategory: 'blink',
         snippetPriority: 100, // Very high priority (overrides most other animations)
         snippetPlaybackRate: 1.0,
         snippetIntensityScale: 1.0,
+        mixerChannel: 'eyes',
       };
 
       // Schedule to animation service
       const scheduledName = this.host.scheduleSnippet(snippet);
 
       if (scheduledName) {
+        this.lastBlinkTime = Date.now();
+
         // Notify machine
         this.machine.send({
           type: 'TRIGGER_BLINK',
+          kind,
         });
 
         // Auto-remove after completion
         setTimeout(() => {
           this.host.removeSnippet(scheduledName);
-        }, duration * 1000 + 50); // Add 50ms buffer
+        }, maxTime * 1000 + 50); // Add 50ms buffer
       }
     } finally {
       this.isSchedulingBlink = false;
     }
+
+    // Any blink resets the spontaneous clock, so reactive blinks replace spontaneous ones
+    this.scheduleNextBlink();
+  }
+
+  // ---------- Speech and gaze synchronization ----------
+
+  /**
+   * Speaking raises the spontaneous rate, listening lowers it
+   */
+  public setConversationState(state: BlinkConversationState): void {
+    if (state === this.conversationState) return;
+    this.conversationState = state;
+    if (state === 'idle') this.setUtterance(null);
+    this.scheduleNextBlink();
+  }
+
+  public getConversationState(): BlinkConversationState {
+    return this.conversationState;
+  }
+
+  /**
+   * Text about to be spoken. Word boundaries are matched against it to find
+   * punctuation after each word and the words the prosodic analyzer stresses.
+   */
+  public setUtterance(text: string | null): void {
+    if (!text) {
+      this.utterance = null;
+      return;
+    }
+    this.utterance = {
+      text,
+      emphasisWords: new Set(this.analyzer.analyze(text).emphasisWords),
+    };
+  }
+
+  /**
+   * A word is starting (TTS boundary). Stressed words suppress blinking while they are
+   * spoken; a blink may follow at the pause after a phrase or sentence.
+   */
+  public notifyWordBoundary(word: string, charIndex?: number): void {
+    if (!this.config.speechSync) return;
+
+    const { punctuation, wordIndex, wordLength } = this.locateWord(word, charIndex);
+    const wordMs = Math.max(150, wordLength * this.timing.msPerChar);
+
+    const emphasized =
+      (wordIndex !== null && this.utterance?.emphasisWords.has(wordIndex)) ||
+      (word.length > 1 && word === word.toUpperCase() && /[A-Z]/.test(word));
+    if (emphasized) {
+      this.inhibit(wordMs + this.timing.emphasisHoldMs);
+    }
+
+    if (SENTENCE_END.test(punctuation)) {
+      this.boundaryBlink('sentence', wordMs);
+    } else if (PHRASE_BOUNDARY.test(punctuation)) {
+      this.boundaryBlink('phrase', wordMs);
+    }
+  }
+
+  /**
+   * An utterance or sentence finished (e.g. TTS end)
+   */
+  public notifySentenceEnd(): void {
+    if (!this.config.speechSync) return;
+    this.boundaryBlink('sentence', 0);
+  }
+
+  /**
+   * Suppress blinks for a while (emphasis, a held look)
+   */
+  public inhibit(durationMs: number): void {
+    this.inhibitedUntil = Math.max(this.inhibitedUntil, Date.now() + durationMs);
+  }
+
+  /**
+   * A gaze shift of this many degrees started. Large saccades carry a blink
+   * (gaze-evoked blinks are reflexive, so emphasis doesn't suppress them).
+   */
+  public notifyGazeShift(amplitudeDeg: number): void {
+    if (!this.config.speechSync) return;
+
+    const { gazeBlinkMinAmplitude: min, gazeBlinkFullAmplitude: full } = this.timing;
+    if (amplitudeDeg < min) return;
+    const probability = Math.min(1, (amplitudeDeg - min) / Math.max(1e-6, full - min));
+    if (Math.random() >= probability || this.inRefractory(0)) return;
+
+    this.triggerBlink(undefined, undefined, 'full');
+  }
+
+  /**
+   * Maybe blink at a boundary that is `delayMs` away
+   */
+  private boundaryBlink(boundary: 'phrase' | 'sentence', delayMs: number): void {
+    const probability = boundary === 'sentence'
+      ? this.timing.sentenceEndProbability
+      : this.timing.phraseBoundaryProbability;
+    if (Math.random() >= probability || this.inRefractory(delayMs)) return;
+
+    const kind: BlinkKind =
+      boundary === 'sentence' && Math.random() < this.timing.sentenceEndDoubleProbability ? 'double' : 'full';
+
+    if (delayMs <= 0) {
+      this.triggerBlink(undefined, undefined, kind);
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.pendingBlinks.delete(timer);
+      if (!this.inRefractory(0)) this.triggerBlink(undefined, undefined, kind);
+    }, delayMs);
+    this.pendingBlinks.add(timer);
+  }
+
+  /**
+   * Find the word in the current utterance: its index (for emphasis) and the punctuation after it.
+   * Without an utterance (or when it doesn't match) only the word itself is inspected.
+   */
+  private locateWord(word: string, charIndex?: number): { punctuation: string; wordIndex: number | null; wordLength: number } {
+    const text = this.utterance?.text;
+    const inText = text !== undefined && charIndex !== undefined && charIndex >= 0 && charIndex < text.length;
+
+    // The word with whatever punctuation is attached to it
+    const token = inText ? text.slice(charIndex).match(/^\S*/)![0] : word;
+    const punctuation = token.replace(/[\p{L}\p{N}'-]/gu, '');
+
+    // Same tokenization as ProsodicAnalyzer: punctuation splits, whitespace separates
+    const wordIndex = inText
+      ? text.slice(0, charIndex).replace(/[.,!?;:]/g, ' ').split(/\s+/).filter((w) => w.length > 0).length
+      : null;
+
+    return { punctuation, wordIndex, wordLength: token.length - punctuation.length };
+  }
+
+  private inRefractory(delayMs: number): boolean {
+    return Date.now() + delayMs - this.lastBlinkTime < this.timing.refractoryMs;
+  }
+
+  private getRateScale(): number {
+    if (!this.config.speechSync) return 1;
+    if (this.conversationState === 'speaking') return this.timing.speakingRateScale;
+    if (this.conversationState === 'listening') return this.timing.listeningRateScale;
+    return 1;
+  }
+
+  private pickSpontaneousKind(): BlinkKind {
+    const r = Math.random();
+    if (r < this.timing.doubleBlinkRatio) return 'double';
+    if (r < this.timing.doubleBlinkRatio + this.timing.halfBlinkRatio) return 'half';
+    return 'full';
   }
 
   /**
    * Build blink animation curves
    * AU 43: Eyes Closed (controls both eyes together)
    *
-   * For asymmetric blinks, we'd need separate left/right eye AUs,
-   * but AU 43 is the standard for synchronized blinking.
+   * - full: fast close (35%), brief hold (10%), gradual open (55%)
+   * - half: the same shape at partial depth and a little quicker (the lids never meet)
+   * - double: two closures back to back, the lids only half reopening in between
    */
   private buildBlinkCurves(
     intensity: number,
-    duration: number
-  ): Record<string, Array<{ time: number; intensity: number }>> {
-    const curves: Record<string, Array<{ time: number; intensity: number }>> = {};
-
+    duration: number,
+    kind: BlinkKind = 'full'
+  ): { curves: Record<string, Array<{ time: number; intensity: number }>>; maxTime: number } {
     // Apply randomness to intensity
     const randomFactor = 1 + (Math.random() - 0.5) * this.config.randomness * 0.3;
     const finalIntensity = Math.min(100, intensity * 100 * randomFactor);
 
-    // Natural blink timing (fast close, slightly slower open)
+    let curve: Array<{ time: number; intensity: number }>;
+    let maxTime = duration;
+
+    if (kind === 'half') {
+      maxTime = duration * 0.8;
+      curve = this.buildClosure(finalIntensity * this.timing.halfBlinkDepth, maxTime, 0);
+    } else if (kind === 'double') {
+      // Second closure starts while the lids are still ~60% closed
+      const reopen = duration * 0.7;
+      const second = this.buildClosure(finalIntensity, duration, reopen);
+      curve = [
+        ...this.buildClosure(finalIntensity, duration, 0).filter((k) => k.time < reopen),
+        { time: reopen, intensity: finalIntensity * 0.4 },
+        ...second.slice(2),
+      ];
+      maxTime = reopen + duration;
+    } else {
+      curve = this.buildClosure(finalIntensity, duration, 0);
+    }
+
+    // AU 43: Eyes Closed (both eyes)
+    // Note: If we need asymmetric blinks in the future, we could use
+    // leftEyeIntensity and rightEyeIntensity overrides with separate per-eye AUs
+    return { curves: { '43': curve }, maxTime };
+  }
+
+  /**
+   * One natural closure starting at `start` (fast close, brief hold, gradual open
+   * with a slight slowdown at the end)
+   */
+  private buildClosure(peak: number, duration: number, start: number): Array<{ time: number; intensity: number }> {
     const closeTime = duration * 0.35; // 35% of duration to close
     const holdTime = duration * 0.1;   // 10% hold at peak
     const openTime = duration * 0.55;  // 55% to open
 
-    // Build natural blink curve with slight asymmetry for realism
-    const curve: Array<{ time: number; intensity: number }> = [
-      { time: 0.0, intensity: 0 },
+    return [
+      { time: start, intensity: 0 },
       // Quick close
-      { time: closeTime * 0.3, intensity: finalIntensity * 0.4 },
-      { time: closeTime, intensity: finalIntensity },
+      { time: start + closeTime * 0.3, intensity: peak * 0.4 },
+      { time: start + closeTime, intensity: peak },
       // Brief hold
-      { time: closeTime + holdTime, intensity: finalIntensity * 0.98 },
-      // Gradual open with slight slowdown at end
-      { time: closeTime + holdTime + openTime * 0.5, intensity: finalIntensity * 0.5 },
-      { time: closeTime + holdTime + openTime * 0.85, intensity: finalIntensity * 0.15 },
-      { time: duration, intensity: 0 },
+      { time: start + closeTime + holdTime, intensity: peak * 0.98 },
+      // Gradual open
+      { time: start + closeTime + holdTime + openTime * 0.5, intensity: peak * 0.5 },
+      { time: start + closeTime + holdTime + openTime * 0.85, intensity: peak * 0.15 },
+      { time: start + duration, intensity: 0 },
     ];
-
-    // AU 43: Eyes Closed (both eyes)
-    curves['43'] = curve;
-
-    // Note: If we need asymmetric blinks in the future, we could use:
-    // - leftEyeIntensity and rightEyeIntensity overrides
-    // - Separate curves for left/right eyes if individual eye AUs exist
-    // For now, AU 43 handles synchronized blinking
-
-    return curves;
   }
 
   /**
@@ -180,6 +403,9 @@ export class BlinkScheduler {
    */
   public updateConfig(config: Partial<BlinkSchedulerConfig>): void {
     this.config = { ...this.config, ...config };
+    if (config.timing) {
+      this.timing = { ...this.timing, ...config.timing };
+    }
   }
 
   /**
@@ -187,5 +413,7 @@ export class BlinkScheduler {
    */
   public dispose(): void {
     this.stop();
+    this.pendingBlinks.forEach((timer) => clearTimeout(timer));
+    this.pendingBlinks.clear();
   }
 }
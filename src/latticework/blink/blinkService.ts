@@ -7,18 +7,26 @@
 import { createActor } from 'xstate';
 import { blinkMachine } from './blinkMachine';
 import { BlinkScheduler } from './blinkScheduler';
-import type { BlinkState, BlinkEvent } from './types';
+import type { BlinkState, BlinkEvent, BlinkKind, BlinkSpeechTiming } from './types';
 
 export interface BlinkServiceAPI {
   enable: () => void;
   disable: () => void;
-  triggerBlink: (intensity?: number, duration?: number) => void;
+  triggerBlink: (intensity?: number, duration?: number, kind?: BlinkKind) => void;
   setFrequency: (frequency: number) => void;
   setDuration: (duration: number) => void;
   setIntensity: (intensity: number) => void;
   setRandomness: (randomness: number) => void;
   setLeftEyeIntensity: (intensity: number | null) => void;
   setRightEyeIntensity: (intensity: number | null) => void;
+  setSpeechSync: (enabled: boolean) => void;
+  setSpeaking: (isSpeaking: boolean) => void;
+  setListening: (isListening: boolean) => void;
+  setUtterance: (text: string | null) => void;
+  notifyWordBoundary: (word: string, charIndex?: number) => void;
+  notifySentenceEnd: () => void;
+  notifyGazeShift: (amplitudeDeg: number) => void;
+  notifyEmphasis: (durationMs?: number) => void;
   reset: () => void;
   getState: () => BlinkState;
   subscribe: (callback: (state: BlinkState) => void) => () => void;
@@ -34,7 +42,8 @@ export interface BlinkHostCaps {
  * Create a Blink Service with XState machine and scheduler
  */
 export function createBlinkService(
-  hostCaps?: BlinkHostCaps
+  hostCaps?: BlinkHostCaps,
+  timing?: Partial<BlinkSpeechTiming>
 ): BlinkServiceAPI {
   // Create XState machine
   const machine = createActor(blinkMachine).start();
@@ -75,12 +84,18 @@ export function createBlinkService(
       leftEyeIntensity: state.leftEyeIntensity,
       rightEyeIntensity: state.rightEyeIntensity,
       randomness: state.randomness,
+      speechSync: state.speechSync,
+      timing,
     }
   );
 
   // Subscribers for state changes
   const subscribers = new Set<(state: BlinkState) => void>();
 
+  // Automatic blinking restarts only when it is toggled or its rate changes
+  // (every blink also updates the machine; restarting then would stack timers)
+  let running: { enabled: boolean; frequency: number } = { enabled: state.enabled, frequency: state.frequency };
+
   // Subscribe to machine state changes
   machine.subscribe((snapshot) => {
     const newState = snapshot.context.state;
@@ -92,13 +107,17 @@ export function createBlinkService(
       leftEyeIntensity: newState.leftEyeIntensity,
       rightEyeIntensity: newState.rightEyeIntensity,
       randomness: newState.randomness,
+      speechSync: newState.speechSync,
     });
 
     // Update automatic blinking based on enabled state
-    if (newState.enabled) {
-      scheduler.start(newState.frequency);
-    } else {
-      scheduler.stop();
+    if (newState.enabled !== running.enabled || newState.frequency !== running.frequency) {
+      running = { enabled: newState.enabled, frequency: newState.frequency };
+      if (newState.enabled) {
+        scheduler.start(newState.frequency);
+      } else {
+        scheduler.stop();
+      }
     }
 
     // Notify subscribers
@@ -127,10 +146,10 @@ export function createBlinkService(
     },
 
     /**
-     * Trigger a single blink manually
+     * Trigger a single blink manually ('full', 'half' or 'double')
      */
-    triggerBlink(intensity?: number, duration?: number): void {
-      scheduler.triggerBlink(intensity, duration);
+    triggerBlink(intensity?: number, duration?: number, kind?: BlinkKind): void {
+      scheduler.triggerBlink(intensity, duration, kind);
     },
 
     /**
@@ -175,6 +194,70 @@ export function createBlinkService(
       machine.send({ type: 'SET_RIGHT_EYE_INTENSITY', intensity });
     },
 
+    /**
+     * Enable/disable speech- and gaze-synchronized blinking
+     */
+    setSpeechSync(enabled: boolean): void {
+      machine.send({ type: 'SET_SPEECH_SYNC', enabled });
+    },
+
+    /**
+     * Character started/stopped talking (raises the blink rate)
+     */
+    setSpeaking(isSpeaking: boolean): void {
+      if (isSpeaking) {
+        scheduler.setConversationState('speaking');
+      } else if (scheduler.getConversationState() === 'speaking') {
+        scheduler.setConversationState('idle');
+      }
+    },
+
+    /**
+     * Character started/stopped listening (lowers the blink rate)
+     */
+    setListening(isListening: boolean): void {
+      if (isListening) {
+        scheduler.setConversationState('listening');
+      } else if (scheduler.getConversationState() === 'listening') {
+        scheduler.setConversationState('idle');
+      }
+    },
+
+    /**
+     * Text about to be spoken, so word boundaries can be matched to phrase breaks and stress
+     */
+    setUtterance(text: string | null): void {
+      scheduler.setUtterance(text);
+    },
+
+    /**
+     * TTS word boundary (word and its offset in the utterance)
+     */
+    notifyWordBoundary(word: string, charIndex?: number): void {
+      scheduler.notifyWordBoundary(word, charIndex);
+    },
+
+    /**
+     * A sentence or utterance ended
+     */
+    notifySentenceEnd(): void {
+      scheduler.notifySentenceEnd();
+    },
+
+    /**
+     * A gaze shift of this many degrees started
+     */
+    notifyGazeShift(amplitudeDeg: number): void {
+      scheduler.notifyGazeShift(amplitudeDeg);
+    },
+
+    /**
+     * Hold blinks back while something is emphasized (ms)
+     */
+    notifyEmphasis(durationMs: number = 500): void {
+      scheduler.inhibit(durationMs);
+    },
+
     /**
      * Reset to default state
      */
@@ -216,8 +299,8 @@ export function createBlinkService(
 export class BlinkService {
   private api: BlinkServiceAPI;
 
-  constructor(hostCaps?: BlinkHostCaps) {
-    this.api = createBlinkService(hostCaps);
+  constructor(hostCaps?: BlinkHostCaps, timing?: Partial<BlinkSpeechTiming>) {
+    this.api = createBlinkService(hostCaps, timing);
   }
 
   /**
@@ -235,10 +318,10 @@ export class BlinkService {
   }
 
   /**
-   * Trigger a single blink manually
+   * Trigger a single blink manually ('full', 'half' or 'double')
    */
-  public triggerBlink(intensity?: number, duration?: number): void {
-    this.api.triggerBlink(intensity, duration);
+  public triggerBlink(intensity?: number, duration?: number, kind?: BlinkKind): void {
+    this.api.triggerBlink(intensity, duration, kind);
   }
 
   /**
@@ -283,6 +366,62 @@ export class BlinkService {
     this.api.setRightEyeIntensity(intensity);
   }
 
+  /**
+   * Enable/disable speech- and gaze-synchronized blinking
+   */
+  public setSpeechSync(enabled: boolean): void {
+    this.api.setSpeechSync(enabled);
+  }
+
+  /**
+   * Character started/stopped talking (raises the blink rate)
+   */
+  public setSpeaking(isSpeaking: boolean): void {
+    this.api.setSpeaking(isSpeaking);
+  }
+
+  /**
+   * Character started/stopped listening (lowers the blink rate)
+   */
+  public setListening(isListening: boolean): void {
+    this.api.setListening(isListening);
+  }
+
+  /**
+   * Text about to be spoken, so word boundaries can be matched to phrase breaks and stress
+   */
+  public setUtterance(text: string | null): void {
+    this.api.setUtterance(text);
+  }
+
+  /**
+   * TTS word boundary (word and its offset in the utterance)
+   */
+  public notifyWordBoundary(word: string, charIndex?: number): void {
+    this.api.notifyWordBoundary(word, charIndex);
+  }
+
+  /**
+   * A sentence or utterance ended
+   */
+  public notifySentenceEnd(): void {
+    this.api.notifySentenceEnd();
+  }
+
+  /**
+   * A gaze shift of this many degrees started
+   */
+  public notifyGazeShift(amplitudeDeg: number): void {
+    this.api.notifyGazeShift(amplitudeDeg);
+  }
+
+  /**
+   * Hold blinks back while something is emphasized (ms)
+   */
+  public notifyEmphasis(durationMs?: number): void {
+    this.api.notifyEmphasis(durationMs);
+  }
+
   /**
    * Reset to default state
    */
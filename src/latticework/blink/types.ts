@@ -29,8 +29,75 @@ export interface BlinkState {
 
   /** Right eye blink intensity override (0-1, null for normal) */
   rightEyeIntensity: number | null;
+
+  /** React to speech and gaze (phrase-boundary, gaze-evoked and emphasis-inhibited blinks) */
+  speechSync: boolean;
+}
+
+/**
+ * Blink shapes: a full closure, an incomplete one, or two closures in quick succession
+ */
+export type BlinkKind = 'full' | 'half' | 'double';
+
+/**
+ * Conversational state that sets the spontaneous blink rate
+ */
+export type BlinkConversationState = 'idle' | 'speaking' | 'listening';
+
+/**
+ * Speech- and gaze-synchronized blink timing
+ *
+ * Based on the conversational blinking literature: people blink more while talking than at
+ * rest (Bentivoglio et al. 1997), blinks cluster at phrase and sentence boundaries and are
+ * suppressed on stressed words, listeners blink at the speaker's pauses (Nakano & Kitazawa
+ * 2010), and large gaze shifts carry a blink with a probability that grows with amplitude
+ * (Evinger et al. 1994).
+ */
+export interface BlinkSpeechTiming {
+  /** Spontaneous rate multiplier while speaking (~26 vs ~17 blinks/min at rest) */
+  speakingRateScale: number;
+  /** Spontaneous rate multiplier while listening */
+  listeningRateScale: number;
+  /** Chance of a blink at a comma/semicolon/colon pause */
+  phraseBoundaryProbability: number;
+  /** Chance of a blink at the end of a sentence */
+  sentenceEndProbability: number;
+  /** Share of sentence-end blinks that are double blinks */
+  sentenceEndDoubleProbability: number;
+  /** Gaze shifts smaller than this (degrees) never trigger a blink */
+  gazeBlinkMinAmplitude: number;
+  /** Gaze shifts at least this large (degrees) always trigger a blink */
+  gazeBlinkFullAmplitude: number;
+  /** Extra time (ms) blinks stay suppressed after an emphasized word ends */
+  emphasisHoldMs: number;
+  /** Estimated speaking time per character (ms), used to place blinks at the end of a word */
+  msPerChar: number;
+  /** No reactive blink within this long (ms) of the previous blink */
+  refractoryMs: number;
+  /** Share of spontaneous blinks that are half-blinks */
+  halfBlinkRatio: number;
+  /** Share of spontaneous blinks that are double blinks */
+  doubleBlinkRatio: number;
+  /** Closure of a half-blink relative to a full one */
+  halfBlinkDepth: number;
 }
 
+export const DEFAULT_BLINK_SPEECH_TIMING: BlinkSpeechTiming = {
+  speakingRateScale: 1.5,
+  listeningRateScale: 0.85,
+  phraseBoundaryProbability: 0.5,
+  sentenceEndProbability: 0.8,
+  sentenceEndDoubleProbability: 0.3,
+  gazeBlinkMinAmplitude: 15,
+  gazeBlinkFullAmplitude: 45,
+  emphasisHoldMs: 150,
+  msPerChar: 65,
+  refractoryMs: 400,
+  halfBlinkRatio: 0.2,
+  doubleBlinkRatio: 0.05,
+  halfBlinkDepth: 0.5,
+};
+
 /**
  * Default blink state
  */
@@ -42,6 +109,7 @@ export const DEFAULT_BLINK_STATE: BlinkState = {
   randomness: 0.3,
   leftEyeIntensity: null,
   rightEyeIntensity: null,
+  speechSync: true,
 };
 
 /**
@@ -56,7 +124,8 @@ export type BlinkEvent =
   | { type: 'SET_RANDOMNESS'; randomness: number }
   | { type: 'SET_LEFT_EYE_INTENSITY'; intensity: number | null }
   | { type: 'SET_RIGHT_EYE_INTENSITY'; intensity: number | null }
-  | { type: 'TRIGGER_BLINK'; intensity?: number; duration?: number }
+  | { type: 'SET_SPEECH_SYNC'; enabled: boolean }
+  | { type: 'TRIGGER_BLINK'; intensity?: number; duration?: number; kind?: BlinkKind }
   | { type: 'RESET_TO_DEFAULT' };
 
 /**
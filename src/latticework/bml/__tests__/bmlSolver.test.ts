@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { parseBML } from '../bmlParser';
+import { solveBML, estimateSpeech } from '../bmlSolver';
+import type { BMLSchedule, BMLWarning } from '../types';
+
+/**
+ * Tests for the BML solver, fed with fixture blocks through the parser.
+ *
+ * Default durations: face 2 s, gaze 1.5 s, head 1 s per repetition. Sync points sit at
+ * fixed proportions (ready 0.1, stroke 0.5, relax 0.9) between start and end.
+ */
+describe('solveBML', () => {
+  const solve = (body: string): BMLSchedule => solveBML(parseBML(`<bml id="b1">${body}</bml>`));
+  const timesOf = (schedule: BMLSchedule, id: string) => schedule.behaviours.find(t => t.behaviour.id === id)!.times;
+  const warningsOf = (schedule: BMLSchedule, type: BMLWarning['type']) =>
+    schedule.warnings.filter(w => w.type === type).map(w => w.behaviourId);
+
+  describe('Placement', () => {
+    it('should start unconstrained behaviours with the block at their default length', () => {
+      const schedule = solve('<faceLexeme id="f1" lexeme="SMILE"/><head id="h1" lexeme="NOD" repetition="3"/>');
+
+      expect(timesOf(schedule, 'f1')).toMatchObject({ start: 0, stroke: 1, end: 2 });
+      expect(timesOf(schedule, 'h1')).toMatchObject({ start: 0, end: 3 });
+      expect(schedule.duration).toBe(3);
+      expect(schedule.warnings).toEqual([]);
+    });
+
+    it('should keep the default length around a single constraint', () => {
+      const times = timesOf(solve('<faceLexeme id="f1" lexeme="SMILE" stroke="2"/>'), 'f1');
+      expect(times.start).toBeCloseTo(1);
+      expect(times.end).toBeCloseTo(3);
+    });
+
+    it('should place behaviours relative to other behaviours and speech markers', () => {
+      const schedule = solve(`
+        <speech id="s1"><text>Hello there, <sync id="tm1"/>nice to meet you.</text></speech>
+        <faceLexeme id="f1" lexeme="SMILE" start="s1:tm1"/>
+        <gaze id="g1" target="away" start="f1:end+0.5"/>
+      `);
+      const speech = schedule.behaviours.find(t => t.behaviour.id === 's1')!;
+      const estimate = estimateSpeech('Hello there, nice to meet you.', [{ id: 'tm1', charIndex: 13 }]);
+
+      expect(speech.times.end).toBeCloseTo(estimate.duration);
+      expect(speech.markers.tm1).toBeCloseTo(estimate.markers.tm1);
+      expect(speech.markers.tm1).toBeGreaterThan(0);
+      expect(timesOf(schedule, 'f1').start).toBeCloseTo(speech.markers.tm1);
+      expect(timesOf(schedule, 'g1').start).toBeCloseTo(timesOf(schedule, 'f1').end + 0.5);
+      expect(timesOf(schedule, 'g1').end - timesOf(schedule, 'g1').start).toBeCloseTo(1.5);
+    });
+
+    it('should keep speech at its spoken length and only check its other constraints', () => {
+      const schedule = solve('<speech id="s1" start="1" end="1.2"><text>This sentence takes a while to say.</text></speech>');
+      const times = timesOf(schedule, 's1');
+      const duration = estimateSpeech('This sentence takes a while to say.', []).duration;
+
+      expect(times.start).toBeCloseTo(1);
+      expect(times.end).toBeCloseTo(1 + duration);
+      expect(warningsOf(schedule, 'CONSTRAINT')).toEqual(['s1']);
+    });
+  });
+
+  describe('Stretching', () => {
+    it('should stretch a behaviour between its earliest and latest constrained sync points', () => {
+      const schedule = solve('<faceLexeme id="f1" lexeme="SMILE" ready="1" relax="3"/>');
+      const times = timesOf(schedule, 'f1');
+
+      // ready (0.1) to relax (0.9) is 2 s, so the whole behaviour is 2.5 s
+      expect(times.start).toBeCloseTo(0.75);
+      expect(times.ready).toBeCloseTo(1);
+      expect(times.stroke).toBeCloseTo(2);
+      expect(times.relax).toBeCloseTo(3);
+      expect(times.end).toBeCloseTo(3.25);
+      expect(schedule.warnings).toEqual([]);
+    });
+
+    it('should stretch between sync points of other behaviours', () => {
+      const schedule = solve(`
+        <head id="h1" lexeme="NOD" start="0.5" end="2.5"/>
+        <faceLexeme id="f1" lexeme="SMILE" start="h1:stroke" end="h1:end+1"/>
+      `);
+      expect(timesOf(schedule, 'f1')).toMatchObject({ start: 1.5, end: 3.5 });
+    });
+
+    it('should report a constraint in between that the stretched fit misses', () => {
+      const schedule = solve('<faceLexeme id="f1" lexeme="SMILE" start="1" stroke="1.2" end="3"/>');
+
+      expect(timesOf(schedule, 'f1').stroke).toBeCloseTo(2);
+      expect(warningsOf(schedule, 'CONSTRAINT')).toEqual(['f1']);
+    });
+
+    it('should fall back to the default length when the sync points are out of order', () => {
+      const schedule = solve('<gaze id="g1" target="away" start="3" end="1"/>');
+      const times = timesOf(schedule, 'g1');
+
+      expect(times.start).toBeCloseTo(3);
+      expect(times.end).toBeCloseTo(4.5);
+      expect(schedule.warnings.find(w => w.type === 'CONSTRAINT')?.message).toMatch(/not after start/);
+    });
+  });
+
+  describe('Invalid references', () => {
+    it('should break a cycle at the first behaviour and solve the rest', () => {
+      const schedule = solve(`
+        <faceLexeme id="a" lexeme="SMILE" start="b:end"/>
+        <faceLexeme id="b" lexeme="FROWN" start="c:end"/>
+        <head id="c" lexeme="NOD" start="a:stroke"/>
+      `);
+
+      expect(warningsOf(schedule, 'CIRCULAR_SYNC')).toEqual(['a']);
+      expect(timesOf(schedule, 'a')).toMatchObject({ start: 0, end: 2 });
+      expect(timesOf(schedule, 'c')).toMatchObject({ start: 1, end: 2 });
+      expect(timesOf(schedule, 'b')).toMatchObject({ start: 2, end: 4 });
+    });
+
+    it('should drop references to the same behaviour', () => {
+      const schedule = solve('<faceLexeme id="f1" lexeme="SMILE" start="1" end="f1:start+3"/>');
+
+      expect(warningsOf(schedule, 'CIRCULAR_SYNC')).toEqual(['f1']);
+      expect(timesOf(schedule, 'f1')).toMatchObject({ start: 1, end: 3 });
+    });
+
+    it('should drop references to behaviours or sync points that do not exist', () => {
+      const schedule = solve(`
+        <speech id="s1"><text>Hello there.</text></speech>
+        <faceLexeme id="f1" lexeme="SMILE" start="nobody:start"/>
+        <faceLexeme id="f2" lexeme="SMILE" start="s1:tm9"/>
+      `);
+
+      expect(warningsOf(schedule, 'UNKNOWN_SYNC')).toEqual(['f1', 'f2']);
+      expect(timesOf(schedule, 'f1').start).toBe(0);
+      expect(timesOf(schedule, 'f2').start).toBe(0);
+    });
+  });
+
+  describe('Block start', () => {
+    it('should delay the whole block when a behaviour would start before 0', () => {
+      const schedule = solve(`
+        <speech id="s1"><text>Hello <sync id="tm1"/>there.</text></speech>
+        <faceLexeme id="f1" lexeme="SMILE" stroke="0.2"/>
+        <gaze id="g1" target="away" start="1"/>
+      `);
+      const speech = schedule.behaviours.find(t => t.behaviour.id === 's1')!;
+      const estimate = estimateSpeech('Hello there.', [{ id: 'tm1', charIndex: 6 }]);
+
+      // The face stroke at 0.2 s puts its start at -0.8 s
+      expect(timesOf(schedule, 'f1')).toMatchObject({ start: 0, stroke: 1, end: 2 });
+      expect(timesOf(schedule, 'g1').start).toBeCloseTo(1.8);
+      expect(speech.times.start).toBeCloseTo(0.8);
+      expect(speech.markers.tm1).toBeCloseTo(0.8 + estimate.markers.tm1);
+      expect(schedule.duration).toBeCloseTo(Math.max(2, 3.3, 0.8 + estimate.duration));
+      expect(schedule.warnings.map(w => w.message)).toContain('Block would start 0.80s early; delayed');
+    });
+
+    it('should delay the block for a negative offset from another behaviour', () => {
+      const schedule = solve(`
+        <head id="h1" lexeme="NOD"/>
+        <faceLexeme id="f1" lexeme="SMILE" end="h1:start-0.5"/>
+      `);
+
+      expect(warningsOf(schedule, 'UNKNOWN_SYNC')).toEqual([]);
+      expect(timesOf(schedule, 'f1').start).toBeCloseTo(0);
+      expect(timesOf(schedule, 'f1').end).toBeCloseTo(2);
+      expect(timesOf(schedule, 'h1').start).toBeCloseTo(2.5);
+    });
+  });
+});
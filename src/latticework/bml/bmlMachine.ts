@@ -0,0 +1,106 @@
+/**
+ * BML State Machine
+ *
+ * XState machine tracking which BML blocks are pending, running and finished.
+ * Part of the latticework agency architecture.
+ */
+
+import { setup, assign } from 'xstate';
+import type { BMLContext, BMLMachineEvent } from './types';
+
+export const bmlMachine = setup({
+  types: {
+    context: {} as BMLContext,
+    events: {} as BMLMachineEvent,
+  },
+  actions: {
+    queueBlock: assign(({ context, event }) => {
+      if (event.type !== 'BLOCK_QUEUED') return {};
+      return {
+        blocks: { ...context.blocks, [event.blockId]: 'pending' as const },
+        pending: [...context.pending.filter(id => id !== event.blockId), event.blockId],
+      };
+    }),
+
+    startBlock: assign(({ context, event }) => {
+      if (event.type !== 'BLOCK_STARTED') return {};
+      return {
+        blocks: { ...context.blocks, [event.blockId]: 'running' as const },
+        active: [...context.active.filter(id => id !== event.blockId), event.blockId],
+        pending: context.pending.filter(id => id !== event.blockId),
+      };
+    }),
+
+    endBlock: assign(({ context, event }) => {
+      if (event.type !== 'BLOCK_ENDED') return {};
+      return {
+        blocks: {
+          ...context.blocks,
+          [event.blockId]: event.interrupted ? ('interrupted' as const) : ('done' as const),
+        },
+        active: context.active.filter(id => id !== event.blockId),
+        pending: context.pending.filter(id => id !== event.blockId),
+      };
+    }),
+
+    reset: assign({
+      blocks: () => ({}),
+      active: () => [],
+      pending: () => [],
+    }),
+  },
+  guards: {
+    // The block ending now is the last one running
+    isLastActive: ({ context, event }) =>
+      event.type === 'BLOCK_ENDED' && context.active.every(id => id === event.blockId),
+  },
+}).createMachine({
+  id: 'bml',
+  initial: 'idle',
+  context: {
+    blocks: {},
+    active: [],
+    pending: [],
+  },
+  on: {
+    BLOCK_QUEUED: {
+      actions: 'queueBlock',
+    },
+    RESET: {
+      target: '.idle',
+      actions: 'reset',
+    },
+  },
+  states: {
+    idle: {
+      on: {
+        BLOCK_STARTED: {
+          target: 'realizing',
+          actions: 'startBlock',
+        },
+        BLOCK_ENDED: {
+          actions: 'endBlock',
+        },
+      },
+    },
+    realizing: {
+      on: {
+        BLOCK_STARTED: {
+          actions: 'startBlock',
+        },
+        BLOCK_ENDED: [
+          {
+            guard: 'isLastActive',
+            target: 'idle',
+            actions: 'endBlock',
+          },
+          {
+            actions: 'endBlock',
+          },
+        ],
+      },
+    },
+  },
+});
+
+export type BMLMachine = typeof bmlMachine;
@@ -0,0 +1,307 @@
+/**
+ * BML Parser
+ * Reads a <bml> block (BML 1.0 core behaviours) into behaviours with sync constraints
+ *
+ * Supported: <speech> (with <sync id="..."/> markers), <faceLexeme>, <faceFacs>, <face>,
+ * <gaze>, <gazeShift>, <head>. Other behaviours are reported as warnings and skipped.
+ */
+
+import type {
+  BMLBehaviour,
+  BMLBlock,
+  BMLComposition,
+  BMLHeadLexeme,
+  BMLSyncPointName,
+  BMLSyncRef,
+  BMLWarning,
+} from './types';
+import { BML_SYNC_POINTS } from './types';
+
+interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: Array<XmlElement | string>;
+}
+
+const XML_TOKEN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const XML_ATTR = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/** FACS AUs per face lexeme (BML 1.0 names plus SMILE and FROWN); one-sided lexemes use both sides */
+export const BML_FACE_LEXEMES: Record<string, Record<string, number>> = {
+  RAISE_BROWS: { '1': 1, '2': 1 },
+  RAISE_LEFT_BROW: { '1': 0.5, '2': 1 },
+  RAISE_RIGHT_BROW: { '1': 0.5, '2': 1 },
+  OBLIQUE_BROWS: { '1': 1, '4': 0.4 },
+  LOWER_BROWS: { '4': 1 },
+  LOWER_LEFT_BROW: { '4': 0.6 },
+  LOWER_RIGHT_BROW: { '4': 0.6 },
+  RAISE_MOUTH_CORNERS: { '12': 1 },
+  RAISE_LEFT_MOUTH_CORNER: { '12': 0.5 },
+  RAISE_RIGHT_MOUTH_CORNER: { '12': 0.5 },
+  LOWER_MOUTH_CORNERS: { '15': 1 },
+  LOWER_LEFT_MOUTH_CORNER: { '15': 0.5 },
+  LOWER_RIGHT_MOUTH_CORNER: { '15': 0.5 },
+  WIDEN_EYES: { '5': 1 },
+  CLOSE_EYES: { '43': 1 },
+  OPEN_LIPS: { '25': 1 },
+  OPEN_MOUTH: { '26': 1 },
+  SMILE: { '6': 0.6, '12': 1 },
+  FROWN: { '4': 1, '15': 0.5 },
+};
+
+const HEAD_LEXEMES: BMLHeadLexeme[] = ['NOD', 'SHAKE', 'TILT'];
+const DEFAULT_AMOUNT = 0.5;
+
+let blockCounter = 0;
+
+const localName = (name: string) => name.slice(name.lastIndexOf(':') + 1);
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(n);
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Minimal XML reader for BML (elements, attributes, text, CDATA; namespace prefixes dropped)
+ */
+function readXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attrs: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let last = 0;
+
+  for (const match of xml.matchAll(XML_TOKEN)) {
+    const [raw, cdata, closing, name, attrSource, selfClosing] = match;
+    const parent = stack[stack.length - 1];
+    if (match.index! > last) {
+      parent.children.push(decodeEntities(xml.slice(last, match.index)));
+    }
+    last = match.index! + raw.length;
+
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (!name) {
+      continue; // Comment, declaration or doctype
+    } else if (closing) {
+      if (stack.length < 2 || parent.name !== localName(name)) {
+        throw new Error(`[BML] Unexpected </${name}>`);
+      }
+      stack.pop();
+    } else {
+      const attrs: Record<string, string> = {};
+      for (const attr of attrSource.matchAll(XML_ATTR)) {
+        attrs[localName(attr[1])] = decodeEntities(attr[2] ?? attr[3]);
+      }
+      const element: XmlElement = { name: localName(name), attrs, children: [] };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`[BML] Unclosed <${stack[stack.length - 1].name}>`);
+  }
+
+  const element = root.children.find((c): c is XmlElement => typeof c !== 'string');
+  if (!element) {
+    throw new Error('[BML] No element found');
+  }
+  return element;
+}
+
+/**
+ * Element back to markup (TTS tags inside speech text are passed through)
+ */
+function serialize(element: XmlElement): string {
+  const attrs = Object.entries(element.attrs).map(([k, v]) => ` ${k}="${v.replace(/"/g, '&quot;')}"`).join('');
+  if (element.children.length === 0) return `<${element.name}${attrs}/>`;
+  const inner = element.children.map(c => (typeof c === 'string' ? c : serialize(c))).join('');
+  return `<${element.name}${attrs}>${inner}</${element.name}>`;
+}
+
+/**
+ * Parse a sync reference: `1.5`, `s1:start`, `s1:tm1+0.2`, `bml1:s1:end-0.3`
+ */
+export function parseSyncRef(value: string, blockId?: string): BMLSyncRef | null {
+  const text = value.replace(/\s+/g, '');
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return { syncId: 'start', offset: parseFloat(text) };
+  }
+
+  // Lazy sync ID, so a trailing `-0.3` is read as an offset rather than part of the ID
+  const match = /^([\w.-]+(?::[\w.-]+?){1,2})([+-]\d+(?:\.\d+)?)?$/.exec(text);
+  if (!match) return null;
+
+  const parts = match[1].split(':');
+  if (parts.length === 3) {
+    // Cross-block references are not supported; the block prefix must be this block
+    if (parts[0] !== blockId) return null;
+    parts.shift();
+  }
+  if (parts.length !== 2) return null;
+
+  return { behaviourId: parts[0], syncId: parts[1], offset: match[2] ? parseFloat(match[2]) : 0 };
+}
+
+function numberAttr(value: string | undefined, fallback: number): number {
+  const n = parseFloat(value ?? '');
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/**
+ * Parse a <bml> block
+ * Throws on malformed XML; problems with single behaviours become warnings on the block.
+ */
+export function parseBML(xml: string): BMLBlock {
+  const root = readXml(xml);
+  if (root.name !== 'bml') {
+    throw new Error(`[BML] Expected <bml>, got <${root.name}>`);
+  }
+
+  const warnings: BMLWarning[] = [];
+  const blockId = root.attrs.id || `bml_${++blockCounter}`;
+  const warn = (type: BMLWarning['type'], message: string, behaviourId?: string) => {
+    warnings.push({ type, blockId, behaviourId, message });
+  };
+  if (!root.attrs.id) {
+    warn('PARSE', `Block has no id; using ${blockId}`);
+  }
+
+  const composition = (root.attrs.composition ?? 'MERGE').toUpperCase() as BMLComposition;
+  if (!['MERGE', 'APPEND', 'REPLACE'].includes(composition)) {
+    warn('PARSE', `Unknown composition "${root.attrs.composition}"; using MERGE`);
+  }
+
+  const behaviours: BMLBehaviour[] = [];
+  const ids = new Set<string>();
+
+  root.children.forEach((child, i) => {
+    if (typeof child === 'string') return;
+
+    let id = child.attrs.id;
+    if (!id || ids.has(id)) {
+      const generated = `${child.name}_${i}`;
+      warn('PARSE', id ? `Duplicate behaviour id "${id}"; using ${generated}` : `<${child.name}> has no id; using ${generated}`);
+      id = generated;
+    }
+    ids.add(id);
+
+    const sync: Partial<Record<BMLSyncPointName, BMLSyncRef>> = {};
+    for (const point of BML_SYNC_POINTS) {
+      const value = child.attrs[point];
+      if (value === undefined) continue;
+      const ref = parseSyncRef(value, blockId);
+      if (ref) sync[point] = ref;
+      else warn('PARSE', `Cannot read ${point}="${value}"`, id);
+    }
+
+    const behaviour = readBehaviour(child, id, sync, warn);
+    if (behaviour) behaviours.push(behaviour);
+  });
+
+  return {
+    id: blockId,
+    characterId: root.attrs.characterId,
+    composition: ['MERGE', 'APPEND', 'REPLACE'].includes(composition) ? composition : 'MERGE',
+    behaviours,
+    warnings,
+  };
+}
+
+function readBehaviour(
+  element: XmlElement,
+  id: string,
+  sync: Partial<Record<BMLSyncPointName, BMLSyncRef>>,
+  warn: (type: BMLWarning['type'], message: string, behaviourId?: string) => void
+): BMLBehaviour | null {
+  const { attrs } = element;
+  const amount = Math.max(0, Math.min(1, numberAttr(attrs.amount, DEFAULT_AMOUNT)));
+
+  switch (element.name) {
+    case 'speech': {
+      const textElement = element.children.find((c): c is XmlElement => typeof c !== 'string' && c.name === 'text');
+      let text = '';
+      const markers: Array<{ id: string; charIndex: number }> = [];
+      for (const c of (textElement ?? element).children) {
+        if (typeof c === 'string') text += c;
+        else if (c.name === 'sync' && c.attrs.id) markers.push({ id: c.attrs.id, charIndex: text.length });
+        else if (c.name !== 'text') text += serialize(c);
+      }
+
+      // Collapse whitespace from the XML layout, keeping marker positions
+      let collapsedText = '';
+      const positions: number[] = [];
+      for (let i = 0; i <= text.length; i++) {
+        positions.push(collapsedText.length);
+        if (i === text.length) break;
+        const ch = /\s/.test(text[i]) ? ' ' : text[i];
+        if (ch === ' ' && (collapsedText.length === 0 || collapsedText.endsWith(' '))) continue;
+        collapsedText += ch;
+      }
+      const trimmed = collapsedText.trimEnd();
+      if (!trimmed) {
+        warn('PARSE', 'Speech has no text', id);
+        return null;
+      }
+
+      return {
+        type: 'speech',
+        id,
+        sync,
+        text: trimmed,
+        markers: markers.map(m => ({ id: m.id, charIndex: Math.min(trimmed.length, positions[m.charIndex]) })),
+      };
+    }
+
+    case 'faceLexeme':
+    case 'face':
+    case 'faceFacs': {
+      if (attrs.au !== undefined) {
+        return { type: 'face', id, sync, aus: { [String(parseInt(attrs.au, 10))]: amount } };
+      }
+      const lexeme = (attrs.lexeme ?? '').toUpperCase();
+      const aus = BML_FACE_LEXEMES[lexeme];
+      if (!aus) {
+        warn('UNKNOWN_BEHAVIOUR', `Unknown face lexeme "${attrs.lexeme ?? ''}"`, id);
+        return null;
+      }
+      const scaled: Record<string, number> = {};
+      for (const [au, weight] of Object.entries(aus)) scaled[au] = weight * amount;
+      return { type: 'face', id, sync, lexeme, aus: scaled };
+    }
+
+    case 'gaze':
+    case 'gazeShift':
+      if (!attrs.target) {
+        warn('PARSE', `<${element.name}> has no target`, id);
+        return null;
+      }
+      return { type: 'gaze', id, sync, target: attrs.target, shift: element.name === 'gazeShift' };
+
+    case 'head': {
+      const lexeme = (attrs.lexeme ?? 'NOD').toUpperCase() as BMLHeadLexeme;
+      if (!HEAD_LEXEMES.includes(lexeme)) {
+        warn('UNKNOWN_BEHAVIOUR', `Unknown head lexeme "${attrs.lexeme}"`, id);
+        return null;
+      }
+      return {
+        type: 'head',
+        id,
+        sync,
+        lexeme,
+        repetition: Math.max(1, Math.round(numberAttr(attrs.repetition, 1))),
+        amount,
+      };
+    }
+
+    default:
+      warn('UNKNOWN_BEHAVIOUR', `<${element.name}> is not supported`, id);
+      return null;
+  }
+}
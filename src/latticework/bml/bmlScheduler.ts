@@ -0,0 +1,327 @@
+/**
+ * BML Scheduler
+ * Realizes solved BML blocks: face and head behaviours become animation snippets,
+ * speech goes to TTS and gaze to eye/head tracking, with sync point feedback on the way
+ * Follows the Animation Agency pattern
+ *
+ * Each face/head behaviour is one additive snippet whose curves run on the block clock
+ * (scheduled when the block starts, silent until the behaviour's start). Speech and gaze
+ * are fired by timers. Speech timing is the solver's estimate, not the engine's.
+ */
+
+import type { GazeTargetInput } from '../eyeHeadTracking/types';
+import type {
+  BMLCallbacks,
+  BMLConfig,
+  BMLFaceBehaviour,
+  BMLHeadBehaviour,
+  BMLSchedule,
+  BMLSyncPointName,
+  BMLTimedBehaviour,
+} from './types';
+import { BML_SYNC_POINTS, DEFAULT_BML_CONFIG } from './types';
+
+export interface BMLHostCaps {
+  scheduleSnippet: (snippet: any) => string | null;
+  removeSnippet: (name: string) => void;
+  speak?: (text: string) => void;
+  stopSpeech?: () => void;
+  setGazeTarget?: (target: GazeTargetInput) => void;
+}
+
+type Curves = Record<string, Array<{ time: number; intensity: number }>>;
+type Times = Record<BMLSyncPointName, number>;
+
+/** Head lexeme peaks at amount 1: AU54 nod, AU51/52 turn, AU55 tilt */
+const HEAD_PEAK = { nod: 0.6, turn: 0.4, tilt: 0.4 };
+
+interface RunningBlock {
+  schedule: BMLSchedule;
+  startTime: number;
+  timers: ReturnType<typeof setTimeout>[];
+  snippets: string[];
+  /** Speech behaviours started and not yet finished */
+  speaking: Set<string>;
+  /** <gaze> behaviours looking away that should look back if interrupted */
+  gazing: Set<string>;
+}
+
+export class BMLScheduler {
+  private machine: any;
+  private host: BMLHostCaps;
+  private callbacks: BMLCallbacks;
+  private config: Required<BMLConfig>;
+
+  private running = new Map<string, RunningBlock>();
+  private pending: BMLSchedule[] = [];
+
+  constructor(machine: any, host: BMLHostCaps, callbacks: BMLCallbacks = {}, config: BMLConfig = {}) {
+    this.machine = machine;
+    this.host = host;
+    this.callbacks = callbacks;
+    this.config = { ...DEFAULT_BML_CONFIG, ...config };
+  }
+
+  public setConfig(config: BMLConfig): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Realize a solved block according to its composition
+   * MERGE starts now, APPEND waits for the running blocks, REPLACE interrupts them.
+   */
+  public realize(schedule: BMLSchedule): void {
+    if (this.running.has(schedule.blockId) || this.pending.some(s => s.blockId === schedule.blockId)) {
+      this.interrupt(schedule.blockId);
+    }
+
+    if (schedule.composition === 'REPLACE') {
+      [...this.pending].forEach(s => this.interrupt(s.blockId));
+      [...this.running.keys()].forEach(id => this.interrupt(id));
+    }
+
+    if (schedule.composition === 'APPEND' && (this.running.size > 0 || this.pending.length > 0)) {
+      this.pending.push(schedule);
+      this.machine.send({ type: 'BLOCK_QUEUED', blockId: schedule.blockId });
+      return;
+    }
+
+    this.start(schedule);
+  }
+
+  /**
+   * Stop a running or pending block (running blocks report `end` with `interrupted`)
+   */
+  public interrupt(blockId: string): boolean {
+    const queued = this.pending.findIndex(s => s.blockId === blockId);
+    if (queued >= 0) {
+      this.pending.splice(queued, 1);
+      this.machine.send({ type: 'BLOCK_ENDED', blockId, interrupted: true });
+      return true;
+    }
+
+    const block = this.running.get(blockId);
+    if (!block) return false;
+
+    if (block.speaking.size > 0) this.host.stopSpeech?.();
+    if (block.gazing.size > 0) this.lookAt(this.config.restTarget);
+
+    this.callbacks.onWarning?.({ type: 'INTERRUPTED', blockId, message: 'Block interrupted' });
+    this.finish(block, true);
+    return true;
+  }
+
+  /**
+   * Stop every block
+   */
+  public stop(): void {
+    [...this.pending].forEach(s => this.interrupt(s.blockId));
+    [...this.running.keys()].forEach(id => this.interrupt(id));
+  }
+
+  private start(schedule: BMLSchedule): void {
+    const block: RunningBlock = {
+      schedule,
+      startTime: Date.now(),
+      timers: [],
+      snippets: [],
+      speaking: new Set(),
+      gazing: new Set(),
+    };
+    this.running.set(schedule.blockId, block);
+    this.machine.send({ type: 'BLOCK_STARTED', blockId: schedule.blockId });
+    this.callbacks.onBlockProgress?.({
+      blockId: schedule.blockId,
+      syncId: 'start',
+      time: 0,
+      globalTime: block.startTime,
+    });
+
+    const at = (seconds: number, fn: () => void) => {
+      block.timers.push(setTimeout(fn, Math.max(0, seconds * 1000)));
+    };
+
+    for (const timed of schedule.behaviours) {
+      const { behaviour, times } = timed;
+
+      switch (behaviour.type) {
+        case 'face':
+        case 'head':
+          this.scheduleBehaviour(block, timed);
+          break;
+
+        case 'speech':
+          at(times.start, () => {
+            block.speaking.add(behaviour.id);
+            this.host.speak?.(behaviour.text);
+          });
+          at(times.end, () => block.speaking.delete(behaviour.id));
+          break;
+
+        case 'gaze':
+          at(times.start, () => {
+            if (!behaviour.shift) block.gazing.add(behaviour.id);
+            this.lookAt(behaviour.target);
+          });
+          if (!behaviour.shift) {
+            at(times.end, () => {
+              block.gazing.delete(behaviour.id);
+              this.lookAt(this.config.restTarget);
+            });
+          }
+          break;
+      }
+
+      // Feedback for every sync point and speech marker
+      const points: Array<[string, number]> = [
+        ...BML_SYNC_POINTS.map((point): [string, number] => [point, times[point]]),
+        ...Object.entries(timed.markers),
+      ];
+      for (const [syncId, time] of points) {
+        at(time, () => {
+          this.callbacks.onSyncPointProgress?.({
+            blockId: schedule.blockId,
+            behaviourId: behaviour.id,
+            syncId,
+            time,
+            globalTime: Date.now(),
+          });
+        });
+      }
+    }
+
+    // After the sync point timers at the same time
+    at(schedule.duration, () => this.finish(block, false));
+  }
+
+  private finish(block: RunningBlock, interrupted: boolean): void {
+    const { blockId } = block.schedule;
+    if (this.running.get(blockId) !== block) return;
+
+    block.timers.forEach(timer => clearTimeout(timer));
+    block.snippets.forEach(name => this.host.removeSnippet(name));
+    this.running.delete(blockId);
+
+    const now = Date.now();
+    this.machine.send({ type: 'BLOCK_ENDED', blockId, interrupted });
+    this.callbacks.onBlockProgress?.({
+      blockId,
+      syncId: 'end',
+      time: (now - block.startTime) / 1000,
+      globalTime: now,
+      ...(interrupted ? { interrupted: true } : {}),
+    });
+
+    // Next APPEND block once nothing else is running
+    if (this.running.size === 0 && this.pending.length > 0) {
+      this.start(this.pending.shift()!);
+    }
+  }
+
+  private scheduleBehaviour(block: RunningBlock, timed: BMLTimedBehaviour): void {
+    const { behaviour, times } = timed;
+    const curves = behaviour.type === 'face'
+      ? faceCurves(behaviour, times)
+      : headCurves(behaviour as BMLHeadBehaviour, times);
+
+    const name = this.host.scheduleSnippet({
+      name: `bml:${block.schedule.blockId}:${behaviour.id}`,
+      curves,
+      maxTime: times.end,
+      loop: false,
+      snippetCategory: 'bml',
+      snippetPriority: this.config.priority,
+      snippetPlaybackRate: 1.0,
+      snippetIntensityScale: 1.0,
+      snippetBlendMode: 'additive' as const,
+      // Own additive layer, so BML behaviours add to emotion, prosody and head tracking
+      mixerChannel: 'bml',
+      mixerBlendMode: 'additive' as const,
+    });
+    if (name) block.snippets.push(name);
+  }
+
+  private lookAt(target: string): void {
+    if (!this.host.setGazeTarget) return;
+
+    const resolved = this.config.gazeTargets[target] ?? parseGazeCoordinates(target);
+    if (!resolved) {
+      console.warn(`[BMLScheduler] Unknown gaze target "${target}"`);
+      return;
+    }
+    this.host.setGazeTarget(resolved);
+  }
+
+  /**
+   * Cleanup
+   */
+  public dispose(): void {
+    this.pending = [];
+    this.running.forEach(block => {
+      block.timers.forEach(timer => clearTimeout(timer));
+      block.snippets.forEach(name => this.host.removeSnippet(name));
+    });
+    this.running.clear();
+  }
+}
+
+/**
+ * Targets given as "x,y" (normalized -1..1) when no named target matches
+ */
+function parseGazeCoordinates(target: string): GazeTargetInput | null {
+  const match = /^(-?[\d.]+),(-?[\d.]+)$/.exec(target.replace(/\s+/g, ''));
+  return match ? { x: parseFloat(match[1]), y: parseFloat(match[2]), z: 0 } : null;
+}
+
+/**
+ * Face: rise to the AU values by `ready`, hold through `relax`, release by `end`
+ */
+function faceCurves(behaviour: BMLFaceBehaviour, times: Times): Curves {
+  const curves: Curves = {};
+  for (const [au, value] of Object.entries(behaviour.aus)) {
+    curves[au] = [
+      { time: times.start, intensity: 0 },
+      { time: times.ready, intensity: value },
+      { time: times.relax, intensity: value },
+      { time: times.end, intensity: 0 },
+    ];
+  }
+  return curves;
+}
+
+/**
+ * Head: NOD and SHAKE repeat between strokeStart and strokeEnd; TILT is held like a face
+ */
+function headCurves(behaviour: BMLHeadBehaviour, times: Times): Curves {
+  const { lexeme, repetition, amount } = behaviour;
+
+  if (lexeme === 'TILT') {
+    const peak = HEAD_PEAK.tilt * amount;
+    return {
+      '55': [
+        { time: times.start, intensity: 0 },
+        { time: times.ready, intensity: peak },
+        { time: times.relax, intensity: peak },
+        { time: times.end, intensity: 0 },
+      ],
+    };
+  }
+
+  // NOD: one pulse per repetition; SHAKE: a left and a right swing per repetition
+  const swings = lexeme === 'NOD' ? repetition : repetition * 2;
+  const span = (times.strokeEnd - times.strokeStart) / swings;
+  const curves: Curves = lexeme === 'NOD' ? { '54': [] } : { '51': [], '52': [] };
+
+  for (let i = 0; i < swings; i++) {
+    const au = lexeme === 'NOD' ? '54' : i % 2 === 0 ? '51' : '52';
+    const from = times.strokeStart + i * span;
+    const peak = (lexeme === 'NOD' ? HEAD_PEAK.nod : HEAD_PEAK.turn) * amount;
+    curves[au].push(
+      { time: from, intensity: 0 },
+      { time: from + span / 2, intensity: peak },
+      { time: from + span, intensity: 0 },
+    );
+  }
+
+  return curves;
+}
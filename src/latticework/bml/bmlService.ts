@@ -0,0 +1,229 @@
+/**
+ * BML Service
+ * SAIBA-style realizer: parses BML blocks, solves their sync points and realizes them
+ * on the animation, TTS and eye/head tracking agencies
+ * Follows the Animation Agency architecture pattern
+ */
+
+import { createActor } from 'xstate';
+import { bmlMachine } from './bmlMachine';
+import { BMLScheduler } from './bmlScheduler';
+import type { BMLHostCaps } from './bmlScheduler';
+import { parseBML } from './bmlParser';
+import { solveBML } from './bmlSolver';
+import type { BMLBlock, BMLCallbacks, BMLConfig, BMLSchedule, BMLState } from './types';
+import { DEFAULT_BML_CONFIG } from './types';
+
+export interface BMLServiceAPI {
+  perform: (bml: string | BMLBlock) => string | null;
+  parse: (xml: string) => BMLBlock;
+  solve: (bml: string | BMLBlock) => BMLSchedule;
+  interrupt: (blockId: string) => boolean;
+  stop: () => void;
+  setConfig: (config: BMLConfig) => void;
+  reset: () => void;
+  getState: () => BMLState;
+  subscribe: (callback: (state: BMLState) => void) => () => void;
+  dispose: () => void;
+}
+
+/**
+ * Create a BML Service with XState machine and scheduler
+ */
+export function createBMLService(
+  hostCaps?: BMLHostCaps,
+  callbacks: BMLCallbacks = {},
+  config: BMLConfig = {}
+): BMLServiceAPI {
+  // Create XState machine
+  const machine = createActor(bmlMachine).start();
+
+  // Host capabilities (animation service integration; speech and gaze only when provided)
+  const host: BMLHostCaps = hostCaps ?? {
+    scheduleSnippet: (snippet: any) => {
+      // Fallback: Try to use global animation service
+      if (typeof window !== 'undefined') {
+        const anim = (window as any).anim;
+        if (anim && typeof anim.schedule === 'function') {
+          return anim.schedule(snippet);
+        }
+      }
+      console.warn('[BMLService] No animation service available for scheduling');
+      return null;
+    },
+    removeSnippet: (name: string) => {
+      if (typeof window !== 'undefined') {
+        const anim = (window as any).anim;
+        if (anim && typeof anim.remove === 'function') {
+          anim.remove(name);
+        }
+      }
+    },
+  };
+
+  let currentConfig: BMLConfig = { ...DEFAULT_BML_CONFIG, ...config };
+  const scheduler = new BMLScheduler(machine, host, callbacks, currentConfig);
+
+  const toState = (snapshot: ReturnType<typeof machine.getSnapshot>): BMLState => ({
+    status: snapshot.value as BMLState['status'],
+    active: snapshot.context.active,
+    pending: snapshot.context.pending,
+    blocks: snapshot.context.blocks,
+  });
+
+  // Subscribers for state changes
+  const subscribers = new Set<(state: BMLState) => void>();
+  machine.subscribe((snapshot) => {
+    const state = toState(snapshot);
+    subscribers.forEach((callback) => callback(state));
+  });
+
+  const api: BMLServiceAPI = {
+    /**
+     * Parse, solve and realize a BML block; returns its ID (null if it could not be read)
+     */
+    perform(bml: string | BMLBlock): string | null {
+      let schedule: BMLSchedule;
+      try {
+        schedule = api.solve(bml);
+      } catch (error) {
+        console.error('[BMLService] Failed to read BML block:', error);
+        callbacks.onError?.(error as Error);
+        return null;
+      }
+
+      schedule.warnings.forEach(warning => callbacks.onWarning?.(warning));
+      scheduler.realize(schedule);
+      return schedule.blockId;
+    },
+
+    /**
+     * Parse BML without realizing it (throws on malformed XML)
+     */
+    parse(xml: string): BMLBlock {
+      return parseBML(xml);
+    },
+
+    /**
+     * Solve a block's sync points without realizing it; includes the parse warnings
+     */
+    solve(bml: string | BMLBlock): BMLSchedule {
+      const block = typeof bml === 'string' ? parseBML(bml) : bml;
+      const schedule = solveBML(block, currentConfig);
+      return { ...schedule, warnings: [...block.warnings, ...schedule.warnings] };
+    },
+
+    /**
+     * Stop a running or queued block
+     */
+    interrupt(blockId: string): boolean {
+      return scheduler.interrupt(blockId);
+    },
+
+    /**
+     * Stop every block
+     */
+    stop(): void {
+      scheduler.stop();
+    },
+
+    /**
+     * Update realizer settings (applies to blocks performed afterwards)
+     */
+    setConfig(newConfig: BMLConfig): void {
+      currentConfig = { ...currentConfig, ...newConfig };
+      scheduler.setConfig(newConfig);
+    },
+
+    /**
+     * Stop everything and forget finished blocks
+     */
+    reset(): void {
+      scheduler.stop();
+      machine.send({ type: 'RESET' });
+    },
+
+    /**
+     * Get current realizer state
+     */
+    getState(): BMLState {
+      return toState(machine.getSnapshot());
+    },
+
+    /**
+     * Subscribe to state changes
+     */
+    subscribe(callback: (state: BMLState) => void): () => void {
+      subscribers.add(callback);
+      return () => subscribers.delete(callback);
+    },
+
+    /**
+     * Cleanup and release resources
+     */
+    dispose(): void {
+      scheduler.dispose();
+      subscribers.clear();
+      try {
+        machine.stop();
+      } catch {
+        // Ignore errors on cleanup
+      }
+    },
+  };
+
+  return api;
+}
+
+// For class-based usage
+export class BMLService {
+  private api: BMLServiceAPI;
+
+  constructor(
+    hostCaps?: BMLHostCaps,
+    callbacks: BMLCallbacks = {},
+    config: BMLConfig = {}
+  ) {
+    this.api = createBMLService(hostCaps, callbacks, config);
+  }
+
+  public perform(bml: string | BMLBlock): string | null {
+    return this.api.perform(bml);
+  }
+
+  public parse(xml: string): BMLBlock {
+    return this.api.parse(xml);
+  }
+
+  public solve(bml: string | BMLBlock): BMLSchedule {
+    return this.api.solve(bml);
+  }
+
+  public interrupt(blockId: string): boolean {
+    return this.api.interrupt(blockId);
+  }
+
+  public stop(): void {
+    this.api.stop();
+  }
+
+  public setConfig(config: BMLConfig): void {
+    this.api.setConfig(config);
+  }
+
+  public reset(): void {
+    this.api.reset();
+  }
+
+  public getState(): BMLState {
+    return this.api.getState();
+  }
+
+  public subscribe(callback: (state: BMLState) => void): () => void {
+    return this.api.subscribe(callback);
+  }
+
+  public dispose(): void {
+    this.api.dispose();
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * BML Solver
+ * Places every behaviour's sync points on the block timeline from its constraints
+ *
+ * Speech has a fixed length (estimated like the TTS local timeline) and is only moved.
+ * Face, gaze and head behaviours stretch between their earliest and latest constrained
+ * sync points; the phases in between keep their proportions.
+ */
+
+import { buildLocalTimeline, getTimelineDuration, parseTokens } from '../tts/utils';
+import type { WordTimelineItem } from '../tts/types';
+import type {
+  BMLBehaviour,
+  BMLBlock,
+  BMLConfig,
+  BMLSchedule,
+  BMLSyncPointName,
+  BMLSyncRef,
+  BMLTimedBehaviour,
+  BMLWarning,
+} from './types';
+import { BML_SYNC_POINTS, DEFAULT_BML_CONFIG } from './types';
+
+/** Where each sync point falls within a behaviour (0 = start, 1 = end) */
+const PHASES: Record<BMLSyncPointName, number> = {
+  start: 0,
+  ready: 0.1,
+  strokeStart: 0.25,
+  stroke: 0.5,
+  strokeEnd: 0.75,
+  relax: 0.9,
+  end: 1,
+};
+
+/** Constraints further apart than this (seconds) from the stretched fit are reported */
+const TOLERANCE = 0.05;
+
+interface SpeechEstimate {
+  duration: number;
+  markers: Record<string, number>;
+}
+
+/**
+ * Spoken length and marker offsets (seconds) of a speech behaviour
+ */
+export function estimateSpeech(text: string, markers: Array<{ id: string; charIndex: number }>, rate = 1): SpeechEstimate {
+  const { text: plain, emojis, markup } = parseTokens(text);
+  const timeline = buildLocalTimeline(plain, emojis, rate, markup);
+  const duration = getTimelineDuration(timeline) / 1000;
+  const words = timeline
+    .filter((e): e is WordTimelineItem => e.type === 'WORD')
+    .sort((a, b) => a.index - b.index);
+
+  const offsets: Record<string, number> = {};
+  for (const marker of markers) {
+    // A marker sits before the word that follows it
+    const before = parseTokens(text.slice(0, marker.charIndex)).text;
+    const w = before ? before.split(/\s+/).length : 0;
+    offsets[marker.id] = w < words.length ? words[w].offsetMs / 1000 : duration;
+  }
+
+  return { duration, markers: offsets };
+}
+
+/**
+ * Solve a parsed block into a schedule (seconds from the block start)
+ * Constraints that cannot be met are dropped with a warning; the rest of the block still plays.
+ */
+export function solveBML(block: BMLBlock, config: BMLConfig = {}): BMLSchedule {
+  const cfg = { ...DEFAULT_BML_CONFIG, ...config };
+  const durations = { ...DEFAULT_BML_CONFIG.defaultDurations, ...config.defaultDurations };
+  const warnings: BMLWarning[] = [];
+  const warn = (type: BMLWarning['type'], message: string, behaviourId?: string) => {
+    warnings.push({ type, blockId: block.id, behaviourId, message });
+  };
+
+  const byId = new Map(block.behaviours.map(b => [b.id, b]));
+  const speech = new Map<string, SpeechEstimate>();
+  for (const b of block.behaviours) {
+    if (b.type === 'speech') speech.set(b.id, estimateSpeech(b.text, b.markers, cfg.speechRate));
+  }
+
+  // Drop references to behaviours or sync points that do not exist
+  const pending = new Map<string, Array<[BMLSyncPointName, BMLSyncRef]>>();
+  for (const b of block.behaviours) {
+    const refs: Array<[BMLSyncPointName, BMLSyncRef]> = [];
+    for (const point of BML_SYNC_POINTS) {
+      const ref = b.sync[point];
+      if (!ref) continue;
+      if (ref.behaviourId !== undefined) {
+        const target = byId.get(ref.behaviourId);
+        const known = target && (ref.syncId in PHASES || (target.type === 'speech' && ref.syncId in speech.get(target.id)!.markers));
+        if (!known) {
+          warn('UNKNOWN_SYNC', `${point}="${ref.behaviourId}:${ref.syncId}" does not exist`, b.id);
+          continue;
+        }
+        if (ref.behaviourId === b.id) {
+          warn('CIRCULAR_SYNC', `${point} refers to its own behaviour`, b.id);
+          continue;
+        }
+      }
+      refs.push([point, ref]);
+    }
+    pending.set(b.id, refs);
+  }
+
+  const solved = new Map<string, BMLTimedBehaviour>();
+  const timeOf = (ref: BMLSyncRef) => {
+    if (ref.behaviourId === undefined) return ref.offset;
+    const timed = solved.get(ref.behaviourId)!;
+    const base = timed.times[ref.syncId as BMLSyncPointName] ?? timed.markers[ref.syncId];
+    return base + ref.offset;
+  };
+
+  while (pending.size > 0) {
+    const ready = [...pending.keys()].filter(id =>
+      pending.get(id)!.every(([, ref]) => ref.behaviourId === undefined || solved.has(ref.behaviourId))
+    );
+
+    if (ready.length === 0) {
+      // Everything left waits on something else: break the cycle at the first behaviour
+      const [id, refs] = pending.entries().next().value as [string, Array<[BMLSyncPointName, BMLSyncRef]>];
+      const kept = refs.filter(([point, ref]) => {
+        if (ref.behaviourId === undefined || solved.has(ref.behaviourId)) return true;
+        warn('CIRCULAR_SYNC', `${point}="${ref.behaviourId}:${ref.syncId}" is part of a cycle; ignored`, id);
+        return false;
+      });
+      pending.set(id, kept);
+      continue;
+    }
+
+    for (const id of ready) {
+      const behaviour = byId.get(id)!;
+      const constraints = pending.get(id)!.map(([point, ref]) => ({ point, time: timeOf(ref) }));
+      let estimate: SpeechEstimate;
+      if (behaviour.type === 'speech') estimate = speech.get(id)!;
+      else if (behaviour.type === 'head') estimate = { duration: durations.head! * behaviour.repetition, markers: {} };
+      else estimate = { duration: durations[behaviour.type]!, markers: {} };
+
+      solved.set(id, place(behaviour, constraints, estimate, warn));
+      pending.delete(id);
+    }
+  }
+
+  const behaviours = block.behaviours.map(b => solved.get(b.id)!);
+
+  // Nothing can happen before the block starts: move the whole block later
+  const earliest = Math.min(0, ...behaviours.map(t => t.times.start));
+  if (earliest < 0) {
+    warn('CONSTRAINT', `Block would start ${(-earliest).toFixed(2)}s early; delayed`);
+    for (const timed of behaviours) {
+      for (const point of BML_SYNC_POINTS) timed.times[point] -= earliest;
+      for (const id of Object.keys(timed.markers)) timed.markers[id] -= earliest;
+    }
+  }
+
+  return {
+    blockId: block.id,
+    composition: block.composition,
+    behaviours,
+    duration: Math.max(0, ...behaviours.map(t => t.times.end)),
+    warnings,
+  };
+}
+
+function place(
+  behaviour: BMLBehaviour,
+  constraints: Array<{ point: BMLSyncPointName; time: number }>,
+  estimate: SpeechEstimate,
+  warn: (type: BMLWarning['type'], message: string, behaviourId?: string) => void
+): BMLTimedBehaviour {
+  let start = 0;
+  let duration = estimate.duration;
+
+  if (behaviour.type === 'speech') {
+    // Fixed length: the first constraint places it, the rest can only be checked
+    if (constraints.length > 0) {
+      const [first] = constraints;
+      start = first.time - PHASES[first.point] * duration;
+    }
+  } else if (constraints.length === 1) {
+    const [only] = constraints;
+    start = only.time - PHASES[only.point] * duration;
+  } else if (constraints.length > 1) {
+    const sorted = [...constraints].sort((a, b) => PHASES[a.point] - PHASES[b.point]);
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const stretched = (last.time - first.time) / (PHASES[last.point] - PHASES[first.point]);
+    if (stretched > 0) {
+      duration = stretched;
+    } else {
+      warn('CONSTRAINT', `${last.point} is not after ${first.point}; using the default duration`, behaviour.id);
+    }
+    start = first.time - PHASES[first.point] * duration;
+  }
+
+  const times = {} as Record<BMLSyncPointName, number>;
+  for (const point of BML_SYNC_POINTS) times[point] = start + PHASES[point] * duration;
+
+  for (const { point, time } of constraints) {
+    if (Math.abs(times[point] - time) > TOLERANCE) {
+      warn('CONSTRAINT', `${point} placed at ${times[point].toFixed(2)}s instead of ${time.toFixed(2)}s`, behaviour.id);
+    }
+  }
+
+  const markers: Record<string, number> = {};
+  for (const [id, offset] of Object.entries(estimate.markers)) markers[id] = start + offset;
+
+  return { behaviour, times, markers };
+}
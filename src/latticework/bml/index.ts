@@ -0,0 +1,36 @@
+/**
+ * BML Agency
+ * Exports parser, solver, machine, scheduler, service, and types
+ */
+
+export { bmlMachine } from './bmlMachine';
+export { BMLScheduler } from './bmlScheduler';
+export type { BMLHostCaps } from './bmlScheduler';
+export { createBMLService, BMLService } from './bmlService';
+export type { BMLServiceAPI } from './bmlService';
+export { parseBML, parseSyncRef, BML_FACE_LEXEMES } from './bmlParser';
+export { solveBML, estimateSpeech } from './bmlSolver';
+export type {
+  BMLSyncPointName,
+  BMLSyncRef,
+  BMLComposition,
+  BMLHeadLexeme,
+  BMLSpeechBehaviour,
+  BMLFaceBehaviour,
+  BMLGazeBehaviour,
+  BMLHeadBehaviour,
+  BMLBehaviour,
+  BMLBehaviourType,
+  BMLWarningType,
+  BMLWarning,
+  BMLBlock,
+  BMLTimedBehaviour,
+  BMLSchedule,
+  BMLBlockProgress,
+  BMLSyncPointProgress,
+  BMLBlockStatus,
+  BMLCallbacks,
+  BMLConfig,
+  BMLState,
+} from './types';
+export { BML_SYNC_POINTS, DEFAULT_BML_CONFIG, DEFAULT_BML_GAZE_TARGETS } from './types';
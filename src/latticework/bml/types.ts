@@ -0,0 +1,208 @@
+/**
+ * BML Agency Types
+ *
+ * Type definitions for the Behavior Markup Language (BML) realizer.
+ * Part of the latticework agency architecture.
+ */
+
+import type { GazeTargetInput } from '../eyeHeadTracking/types';
+
+/**
+ * Standard BML sync points, in the order they occur within a behaviour
+ */
+export type BMLSyncPointName = 'start' | 'ready' | 'strokeStart' | 'stroke' | 'strokeEnd' | 'relax' | 'end';
+
+export const BML_SYNC_POINTS: BMLSyncPointName[] = ['start', 'ready', 'strokeStart', 'stroke', 'strokeEnd', 'relax', 'end'];
+
+/**
+ * A sync point reference such as `s1:start+0.2`, `s1:tm1` or `1.5`
+ * Without a behaviour ID the offset is seconds from the start of the block.
+ */
+export interface BMLSyncRef {
+  behaviourId?: string;
+  /** Sync point name, or a <sync id="..."/> marker inside a speech behaviour */
+  syncId: string;
+  /** Seconds (may be negative) */
+  offset: number;
+}
+
+export type BMLComposition = 'MERGE' | 'APPEND' | 'REPLACE';
+
+export type BMLHeadLexeme = 'NOD' | 'SHAKE' | 'TILT';
+
+interface BMLBehaviourBase {
+  id: string;
+  /** Timing constraints from the sync point attributes */
+  sync: Partial<Record<BMLSyncPointName, BMLSyncRef>>;
+}
+
+export interface BMLSpeechBehaviour extends BMLBehaviourBase {
+  type: 'speech';
+  /** Text to speak (may contain TTS markup tags) */
+  text: string;
+  /** <sync id="..."/> markers, as character positions in `text` */
+  markers: Array<{ id: string; charIndex: number }>;
+}
+
+export interface BMLFaceBehaviour extends BMLBehaviourBase {
+  type: 'face';
+  /** Lexeme the AUs came from (e.g. RAISE_BROWS), if any */
+  lexeme?: string;
+  /** Peak value per AU (0-1) */
+  aus: Record<string, number>;
+}
+
+export interface BMLGazeBehaviour extends BMLBehaviourBase {
+  type: 'gaze';
+  target: string;
+  /** <gazeShift> keeps the new target; <gaze> looks back at the rest target at its end */
+  shift: boolean;
+}
+
+export interface BMLHeadBehaviour extends BMLBehaviourBase {
+  type: 'head';
+  lexeme: BMLHeadLexeme;
+  repetition: number;
+  amount: number;
+}
+
+export type BMLBehaviour = BMLSpeechBehaviour | BMLFaceBehaviour | BMLGazeBehaviour | BMLHeadBehaviour;
+
+export type BMLBehaviourType = BMLBehaviour['type'];
+
+export type BMLWarningType =
+  | 'PARSE'
+  | 'UNKNOWN_BEHAVIOUR'
+  | 'UNKNOWN_SYNC'
+  | 'CIRCULAR_SYNC'
+  | 'CONSTRAINT'
+  | 'INTERRUPTED';
+
+export interface BMLWarning {
+  type: BMLWarningType;
+  blockId: string;
+  behaviourId?: string;
+  message: string;
+}
+
+export interface BMLBlock {
+  id: string;
+  characterId?: string;
+  composition: BMLComposition;
+  behaviours: BMLBehaviour[];
+  /** Problems found while parsing (the block is still realized) */
+  warnings: BMLWarning[];
+}
+
+/**
+ * A behaviour with every sync point placed, in seconds from the block start
+ */
+export interface BMLTimedBehaviour {
+  behaviour: BMLBehaviour;
+  times: Record<BMLSyncPointName, number>;
+  /** Speech <sync/> markers */
+  markers: Record<string, number>;
+}
+
+/**
+ * Solved block: what to realize when, relative to the block start (seconds)
+ */
+export interface BMLSchedule {
+  blockId: string;
+  composition: BMLComposition;
+  behaviours: BMLTimedBehaviour[];
+  duration: number;
+  warnings: BMLWarning[];
+}
+
+/**
+ * Feedback - a block started or ended (BML <blockProgress>)
+ */
+export interface BMLBlockProgress {
+  blockId: string;
+  syncId: 'start' | 'end';
+  /** Seconds since the block started */
+  time: number;
+  /** Wall clock (ms since epoch) */
+  globalTime: number;
+  /** The block was stopped before its end */
+  interrupted?: boolean;
+}
+
+/**
+ * Feedback - a behaviour reached one of its sync points (BML <syncPointProgress>)
+ */
+export interface BMLSyncPointProgress {
+  blockId: string;
+  behaviourId: string;
+  syncId: string;
+  time: number;
+  globalTime: number;
+}
+
+export type BMLBlockStatus = 'pending' | 'running' | 'done' | 'interrupted';
+
+export interface BMLCallbacks {
+  onBlockProgress?: (progress: BMLBlockProgress) => void;
+  onSyncPointProgress?: (progress: BMLSyncPointProgress) => void;
+  onWarning?: (warning: BMLWarning) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface BMLConfig {
+  /** Speech rate the speech timings are estimated for (match the TTS rate) */
+  speechRate?: number;
+  /** Gaze target names (merged over DEFAULT_BML_GAZE_TARGETS) */
+  gazeTargets?: Record<string, GazeTargetInput>;
+  /** Where a <gaze> looks when it ends */
+  restTarget?: string;
+  /** Default durations (seconds) for behaviours without an end constraint */
+  defaultDurations?: Partial<Record<Exclude<BMLBehaviourType, 'speech'>, number>>;
+  /** Snippet priority for face and head behaviours */
+  priority?: number;
+}
+
+export const DEFAULT_BML_GAZE_TARGETS: Record<string, GazeTargetInput> = {
+  user: { type: 'user' },
+  camera: { type: 'user' },
+  away: { x: 0.35, y: 0.15, z: 0 },
+  up: { x: 0, y: 0.35, z: 0 },
+  down: { x: 0, y: -0.3, z: 0 },
+  left: { x: -0.35, y: 0, z: 0 },
+  right: { x: 0.35, y: 0, z: 0 },
+};
+
+export const DEFAULT_BML_CONFIG: Required<BMLConfig> = {
+  speechRate: 1.0,
+  gazeTargets: DEFAULT_BML_GAZE_TARGETS,
+  restTarget: 'user',
+  defaultDurations: { face: 2, gaze: 1.5, head: 1 },
+  priority: 6,
+};
+
+/**
+ * Events for the BML machine
+ */
+export type BMLMachineEvent =
+  | { type: 'BLOCK_QUEUED'; blockId: string }
+  | { type: 'BLOCK_STARTED'; blockId: string }
+  | { type: 'BLOCK_ENDED'; blockId: string; interrupted: boolean }
+  | { type: 'RESET' };
+
+/**
+ * Context for the BML machine
+ */
+export interface BMLContext {
+  blocks: Record<string, BMLBlockStatus>;
+  /** Running block IDs */
+  active: string[];
+  /** APPEND blocks waiting for the running ones */
+  pending: string[];
+}
+
+export interface BMLState {
+  status: 'idle' | 'realizing';
+  active: string[];
+  pending: string[];
+  blocks: Record<string, BMLBlockStatus>;
+}
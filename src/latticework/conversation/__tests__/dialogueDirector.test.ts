@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DialogueDirector } from '../dialogueDirector';
+import type { DialogueParticipant } from '../types';
+import type { ConversationService } from '../conversationService';
+import type { EyeHeadTrackingService } from '../../eyeHeadTracking/eyeHeadTrackingService';
+import type { GazeTargetInput } from '../../eyeHeadTracking/types';
+
+/**
+ * Tests for the scripted multi-avatar dialogue director.
+ *
+ * Participants are stubs: speakAgent resolves right away and records who spoke
+ * to whom, so turn order and addressees can be read back from the log.
+ */
+describe('DialogueDirector', () => {
+  let turns: Array<{ speaker: string; text: string; addressee?: GazeTargetInput }>;
+
+  const participant = (id: string): DialogueParticipant & {
+    eyeHeadTracking: { setSpeaker: ReturnType<typeof vi.fn>; setListening: ReturnType<typeof vi.fn> };
+  } => {
+    const conversation = {
+      speakAgent: vi.fn(async (text: string, options: { addressee?: GazeTargetInput } = {}) => {
+        turns.push({ speaker: id, text, addressee: options.addressee });
+      }),
+    };
+    const eyeHeadTracking = { setSpeaker: vi.fn(), setListening: vi.fn() };
+    return {
+      id,
+      conversation: conversation as unknown as ConversationService,
+      eyeHeadTracking: eyeHeadTracking as unknown as EyeHeadTrackingService & typeof eyeHeadTracking,
+      gazeAnchor: { type: 'world', position: { x: id.length, y: 0, z: 0 } },
+    };
+  };
+
+  const speakers = () => turns.map((t) => t.speaker);
+
+  beforeEach(() => {
+    turns = [];
+    vi.useFakeTimers();
+    vi.stubGlobal('window', {
+      setTimeout: (fn: () => void, ms: number) => setTimeout(fn, ms),
+      clearTimeout: (id: number) => clearTimeout(id),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  /** Run a script to completion, stepping over the gaps between turns */
+  const play = async (director: DialogueDirector, script: Parameters<DialogueDirector['run']>[0]) => {
+    const done = director.run(script);
+    await vi.runAllTimersAsync();
+    await done;
+  };
+
+  describe('Construction', () => {
+    it('should need at least two participants', () => {
+      expect(() => new DialogueDirector([participant('ann')])).toThrow(/two participants/);
+    });
+
+    it('should reject duplicate ids', () => {
+      expect(() => new DialogueDirector([participant('ann'), participant('ann')])).toThrow(/Duplicate/);
+    });
+  });
+
+  describe('Turn alternation', () => {
+    it('should alternate plain lines in participant order', async () => {
+      const director = new DialogueDirector([participant('ann'), participant('bob')], { backchannelEnabled: false });
+      await play(director, ['Hi.', 'Hello.', 'How are you?', 'Fine.']);
+      expect(speakers()).toEqual(['ann', 'bob', 'ann', 'bob']);
+    });
+
+    it('should cycle through three participants', async () => {
+      const director = new DialogueDirector(
+        [participant('ann'), participant('bob'), participant('cy')],
+        { backchannelEnabled: false }
+      );
+      await play(director, ['One.', 'Two.', 'Three.', 'Four.']);
+      expect(speakers()).toEqual(['ann', 'bob', 'cy', 'ann']);
+    });
+
+    it('should continue alternation after a named line', async () => {
+      const director = new DialogueDirector(
+        [participant('ann'), participant('bob'), participant('cy')],
+        { backchannelEnabled: false }
+      );
+      await play(director, [{ speaker: 'cy', text: 'Me first.' }, 'Then ann.']);
+      expect(speakers()).toEqual(['cy', 'ann']);
+    });
+
+    it('should report an unknown speaker through onError', async () => {
+      const onError = vi.fn();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const director = new DialogueDirector([participant('ann'), participant('bob')], {}, { onError });
+      await play(director, [{ speaker: 'zed', text: 'Who?' }]);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('zed') }));
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it('should wait turnGap between lines', async () => {
+      const director = new DialogueDirector([participant('ann'), participant('bob')], { turnGap: 500, backchannelEnabled: false });
+      const done = director.run(['Hi.', 'Hello.']);
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(speakers()).toEqual(['ann']);
+      await vi.advanceTimersByTimeAsync(499);
+      expect(speakers()).toEqual(['ann']);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(speakers()).toEqual(['ann', 'bob']);
+
+      await vi.runAllTimersAsync();
+      await done;
+    });
+
+    it('should not start another turn after stop()', async () => {
+      const onComplete = vi.fn();
+      const director = new DialogueDirector([participant('ann'), participant('bob')], { backchannelEnabled: false }, { onComplete });
+      const done = director.run(['Hi.', 'Hello.']);
+      await vi.advanceTimersByTimeAsync(0);
+      director.stop();
+      await vi.runAllTimersAsync();
+      await done;
+
+      expect(speakers()).toEqual(['ann']);
+      expect(onComplete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Addressee selection', () => {
+    it('should address the next participant on the first line', async () => {
+      const [ann, bob, cy] = [participant('ann'), participant('bob'), participant('cy')];
+      const director = new DialogueDirector([ann, bob, cy], { backchannelEnabled: false });
+      await play(director, ['Hi.']);
+      expect(turns[0].addressee).toBe(bob.gazeAnchor);
+    });
+
+    it('should answer whoever spoke last', async () => {
+      const [ann, bob, cy] = [participant('ann'), participant('bob'), participant('cy')];
+      const director = new DialogueDirector([ann, bob, cy], { backchannelEnabled: false });
+      await play(director, [{ speaker: 'cy', text: 'Question?' }, { speaker: 'ann', text: 'Answer.' }]);
+      expect(turns[1].addressee).toBe(cy.gazeAnchor);
+    });
+
+    it('should use a named addressee', async () => {
+      const [ann, bob, cy] = [participant('ann'), participant('bob'), participant('cy')];
+      const director = new DialogueDirector([ann, bob, cy], { backchannelEnabled: false });
+      await play(director, ['Hi.', { speaker: 'ann', text: 'Cy?', addressee: 'cy' }]);
+      expect(turns[1].addressee).toBe(cy.gazeAnchor);
+    });
+
+    it('should ignore a speaker naming itself', async () => {
+      const [ann, bob] = [participant('ann'), participant('bob')];
+      const director = new DialogueDirector([ann, bob], { backchannelEnabled: false });
+      await play(director, [{ speaker: 'ann', text: 'Me?', addressee: 'ann' }]);
+      expect(turns[0].addressee).toBe(bob.gazeAnchor);
+    });
+
+    it('should not address the speaker when it talks twice in a row', async () => {
+      const [ann, bob] = [participant('ann'), participant('bob')];
+      const director = new DialogueDirector([ann, bob], { backchannelEnabled: false });
+      await play(director, [{ speaker: 'ann', text: 'One.' }, { speaker: 'ann', text: 'Two.' }]);
+      expect(turns[1].addressee).toBe(bob.gazeAnchor);
+    });
+  });
+
+  describe('Listeners', () => {
+    it('should point listeners at the speaker while it talks', async () => {
+      const [ann, bob] = [participant('ann'), participant('bob')];
+      const director = new DialogueDirector([ann, bob], { backchannelEnabled: false });
+      await play(director, ['Hi.']);
+
+      expect(bob.eyeHeadTracking.setSpeaker).toHaveBeenCalledWith(ann.gazeAnchor);
+      expect(bob.eyeHeadTracking.setListening.mock.calls).toEqual([[true], [false]]);
+      expect(ann.eyeHeadTracking.setListening).not.toHaveBeenCalled();
+      // Cleared at the end of the script
+      expect(bob.eyeHeadTracking.setSpeaker).toHaveBeenLastCalledWith(null);
+    });
+
+    it('should nod additively on the head channel while listening', async () => {
+      const ann = participant('ann');
+      const bob = { ...participant('bob'), animation: { schedule: vi.fn(() => 'nod'), remove: vi.fn() } };
+      ann.conversation.speakAgent = vi.fn(() => new Promise<void>((resolve) => setTimeout(resolve, 4500)));
+      const director = new DialogueDirector([ann, bob], { backchannelMinInterval: 1000, backchannelMaxInterval: 1000 });
+      await play(director, ['A long line.']);
+
+      expect(bob.animation.schedule).toHaveBeenCalledTimes(4);
+      expect(bob.animation.schedule).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'dialogue/nod/bob',
+        snippetBlendMode: 'additive',
+        mixerChannel: 'head',
+        curves: { '54': expect.any(Array) },
+      }));
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { takeSentences, splitSentences, isAsyncIterable } from '../sentenceStream';
+
+/**
+ * Tests for splitting streamed text into sentences.
+ *
+ * Chunks are cut at awkward places on purpose (mid-word, inside "...", inside a tag),
+ * since LLM token deltas fall wherever the tokenizer puts them.
+ */
+describe('sentenceStream', () => {
+  async function* chunksOf(...chunks: string[]): AsyncGenerator<string> {
+    for (const chunk of chunks) yield chunk;
+  }
+
+  const collect = async (chunks: AsyncIterable<string>) => {
+    const sentences: string[] = [];
+    for await (const sentence of splitSentences(chunks)) sentences.push(sentence);
+    return sentences;
+  };
+
+  describe('takeSentences', () => {
+    it('should take complete sentences and keep the unfinished tail', () => {
+      expect(takeSentences('Hello there. How are you? I am')).toEqual({
+        sentences: ['Hello there.', 'How are you?'],
+        rest: 'I am',
+      });
+    });
+
+    it('should wait for whitespace after the punctuation', () => {
+      expect(takeSentences('It costs 3.5')).toEqual({ sentences: [], rest: 'It costs 3.5' });
+      expect(takeSentences('Done.')).toEqual({ sentences: [], rest: 'Done.' });
+    });
+
+    it('should not end a sentence at an abbreviation', () => {
+      expect(takeSentences('I saw Dr. Smith and Mrs. Jones today. They').sentences)
+        .toEqual(['I saw Dr. Smith and Mrs. Jones today.']);
+      expect(takeSentences('Bring fruit, e.g. apples. Thanks! ').sentences)
+        .toEqual(['Bring fruit, e.g. apples.', 'Thanks!']);
+    });
+
+    it('should keep closing quotes, brackets and markup with their sentence', () => {
+      expect(takeSentences('She said "Stop!" Then (quietly.) <emotion name="happy">Yes!</emotion> Go').sentences)
+        .toEqual(['She said "Stop!"', 'Then (quietly.)', '<emotion name="happy">Yes!</emotion>']);
+    });
+
+    it('should end sentences at line breaks', () => {
+      expect(takeSentences('First line\n\nSecond line\nThird').sentences).toEqual(['First line', 'Second line']);
+    });
+  });
+
+  describe('splitSentences', () => {
+    it('should join chunks split mid-word into whole sentences', async () => {
+      expect(await collect(chunksOf('Hel', 'lo there. Ho', 'w are you?', ' Fine'))).toEqual([
+        'Hello there.',
+        'How are you?',
+        'Fine',
+      ]);
+    });
+
+    it('should keep an ellipsis split across chunks in one sentence', async () => {
+      expect(await collect(chunksOf('Well', '..', '. I think', ' so.'))).toEqual(['Well...', 'I think so.']);
+      expect(await collect(chunksOf('Wait.', '.', '.', ' What?'))).toEqual(['Wait...', 'What?']);
+    });
+
+    it('should not split at an abbreviation that arrives in its own chunk', async () => {
+      expect(await collect(chunksOf('Ask Dr', '.', ' Smith', '. Now'))).toEqual(['Ask Dr. Smith.', 'Now']);
+    });
+
+    it('should re-open markup containers that span a sentence end', async () => {
+      expect(await collect(chunksOf('<emotion name="happy">Great news. We ', 'won!</emotion> Let us go.'))).toEqual([
+        '<emotion name="happy">Great news.',
+        '<emotion name="happy">We won!</emotion>',
+        'Let us go.',
+      ]);
+    });
+
+    it('should carry nested containers and close them in order', async () => {
+      const text = '<gaze target="away"><emphasis level="strong">One. Two.</emphasis> Three.</gaze> Four.';
+      expect(await collect(chunksOf(text))).toEqual([
+        '<gaze target="away"><emphasis level="strong">One.',
+        '<gaze target="away"><emphasis level="strong">Two.</emphasis>',
+        '<gaze target="away">Three.</gaze>',
+        'Four.',
+      ]);
+    });
+
+    it('should close the source when the consumer returns early', async () => {
+      let closed = false;
+      let pulled = 0;
+      async function* source() {
+        try {
+          for (;;) {
+            pulled++;
+            yield 'One more sentence. ';
+          }
+        } finally {
+          closed = true;
+        }
+      }
+
+      for await (const sentence of splitSentences(source())) {
+        expect(sentence).toBe('One more sentence.');
+        break;
+      }
+
+      expect(closed).toBe(true);
+      expect(pulled).toBe(1);
+    });
+
+    it('should yield nothing for an empty or blank stream', async () => {
+      expect(await collect(chunksOf())).toEqual([]);
+      expect(await collect(chunksOf('  ', '\n'))).toEqual([]);
+    });
+  });
+
+  describe('isAsyncIterable', () => {
+    it('should accept async iterables only', () => {
+      expect(isAsyncIterable(chunksOf('a'))).toBe(true);
+      expect(isAsyncIterable('text')).toBe(false);
+      expect(isAsyncIterable(['a'])).toBe(false);
+      expect(isAsyncIterable(null)).toBe(false);
+    });
+  });
+});
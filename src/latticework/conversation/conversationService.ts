@@ -9,21 +9,35 @@
  * 4. User speaks, transcription captures it
  * 5. On final transcript, send to generator
  * 6. Generator yields next response, repeat
+ *
+ * A response may be streamed (async iterable of text chunks): it is split into sentences
+ * as they arrive and queued on TTS, so speech starts while the rest is still generating.
  */
 
 import type {
+  AgentResponse,
   ConversationConfig,
   ConversationCallbacks,
   ConversationContext,
   ConversationFlow,
   ConversationServiceAPI,
+  ConversationSource,
+  SpeakAgentOptions,
 } from './types';
 import { DEFAULT_CONVERSATION_CONFIG } from './types';
 import type { TTSService } from '../tts/ttsService';
 import type { TranscriptionService } from '../transcription/transcriptionService';
+import type { BlinkServiceAPI } from '../blink/blinkService';
+import type { BackchannelServiceAPI } from '../backchannel/backchannelService';
+import type { GazeTargetInput } from '../eyeHeadTracking/types';
+import { isSceneGazeTarget } from '../eyeHeadTracking/sceneGazeTargets';
+import { stripMarkup } from '../tts/markup';
+import { isAsyncIterable, splitSentences } from './sentenceStream';
+import { DialogueSession, createDialogueFlow } from '../dialogue/dialogueSession';
+import type { DialogueFlowOptions } from '../dialogue/types';
 
 export class ConversationService implements ConversationServiceAPI {
-  private config: Required<Omit<ConversationConfig, 'eyeHeadTracking' | 'prosodicService'>> & { eyeHeadTracking?: any; prosodicService?: any };
+  private config: Required<Omit<ConversationConfig, 'eyeHeadTracking' | 'prosodicService' | 'blinkService' | 'backchannelService'>> & { eyeHeadTracking?: any; prosodicService?: any };
   private callbacks: ConversationCallbacks;
   private context: ConversationContext;
 
@@ -31,11 +45,17 @@ export class ConversationService implements ConversationServiceAPI {
   private transcription: TranscriptionService;
   private eyeHeadTracking: any; // EyeHeadTrackingService | undefined
   private prosodicService: any; // ProsodicService | undefined
+  private blinkService: BlinkServiceAPI | undefined;
+  private backchannelService: BackchannelServiceAPI | undefined;
   private flowGenerator: ConversationFlow | null = null;
 
   private isRunning = false;
   private gazeScheduleTimer: number | null = null;
 
+  // Each agent turn gets an id; a stale id means the turn was stopped or interrupted
+  private turnId = 0;
+  private cancelStream: (() => void) | null = null;
+
   constructor(
     tts: TTSService,
     transcription: TranscriptionService,
@@ -48,6 +68,15 @@ export class ConversationService implements ConversationServiceAPI {
     this.transcription = transcription;
     this.eyeHeadTracking = config.eyeHeadTracking;
     this.prosodicService = config.prosodicService;
+    this.blinkService = config.blinkService;
+    this.backchannelService = config.backchannelService;
+
+    // User word boundaries tell the backchannel agency the user is still talking
+    if (this.backchannelService) {
+      this.transcription.onBoundary((event) => {
+        if (event.speaker === 'user') this.backchannelService?.handleWordBoundary(event.word);
+      });
+    }
 
     this.context = {
       state: 'idle',
@@ -55,16 +84,17 @@ export class ConversationService implements ConversationServiceAPI {
   }
 
   /**
-   * Start conversation with a generator flow
+   * Start conversation with a generator flow, or with a chat model answering every
+   * user turn (a DialogueProvider or DialogueSession)
    */
-  public start(flowGenerator: () => ConversationFlow): void {
+  public start(source: ConversationSource, options: DialogueFlowOptions = {}): void {
     if (this.isRunning) {
       console.warn('[ConversationService] Already running');
       return;
     }
 
     this.isRunning = true;
-    this.flowGenerator = flowGenerator();
+    this.flowGenerator = this.toFlow(source, options)();
 
     console.log('[ConversationService] Starting conversation');
     this.setState('idle');
@@ -82,8 +112,12 @@ export class ConversationService implements ConversationServiceAPI {
     console.log('[ConversationService] Stopping conversation');
     this.isRunning = false;
 
+    this.cancelTurn();
     this.tts.stop();
     this.transcription.stopListening();
+    this.blinkService?.setSpeaking(false);
+    this.blinkService?.setListening(false);
+    this.backchannelService?.setListening(false);
 
     if (this.gazeScheduleTimer) {
       clearTimeout(this.gazeScheduleTimer);
@@ -101,6 +135,27 @@ export class ConversationService implements ConversationServiceAPI {
     return { ...this.context };
   }
 
+  /**
+   * Cut the agent off mid-turn: cancels a streamed response and any queued speech,
+   * then hands the floor to the user
+   */
+  public interrupt(): void {
+    if (this.context.state !== 'agentSpeaking') return;
+
+    console.log('[ConversationService] Agent interrupted');
+    this.context.isInterrupted = true;
+
+    this.cancelTurn();
+    this.tts.stop();
+    this.endAgentSpeech();
+
+    if (this.config.autoListen && this.isRunning) {
+      this.startListening();
+    } else {
+      this.setState('idle');
+    }
+  }
+
   /**
    * Submit user input programmatically
    */
@@ -109,6 +164,16 @@ export class ConversationService implements ConversationServiceAPI {
     this.handleFinalUserSpeech(text, false);
   }
 
+  /**
+   * Flow generator for a conversation source
+   */
+  private toFlow(source: ConversationSource, options: DialogueFlowOptions): () => ConversationFlow {
+    if (typeof source === 'function') return source;
+
+    const session = source instanceof DialogueSession ? source : new DialogueSession(source);
+    return createDialogueFlow(session, options);
+  }
+
   /**
    * Process the generator flow
    */
@@ -124,10 +189,10 @@ export class ConversationService implements ConversationServiceAPI {
         return;
       }
 
-      // Resolve the value (could be string or Promise<string>)
+      // Resolve the value (could be a string, a text stream, or a Promise of either)
       const agentText = await Promise.resolve(value);
 
-      if (typeof agentText !== 'string') {
+      if (typeof agentText !== 'string' && !isAsyncIterable<string>(agentText)) {
         console.warn('[ConversationService] Generator yielded non-string:', agentText);
         return;
       }
@@ -144,41 +209,190 @@ export class ConversationService implements ConversationServiceAPI {
 
   /**
    * Make agent speak
+   * Public so a DialogueDirector can drive turns between agents; the addressee is
+   * where the agent looks while talking (default: the user, straight ahead).
    */
-  private async speakAgent(text: string): Promise<void> {
+  public async speakAgent(text: AgentResponse, options: SpeakAgentOptions = {}): Promise<void> {
+    if (typeof text !== 'string') {
+      return this.speakAgentStream(text, options);
+    }
+
+    const addressee: GazeTargetInput = options.addressee ?? { x: 0, y: 0, z: 0 };
+    const turn = this.beginTurn();
+
     console.log('[ConversationService] Agent speaking:', text);
 
+    // Nonverbal markup is acted out by TTS, never shown or matched against transcripts
+    const spoken = stripMarkup(text);
+
     this.setState('agentSpeaking');
-    this.context.lastAgentSpeech = text;
+    this.context.lastAgentSpeech = spoken;
     this.context.speakStartTime = Date.now();
     this.context.isInterrupted = false;
 
-    this.callbacks.onAgentUtterance?.(text);
+    this.callbacks.onAgentUtterance?.(spoken);
+    this.backchannelService?.setListening(false);
 
     // Notify eye/head tracking that agent is speaking
     if (this.eyeHeadTracking) {
       this.eyeHeadTracking.setSpeaking(true);
       this.eyeHeadTracking.setListening(false);
-      // Look at user while speaking
-      this.eyeHeadTracking.setGazeTarget({ x: 0, y: 0, z: 0 });
+      // Look at the addressee while speaking
+      this.eyeHeadTracking.setGazeTarget(addressee);
       // Schedule natural gaze variations during speech
-      this.scheduleNaturalGazeDuringSpeech(text);
+      this.scheduleNaturalGazeDuringSpeech(spoken, addressee);
     }
 
-    // Start prosodic gestures (brow raises, head nods during speech)
+    // Speaking blink rate; word boundaries (from the TTS callbacks) are matched against this text
+    if (this.blinkService) {
+      this.blinkService.setUtterance(spoken);
+      this.blinkService.setSpeaking(true);
+    }
+
+    // Start prosodic gestures planned from the utterance (beats, question raises, negation shakes)
     if (this.prosodicService) {
-      this.prosodicService.startTalking();
+      this.prosodicService.startTalking(text);
       console.log('[ConversationService] Prosodic gestures started');
     }
 
     // Notify transcription service to filter this text (prevent echo)
     if (this.transcription.notifyAgentSpeech) {
-      this.transcription.notifyAgentSpeech(text);
+      this.transcription.notifyAgentSpeech(spoken);
     }
 
     // Speak using TTS
     await this.tts.speak(text);
+    if (turn !== this.turnId) return;
+
+    this.finishAgentTurn();
+  }
+
+  /**
+   * Speak a streamed response sentence by sentence
+   * Sentences are queued on TTS as soon as they are complete; lip-sync, prosody and
+   * blinks follow each sentence as it starts playing.
+   */
+  private async speakAgentStream(chunks: AsyncIterable<string>, options: SpeakAgentOptions): Promise<void> {
+    const addressee: GazeTargetInput = options.addressee ?? { x: 0, y: 0, z: 0 };
+    const turn = this.beginTurn();
+
+    const sentences = splitSentences(chunks);
+    let cancel = () => {};
+    const cancelled = new Promise<null>((resolve) => {
+      cancel = () => resolve(null);
+    });
+    this.cancelStream = () => {
+      cancel();
+      // Closes the source once its pending chunk settles
+      sentences.return(undefined).catch(() => {});
+    };
+
+    console.log('[ConversationService] Agent speaking (streamed)');
+
+    this.setState('agentSpeaking');
+    this.context.lastAgentSpeech = '';
+    this.context.speakStartTime = Date.now();
+    this.context.isInterrupted = false;
+
+    this.backchannelService?.setListening(false);
+
+    if (this.eyeHeadTracking) {
+      this.eyeHeadTracking.setSpeaking(true);
+      this.eyeHeadTracking.setListening(false);
+      this.eyeHeadTracking.setGazeTarget(addressee);
+    }
+    this.blinkService?.setSpeaking(true);
+
+    let spoken: Promise<void> = Promise.resolve();
+
+    try {
+      while (true) {
+        const next = sentences.next();
+        next.catch(() => {}); // Settled after a cancel; nobody awaits it then
+        const result = await Promise.race([next, cancelled]);
+        if (!result || result.done || turn !== this.turnId) break;
+
+        const sentence = result.value as string;
+        const shown = stripMarkup(sentence);
+        this.context.lastAgentSpeech = this.context.lastAgentSpeech
+          ? `${this.context.lastAgentSpeech} ${shown}`
+          : shown;
+        this.callbacks.onAgentUtterance?.(shown);
+
+        // Filter this sentence out of transcription (prevent echo)
+        this.transcription.notifyAgentSpeech?.(shown);
+
+        spoken = this.tts.enqueue(sentence, {
+          onStart: () => this.startAgentSentence(turn, sentence, addressee),
+        });
+      }
+    } catch (error) {
+      // Keep what was already generated; the turn ends after it is spoken
+      console.error('[ConversationService] Response stream error:', error);
+      this.callbacks.onError?.(error as Error);
+    }
 
+    // Wait for the queued sentences to finish playing
+    await Promise.race([spoken, cancelled]);
+    if (turn !== this.turnId) return;
+
+    this.cancelStream = null;
+    this.finishAgentTurn();
+  }
+
+  /**
+   * A streamed sentence started playing: point gaze, blinks and prosody at it
+   */
+  private startAgentSentence(turn: number, sentence: string, addressee: GazeTargetInput): void {
+    if (turn !== this.turnId) return;
+
+    if (this.eyeHeadTracking) {
+      if (this.gazeScheduleTimer) {
+        clearTimeout(this.gazeScheduleTimer);
+        this.gazeScheduleTimer = null;
+      }
+      this.scheduleNaturalGazeDuringSpeech(stripMarkup(sentence), addressee);
+    }
+
+    this.blinkService?.setUtterance(stripMarkup(sentence));
+    this.prosodicService?.startTalking(sentence);
+  }
+
+  /**
+   * Start a new agent turn, cancelling any streamed response still in progress
+   */
+  private beginTurn(): number {
+    this.cancelTurn();
+    return this.turnId;
+  }
+
+  /**
+   * Invalidate the current agent turn and cancel its stream
+   */
+  private cancelTurn(): void {
+    this.turnId++;
+    this.cancelStream?.();
+    this.cancelStream = null;
+  }
+
+  /**
+   * Agent finished its turn: wind down speaking behaviour and pass the floor
+   */
+  private finishAgentTurn(): void {
+    this.endAgentSpeech();
+
+    // After speaking, start listening for user
+    if (this.config.autoListen && this.isRunning) {
+      this.startListening();
+    } else {
+      this.setState('idle');
+    }
+  }
+
+  /**
+   * Tell transcription, gaze, blinks and prosody that the agent stopped speaking
+   */
+  private endAgentSpeech(): void {
     // Notify transcription that agent finished speaking
     if (this.transcription.notifyAgentSpeechEnd) {
       this.transcription.notifyAgentSpeechEnd();
@@ -193,18 +407,17 @@ export class ConversationService implements ConversationServiceAPI {
       }
     }
 
+    // Blink at the end of the turn
+    if (this.blinkService) {
+      this.blinkService.notifySentenceEnd();
+      this.blinkService.setSpeaking(false);
+    }
+
     // Stop prosodic gestures (gradual fade-out)
     if (this.prosodicService) {
       this.prosodicService.stopTalking();
       console.log('[ConversationService] Prosodic gestures stopping (fade-out)');
     }
-
-    // After speaking, start listening for user
-    if (this.config.autoListen && this.isRunning) {
-      this.startListening();
-    } else {
-      this.setState('idle');
-    }
   }
 
   /**
@@ -222,6 +435,9 @@ export class ConversationService implements ConversationServiceAPI {
       this.eyeHeadTracking.setGazeTarget({ x: 0, y: 0.1, z: 0 });
     }
 
+    this.blinkService?.setListening(true);
+    this.backchannelService?.setListening(true);
+
     this.transcription.startListening();
   }
 
@@ -237,6 +453,16 @@ export class ConversationService implements ConversationServiceAPI {
 
     this.callbacks.onUserSpeech?.(transcript, isFinal, isInterruption);
 
+    // Barge-in: stop talking (and generating) and let the user have the floor
+    if (isInterruption) {
+      this.interrupt();
+    }
+
+    // Listener nods, smiles and furrows while the user has the floor
+    if (this.context.state === 'userSpeaking') {
+      this.backchannelService?.handleTranscript(transcript, isFinal);
+    }
+
     if (isFinal) {
       this.handleFinalUserSpeech(transcript, isInterruption);
     }
@@ -251,6 +477,8 @@ export class ConversationService implements ConversationServiceAPI {
 
     // Stop listening
     this.transcription.stopListening();
+    this.blinkService?.setListening(false);
+    this.backchannelService?.setListening(false);
 
     // Notify eye/head tracking we're processing (thinking pose)
     if (this.eyeHeadTracking) {
@@ -259,8 +487,11 @@ export class ConversationService implements ConversationServiceAPI {
       this.eyeHeadTracking.setGazeTarget({ x: -0.2, y: -0.15, z: 0 });
       // Schedule a thoughtful blink
       setTimeout(() => {
-        if (this.eyeHeadTracking && this.context.state === 'processing') {
-          this.eyeHeadTracking.blink();
+        if (this.context.state !== 'processing') return;
+        if (this.blinkService) {
+          this.blinkService.triggerBlink();
+        } else {
+          this.eyeHeadTracking?.blink();
         }
       }, 300);
     }
@@ -285,7 +516,7 @@ export class ConversationService implements ConversationServiceAPI {
    * Schedule natural gaze shifts during agent speech
    * Creates subtle, natural eye movements while talking
    */
-  private scheduleNaturalGazeDuringSpeech(text: string): void {
+  private scheduleNaturalGazeDuringSpeech(text: string, addressee: GazeTargetInput): void {
     if (!this.eyeHeadTracking) return;
 
     // Estimate speech duration (rough approximation: 150 words per minute)
@@ -296,14 +527,18 @@ export class ConversationService implements ConversationServiceAPI {
     const gazeShiftInterval = 2000; // Shift gaze every 2 seconds
     const numShifts = Math.floor(estimatedDuration / gazeShiftInterval);
 
-    // Predefined natural gaze targets (subtle movements)
-    const gazeTargets = [
-      { x: 0, y: 0, z: 0 },        // Center (looking at user)
-      { x: -0.15, y: 0.05, z: 0 }, // Slight left-up
-      { x: 0.15, y: -0.05, z: 0 }, // Slight right-down
-      { x: 0, y: 0.1, z: 0 },      // Slight up
-      { x: -0.1, y: -0.05, z: 0 }, // Slight left-down
+    // Predefined natural gaze offsets (subtle movements around the addressee)
+    const gazeOffsets = [
+      { x: 0, y: 0 },         // Center (looking at addressee)
+      { x: -0.15, y: 0.05 },  // Slight left-up
+      { x: 0.15, y: -0.05 },  // Slight right-down
+      { x: 0, y: 0.1 },       // Slight up
+      { x: -0.1, y: -0.05 },  // Slight left-down
     ];
+    // Scene targets are held and followed, so glancing away would drop them
+    const gazeTargets: GazeTargetInput[] = isSceneGazeTarget(addressee)
+      ? [addressee]
+      : gazeOffsets.map((o) => ({ x: addressee.x + o.x, y: addressee.y + o.y, z: 0 }));
 
     let currentShift = 0;
 
@@ -0,0 +1,279 @@
+/**
+ * Dialogue Director
+ * Runs a scripted conversation between avatars
+ *
+ * Flow per turn:
+ * 1. Listeners are told who is speaking (setSpeaker + setListening, so lookAtSpeaker turns them)
+ * 2. The speaker's ConversationService speaks the line, looking at its addressee
+ * 3. Listeners back-channel with small head nods while the line plays
+ * 4. After a short gap the next line starts
+ */
+
+import type {
+  DialogueParticipant,
+  DialogueLine,
+  DialogueScript,
+  DialogueDirectorConfig,
+  DialogueDirectorCallbacks,
+  DialogueDirectorState,
+} from './types';
+import { DEFAULT_DIALOGUE_DIRECTOR_CONFIG } from './types';
+
+export class DialogueDirector {
+  private config: Required<DialogueDirectorConfig>;
+  private callbacks: DialogueDirectorCallbacks;
+  private participants: Map<string, DialogueParticipant> = new Map();
+  private order: string[] = [];
+
+  private state: DialogueDirectorState = { isRunning: false, currentSpeaker: null, turnIndex: 0 };
+  private lastSpeaker: string | null = null;
+  private backchannelTimers: Map<string, number> = new Map();
+  private gapTimer: number | null = null;
+  private resolveGap: (() => void) | null = null;
+
+  constructor(
+    participants: DialogueParticipant[],
+    config: DialogueDirectorConfig = {},
+    callbacks: DialogueDirectorCallbacks = {}
+  ) {
+    if (participants.length < 2) {
+      throw new Error('[DialogueDirector] Needs at least two participants');
+    }
+
+    for (const p of participants) {
+      if (this.participants.has(p.id)) {
+        throw new Error(`[DialogueDirector] Duplicate participant id "${p.id}"`);
+      }
+      this.participants.set(p.id, p);
+      this.order.push(p.id);
+    }
+
+    this.config = { ...DEFAULT_DIALOGUE_DIRECTOR_CONFIG, ...config };
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Play a script. Plain strings alternate between participants in order;
+   * DialogueLine entries name their speaker (and optionally addressee).
+   * Resolves when the script ends or stop() is called.
+   */
+  public async run(script: DialogueScript): Promise<void> {
+    if (this.state.isRunning) {
+      console.warn('[DialogueDirector] Already running');
+      return;
+    }
+
+    this.state = { isRunning: true, currentSpeaker: null, turnIndex: 0 };
+    this.lastSpeaker = null;
+
+    try {
+      for await (const item of script) {
+        if (!this.state.isRunning) break;
+
+        const line = this.normalizeLine(item);
+        await this.playTurn(line);
+        this.state.turnIndex++;
+
+        if (!this.state.isRunning) break;
+        await this.wait(this.config.turnGap);
+      }
+
+      if (this.state.isRunning) {
+        this.callbacks.onComplete?.();
+      }
+    } catch (error) {
+      console.error('[DialogueDirector] Script error:', error);
+      this.callbacks.onError?.(error as Error);
+    } finally {
+      this.finish();
+    }
+  }
+
+  /**
+   * Stop after the current line (no further turns are started)
+   */
+  public stop(): void {
+    if (!this.state.isRunning) return;
+    this.state.isRunning = false;
+
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+    this.resolveGap?.();
+    this.resolveGap = null;
+    this.stopBackchannels();
+  }
+
+  /**
+   * Get current state
+   */
+  public getState(): DialogueDirectorState {
+    return { ...this.state };
+  }
+
+  /**
+   * Update configuration
+   */
+  public updateConfig(config: Partial<DialogueDirectorConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Stop and release timers
+   */
+  public dispose(): void {
+    this.stop();
+    this.participants.clear();
+    this.order = [];
+  }
+
+  /**
+   * Resolve speaker/addressee for a script entry
+   */
+  private normalizeLine(item: DialogueLine | string): DialogueLine {
+    if (typeof item !== 'string') {
+      if (!this.participants.has(item.speaker)) {
+        throw new Error(`[DialogueDirector] Unknown speaker "${item.speaker}"`);
+      }
+      return item;
+    }
+
+    // Plain strings alternate in participant order
+    const lastIndex = this.lastSpeaker ? this.order.indexOf(this.lastSpeaker) : -1;
+    return { speaker: this.order[(lastIndex + 1) % this.order.length], text: item };
+  }
+
+  /**
+   * Addressee: named on the line, else whoever spoke last, else the next participant
+   */
+  private pickAddressee(line: DialogueLine): DialogueParticipant {
+    const named = line.addressee ?? (this.lastSpeaker !== line.speaker ? this.lastSpeaker : null);
+    if (named && named !== line.speaker && this.participants.has(named)) {
+      return this.participants.get(named)!;
+    }
+    const next = this.order[(this.order.indexOf(line.speaker) + 1) % this.order.length];
+    return this.participants.get(next)!;
+  }
+
+  private async playTurn(line: DialogueLine): Promise<void> {
+    const speaker = this.participants.get(line.speaker)!;
+    const addressee = this.pickAddressee(line);
+    const listeners = this.order.filter((id) => id !== line.speaker).map((id) => this.participants.get(id)!);
+
+    this.state.currentSpeaker = speaker.id;
+    this.callbacks.onTurnStart?.(line, this.state.turnIndex);
+
+    // Listeners turn toward the speaker (when their tracking has lookAtSpeaker) and start nodding
+    for (const listener of listeners) {
+      listener.eyeHeadTracking?.setSpeaker(speaker.gazeAnchor);
+      listener.eyeHeadTracking?.setListening(true);
+      this.startBackchannel(listener);
+    }
+
+    try {
+      await speaker.conversation.speakAgent(line.text, { addressee: addressee.gazeAnchor });
+    } finally {
+      this.stopBackchannels();
+      for (const listener of listeners) {
+        listener.eyeHeadTracking?.setListening(false);
+      }
+    }
+
+    this.lastSpeaker = speaker.id;
+    this.state.currentSpeaker = null;
+    this.callbacks.onTurnEnd?.(line, this.state.turnIndex);
+  }
+
+  /**
+   * Schedule nods at random intervals while the listener listens
+   */
+  private startBackchannel(listener: DialogueParticipant): void {
+    if (!this.config.backchannelEnabled || !listener.animation) return;
+
+    const { backchannelMinInterval: min, backchannelMaxInterval: max } = this.config;
+    const scheduleNext = () => {
+      const delay = min + Math.random() * Math.max(0, max - min);
+      const timer = window.setTimeout(() => {
+        if (!this.state.isRunning || !this.backchannelTimers.has(listener.id)) return;
+        this.nod(listener);
+        scheduleNext();
+      }, delay);
+      this.backchannelTimers.set(listener.id, timer);
+    };
+
+    scheduleNext();
+  }
+
+  private stopBackchannels(): void {
+    this.backchannelTimers.forEach((timer) => clearTimeout(timer));
+    this.backchannelTimers.clear();
+  }
+
+  /**
+   * One (sometimes double) head nod, additive on top of gaze
+   */
+  private nod(listener: DialogueParticipant): void {
+    const animation = listener.animation;
+    if (!animation) return;
+
+    const depth = this.config.nodIntensity * (0.7 + Math.random() * 0.6);
+    const isDouble = Math.random() < 0.3;
+    // AU 54 = head down
+    const curve = [
+      { time: 0, intensity: 0 },
+      { time: 0.18, intensity: depth },
+      { time: 0.4, intensity: 0 },
+    ];
+    if (isDouble) {
+      curve.push({ time: 0.58, intensity: depth * 0.6 }, { time: 0.8, intensity: 0 });
+    }
+
+    const name = `dialogue/nod/${listener.id}`;
+    animation.remove(name);
+    animation.schedule({
+      name,
+      curves: { '54': curve },
+      maxTime: curve[curve.length - 1].time,
+      loop: false,
+      snippetCategory: 'backchannel',
+      snippetPriority: this.config.nodPriority,
+      snippetPlaybackRate: 1,
+      snippetIntensityScale: 1,
+      snippetBlendMode: 'additive',
+      mixerChannel: 'head',
+    });
+
+    this.callbacks.onBackchannel?.(listener.id);
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.resolveGap = resolve;
+      this.gapTimer = window.setTimeout(() => {
+        this.gapTimer = null;
+        this.resolveGap = null;
+        resolve();
+      }, ms);
+    });
+  }
+
+  private finish(): void {
+    this.stop();
+    for (const p of this.participants.values()) {
+      p.eyeHeadTracking?.setSpeaker(null);
+    }
+    this.state = { ...this.state, isRunning: false, currentSpeaker: null };
+  }
+}
+
+/**
+ * Factory function to create a dialogue director
+ */
+export function createDialogueDirector(
+  participants: DialogueParticipant[],
+  config?: DialogueDirectorConfig,
+  callbacks?: DialogueDirectorCallbacks
+): DialogueDirector {
+  return new DialogueDirector(participants, config, callbacks);
+}
@@ -5,3 +5,5 @@
 
 export * from './types';
 export * from './conversationService';
+export * from './dialogueDirector';
+export * from './sentenceStream';
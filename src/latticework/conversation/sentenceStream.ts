@@ -0,0 +1,84 @@
+/**
+ * Sentence Stream
+ * Splits streamed text chunks (e.g. LLM token deltas) into whole sentences as they arrive,
+ * so speech can start on the first sentence while the rest is still generating.
+ */
+
+import { openMarkupTags } from '../tts/markup';
+
+/** Abbreviations whose trailing period does not end a sentence */
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'e.g', 'i.e', 'approx',
+]);
+
+/** Sentence end: terminal punctuation (plus closing quotes/brackets and markup tags) followed by whitespace */
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?:<\/?[a-zA-Z][^<>]*>)*\s+|\n+/g;
+
+function endsWithAbbreviation(text: string): boolean {
+  const match = /(?:^|\s)([A-Za-z.]+)\.$/.exec(text);
+  return !!match && ABBREVIATIONS.has(match[1].toLowerCase());
+}
+
+/**
+ * Take the complete sentences off the front of a buffer; `rest` is the unfinished tail
+ */
+export function takeSentences(buffer: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  SENTENCE_END.lastIndex = 0;
+  while ((match = SENTENCE_END.exec(buffer)) !== null) {
+    const end = match.index + match[0].length;
+    const candidate = buffer.slice(start, end).trim();
+    if (endsWithAbbreviation(candidate)) continue;
+
+    if (candidate) sentences.push(candidate);
+    start = end;
+  }
+
+  return { sentences, rest: buffer.slice(start) };
+}
+
+/**
+ * Yield whole sentences from a stream of text chunks; whatever is left when the
+ * stream ends is yielded as the last sentence. Returning early closes the source.
+ * Markup containers (<emotion>, <gaze>, <emphasis>) spanning a sentence end are
+ * re-opened at the start of the next sentence.
+ */
+export async function* splitSentences(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<string, void, undefined> {
+  let buffer = '';
+  let open: string[] = [];
+
+  const carryMarkup = (sentence: string) => {
+    const carried = open.join('') + sentence;
+    open = openMarkupTags(sentence, open);
+    return carried;
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const { sentences, rest } = takeSentences(buffer);
+    buffer = rest;
+    for (const sentence of sentences) {
+      yield carryMarkup(sentence);
+    }
+  }
+
+  const last = buffer.trim();
+  if (last) {
+    yield carryMarkup(last);
+  }
+}
+
+/**
+ * Whether a value can be consumed with `for await`
+ */
+export function isAsyncIterable<T = unknown>(value: unknown): value is AsyncIterable<T> {
+  return (
+    value != null &&
+    typeof (value as AsyncIterable<T>)[Symbol.asyncIterator] === 'function'
+  );
+}
@@ -6,6 +6,12 @@
 import type { TTSService } from '../tts/ttsService';
 import type { TranscriptionService } from '../transcription/transcriptionService';
 import type { EyeHeadTrackingService } from '../eyeHeadTracking/eyeHeadTrackingService';
+import type { GazeTargetInput } from '../eyeHeadTracking/types';
+import type { BlinkServiceAPI } from '../blink/blinkService';
+import type { BackchannelServiceAPI } from '../backchannel/backchannelService';
+import type { DialogueFlowOptions, DialogueProvider } from '../dialogue/types';
+import type { DialogueSession } from '../dialogue/dialogueSession';
+import type { ConversationService } from './conversationService';
 
 export interface ConversationConfig {
   /** Enable automatic listening after agent finishes speaking */
@@ -18,12 +24,16 @@ export interface ConversationConfig {
   eyeHeadTracking?: EyeHeadTrackingService;
   /** Optional prosodic service for speech-synchronized gestures (brow raises, head nods) */
   prosodicService?: any; // ProsodicService
+  /** Optional blink service; told when the agent speaks/listens and what it is saying */
+  blinkService?: BlinkServiceAPI;
+  /** Optional backchannel service; nods, smiles and "mm-hm"s while the user talks */
+  backchannelService?: BackchannelServiceAPI;
 }
 
 export interface ConversationCallbacks {
   /** Called when user speaks (partial or final) */
   onUserSpeech?: (transcript: string, isFinal: boolean, isInterruption: boolean) => void;
-  /** Called when agent speaks */
+  /** Called when agent speaks (once per sentence for a streamed response), without markup tags */
   onAgentUtterance?: (text: string) => void;
   /** Called on state transitions */
   onStateChange?: (state: ConversationState) => void;
@@ -41,21 +51,42 @@ export interface ConversationContext {
   speakStartTime?: number;
 }
 
+/**
+ * What the agent says: the whole text, or text chunks streamed as they are generated
+ * (spoken sentence by sentence while the rest is still arriving)
+ */
+export type AgentResponse = string | AsyncIterable<string>;
+
 /**
  * Generator function that yields agent responses
  * Takes user input, returns agent response
  */
-export type ConversationFlow = Generator<string | Promise<string>, string | void, string>;
+export type ConversationFlow = Generator<AgentResponse | Promise<AgentResponse>, string | void, string>;
+
+/**
+ * What drives the agent's side: a flow generator, or a chat model - any DialogueProvider
+ * (wrapped in a fresh session) or a DialogueSession with its system prompt, tools and history
+ */
+export type ConversationSource = (() => ConversationFlow) | DialogueSession | DialogueProvider;
+
+export interface SpeakAgentOptions {
+  /** Who the agent is talking to (default: the user, straight ahead) */
+  addressee?: GazeTargetInput;
+}
 
 export interface ConversationServiceAPI {
-  /** Start the conversation */
-  start: (flowGenerator: () => ConversationFlow) => void;
+  /** Start the conversation (options apply to dialogue providers/sessions) */
+  start: (source: ConversationSource, options?: DialogueFlowOptions) => void;
   /** Stop the conversation */
   stop: () => void;
   /** Get current state */
   getState: () => ConversationContext;
   /** Send user input programmatically (for testing/debugging) */
   submitUserInput: (text: string) => void;
+  /** Speak one line outside the flow (e.g. when a DialogueDirector drives the turns) */
+  speakAgent: (text: AgentResponse, options?: SpeakAgentOptions) => Promise<void>;
+  /** Cut the agent off: cancel a streamed response and any queued speech */
+  interrupt: () => void;
 }
 
 export const DEFAULT_CONVERSATION_CONFIG = {
@@ -64,3 +95,83 @@ export const DEFAULT_CONVERSATION_CONFIG = {
   minSpeakTime: 500, // 500ms
   eyeHeadTracking: undefined,
 };
+
+/**
+ * An avatar taking part in a DialogueDirector conversation
+ */
+export interface DialogueParticipant {
+  id: string;
+  /** Speaks this participant's lines (its own TTS, eye/head tracking, prosody) */
+  conversation: ConversationService;
+  /**
+   * Told who is speaking while this participant listens. It only turns toward the
+   * speaker if it was created with `lookAtSpeaker: true` (default false); the
+   * director doesn't change its config.
+   */
+  eyeHeadTracking?: EyeHeadTrackingService;
+  /** Animation service used for back-channel nods */
+  animation?: {
+    schedule: (snippet: any) => string | null;
+    remove: (name: string) => void;
+  };
+  /** Where others look while this participant talks (usually its head bone) */
+  gazeAnchor: GazeTargetInput;
+}
+
+/**
+ * One scripted line
+ */
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+  /** Who the line is addressed to (default: whoever spoke last) */
+  addressee?: string;
+}
+
+/**
+ * Lines to play; plain strings alternate between participants in order
+ */
+export type DialogueScript = Iterable<DialogueLine | string> | AsyncIterable<DialogueLine | string>;
+
+export interface DialogueDirectorConfig {
+  /** Pause between turns (ms) */
+  turnGap?: number;
+  /** Listeners nod while others speak */
+  backchannelEnabled?: boolean;
+  /** Minimum time between nods (ms) */
+  backchannelMinInterval?: number;
+  /** Maximum time between nods (ms) */
+  backchannelMaxInterval?: number;
+  /** Nod depth (0-1, AU 54) */
+  nodIntensity?: number;
+  /** Animation priority for nods */
+  nodPriority?: number;
+}
+
+export interface DialogueDirectorCallbacks {
+  /** Called when a line starts */
+  onTurnStart?: (line: DialogueLine, turnIndex: number) => void;
+  /** Called when a line finishes */
+  onTurnEnd?: (line: DialogueLine, turnIndex: number) => void;
+  /** Called when a listener nods */
+  onBackchannel?: (listenerId: string) => void;
+  /** Called when the script runs out */
+  onComplete?: () => void;
+  /** Called on errors */
+  onError?: (error: Error) => void;
+}
+
+export interface DialogueDirectorState {
+  isRunning: boolean;
+  currentSpeaker: string | null;
+  turnIndex: number;
+}
+
+export const DEFAULT_DIALOGUE_DIRECTOR_CONFIG = {
+  turnGap: 400,
+  backchannelEnabled: true,
+  backchannelMinInterval: 1500,
+  backchannelMaxInterval: 3500,
+  nodIntensity: 0.25,
+  nodPriority: 30,
+};
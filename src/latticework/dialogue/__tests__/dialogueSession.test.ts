@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DialogueSession } from '../dialogueSession';
+import { createScriptedProvider } from '../scriptedProvider';
+import type { ScriptedProvider } from '../scriptedProvider';
+import type { DialogueProvider, DialogueStreamEvent, DialogueTool } from '../types';
+
+/**
+ * Tests for DialogueSession: streaming, tool rounds, interruptions and history shape.
+ *
+ * Responses come from the scripted provider, whose `requests` show exactly what the
+ * session sent to the model each round.
+ */
+describe('DialogueSession', () => {
+  const weather: DialogueTool = {
+    name: 'weather',
+    description: 'Current weather for a city',
+    inputSchema: { type: 'object', properties: { city: { type: 'string' } } },
+    handler: vi.fn(async (input) => ({ city: input.city, sky: 'sunny' })),
+  };
+
+  const collect = async (chunks: AsyncIterable<string>) => {
+    let text = '';
+    for await (const chunk of chunks) text += chunk;
+    return text;
+  };
+
+  /** Emits the scripted tool calls before the text, so a reply can be cut off after a call */
+  const toolCallsFirst = (scripted: ScriptedProvider): DialogueProvider => ({
+    name: scripted.name,
+    async *stream(request) {
+      const events: DialogueStreamEvent[] = [];
+      for await (const event of scripted.stream(request)) events.push(event);
+      yield* events.filter(e => e.type === 'tool_call');
+      yield* events.filter(e => e.type !== 'tool_call');
+    },
+  });
+
+  it('should stream the reply and record both turns', async () => {
+    const provider = createScriptedProvider(['Hello, nice to meet you.'], { chunkSize: 5 });
+    const onResponse = vi.fn();
+    const session = new DialogueSession(provider, { system: 'Be brief.' }, { onResponse });
+
+    const chunks: string[] = [];
+    for await (const chunk of session.respond('Hi')) chunks.push(chunk);
+
+    expect(chunks[0]).toBe('Hello');
+    expect(chunks.join('')).toBe('Hello, nice to meet you.');
+    expect(provider.requests[0].system).toBe('Be brief.');
+    expect(session.getHistory()).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello, nice to meet you.', toolCalls: undefined },
+    ]);
+    expect(onResponse).toHaveBeenCalledWith('Hello, nice to meet you.');
+  });
+
+  it('should run a tool round and send the result back to the model', async () => {
+    const provider = createScriptedProvider([
+      { text: 'Let me check. ', toolCalls: [{ id: 'call_1', name: 'weather', input: { city: 'Paris' } }] },
+      'It is sunny in Paris.',
+    ]);
+    const onToolCall = vi.fn();
+    const onToolResult = vi.fn();
+    const session = new DialogueSession(provider, { tools: [weather] }, { onToolCall, onToolResult });
+
+    expect(await collect(session.respond('Weather in Paris?'))).toBe('Let me check. It is sunny in Paris.');
+
+    const result = { toolCallId: 'call_1', content: '{"city":"Paris","sky":"sunny"}' };
+    expect(weather.handler).toHaveBeenCalledWith({ city: 'Paris' });
+    expect(onToolCall).toHaveBeenCalledWith(expect.objectContaining({ id: 'call_1', name: 'weather' }));
+    expect(onToolResult).toHaveBeenCalledWith(result);
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].messages.map(m => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(session.getHistory()).toEqual([
+      { role: 'user', content: 'Weather in Paris?' },
+      { role: 'assistant', content: 'Let me check. ', toolCalls: [{ id: 'call_1', name: 'weather', input: { city: 'Paris' } }] },
+      { role: 'user', content: '', toolResults: [result] },
+      { role: 'assistant', content: 'It is sunny in Paris.', toolCalls: undefined },
+    ]);
+  });
+
+  it('should report unknown and failing tools to the model as errors', async () => {
+    const broken: DialogueTool = {
+      name: 'broken',
+      description: 'Always fails',
+      inputSchema: {},
+      handler: () => { throw new Error('Service down'); },
+    };
+    const provider = createScriptedProvider([
+      { toolCalls: [{ id: 'a', name: 'broken', input: {} }, { id: 'b', name: 'missing', input: {} }] },
+      'Sorry, I could not find out.',
+    ]);
+    const session = new DialogueSession(provider, { tools: [broken] });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await collect(session.respond('Try it'));
+
+    expect(session.getHistory()[2].toolResults).toEqual([
+      { toolCallId: 'a', content: 'Service down', isError: true },
+      { toolCallId: 'b', content: 'Unknown tool: missing', isError: true },
+    ]);
+    consoleError.mockRestore();
+  });
+
+  it('should stop after maxToolRounds even if the model keeps calling tools', async () => {
+    const provider = createScriptedProvider(
+      [{ text: 'Checking. ', toolCalls: [{ name: 'weather', input: { city: 'Oslo' } }] }],
+      { loop: true }
+    );
+    const session = new DialogueSession(provider, { tools: [weather], maxToolRounds: 2 });
+
+    expect(await collect(session.respond('Weather?'))).toBe('Checking. Checking. ');
+
+    expect(provider.requests).toHaveLength(2);
+    const history = session.getHistory();
+    expect(history.map(m => m.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user']);
+    expect(history[4].toolResults).toHaveLength(1);
+  });
+
+  it('should close an interrupted turn with error results for its pending tool calls', async () => {
+    const scripted = createScriptedProvider([
+      { text: 'Sure, one moment while I look that up.', toolCalls: [{ id: 'call_1', name: 'weather', input: { city: 'Rome' } }] },
+    ], { chunkSize: 4 });
+    const onResponse = vi.fn();
+    const session = new DialogueSession(toolCallsFirst(scripted), { tools: [weather] }, { onResponse });
+
+    for await (const chunk of session.respond('Weather in Rome?')) {
+      expect(chunk).toBe('Sure');
+      break;
+    }
+
+    expect(scripted.requests[0].signal?.aborted).toBe(true);
+    expect(onResponse).toHaveBeenCalledWith('Sure');
+    expect(session.getHistory()).toEqual([
+      { role: 'user', content: 'Weather in Rome?' },
+      { role: 'assistant', content: 'Sure', toolCalls: [{ id: 'call_1', name: 'weather', input: { city: 'Rome' } }] },
+      {
+        role: 'user',
+        content: '',
+        toolResults: [{ toolCallId: 'call_1', content: 'Interrupted before the tool ran', isError: true }],
+      },
+    ]);
+  });
+
+  it('should keep what was said before an interruption without tool calls', async () => {
+    const provider = createScriptedProvider(['Once upon a time there was a fox.'], { chunkSize: 10 });
+    const session = new DialogueSession(provider);
+
+    const iterator = session.respond('Tell me a story');
+    await iterator.next();
+    await iterator.return(undefined);
+
+    expect(session.getHistory()).toEqual([
+      { role: 'user', content: 'Tell me a story' },
+      { role: 'assistant', content: 'Once upon ', toolCalls: undefined },
+    ]);
+  });
+
+  describe('Role alternation', () => {
+    it('should merge a new user message into a trailing user message', async () => {
+      const scripted = createScriptedProvider([
+        { text: 'Sure, let me see.', toolCalls: [{ id: 'call_1', name: 'weather', input: { city: 'Rome' } }] },
+        'Okay, what then?',
+      ]);
+      const session = new DialogueSession(toolCallsFirst(scripted), { tools: [weather] });
+
+      for await (const _chunk of session.respond('Weather in Rome?')) break;
+      expect(await collect(session.respond('Actually, never mind.'))).toBe('Okay, what then?');
+
+      const sent = scripted.requests[1].messages;
+      expect(sent.map(m => m.role)).toEqual(['user', 'assistant', 'user']);
+      expect(sent[2]).toEqual({
+        role: 'user',
+        content: 'Actually, never mind.',
+        toolResults: [{ toolCallId: 'call_1', content: 'Interrupted before the tool ran', isError: true }],
+      });
+    });
+
+    it('should join consecutive user texts from a restored history', async () => {
+      const provider = createScriptedProvider(['Both noted.']);
+      const session = new DialogueSession(provider, { history: [{ role: 'user', content: 'First thought.' }] });
+
+      await collect(session.respond('Second thought.'));
+
+      expect(provider.requests[0].messages).toEqual([
+        { role: 'user', content: 'First thought.\nSecond thought.', toolResults: [] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Anthropic Provider
+ * DialogueProvider backed by the Anthropic Messages API (streaming, tool use)
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  DialogueMessage,
+  DialogueProvider,
+  DialogueRequest,
+  DialogueStopReason,
+  DialogueStreamEvent,
+  DialogueTool,
+} from './types';
+
+export interface AnthropicProviderConfig {
+  /** API key (ignored when a client is given) */
+  apiKey?: string;
+  /** Use an existing client instead of creating one */
+  client?: Anthropic;
+  /** Models to try in order; the next is only tried if one fails before producing output */
+  models?: string[];
+  /** API base URL, e.g. a proxy that keeps the key server-side */
+  baseURL?: string;
+  /** Allow calling the API straight from the browser with a user-supplied key */
+  dangerouslyAllowBrowser?: boolean;
+}
+
+export const DEFAULT_ANTHROPIC_MODELS = ['claude-sonnet-4-5', 'claude-3-haiku-20240307'];
+
+const STOP_REASONS: Record<string, DialogueStopReason> = {
+  end_turn: 'end_turn',
+  max_tokens: 'max_tokens',
+  tool_use: 'tool_use',
+  stop_sequence: 'stop_sequence',
+};
+
+/**
+ * Convert history to Anthropic message params (empty messages are dropped)
+ */
+function toAnthropicMessages(messages: DialogueMessage[]): Anthropic.MessageParam[] {
+  const result: Anthropic.MessageParam[] = [];
+
+  for (const message of messages) {
+    const blocks: Anthropic.ContentBlockParam[] = [];
+
+    for (const toolResult of message.toolResults ?? []) {
+      blocks.push({
+        type: 'tool_result',
+        tool_use_id: toolResult.toolCallId,
+        content: toolResult.content,
+        is_error: toolResult.isError,
+      });
+    }
+    if (message.content) {
+      blocks.push({ type: 'text', text: message.content });
+    }
+    for (const call of message.toolCalls ?? []) {
+      blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.input });
+    }
+
+    if (blocks.length > 0) {
+      result.push({ role: message.role, content: blocks });
+    }
+  }
+
+  return result;
+}
+
+function toAnthropicTools(tools: DialogueTool[]): Anthropic.Tool[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: { type: 'object', ...tool.inputSchema } as Anthropic.Tool.InputSchema,
+  }));
+}
+
+/**
+ * Create a DialogueProvider for the Anthropic Messages API
+ */
+export function createAnthropicProvider(config: AnthropicProviderConfig = {}): DialogueProvider {
+  const client = config.client ?? new Anthropic({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+    dangerouslyAllowBrowser: config.dangerouslyAllowBrowser ?? false,
+  });
+  const models = config.models?.length ? config.models : DEFAULT_ANTHROPIC_MODELS;
+
+  async function* streamModel(model: string, request: DialogueRequest): AsyncGenerator<DialogueStreamEvent> {
+    const stream = client.messages.stream(
+      {
+        model,
+        max_tokens: request.maxTokens ?? 512,
+        system: request.system,
+        messages: toAnthropicMessages(request.messages),
+        tools: request.tools?.length ? toAnthropicTools(request.tools) : undefined,
+        temperature: request.temperature,
+      },
+      { signal: request.signal }
+    );
+
+    // Tool inputs arrive as JSON fragments per content block
+    const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+    let stopReason: DialogueStopReason = 'unknown';
+
+    try {
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'content_block_start':
+            if (event.content_block.type === 'tool_use') {
+              toolBlocks.set(event.index, {
+                id: event.content_block.id,
+                name: event.content_block.name,
+                json: '',
+              });
+            }
+            break;
+
+          case 'content_block_delta':
+            if (event.delta.type === 'text_delta') {
+              yield { type: 'text', text: event.delta.text };
+            } else if (event.delta.type === 'input_json_delta') {
+              const block = toolBlocks.get(event.index);
+              if (block) block.json += event.delta.partial_json;
+            }
+            break;
+
+          case 'content_block_stop': {
+            const block = toolBlocks.get(event.index);
+            if (block) {
+              toolBlocks.delete(event.index);
+              yield {
+                type: 'tool_call',
+                call: { id: block.id, name: block.name, input: block.json ? JSON.parse(block.json) : {} },
+              };
+            }
+            break;
+          }
+
+          case 'message_delta':
+            stopReason = STOP_REASONS[event.delta.stop_reason ?? ''] ?? 'unknown';
+            break;
+        }
+      }
+    } finally {
+      // Interrupted or failed: stop generating
+      if (!stream.ended) stream.abort();
+    }
+
+    yield { type: 'done', stopReason };
+  }
+
+  return {
+    name: 'anthropic',
+
+    async *stream(request: DialogueRequest): AsyncGenerator<DialogueStreamEvent> {
+      let lastError: unknown = null;
+
+      for (const model of models) {
+        let producedOutput = false;
+        try {
+          for await (const event of streamModel(model, request)) {
+            producedOutput = true;
+            yield event;
+          }
+          return;
+        } catch (error) {
+          // Only fall back to the next model if nothing has been said yet
+          if (producedOutput || request.signal?.aborted) throw error;
+          lastError = error;
+          console.warn(`[AnthropicProvider] Model ${model} failed:`, (error as Error)?.message || error);
+        }
+      }
+
+      throw lastError ?? new Error('No response from Anthropic');
+    },
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Dialogue Session
+ * Keeps the message history and system prompt for one conversation, streams responses
+ * from any DialogueProvider and runs tool calls between model turns.
+ */
+
+import type { ConversationFlow } from '../conversation/types';
+import type {
+  DialogueFlowOptions,
+  DialogueMessage,
+  DialogueProvider,
+  DialogueSessionCallbacks,
+  DialogueSessionConfig,
+  DialogueToolCall,
+  DialogueToolResult,
+} from './types';
+import { DEFAULT_DIALOGUE_SESSION_CONFIG } from './types';
+
+export class DialogueSession {
+  private provider: DialogueProvider;
+  private config: DialogueSessionConfig & typeof DEFAULT_DIALOGUE_SESSION_CONFIG;
+  private callbacks: DialogueSessionCallbacks;
+  private history: DialogueMessage[];
+  private controller: AbortController | null = null;
+
+  constructor(
+    provider: DialogueProvider,
+    config: DialogueSessionConfig = {},
+    callbacks: DialogueSessionCallbacks = {}
+  ) {
+    this.provider = provider;
+    this.config = { ...DEFAULT_DIALOGUE_SESSION_CONFIG, ...config };
+    this.callbacks = callbacks;
+    this.history = [...(config.history ?? [])];
+  }
+
+  /**
+   * Stream the response to a user message
+   * Tool calls are run and their results sent back until the model answers (or
+   * maxToolRounds is reached). Returning early (an interruption) aborts the request;
+   * whatever was said so far stays in the history.
+   */
+  public async *respond(userText: string): AsyncGenerator<string, void, undefined> {
+    // One response at a time
+    this.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+
+    this.pushUserMessage({ role: 'user', content: userText });
+
+    let said = '';
+    let roundText = '';
+    let roundToolCalls: DialogueToolCall[] = [];
+    let finished = false;
+
+    try {
+      for (let round = 0; round < this.config.maxToolRounds; round++) {
+        roundText = '';
+        roundToolCalls = [];
+
+        const events = this.provider.stream({
+          system: this.config.system,
+          messages: [...this.history],
+          tools: this.config.tools,
+          maxTokens: this.config.maxTokens,
+          temperature: this.config.temperature,
+          signal: controller.signal,
+        });
+
+        for await (const event of events) {
+          if (event.type === 'text') {
+            roundText += event.text;
+            said += event.text;
+            yield event.text;
+          } else if (event.type === 'tool_call') {
+            roundToolCalls.push(event.call);
+          }
+        }
+
+        this.history.push({
+          role: 'assistant',
+          content: roundText,
+          toolCalls: roundToolCalls.length > 0 ? roundToolCalls : undefined,
+        });
+        const toolCalls = roundToolCalls;
+        roundText = '';
+        roundToolCalls = [];
+
+        if (toolCalls.length === 0) break;
+
+        const results = await Promise.all(toolCalls.map((call) => this.runTool(call)));
+        this.pushUserMessage({ role: 'user', content: '', toolResults: results });
+      }
+      finished = true;
+    } catch (error) {
+      // Aborted by an interruption, not a failure
+      if (controller.signal.aborted) return;
+
+      console.error(`[DialogueSession] ${this.provider.name} error:`, error);
+      this.callbacks.onError?.(error as Error);
+      throw error;
+    } finally {
+      if (!finished) {
+        controller.abort();
+        this.closeInterruptedTurn(roundText, roundToolCalls);
+      }
+      if (this.controller === controller) {
+        this.controller = null;
+      }
+      this.callbacks.onResponse?.(said);
+    }
+  }
+
+  /**
+   * Abort the response in progress
+   */
+  public abort(): void {
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  /**
+   * Message history (copy)
+   */
+  public getHistory(): DialogueMessage[] {
+    return this.history.map((message) => ({ ...message }));
+  }
+
+  /**
+   * Replace the history (e.g. restore a saved conversation)
+   */
+  public setHistory(history: DialogueMessage[]): void {
+    this.history = [...history];
+  }
+
+  /**
+   * Update system prompt, tools or limits for the next response
+   */
+  public updateConfig(config: Partial<Omit<DialogueSessionConfig, 'history'>>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Switch to another provider (the history carries over)
+   */
+  public setProvider(provider: DialogueProvider): void {
+    this.abort();
+    this.provider = provider;
+  }
+
+  public getProvider(): DialogueProvider {
+    return this.provider;
+  }
+
+  /**
+   * Clear the history
+   */
+  public reset(): void {
+    this.abort();
+    this.history = [];
+  }
+
+  /**
+   * Append a user message, merging into a trailing user message so roles keep alternating
+   */
+  private pushUserMessage(message: DialogueMessage): void {
+    const last = this.history[this.history.length - 1];
+    if (last?.role !== 'user') {
+      this.history.push(message);
+      return;
+    }
+
+    this.history[this.history.length - 1] = {
+      role: 'user',
+      content: [last.content, message.content].filter(Boolean).join('\n'),
+      toolResults: [...(last.toolResults ?? []), ...(message.toolResults ?? [])],
+    };
+  }
+
+  /**
+   * Keep a cut-off response in the history and answer its pending tool calls,
+   * so the next request is still well-formed
+   */
+  private closeInterruptedTurn(text: string, toolCalls: DialogueToolCall[]): void {
+    if (text || toolCalls.length > 0) {
+      this.history.push({
+        role: 'assistant',
+        content: text,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      });
+    }
+
+    const last = this.history[this.history.length - 1];
+    if (last?.role === 'assistant' && last.toolCalls?.length) {
+      this.pushUserMessage({
+        role: 'user',
+        content: '',
+        toolResults: last.toolCalls.map((call) => ({
+          toolCallId: call.id,
+          content: 'Interrupted before the tool ran',
+          isError: true,
+        })),
+      });
+    }
+  }
+
+  /**
+   * Run one tool call; failures are reported to the model rather than thrown
+   */
+  private async runTool(call: DialogueToolCall): Promise<DialogueToolResult> {
+    this.callbacks.onToolCall?.(call);
+
+    const tool = this.config.tools?.find((t) => t.name === call.name);
+    let result: DialogueToolResult;
+
+    if (!tool?.handler) {
+      result = { toolCallId: call.id, content: `Unknown tool: ${call.name}`, isError: true };
+    } else {
+      try {
+        const output = await tool.handler(call.input);
+        result = {
+          toolCallId: call.id,
+          content: typeof output === 'string' ? output : JSON.stringify(output ?? null),
+        };
+      } catch (error) {
+        console.error(`[DialogueSession] Tool ${call.name} failed:`, error);
+        result = { toolCallId: call.id, content: (error as Error).message, isError: true };
+      }
+    }
+
+    this.callbacks.onToolResult?.(result);
+    return result;
+  }
+}
+
+/**
+ * Create a dialogue session for a provider
+ */
+export function createDialogueSession(
+  provider: DialogueProvider,
+  config?: DialogueSessionConfig,
+  callbacks?: DialogueSessionCallbacks
+): DialogueSession {
+  return new DialogueSession(provider, config, callbacks);
+}
+
+/**
+ * Conversation flow that answers every user turn with a streamed session response
+ */
+export function createDialogueFlow(
+  session: DialogueSession,
+  options: DialogueFlowOptions = {}
+): () => ConversationFlow {
+  const { greeting, transform } = options;
+
+  return function* () {
+    // Empty input only starts listening
+    let userInput: string = yield greeting ?? '';
+
+    while (true) {
+      if (!userInput || userInput.trim() === '') {
+        userInput = yield '';
+        continue;
+      }
+
+      const response = session.respond(userInput);
+      userInput = yield transform ? transform(response) : response;
+    }
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Dialogue
+ * Pluggable chat model providers and the session that drives conversation flows
+ */
+
+export { DialogueSession, createDialogueSession, createDialogueFlow } from './dialogueSession';
+export { createAnthropicProvider, DEFAULT_ANTHROPIC_MODELS } from './anthropicProvider';
+export type { AnthropicProviderConfig } from './anthropicProvider';
+export {
+  createOpenAICompatibleProvider,
+  DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+} from './openAICompatibleProvider';
+export type { OpenAICompatibleProviderConfig } from './openAICompatibleProvider';
+export { createScriptedProvider } from './scriptedProvider';
+export type {
+  ScriptedProvider,
+  ScriptedProviderConfig,
+  ScriptedResponse,
+  ScriptedTurn,
+} from './scriptedProvider';
+export type {
+  DialogueRole,
+  DialogueToolCall,
+  DialogueToolResult,
+  DialogueMessage,
+  DialogueTool,
+  DialogueRequest,
+  DialogueStopReason,
+  DialogueStreamEvent,
+  DialogueProvider,
+  DialogueSessionConfig,
+  DialogueSessionCallbacks,
+  DialogueFlowOptions,
+} from './types';
+export { DEFAULT_DIALOGUE_SESSION_CONFIG } from './types';
@@ -0,0 +1,191 @@
+/**
+ * OpenAI-Compatible Provider
+ * DialogueProvider for any server speaking the OpenAI chat completions API with streaming
+ * (llama.cpp server, Ollama, vLLM, LM Studio, OpenAI itself, ...)
+ */
+
+import type {
+  DialogueMessage,
+  DialogueProvider,
+  DialogueRequest,
+  DialogueStopReason,
+  DialogueStreamEvent,
+  DialogueTool,
+} from './types';
+
+export interface OpenAICompatibleProviderConfig {
+  /** Base URL up to and including the API version, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  model: string;
+  /** Sent as a bearer token when set (local servers usually need none) */
+  apiKey?: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Provider name for logs */
+  name?: string;
+}
+
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+const STOP_REASONS: Record<string, DialogueStopReason> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+  tool_calls: 'tool_use',
+  function_call: 'tool_use',
+};
+
+/**
+ * Convert system prompt and history to chat completion messages
+ */
+function toChatMessages(system: string | undefined, messages: DialogueMessage[]): any[] {
+  const result: any[] = [];
+  if (system) {
+    result.push({ role: 'system', content: system });
+  }
+
+  for (const message of messages) {
+    // Tool results are their own messages, answering the assistant's tool calls
+    for (const toolResult of message.toolResults ?? []) {
+      result.push({ role: 'tool', tool_call_id: toolResult.toolCallId, content: toolResult.content });
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.input) },
+        })),
+      });
+    } else if (message.content) {
+      result.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return result;
+}
+
+function toChatTools(tools: DialogueTool[]): any[] {
+  return tools.map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: { type: 'object', ...tool.inputSchema },
+    },
+  }));
+}
+
+/**
+ * Server-sent event data payloads from a streamed response body
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+
+    const last = buffer.trim();
+    if (last.startsWith('data:')) {
+      yield last.slice(5).trim();
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Create a DialogueProvider for an OpenAI-compatible chat completions endpoint
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleProviderConfig): DialogueProvider {
+  const baseUrl = (config.baseUrl ?? DEFAULT_OPENAI_COMPATIBLE_BASE_URL).replace(/\/+$/, '');
+  const name = config.name ?? 'openai-compatible';
+
+  return {
+    name,
+
+    async *stream(request: DialogueRequest): AsyncGenerator<DialogueStreamEvent> {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+          ...config.headers,
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: toChatMessages(request.system, request.messages),
+          tools: request.tools?.length ? toChatTools(request.tools) : undefined,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: true,
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`${name} request failed: ${response.status} ${response.statusText}`);
+      }
+
+      // Tool calls arrive in fragments keyed by index
+      const toolCalls = new Map<number, { id: string; name: string; args: string }>();
+      let stopReason: DialogueStopReason = 'unknown';
+
+      for await (const data of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') break;
+
+        const chunk = JSON.parse(data);
+        const choice = chunk.choices?.[0];
+        if (!choice) continue;
+
+        const delta = choice.delta ?? {};
+        if (typeof delta.content === 'string' && delta.content) {
+          yield { type: 'text', text: delta.content };
+        }
+
+        for (const fragment of delta.tool_calls ?? []) {
+          const index = fragment.index ?? 0;
+          const call = toolCalls.get(index) ?? { id: '', name: '', args: '' };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.args += fragment.function.arguments;
+          toolCalls.set(index, call);
+        }
+
+        if (choice.finish_reason) {
+          stopReason = STOP_REASONS[choice.finish_reason] ?? 'unknown';
+        }
+      }
+
+      for (const [index, call] of toolCalls) {
+        yield {
+          type: 'tool_call',
+          call: {
+            id: call.id || `call_${index}`,
+            name: call.name,
+            input: call.args ? JSON.parse(call.args) : {},
+          },
+        };
+      }
+
+      yield { type: 'done', stopReason };
+    },
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Scripted Provider
+ * DialogueProvider that plays back canned responses - for tests, demos and offline use
+ */
+
+import type {
+  DialogueProvider,
+  DialogueRequest,
+  DialogueStreamEvent,
+  DialogueToolCall,
+} from './types';
+
+/**
+ * One scripted assistant turn
+ */
+export interface ScriptedTurn {
+  text?: string;
+  /** Tool calls the "model" makes after its text */
+  toolCalls?: Array<Omit<DialogueToolCall, 'id'> & { id?: string }>;
+}
+
+/**
+ * A fixed turn, or a function of the request (e.g. to echo the user)
+ */
+export type ScriptedResponse = string | ScriptedTurn | ((request: DialogueRequest) => string | ScriptedTurn);
+
+export interface ScriptedProviderConfig {
+  /** Characters per streamed text chunk */
+  chunkSize?: number;
+  /** Delay between chunks (ms) */
+  chunkDelayMs?: number;
+  /** Start over when the script runs out (otherwise later turns are empty) */
+  loop?: boolean;
+}
+
+export interface ScriptedProvider extends DialogueProvider {
+  /** Every request received, in order */
+  readonly requests: DialogueRequest[];
+  /** Start the script over and forget the requests */
+  reset: () => void;
+}
+
+/**
+ * Create a provider that answers each request with the next scripted response
+ */
+export function createScriptedProvider(
+  script: ScriptedResponse[],
+  config: ScriptedProviderConfig = {}
+): ScriptedProvider {
+  const chunkSize = Math.max(1, config.chunkSize ?? 8);
+  const chunkDelayMs = config.chunkDelayMs ?? 0;
+  const requests: DialogueRequest[] = [];
+  let turnIndex = 0;
+  let callCounter = 0;
+
+  const wait = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new Error('Aborted'));
+      }, { once: true });
+    });
+
+  return {
+    name: 'scripted',
+    requests,
+
+    async *stream(request: DialogueRequest): AsyncGenerator<DialogueStreamEvent> {
+      requests.push(request);
+
+      const entry: ScriptedResponse | undefined = script[turnIndex];
+      turnIndex++;
+      if (config.loop && script.length > 0) {
+        turnIndex %= script.length;
+      }
+
+      const resolved = typeof entry === 'function' ? entry(request) : entry;
+      const turn: ScriptedTurn = typeof resolved === 'string' ? { text: resolved } : resolved ?? {};
+      const text = turn.text ?? '';
+
+      for (let i = 0; i < text.length; i += chunkSize) {
+        if (chunkDelayMs > 0) await wait(chunkDelayMs, request.signal);
+        if (request.signal?.aborted) throw new Error('Aborted');
+        yield { type: 'text', text: text.slice(i, i + chunkSize) };
+      }
+
+      for (const call of turn.toolCalls ?? []) {
+        yield { type: 'tool_call', call: { ...call, id: call.id ?? `scripted_call_${++callCounter}` } };
+      }
+
+      yield { type: 'done', stopReason: turn.toolCalls?.length ? 'tool_use' : 'end_turn' };
+    },
+
+    reset(): void {
+      turnIndex = 0;
+      requests.length = 0;
+    },
+  };
+}
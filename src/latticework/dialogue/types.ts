@@ -0,0 +1,112 @@
+/**
+ * Dialogue Types
+ * Provider-neutral chat model interface: message history, system prompt, tool calls, streaming
+ */
+
+export type DialogueRole = 'user' | 'assistant';
+
+/**
+ * A tool the model asked to call
+ */
+export interface DialogueToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * The result sent back for a tool call
+ */
+export interface DialogueToolResult {
+  toolCallId: string;
+  content: string;
+  isError?: boolean;
+}
+
+/**
+ * One message of the history
+ * Assistant messages may carry tool calls; the user message that follows carries their results.
+ */
+export interface DialogueMessage {
+  role: DialogueRole;
+  content: string;
+  toolCalls?: DialogueToolCall[];
+  toolResults?: DialogueToolResult[];
+}
+
+/**
+ * A tool the model may call
+ */
+export interface DialogueTool {
+  name: string;
+  description: string;
+  /** JSON Schema of the input object */
+  inputSchema: Record<string, unknown>;
+  /** Runs the tool; the return value (stringified if not a string) goes back to the model */
+  handler?: (input: Record<string, unknown>) => unknown | Promise<unknown>;
+}
+
+export interface DialogueRequest {
+  system?: string;
+  messages: DialogueMessage[];
+  tools?: DialogueTool[];
+  maxTokens?: number;
+  temperature?: number;
+  /** Aborts the request (e.g. when the user interrupts) */
+  signal?: AbortSignal;
+}
+
+export type DialogueStopReason = 'end_turn' | 'max_tokens' | 'tool_use' | 'stop_sequence' | 'unknown';
+
+/**
+ * Streamed output of one model turn
+ */
+export type DialogueStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: DialogueToolCall }
+  | { type: 'done'; stopReason: DialogueStopReason };
+
+/**
+ * A chat model backend (Anthropic, an OpenAI-compatible server, a script, ...)
+ */
+export interface DialogueProvider {
+  readonly name: string;
+  /** Stream one assistant turn for the request */
+  stream: (request: DialogueRequest) => AsyncIterable<DialogueStreamEvent>;
+}
+
+export interface DialogueSessionConfig {
+  /** System prompt */
+  system?: string;
+  /** Tools the model may call */
+  tools?: DialogueTool[];
+  maxTokens?: number;
+  temperature?: number;
+  /** Most model turns per response when the model keeps calling tools */
+  maxToolRounds?: number;
+  /** History to start from */
+  history?: DialogueMessage[];
+}
+
+export interface DialogueSessionCallbacks {
+  /** Called before a tool runs */
+  onToolCall?: (call: DialogueToolCall) => void;
+  /** Called with each tool result */
+  onToolResult?: (result: DialogueToolResult) => void;
+  /** Called when a response is complete (or cut off) with the text said */
+  onResponse?: (text: string) => void;
+  /** Called on provider errors */
+  onError?: (error: Error) => void;
+}
+
+export interface DialogueFlowOptions {
+  /** First thing the agent says */
+  greeting?: string;
+  /** Transforms each streamed response before it is spoken (e.g. strip markup) */
+  transform?: (chunks: AsyncIterable<string>) => AsyncIterable<string>;
+}
+
+export const DEFAULT_DIALOGUE_SESSION_CONFIG = {
+  maxTokens: 512,
+  maxToolRounds: 4,
+};
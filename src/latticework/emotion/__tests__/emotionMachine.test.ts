@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createActor } from 'xstate';
+import { emotionMachine } from '../emotionMachine';
+import { EMOTION_PROTOTYPES, isEmotionName } from '../types';
+
+/**
+ * Tests for the emotion machine: expressing, appraising and decaying toward the mood.
+ */
+describe('emotionMachine', () => {
+  let actor: ReturnType<typeof createActor<typeof emotionMachine>>;
+  const state = () => actor.getSnapshot().context.state;
+
+  beforeEach(() => {
+    actor = createActor(emotionMachine).start();
+  });
+
+  afterEach(() => {
+    actor.stop();
+  });
+
+  it('should pull affect toward the expressed prototype and set its impulse', () => {
+    actor.send({ type: 'EXPRESS', emotion: 'happy', intensity: 0.5 });
+
+    expect(state().vad.valence).toBeCloseTo(EMOTION_PROTOTYPES.happy.vad.valence / 2);
+    expect(state().vad.arousal).toBeCloseTo(EMOTION_PROTOTYPES.happy.vad.arousal / 2);
+    expect(state().impulses).toEqual({ happy: 0.5 });
+  });
+
+  it('should ignore names that are not own prototype keys', () => {
+    const before = state();
+    for (const name of ['constructor', 'toString', '__proto__', 'bored']) {
+      expect(() => actor.send({ type: 'EXPRESS', emotion: name as any, intensity: 1 })).not.toThrow();
+    }
+
+    expect(state()).toEqual(before);
+    expect(actor.getSnapshot().status).toBe('active');
+    expect(isEmotionName('constructor')).toBe(false);
+    expect(isEmotionName('thinking')).toBe(true);
+  });
+
+  it('should decay affect toward the mood and impulses toward zero by the half-life', () => {
+    actor.send({ type: 'SET_MOOD', mood: { valence: 0.2 } });
+    actor.send({ type: 'EXPRESS', emotion: 'sad', intensity: 1 });
+    const valence = state().vad.valence;
+
+    actor.send({ type: 'DECAY', dt: state().halfLife });
+    expect(state().vad.valence).toBeCloseTo(0.2 + (valence - 0.2) / 2);
+    expect(state().impulses.sad).toBeCloseTo(0.5);
+
+    actor.send({ type: 'DECAY', dt: Number.POSITIVE_INFINITY });
+    expect(state().vad).toEqual({ valence: 0.2, arousal: 0, dominance: 0 });
+    expect(state().impulses).toEqual({});
+  });
+
+  it('should drop impulses once they fade below 0.01', () => {
+    actor.send({ type: 'SET_HALF_LIFE', halfLife: 1 });
+    actor.send({ type: 'EXPRESS', emotion: 'surprised', intensity: 1 });
+    actor.send({ type: 'DECAY', dt: 7 });
+
+    expect(state().impulses).toEqual({});
+  });
+
+  it('should clamp appraisals, moods and settings', () => {
+    actor.send({ type: 'APPRAISE', delta: { valence: 3, arousal: -0.5 } });
+    actor.send({ type: 'SET_MOOD', mood: { dominance: -2 } });
+    actor.send({ type: 'SET_HALF_LIFE', halfLife: 100 });
+    actor.send({ type: 'SET_INTENSITY', intensity: 2 });
+
+    expect(state().vad).toEqual({ valence: 1, arousal: -0.5, dominance: 0 });
+    expect(state().mood.dominance).toBe(-1);
+    expect(state().halfLife).toBe(60);
+    expect(state().intensity).toBe(1);
+  });
+});
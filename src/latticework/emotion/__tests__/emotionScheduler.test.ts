@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  EmotionScheduler,
+  blendEmotionWeights,
+  computeFaceAUs,
+  getDominantEmotion,
+} from '../emotionScheduler';
+import { EmotionalModulator } from '../../lipsync/emotionalModulation';
+import { DEFAULT_EMOTION_STATE, EMOTION_PROTOTYPES } from '../types';
+import type { EmotionState, VAD } from '../types';
+
+/**
+ * Tests for prototype blending, AU targets and the face snippet rate limit.
+ *
+ * States are built directly; the scheduler gets a stub host and its own modulator so
+ * the shared lip-sync modulator is left alone.
+ */
+describe('EmotionScheduler', () => {
+  const stateWith = (patch: Partial<EmotionState> = {}): EmotionState => ({
+    ...DEFAULT_EMOTION_STATE,
+    vad: { ...DEFAULT_EMOTION_STATE.vad },
+    mood: { ...DEFAULT_EMOTION_STATE.mood },
+    impulses: {},
+    ...patch,
+  });
+  const scaled = (vad: VAD, k: number): VAD => ({
+    valence: vad.valence * k,
+    arousal: vad.arousal * k,
+    dominance: vad.dominance * k,
+  });
+
+  describe('blendEmotionWeights', () => {
+    it('should show a neutral face for neutral affect', () => {
+      expect(blendEmotionWeights(stateWith())).toEqual({});
+      expect(getDominantEmotion({})).toBe('neutral');
+    });
+
+    it('should favour the prototype the affect points at', () => {
+      const weights = blendEmotionWeights(stateWith({ vad: { ...EMOTION_PROTOTYPES.sad.vad } }));
+
+      expect(getDominantEmotion(weights)).toBe('sad');
+      expect(weights.sad).toBeGreaterThan(0.5);
+      expect(weights.happy).toBeUndefined();
+    });
+
+    it('should scale weights by how far affect has travelled', () => {
+      const full = blendEmotionWeights(stateWith({ vad: { ...EMOTION_PROTOTYPES.happy.vad } }));
+      const half = blendEmotionWeights(stateWith({ vad: scaled(EMOTION_PROTOTYPES.happy.vad, 0.5) }));
+
+      expect(half.happy).toBeCloseTo(full.happy! / 2);
+    });
+
+    it('should use impulses as a floor and show impulse-only prototypes through them only', () => {
+      const affect = blendEmotionWeights(stateWith({ vad: { ...EMOTION_PROTOTYPES.thinking.vad } }));
+      expect(affect.thinking).toBeUndefined();
+
+      const weights = blendEmotionWeights(stateWith({ impulses: { thinking: 0.6, sad: 0.3 } }));
+      expect(weights).toEqual({ thinking: 0.6, sad: 0.3 });
+      expect(getDominantEmotion(weights)).toBe('thinking');
+      expect(getDominantEmotion({ sad: 0.1 })).toBe('neutral');
+    });
+  });
+
+  describe('computeFaceAUs', () => {
+    it('should map prototype AUs to 0-100 targets scaled by intensity', () => {
+      expect(computeFaceAUs(stateWith({ impulses: { happy: 1 } }))).toEqual({ '6': 80, '12': 90 });
+
+      const half = computeFaceAUs(stateWith({ impulses: { happy: 1 }, intensity: 0.5 }));
+      expect(half['6']).toBeCloseTo(40);
+      expect(half['12']).toBeCloseTo(45);
+    });
+
+    it('should add overlapping AUs and clamp them at full strength', () => {
+      const aus = computeFaceAUs(stateWith({ impulses: { happy: 1, contempt: 1 } }));
+      expect(aus['12']).toBe(100);
+      expect(aus['14']).toBeCloseTo(60);
+    });
+  });
+
+  describe('Face snippet', () => {
+    let host: { scheduleSnippet: ReturnType<typeof vi.fn>; removeSnippet: ReturnType<typeof vi.fn> };
+    let scheduler: EmotionScheduler;
+
+    const lastSnippet = () => host.scheduleSnippet.mock.calls[host.scheduleSnippet.mock.calls.length - 1][0];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(10_000);
+      host = { scheduleSnippet: vi.fn((sn: any) => sn.name), removeSnippet: vi.fn() };
+      scheduler = new EmotionScheduler({ send: vi.fn() }, host, {}, new EmotionalModulator());
+    });
+
+    afterEach(() => {
+      scheduler.dispose();
+      vi.useRealTimers();
+    });
+
+    it('should glide from the current values to the new targets', () => {
+      scheduler.update(stateWith({ impulses: { happy: 1 } }));
+      expect(lastSnippet()).toMatchObject({ name: 'emotion/face', snippetCategory: 'emotion', mixerChannel: 'face' });
+      expect(lastSnippet().curves['12']).toEqual([
+        { time: 0, intensity: 0, inherit: true },
+        { time: 0.4, intensity: 90 },
+      ]);
+
+      vi.advanceTimersByTime(1000);
+      scheduler.update(stateWith({ impulses: { sad: 1 } }));
+
+      // AUs no longer targeted glide back to 0
+      expect(lastSnippet().curves['12']).toEqual([
+        { time: 0, intensity: 90, inherit: true },
+        { time: 0.4, intensity: 0 },
+      ]);
+      expect(lastSnippet().curves['15'][1].intensity).toBeCloseTo(60);
+      expect(host.removeSnippet).toHaveBeenCalledWith('emotion/face');
+    });
+
+    it('should rate-limit small drifts but send jumps immediately', () => {
+      scheduler.update(stateWith({ impulses: { happy: 1 } }));
+      expect(host.scheduleSnippet).toHaveBeenCalledTimes(1);
+
+      // A decay step moves AU 12 by 4.5: held back within minIntervalMs
+      vi.advanceTimersByTime(100);
+      scheduler.update(stateWith({ impulses: { happy: 0.95 } }));
+      expect(host.scheduleSnippet).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(200);
+      scheduler.update(stateWith({ impulses: { happy: 0.95 } }));
+      expect(host.scheduleSnippet).toHaveBeenCalledTimes(2);
+
+      // An expression jumps straight away
+      vi.advanceTimersByTime(10);
+      scheduler.update(stateWith({ impulses: { happy: 0.95, surprised: 1 } }));
+      expect(host.scheduleSnippet).toHaveBeenCalledTimes(3);
+    });
+
+    it('should skip changes below minDelta and disabled states', () => {
+      scheduler.update(stateWith({ impulses: { happy: 1 } }));
+      vi.advanceTimersByTime(1000);
+      scheduler.update(stateWith({ impulses: { happy: 0.995 } }));
+      scheduler.update(stateWith({ impulses: { sad: 1 }, enabled: false }));
+
+      expect(host.scheduleSnippet).toHaveBeenCalledTimes(1);
+    });
+
+    it('should push lip-sync modulators for the dominant emotion', () => {
+      const lipSync = { updateConfig: vi.fn() };
+      scheduler.attachLipSync(lipSync);
+      expect(lipSync.updateConfig).toHaveBeenCalledTimes(1);
+
+      scheduler.update(stateWith({ vad: { ...EMOTION_PROTOTYPES.angry.vad }, impulses: { angry: 1 } }));
+
+      expect(lipSync.updateConfig).toHaveBeenCalledTimes(2);
+      expect(lipSync.updateConfig).toHaveBeenLastCalledWith({
+        lipsyncIntensity: expect.any(Number),
+        jawScale: expect.any(Number),
+      });
+      expect(lipSync.updateConfig.mock.calls[1][0]).not.toEqual(lipSync.updateConfig.mock.calls[0][0]);
+    });
+
+    it('should send DECAY ticks with the elapsed time', () => {
+      const machine = { send: vi.fn() };
+      const ticking = new EmotionScheduler(machine, host, { tickMs: 100 }, new EmotionalModulator());
+      ticking.start();
+      vi.advanceTimersByTime(250);
+
+      expect(machine.send).toHaveBeenCalledTimes(2);
+      expect(machine.send).toHaveBeenCalledWith({ type: 'DECAY', dt: 0.1 });
+      ticking.dispose();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Emotion State Machine
+ *
+ * XState machine for the character's continuous affect (VAD) and categorical impulses.
+ * Part of the latticework agency architecture.
+ */
+
+import { setup, assign } from 'xstate';
+import { EmotionContext, EmotionEvent, DEFAULT_EMOTION_STATE, EMOTION_PROTOTYPES, VAD, isEmotionName } from './types';
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+
+const clampVAD = (vad: VAD): VAD => ({
+  valence: clampUnit(vad.valence),
+  arousal: clampUnit(vad.arousal),
+  dominance: clampUnit(vad.dominance),
+});
+
+export const emotionMachine = setup({
+  types: {
+    context: {} as EmotionContext,
+    events: {} as EmotionEvent,
+  },
+  actions: {
+    enable: assign({
+      state: ({ context }) => ({
+        ...context.state,
+        enabled: true,
+      }),
+    }),
+
+    disable: assign({
+      state: ({ context }) => ({
+        ...context.state,
+        enabled: false,
+      }),
+    }),
+
+    // Pull core affect toward the prototype and fire its categorical impulse
+    express: assign({
+      state: ({ context, event }) => {
+        if (event.type !== 'EXPRESS' || !isEmotionName(event.emotion)) return context.state;
+        const prototype = EMOTION_PROTOTYPES[event.emotion];
+        const amount = Math.max(0, Math.min(1, event.intensity)); // Clamp 0-1
+        const { vad } = context.state;
+        return {
+          ...context.state,
+          vad: {
+            valence: vad.valence + (prototype.vad.valence - vad.valence) * amount,
+            arousal: vad.arousal + (prototype.vad.arousal - vad.arousal) * amount,
+            dominance: vad.dominance + (prototype.vad.dominance - vad.dominance) * amount,
+          },
+          impulses: {
+            ...context.state.impulses,
+            [event.emotion]: Math.max(context.state.impulses[event.emotion] ?? 0, amount),
+          },
+        };
+      },
+      lastAppraisalTime: () => Date.now(),
+    }),
+
+    // Shift core affect by an appraisal outcome (e.g. a right or wrong answer)
+    appraise: assign({
+      state: ({ context, event }) => {
+        if (event.type !== 'APPRAISE') return context.state;
+        const { vad } = context.state;
+        return {
+          ...context.state,
+          vad: clampVAD({
+            valence: vad.valence + (event.delta.valence ?? 0),
+            arousal: vad.arousal + (event.delta.arousal ?? 0),
+            dominance: vad.dominance + (event.delta.dominance ?? 0),
+          }),
+        };
+      },
+      lastAppraisalTime: () => Date.now(),
+    }),
+
+    setMood: assign({
+      state: ({ context, event }) => {
+        if (event.type !== 'SET_MOOD') return context.state;
+        return {
+          ...context.state,
+          mood: clampVAD({ ...context.state.mood, ...event.mood }),
+        };
+      },
+    }),
+
+    setHalfLife: assign({
+      state: ({ context, event }) => {
+        if (event.type !== 'SET_HALF_LIFE') return context.state;
+        return {
+          ...context.state,
+          halfLife: Math.max(0.1, Math.min(60, event.halfLife)), // Clamp 0.1-60s
+        };
+      },
+    }),
+
+    setIntensity: assign({
+      state: ({ context, event }) => {
+        if (event.type !== 'SET_INTENSITY') return context.state;
+        return {
+          ...context.state,
+          intensity: Math.max(0, Math.min(1, event.intensity)), // Clamp 0-1
+        };
+      },
+    }),
+
+    // Exponential decay of affect toward the mood and of impulses toward zero
+    decay: assign({
+      state: ({ context, event }) => {
+        if (event.type !== 'DECAY') return context.state;
+        const { vad, mood, impulses, halfLife } = context.state;
+        const keep = Math.pow(0.5, Math.max(0, event.dt) / halfLife);
+
+        const nextImpulses: EmotionContext['state']['impulses'] = {};
+        for (const [name, value] of Object.entries(impulses)) {
+          const next = (value ?? 0) * keep;
+          if (next > 0.01) nextImpulses[name as keyof typeof impulses] = next;
+        }
+
+        return {
+          ...context.state,
+          vad: {
+            valence: mood.valence + (vad.valence - mood.valence) * keep,
+            arousal: mood.arousal + (vad.arousal - mood.arousal) * keep,
+            dominance: mood.dominance + (vad.dominance - mood.dominance) * keep,
+          },
+          impulses: nextImpulses,
+        };
+      },
+    }),
+
+    resetToDefault: assign({
+      state: () => ({
+        ...DEFAULT_EMOTION_STATE,
+        vad: { ...DEFAULT_EMOTION_STATE.vad },
+        mood: { ...DEFAULT_EMOTION_STATE.mood },
+        impulses: {},
+      }),
+      lastAppraisalTime: null,
+    }),
+  },
+}).createMachine({
+  id: 'emotion',
+  initial: 'idle',
+  context: {
+    state: {
+      ...DEFAULT_EMOTION_STATE,
+      vad: { ...DEFAULT_EMOTION_STATE.vad },
+      mood: { ...DEFAULT_EMOTION_STATE.mood },
+      impulses: {},
+    },
+    lastAppraisalTime: null,
+  },
+  states: {
+    idle: {
+      on: {
+        ENABLE: {
+          actions: 'enable',
+        },
+        DISABLE: {
+          actions: 'disable',
+        },
+        EXPRESS: {
+          actions: 'express',
+        },
+        APPRAISE: {
+          actions: 'appraise',
+        },
+        SET_MOOD: {
+          actions: 'setMood',
+        },
+        SET_HALF_LIFE: {
+          actions: 'setHalfLife',
+        },
+        SET_INTENSITY: {
+          actions: 'setIntensity',
+        },
+        DECAY: {
+          actions: 'decay',
+        },
+        RESET_TO_DEFAULT: {
+          actions: 'resetToDefault',
+        },
+      },
+    },
+  },
+});
+
+export type EmotionMachine = typeof emotionMachine;
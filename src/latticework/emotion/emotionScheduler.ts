@@ -0,0 +1,301 @@
+/**
+ * Emotion Scheduler
+ * Decays affect over time, blends emotion prototypes into AU targets,
+ * keeps one face snippet up to date and pushes modulators to lip-sync
+ * Follows the Animation Agency pattern
+ */
+
+import { emotionalModulator, type EmotionalModulator } from '../lipsync/emotionalModulation';
+import type { LipSyncConfig } from '../lipsync/types';
+import {
+  EMOTION_PROTOTYPES,
+  type EmotionBlend,
+  type EmotionName,
+  type EmotionState,
+  type VAD,
+} from './types';
+
+export interface EmotionHostCaps {
+  scheduleSnippet: (snippet: any) => string | null;
+  removeSnippet: (name: string) => void;
+}
+
+/**
+ * Anything that accepts lip-sync config updates (LipSyncService, createLipSyncService)
+ */
+export interface EmotionLipSyncTarget {
+  updateConfig: (config: Partial<LipSyncConfig>) => void;
+}
+
+export interface EmotionSchedulerConfig {
+  /** Decay tick interval in milliseconds */
+  tickMs: number;
+
+  /** Seconds for the face to glide to a new target */
+  transition: number;
+
+  /** Smallest AU change (0-100) worth rescheduling the face for */
+  minDelta: number;
+
+  /** Minimum time between reschedules while the face is only drifting (decay) */
+  minIntervalMs: number;
+
+  /** Animation priority of the face snippet */
+  priority: number;
+}
+
+export const DEFAULT_EMOTION_SCHEDULER_CONFIG: EmotionSchedulerConfig = {
+  tickMs: 100,
+  transition: 0.4,
+  minDelta: 1,
+  minIntervalMs: 250,
+  priority: 40,
+};
+
+const FACE_SNIPPET = 'emotion/face';
+
+// Higher values make the blend favour the closest prototype direction
+const DIRECTION_SHARPNESS = 4;
+
+const norm = (v: VAD) => Math.sqrt(v.valence ** 2 + v.arousal ** 2 + v.dominance ** 2);
+
+const dot = (a: VAD, b: VAD) => a.valence * b.valence + a.arousal * b.arousal + a.dominance * b.dominance;
+
+/**
+ * Blend weights (0-1) per prototype for a state.
+ * Core affect picks prototypes by direction (sharpened cosine similarity, normalised)
+ * and scales them by how far affect has travelled toward each one, so a neutral VAD
+ * shows a neutral face. Categorical impulses from express() act as a floor while they decay.
+ */
+export function blendEmotionWeights(state: EmotionState): EmotionBlend {
+  const names = Object.keys(EMOTION_PROTOTYPES) as EmotionName[];
+  const magnitude = norm(state.vad);
+
+  const similarities = names.map(name => {
+    const prototype = EMOTION_PROTOTYPES[name];
+    if (prototype.impulseOnly || magnitude < 1e-3) return 0;
+    const cos = dot(state.vad, prototype.vad) / (magnitude * norm(prototype.vad));
+    return Math.pow(Math.max(0, cos), DIRECTION_SHARPNESS);
+  });
+  const total = similarities.reduce((sum, s) => sum + s, 0);
+
+  const weights: EmotionBlend = {};
+  names.forEach((name, i) => {
+    const reach = Math.min(1, magnitude / norm(EMOTION_PROTOTYPES[name].vad));
+    const affect = total > 0 ? (similarities[i] / total) * reach : 0;
+    const weight = Math.max(affect, state.impulses[name] ?? 0);
+    if (weight > 0.01) weights[name] = weight;
+  });
+  return weights;
+}
+
+/**
+ * Strongest prototype in a blend, or 'neutral' if nothing is active
+ */
+export function getDominantEmotion(weights: EmotionBlend, threshold = 0.2): EmotionName | 'neutral' {
+  let dominant: EmotionName | 'neutral' = 'neutral';
+  let best = threshold;
+  for (const [name, weight] of Object.entries(weights)) {
+    if ((weight ?? 0) > best) {
+      best = weight ?? 0;
+      dominant = name as EmotionName;
+    }
+  }
+  return dominant;
+}
+
+/**
+ * AU targets (0-100) for a state: weighted sum of prototype AUs, clamped, times the global intensity
+ */
+export function computeFaceAUs(state: EmotionState): Record<string, number> {
+  const weights = blendEmotionWeights(state);
+  const aus: Record<string, number> = {};
+
+  for (const [name, weight] of Object.entries(weights)) {
+    const prototype = EMOTION_PROTOTYPES[name as EmotionName];
+    for (const [au, value] of Object.entries(prototype.aus)) {
+      aus[au] = (aus[au] ?? 0) + value * (weight ?? 0);
+    }
+  }
+
+  for (const au of Object.keys(aus)) {
+    aus[au] = Math.min(1, aus[au]) * 100 * state.intensity;
+  }
+  return aus;
+}
+
+export class EmotionScheduler {
+  private machine: any;
+  private host: EmotionHostCaps;
+  private config: EmotionSchedulerConfig;
+  private tickInterval: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+  private lastScheduled = 0;
+  private currentAUs: Record<string, number> = {};
+  private lipSyncTargets = new Set<EmotionLipSyncTarget>();
+  private modulator: EmotionalModulator;
+
+  constructor(
+    machine: any,
+    host: EmotionHostCaps,
+    config: Partial<EmotionSchedulerConfig> = {},
+    modulator: EmotionalModulator = emotionalModulator
+  ) {
+    this.machine = machine;
+    this.host = host;
+    this.config = { ...DEFAULT_EMOTION_SCHEDULER_CONFIG, ...config };
+    this.modulator = modulator;
+  }
+
+  /**
+   * Start the decay loop
+   */
+  public start(): void {
+    if (this.tickInterval) return;
+
+    this.lastTick = Date.now();
+    this.tickInterval = setInterval(() => {
+      const now = Date.now();
+      const dt = (now - this.lastTick) / 1000;
+      this.lastTick = now;
+      this.machine.send({ type: 'DECAY', dt });
+    }, this.config.tickMs);
+  }
+
+  /**
+   * Stop the decay loop and relax the face
+   */
+  public stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    this.scheduleFace({});
+  }
+
+  /**
+   * Apply a new emotion state: reschedule the face if it moved enough
+   * and update lip-sync modulators
+   */
+  public update(state: EmotionState): void {
+    if (!state.enabled) return;
+
+    const targets = computeFaceAUs(state);
+    const aus = new Set([...Object.keys(targets), ...Object.keys(this.currentAUs)]);
+    let maxDelta = 0;
+    aus.forEach(au => {
+      maxDelta = Math.max(maxDelta, Math.abs((targets[au] ?? 0) - (this.currentAUs[au] ?? 0)));
+    });
+
+    // Small drifts wait for the rate limit; jumps (express/appraise) go out immediately
+    const now = Date.now();
+    const drifting = maxDelta < 10 && now - this.lastScheduled < this.config.minIntervalMs;
+
+    if (maxDelta >= this.config.minDelta && !drifting) {
+      this.lastScheduled = now;
+      this.scheduleFace(targets);
+      this.updateModulators(state);
+    }
+  }
+
+  /**
+   * Register a lip-sync service to receive emotion modulators
+   */
+  public attachLipSync(target: EmotionLipSyncTarget): () => void {
+    this.lipSyncTargets.add(target);
+    this.pushModulators(target);
+    return () => {
+      this.lipSyncTargets.delete(target);
+    };
+  }
+
+  /**
+   * Replace the face snippet with one gliding from the current values to the targets.
+   * AUs that were active but are no longer targeted glide back to 0.
+   */
+  private scheduleFace(targets: Record<string, number>): void {
+    const duration = this.config.transition;
+    const curves: Record<string, Array<{ time: number; intensity: number; inherit?: boolean }>> = {};
+
+    const aus = new Set([...Object.keys(targets), ...Object.keys(this.currentAUs)]);
+    aus.forEach(au => {
+      curves[au] = [
+        { time: 0, intensity: this.currentAUs[au] ?? 0, inherit: true },
+        { time: duration, intensity: targets[au] ?? 0 },
+      ];
+    });
+
+    this.host.removeSnippet(FACE_SNIPPET);
+    if (Object.keys(curves).length > 0) {
+      this.host.scheduleSnippet({
+        name: FACE_SNIPPET,
+        curves,
+        maxTime: duration,
+        loop: false,
+        snippetCategory: 'emotion',
+        snippetPriority: this.config.priority,
+        snippetPlaybackRate: 1.0,
+        snippetIntensityScale: 1.0,
+        mixerChannel: 'face',
+      });
+    }
+
+    // Drop AUs that reached zero so they aren't carried forever
+    this.currentAUs = {};
+    for (const [au, value] of Object.entries(targets)) {
+      if (value > 0.5) this.currentAUs[au] = value;
+    }
+  }
+
+  /**
+   * Mirror the blended state into the lip-sync emotional modulator
+   */
+  private updateModulators(state: EmotionState): void {
+    const weights = blendEmotionWeights(state);
+    const dominant = getDominantEmotion(weights);
+
+    this.modulator.setEmotionalContext({
+      // 'thinking' has no lip-sync profile; speak neutrally
+      primaryEmotion: dominant === 'thinking' ? 'neutral' : dominant,
+      intensity: dominant === 'neutral' ? 0.5 : Math.min(1, weights[dominant] ?? 0),
+      arousal: (state.vad.arousal + 1) / 2, // -1..1 -> 0..1
+      valence: state.vad.valence,
+    });
+
+    this.lipSyncTargets.forEach(target => this.pushModulators(target));
+  }
+
+  private pushModulators(target: EmotionLipSyncTarget): void {
+    const modulators = this.modulator.getModulators();
+    target.updateConfig({
+      lipsyncIntensity: modulators.intensityScale,
+      jawScale: modulators.jawScale,
+    });
+  }
+
+  /**
+   * Update configuration
+   */
+  public updateConfig(config: Partial<EmotionSchedulerConfig>): void {
+    const tickChanged = config.tickMs !== undefined && config.tickMs !== this.config.tickMs;
+    this.config = { ...this.config, ...config };
+    if (tickChanged && this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+      this.start();
+    }
+  }
+
+  /**
+   * Cleanup
+   */
+  public dispose(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    this.host.removeSnippet(FACE_SNIPPET);
+    this.currentAUs = {};
+    this.lipSyncTargets.clear();
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * Emotion Service
+ * Shared facial emotion for all modules: continuous VAD affect, blended
+ * expression prototypes, decay toward a baseline mood and lip-sync modulation
+ * Follows the Animation Agency architecture pattern
+ */
+
+import { createActor } from 'xstate';
+import { emotionMachine } from './emotionMachine';
+import {
+  EmotionScheduler,
+  blendEmotionWeights,
+  getDominantEmotion,
+  type EmotionHostCaps,
+  type EmotionLipSyncTarget,
+  type EmotionSchedulerConfig,
+} from './emotionScheduler';
+import type { EmotionalModulator } from '../lipsync/emotionalModulation';
+import type { EmotionBlend, EmotionName, EmotionState, VAD } from './types';
+
+export interface EmotionServiceAPI {
+  express: (emotion: EmotionName | 'neutral', intensity?: number) => void;
+  appraise: (delta: Partial<VAD>) => void;
+  setMood: (mood: Partial<VAD>) => void;
+  setHalfLife: (halfLife: number) => void;
+  setIntensity: (intensity: number) => void;
+  enable: () => void;
+  disable: () => void;
+  reset: () => void;
+  getState: () => EmotionState;
+  getWeights: () => EmotionBlend;
+  getDominantEmotion: () => EmotionName | 'neutral';
+  attachLipSync: (target: EmotionLipSyncTarget) => () => void;
+  updateConfig: (config: Partial<EmotionSchedulerConfig>) => void;
+  subscribe: (callback: (state: EmotionState) => void) => () => void;
+  dispose: () => void;
+}
+
+/**
+ * Create an Emotion Service with XState machine and scheduler.
+ * Pass a modulator to keep lip-sync modulation per character; defaults to the shared one.
+ */
+export function createEmotionService(
+  hostCaps?: EmotionHostCaps,
+  config: Partial<EmotionSchedulerConfig> = {},
+  modulator?: EmotionalModulator
+): EmotionServiceAPI {
+  // Create XState machine
+  const machine = createActor(emotionMachine).start();
+
+  // Host capabilities (animation service integration)
+  const host: EmotionHostCaps = hostCaps ?? {
+    scheduleSnippet: (snippet: any) => {
+      // Fallback: Try to use global animation service
+      if (typeof window !== 'undefined') {
+        const anim = (window as any).anim;
+        if (anim && typeof anim.schedule === 'function') {
+          return anim.schedule(snippet);
+        }
+      }
+      console.warn('[EmotionService] No animation service available for scheduling');
+      return null;
+    },
+    removeSnippet: (name: string) => {
+      if (typeof window !== 'undefined') {
+        const anim = (window as any).anim;
+        if (anim && typeof anim.remove === 'function') {
+          anim.remove(name);
+        }
+      }
+    },
+  };
+
+  // Create scheduler
+  const scheduler = new EmotionScheduler(machine, host, config, modulator);
+
+  // Subscribers for state changes
+  const subscribers = new Set<(state: EmotionState) => void>();
+
+  let wasEnabled = machine.getSnapshot().context.state.enabled;
+
+  // Subscribe to machine state changes
+  machine.subscribe((snapshot) => {
+    const newState = snapshot.context.state;
+
+    // Drive the face while enabled; relax it once when disabled
+    if (newState.enabled) {
+      scheduler.start();
+      scheduler.update(newState);
+    } else if (wasEnabled) {
+      scheduler.stop();
+    }
+    wasEnabled = newState.enabled;
+
+    // Notify subscribers
+    subscribers.forEach((callback) => callback(newState));
+  });
+
+  // Start the decay loop if enabled by default
+  if (wasEnabled) {
+    scheduler.start();
+  }
+
+  // Public API
+  return {
+    /**
+     * Express a categorical emotion (0-1). Moves core affect toward the
+     * prototype and shows it immediately; both decay back to the mood.
+     * 'neutral' relaxes the face back to the current mood.
+     */
+    express(emotion: EmotionName | 'neutral', intensity = 0.8): void {
+      if (emotion === 'neutral') {
+        machine.send({ type: 'DECAY', dt: Number.POSITIVE_INFINITY });
+        return;
+      }
+      machine.send({ type: 'EXPRESS', emotion, intensity });
+    },
+
+    /**
+     * Shift core affect by an appraisal (each component added, result clamped -1..1)
+     */
+    appraise(delta: Partial<VAD>): void {
+      machine.send({ type: 'APPRAISE', delta });
+    },
+
+    /**
+     * Set the baseline mood that affect decays toward
+     */
+    setMood(mood: Partial<VAD>): void {
+      machine.send({ type: 'SET_MOOD', mood });
+    },
+
+    /**
+     * Set the decay half-life (seconds)
+     */
+    setHalfLife(halfLife: number): void {
+      machine.send({ type: 'SET_HALF_LIFE', halfLife });
+    },
+
+    /**
+     * Set overall expression intensity (0-1)
+     */
+    setIntensity(intensity: number): void {
+      machine.send({ type: 'SET_INTENSITY', intensity });
+    },
+
+    /**
+     * Enable emotional expression
+     */
+    enable(): void {
+      machine.send({ type: 'ENABLE' });
+    },
+
+    /**
+     * Disable emotional expression (relaxes the face)
+     */
+    disable(): void {
+      machine.send({ type: 'DISABLE' });
+    },
+
+    /**
+     * Reset to default state
+     */
+    reset(): void {
+      machine.send({ type: 'RESET_TO_DEFAULT' });
+    },
+
+    /**
+     * Get current emotion state
+     */
+    getState(): EmotionState {
+      return machine.getSnapshot().context.state;
+    },
+
+    /**
+     * Get current prototype blend weights
+     */
+    getWeights(): EmotionBlend {
+      return blendEmotionWeights(machine.getSnapshot().context.state);
+    },
+
+    /**
+     * Get the strongest emotion in the current blend
+     */
+    getDominantEmotion(): EmotionName | 'neutral' {
+      return getDominantEmotion(blendEmotionWeights(machine.getSnapshot().context.state));
+    },
+
+    /**
+     * Push emotion modulators (intensity, jaw) to a lip-sync service.
+     * Returns a function that detaches it.
+     */
+    attachLipSync(target: EmotionLipSyncTarget): () => void {
+      return scheduler.attachLipSync(target);
+    },
+
+    /**
+     * Update scheduler configuration (tick rate, transition time, priority)
+     */
+    updateConfig(newConfig: Partial<EmotionSchedulerConfig>): void {
+      scheduler.updateConfig(newConfig);
+    },
+
+    /**
+     * Subscribe to state changes
+     */
+    subscribe(callback: (state: EmotionState) => void): () => void {
+      subscribers.add(callback);
+      return () => subscribers.delete(callback);
+    },
+
+    /**
+     * Cleanup and release resources
+     */
+    dispose(): void {
+      scheduler.dispose();
+      subscribers.clear();
+      try {
+        machine.stop();
+      } catch {
+        // Ignore errors on cleanup
+      }
+    },
+  };
+}
+
+// For class-based usage
+export class EmotionService {
+  private api: EmotionServiceAPI;
+
+  constructor(hostCaps?: EmotionHostCaps, config?: Partial<EmotionSchedulerConfig>) {
+    this.api = createEmotionService(hostCaps, config);
+  }
+
+  /**
+   * Express a categorical emotion (0-1)
+   */
+  public express(emotion: EmotionName | 'neutral', intensity?: number): void {
+    this.api.express(emotion, intensity);
+  }
+
+  /**
+   * Shift core affect by an appraisal
+   */
+  public appraise(delta: Partial<VAD>): void {
+    this.api.appraise(delta);
+  }
+
+  /**
+   * Set the baseline mood
+   */
+  public setMood(mood: Partial<VAD>): void {
+    this.api.setMood(mood);
+  }
+
+  /**
+   * Set the decay half-life (seconds)
+   */
+  public setHalfLife(halfLife: number): void {
+    this.api.setHalfLife(halfLife);
+  }
+
+  /**
+   * Set overall expression intensity (0-1)
+   */
+  public setIntensity(intensity: number): void {
+    this.api.setIntensity(intensity);
+  }
+
+  /**
+   * Enable emotional expression
+   */
+  public enable(): void {
+    this.api.enable();
+  }
+
+  /**
+   * Disable emotional expression
+   */
+  public disable(): void {
+    this.api.disable();
+  }
+
+  /**
+   * Reset to default state
+   */
+  public reset(): void {
+    this.api.reset();
+  }
+
+  /**
+   * Get current emotion state
+   */
+  public getState(): EmotionState {
+    return this.api.getState();
+  }
+
+  /**
+   * Get the strongest emotion in the current blend
+   */
+  public getDominantEmotion(): EmotionName | 'neutral' {
+    return this.api.getDominantEmotion();
+  }
+
+  /**
+   * Push emotion modulators to a lip-sync service
+   */
+  public attachLipSync(target: EmotionLipSyncTarget): () => void {
+    return this.api.attachLipSync(target);
+  }
+
+  /**
+   * Subscribe to state changes
+   */
+  public subscribe(callback: (state: EmotionState) => void): () => void {
+    return this.api.subscribe(callback);
+  }
+
+  /**
+   * Cleanup
+   */
+  public dispose(): void {
+    this.api.dispose();
+  }
+}
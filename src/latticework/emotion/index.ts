@@ -0,0 +1,44 @@
+/**
+ * Emotion Agency
+ * Exports service factory and types for blended, decaying facial emotion
+ */
+
+export {
+  EmotionService,
+  createEmotionService,
+} from './emotionService';
+
+export type { EmotionServiceAPI } from './emotionService';
+
+export {
+  EmotionScheduler,
+  DEFAULT_EMOTION_SCHEDULER_CONFIG,
+  blendEmotionWeights,
+  computeFaceAUs,
+  getDominantEmotion,
+} from './emotionScheduler';
+
+export type {
+  EmotionHostCaps,
+  EmotionLipSyncTarget,
+  EmotionSchedulerConfig,
+} from './emotionScheduler';
+
+export { emotionMachine } from './emotionMachine';
+
+export type {
+  VAD,
+  EmotionName,
+  EmotionPrototype,
+  EmotionState,
+  EmotionEvent,
+  EmotionContext,
+  EmotionBlend,
+} from './types';
+
+export {
+  EMOTION_PROTOTYPES,
+  DEFAULT_EMOTION_STATE,
+  NEUTRAL_VAD,
+  isEmotionName,
+} from './types';
@@ -0,0 +1,157 @@
+/**
+ * Emotion Agency Types
+ *
+ * Type definitions for the shared emotion system.
+ * Part of the latticework agency architecture.
+ */
+
+/**
+ * Point in valence / arousal / dominance space (each -1 to 1)
+ */
+export interface VAD {
+  valence: number;
+  arousal: number;
+  dominance: number;
+}
+
+/**
+ * Basic-emotion prototype: a VAD location plus the AU pattern shown at full intensity
+ */
+export interface EmotionPrototype {
+  name: string;
+  /** AU ID -> intensity (0-1) at full expression */
+  aus: Record<string, number>;
+  vad: VAD;
+  /** Only shown through express(), never picked from core affect */
+  impulseOnly?: boolean;
+}
+
+export type EmotionName =
+  | 'happy'
+  | 'sad'
+  | 'surprised'
+  | 'angry'
+  | 'disgusted'
+  | 'fearful'
+  | 'contempt'
+  | 'thinking';
+
+/**
+ * Prototype library (FACS-based, ARKit-compatible AUs)
+ * 'thinking' is not a basic emotion; it only appears when expressed explicitly
+ */
+export const EMOTION_PROTOTYPES: Record<EmotionName, EmotionPrototype> = {
+  happy: {
+    name: 'Happy',
+    aus: { '6': 0.8, '12': 0.9 }, // Cheek raiser, lip corner puller
+    vad: { valence: 0.8, arousal: 0.5, dominance: 0.4 },
+  },
+  sad: {
+    name: 'Sad',
+    aus: { '1': 0.4, '4': 0.5, '15': 0.6 }, // Inner brow raiser, brow lowerer, lip corner depressor
+    vad: { valence: -0.7, arousal: -0.4, dominance: -0.4 },
+  },
+  surprised: {
+    name: 'Surprised',
+    aus: { '1': 0.7, '2': 0.7, '5': 0.5, '26': 0.4 }, // Brow raisers, upper lid raiser, jaw drop
+    vad: { valence: 0.2, arousal: 0.8, dominance: -0.1 },
+  },
+  angry: {
+    name: 'Angry',
+    aus: { '4': 0.8, '7': 0.6, '23': 0.5 }, // Brow lowerer, lid tightener, lip tightener
+    vad: { valence: -0.6, arousal: 0.7, dominance: 0.6 },
+  },
+  disgusted: {
+    name: 'Disgusted',
+    aus: { '9': 0.7, '10': 0.5 }, // Nose wrinkler, upper lip raiser
+    vad: { valence: -0.7, arousal: 0.2, dominance: 0.3 },
+  },
+  fearful: {
+    name: 'Fearful',
+    aus: { '1': 0.8, '2': 0.7, '4': 0.4, '5': 0.6, '20': 0.5 }, // Brows up + together, lids up, lip stretcher
+    vad: { valence: -0.7, arousal: 0.7, dominance: -0.6 },
+  },
+  contempt: {
+    name: 'Contempt',
+    aus: { '14': 0.6, '12': 0.2 }, // Dimpler, slight lip corner puller
+    vad: { valence: -0.5, arousal: 0.1, dominance: 0.5 },
+  },
+  thinking: {
+    name: 'Thinking',
+    aus: { '4': 0.3, '55': 0.2 }, // Slight brow lowerer, head tilt
+    vad: { valence: 0.0, arousal: -0.1, dominance: 0.1 },
+    impulseOnly: true,
+  },
+};
+
+/**
+ * Whether a string names a prototype. Own keys only, so model output like
+ * "constructor" or "toString" is rejected.
+ */
+export function isEmotionName(name: string): name is EmotionName {
+  return Object.prototype.hasOwnProperty.call(EMOTION_PROTOTYPES, name);
+}
+
+export const NEUTRAL_VAD: VAD = { valence: 0, arousal: 0, dominance: 0 };
+
+/**
+ * Emotion state managed by the machine
+ */
+export interface EmotionState {
+  /** Whether the agency drives the face */
+  enabled: boolean;
+
+  /** Current core affect */
+  vad: VAD;
+
+  /** Baseline mood the core affect decays toward */
+  mood: VAD;
+
+  /** Categorical impulses from express() (0-1), decaying toward 0 */
+  impulses: Partial<Record<EmotionName, number>>;
+
+  /** Seconds for the distance to the mood (and impulses) to halve */
+  halfLife: number;
+
+  /** Global expression scale (0-1) */
+  intensity: number;
+}
+
+/**
+ * Default emotion state
+ */
+export const DEFAULT_EMOTION_STATE: EmotionState = {
+  enabled: true,
+  vad: { ...NEUTRAL_VAD },
+  mood: { ...NEUTRAL_VAD },
+  impulses: {},
+  halfLife: 4.0,
+  intensity: 1.0,
+};
+
+/**
+ * Events for the emotion machine
+ */
+export type EmotionEvent =
+  | { type: 'ENABLE' }
+  | { type: 'DISABLE' }
+  | { type: 'EXPRESS'; emotion: EmotionName; intensity: number }
+  | { type: 'APPRAISE'; delta: Partial<VAD> }
+  | { type: 'SET_MOOD'; mood: Partial<VAD> }
+  | { type: 'SET_HALF_LIFE'; halfLife: number }
+  | { type: 'SET_INTENSITY'; intensity: number }
+  | { type: 'DECAY'; dt: number }
+  | { type: 'RESET_TO_DEFAULT' };
+
+/**
+ * Context for the emotion machine
+ */
+export interface EmotionContext {
+  state: EmotionState;
+  lastAppraisalTime: number | null;
+}
+
+/**
+ * Prototype weights after blending (0-1 each)
+ */
+export type EmotionBlend = Partial<Record<EmotionName, number>>;
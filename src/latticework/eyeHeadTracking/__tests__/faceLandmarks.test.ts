@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LANDMARK_LAYOUTS,
+  DEFAULT_NEUTRAL_FACE,
+  getLandmarkLayout,
+  getEyeMidpoint,
+  measureFace,
+  estimateHeadPose,
+  measurementsToBlendshapes,
+  type FaceMeasurements,
+  type LandmarkLayout,
+  type Point2,
+} from '../faceLandmarks';
+
+/**
+ * Tests for measuring faces from 2D landmarks.
+ *
+ * Fixtures are synthetic: a face is laid out in the face frame (eye centers at x = ±0.5,
+ * chin at y = 1, in inter-ocular units) to match the given measurements, then scaled,
+ * rolled and moved into image space. Only the indices the layout names are placed.
+ */
+describe('faceLandmarks', () => {
+  const EYE_WIDTH = 0.3;
+  const LIP_MIDLINE = 0.7;
+
+  /** Image-space landmarks whose measurements are `m` (roll included) */
+  const faceFixture = (
+    layout: LandmarkLayout,
+    m: Partial<FaceMeasurements> = {},
+    image = { scale: 80, x: 320, y: 240 }
+  ): Point2[] => {
+    const f = { ...DEFAULT_NEUTRAL_FACE, ...m };
+    const count = layout.name === 'ibug68' ? 68 : 478;
+    const face: Point2[] = Array.from({ length: count }, () => ({ x: 0, y: 0 }));
+
+    const eye = (indices: number[], cx: number, open: number) => {
+      const w = EYE_WIDTH / 2, h = (open * EYE_WIDTH) / 2;
+      // corner, upper, upper, other corner, lower, lower
+      [[-w, 0], [-w / 3, -h], [w / 3, -h], [w, 0], [w / 3, h], [-w / 3, h]]
+        .forEach(([x, y], k) => { face[indices[k]] = { x: cx + x, y }; });
+    };
+    eye(layout.rightEye, -0.5, f.eyeOpenRight);
+    eye(layout.leftEye, 0.5, f.eyeOpenLeft);
+
+    face[layout.rightBrowInner] = { x: -0.3, y: -f.browInnerRight };
+    face[layout.rightBrowOuter] = { x: -0.75, y: -f.browOuterRight };
+    face[layout.leftBrowInner] = { x: 0.3, y: -f.browInnerLeft };
+    face[layout.leftBrowOuter] = { x: 0.75, y: -f.browOuterLeft };
+    face[layout.rightFaceEdge] = { x: -1, y: 0.3 };
+    face[layout.leftFaceEdge] = { x: 1, y: 0.3 };
+    face[layout.noseTip] = { x: -1 + 2 * f.noseX, y: f.noseY };
+    face[layout.chin] = { x: 0, y: 1 };
+    face[layout.upperLipOuter] = { x: 0, y: LIP_MIDLINE - f.mouthOpen / 2 - 0.05 };
+    face[layout.lowerLipOuter] = { x: 0, y: LIP_MIDLINE + f.mouthOpen / 2 + 0.05 };
+    face[layout.upperLipInner] = { x: 0, y: LIP_MIDLINE - f.mouthOpen / 2 };
+    face[layout.lowerLipInner] = { x: 0, y: LIP_MIDLINE + f.mouthOpen / 2 };
+    face[layout.mouthRight] = { x: -f.mouthWidth / 2, y: LIP_MIDLINE - f.cornerRight };
+    face[layout.mouthLeft] = { x: f.mouthWidth / 2, y: LIP_MIDLINE - f.cornerLeft };
+
+    const c = Math.cos(f.roll), s = Math.sin(f.roll);
+    return face.map((p) => ({
+      x: image.x + image.scale * (p.x * c - p.y * s),
+      y: image.y + image.scale * (p.x * s + p.y * c),
+    }));
+  };
+
+  const expectMeasurements = (actual: FaceMeasurements | null, expected: Partial<FaceMeasurements>) => {
+    expect(actual).not.toBeNull();
+    for (const [key, value] of Object.entries(expected)) {
+      expect(actual![key as keyof FaceMeasurements], key).toBeCloseTo(value, 6);
+    }
+  };
+
+  describe.each(Object.values(LANDMARK_LAYOUTS))('$name layout', (layout) => {
+    it('should measure the neutral face', () => {
+      expectMeasurements(measureFace(faceFixture(layout)), DEFAULT_NEUTRAL_FACE);
+    });
+
+    it('should not depend on image scale, position or roll', () => {
+      const points = faceFixture(layout, { roll: 0.3 }, { scale: 200, x: 50, y: 900 });
+      expectMeasurements(measureFace(points), { ...DEFAULT_NEUTRAL_FACE, roll: 0.3 });
+    });
+
+    it('should measure each side on its own', () => {
+      const expressive = {
+        eyeOpenRight: 0.1,
+        eyeOpenLeft: 0.35,
+        browInnerRight: 0.3,
+        browOuterLeft: 0.4,
+        cornerRight: 0.1,
+        cornerLeft: -0.04,
+        mouthOpen: 0.3,
+      };
+      expectMeasurements(measureFace(faceFixture(layout, expressive)), expressive);
+    });
+
+    it('should place the eye midpoint between the eye centers', () => {
+      const mid = getEyeMidpoint(faceFixture(layout));
+      expect(mid!.x).toBeCloseTo(320);
+      expect(mid!.y).toBeCloseTo(240);
+    });
+  });
+
+  describe('Layouts', () => {
+    it('should pick the layout by landmark count', () => {
+      expect(getLandmarkLayout(68)?.name).toBe('ibug68');
+      expect(getLandmarkLayout(468)?.name).toBe('mediapipe478');
+      expect(getLandmarkLayout(478)?.name).toBe('mediapipe478');
+      expect(getLandmarkLayout(5)).toBeNull();
+    });
+
+    it('should not measure unsupported landmark sets', () => {
+      expect(measureFace([{ x: 0, y: 0 }])).toBeNull();
+      expect(getEyeMidpoint([{ x: 0, y: 0 }])).toBeNull();
+    });
+
+    it('should not measure a face whose eyes coincide', () => {
+      const points = Array.from({ length: 68 }, () => ({ x: 10, y: 10 }));
+      expect(measureFace(points)).toBeNull();
+    });
+  });
+
+  describe('estimateHeadPose', () => {
+    it('should be level for the neutral face', () => {
+      const pose = estimateHeadPose(DEFAULT_NEUTRAL_FACE);
+      expect(pose.yaw).toBeCloseTo(0);
+      expect(pose.pitch).toBeCloseTo(0);
+      expect(pose.roll).toBeCloseTo(0);
+    });
+
+    it('should turn toward the performer\'s left as the nose moves to the left edge', () => {
+      // 0.15 of the face width on a 0.6 nose depth: asin(0.5) = 30°
+      const pose = estimateHeadPose({ ...DEFAULT_NEUTRAL_FACE, noseX: 0.65 });
+      expect(pose.yaw).toBeCloseTo(Math.PI / 6);
+      expect(estimateHeadPose({ ...DEFAULT_NEUTRAL_FACE, noseX: 0.35 }).yaw).toBeCloseTo(-Math.PI / 6);
+    });
+
+    it('should pitch down as the nose drops toward the chin', () => {
+      const down = estimateHeadPose({ ...DEFAULT_NEUTRAL_FACE, noseY: 0.42 + 0.175 });
+      expect(down.pitch).toBeCloseTo(Math.PI / 6);
+      expect(estimateHeadPose({ ...DEFAULT_NEUTRAL_FACE, noseY: 0.3 }).pitch).toBeLessThan(0);
+    });
+
+    it('should saturate at ±90° instead of returning NaN', () => {
+      expect(estimateHeadPose({ ...DEFAULT_NEUTRAL_FACE, noseX: 2 }).yaw).toBeCloseTo(Math.PI / 2);
+      expect(estimateHeadPose({ ...DEFAULT_NEUTRAL_FACE, noseY: -5 }).pitch).toBeCloseTo(-Math.PI / 2);
+    });
+
+    it('should measure roll against the neutral roll', () => {
+      const neutral = { ...DEFAULT_NEUTRAL_FACE, roll: 0.05 };
+      expect(estimateHeadPose({ ...DEFAULT_NEUTRAL_FACE, roll: 0.25 }, neutral).roll).toBeCloseTo(0.2);
+    });
+
+    it('should read the pose from measured landmarks', () => {
+      const points = faceFixture(LANDMARK_LAYOUTS.mediapipe478, { noseX: 0.65, roll: -0.2 });
+      const pose = estimateHeadPose(measureFace(points)!);
+      expect(pose.yaw).toBeCloseTo(Math.PI / 6);
+      expect(pose.roll).toBeCloseTo(-0.2);
+    });
+  });
+
+  describe('measurementsToBlendshapes', () => {
+    it('should give zero weights for the neutral face', () => {
+      const weights = measurementsToBlendshapes(DEFAULT_NEUTRAL_FACE);
+      expect(Object.values(weights).every((w) => w === 0)).toBe(true);
+      expect(Object.keys(weights)).toEqual(expect.arrayContaining([
+        'eyeBlinkLeft', 'eyeBlinkRight', 'eyeWideLeft', 'eyeWideRight', 'browInnerUp',
+        'browOuterUpLeft', 'browOuterUpRight', 'browDownLeft', 'browDownRight', 'jawOpen',
+        'mouthSmileLeft', 'mouthSmileRight', 'mouthFrownLeft', 'mouthFrownRight', 'mouthPucker',
+      ]));
+    });
+
+    it('should blink fully at 35% of the neutral eye opening', () => {
+      const weights = measurementsToBlendshapes({ ...DEFAULT_NEUTRAL_FACE, eyeOpenRight: 0.28 * 0.35 });
+      expect(weights.eyeBlinkRight).toBeCloseTo(1);
+      expect(weights.eyeBlinkLeft).toBe(0);
+      expect(weights.eyeWideRight).toBe(0);
+    });
+
+    it('should widen, not blink, for a wider eye', () => {
+      const weights = measurementsToBlendshapes({ ...DEFAULT_NEUTRAL_FACE, eyeOpenLeft: 0.28 * 1.175 });
+      expect(weights.eyeWideLeft).toBeCloseTo(0.5);
+      expect(weights.eyeBlinkLeft).toBe(0);
+    });
+
+    it('should split raised and lowered brows', () => {
+      const weights = measurementsToBlendshapes({
+        ...DEFAULT_NEUTRAL_FACE,
+        browInnerRight: 0.36 + 0.12,
+        browInnerLeft: 0.36 + 0.12,
+        browOuterLeft: 0.3 + 0.06,
+      });
+      expect(weights.browInnerUp).toBeCloseTo(1);
+      expect(weights.browOuterUpLeft).toBeCloseTo(0.5);
+      expect(weights.browOuterUpRight).toBe(0);
+
+      const frown = measurementsToBlendshapes({ ...DEFAULT_NEUTRAL_FACE, browInnerRight: 0.36 - 0.04 });
+      expect(frown.browDownRight).toBeCloseTo(0.5);
+      expect(frown.browInnerUp).toBe(0);
+    });
+
+    it('should map mouth corners to smile or frown per side', () => {
+      const weights = measurementsToBlendshapes({ ...DEFAULT_NEUTRAL_FACE, cornerRight: 0.08, cornerLeft: -0.06 });
+      expect(weights.mouthSmileRight).toBeCloseTo(0.5);
+      expect(weights.mouthFrownRight).toBe(0);
+      expect(weights.mouthFrownLeft).toBeCloseTo(1);
+      expect(weights.mouthSmileLeft).toBe(0);
+    });
+
+    it('should open the jaw and pucker relative to neutral', () => {
+      const weights = measurementsToBlendshapes({ ...DEFAULT_NEUTRAL_FACE, mouthOpen: 0.32, mouthWidth: 0.6 });
+      expect(weights.jawOpen).toBeCloseTo(0.5);
+      expect(weights.mouthPucker).toBeCloseTo(1);
+    });
+
+    it('should clamp weights to 0-1', () => {
+      const weights = measurementsToBlendshapes({ ...DEFAULT_NEUTRAL_FACE, mouthOpen: 5, eyeOpenRight: -1 });
+      expect(weights.jawOpen).toBe(1);
+      expect(weights.eyeBlinkRight).toBe(1);
+    });
+
+    it('should weigh against a calibrated neutral', () => {
+      const neutral = { ...DEFAULT_NEUTRAL_FACE, cornerRight: 0.08, cornerLeft: 0.08 };
+      const weights = measurementsToBlendshapes({ ...DEFAULT_NEUTRAL_FACE, cornerRight: 0.08, cornerLeft: 0.08 }, neutral);
+      expect(weights.mouthSmileRight).toBe(0);
+      expect(weights.mouthSmileLeft).toBe(0);
+    });
+  });
+});
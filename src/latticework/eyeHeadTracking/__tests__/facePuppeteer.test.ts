@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FacePuppeteer, computeRawAUs, type FaceLandmarkDetector } from '../facePuppeteer';
+import { LANDMARK_LAYOUTS, type Point2 } from '../faceLandmarks';
+import { DEFAULT_FACE_PUPPETEER_CONFIG } from '../types';
+
+/**
+ * Tests for retargeting captured faces onto AUs.
+ *
+ * computeRawAUs is pure. Recording goes through processLandmarks with explicit
+ * timestamps and smoothing off, so every recorded value is exact.
+ */
+describe('FacePuppeteer', () => {
+  const face = (weights: Record<string, number>) => computeRawAUs(weights, { yaw: 0, pitch: 0, roll: 0 });
+
+  describe('computeRawAUs', () => {
+    it('should merge L/R blendshapes into one AU at the stronger side', () => {
+      const { raw, balance } = face({ mouthSmileLeft: 0.2, mouthSmileRight: 0.8 });
+      expect(raw['12']).toBe(0.8);
+      expect(balance['12']).toBeCloseTo(0.75); // + = toward the right
+    });
+
+    it('should balance fully to the only active side', () => {
+      expect(face({ eyeBlinkLeft: 0.6 }).balance['43']).toBe(-1);
+      expect(face({ eyeBlinkRight: 0.6 }).balance['43']).toBe(1);
+    });
+
+    it('should leave symmetric and near-zero pairs unbalanced', () => {
+      expect(face({ mouthSmileLeft: 0.5, mouthSmileRight: 0.5 }).balance).toEqual({});
+      expect(face({ mouthSmileLeft: 0.005, mouthSmileRight: 0 }).balance).toEqual({});
+    });
+
+    it('should pass single blendshapes straight through', () => {
+      const { raw, balance } = face({ jawOpen: 0.4, browInnerUp: 0.3 });
+      expect(raw['26']).toBe(0.4);
+      expect(raw['1']).toBe(0.3);
+      expect(balance).toEqual({});
+    });
+
+    it('should split each head axis into a positive and a negative AU', () => {
+      const deg = Math.PI / 180;
+      const { raw } = computeRawAUs({}, { yaw: 15 * deg, pitch: -45 * deg, roll: 0 });
+      expect(raw['51']).toBeCloseTo(0.5);
+      expect(raw['52']).toBe(0);
+      expect(raw['53']).toBe(1); // Clamped at headMaxDegrees
+      expect(raw['54']).toBe(0);
+      expect(raw['55']).toBe(0);
+      expect(raw['56']).toBe(0);
+    });
+
+    it('should skip disabled face or head AUs', () => {
+      const pose = { yaw: 0.2, pitch: 0, roll: 0 };
+      const headOnly = computeRawAUs({ jawOpen: 1 }, pose, { ...DEFAULT_FACE_PUPPETEER_CONFIG, faceEnabled: false });
+      expect(headOnly.raw['26']).toBeUndefined();
+      expect(headOnly.raw['51']).toBeGreaterThan(0);
+
+      const faceOnly = computeRawAUs({ jawOpen: 1 }, pose, { ...DEFAULT_FACE_PUPPETEER_CONFIG, headEnabled: false });
+      expect(faceOnly.raw['26']).toBe(1);
+      expect(faceOnly.raw['51']).toBeUndefined();
+    });
+  });
+
+  describe('Recording', () => {
+    const layout = LANDMARK_LAYOUTS.ibug68;
+
+    /** Neutral 68-point face (face-frame units × 100); `smileRight` raises the right mouth corner */
+    const landmarks = (smileRight = 0): Point2[] => {
+      const points: Point2[] = Array.from({ length: 68 }, () => ({ x: 0, y: 0 }));
+      const set = (i: number, x: number, y: number) => { points[i] = { x: 300 + x * 100, y: 200 + y * 100 }; };
+      const eye = (indices: number[], cx: number) => {
+        const h = 0.28 * 0.15;
+        [[-0.15, 0], [-0.05, -h], [0.05, -h], [0.15, 0], [0.05, h], [-0.05, h]]
+          .forEach(([x, y], k) => set(indices[k], cx + x, y));
+      };
+      eye(layout.rightEye, -0.5);
+      eye(layout.leftEye, 0.5);
+      set(layout.rightBrowInner, -0.3, -0.36);
+      set(layout.leftBrowInner, 0.3, -0.36);
+      set(layout.rightBrowOuter, -0.75, -0.3);
+      set(layout.leftBrowOuter, 0.75, -0.3);
+      set(layout.rightFaceEdge, -1, 0.3);
+      set(layout.leftFaceEdge, 1, 0.3);
+      set(layout.noseTip, 0, 0.42);
+      set(layout.chin, 0, 1);
+      set(layout.upperLipOuter, 0, 0.64);
+      set(layout.lowerLipOuter, 0, 0.76);
+      set(layout.upperLipInner, 0, 0.69);
+      set(layout.lowerLipInner, 0, 0.71);
+      set(layout.mouthRight, -0.425, 0.68 - smileRight);
+      set(layout.mouthLeft, 0.425, 0.68);
+      return points;
+    };
+
+    let host: { scheduleSnippet: ReturnType<typeof vi.fn>; removeSnippet: ReturnType<typeof vi.fn> };
+    let puppeteer: FacePuppeteer;
+
+    beforeEach(() => {
+      vi.spyOn(performance, 'now').mockReturnValue(1000);
+      host = { scheduleSnippet: vi.fn(() => 'snippet'), removeSnippet: vi.fn() };
+      const detector: FaceLandmarkDetector = { load: async () => {}, detect: async () => null };
+      puppeteer = new FacePuppeteer(host, { smoothing: 0 }, detector);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    /** Feed frames 100 ms apart, starting at the recording start */
+    const capture = (frames: Point2[][]) => {
+      puppeteer.startRecording();
+      frames.forEach((points, i) => puppeteer.processLandmarks(points, undefined, 1000 + i * 100));
+      return puppeteer.stopRecording('take');
+    };
+
+    it('should return null when nothing was captured', () => {
+      puppeteer.startRecording();
+      expect(puppeteer.stopRecording()).toBeNull();
+      expect(puppeteer.isRecording()).toBe(false);
+    });
+
+    it('should drop curves that never move', () => {
+      const snippet = capture(Array.from({ length: 5 }, () => landmarks()));
+      expect(snippet).not.toBeNull();
+      expect(snippet!.au).toEqual([]);
+    });
+
+    it('should decimate held values down to the points where they change', () => {
+      // Five neutral frames, then five with a half smile on the right (0.06 of a 0.12 range)
+      const frames = [...Array.from({ length: 5 }, () => landmarks()), ...Array.from({ length: 5 }, () => landmarks(0.06))];
+      const snippet = capture(frames)!;
+
+      expect(snippet.name).toBe('take');
+      expect(snippet.au.map((k) => k.id)).toEqual([12, 12, 12, 12]);
+      expect(snippet.au.map((k) => k.t)).toEqual([0, 0.4, 0.5, 0.9]);
+      expect(snippet.au.map((k) => k.v)).toEqual([0, 0, 0.5, 0.5]);
+    });
+
+    it('should keep every frame of a curve that moves beyond the tolerance', () => {
+      const frames = [0, 0.06, 0, 0.06].map((s) => landmarks(s));
+      const snippet = capture(frames)!;
+      expect(snippet.au.filter((k) => k.id === 12)).toHaveLength(4);
+    });
+
+    it('should average the balance over the frames that had one', () => {
+      const frames = [landmarks(), landmarks(0.06), landmarks(0.06)];
+      expect(capture(frames)!.snippetBalanceMap).toEqual({ '12': 1 });
+    });
+
+    it('should schedule face AUs with their balance while capturing', () => {
+      puppeteer.processLandmarks(landmarks(0.06));
+      expect(host.scheduleSnippet).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'facePuppeteer/face',
+        mixerChannel: 'face',
+        snippetBalanceMap: { '12': 1 },
+      }));
+      expect(host.scheduleSnippet).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'facePuppeteer/head',
+        mixerChannel: 'head',
+      }));
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { GazeModel, mainSequenceDuration, headMovementDuration } from '../gazeModel';
+import type { AxisKeyframe, GazePlan } from '../gazeModel';
+
+/**
+ * Tests for the gaze planner (saccade timing, eye-head split, VOR, pursuit, fixation).
+ *
+ * Plans are pure data, so trajectories are checked through GazeModel.getState at chosen
+ * times. Default config: gaze x = ±1 is ±60° of yaw, the head joins beyond 15°.
+ */
+describe('GazeModel', () => {
+  const target = (x: number, y = 0) => ({ x, y, z: 0 });
+  const last = (keys: AxisKeyframe[] | undefined) => keys![keys!.length - 1];
+  const endOf = (plan: GazePlan) => plan.startTime + plan.duration * 1000;
+
+  describe('Main sequence', () => {
+    it('should grow saccade duration linearly with amplitude', () => {
+      expect(mainSequenceDuration(10)).toBeCloseTo(43);
+      expect(mainSequenceDuration(30)).toBeCloseTo(87);
+      expect(mainSequenceDuration(-10)).toBeCloseTo(43);
+    });
+
+    it('should shorten saccades at higher speed and never go below 15 ms', () => {
+      expect(mainSequenceDuration(10, 1)).toBeCloseTo(43 * 0.7);
+      expect(mainSequenceDuration(10, 0.35)).toBeCloseTo(86);
+      expect(mainSequenceDuration(0, 1)).toBe(15);
+    });
+
+    it('should make head movements slower than saccades of the same size', () => {
+      expect(headMovementDuration(20)).toBeCloseTo(230);
+      expect(headMovementDuration(20)).toBeGreaterThan(mainSequenceDuration(20));
+    });
+  });
+
+  describe('Saccades', () => {
+    it('should move the eyes only for small shifts', () => {
+      const model = new GazeModel();
+      const plan = model.planShift(target(0.1), 1000);
+
+      expect(plan.kind).toBe('saccade');
+      expect(plan.duration).toBeCloseTo(mainSequenceDuration(6) / 1000);
+      expect(plan.eyeYaw).toHaveLength(2);
+      expect(plan.headYaw!.every(k => k.value === 0)).toBe(true);
+      expect(model.getState(endOf(plan)).eye.x).toBeCloseTo(0.1);
+    });
+
+    it('should split a large shift between eyes and head', () => {
+      const model = new GazeModel();
+      const plan = model.planShift(target(0.5), 1000);
+
+      // 30° shift: the head takes 90% of the 15° beyond the threshold
+      const { eye, head } = model.getState(endOf(plan));
+      expect(head.x).toBeCloseTo(0.225);
+      expect(eye.x).toBeCloseTo(0.275);
+      expect(eye.x + head.x).toBeCloseTo(0.5);
+    });
+
+    it('should time the plan from the saccade, head latency and head movement', () => {
+      const model = new GazeModel();
+      const plan = model.planShift(target(0.5), 1000);
+
+      const saccadeSec = mainSequenceDuration(30) / 1000;
+      const headSec = headMovementDuration(13.5) / 1000;
+      expect(plan.eyeYaw[1].time).toBeCloseTo(saccadeSec);
+      // Head holds through the latency, then moves
+      expect(plan.headYaw![1]).toEqual({ time: 0.03, value: 0 });
+      expect(last(plan.headYaw).time).toBeCloseTo(0.03 + headSec);
+      expect(plan.duration).toBeCloseTo(0.03 + headSec);
+      expect(model.isSettled(endOf(plan) - 1)).toBe(false);
+      expect(model.isSettled(endOf(plan))).toBe(true);
+    });
+
+    it('should keep gaze on target while the head moves (VOR)', () => {
+      const model = new GazeModel();
+      const plan = model.planShift(target(0.5, 0.2), 1000);
+
+      const landed = plan.eyeYaw[1].time;
+      for (const key of plan.eyeYaw.filter(k => k.time >= landed)) {
+        const { eye, head } = model.getState(plan.startTime + key.time * 1000);
+        expect(eye.x + head.x).toBeCloseTo(0.5);
+        expect(eye.y + head.y).toBeCloseTo(0.2);
+      }
+      // The eyes counter-rotate back towards center as the head arrives
+      expect(last(plan.eyeYaw).value).toBeLessThan(plan.eyeYaw[1].value);
+    });
+
+    it('should let the head cover anything past the orbit limit', () => {
+      const model = new GazeModel({ headContribution: 0 });
+      const plan = model.planShift(target(0.9), 1000);
+
+      const { eye, head } = model.getState(endOf(plan));
+      expect(eye.x).toBeCloseTo(40 / 60);
+      expect(eye.x + head.x).toBeCloseTo(0.9);
+    });
+
+    it('should clamp the eyes and leave the head out when it may not move', () => {
+      const model = new GazeModel();
+      const plan = model.planShift(target(0.9), 1000, { moveHead: false });
+
+      expect(plan.headYaw).toBeUndefined();
+      expect(last(plan.eyeYaw).value).toBeCloseTo(40 / 60);
+      expect(model.getState(endOf(plan)).head).toEqual({ x: 0, y: 0 });
+    });
+
+    it('should start from where the previous plan was interrupted', () => {
+      const model = new GazeModel();
+      const first = model.planShift(target(0.5), 1000);
+      const midway = model.getState(1040);
+      const second = model.planShift(target(-0.1), 1040);
+
+      expect(first.kind).toBe('saccade');
+      expect(second.eyeYaw[0].value).toBeCloseTo(midway.eye.x);
+      expect(second.headYaw![0].value).toBeCloseTo(midway.head.x);
+      const { eye, head } = model.getState(endOf(second));
+      expect(eye.x + head.x).toBeCloseTo(-0.1);
+    });
+  });
+
+  describe('Smooth pursuit', () => {
+    it('should track a slowly moving target with pursuit', () => {
+      const model = new GazeModel({ smoothPursuit: true });
+      model.planShift(target(0.1), 1000);
+      // 0.6° in 100 ms = 6°/s
+      const plan = model.planShift(target(0.11), 1100);
+
+      expect(plan.kind).toBe('pursuit');
+      expect(plan.duration).toBeCloseTo(0.1);
+      expect(plan.eyeYaw).toEqual([{ time: 0, value: 0.1 }, { time: 0.1, value: 0.11 }]);
+    });
+
+    it('should catch a fast target with a saccade without head latency', () => {
+      const model = new GazeModel({ smoothPursuit: true });
+      model.planShift(target(0.1), 1000);
+      const plan = model.planShift(target(0.6), 1100);
+
+      expect(plan.kind).toBe('saccade');
+      expect(plan.headYaw![1].time).toBeGreaterThan(0);
+      expect(plan.headYaw![1].value).toBeGreaterThan(plan.headYaw![0].value);
+    });
+
+    it('should use saccades when pursuit is disabled or samples are far apart', () => {
+      const off = new GazeModel();
+      off.planShift(target(0.1), 1000);
+      expect(off.planShift(target(0.11), 1100).kind).toBe('saccade');
+
+      const sparse = new GazeModel({ smoothPursuit: true });
+      sparse.planShift(target(0.1), 1000);
+      expect(sparse.planShift(target(0.11), 2000).kind).toBe('saccade');
+    });
+  });
+
+  describe('Fixation', () => {
+    const fixed = () => 0.5;
+
+    it('should wait for the current shift to finish', () => {
+      const model = new GazeModel();
+      expect(model.planFixation(1000, fixed)).toBeNull();
+
+      const plan = model.planShift(target(0.2), 1000);
+      expect(model.planFixation(1010, fixed)).toBeNull();
+      expect(model.planFixation(endOf(plan), fixed)).not.toBeNull();
+    });
+
+    it('should drift and land a microsaccade near the fixation point', () => {
+      const model = new GazeModel();
+      const shift = model.planShift(target(0.2), 1000);
+      const plan = model.planFixation(endOf(shift), fixed)!;
+
+      expect(plan.kind).toBe('fixation');
+      expect(plan.duration).toBeCloseTo(0.75);
+      expect(plan.headYaw).toBeUndefined();
+      expect(plan.eyeYaw.map(k => k.time)).toEqual([0, expect.any(Number), 0.75]);
+      // Lands within the microsaccade amplitude (0.4°) of the target
+      expect(Math.abs(last(plan.eyeYaw).value - 0.2) * 60).toBeLessThan(0.4);
+      expect(model.getState(endOf(plan)).head).toEqual(model.getState(endOf(shift)).head);
+    });
+  });
+});
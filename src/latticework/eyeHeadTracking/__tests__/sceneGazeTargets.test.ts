@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { resolveSceneGazeTarget, getSceneTargetPosition, isSceneGazeTarget } from '../sceneGazeTargets';
+import type { GazeFrame } from '../sceneGazeTargets';
+import type { GazeSceneObject } from '../types';
+
+/**
+ * Tests for resolving scene targets into normalized gaze coordinates.
+ *
+ * GazeSceneObject is structural, so objects are plain column-major matrices:
+ * a yaw about +Y plus a translation. At yaw 0 the character faces +Z and its
+ * own right is -X (local +X is its left).
+ */
+describe('sceneGazeTargets', () => {
+  type Vec3 = [number, number, number];
+
+  /** Object at `position`, turned `yaw` radians about +Y, with named children */
+  const node = (position: Vec3, yaw = 0, children: Record<string, GazeSceneObject> = {}): GazeSceneObject => {
+    const c = Math.cos(yaw), s = Math.sin(yaw);
+    return {
+      matrixWorld: { elements: [c, 0, -s, 0, 0, 1, 0, 0, s, 0, c, 0, ...position, 1] },
+      getObjectByName: (name) => children[name],
+    };
+  };
+
+  const frame = (model: GazeSceneObject, extra: Partial<GazeFrame> = {}): GazeFrame => ({
+    model,
+    yawRange: Math.PI / 2,
+    pitchRange: Math.PI / 2,
+    ...extra,
+  });
+
+  const world = (x: number, y: number, z: number) => ({ type: 'world' as const, position: { x, y, z } });
+
+  describe('Sign', () => {
+    it('should give x > 0 for a point on the character\'s right', () => {
+      const gaze = resolveSceneGazeTarget(world(-1, 0, 1), frame(node([0, 0, 0])));
+      expect(gaze.x).toBeCloseTo(0.5); // 45° of a 90° range
+      expect(gaze.y).toBeCloseTo(0);
+    });
+
+    it('should give x < 0 for a point on the character\'s left', () => {
+      expect(resolveSceneGazeTarget(world(1, 0, 1), frame(node([0, 0, 0]))).x).toBeCloseTo(-0.5);
+    });
+
+    it('should give y > 0 for a point above the head', () => {
+      const gaze = resolveSceneGazeTarget(world(0, 1, 1), frame(node([0, 0, 0])));
+      expect(gaze.x).toBeCloseTo(0);
+      expect(gaze.y).toBeCloseTo(0.5);
+      expect(gaze.z).toBe(0);
+    });
+  });
+
+  describe('Root frame', () => {
+    it('should measure yaw in a turned character\'s own frame', () => {
+      // Facing -Z from z = 5; its right is now +X
+      const model = node([0, 0, 5], Math.PI);
+      expect(resolveSceneGazeTarget(world(0, 0, 0), frame(model)).x).toBeCloseTo(0);
+      expect(resolveSceneGazeTarget(world(1, 0, 4), frame(model)).x).toBeCloseTo(0.5);
+    });
+
+    it('should measure from the head bone but use the root\'s axes', () => {
+      // Head turned 90° away; only its position should matter
+      const head = node([0, 1.6, 0], Math.PI / 2);
+      const model = node([0, 0, 0], 0, { Head: head });
+      const gaze = resolveSceneGazeTarget(world(0, 1.6, 2), frame(model));
+      expect(gaze.x).toBeCloseTo(0);
+      expect(gaze.y).toBeCloseTo(0);
+    });
+
+    it('should prefer a configured head bone over the default names', () => {
+      const model = node([0, 0, 0], 0, { Head: node([0, 1.6, 0]), Skull: node([0, 1, 0]) });
+      const gaze = resolveSceneGazeTarget(world(0, 2, 1), frame(model, { headBoneName: 'Skull' }));
+      expect(gaze.y).toBeCloseTo(0.5);
+    });
+
+    it('should derive pitch from the horizontal distance, not just forward', () => {
+      // 1 up, sqrt(2) away diagonally: atan2(1, sqrt(2)) ≈ 35.3°
+      const gaze = resolveSceneGazeTarget(world(-1, 1, 1), frame(node([0, 0, 0])));
+      expect(gaze.y).toBeCloseTo(Math.atan2(1, Math.SQRT2) / (Math.PI / 2));
+    });
+  });
+
+  describe('Clamping', () => {
+    it('should clamp yaw beyond the range to ±1', () => {
+      const narrow = frame(node([0, 0, 0]), { yawRange: Math.PI / 4 });
+      expect(resolveSceneGazeTarget(world(-10, 0, 0.1), narrow).x).toBe(1);
+      expect(resolveSceneGazeTarget(world(10, 0, 0.1), narrow).x).toBe(-1);
+    });
+
+    it('should clamp a point behind the character instead of wrapping', () => {
+      expect(resolveSceneGazeTarget(world(-0.1, 0, -1), frame(node([0, 0, 0]))).x).toBe(1);
+    });
+
+    it('should clamp pitch beyond the range to ±1', () => {
+      const narrow = frame(node([0, 0, 0]), { pitchRange: Math.PI / 8 });
+      expect(resolveSceneGazeTarget(world(0, 5, 1), narrow).y).toBe(1);
+      expect(resolveSceneGazeTarget(world(0, -5, 1), narrow).y).toBe(-1);
+    });
+  });
+
+  describe('Target kinds', () => {
+    it('should look straight ahead at "the user" without a camera', () => {
+      expect(resolveSceneGazeTarget({ type: 'user' }, frame(node([0, 0, 0])))).toEqual({ x: 0, y: 0, z: 0 });
+    });
+
+    it('should look at the user camera when one is configured', () => {
+      const gaze = resolveSceneGazeTarget({ type: 'user' }, frame(node([0, 0, 0]), { userCamera: node([-2, 0, 2]) }));
+      expect(gaze.x).toBeCloseTo(0.5);
+    });
+
+    it('should locate a bone on another character', () => {
+      const other = node([3, 0, 3], 0, { Head: node([-1, 0, 1]) });
+      expect(getSceneTargetPosition({ type: 'bone', model: other, bone: 'Head' })).toEqual({ x: -1, y: 0, z: 1 });
+      expect(resolveSceneGazeTarget({ type: 'bone', model: other, bone: 'Head' }, frame(node([0, 0, 0]))).x)
+        .toBeCloseTo(0.5);
+    });
+
+    it('should fall back to the other model\'s root when the bone is missing', () => {
+      const other = node([3, 0, 3]);
+      expect(getSceneTargetPosition({ type: 'bone', model: other, bone: 'Head' })).toEqual({ x: 3, y: 0, z: 3 });
+    });
+
+    it('should tell scene targets from screen-space targets', () => {
+      expect(isSceneGazeTarget({ type: 'user' })).toBe(true);
+      expect(isSceneGazeTarget({ x: 0.2, y: 0, z: 0 })).toBe(false);
+    });
+  });
+});
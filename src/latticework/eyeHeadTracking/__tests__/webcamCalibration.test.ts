@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  DEFAULT_GAZE_CALIBRATION,
+  applyGazeCalibration,
+  averageSamples,
+  computeCalibrationProfile,
+  loadCalibrationProfiles,
+  saveCalibrationProfile,
+  deleteCalibrationProfile,
+  getActiveCalibrationProfileName,
+  setActiveCalibrationProfileName,
+  type CalibrationSample,
+} from '../webcamCalibration';
+import { DEFAULT_NEUTRAL_FACE } from '../faceLandmarks';
+
+/**
+ * Tests for webcam calibration profiles.
+ *
+ * Samples are built by hand: a face position for gaze, plus neutral measurements
+ * and raw puppeteer AUs for the offset/gain part.
+ */
+describe('webcamCalibration', () => {
+  const at = (x: number, y: number, aus?: Record<string, number>): CalibrationSample => ({
+    face: { x, y },
+    ...(aus ? { aus } : {}),
+  });
+  const neutral = (aus: Record<string, number> = {}): CalibrationSample => ({
+    face: { x: 0.5, y: 0.5 },
+    measurements: { ...DEFAULT_NEUTRAL_FACE },
+    aus,
+  });
+
+  describe('Gaze', () => {
+    it('should center on the neutral face position', () => {
+      const profile = computeCalibrationProfile('me', { neutral: at(0.45, 0.55) });
+      expect(profile.gaze.centerX).toBe(0.45);
+      expect(profile.gaze.centerY).toBe(0.55);
+    });
+
+    it('should keep the default gains without look poses', () => {
+      const { gaze } = computeCalibrationProfile('me', { neutral: at(0.5, 0.5) });
+      expect(gaze.gainX).toBe(DEFAULT_GAZE_CALIBRATION.gainX);
+      expect(gaze.gainY).toBe(DEFAULT_GAZE_CALIBRATION.gainY);
+    });
+
+    it('should map half the spread between opposite look poses to ±1', () => {
+      const { gaze } = computeCalibrationProfile('me', {
+        neutral: at(0.5, 0.5),
+        lookLeft: at(0.4, 0.5),
+        lookRight: at(0.6, 0.5),
+        lookUp: at(0.5, 0.45),
+        lookDown: at(0.5, 0.55),
+      });
+      expect(gaze.gainX).toBe(10);
+      expect(gaze.gainY).toBe(20);
+    });
+
+    it('should fall back to the distance from center with only one side', () => {
+      expect(computeCalibrationProfile('me', { neutral: at(0.5, 0.5), lookLeft: at(0.3, 0.5) }).gaze.gainX).toBe(5);
+      expect(computeCalibrationProfile('me', { neutral: at(0.5, 0.5), lookDown: at(0.5, 0.75) }).gaze.gainY).toBe(4);
+    });
+
+    it('should clamp the gaze gain', () => {
+      // 0.004 of spread would be a gain of 250
+      const tiny = computeCalibrationProfile('me', { neutral: at(0.5, 0.5), lookLeft: at(0.496, 0.5) });
+      expect(tiny.gaze.gainX).toBe(20);
+      const wide = computeCalibrationProfile('me', { neutral: at(0.5, 0.5), lookLeft: at(-2, 0.5), lookRight: at(3, 0.5) });
+      expect(wide.gaze.gainX).toBe(0.5);
+    });
+
+    it('should ignore look poses that didn\'t move', () => {
+      const { gaze } = computeCalibrationProfile('me', { neutral: at(0.5, 0.5), lookLeft: at(0.5, 0.5) });
+      expect(gaze.gainX).toBe(DEFAULT_GAZE_CALIBRATION.gainX);
+    });
+
+    it('should map face positions through the calibration (y up)', () => {
+      const calibration = { centerX: 0.4, centerY: 0.5, gainX: 5, gainY: 4 };
+      expect(applyGazeCalibration({ x: 0.5, y: 0.45 }, calibration)).toEqual({ x: expect.closeTo(0.5), y: expect.closeTo(0.2), z: 0 });
+      expect(applyGazeCalibration({ x: 1, y: 1 }, calibration)).toEqual({ x: 1, y: -1, z: 0 });
+    });
+
+    it('should need a neutral pose', () => {
+      expect(() => computeCalibrationProfile('me', { lookLeft: at(0.3, 0.5) })).toThrow(/neutral/);
+    });
+  });
+
+  describe('Puppeteer', () => {
+    it('should skip face calibration without neutral measurements', () => {
+      const profile = computeCalibrationProfile('me', { neutral: at(0.5, 0.5), smile: at(0.5, 0.5, { '12': 0.5 }) });
+      expect(profile.neutralFace).toBeUndefined();
+      expect(profile.auCalibration).toBeUndefined();
+    });
+
+    it('should keep the neutral measurements as the resting face', () => {
+      expect(computeCalibrationProfile('me', { neutral: neutral() }).neutralFace).toEqual(DEFAULT_NEUTRAL_FACE);
+    });
+
+    it('should turn the neutral pose\'s residual AUs into offsets', () => {
+      const profile = computeCalibrationProfile('me', { neutral: neutral({ '12': 0.1, '43': 0.005 }) });
+      expect(profile.auCalibration).toEqual({ '12': { offset: 0.1 } });
+    });
+
+    it('should set gains so each pose\'s response reaches full intensity', () => {
+      const profile = computeCalibrationProfile('me', {
+        neutral: neutral({ '12': 0.1 }),
+        smile: at(0.5, 0.5, { '12': 0.6 }),
+        browsUp: at(0.5, 0.5, { '1': 0.8, '2': 0.4 }),
+      });
+      expect(profile.auCalibration).toEqual({
+        '12': { offset: 0.1, gain: 2 }, // Response 0.5 above the offset
+        '1': { gain: 1.25 },
+        '2': { gain: 2.5 },
+      });
+    });
+
+    it('should clamp AU gains', () => {
+      const profile = computeCalibrationProfile('me', {
+        neutral: neutral(),
+        smile: at(0.5, 0.5, { '12': 0.1 }),
+        browsUp: at(0.5, 0.5, { '1': 8 }),
+      });
+      expect(profile.auCalibration!['12'].gain).toBe(4);
+      expect(profile.auCalibration!['1'].gain).toBe(0.25);
+    });
+
+    it('should leave AUs a pose barely moved alone', () => {
+      const profile = computeCalibrationProfile('me', {
+        neutral: neutral({ '12': 0.2 }),
+        smile: at(0.5, 0.5, { '12': 0.22 }),
+      });
+      expect(profile.auCalibration).toEqual({ '12': { offset: 0.2 } });
+    });
+
+    it('should only calibrate the AUs a pose drives', () => {
+      const profile = computeCalibrationProfile('me', { neutral: neutral(), smile: at(0.5, 0.5, { '12': 0.5, '26': 0.5 }) });
+      expect(Object.keys(profile.auCalibration!)).toEqual(['12']);
+    });
+  });
+
+  describe('averageSamples', () => {
+    it('should average positions and measurements', () => {
+      const a = { face: { x: 0.4, y: 0.6 }, measurements: { ...DEFAULT_NEUTRAL_FACE, mouthOpen: 0.1 } };
+      const b = { face: { x: 0.6, y: 0.4 }, measurements: { ...DEFAULT_NEUTRAL_FACE, mouthOpen: 0.3 } };
+      const avg = averageSamples([a, b])!;
+      expect(avg.face.x).toBeCloseTo(0.5);
+      expect(avg.face.y).toBeCloseTo(0.5);
+      expect(avg.measurements!.mouthOpen).toBeCloseTo(0.2);
+    });
+
+    it('should average measurements over the samples that have them', () => {
+      const avg = averageSamples([at(0.5, 0.5), { face: { x: 0.5, y: 0.5 }, measurements: { ...DEFAULT_NEUTRAL_FACE } }])!;
+      expect(avg.measurements).toEqual(DEFAULT_NEUTRAL_FACE);
+    });
+
+    it('should return null for no samples', () => {
+      expect(averageSamples([])).toBeNull();
+    });
+  });
+
+  describe('Profile storage', () => {
+    beforeEach(() => {
+      const localStorageMock = {
+        data: {} as Record<string, string>,
+        getItem(key: string) {
+          return this.data[key] ?? null;
+        },
+        setItem(key: string, value: string) {
+          this.data[key] = value;
+        },
+        removeItem(key: string) {
+          delete this.data[key];
+        },
+      };
+      vi.stubGlobal('localStorage', localStorageMock);
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    });
+
+    it('should round-trip profiles by name', () => {
+      const profile = computeCalibrationProfile('me', {
+        neutral: neutral({ '12': 0.1 }),
+        lookLeft: at(0.4, 0.5),
+        smile: at(0.5, 0.5, { '12': 0.6 }),
+      });
+      saveCalibrationProfile(profile);
+      saveCalibrationProfile({ ...profile, name: 'guest' });
+
+      const loaded = loadCalibrationProfiles();
+      expect(Object.keys(loaded)).toEqual(['me', 'guest']);
+      expect(loaded.me).toEqual(profile);
+      expect(loaded.me.createdAt).toBe(Date.parse('2026-01-01T00:00:00Z'));
+    });
+
+    it('should replace a profile saved under the same name', () => {
+      saveCalibrationProfile(computeCalibrationProfile('me', { neutral: at(0.5, 0.5) }));
+      saveCalibrationProfile(computeCalibrationProfile('me', { neutral: at(0.4, 0.5) }));
+      expect(loadCalibrationProfiles().me.gaze.centerX).toBe(0.4);
+    });
+
+    it('should clear the active profile when it is deleted', () => {
+      saveCalibrationProfile(computeCalibrationProfile('me', { neutral: at(0.5, 0.5) }));
+      saveCalibrationProfile(computeCalibrationProfile('guest', { neutral: at(0.5, 0.5) }));
+      setActiveCalibrationProfileName('me');
+      expect(getActiveCalibrationProfileName()).toBe('me');
+
+      deleteCalibrationProfile('guest');
+      expect(getActiveCalibrationProfileName()).toBe('me');
+      deleteCalibrationProfile('me');
+      expect(getActiveCalibrationProfileName()).toBeNull();
+      expect(loadCalibrationProfiles()).toEqual({});
+    });
+
+    it('should clear the active profile name with null', () => {
+      setActiveCalibrationProfileName('me');
+      setActiveCalibrationProfileName(null);
+      expect(getActiveCalibrationProfileName()).toBeNull();
+    });
+
+    it('should return no profiles for bad JSON', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      localStorage.setItem('eyeHeadTracking/calibrationProfiles', '{not json');
+      expect(loadCalibrationProfiles()).toEqual({});
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -6,7 +6,7 @@
 import { setup, assign } from 'xstate';
 import { DEFAULT_EYE_HEAD_CONFIG, type EyeHeadTrackingConfig, type GazeTarget } from './types';
 
-export type EyeHeadTrackingMode = 'manual' | 'mouse' | 'webcam';
+export type EyeHeadTrackingMode = 'manual' | 'mouse' | 'webcam' | 'puppeteer';
 
 export interface EyeHeadTrackingMachineContext {
   config: EyeHeadTrackingConfig;
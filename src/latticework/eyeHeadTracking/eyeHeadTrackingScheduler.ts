@@ -9,9 +9,14 @@
  * - Head Yaw (horizontal): AU 51 (left) ↔ AU 52 (right)
  * - Head Pitch (vertical): AU 54 (down) ↔ AU 53 (up)
  * - Head Roll (tilt): AU 55 (left) ↔ AU 56 (right)
+ *
+ * Gaze shifts go through GazeModel (main-sequence saccades, eye-head split with
+ * VOR, smooth pursuit) and fixation runs a drift/microsaccade loop between shifts.
+ * scheduleGazeTransition() remains for fixed-duration linear transitions.
  */
 
 import type { GazeTarget } from './types';
+import { GazeModel, type GazeModelConfig, type GazePlan, type AxisKeyframe } from './gazeModel';
 
 export interface EyeHeadHostCaps {
   scheduleSnippet: (snippet: any) => string | null;
@@ -35,6 +40,9 @@ const DEFAULT_TRANSITION_CONFIG: GazeTransitionConfig = {
   headPriority: 15,
 };
 
+const now = (): number =>
+  typeof performance !== 'undefined' ? performance.now() : Date.now();
+
 // ARKit AU IDs for eye and head movements
 export const EYE_HEAD_AUS = {
   // Eye AUs
@@ -62,16 +70,37 @@ function easeInOutCubic(t: number): number {
     : 1 - Math.pow(-2 * t + 2, 3) / 2;
 }
 
+export interface FixationConfig {
+  enabled: boolean; // Drift + microsaccades while fixating
+  delay: number; // ms after a shift lands before fixational movements start
+}
+
+const DEFAULT_FIXATION_CONFIG: FixationConfig = {
+  enabled: true,
+  delay: 250,
+};
+
 export class EyeHeadTrackingScheduler {
   private host: EyeHeadHostCaps;
   private transitionConfig: GazeTransitionConfig;
-
-  constructor(host: EyeHeadHostCaps, transitionConfig?: Partial<GazeTransitionConfig>) {
+  private fixationConfig: FixationConfig;
+  private gazeModel: GazeModel;
+  private fixationTimer: ReturnType<typeof setTimeout> | null = null;
+  private headRoll = 0;
+
+  constructor(
+    host: EyeHeadHostCaps,
+    transitionConfig?: Partial<GazeTransitionConfig>,
+    modelConfig?: Partial<GazeModelConfig>,
+    fixationConfig?: Partial<FixationConfig>
+  ) {
     this.host = host;
     this.transitionConfig = {
       ...DEFAULT_TRANSITION_CONFIG,
       ...transitionConfig,
     };
+    this.gazeModel = new GazeModel(modelConfig);
+    this.fixationConfig = { ...DEFAULT_FIXATION_CONFIG, ...fixationConfig };
 
     // Scheduler initialized
   }
@@ -86,6 +115,131 @@ export class EyeHeadTrackingScheduler {
     };
   }
 
+  /**
+   * Update gaze model (saccade/pursuit/eye-head) and fixation settings
+   */
+  public updateModelConfig(modelConfig: Partial<GazeModelConfig>, fixationConfig?: Partial<FixationConfig>): void {
+    this.gazeModel.updateConfig(modelConfig);
+    if (fixationConfig) {
+      this.fixationConfig = { ...this.fixationConfig, ...fixationConfig };
+      if (!this.fixationConfig.enabled) this.clearFixationTimer();
+    }
+  }
+
+  /**
+   * Current gaze model (for inspection/debugging)
+   */
+  public getGazeModel(): GazeModel {
+    return this.gazeModel;
+  }
+
+  /**
+   * Schedule a physiological gaze shift (saccade or smooth pursuit) to the target.
+   * Timing comes from the gaze model rather than a fixed duration.
+   */
+  public scheduleGazeShift(
+    target: GazeTarget,
+    options?: {
+      eyeEnabled?: boolean;
+      headEnabled?: boolean;
+      headFollowEyes?: boolean;
+      headRoll?: number;
+    }
+  ): GazePlan {
+    const { eyeEnabled = true, headEnabled = true, headFollowEyes = true, headRoll = 0 } = options || {};
+    const moveHead = headEnabled && headFollowEyes;
+    this.headRoll = headRoll;
+
+    const plan = this.gazeModel.planShift(target, now(), { moveHead });
+    this.schedulePlan(plan, { eyeEnabled, headEnabled: moveHead });
+
+    this.clearFixationTimer();
+    if (eyeEnabled) {
+      this.armFixation(plan.duration * 1000 + this.fixationConfig.delay);
+    }
+    return plan;
+  }
+
+  /**
+   * Emit a plan as continuum snippets (eyes always; head when the plan moves it)
+   */
+  private schedulePlan(plan: GazePlan, options: { eyeEnabled: boolean; headEnabled: boolean }): void {
+    const { eyeIntensity, headIntensity, eyePriority, headPriority } = this.transitionConfig;
+
+    if (options.eyeEnabled) {
+      this.scheduleAxis('eyeHeadTracking/eyeYaw', EYE_HEAD_AUS.EYE_YAW_LEFT, EYE_HEAD_AUS.EYE_YAW_RIGHT,
+        plan.eyeYaw, eyeIntensity, plan.duration, eyePriority, 'eyes');
+      this.scheduleAxis('eyeHeadTracking/eyePitch', EYE_HEAD_AUS.EYE_PITCH_DOWN, EYE_HEAD_AUS.EYE_PITCH_UP,
+        plan.eyePitch, eyeIntensity, plan.duration, eyePriority, 'eyes');
+    }
+
+    if (options.headEnabled && plan.headYaw && plan.headPitch) {
+      this.scheduleAxis('eyeHeadTracking/headYaw', EYE_HEAD_AUS.HEAD_YAW_LEFT, EYE_HEAD_AUS.HEAD_YAW_RIGHT,
+        plan.headYaw, headIntensity, plan.duration, headPriority, 'head');
+      this.scheduleAxis('eyeHeadTracking/headPitch', EYE_HEAD_AUS.HEAD_PITCH_DOWN, EYE_HEAD_AUS.HEAD_PITCH_UP,
+        plan.headPitch, headIntensity, plan.duration, headPriority, 'head');
+      const rollEnd = plan.headYaw[plan.headYaw.length - 1].time;
+      this.scheduleAxis('eyeHeadTracking/headRoll', EYE_HEAD_AUS.HEAD_ROLL_LEFT, EYE_HEAD_AUS.HEAD_ROLL_RIGHT,
+        [{ time: 0, value: 0 }, { time: rollEnd, value: this.headRoll }], headIntensity, plan.duration, headPriority, 'head');
+    }
+  }
+
+  /**
+   * Schedule one continuum axis from keyframes (values in -1..1, split across the AU pair)
+   * The first keyframe sits at time 0, so the animation agency seeds it from the current value.
+   */
+  private scheduleAxis(
+    name: string,
+    negativeAU: string,
+    positiveAU: string,
+    keys: AxisKeyframe[],
+    intensity: number,
+    duration: number,
+    priority: number,
+    mixerChannel: 'eyes' | 'head'
+  ): void {
+    const curves: Record<string, Array<{ time: number; intensity: number }>> = {
+      [negativeAU]: keys.map((k) => ({ time: k.time, intensity: Math.max(0, -k.value * intensity) })),
+      [positiveAU]: keys.map((k) => ({ time: k.time, intensity: Math.max(0, k.value * intensity) })),
+    };
+
+    this.host.removeSnippet(name);
+    this.host.scheduleSnippet({
+      name,
+      curves,
+      maxTime: Math.max(0.001, duration),
+      loop: false,
+      snippetCategory: 'eyeHeadTracking',
+      snippetPriority: priority,
+      snippetPlaybackRate: 1.0,
+      snippetIntensityScale: 1.0,
+      mixerChannel,
+    });
+  }
+
+  /**
+   * Fixation loop: drift + microsaccade cycles until the next gaze shift
+   */
+  private armFixation(delay: number): void {
+    if (!this.fixationConfig.enabled) return;
+
+    this.fixationTimer = setTimeout(() => {
+      this.fixationTimer = null;
+      const plan = this.gazeModel.planFixation(now());
+      if (!plan) return;
+
+      this.schedulePlan(plan, { eyeEnabled: true, headEnabled: false });
+      this.armFixation(plan.duration * 1000);
+    }, Math.max(0, delay));
+  }
+
+  private clearFixationTimer(): void {
+    if (this.fixationTimer) {
+      clearTimeout(this.fixationTimer);
+      this.fixationTimer = null;
+    }
+  }
+
   /**
    * Schedule gaze transition - continuum-based version
    * Uses separate continuum snippets for each axis (yaw/pitch/roll)
@@ -115,6 +269,11 @@ export class EyeHeadTrackingScheduler {
 
     const { x: targetX, y: targetY, z: targetZ = 0 } = target;
     const { eyeIntensity, headIntensity, eyePriority, headPriority } = this.transitionConfig;
+
+    // Fixed-duration transitions bypass the gaze model; record the new gaze direction
+    // (head share is unknown here, so it is attributed to the eyes)
+    this.clearFixationTimer();
+    this.gazeModel.override({ x: targetX, y: targetY }, { x: 0, y: 0 });
     const eyeDurationSec = Math.max(0.001, eyeDuration) / 1000;
     const headDurationSec = Math.max(0.001, headDuration) / 1000;
 
@@ -159,6 +318,7 @@ export class EyeHeadTrackingScheduler {
       snippetPriority: priority,
       snippetPlaybackRate: 1.0,
       snippetIntensityScale: 1.0,
+      mixerChannel: 'eyes',
     });
 
     // Pitch (vertical): -1 (down/AU 64) to +1 (up/AU 63)
@@ -181,6 +341,7 @@ export class EyeHeadTrackingScheduler {
       snippetPriority: priority,
       snippetPlaybackRate: 1.0,
       snippetIntensityScale: 1.0,
+      mixerChannel: 'eyes',
     });
   }
 
@@ -215,6 +376,7 @@ export class EyeHeadTrackingScheduler {
       snippetPriority: priority,
       snippetPlaybackRate: 1.0,
       snippetIntensityScale: 1.0,
+      mixerChannel: 'head',
     });
 
     // Pitch (vertical): -1 (down/AU 54) to +1 (up/AU 33)
@@ -237,6 +399,7 @@ export class EyeHeadTrackingScheduler {
       snippetPriority: priority,
       snippetPlaybackRate: 1.0,
       snippetIntensityScale: 1.0,
+      mixerChannel: 'head',
     });
 
     // Roll (tilt): -1 (left/AU 55) to +1 (right/AU 56)
@@ -259,6 +422,7 @@ export class EyeHeadTrackingScheduler {
       snippetPriority: priority,
       snippetPlaybackRate: 1.0,
       snippetIntensityScale: 1.0,
+      mixerChannel: 'head',
     });
   }
 
@@ -311,6 +475,8 @@ export class EyeHeadTrackingScheduler {
    * Stop and remove all tracking snippets
    */
   public stop(): void {
+    this.clearFixationTimer();
+
     // Remove eye tracking snippets
     this.host.removeSnippet('eyeHeadTracking/eyeYaw');
     this.host.removeSnippet('eyeHeadTracking/eyePitch');
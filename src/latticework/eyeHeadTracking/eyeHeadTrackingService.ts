@@ -9,15 +9,34 @@ import type {
   EyeHeadTrackingState,
   EyeHeadTrackingCallbacks,
   GazeTarget,
+  GazeTargetInput,
+  SceneGazeTarget,
   AnimationSnippet,
 } from './types';
 import { DEFAULT_EYE_HEAD_CONFIG } from './types';
+import { isSceneGazeTarget, resolveSceneGazeTarget } from './sceneGazeTargets';
 import { EyeHeadTrackingScheduler, type EyeHeadHostCaps } from './eyeHeadTrackingScheduler';
+import type { GazeModelConfig, GazeMovementKind } from './gazeModel';
+import { FacePuppeteer } from './facePuppeteer';
+import { DEFAULT_NEUTRAL_FACE, getEyeMidpoint } from './faceLandmarks';
+import {
+  applyGazeCalibration,
+  averageSamples,
+  computeCalibrationProfile,
+  getActiveCalibrationProfileName,
+  loadCalibrationProfiles,
+  saveCalibrationProfile,
+  setActiveCalibrationProfileName,
+  type CalibrationPose,
+  type CalibrationSample,
+  type WebcamCalibrationProfile,
+} from './webcamCalibration';
 import { createActor } from 'xstate';
 import {
   eyeHeadTrackingMachine,
   type EyeHeadTrackingMachine,
   type EyeHeadTrackingMachineContext,
+  type EyeHeadTrackingMode,
 } from './eyeHeadTrackingMachine';
 
 // Declare global BlazeFace from CDN
@@ -39,8 +58,13 @@ export class EyeHeadTrackingService {
   // Timers
   private idleVariationTimer: number | null = null;
 
+  // Scene-aware gaze: held target (re-resolved while it moves) and current speaker
+  private sceneTarget: SceneGazeTarget | null = null;
+  private sceneTargetTimer: number | null = null;
+  private speakerTarget: GazeTargetInput | null = null;
+
   // Tracking mode
-  private trackingMode: 'manual' | 'mouse' | 'webcam' = 'manual';
+  private trackingMode: EyeHeadTrackingMode = 'manual';
   private mouseListener: ((e: MouseEvent) => void) | null = null;
   private machine: ReturnType<typeof createActor<EyeHeadTrackingMachine>> | null = null;
   private filteredGaze: { x: number; y: number; z: number } = { x: 0, y: 0, z: 0 };
@@ -55,6 +79,14 @@ export class EyeHeadTrackingService {
   private webcamListeners: Set<(detected: boolean, landmarks?: Array<{ x: number; y: number }>) => void> = new Set();
   private lastWebcamUpdate: number = 0;
 
+  // Face puppeteer (performance capture mode)
+  private puppeteer: FacePuppeteer | null = null;
+  private puppeteerUnsubscribe: (() => void) | null = null;
+
+  // Per-user webcam calibration (active profile + capture in progress)
+  private calibrationProfile: WebcamCalibrationProfile | null = null;
+  private calibrationSink: ((sample: CalibrationSample) => void) | null = null;
+
   constructor(
     config: EyeHeadTrackingConfig = {},
     callbacks: EyeHeadTrackingCallbacks = {}
@@ -84,6 +116,9 @@ export class EyeHeadTrackingService {
     this.initializeScheduler();
     this.applyMixWeightSettings();
     this.initializeMachine();
+
+    const activeProfile = getActiveCalibrationProfileName();
+    this.calibrationProfile = activeProfile ? loadCalibrationProfiles()[activeProfile] ?? null : null;
   }
 
   private initializeMachine(): void {
@@ -124,9 +159,30 @@ export class EyeHeadTrackingService {
       headIntensity: this.config.headIntensity ?? DEFAULT_EYE_HEAD_CONFIG.headIntensity,
       eyePriority: this.config.eyePriority ?? DEFAULT_EYE_HEAD_CONFIG.eyePriority,
       headPriority: this.config.headPriority ?? DEFAULT_EYE_HEAD_CONFIG.headPriority,
+    }, this.getGazeModelConfig(), {
+      enabled: this.config.microsaccadesEnabled ?? DEFAULT_EYE_HEAD_CONFIG.microsaccadesEnabled,
     });
   }
 
+  /**
+   * Map tracking config onto the gaze model (degrees, speeds, pursuit, fixation)
+   */
+  private getGazeModelConfig(): Partial<GazeModelConfig> {
+    const d = DEFAULT_EYE_HEAD_CONFIG;
+    return {
+      yawRangeDeg: ((this.config.gazeYawRange ?? d.gazeYawRange) * 180) / Math.PI,
+      pitchRangeDeg: ((this.config.gazePitchRange ?? d.gazePitchRange) * 180) / Math.PI,
+      saccadeSpeed: this.config.eyeSaccadeSpeed ?? d.eyeSaccadeSpeed,
+      headSpeed: this.config.headSpeed ?? d.headSpeed,
+      headLatency: this.config.headFollowDelay ?? d.headFollowDelay,
+      headThresholdDeg: this.config.headGazeThreshold ?? d.headGazeThreshold,
+      smoothPursuit: this.config.eyeSmoothPursuit ?? d.eyeSmoothPursuit,
+      pursuitMaxVelocity: this.config.pursuitMaxVelocity ?? d.pursuitMaxVelocity,
+      microsaccadeAmplitudeDeg: this.config.microsaccadeAmplitude ?? d.microsaccadeAmplitude,
+      driftSpeedDeg: this.config.driftSpeed ?? d.driftSpeed,
+    };
+  }
+
   private clampMix(value: number | undefined, fallback: number): number {
     if (typeof value === 'number' && Number.isFinite(value)) {
       return Math.min(1, Math.max(0, value));
@@ -197,9 +253,29 @@ export class EyeHeadTrackingService {
   }
 
   /**
-   * Set gaze target (screen coordinates)
+   * Set gaze target - screen coordinates, or a scene target (the user, a world point,
+   * a bone on another character) that keeps being followed until the next target
    */
-  public setGazeTarget(target: GazeTarget): void {
+  public setGazeTarget(target: GazeTargetInput): void {
+    if (!isSceneGazeTarget(target)) {
+      this.stopSceneTargetFollow();
+      this.applyGazeTarget(target);
+      return;
+    }
+
+    const resolved = this.resolveSceneTarget(target);
+    if (!resolved) return;
+
+    this.stopSceneTargetFollow();
+    this.sceneTarget = target;
+    this.applyGazeTarget(resolved);
+    this.startSceneTargetFollow();
+  }
+
+  /**
+   * Apply a resolved screen-space gaze target
+   */
+  private applyGazeTarget(target: GazeTarget): void {
     // Early return if both eye and head tracking are disabled
     if (!this.config.eyeTrackingEnabled && !this.config.headTrackingEnabled) {
       return;
@@ -233,12 +309,61 @@ export class EyeHeadTrackingService {
       lastApplied: this.state.currentGaze,
     });
 
-    // Schedule return to neutral if enabled (only for manual mode)
-    this.scheduleReturnToNeutral();
+    // Schedule return to neutral if enabled (only for manual mode, not while holding a scene target)
+    if (!this.sceneTarget) {
+      this.scheduleReturnToNeutral();
+    }
 
     this.callbacks.onGazeChange?.(target);
   }
 
+  /**
+   * Resolve a scene target against this character's head.
+   * Returns null (with a warning) when no characterModel is configured for a target that needs one.
+   */
+  private resolveSceneTarget(target: SceneGazeTarget): GazeTarget | null {
+    const model = this.config.characterModel;
+    if (!model) {
+      if (target.type === 'user') return { x: 0, y: 0, z: 0 };
+      console.warn('[EyeHeadTracking] Scene gaze target needs config.characterModel');
+      return null;
+    }
+
+    return resolveSceneGazeTarget(target, {
+      model,
+      headBoneName: this.config.headBoneName,
+      userCamera: this.config.userCamera,
+      yawRange: this.config.gazeYawRange ?? DEFAULT_EYE_HEAD_CONFIG.gazeYawRange,
+      pitchRange: this.config.gazePitchRange ?? DEFAULT_EYE_HEAD_CONFIG.gazePitchRange,
+    });
+  }
+
+  /**
+   * Re-resolve the held scene target periodically so moving characters stay in view
+   */
+  private startSceneTargetFollow(): void {
+    const interval = this.config.sceneTargetFollowInterval ?? DEFAULT_EYE_HEAD_CONFIG.sceneTargetFollowInterval;
+
+    this.sceneTargetTimer = window.setInterval(() => {
+      if (!this.sceneTarget) return;
+      const resolved = this.resolveSceneTarget(this.sceneTarget);
+      if (!resolved) return;
+
+      const { x, y } = this.state.targetGaze;
+      if (Math.abs(resolved.x - x) > 0.02 || Math.abs(resolved.y - y) > 0.02) {
+        this.applyGazeTarget(resolved);
+      }
+    }, interval);
+  }
+
+  private stopSceneTargetFollow(): void {
+    if (this.sceneTargetTimer) {
+      clearInterval(this.sceneTargetTimer);
+      this.sceneTargetTimer = null;
+    }
+    this.sceneTarget = null;
+  }
+
   /**
    * Reset gaze to neutral center position
    *
@@ -274,16 +399,27 @@ export class EyeHeadTrackingService {
     // }
   }
 
+  /**
+   * Set who is currently speaking to this character (null = nobody in particular).
+   * Used by lookAtSpeaker; if already listening, gaze moves to the new speaker.
+   */
+  public setSpeaker(target: GazeTargetInput | null): void {
+    this.speakerTarget = target;
+
+    if (target && this.state.isListening && this.config.lookAtSpeaker) {
+      this.setGazeTarget(target);
+    }
+  }
+
   /**
    * Set listening state
    */
   public setListening(isListening: boolean): void {
     this.state.isListening = isListening;
 
-    // When listening, look at speaker position
+    // When listening, look at the speaker (default: imaginary speaker ahead, slightly up)
     if (isListening && this.config.lookAtSpeaker) {
-      // Default speaker position (center, slightly up)
-      this.setGazeTarget({ x: 0, y: 0.1, z: 0 });
+      this.setGazeTarget(this.speakerTarget ?? { x: 0, y: 0.1, z: 0 });
     }
   }
 
@@ -315,6 +451,13 @@ export class EyeHeadTrackingService {
         eyePriority: this.config.eyePriority ?? DEFAULT_EYE_HEAD_CONFIG.eyePriority,
         headPriority: this.config.headPriority ?? DEFAULT_EYE_HEAD_CONFIG.headPriority,
       });
+      this.scheduler?.updateModelConfig(this.getGazeModelConfig(), {
+        enabled: this.config.microsaccadesEnabled ?? DEFAULT_EYE_HEAD_CONFIG.microsaccadesEnabled,
+      });
+    }
+
+    if (config.puppeteer) {
+      this.puppeteer?.updateConfig(config.puppeteer);
     }
 
     if (
@@ -361,20 +504,22 @@ export class EyeHeadTrackingService {
   }
 
   /**
-   * Set tracking mode (manual, mouse, or webcam)
+   * Set tracking mode (manual, mouse, webcam, or puppeteer)
    *
    * IMPORTANT: When switching modes, the head/eyes PRESERVE their last position.
    * They do NOT reset to neutral automatically. This is by design:
    * - Switching from mouse→manual: Head stays at last mouse position
    * - Switching from webcam→manual: Head stays at last detected face position
    * - Call resetToNeutral() explicitly if you want to return to center
+   * - Leaving puppeteer mode eases the captured face back to rest
    *
    * This behavior is enabled by the automatic continuity system in the animation agency,
    * which ensures smooth transitions from the current position when new gaze targets are set.
    */
-  public setMode(mode: 'manual' | 'mouse' | 'webcam'): void {
+  public setMode(mode: EyeHeadTrackingMode): void {
     // Clean up current mode (removes listeners, but preserves last position)
     this.cleanupMode();
+    this.stopSceneTargetFollow();
 
     this.trackingMode = mode;
     this.machine?.send({ type: 'SET_MODE', mode });
@@ -384,13 +529,15 @@ export class EyeHeadTrackingService {
       this.startMouseTracking();
     } else if (mode === 'webcam') {
       this.startWebcamTracking();
+    } else if (mode === 'puppeteer') {
+      this.startPuppeteerTracking();
     }
   }
 
   /**
    * Get current tracking mode
    */
-  public getMode(): 'manual' | 'mouse' | 'webcam' {
+  public getMode(): EyeHeadTrackingMode {
     return this.trackingMode;
   }
 
@@ -456,16 +603,30 @@ export class EyeHeadTrackingService {
       }
     }
 
-    // Start webcam stream
+    if (!(await this.openWebcam())) return;
+
+    // Start detection loop using RAF (no setInterval)
+    this.runWebcamDetectionLoop();
+  }
+
+  /**
+   * Open the camera (or the configured webcamStream) into a hidden video element
+   */
+  private async openWebcam(): Promise<boolean> {
     try {
-      if (!navigator.mediaDevices?.getUserMedia) {
-        console.error('[EyeHeadTracking] getUserMedia not supported');
-        return;
-      }
+      if (this.config.webcamStream) {
+        // Camera supplied by the caller (e.g. a per-agent sensor source)
+        this.webcamStream = this.config.webcamStream;
+      } else {
+        if (!navigator.mediaDevices?.getUserMedia) {
+          console.error('[EyeHeadTracking] getUserMedia not supported');
+          return false;
+        }
 
-      this.webcamStream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480, facingMode: 'user' },
-      });
+        this.webcamStream = await navigator.mediaDevices.getUserMedia({
+          video: { width: 640, height: 480, facingMode: 'user' },
+        });
+      }
 
       // Create hidden video element
       this.webcamVideo = document.createElement('video');
@@ -482,12 +643,162 @@ export class EyeHeadTrackingService {
       await this.webcamVideo.play();
 
       console.log('[EyeHeadTracking] Webcam started');
-
-      // Start detection loop using RAF (no setInterval)
-      this.runWebcamDetectionLoop();
+      return true;
     } catch (err) {
       console.error('[EyeHeadTracking] Failed to start webcam:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Start puppeteer mode - webcam landmarks drive head pose and expression AUs
+   */
+  private async startPuppeteerTracking(): Promise<void> {
+    if (!this.config.animationAgency) {
+      console.warn('[EyeHeadTracking] Puppeteer mode needs an animation agency');
+      return;
+    }
+
+    const puppeteer = this.getFacePuppeteer();
+    if (!(await this.openWebcam())) return;
+    if (this.trackingMode !== 'puppeteer' || !this.webcamVideo) return;
+
+    this.puppeteerUnsubscribe = puppeteer.subscribe((frame) => {
+      const eyes = frame && this.calibrationSink ? getEyeMidpoint(frame.landmarks) : null;
+      if (frame && eyes) {
+        this.calibrationSink?.({ face: eyes, measurements: frame.measurements });
+      }
+
+      if (frame && !this.webcamFaceDetected) {
+        this.webcamFaceDetected = true;
+        this.notifyWebcamListeners(true, frame.landmarks);
+      } else if (!frame && this.webcamFaceDetected) {
+        this.webcamFaceDetected = false;
+        this.notifyWebcamListeners(false);
+      }
+    });
+
+    try {
+      console.log('[EyeHeadTracking] Loading face landmark models...');
+      await puppeteer.start(this.webcamVideo);
+      console.log('[EyeHeadTracking] Puppeteer started');
+    } catch (err) {
+      console.error('[EyeHeadTracking] Failed to start puppeteer:', err);
+      return;
+    }
+
+    // Mode changed while the models were loading
+    if (this.trackingMode !== 'puppeteer') {
+      puppeteer.stop();
+    }
+  }
+
+  /**
+   * Stop puppeteer capture (the face eases back to rest)
+   */
+  private stopPuppeteerTracking(): void {
+    this.puppeteerUnsubscribe?.();
+    this.puppeteerUnsubscribe = null;
+    this.puppeteer?.stop();
+  }
+
+  /**
+   * Face puppeteer used by puppeteer mode (created on first use).
+   * Use it to record takes, adjust calibration or feed landmarks from another tracker.
+   */
+  public getFacePuppeteer(): FacePuppeteer {
+    if (!this.puppeteer) {
+      // Resolve the agency per call so a later updateConfig({ animationAgency }) is picked up
+      const host: EyeHeadHostCaps = {
+        scheduleSnippet: (snippet: any) => this.config.animationAgency?.schedule?.(snippet) ?? null,
+        removeSnippet: (name: string) => {
+          this.config.animationAgency?.remove?.(name);
+        },
+      };
+      this.puppeteer = new FacePuppeteer(host, this.config.puppeteer);
+      this.applyCalibrationToPuppeteer();
+    }
+    return this.puppeteer;
+  }
+
+  /**
+   * Apply a calibration profile (or its saved name) to webcam gaze and the puppeteer.
+   * The choice is remembered and re-applied on the next start; null restores the defaults.
+   */
+  public setCalibrationProfile(profile: WebcamCalibrationProfile | string | null): void {
+    if (typeof profile === 'string') {
+      const saved = loadCalibrationProfiles()[profile];
+      if (!saved) {
+        console.warn(`[EyeHeadTracking] No calibration profile named "${profile}"`);
+        return;
+      }
+      profile = saved;
+    }
+
+    this.calibrationProfile = profile;
+    setActiveCalibrationProfileName(profile?.name ?? null);
+    this.applyCalibrationToPuppeteer();
+  }
+
+  public getCalibrationProfile(): WebcamCalibrationProfile | null {
+    return this.calibrationProfile;
+  }
+
+  /**
+   * Average what the webcam sees for a while (the user holds a calibration pose).
+   * Needs webcam or puppeteer mode with a face in view; resolves null if nothing was detected.
+   */
+  public captureCalibrationSample(durationMs: number = 1000): Promise<CalibrationSample | null> {
+    if (this.calibrationSink) {
+      return Promise.reject(new Error('[EyeHeadTracking] A calibration capture is already running'));
     }
+
+    const samples: CalibrationSample[] = [];
+    this.calibrationSink = (sample) => samples.push(sample);
+
+    return new Promise((resolve) => {
+      setTimeout(() => {
+        this.calibrationSink = null;
+        resolve(averageSamples(samples));
+      }, durationMs);
+    });
+  }
+
+  /**
+   * Build a profile from captured poses, save it under `name` and make it active.
+   * Puppeteer captures (with measurements) also calibrate the face; webcam captures only gaze.
+   */
+  public createCalibrationProfile(
+    name: string,
+    samples: Partial<Record<CalibrationPose, CalibrationSample>>
+  ): WebcamCalibrationProfile {
+    const neutralFace = samples.neutral?.measurements;
+    const puppeteer = neutralFace ? this.getFacePuppeteer() : null;
+
+    // Raw puppeteer AUs of each pose, measured against the captured neutral face
+    const withAUs: Partial<Record<CalibrationPose, CalibrationSample>> = {};
+    for (const [pose, sample] of Object.entries(samples) as Array<[CalibrationPose, CalibrationSample]>) {
+      withAUs[pose] = puppeteer && sample.measurements
+        ? { ...sample, aus: puppeteer.getRawAUs(sample.measurements, neutralFace) }
+        : sample;
+    }
+
+    const profile = computeCalibrationProfile(name, withAUs);
+    saveCalibrationProfile(profile);
+    this.setCalibrationProfile(profile);
+    return profile;
+  }
+
+  /**
+   * Push the active profile's resting face and AU gains into the puppeteer
+   */
+  private applyCalibrationToPuppeteer(): void {
+    if (!this.puppeteer) return;
+    const profile = this.calibrationProfile;
+    this.puppeteer.setNeutral(profile?.neutralFace ?? DEFAULT_NEUTRAL_FACE);
+    this.puppeteer.updateConfig({
+      calibration: profile?.auCalibration ?? this.config.puppeteer?.calibration ?? {},
+    });
   }
 
   /**
@@ -531,12 +842,13 @@ export class EyeHeadTrackingService {
           const avgX = (leftEye.x + rightEye.x) / 2;
           const avgY = (leftEye.y + rightEye.y) / 2;
 
-          // Convert to -1 to 1 range
-          const gazeX = avgX * 2 - 1;
-          const gazeY = -(avgY * 2 - 1);
+          this.calibrationSink?.({ face: { x: avgX, y: avgY } });
+
+          // Convert to -1 to 1 range (per-user center and range when calibrated)
+          const gaze = applyGazeCalibration({ x: avgX, y: avgY }, this.calibrationProfile?.gaze);
 
           // Use setGazeTarget which respects useAnimationAgency toggle
-          this.setGazeTarget({ x: gazeX, y: gazeY, z: 0 });
+          this.setGazeTarget(gaze);
 
           // Notify listeners if face detection status changed
           if (!this.webcamFaceDetected) {
@@ -570,9 +882,11 @@ export class EyeHeadTrackingService {
       this.webcamRafId = null;
     }
 
-    // Stop media stream tracks
+    // Stop media stream tracks (a caller-supplied camera belongs to the caller)
     if (this.webcamStream) {
-      this.webcamStream.getTracks().forEach(track => track.stop());
+      if (this.webcamStream !== this.config.webcamStream) {
+        this.webcamStream.getTracks().forEach(track => track.stop());
+      }
       this.webcamStream = null;
     }
 
@@ -609,7 +923,7 @@ export class EyeHeadTrackingService {
    * Check if webcam is actively tracking
    */
   public isWebcamActive(): boolean {
-    return this.trackingMode === 'webcam' && this.webcamVideo !== null;
+    return (this.trackingMode === 'webcam' || this.trackingMode === 'puppeteer') && this.webcamVideo !== null;
   }
 
   /**
@@ -624,6 +938,7 @@ export class EyeHeadTrackingService {
    */
   private cleanupMode(): void {
     this.stopMouseTracking();
+    this.stopPuppeteerTracking();
     this.stopWebcamTracking();
   }
 
@@ -657,11 +972,18 @@ export class EyeHeadTrackingService {
     const adjustedX = x + cameraOffset.x;
     const adjustedY = y + cameraOffset.y;
 
+    const useAgency = this.config.useAnimationAgency ?? DEFAULT_EYE_HEAD_CONFIG.useAnimationAgency;
+    const physiological = useAgency && !!this.scheduler && !!this.config.animationAgency &&
+      (this.config.physiologicalGaze ?? DEFAULT_EYE_HEAD_CONFIG.physiologicalGaze);
+
     // Smooth target to prevent micro-jumps (especially near center crossing)
+    // Manual targets skip this with the gaze model - saccades land on the target itself
     const prev = this.filteredGaze ?? this.state.currentGaze;
     const rawDistance = Math.hypot(adjustedX - prev.x, adjustedY - prev.y);
     const baseAlpha = this.trackingMode === 'mouse' ? 0.35 : 0.25;
-    const alpha = Math.min(0.85, baseAlpha + rawDistance * 0.3); // Larger moves respond faster
+    const alpha = physiological && this.trackingMode === 'manual'
+      ? 1
+      : Math.min(0.85, baseAlpha + rawDistance * 0.3); // Larger moves respond faster
     const smoothX = prev.x + (adjustedX - prev.x) * alpha;
     const smoothY = prev.y + (adjustedY - prev.y) * alpha;
     const smoothedTarget = { x: smoothX, y: smoothY, z: 0 };
@@ -699,10 +1021,22 @@ export class EyeHeadTrackingService {
     const applyEyes = options?.applyEyes ?? true;
     const applyHead = options?.applyHead ?? true;
     const scheduler = this.scheduler;
-    const useAgency = this.config.useAnimationAgency ?? DEFAULT_EYE_HEAD_CONFIG.useAnimationAgency;
+
+    // Size of the shift in degrees (listeners such as the blink agency react to large saccades)
+    const { yawRangeDeg = 60, pitchRangeDeg = 45 } = this.getGazeModelConfig();
+    const amplitude = Math.hypot(deltaX * yawRangeDeg, deltaY * pitchRangeDeg);
+    let shiftKind: GazeMovementKind = 'saccade';
 
     // Use animation agency if enabled AND available, otherwise use direct engine calls
-    if (useAgency && scheduler && this.config.animationAgency) {
+    if (physiological && scheduler) {
+      // Gaze model picks saccade/pursuit timing and the eye-head split
+      const plan = scheduler.scheduleGazeShift(smoothedTarget, {
+        eyeEnabled: applyEyes && this.config.eyeTrackingEnabled,
+        headEnabled: applyHead && this.config.headTrackingEnabled,
+        headFollowEyes: this.config.headFollowEyes,
+      });
+      shiftKind = plan.kind;
+    } else if (useAgency && scheduler && this.config.animationAgency) {
       scheduler.scheduleGazeTransition(
         smoothedTarget,
         {
@@ -767,6 +1101,7 @@ export class EyeHeadTrackingService {
 
     if (applyEyes && this.config.eyeTrackingEnabled) {
       this.state.eyeIntensity = eyeIntensity;
+      this.callbacks.onGazeShift?.({ amplitude, kind: shiftKind, target: smoothedTarget });
     }
     if (applyHead && this.config.headTrackingEnabled) {
       this.state.headIntensity = headIntensity;
@@ -883,6 +1218,7 @@ export class EyeHeadTrackingService {
       this.state.headFollowTimer = null;
     }
 
+    this.stopSceneTargetFollow();
     this.clearReturnToNeutralTimer();
   }
 
@@ -896,6 +1232,8 @@ export class EyeHeadTrackingService {
 
     this.eyeSnippets.clear();
     this.headSnippets.clear();
+    this.puppeteer?.dispose();
+    this.puppeteer = null;
     try { this.scheduler?.stop(); } catch {}
     this.scheduler = null;
     try { this.machine?.stop(); } catch {}
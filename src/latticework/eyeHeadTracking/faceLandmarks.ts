@@ -0,0 +1,285 @@
+/**
+ * Face Landmarks
+ * Measures a face from 2D landmarks and turns the measurements into ARKit-style
+ * blendshape weights and a head pose
+ *
+ * - Works with the 68-point iBUG layout (face-api.js, dlib) and the 468/478-point
+ *   MediaPipe Face Mesh layout
+ * - Measurements are taken in a face-aligned frame (eye line = x axis, scaled by the
+ *   distance between the eyes), so they don't depend on image size or head roll
+ * - Weights are relative to a neutral face; DEFAULT_NEUTRAL_FACE is a typical one
+ *
+ * "Left"/"right" are the performer's own sides throughout.
+ */
+
+export interface Point2 {
+  x: number;
+  y: number;
+}
+
+export type LandmarkLayoutName = 'ibug68' | 'mediapipe478';
+
+/**
+ * Landmark indices used for measuring.
+ * Eyes list six contour points: corner, upper, upper, other corner, lower, lower
+ * (upper[0] faces lower[1] and upper[1] faces lower[0]).
+ */
+export interface LandmarkLayout {
+  name: LandmarkLayoutName;
+  rightEye: number[];
+  leftEye: number[];
+  rightBrowInner: number;
+  rightBrowOuter: number;
+  leftBrowInner: number;
+  leftBrowOuter: number;
+  noseTip: number;
+  chin: number;
+  rightFaceEdge: number;
+  leftFaceEdge: number;
+  mouthRight: number;
+  mouthLeft: number;
+  upperLipOuter: number;
+  lowerLipOuter: number;
+  upperLipInner: number;
+  lowerLipInner: number;
+}
+
+export const LANDMARK_LAYOUTS: Record<LandmarkLayoutName, LandmarkLayout> = {
+  ibug68: {
+    name: 'ibug68',
+    rightEye: [36, 37, 38, 39, 40, 41],
+    leftEye: [42, 43, 44, 45, 46, 47],
+    rightBrowInner: 21,
+    rightBrowOuter: 17,
+    leftBrowInner: 22,
+    leftBrowOuter: 26,
+    noseTip: 30,
+    chin: 8,
+    rightFaceEdge: 0,
+    leftFaceEdge: 16,
+    mouthRight: 48,
+    mouthLeft: 54,
+    upperLipOuter: 51,
+    lowerLipOuter: 57,
+    upperLipInner: 62,
+    lowerLipInner: 66,
+  },
+  mediapipe478: {
+    name: 'mediapipe478',
+    rightEye: [33, 160, 158, 133, 153, 144],
+    leftEye: [362, 385, 387, 263, 373, 380],
+    rightBrowInner: 107,
+    rightBrowOuter: 70,
+    leftBrowInner: 336,
+    leftBrowOuter: 300,
+    noseTip: 1,
+    chin: 152,
+    rightFaceEdge: 234,
+    leftFaceEdge: 454,
+    mouthRight: 61,
+    mouthLeft: 291,
+    upperLipOuter: 0,
+    lowerLipOuter: 17,
+    upperLipInner: 13,
+    lowerLipInner: 14,
+  },
+};
+
+/**
+ * Pick the layout for a landmark set by its size (null when unsupported)
+ */
+export function getLandmarkLayout(pointCount: number): LandmarkLayout | null {
+  if (pointCount === 68) return LANDMARK_LAYOUTS.ibug68;
+  if (pointCount === 468 || pointCount === 478) return LANDMARK_LAYOUTS.mediapipe478;
+  return null;
+}
+
+/**
+ * Raw face measurements. Distances are in inter-ocular units (eye center to eye center).
+ */
+export interface FaceMeasurements {
+  roll: number; // Radians, + = tilted toward the performer's left shoulder
+  noseX: number; // Nose tip across the face: 0 = right edge, 1 = left edge
+  noseY: number; // Nose tip height: 0 = eye line, 1 = chin
+  eyeOpenRight: number; // Eye aspect ratio (lid gap / eye width)
+  eyeOpenLeft: number;
+  browInnerRight: number; // Brow height above the eye line
+  browInnerLeft: number;
+  browOuterRight: number;
+  browOuterLeft: number;
+  mouthOpen: number; // Inner lip gap
+  mouthWidth: number; // Corner to corner
+  cornerRight: number; // Mouth corner height above the lip midline (+ = up)
+  cornerLeft: number;
+}
+
+/** Typical resting face (68-point proportions) */
+export const DEFAULT_NEUTRAL_FACE: FaceMeasurements = {
+  roll: 0,
+  noseX: 0.5,
+  noseY: 0.42,
+  eyeOpenRight: 0.28,
+  eyeOpenLeft: 0.28,
+  browInnerRight: 0.36,
+  browInnerLeft: 0.36,
+  browOuterRight: 0.3,
+  browOuterLeft: 0.3,
+  mouthOpen: 0.02,
+  mouthWidth: 0.85,
+  cornerRight: 0.02,
+  cornerLeft: 0.02,
+};
+
+export interface HeadPose {
+  yaw: number; // Radians, + = turned toward the performer's left
+  pitch: number; // Radians, + = down
+  roll: number; // Radians, + = tilted toward the performer's left
+}
+
+/** ARKit blendshape name → weight (0-1) */
+export type BlendshapeWeights = Record<string, number>;
+
+// Movement ranges (inter-ocular units, or ratios of neutral) that map to a full weight
+const EYE_CLOSED_RATIO = 0.35; // Eye aspect ratio at full blink, as a share of neutral
+const EYE_WIDE_RATIO = 0.35; // Extra opening at full eyeWide, as a share of neutral
+const BROW_RAISE_RANGE = 0.12;
+const BROW_LOWER_RANGE = 0.08;
+const JAW_OPEN_RANGE = 0.6;
+const CORNER_RAISE_RANGE = 0.12;
+const CORNER_DROP_RANGE = 0.08;
+const PUCKER_RANGE = 0.25;
+/** Nose tip depth relative to half the face width / the eye-chin distance */
+const NOSE_DEPTH_X = 0.6;
+const NOSE_DEPTH_Y = 0.35;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+const clampUnit = (v: number) => Math.min(1, Math.max(-1, v));
+const dist = (a: Point2, b: Point2) => Math.hypot(a.x - b.x, a.y - b.y);
+
+function centroid(points: Point2[]): Point2 {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+function eyeAspectRatio(eye: Point2[]): number {
+  const width = dist(eye[0], eye[3]);
+  if (width <= 0) return 0;
+  return (dist(eye[1], eye[5]) + dist(eye[2], eye[4])) / (2 * width);
+}
+
+/**
+ * Measure a face from image-space landmarks (any units, y pointing down).
+ * Returns null when the landmark count doesn't match a known layout or the eyes coincide.
+ */
+export function measureFace(points: Point2[], layout = getLandmarkLayout(points.length)): FaceMeasurements | null {
+  if (!layout) return null;
+
+  const at = (i: number) => points[i];
+  const rightEye = layout.rightEye.map(at);
+  const leftEye = layout.leftEye.map(at);
+  if (rightEye.some((p) => !p) || leftEye.some((p) => !p)) return null;
+
+  const rightCenter = centroid(rightEye);
+  const leftCenter = centroid(leftEye);
+  const iod = dist(rightCenter, leftCenter);
+  if (iod <= 0) return null;
+
+  // Face frame: origin between the eyes, +x toward the performer's left eye, +y down
+  const roll = Math.atan2(leftCenter.y - rightCenter.y, leftCenter.x - rightCenter.x);
+  const origin = { x: (rightCenter.x + leftCenter.x) / 2, y: (rightCenter.y + leftCenter.y) / 2 };
+  const cos = Math.cos(-roll);
+  const sin = Math.sin(-roll);
+  const toFace = (i: number): Point2 => {
+    const p = at(i);
+    const dx = p.x - origin.x;
+    const dy = p.y - origin.y;
+    return { x: (dx * cos - dy * sin) / iod, y: (dx * sin + dy * cos) / iod };
+  };
+
+  const noseTip = toFace(layout.noseTip);
+  const chin = toFace(layout.chin);
+  const rightEdge = toFace(layout.rightFaceEdge);
+  const leftEdge = toFace(layout.leftFaceEdge);
+  const mouthRight = toFace(layout.mouthRight);
+  const mouthLeft = toFace(layout.mouthLeft);
+  const upperOuter = toFace(layout.upperLipOuter);
+  const lowerOuter = toFace(layout.lowerLipOuter);
+  const lipMidline = (upperOuter.y + lowerOuter.y) / 2;
+
+  // Brow heights are measured from each eye's own center (in the face frame)
+  const rightEyeY = (toFace(layout.rightEye[0]).y + toFace(layout.rightEye[3]).y) / 2;
+  const leftEyeY = (toFace(layout.leftEye[0]).y + toFace(layout.leftEye[3]).y) / 2;
+
+  const faceWidth = leftEdge.x - rightEdge.x;
+
+  return {
+    roll,
+    noseX: faceWidth !== 0 ? (noseTip.x - rightEdge.x) / faceWidth : 0.5,
+    noseY: chin.y !== 0 ? noseTip.y / chin.y : 0,
+    eyeOpenRight: eyeAspectRatio(rightEye),
+    eyeOpenLeft: eyeAspectRatio(leftEye),
+    browInnerRight: rightEyeY - toFace(layout.rightBrowInner).y,
+    browInnerLeft: leftEyeY - toFace(layout.leftBrowInner).y,
+    browOuterRight: rightEyeY - toFace(layout.rightBrowOuter).y,
+    browOuterLeft: leftEyeY - toFace(layout.leftBrowOuter).y,
+    mouthOpen: Math.max(0, toFace(layout.lowerLipInner).y - toFace(layout.upperLipInner).y),
+    mouthWidth: dist(mouthRight, mouthLeft),
+    cornerRight: lipMidline - mouthRight.y,
+    cornerLeft: lipMidline - mouthLeft.y,
+  };
+}
+
+/**
+ * Point between the two eye centers (null when the layout is unsupported)
+ */
+export function getEyeMidpoint(points: Point2[], layout = getLandmarkLayout(points.length)): Point2 | null {
+  if (!layout) return null;
+  const eyes = [...layout.rightEye, ...layout.leftEye].map((i) => points[i]);
+  if (eyes.some((p) => !p)) return null;
+  return centroid(eyes);
+}
+
+/**
+ * Head pose relative to the neutral face
+ */
+export function estimateHeadPose(m: FaceMeasurements, neutral: FaceMeasurements = DEFAULT_NEUTRAL_FACE): HeadPose {
+  return {
+    yaw: Math.asin(clampUnit((2 * (m.noseX - neutral.noseX)) / NOSE_DEPTH_X)),
+    pitch: Math.asin(clampUnit((m.noseY - neutral.noseY) / NOSE_DEPTH_Y)),
+    roll: m.roll - neutral.roll,
+  };
+}
+
+/**
+ * ARKit-style blendshape weights relative to the neutral face
+ */
+export function measurementsToBlendshapes(
+  m: FaceMeasurements,
+  neutral: FaceMeasurements = DEFAULT_NEUTRAL_FACE
+): BlendshapeWeights {
+  const weights: BlendshapeWeights = {};
+
+  const sides = [
+    ['Right', m.eyeOpenRight, neutral.eyeOpenRight, m.browInnerRight - neutral.browInnerRight,
+      m.browOuterRight - neutral.browOuterRight, m.cornerRight - neutral.cornerRight],
+    ['Left', m.eyeOpenLeft, neutral.eyeOpenLeft, m.browInnerLeft - neutral.browInnerLeft,
+      m.browOuterLeft - neutral.browOuterLeft, m.cornerLeft - neutral.cornerLeft],
+  ] as const;
+
+  let innerRaise = 0;
+  for (const [side, eyeOpen, eyeNeutral, inner, outer, corner] of sides) {
+    weights[`eyeBlink${side}`] = clamp01((eyeNeutral - eyeOpen) / (eyeNeutral * (1 - EYE_CLOSED_RATIO)));
+    weights[`eyeWide${side}`] = clamp01((eyeOpen - eyeNeutral) / (eyeNeutral * EYE_WIDE_RATIO));
+    weights[`browOuterUp${side}`] = clamp01(outer / BROW_RAISE_RANGE);
+    weights[`browDown${side}`] = clamp01(-inner / BROW_LOWER_RANGE);
+    weights[`mouthSmile${side}`] = clamp01(corner / CORNER_RAISE_RANGE);
+    weights[`mouthFrown${side}`] = clamp01(-corner / CORNER_DROP_RANGE);
+    innerRaise += inner / 2;
+  }
+
+  weights.browInnerUp = clamp01(innerRaise / BROW_RAISE_RANGE);
+  weights.jawOpen = clamp01((m.mouthOpen - neutral.mouthOpen) / JAW_OPEN_RANGE);
+  weights.mouthPucker = clamp01((neutral.mouthWidth - m.mouthWidth) / PUCKER_RANGE);
+
+  return weights;
+}
@@ -0,0 +1,511 @@
+/**
+ * Face Puppeteer
+ * Live performance capture: webcam landmarks → head pose + expression → avatar AUs
+ *
+ * - Landmarks come from a FaceLandmarkDetector (face-api.js 68-point by default, using the
+ *   weights in public/models); 468/478-point MediaPipe meshes can be fed to processLandmarks()
+ * - Expression is measured as ARKit-style blendshapes and mapped onto AUs with the same
+ *   table as the Live Link Face importer (ARKIT_TO_AU); L/R pairs become one AU + balance
+ * - Each AU passes through its calibration (gain/offset) and exponential smoothing, then
+ *   is scheduled through the animation agency as short 'facePuppeteer/face' and
+ *   'facePuppeteer/head' snippets (time-0 keys pick up the current value)
+ * - A session can be recorded and returned as an AU keyframe Snippet
+ */
+
+import type * as FaceApi from 'face-api.js';
+import type { Snippet, AUKeyframe } from '../animation/types';
+import { ARKIT_TO_AU, decimateKeys } from '../animation/liveLinkImport';
+import type { EyeHeadHostCaps } from './eyeHeadTrackingScheduler';
+import type { FacePuppeteerConfig } from './types';
+import { DEFAULT_FACE_PUPPETEER_CONFIG } from './types';
+import {
+  measureFace,
+  estimateHeadPose,
+  measurementsToBlendshapes,
+  DEFAULT_NEUTRAL_FACE,
+  type Point2,
+  type FaceMeasurements,
+  type HeadPose,
+  type BlendshapeWeights,
+} from './faceLandmarks';
+
+/**
+ * Source of face landmarks (image-space points, y down)
+ */
+export interface FaceLandmarkDetector {
+  load(): Promise<void>;
+  /** Landmarks of the most prominent face, or null when no face is found */
+  detect(input: HTMLVideoElement): Promise<Point2[] | null>;
+}
+
+/**
+ * One processed capture frame
+ */
+export interface PuppeteerFrame {
+  timestamp: number;
+  /** Landmarks normalized to 0-1 (by video size when known) */
+  landmarks: Point2[];
+  measurements: FaceMeasurements;
+  headPose: HeadPose;
+  blendshapes: BlendshapeWeights;
+  /** Final AU values (after calibration and smoothing), keyed by AU id */
+  aus: Record<string, number>;
+  /** Per-AU left/right balance for merged bilateral AUs */
+  balance: Record<string, number>;
+}
+
+/** Head axes: [AU for positive angle, AU for negative angle] (matches the Live Link importer) */
+const HEAD_AXES: Array<{ axis: keyof HeadPose; pos: string; neg: string }> = [
+  { axis: 'yaw', pos: '51', neg: '52' }, // + turn left, - turn right
+  { axis: 'pitch', pos: '54', neg: '53' }, // + down, - up
+  { axis: 'roll', pos: '55', neg: '56' }, // + tilt left, - tilt right
+];
+const HEAD_AU_IDS = new Set(HEAD_AXES.flatMap((h) => [h.pos, h.neg]));
+
+/** Face AUs driven by the blendshapes measurementsToBlendshapes() produces */
+const PUPPETEER_BLENDSHAPES = [
+  'eyeBlinkLeft', 'eyeBlinkRight', 'eyeWideLeft', 'eyeWideRight',
+  'browInnerUp', 'browOuterUpLeft', 'browOuterUpRight', 'browDownLeft', 'browDownRight',
+  'jawOpen', 'mouthSmileLeft', 'mouthSmileRight', 'mouthFrownLeft', 'mouthFrownRight', 'mouthPucker',
+];
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const now = (): number =>
+  typeof performance !== 'undefined' ? performance.now() : Date.now();
+
+/**
+ * face-api.js detector (tiny face detector + 68-point landmarks).
+ * The library is loaded on first use so it stays out of the main bundle.
+ */
+export function createFaceApiDetector(modelPath: string = DEFAULT_FACE_PUPPETEER_CONFIG.modelPath): FaceLandmarkDetector {
+  let faceapi: typeof FaceApi | null = null;
+  let options: FaceApi.TinyFaceDetectorOptions | null = null;
+
+  return {
+    async load() {
+      if (faceapi) return;
+      const lib = await import('face-api.js');
+      await Promise.all([
+        lib.nets.tinyFaceDetector.loadFromUri(modelPath),
+        lib.nets.faceLandmark68Net.loadFromUri(modelPath),
+      ]);
+      options = new lib.TinyFaceDetectorOptions({ inputSize: 224, scoreThreshold: 0.5 });
+      faceapi = lib;
+    },
+
+    async detect(input: HTMLVideoElement) {
+      if (!faceapi || !options) return null;
+      const result = await faceapi.detectSingleFace(input, options).withFaceLandmarks();
+      return result ? result.landmarks.positions.map((p) => ({ x: p.x, y: p.y })) : null;
+    },
+  };
+}
+
+/**
+ * Blendshapes + head pose → uncalibrated AU values (0-1) and L/R balance per merged AU
+ */
+export function computeRawAUs(
+  blendshapes: BlendshapeWeights,
+  headPose: HeadPose,
+  options: Pick<FacePuppeteerConfig, 'faceEnabled' | 'headEnabled' | 'headMaxDegrees'> = DEFAULT_FACE_PUPPETEER_CONFIG
+): { raw: Record<string, number>; balance: Record<string, number> } {
+  const raw: Record<string, number> = {};
+  const sides = new Map<string, { L: number; R: number }>();
+
+  if (options.faceEnabled) {
+    for (const name of PUPPETEER_BLENDSHAPES) {
+      const map = ARKIT_TO_AU[name];
+      const v = blendshapes[name] ?? 0;
+      if (!map) continue;
+      const id = String(map.au);
+      if (map.side) {
+        const entry = sides.get(id) ?? { L: 0, R: 0 };
+        entry[map.side] = v;
+        sides.set(id, entry);
+        raw[id] = Math.max(raw[id] ?? 0, v);
+      } else {
+        raw[id] = v;
+      }
+    }
+  }
+
+  if (options.headEnabled) {
+    const maxRad = (options.headMaxDegrees * Math.PI) / 180;
+    for (const { axis, pos, neg } of HEAD_AXES) {
+      const v = clamp01(Math.abs(headPose[axis]) / maxRad);
+      raw[pos] = headPose[axis] > 0 ? v : 0;
+      raw[neg] = headPose[axis] < 0 ? v : 0;
+    }
+  }
+
+  // balance: -1 left only, +1 right only (see Snippet.snippetBalanceMap)
+  const balance: Record<string, number> = {};
+  for (const [id, { L, R }] of sides) {
+    if (Math.max(L, R) <= 0.01) continue;
+    const b = R >= L ? 1 - L / R : -(1 - R / L);
+    if (Math.abs(b) > 0.01) balance[id] = round(b);
+  }
+
+  return { raw, balance };
+}
+
+export class FacePuppeteer {
+  private host: EyeHeadHostCaps;
+  private config: FacePuppeteerConfig;
+  private detector: FaceLandmarkDetector;
+  private neutral: FaceMeasurements = { ...DEFAULT_NEUTRAL_FACE };
+
+  private video: HTMLVideoElement | null = null;
+  private rafId: number | null = null;
+  private running = false;
+  private detecting = false;
+  private lastDetection = 0;
+
+  private smoothed: Map<string, number> = new Map();
+  private lastFrame: PuppeteerFrame | null = null;
+  private listeners: Set<(frame: PuppeteerFrame | null) => void> = new Set();
+
+  private recording: Array<{ t: number; aus: Record<string, number>; balance: Record<string, number> }> | null = null;
+  private recordStart = 0;
+
+  constructor(
+    host: EyeHeadHostCaps,
+    config: Partial<FacePuppeteerConfig> = {},
+    detector?: FaceLandmarkDetector
+  ) {
+    this.host = host;
+    this.config = { ...DEFAULT_FACE_PUPPETEER_CONFIG, ...config };
+    this.detector = detector ?? createFaceApiDetector(this.config.modelPath);
+  }
+
+  /**
+   * Load the detector and start capturing from a playing video element
+   */
+  public async start(video: HTMLVideoElement): Promise<void> {
+    await this.detector.load();
+
+    this.video = video;
+    this.running = true;
+    this.smoothed.clear();
+    this.rafId = requestAnimationFrame(this.loop);
+  }
+
+  /**
+   * Stop capturing and ease the captured AUs back to rest
+   */
+  public stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    if (this.rafId !== null) {
+      cancelAnimationFrame(this.rafId);
+      this.rafId = null;
+    }
+    this.video = null;
+    this.relax();
+    this.lastFrame = null;
+    this.notify(null);
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Retarget one set of landmarks (image-space points, y down) onto the avatar.
+   * Used by the detection loop; call it directly to drive the puppet from another tracker.
+   * Returns null when the landmarks don't match a supported layout.
+   */
+  public processLandmarks(points: Point2[], size?: { width: number; height: number }, timestamp = now()): PuppeteerFrame | null {
+    const measurements = measureFace(points);
+    if (!measurements) return null;
+
+    const { headPose, blendshapes } = this.interpret(measurements, this.neutral);
+    const { aus, balance } = this.retarget(blendshapes, headPose);
+    const frame: PuppeteerFrame = {
+      timestamp,
+      landmarks: size ? points.map((p) => ({ x: p.x / size.width, y: p.y / size.height })) : points,
+      measurements,
+      headPose,
+      blendshapes,
+      aus,
+      balance,
+    };
+
+    this.apply(frame);
+    this.record(frame);
+    this.lastFrame = frame;
+    this.notify(frame);
+    return frame;
+  }
+
+  /**
+   * Uncalibrated AU values for a measured face against a neutral (defaults to the current one).
+   * Used by calibration to see what a pose produces before gains are applied.
+   */
+  public getRawAUs(measurements: FaceMeasurements, neutral: FaceMeasurements = this.neutral): Record<string, number> {
+    const { headPose, blendshapes } = this.interpret(measurements, neutral);
+    return computeRawAUs(blendshapes, headPose, this.config).raw;
+  }
+
+  /**
+   * Start recording the retargeted AU stream
+   */
+  public startRecording(): void {
+    this.recording = [];
+    this.recordStart = now();
+  }
+
+  /**
+   * Stop recording and return the take as an AU snippet (null when nothing was captured)
+   */
+  public stopRecording(name = 'puppeteer_capture'): Snippet | null {
+    const frames = this.recording;
+    this.recording = null;
+    if (!frames || frames.length === 0) return null;
+
+    const curves = new Map<string, Array<{ t: number; v: number }>>();
+    const balanceTotals = new Map<string, { sum: number; count: number }>();
+    for (const frame of frames) {
+      for (const [id, v] of Object.entries(frame.aus)) {
+        if (!curves.has(id)) curves.set(id, []);
+        curves.get(id)!.push({ t: frame.t, v });
+      }
+      for (const [id, b] of Object.entries(frame.balance)) {
+        const totals = balanceTotals.get(id) ?? { sum: 0, count: 0 };
+        totals.sum += b;
+        totals.count += 1;
+        balanceTotals.set(id, totals);
+      }
+    }
+
+    const au: AUKeyframe[] = [];
+    for (const [id, keys] of curves) {
+      // Curves that never move are dropped entirely
+      if (keys.every((k) => k.v === 0)) continue;
+      decimateKeys(keys, this.config.recordTolerance).forEach((k) => au.push({ t: k.t, id: Number(id), v: k.v }));
+    }
+    au.sort((a, b) => a.t - b.t || a.id - b.id);
+
+    const snippetBalanceMap: Record<string, number> = {};
+    for (const [id, { sum, count }] of balanceTotals) {
+      const mean = sum / count;
+      if (Math.abs(mean) > 0.01) snippetBalanceMap[id] = round(mean);
+    }
+
+    return {
+      name,
+      loop: false,
+      snippetCategory: 'auSnippet',
+      snippetPriority: 0,
+      snippetPlaybackRate: 1,
+      snippetIntensityScale: 1,
+      snippetBalanceMap,
+      au,
+    };
+  }
+
+  public isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Resting face the weights and head pose are measured against
+   */
+  public setNeutral(neutral: FaceMeasurements): void {
+    this.neutral = { ...neutral };
+  }
+
+  public getNeutral(): FaceMeasurements {
+    return { ...this.neutral };
+  }
+
+  /**
+   * Most recent processed frame (null before the first face or after stop)
+   */
+  public getLastFrame(): PuppeteerFrame | null {
+    return this.lastFrame;
+  }
+
+  public updateConfig(config: Partial<FacePuppeteerConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  public getConfig(): FacePuppeteerConfig {
+    return { ...this.config, calibration: { ...this.config.calibration } };
+  }
+
+  /**
+   * Subscribe to processed frames (null when the face is lost or capture stops)
+   */
+  public subscribe(callback: (frame: PuppeteerFrame | null) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  public dispose(): void {
+    this.stop();
+    this.recording = null;
+    this.listeners.clear();
+  }
+
+  /**
+   * Detection loop (throttled to detectionInterval; one detection in flight at a time)
+   */
+  private loop = (): void => {
+    if (!this.running) return;
+    this.rafId = requestAnimationFrame(this.loop);
+
+    const video = this.video;
+    const t = now();
+    if (!video || this.detecting || t - this.lastDetection < this.config.detectionInterval) return;
+    this.lastDetection = t;
+    this.detecting = true;
+
+    this.detector
+      .detect(video)
+      .then((points) => {
+        if (!this.running) return;
+        if (points) {
+          const size = { width: video.videoWidth || video.width || 1, height: video.videoHeight || video.height || 1 };
+          this.processLandmarks(points, size);
+        } else if (this.lastFrame) {
+          // Face lost: hold the last pose
+          this.lastFrame = null;
+          this.notify(null);
+        }
+      })
+      .catch(() => {
+        // Silently ignore detection errors
+      })
+      .finally(() => {
+        this.detecting = false;
+      });
+  };
+
+  /**
+   * Blendshapes + head pose → calibrated, smoothed AU values
+   */
+  private retarget(blendshapes: BlendshapeWeights, headPose: HeadPose): { aus: Record<string, number>; balance: Record<string, number> } {
+    const { raw, balance } = computeRawAUs(blendshapes, headPose, this.config);
+
+    // Calibration, overall intensity (face only) and smoothing
+    const alpha = 1 - clamp01(this.config.smoothing);
+    const aus: Record<string, number> = {};
+    for (const [id, value] of Object.entries(raw)) {
+      const cal = this.config.calibration[id];
+      const scale = HEAD_AU_IDS.has(id) ? 1 : this.config.intensity;
+      const target = clamp01((value - (cal?.offset ?? 0)) * (cal?.gain ?? 1) * scale);
+      const prev = this.smoothed.get(id);
+      const v = prev === undefined ? target : prev + (target - prev) * alpha;
+      this.smoothed.set(id, v);
+      aus[id] = round(v);
+    }
+
+    return { aus, balance };
+  }
+
+  /**
+   * Head pose and blendshapes for a measured face (mirrored when configured)
+   */
+  private interpret(measurements: FaceMeasurements, neutral: FaceMeasurements): { headPose: HeadPose; blendshapes: BlendshapeWeights } {
+    const headPose = estimateHeadPose(measurements, neutral);
+    const blendshapes = measurementsToBlendshapes(measurements, neutral);
+    if (!this.config.mirror) return { headPose, blendshapes };
+    return {
+      headPose: { yaw: -headPose.yaw, pitch: headPose.pitch, roll: -headPose.roll },
+      blendshapes: mirrorBlendshapes(blendshapes),
+    };
+  }
+
+  /**
+   * Schedule the frame's AUs as short face/head snippets
+   */
+  private apply(frame: PuppeteerFrame): void {
+    const duration = Math.max(0.001, this.config.transitionDuration / 1000);
+    const face: Record<string, Array<{ time: number; intensity: number }>> = {};
+    const head: Record<string, Array<{ time: number; intensity: number }>> = {};
+
+    for (const [id, v] of Object.entries(frame.aus)) {
+      const curve = [{ time: 0, intensity: v }, { time: duration, intensity: v }];
+      (HEAD_AU_IDS.has(id) ? head : face)[id] = curve;
+    }
+
+    this.scheduleCurves('facePuppeteer/face', face, duration, this.config.facePriority, 'face', frame.balance);
+    this.scheduleCurves('facePuppeteer/head', head, duration, this.config.headPriority, 'head');
+  }
+
+  /**
+   * Ease every captured AU back to 0
+   */
+  private relax(): void {
+    const duration = 0.3;
+    const face: Record<string, Array<{ time: number; intensity: number }>> = {};
+    const head: Record<string, Array<{ time: number; intensity: number }>> = {};
+
+    for (const id of this.smoothed.keys()) {
+      (HEAD_AU_IDS.has(id) ? head : face)[id] = [{ time: 0, intensity: 0 }, { time: duration, intensity: 0 }];
+    }
+    this.smoothed.clear();
+
+    this.scheduleCurves('facePuppeteer/face', face, duration, this.config.facePriority, 'face');
+    this.scheduleCurves('facePuppeteer/head', head, duration, this.config.headPriority, 'head');
+  }
+
+  private scheduleCurves(
+    name: string,
+    curves: Record<string, Array<{ time: number; intensity: number }>>,
+    duration: number,
+    priority: number,
+    mixerChannel: 'face' | 'head',
+    balance?: Record<string, number>
+  ): void {
+    if (Object.keys(curves).length === 0) return;
+
+    this.host.removeSnippet(name);
+    this.host.scheduleSnippet({
+      name,
+      curves,
+      maxTime: duration,
+      loop: false,
+      snippetCategory: 'facePuppeteer',
+      snippetPriority: priority,
+      snippetPlaybackRate: 1.0,
+      snippetIntensityScale: 1.0,
+      ...(balance ? { snippetBalanceMap: balance } : {}),
+      mixerChannel,
+    });
+  }
+
+  private record(frame: PuppeteerFrame): void {
+    if (!this.recording) return;
+    this.recording.push({
+      t: round((frame.timestamp - this.recordStart) / 1000),
+      aus: { ...frame.aus },
+      balance: { ...frame.balance },
+    });
+  }
+
+  private notify(frame: PuppeteerFrame | null): void {
+    this.listeners.forEach((cb) => cb(frame));
+  }
+}
+
+/**
+ * Swap Left/Right blendshapes (performer's left drives the avatar's right)
+ */
+function mirrorBlendshapes(weights: BlendshapeWeights): BlendshapeWeights {
+  const mirrored: BlendshapeWeights = {};
+  for (const [name, v] of Object.entries(weights)) {
+    const swapped = name.endsWith('Left')
+      ? `${name.slice(0, -4)}Right`
+      : name.endsWith('Right')
+        ? `${name.slice(0, -5)}Left`
+        : name;
+    mirrored[swapped] = v;
+  }
+  return mirrored;
+}
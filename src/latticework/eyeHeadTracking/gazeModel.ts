@@ -0,0 +1,406 @@
+/**
+ * Gaze Model
+ * Physiologically based planner for eye and head movements
+ *
+ * - Saccades: duration follows the main sequence (≈ 21 ms + 2.2 ms/deg)
+ * - Eye-head coordination: small shifts are eyes only; beyond a threshold the head
+ *   takes a share, starting after a latency, while the eyes counter-rotate (VOR)
+ *   so gaze stays on target
+ * - Smooth pursuit: slowly moving targets are tracked with velocity-matched eye motion,
+ *   with a catch-up saccade when the error grows too large
+ * - Fixation: slow drift punctuated by small corrective microsaccades
+ *
+ * Works in normalized gaze units (same as GazeTarget: ±1 = gaze range). Gaze = eye-in-head + head.
+ * Pure planner - no timers or animation calls; EyeHeadTrackingScheduler turns plans into snippets.
+ */
+
+import type { GazeTarget } from './types';
+
+export interface GazeModelConfig {
+  /** Degrees of yaw that gaze x = ±1 stands for */
+  yawRangeDeg: number;
+  /** Degrees of pitch that gaze y = ±1 stands for */
+  pitchRangeDeg: number;
+  /** Saccade speed (0.1-1.0); 0.7 gives main-sequence timing */
+  saccadeSpeed: number;
+  /** Head speed (0.1-1.0); 0.4 gives typical head timing */
+  headSpeed: number;
+  /** Delay (ms) between saccade onset and head movement */
+  headLatency: number;
+  /** Eye eccentricity (deg) covered by the eyes alone; beyond it the head joins */
+  headThresholdDeg: number;
+  /** Share (0-1) of the shift beyond the threshold taken by the head */
+  headContribution: number;
+  /** Maximum eye-in-head rotation (deg); the head covers the rest */
+  eyeOrbitRangeDeg: number;
+  /** Track slowly moving targets with smooth pursuit */
+  smoothPursuit: boolean;
+  /** Targets faster than this (deg/s) are caught with saccades instead */
+  pursuitMaxVelocity: number;
+  /** Pursuit position error (deg) that triggers a catch-up saccade */
+  catchUpThresholdDeg: number;
+  /** Typical microsaccade amplitude (deg) during fixation */
+  microsaccadeAmplitudeDeg: number;
+  /** Ocular drift speed (deg/s) during fixation */
+  driftSpeedDeg: number;
+}
+
+export const DEFAULT_GAZE_MODEL_CONFIG: GazeModelConfig = {
+  yawRangeDeg: 60,
+  pitchRangeDeg: 45,
+  saccadeSpeed: 0.7,
+  headSpeed: 0.4,
+  headLatency: 30,
+  headThresholdDeg: 15,
+  headContribution: 0.9,
+  eyeOrbitRangeDeg: 40,
+  smoothPursuit: false,
+  pursuitMaxVelocity: 40,
+  catchUpThresholdDeg: 3,
+  microsaccadeAmplitudeDeg: 0.4,
+  driftSpeedDeg: 0.3,
+};
+
+/** Keyframe on one axis (seconds, normalized value) */
+export interface AxisKeyframe {
+  time: number;
+  value: number;
+}
+
+export type GazeMovementKind = 'saccade' | 'pursuit' | 'fixation';
+
+/**
+ * Keyframed eye (eye-in-head) and head trajectories.
+ * Head tracks are omitted when the head doesn't move (fixational movements).
+ */
+export interface GazePlan {
+  kind: GazeMovementKind;
+  /** performance.now()-style start time (ms) */
+  startTime: number;
+  /** Length of the plan (s) */
+  duration: number;
+  /** Gaze target the plan lands on */
+  target: { x: number; y: number };
+  eyeYaw: AxisKeyframe[];
+  eyePitch: AxisKeyframe[];
+  headYaw?: AxisKeyframe[];
+  headPitch?: AxisKeyframe[];
+}
+
+type Vec2 = { x: number; y: number };
+
+/** Head keyframes per movement (after the latency hold) */
+const HEAD_SAMPLES = 4;
+/** Gap between target updates (ms) still treated as one continuous stream */
+const PURSUIT_MAX_SAMPLE_GAP = 300;
+
+/**
+ * Main-sequence saccade duration (ms) for an amplitude in degrees
+ * (≈ 21 ms + 2.2 ms/deg at speed 0.7, shorter for faster speeds)
+ */
+export function mainSequenceDuration(amplitudeDeg: number, speed: number = DEFAULT_GAZE_MODEL_CONFIG.saccadeSpeed): number {
+  const scale = DEFAULT_GAZE_MODEL_CONFIG.saccadeSpeed / Math.max(0.1, Math.min(1, speed));
+  return Math.max(15, (21 + 2.2 * Math.abs(amplitudeDeg)) * scale);
+}
+
+/**
+ * Head movement duration (ms) for an amplitude in degrees
+ */
+export function headMovementDuration(amplitudeDeg: number, speed: number = DEFAULT_GAZE_MODEL_CONFIG.headSpeed): number {
+  const scale = DEFAULT_GAZE_MODEL_CONFIG.headSpeed / Math.max(0.1, Math.min(1, speed));
+  return (120 + 5.5 * Math.abs(amplitudeDeg)) * scale;
+}
+
+/** Minimum-jerk position profile (0-1) */
+function minimumJerk(t: number): number {
+  const u = Math.max(0, Math.min(1, t));
+  return u * u * u * (10 - 15 * u + 6 * u * u);
+}
+
+function sampleAxis(keys: AxisKeyframe[] | undefined, t: number, fallback: number): number {
+  if (!keys || keys.length === 0) return fallback;
+  if (t <= keys[0].time) return keys[0].value;
+  for (let i = 1; i < keys.length; i++) {
+    if (t <= keys[i].time) {
+      const a = keys[i - 1];
+      const b = keys[i];
+      const span = b.time - a.time;
+      return span <= 0 ? b.value : a.value + (b.value - a.value) * ((t - a.time) / span);
+    }
+  }
+  return keys[keys.length - 1].value;
+}
+
+export class GazeModel {
+  private config: GazeModelConfig;
+  private plan: GazePlan | null = null;
+  /** Eye/head position when there is no plan (or the plan has been overridden) */
+  private restEye: Vec2 = { x: 0, y: 0 };
+  private restHead: Vec2 = { x: 0, y: 0 };
+  private lastTarget: Vec2 | null = null;
+  private lastTargetTime = 0;
+
+  constructor(config: Partial<GazeModelConfig> = {}) {
+    this.config = { ...DEFAULT_GAZE_MODEL_CONFIG, ...config };
+  }
+
+  updateConfig(config: Partial<GazeModelConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): GazeModelConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Eye-in-head and head positions at a point in time
+   */
+  getState(now: number): { eye: Vec2; head: Vec2 } {
+    if (!this.plan) {
+      return { eye: { ...this.restEye }, head: { ...this.restHead } };
+    }
+    const t = (now - this.plan.startTime) / 1000;
+    return {
+      eye: {
+        x: sampleAxis(this.plan.eyeYaw, t, this.restEye.x),
+        y: sampleAxis(this.plan.eyePitch, t, this.restEye.y),
+      },
+      head: {
+        x: sampleAxis(this.plan.headYaw, t, this.restHead.x),
+        y: sampleAxis(this.plan.headPitch, t, this.restHead.y),
+      },
+    };
+  }
+
+  /**
+   * Whether the current plan has finished (eyes are fixating)
+   */
+  isSettled(now: number): boolean {
+    return !this.plan || now >= this.plan.startTime + this.plan.duration * 1000;
+  }
+
+  /**
+   * Record eye/head positions set outside the model (e.g. a fixed-duration transition)
+   */
+  override(eye: Vec2, head: Vec2): void {
+    this.plan = null;
+    this.restEye = { ...eye };
+    this.restHead = { ...head };
+    this.lastTarget = { x: eye.x + head.x, y: eye.y + head.y };
+    this.lastTargetTime = 0;
+  }
+
+  /**
+   * Plan a gaze shift to a target: smooth pursuit when the target is moving slowly
+   * (and pursuit is enabled), otherwise a saccade with eye-head coordination
+   */
+  planShift(target: GazeTarget, now: number, options: { moveHead?: boolean } = {}): GazePlan {
+    const moveHead = options.moveHead ?? true;
+    const goal = { x: target.x, y: target.y };
+    const { eye, head } = this.getState(now);
+    const gaze = { x: eye.x + head.x, y: eye.y + head.y };
+    const errorDeg = this.toDegrees({ x: goal.x - gaze.x, y: goal.y - gaze.y });
+
+    const sampleGap = now - this.lastTargetTime;
+    const isStream = this.lastTarget !== null && this.lastTargetTime > 0 && sampleGap > 0 && sampleGap < PURSUIT_MAX_SAMPLE_GAP;
+    const velocity = isStream
+      ? this.toDegrees({ x: goal.x - this.lastTarget!.x, y: goal.y - this.lastTarget!.y }) / (sampleGap / 1000)
+      : Infinity;
+
+    this.lastTarget = goal;
+    this.lastTargetTime = now;
+
+    const plan =
+      this.config.smoothPursuit &&
+      velocity <= this.config.pursuitMaxVelocity &&
+      errorDeg <= this.config.catchUpThresholdDeg + velocity * (sampleGap / 1000)
+        ? this.buildPursuit(goal, eye, head, now, sampleGap, moveHead)
+        // In a continuous stream the head is already moving, so no onset latency
+        : this.buildSaccade(goal, eye, head, now, errorDeg, moveHead, isStream ? 0 : this.config.headLatency);
+
+    this.plan = plan;
+    return plan;
+  }
+
+  /**
+   * Plan one fixational cycle: drift away from the fixation point, then a
+   * corrective microsaccade back to it. Returns null while a shift is in progress.
+   */
+  planFixation(now: number, random: () => number = Math.random): GazePlan | null {
+    if (!this.isSettled(now) || !this.lastTarget) return null;
+
+    const { eye, head } = this.getState(now);
+    const fixation = { x: this.lastTarget.x - head.x, y: this.lastTarget.y - head.y };
+
+    // Fixation intervals of 0.3-1.2 s (microsaccade rate ~1-3 Hz)
+    const interval = 0.3 + random() * 0.9;
+
+    // Drift: slow random walk away from the current eye position
+    const driftAngle = random() * Math.PI * 2;
+    const driftDeg = this.config.driftSpeedDeg * interval;
+    const drifted = {
+      x: eye.x + (Math.cos(driftAngle) * driftDeg) / this.config.yawRangeDeg,
+      y: eye.y + (Math.sin(driftAngle) * driftDeg) / this.config.pitchRangeDeg,
+    };
+
+    // Microsaccade: lands near the fixation point with a small error
+    const errorAngle = random() * Math.PI * 2;
+    const errorDeg = this.config.microsaccadeAmplitudeDeg * (0.25 + random() * 0.5);
+    const landing = this.clampEye({
+      x: fixation.x + (Math.cos(errorAngle) * errorDeg) / this.config.yawRangeDeg,
+      y: fixation.y + (Math.sin(errorAngle) * errorDeg) / this.config.pitchRangeDeg,
+    });
+    const amplitude = this.toDegrees({ x: landing.x - drifted.x, y: landing.y - drifted.y });
+    const saccadeSec = mainSequenceDuration(amplitude, this.config.saccadeSpeed) / 1000;
+    const driftEnd = Math.max(0, interval - saccadeSec);
+
+    const plan: GazePlan = {
+      kind: 'fixation',
+      startTime: now,
+      duration: interval,
+      target: { ...this.lastTarget },
+      eyeYaw: [
+        { time: 0, value: eye.x },
+        { time: driftEnd, value: drifted.x },
+        { time: interval, value: landing.x },
+      ],
+      eyePitch: [
+        { time: 0, value: eye.y },
+        { time: driftEnd, value: drifted.y },
+        { time: interval, value: landing.y },
+      ],
+    };
+
+    // Fixational movements don't move the head - keep it where it is
+    this.restHead = head;
+    this.plan = plan;
+    return plan;
+  }
+
+  /**
+   * Saccade with eye-head coordination and VOR counter-rotation
+   */
+  private buildSaccade(
+    goal: Vec2,
+    eye: Vec2,
+    head: Vec2,
+    now: number,
+    amplitudeDeg: number,
+    moveHead: boolean,
+    headLatencyMs: number
+  ): GazePlan {
+    const { eye: finalEye, head: headGoal } = this.splitEyeHead(goal, head, moveHead);
+
+    const saccadeSec = mainSequenceDuration(amplitudeDeg, this.config.saccadeSpeed) / 1000;
+    const headAmplitude = this.toDegrees({ x: headGoal.x - head.x, y: headGoal.y - head.y });
+    const headMoves = moveHead && headAmplitude > 0.5;
+    const latencySec = headLatencyMs / 1000;
+    const headSec = headMoves ? headMovementDuration(headAmplitude, this.config.headSpeed) / 1000 : 0;
+
+    const headAt = (t: number): Vec2 => {
+      if (!headMoves) return head;
+      const p = minimumJerk((t - latencySec) / headSec);
+      return { x: head.x + (headGoal.x - head.x) * p, y: head.y + (headGoal.y - head.y) * p };
+    };
+    // VOR: once the saccade lands, eyes counter-rotate so gaze stays on target
+    const eyeAt = (t: number): Vec2 => {
+      const h = headAt(t);
+      return this.clampEye({ x: goal.x - h.x, y: goal.y - h.y });
+    };
+
+    const eyeKeys: Array<{ time: number; v: Vec2 }> = [
+      { time: 0, v: eye },
+      { time: saccadeSec, v: eyeAt(saccadeSec) },
+    ];
+    const headKeys: Array<{ time: number; v: Vec2 }> = [{ time: 0, v: head }];
+
+    if (headMoves) {
+      if (latencySec > 0) headKeys.push({ time: latencySec, v: head });
+      for (let i = 1; i <= HEAD_SAMPLES; i++) {
+        const t = latencySec + (headSec * i) / HEAD_SAMPLES;
+        headKeys.push({ time: t, v: headAt(t) });
+        if (t > saccadeSec) eyeKeys.push({ time: t, v: eyeAt(t) });
+      }
+    }
+
+    const duration = Math.max(saccadeSec, headMoves ? latencySec + headSec : 0);
+    const plan: GazePlan = {
+      kind: 'saccade',
+      startTime: now,
+      duration,
+      target: { ...goal },
+      eyeYaw: eyeKeys.map((k) => ({ time: k.time, value: k.v.x })),
+      eyePitch: eyeKeys.map((k) => ({ time: k.time, value: k.v.y })),
+    };
+    if (moveHead) {
+      plan.headYaw = headKeys.map((k) => ({ time: k.time, value: k.v.x }));
+      plan.headPitch = headKeys.map((k) => ({ time: k.time, value: k.v.y }));
+    }
+
+    this.restEye = finalEye;
+    this.restHead = headMoves ? headGoal : head;
+    return plan;
+  }
+
+  /**
+   * Smooth pursuit: eyes move at the target's velocity, reaching the new sample
+   * as the next one is expected; the head follows once the eyes are off-center
+   */
+  private buildPursuit(goal: Vec2, eye: Vec2, head: Vec2, now: number, sampleGap: number, moveHead: boolean): GazePlan {
+    const duration = Math.max(0.05, sampleGap / 1000);
+
+    const { eye: finalEye, head: headGoal } = this.splitEyeHead(goal, head, moveHead);
+
+    const plan: GazePlan = {
+      kind: 'pursuit',
+      startTime: now,
+      duration,
+      target: { ...goal },
+      eyeYaw: [{ time: 0, value: eye.x }, { time: duration, value: finalEye.x }],
+      eyePitch: [{ time: 0, value: eye.y }, { time: duration, value: finalEye.y }],
+    };
+    if (moveHead) {
+      plan.headYaw = [{ time: 0, value: head.x }, { time: duration, value: headGoal.x }];
+      plan.headPitch = [{ time: 0, value: head.y }, { time: duration, value: headGoal.y }];
+    }
+
+    this.restEye = finalEye;
+    this.restHead = headGoal;
+    return plan;
+  }
+
+  /**
+   * Final eye-in-head and head positions for a gaze goal. The head takes a share of
+   * the eye eccentricity beyond the eyes-only threshold (so it also catches up after
+   * many small shifts), and covers anything past the orbit limit.
+   */
+  private splitEyeHead(goal: Vec2, head: Vec2, moveHead: boolean): { eye: Vec2; head: Vec2 } {
+    if (!moveHead) {
+      return { eye: this.clampEye({ x: goal.x - head.x, y: goal.y - head.y }), head };
+    }
+
+    const offset = { x: goal.x - head.x, y: goal.y - head.y };
+    const eccentricity = this.toDegrees(offset);
+    let headGoal = { ...head };
+    if (eccentricity > this.config.headThresholdDeg) {
+      const share = ((eccentricity - this.config.headThresholdDeg) / eccentricity) * this.config.headContribution;
+      headGoal = { x: head.x + offset.x * share, y: head.y + offset.y * share };
+    }
+
+    const eye = this.clampEye({ x: goal.x - headGoal.x, y: goal.y - headGoal.y });
+    return { eye, head: { x: goal.x - eye.x, y: goal.y - eye.y } };
+  }
+
+  private toDegrees(v: Vec2): number {
+    return Math.hypot(v.x * this.config.yawRangeDeg, v.y * this.config.pitchRangeDeg);
+  }
+
+  private clampEye(v: Vec2): Vec2 {
+    const maxX = this.config.eyeOrbitRangeDeg / this.config.yawRangeDeg;
+    const maxY = this.config.eyeOrbitRangeDeg / this.config.pitchRangeDeg;
+    return {
+      x: Math.max(-maxX, Math.min(maxX, v.x)),
+      y: Math.max(-maxY, Math.min(maxY, v.y)),
+    };
+  }
+}
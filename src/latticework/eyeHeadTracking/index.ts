@@ -8,18 +8,85 @@ export {
   createEyeHeadTrackingService,
 } from './eyeHeadTrackingService';
 
+export {
+  isSceneGazeTarget,
+  resolveSceneGazeTarget,
+  getSceneTargetPosition,
+  type GazeFrame,
+} from './sceneGazeTargets';
+
+export {
+  GazeModel,
+  mainSequenceDuration,
+  headMovementDuration,
+  DEFAULT_GAZE_MODEL_CONFIG,
+  type GazeModelConfig,
+  type GazePlan,
+  type GazeMovementKind,
+  type AxisKeyframe,
+} from './gazeModel';
+
+export {
+  FacePuppeteer,
+  createFaceApiDetector,
+  type FaceLandmarkDetector,
+  type PuppeteerFrame,
+} from './facePuppeteer';
+
+export {
+  measureFace,
+  getEyeMidpoint,
+  estimateHeadPose,
+  measurementsToBlendshapes,
+  getLandmarkLayout,
+  LANDMARK_LAYOUTS,
+  DEFAULT_NEUTRAL_FACE,
+  type Point2,
+  type LandmarkLayout,
+  type LandmarkLayoutName,
+  type FaceMeasurements,
+  type HeadPose,
+  type BlendshapeWeights,
+} from './faceLandmarks';
+
+export {
+  CALIBRATION_POSES,
+  DEFAULT_GAZE_CALIBRATION,
+  applyGazeCalibration,
+  averageSamples,
+  computeCalibrationProfile,
+  loadCalibrationProfiles,
+  saveCalibrationProfile,
+  deleteCalibrationProfile,
+  getActiveCalibrationProfileName,
+  setActiveCalibrationProfileName,
+  type CalibrationPose,
+  type CalibrationSample,
+  type GazeCalibration,
+  type WebcamCalibrationProfile,
+} from './webcamCalibration';
+
+export type { EyeHeadTrackingMode } from './eyeHeadTrackingMachine';
+
 export type {
   EyeHeadTrackingConfig,
   EyeHeadTrackingState,
   EyeHeadTrackingCallbacks,
   GazeTarget,
+  GazeTargetInput,
+  SceneGazeTarget,
+  GazeSceneObject,
   TrackingChannel,
+  GazeShiftEvent,
   AnimationSnippet,
   AnimationCurve,
+  FacePuppeteerConfig,
+  AUCalibration,
 } from './types';
 
 export {
   DEFAULT_EYE_HEAD_CONFIG,
+  DEFAULT_FACE_PUPPETEER_CONFIG,
   DEFAULT_ANIMATION_KEYS,
   EYE_AUS,
   HEAD_AUS,
@@ -0,0 +1,104 @@
+/**
+ * Scene Gaze Targets
+ * Resolves world points, bones on other characters and "the user" into
+ * normalized gaze coordinates relative to this character's head.
+ */
+
+import type { GazeTarget, GazeSceneObject, SceneGazeTarget, GazeTargetInput } from './types';
+
+type Vec3 = { x: number; y: number; z: number };
+
+/** Head bones tried in order when no headBoneName is configured */
+const HEAD_BONE_CANDIDATES = ['CC_Base_Head', 'Head', 'head'];
+
+export interface GazeFrame {
+  /** This character's root; its +Z is "straight ahead" */
+  model: GazeSceneObject;
+  headBoneName?: string;
+  /** Where "the user" is */
+  userCamera?: GazeSceneObject;
+  /** Radians mapping to gaze x = ±1 */
+  yawRange: number;
+  /** Radians mapping to gaze y = ±1 */
+  pitchRange: number;
+}
+
+export function isSceneGazeTarget(target: GazeTargetInput): target is SceneGazeTarget {
+  return 'type' in target;
+}
+
+function worldPosition(obj: GazeSceneObject): Vec3 {
+  obj.updateWorldMatrix?.(true, false);
+  const e = obj.matrixWorld.elements;
+  return { x: e[12], y: e[13], z: e[14] };
+}
+
+/** Unit column `col` (0 = X, 1 = Y, 2 = Z) of the world matrix, i.e. a local axis in world space */
+function worldAxis(obj: GazeSceneObject, col: number): Vec3 {
+  const e = obj.matrixWorld.elements;
+  const x = e[col * 4], y = e[col * 4 + 1], z = e[col * 4 + 2];
+  const len = Math.hypot(x, y, z) || 1;
+  return { x: x / len, y: y / len, z: z / len };
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function clampUnit(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+function findHead(model: GazeSceneObject, headBoneName?: string): GazeSceneObject {
+  const names = headBoneName ? [headBoneName] : HEAD_BONE_CANDIDATES;
+  for (const name of names) {
+    const bone = model.getObjectByName?.(name);
+    if (bone) return bone;
+  }
+  return model;
+}
+
+/**
+ * World-space point a scene target refers to (null when it can't be located)
+ */
+export function getSceneTargetPosition(target: SceneGazeTarget, userCamera?: GazeSceneObject): Vec3 | null {
+  switch (target.type) {
+    case 'user':
+      return userCamera ? worldPosition(userCamera) : null;
+    case 'world':
+      return target.position;
+    case 'bone': {
+      const bone = target.model.getObjectByName?.(target.bone);
+      return worldPosition(bone ?? target.model);
+    }
+  }
+}
+
+/**
+ * Resolve a scene target to normalized gaze coordinates for this character.
+ * Angles are measured in the character's root frame (not the head's) so the
+ * result doesn't feed back on the head turning toward it.
+ * x > 0 turns toward the character's own right, matching screen-space gaze.
+ */
+export function resolveSceneGazeTarget(target: SceneGazeTarget, frame: GazeFrame): GazeTarget {
+  const point = getSceneTargetPosition(target, frame.userCamera);
+  // "The user" with no camera configured is straight ahead
+  if (!point) return { x: 0, y: 0, z: 0 };
+
+  const origin = worldPosition(findHead(frame.model, frame.headBoneName));
+  const d = { x: point.x - origin.x, y: point.y - origin.y, z: point.z - origin.z };
+
+  // Local +X is the character's left when it faces +Z
+  const left = dot(d, worldAxis(frame.model, 0));
+  const up = dot(d, worldAxis(frame.model, 1));
+  const forward = dot(d, worldAxis(frame.model, 2));
+
+  const yaw = Math.atan2(-left, forward);
+  const pitch = Math.atan2(up, Math.hypot(left, forward));
+
+  return {
+    x: clampUnit(yaw / frame.yawRange),
+    y: clampUnit(pitch / frame.pitchRange),
+    z: 0,
+  };
+}
@@ -29,11 +29,32 @@ export interface GazeTarget {
   z?: number; // Optional depth (near to far)
 }
 
+/**
+ * Minimal scene object shape needed to resolve scene gaze targets
+ * (THREE.Object3D satisfies it; kept structural so the agency doesn't depend on three)
+ */
+export interface GazeSceneObject {
+  matrixWorld: { elements: ArrayLike<number> };
+  updateWorldMatrix?: (updateParents: boolean, updateChildren: boolean) => void;
+  getObjectByName?: (name: string) => GazeSceneObject | undefined;
+}
+
+/**
+ * Gaze target named in the scene rather than in screen space.
+ * Resolved against this character's head and re-resolved while held, so moving targets are followed.
+ */
+export type SceneGazeTarget =
+  | { type: 'user' } // The camera (or straight ahead when no camera is configured)
+  | { type: 'world'; position: { x: number; y: number; z: number } }
+  | { type: 'bone'; model: GazeSceneObject; bone: string }; // A bone on another character
+
+export type GazeTargetInput = GazeTarget | SceneGazeTarget;
+
 export interface EyeHeadTrackingConfig {
   // Eye tracking settings
   eyeTrackingEnabled?: boolean;
-  eyeSaccadeSpeed?: number; // Speed of eye movements (0.1-1.0)
-  eyeSmoothPursuit?: boolean; // Smooth following vs saccadic jumps
+  eyeSaccadeSpeed?: number; // Speed of eye movements (0.1-1.0); 0.7 = main-sequence timing
+  eyeSmoothPursuit?: boolean; // Smooth pursuit for slowly moving targets vs saccadic jumps
   eyeBlinkRate?: number; // Blinks per minute
   eyePriority?: number; // Animation priority for eye movements
   eyeIntensity?: number; // Intensity of eye movements (0-1)
@@ -43,7 +64,7 @@ export interface EyeHeadTrackingConfig {
   headTrackingEnabled?: boolean;
   headFollowEyes?: boolean; // Head follows eye gaze direction
   headFollowDelay?: number; // Delay before head follows eyes (ms)
-  headSpeed?: number; // Speed of head movements (0.1-1.0)
+  headSpeed?: number; // Speed of head movements (0.1-1.0); 0.4 = typical head timing
   headPriority?: number; // Animation priority for head movements
   headIntensity?: number; // Intensity of head movements (0-1)
   headBlendWeight?: number; // Morph ↔ bone blend for head continuum AUs
@@ -52,13 +73,31 @@ export interface EyeHeadTrackingConfig {
   webcamTrackingEnabled?: boolean; // Enable webcam-based face tracking
   webcamLookAtUser?: boolean; // Make character look at user's face position
   webcamActivationInterval?: number; // How often to activate webcam tracking (ms)
+  webcamStream?: MediaStream; // Camera to track instead of opening the default webcam (left running on stop)
+  puppeteer?: Partial<FacePuppeteerConfig>; // Face capture → AU retargeting used in 'puppeteer' mode
+
+  // Scene-aware gaze (world points, other characters, the user)
+  characterModel?: GazeSceneObject; // This character's root; its +Z is "straight ahead"
+  headBoneName?: string; // Bone gaze is measured from (default: CC_Base_Head / Head / head, else the root)
+  userCamera?: GazeSceneObject; // Where "the user" is; without it the user is straight ahead
+  gazeYawRange?: number; // Yaw (radians) that maps to a full gaze x of ±1
+  gazePitchRange?: number; // Pitch (radians) that maps to a full gaze y of ±1
+  sceneTargetFollowInterval?: number; // How often (ms) a held scene target is re-resolved
   engine?: any; // EngineThree for applying gaze directly
   animationAgency?: any; // Animation agency for scheduling approach
   useAnimationAgency?: boolean; // Toggle: true = use animation agency, false = use direct engine calls
 
+  // Physiological gaze model (animation agency path)
+  physiologicalGaze?: boolean; // Main-sequence saccades, eye-head split with VOR, pursuit (false = fixed linear transitions)
+  headGazeThreshold?: number; // Eye eccentricity (degrees) covered by the eyes alone before the head joins
+  pursuitMaxVelocity?: number; // Targets faster than this (deg/s) get saccades instead of pursuit
+  microsaccadesEnabled?: boolean; // Drift + microsaccades while fixating
+  microsaccadeAmplitude?: number; // Typical microsaccade size (degrees)
+  driftSpeed?: number; // Ocular drift during fixation (deg/s)
+
   // Coordination with mouth
   mouthSyncEnabled?: boolean; // Coordinate with speech/lip-sync
-  lookAtSpeaker?: boolean; // Look towards imaginary speaker during listening
+  lookAtSpeaker?: boolean; // Look at the current speaker (setSpeaker) while listening, or an imaginary one ahead
 
   // General settings
   idleVariation?: boolean; // Add natural variation when idle
@@ -70,6 +109,33 @@ export interface EyeHeadTrackingConfig {
   returnToNeutralDuration?: number; // Duration of return transition (ms)
 }
 
+/**
+ * Per-AU retarget calibration: value = clamp01((raw - offset) * gain)
+ */
+export interface AUCalibration {
+  gain?: number;
+  offset?: number;
+}
+
+/**
+ * Face puppeteer (performance capture) settings
+ */
+export interface FacePuppeteerConfig {
+  modelPath: string; // Where the face-api.js weights are served (tiny face detector + 68-point landmarks)
+  detectionInterval: number; // Minimum ms between detections (~30fps at 33)
+  transitionDuration: number; // ms each live update eases over
+  smoothing: number; // 0 = raw, 0.9 = heavy exponential smoothing of AU values
+  intensity: number; // Overall expression scale (0-1+)
+  headEnabled: boolean; // Retarget head yaw/pitch/roll onto AUs 51-56
+  faceEnabled: boolean; // Retarget brows, lids, jaw and mouth corners
+  headMaxDegrees: number; // Head angle that maps to AU intensity 1
+  mirror: boolean; // Swap left/right (avatar moves like a mirror image of the performer)
+  calibration: Record<string, AUCalibration>; // Per-AU gain/offset, keyed by AU id
+  facePriority: number; // Animation priority for face AUs
+  headPriority: number; // Animation priority for head AUs
+  recordTolerance: number; // Max error (0-1) when thinning recorded keys; 0 keeps every frame
+}
+
 export interface EyeHeadTrackingState {
   eyeStatus: 'idle' | 'tracking' | 'lagging';
   headStatus: 'idle' | 'tracking' | 'lagging';
@@ -95,12 +161,22 @@ export interface EyeHeadTrackingState {
   lastGazeUpdateTime: number;
 }
 
+/**
+ * An eye movement as it is scheduled (after smoothing and the gaze model's saccade/pursuit choice)
+ */
+export interface GazeShiftEvent {
+  amplitude: number; // Degrees of gaze rotation
+  kind: 'saccade' | 'pursuit' | 'fixation';
+  target: GazeTarget;
+}
+
 export interface EyeHeadTrackingCallbacks {
   onEyeStart?: () => void;
   onEyeStop?: () => void;
   onHeadStart?: () => void;
   onHeadStop?: () => void;
   onGazeChange?: (target: GazeTarget) => void;
+  onGazeShift?: (event: GazeShiftEvent) => void; // Each eye movement actually scheduled, with its size
   onBlink?: () => void;
   onError?: (error: Error) => void;
 }
@@ -152,6 +228,19 @@ export const DEFAULT_EYE_HEAD_CONFIG = {
   webcamLookAtUser: false,
   webcamActivationInterval: 7000, // 7 seconds
 
+  // Scene-aware gaze
+  gazeYawRange: Math.PI / 3, // 60° to either side
+  gazePitchRange: Math.PI / 4, // 45° up or down
+  sceneTargetFollowInterval: 200,
+
+  // Physiological gaze model
+  physiologicalGaze: true,
+  headGazeThreshold: 15,
+  pursuitMaxVelocity: 40,
+  microsaccadesEnabled: true,
+  microsaccadeAmplitude: 0.4,
+  driftSpeed: 0.3,
+
   // Coordination
   mouthSyncEnabled: true,
   lookAtSpeaker: false,
@@ -169,6 +258,22 @@ export const DEFAULT_EYE_HEAD_CONFIG = {
   useAnimationAgency: true, // Default to animation agency when available
 };
 
+export const DEFAULT_FACE_PUPPETEER_CONFIG: FacePuppeteerConfig = {
+  modelPath: '/models',
+  detectionInterval: 33,
+  transitionDuration: 80,
+  smoothing: 0.5,
+  intensity: 1,
+  headEnabled: true,
+  faceEnabled: true,
+  headMaxDegrees: 30,
+  mirror: false,
+  calibration: {},
+  facePriority: 45, // Above emotion (40), below lip-sync (50)
+  headPriority: 45,
+  recordTolerance: 0.01,
+};
+
 /**
  * Eye AU mappings (from shapeDict.ts)
  */
@@ -0,0 +1,252 @@
+/**
+ * Webcam Calibration
+ * Per-user offsets and gains for webcam gaze tracking and the face puppeteer
+ *
+ * The user holds a few poses (neutral, look left/right/up/down, smile, brows up) while
+ * samples are averaged. From those:
+ * - Gaze: the neutral face position becomes the center and the look poses set the gain,
+ *   replacing the fixed linear mapping of face position → gaze
+ * - Puppeteer: the neutral measurements become the resting face, its residual AU values
+ *   become offsets, and each extreme pose sets the gain of the AUs it drives so the
+ *   user's own range reaches full intensity
+ *
+ * Profiles are stored by name in localStorage; the active one is applied on startup.
+ */
+
+import type { AUCalibration, GazeTarget } from './types';
+import type { FaceMeasurements, Point2 } from './faceLandmarks';
+
+export type CalibrationPose =
+  | 'neutral'
+  | 'lookLeft'
+  | 'lookRight'
+  | 'lookUp'
+  | 'lookDown'
+  | 'smile'
+  | 'browsUp';
+
+/** Poses in capture order, with the instruction shown to the user */
+export const CALIBRATION_POSES: Array<{ pose: CalibrationPose; prompt: string; optional: boolean }> = [
+  { pose: 'neutral', prompt: 'Look straight at the screen with a relaxed face', optional: false },
+  { pose: 'lookLeft', prompt: 'Turn to look at the left edge of the screen', optional: true },
+  { pose: 'lookRight', prompt: 'Turn to look at the right edge of the screen', optional: true },
+  { pose: 'lookUp', prompt: 'Look at the top edge of the screen', optional: true },
+  { pose: 'lookDown', prompt: 'Look at the bottom edge of the screen', optional: true },
+  { pose: 'smile', prompt: 'Smile broadly', optional: true },
+  { pose: 'browsUp', prompt: 'Raise your eyebrows as high as you can', optional: true },
+];
+
+/**
+ * One averaged capture of a pose
+ */
+export interface CalibrationSample {
+  /** Face position in the camera image (0-1, y down) */
+  face: Point2;
+  /** Full face measurements (puppeteer mode only) */
+  measurements?: FaceMeasurements;
+  /** Uncalibrated puppeteer AU values at this pose, measured against the neutral sample */
+  aus?: Record<string, number>;
+}
+
+/**
+ * Face position → gaze: gaze = (position - center) * gain (y flipped)
+ */
+export interface GazeCalibration {
+  centerX: number;
+  centerY: number;
+  gainX: number;
+  gainY: number;
+}
+
+export interface WebcamCalibrationProfile {
+  name: string;
+  createdAt: number;
+  gaze: GazeCalibration;
+  /** Resting face for the puppeteer */
+  neutralFace?: FaceMeasurements;
+  /** Per-AU offsets and gains for the puppeteer */
+  auCalibration?: Record<string, AUCalibration>;
+}
+
+/** Same mapping webcam tracking used before calibration: image center, full frame = ±1 */
+export const DEFAULT_GAZE_CALIBRATION: GazeCalibration = {
+  centerX: 0.5,
+  centerY: 0.5,
+  gainX: 2,
+  gainY: 2,
+};
+
+/** AUs each extreme pose calibrates */
+const POSE_AUS: Partial<Record<CalibrationPose, string[]>> = {
+  lookLeft: ['51', '52'],
+  lookRight: ['51', '52'],
+  lookUp: ['53'],
+  lookDown: ['54'],
+  smile: ['12'],
+  browsUp: ['1', '2'],
+};
+
+/** Below this a pose didn't really move the AU and its gain is left alone */
+const MIN_POSE_RESPONSE = 0.05;
+const GAIN_LIMITS = { min: 0.25, max: 4 };
+const GAZE_GAIN_LIMITS = { min: 0.5, max: 20 };
+
+const STORAGE_KEY = 'eyeHeadTracking/calibrationProfiles';
+const ACTIVE_KEY = 'eyeHeadTracking/activeCalibrationProfile';
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+/**
+ * Map a face position (0-1, y down) to gaze coordinates
+ */
+export function applyGazeCalibration(face: Point2, calibration: GazeCalibration = DEFAULT_GAZE_CALIBRATION): GazeTarget {
+  return {
+    x: clamp((face.x - calibration.centerX) * calibration.gainX, -1, 1),
+    y: clamp(-(face.y - calibration.centerY) * calibration.gainY, -1, 1),
+    z: 0,
+  };
+}
+
+/**
+ * Average a run of samples (null when empty)
+ */
+export function averageSamples(samples: CalibrationSample[]): CalibrationSample | null {
+  if (samples.length === 0) return null;
+  const n = samples.length;
+
+  const face = {
+    x: samples.reduce((sum, s) => sum + s.face.x, 0) / n,
+    y: samples.reduce((sum, s) => sum + s.face.y, 0) / n,
+  };
+
+  const measured = samples.filter((s) => s.measurements).map((s) => s.measurements!);
+  if (measured.length === 0) return { face };
+
+  const measurements = { ...measured[0] };
+  for (const key of Object.keys(measurements) as Array<keyof FaceMeasurements>) {
+    measurements[key] = measured.reduce((sum, m) => sum + m[key], 0) / measured.length;
+  }
+  return { face, measurements };
+}
+
+/**
+ * Build a profile from captured poses. `neutral` is required; the rest are optional.
+ * Samples should carry `aus` (raw puppeteer AUs against the neutral sample) for AU gains.
+ */
+export function computeCalibrationProfile(
+  name: string,
+  samples: Partial<Record<CalibrationPose, CalibrationSample>>
+): WebcamCalibrationProfile {
+  const neutral = samples.neutral;
+  if (!neutral) {
+    throw new Error('[WebcamCalibration] A neutral pose is required');
+  }
+
+  // Gaze: neutral is the center; the spread of the look poses is the full ±1 range
+  const gaze: GazeCalibration = { ...DEFAULT_GAZE_CALIBRATION, centerX: neutral.face.x, centerY: neutral.face.y };
+  gaze.gainX = spreadGain(neutral.face.x, samples.lookLeft?.face.x, samples.lookRight?.face.x) ?? gaze.gainX;
+  gaze.gainY = spreadGain(neutral.face.y, samples.lookUp?.face.y, samples.lookDown?.face.y) ?? gaze.gainY;
+
+  const profile: WebcamCalibrationProfile = {
+    name,
+    createdAt: Date.now(),
+    gaze: {
+      centerX: round(gaze.centerX),
+      centerY: round(gaze.centerY),
+      gainX: round(gaze.gainX),
+      gainY: round(gaze.gainY),
+    },
+  };
+
+  if (!neutral.measurements) return profile;
+  profile.neutralFace = neutral.measurements;
+
+  // Offsets: whatever the relaxed face still produces
+  const auCalibration: Record<string, AUCalibration> = {};
+  for (const [id, v] of Object.entries(neutral.aus ?? {})) {
+    if (v > 0.01) auCalibration[id] = { offset: round(v) };
+  }
+
+  // Gains: the user's own extreme reaches full intensity
+  for (const [pose, ids] of Object.entries(POSE_AUS) as Array<[CalibrationPose, string[]]>) {
+    const aus = samples[pose]?.aus;
+    if (!aus) continue;
+    for (const id of ids) {
+      const offset = auCalibration[id]?.offset ?? 0;
+      const response = (aus[id] ?? 0) - offset;
+      if (response < MIN_POSE_RESPONSE) continue;
+      auCalibration[id] = { ...auCalibration[id], gain: round(clamp(1 / response, GAIN_LIMITS.min, GAIN_LIMITS.max)) };
+    }
+  }
+
+  profile.auCalibration = auCalibration;
+  return profile;
+}
+
+/**
+ * Gain that maps the captured extremes (either side of center) to ±1
+ */
+function spreadGain(center: number, low?: number, high?: number): number | null {
+  let spread: number | null = null;
+  if (low !== undefined && high !== undefined) spread = Math.abs(high - low) / 2;
+  else if (low !== undefined) spread = Math.abs(center - low);
+  else if (high !== undefined) spread = Math.abs(high - center);
+  if (!spread || spread < 1e-3) return null;
+  return clamp(1 / spread, GAZE_GAIN_LIMITS.min, GAZE_GAIN_LIMITS.max);
+}
+
+// ---------- Profile storage (localStorage) ----------
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * All saved profiles, by name
+ */
+export function loadCalibrationProfiles(): Record<string, WebcamCalibrationProfile> {
+  const str = getStorage()?.getItem(STORAGE_KEY);
+  if (!str) return {};
+  try {
+    const parsed = JSON.parse(str);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.error('[WebcamCalibration] bad JSON in localStorage', e);
+    return {};
+  }
+}
+
+export function saveCalibrationProfile(profile: WebcamCalibrationProfile): void {
+  const storage = getStorage();
+  if (!storage) return;
+  const profiles = loadCalibrationProfiles();
+  profiles[profile.name] = profile;
+  storage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function deleteCalibrationProfile(name: string): void {
+  const storage = getStorage();
+  if (!storage) return;
+  const profiles = loadCalibrationProfiles();
+  delete profiles[name];
+  storage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  if (storage.getItem(ACTIVE_KEY) === name) {
+    storage.removeItem(ACTIVE_KEY);
+  }
+}
+
+export function getActiveCalibrationProfileName(): string | null {
+  return getStorage()?.getItem(ACTIVE_KEY) ?? null;
+}
+
+export function setActiveCalibrationProfileName(name: string | null): void {
+  const storage = getStorage();
+  if (!storage) return;
+  if (name) storage.setItem(ACTIVE_KEY, name);
+  else storage.removeItem(ACTIVE_KEY);
+}
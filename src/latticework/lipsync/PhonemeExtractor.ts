@@ -1,12 +1,14 @@
 /**
  * PhonemeExtractor
  * Extracts phonemes from text for lip-sync animation
- * Uses enhanced grapheme-to-phoneme rules for robust phoneme extraction
+ * Uses the pronunciation lexicon first, then enhanced grapheme-to-phoneme rules
  */
 
+import { pronunciationLexicon } from './pronunciationLexicon';
+
 /**
- * Phoneme dictionary for common English words
- * Used for accurate pronunciation of common/irregular words
+ * Built-in phoneme dictionary for common English words
+ * Used when the pronunciation lexicon doesn't know a word (e.g. before it has loaded)
  * Format: word -> phoneme array
  */
 const PHONEME_DICT: Record<string, string[]> = {
@@ -145,9 +147,10 @@ export class PhonemeExtractor {
   /**
    * Extract phonemes from text
    * Returns array of phoneme strings including PAUSE tokens
-   * Uses dictionary + enhanced grapheme-to-phoneme rules
+   * Uses lexicon + dictionary + enhanced grapheme-to-phoneme rules
+   * Stress markers (AH0/EY1) are stripped unless options.stress is set
    */
-  public extractPhonemes(text: string): string[] {
+  public extractPhonemes(text: string, options: { stress?: boolean } = {}): string[] {
     const phonemes: string[] = [];
 
     // Tokenize by words and punctuation
@@ -168,7 +171,7 @@ export class PhonemeExtractor {
       // Convert word to phonemes
       const word = token.toLowerCase();
       const wordPhonemes = this.wordToPhonemes(word);
-      phonemes.push(...wordPhonemes);
+      phonemes.push(...(options.stress ? wordPhonemes : wordPhonemes.map(p => p.replace(/[0-9]/g, ''))));
 
       // Add small pause between words (except before punctuation)
       const nextToken = tokens[i + 1];
@@ -217,10 +220,16 @@ export class PhonemeExtractor {
 
   /**
    * Convert a word to phonemes
-   * Uses dictionary lookup first, then enhanced grapheme-to-phoneme rules
+   * Uses lexicon and dictionary lookup first, then enhanced grapheme-to-phoneme rules
    */
   private wordToPhonemes(word: string): string[] {
-    // Dictionary lookup for common/irregular words
+    // Lexicon: runtime entries, project overrides, CMU dictionary
+    const lexiconPhonemes = pronunciationLexicon.lookup(word);
+    if (lexiconPhonemes) {
+      return lexiconPhonemes;
+    }
+
+    // Built-in dictionary for common/irregular words
     if (PHONEME_DICT[word]) {
       return [...PHONEME_DICT[word]];
     }
@@ -260,10 +269,11 @@ export class PhonemeExtractor {
   }
 
   /**
-   * Add a word to the dictionary (for runtime extension)
+   * Add a word pronunciation (for runtime extension)
+   * Stored in the pronunciation lexicon, so it wins over the dictionary files
    */
   public addWord(word: string, phonemes: string[]): void {
-    PHONEME_DICT[word.toLowerCase()] = phonemes;
+    pronunciationLexicon.addPronunciation(word, phonemes);
   }
 
   /**
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createAudioLipSyncService } from '../audioLipSync';
+import type { LipSyncHostCaps } from '../lipSyncService';
+
+/**
+ * Tests for audio-driven lip-sync with a fake Web Audio graph.
+ *
+ * The analyser always reports a loud frame, so every tick schedules a viseme.
+ */
+describe('AudioLipSync', () => {
+  const contexts: FakeAudioContext[] = [];
+
+  class FakeNode {
+    connect = vi.fn();
+    disconnect = vi.fn();
+  }
+
+  class FakeAnalyser extends FakeNode {
+    fftSize = 2048;
+    smoothingTimeConstant = 0;
+    constructor(public context: FakeAudioContext) { super(); }
+    getFloatTimeDomainData(data: Float32Array) { data.fill(0.5); }
+    getFloatFrequencyData(data: Float32Array) { data.fill(-30); }
+  }
+
+  class FakeAudioContext {
+    state = 'running';
+    sampleRate = 48000;
+    destination = new FakeNode();
+    close = vi.fn(() => Promise.resolve());
+    resume = vi.fn(() => Promise.resolve());
+    createMediaElementSource = vi.fn(() => new FakeNode());
+    createMediaStreamSource = vi.fn(() => new FakeNode());
+    constructor() { contexts.push(this); }
+    createAnalyser() { return new FakeAnalyser(this); }
+  }
+
+  class FakeMediaElement {}
+  class FakeMediaStream {}
+
+  let host: LipSyncHostCaps;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    contexts.length = 0;
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.stubGlobal('HTMLMediaElement', FakeMediaElement);
+    vi.stubGlobal('MediaStream', FakeMediaStream);
+    host = {
+      scheduleSnippet: vi.fn((snippet: any) => snippet.name),
+      removeSnippet: vi.fn(),
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should replace one fixed snippet every frame', () => {
+    const service = createAudioLipSyncService({ frameMs: 60 }, {}, host);
+    service.attach(new FakeMediaStream() as any);
+    vi.advanceTimersByTime(60 * 5);
+
+    const names = vi.mocked(host.scheduleSnippet).mock.calls.map(([sn]) => sn.name);
+    expect(names.length).toBe(5);
+    expect(new Set(names)).toEqual(new Set(['audioLipSync/mouth']));
+    expect(host.removeSnippet).toHaveBeenCalledTimes(5);
+    expect(host.removeSnippet).toHaveBeenCalledWith('audioLipSync/mouth');
+    service.dispose();
+  });
+
+  it('should keep an element routed through one open context across services', () => {
+    const element = new FakeMediaElement() as any;
+
+    const first = createAudioLipSyncService({}, {}, host);
+    first.attach(element);
+    first.dispose();
+
+    const second = createAudioLipSyncService({}, {}, host);
+    second.attach(element);
+    expect(second.getState().isAttached).toBe(true);
+
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0].createMediaElementSource).toHaveBeenCalledTimes(1);
+    expect(contexts[0].close).not.toHaveBeenCalled();
+    second.dispose();
+  });
+
+  it('should close its own context for stream sources on dispose', () => {
+    const service = createAudioLipSyncService({}, {}, host);
+    service.attach(new FakeMediaStream() as any);
+    service.dispose();
+
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0].close).toHaveBeenCalledTimes(1);
+  });
+});
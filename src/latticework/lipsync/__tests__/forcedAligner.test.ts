@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { ForcedAligner } from '../forcedAligner';
+import type { AlignmentAudio } from '../forcedAligner';
+
+/**
+ * Tests for the offline forced aligner.
+ *
+ * Synthetic recordings alternate silence with a low tone (vowel-like: loud, few zero
+ * crossings), so the vowels of the transcript must land on the tones in order.
+ */
+describe('ForcedAligner', () => {
+  const SAMPLE_RATE = 16000;
+
+  /** Silence and 150 Hz tone segments, in milliseconds */
+  const synthesize = (segments: Array<{ tone: boolean; ms: number }>): AlignmentAudio => {
+    const total = segments.reduce((sum, seg) => sum + Math.round((seg.ms / 1000) * SAMPLE_RATE), 0);
+    const samples = new Float32Array(total);
+    let offset = 0;
+    for (const seg of segments) {
+      const count = Math.round((seg.ms / 1000) * SAMPLE_RATE);
+      if (seg.tone) {
+        for (let i = 0; i < count; i++) samples[offset + i] = 0.5 * Math.sin((2 * Math.PI * 150 * i) / SAMPLE_RATE);
+      }
+      offset += count;
+    }
+    return { samples, sampleRate: SAMPLE_RATE };
+  };
+
+  /** Tone segment [start, end] times in ms */
+  const toneSpans = (segments: Array<{ tone: boolean; ms: number }>) => {
+    const spans: Array<[number, number]> = [];
+    let t = 0;
+    for (const seg of segments) {
+      if (seg.tone) spans.push([t, t + seg.ms]);
+      t += seg.ms;
+    }
+    return spans;
+  };
+
+  const spoken = (timings: ReturnType<ForcedAligner['align']>) =>
+    timings.filter(t => t.phoneme !== 'sil' && !t.phoneme.startsWith('PAUSE'));
+
+  it('should place vowels on the tones in transcript order', () => {
+    const segments = [
+      { tone: false, ms: 300 },
+      { tone: true, ms: 400 },
+      { tone: false, ms: 300 },
+      { tone: true, ms: 250 },
+      { tone: false, ms: 300 },
+    ];
+    const aligner = new ForcedAligner();
+    const timings = aligner.align(synthesize(segments), ['AA', 'PAUSE_SPACE', 'IY']);
+    const words = spoken(timings);
+
+    expect(words.map(t => t.phoneme)).toEqual(['AA', 'IY']);
+    toneSpans(segments).forEach(([start, end], i) => {
+      expect(Math.abs(words[i].startMs - start)).toBeLessThanOrEqual(30);
+      expect(Math.abs(words[i].startMs + words[i].durationMs - end)).toBeLessThanOrEqual(30);
+    });
+    expect(timings.map(t => t.phoneme)).toEqual(['sil', 'AA', 'PAUSE_SPACE', 'IY', 'sil']);
+  });
+
+  it('should keep boundaries on a long recording with a narrow band', () => {
+    const segments: Array<{ tone: boolean; ms: number }> = [{ tone: false, ms: 200 }];
+    const phonemes: string[] = [];
+    for (let i = 0; i < 30; i++) {
+      segments.push({ tone: true, ms: 200 + (i % 4) * 100 }, { tone: false, ms: 150 + (i % 3) * 150 });
+      phonemes.push(i % 2 ? 'IY' : 'AA', 'PAUSE_SPACE');
+    }
+    const aligner = new ForcedAligner();
+    aligner.setParams({ bandMs: 1000 });
+    const words = spoken(aligner.align(synthesize(segments), phonemes));
+
+    expect(words).toHaveLength(30);
+    toneSpans(segments).forEach(([start, end], i) => {
+      expect(Math.abs(words[i].startMs - start)).toBeLessThanOrEqual(30);
+      expect(Math.abs(words[i].startMs + words[i].durationMs - end)).toBeLessThanOrEqual(30);
+    });
+  });
+
+  it('should follow the speech through long silences', () => {
+    const segments = [
+      { tone: false, ms: 3000 },
+      { tone: true, ms: 200 },
+      { tone: false, ms: 100 },
+      { tone: true, ms: 200 },
+      { tone: false, ms: 2500 },
+      { tone: true, ms: 300 },
+    ];
+    const aligner = new ForcedAligner();
+    aligner.setParams({ bandMs: 200 });
+    const words = spoken(aligner.align(synthesize(segments), ['AA', 'PAUSE_SPACE', 'IY', 'PAUSE_PERIOD', 'AA']));
+
+    expect(words.map(t => t.phoneme)).toEqual(['AA', 'IY', 'AA']);
+    toneSpans(segments).forEach(([start], i) => {
+      expect(Math.abs(words[i].startMs - start)).toBeLessThanOrEqual(30);
+    });
+  });
+});
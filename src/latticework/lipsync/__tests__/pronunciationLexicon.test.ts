@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { gunzipSync } from 'zlib';
+import { PronunciationLexicon, parseCmuDictionary } from '../pronunciationLexicon';
+
+/**
+ * Tests for dictionary parsing and lookup priority of the pronunciation lexicon.
+ *
+ * fetch is stubbed with an in-memory override file and dictionary.
+ */
+describe('parseCmuDictionary', () => {
+  it('should read the classic format and skip comments and alternates', () => {
+    const entries = parseCmuDictionary([
+      ';;; # CMUdict  --  Major Version: 0.07',
+      'HELLO  HH AH0 L OW1',
+      'HELLO(1)  HH EH0 L OW1',
+      "DON'T  D OW1 N T",
+      '',
+    ].join('\n'));
+
+    expect([...entries]).toEqual([
+      ['hello', 'HH AH0 L OW1'],
+      ["don't", 'D OW1 N T'],
+    ]);
+  });
+
+  it('should read the cmudict.dict format with trailing comments', () => {
+    const entries = parseCmuDictionary('tomato t ah0 m ey1 t ow2\ntomato(2) t ah0 m aa1 t ow2\nparis p eh1 r ih0 s # place\n');
+
+    expect(entries.get('tomato')).toBe('T AH0 M EY1 T OW2');
+    expect(entries.get('paris')).toBe('P EH1 R IH0 S');
+  });
+
+  it('should keep the first entry when a word repeats', () => {
+    const entries = parseCmuDictionary('READ  R IY1 D\nread  R EH1 D\n');
+    expect(entries.get('read')).toBe('R IY1 D');
+  });
+
+  it('should read the dictionary shipped in public/', () => {
+    const gz = readFileSync(new URL('../../../../public/lexicon/cmudict.txt.gz', import.meta.url));
+    const entries = parseCmuDictionary(gunzipSync(new Uint8Array(gz)).toString('latin1'));
+
+    expect(entries.size).toBeGreaterThan(100000);
+    expect(entries.get('hello')).toBe('HH AH0 L OW1');
+    expect(entries.get('tomato')).toBe('T AH0 M EY1 T OW2');
+  });
+});
+
+describe('PronunciationLexicon', () => {
+  let lexicon: PronunciationLexicon;
+
+  beforeEach(async () => {
+    const files: Record<string, string> = {
+      '/overrides.json': JSON.stringify({ github: 'G IH1 T HH AH2 B', tomato: ['T', 'AH0', 'M', 'AA1', 'T', 'OW2'] }),
+      '/cmudict.txt': 'TOMATO  T AH0 M EY1 T OW2\nGITHUB  G IH1 T HH UH2 B\nCAFE  K AH0 F EY1\nBANANA  B AH0 N AE1 N AH0\n',
+    };
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const body = files[url];
+      return body === undefined
+        ? new Response(null, { status: 404 })
+        : new Response(new TextEncoder().encode(body));
+    }));
+
+    lexicon = new PronunciationLexicon({ overridesUrl: '/overrides.json', dictionaryUrl: '/cmudict.txt', autoLoad: false });
+    await lexicon.load();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should prefer the override file over the dictionary', () => {
+    expect(lexicon.lookup('tomato')).toEqual(['T', 'AH0', 'M', 'AA1', 'T', 'OW2']);
+    expect(lexicon.lookup('GitHub')).toEqual(['G', 'IH1', 'T', 'HH', 'AH2', 'B']);
+    expect(lexicon.lookup('banana')).toEqual(['B', 'AH0', 'N', 'AE1', 'N', 'AH0']);
+  });
+
+  it('should prefer runtime entries over both files until they are removed', () => {
+    lexicon.addPronunciation('Tomato', 't ow m ey t ow');
+    expect(lexicon.lookup('tomato')).toEqual(['T', 'OW', 'M', 'EY', 'T', 'OW']);
+
+    lexicon.removePronunciation('tomato');
+    expect(lexicon.lookup('tomato')).toEqual(['T', 'AH0', 'M', 'AA1', 'T', 'OW2']);
+  });
+
+  it('should try the accented word before its unaccented entry', () => {
+    expect(lexicon.lookup('café')).toEqual(['K', 'AH0', 'F', 'EY1']);
+
+    lexicon.addPronunciation('café', 'K AE1 F EY0');
+    expect(lexicon.lookup('Café')).toEqual(['K', 'AE1', 'F', 'EY0']);
+  });
+
+  it('should return null for unknown words and read stress', () => {
+    expect(lexicon.lookup('loomlarge')).toBeNull();
+    expect(lexicon.getStress('banana')).toEqual([0, 1, 0]);
+    expect(lexicon.getDictionarySize()).toBe(4);
+  });
+});
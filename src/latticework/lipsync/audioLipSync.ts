@@ -0,0 +1,363 @@
+/**
+ * Audio-Driven LipSync
+ * Drives visemes in real time from an audio signal - no text or phonemes needed
+ *
+ * - Attaches to a MediaStream (microphone), a MediaStreamTrack (e.g. a LiveKit remote
+ *   track) or an HTMLMediaElement through a Web Audio AnalyserNode
+ * - Rough F1/F2 formant peaks and high-frequency energy pick one of a reduced viseme set
+ * - RMS energy sets viseme intensity and jaw opening
+ * - Each analysis frame replaces one short 'inherit' snippet through the same
+ *   LipSyncHostCaps contract as createLipSyncService, so it blends like word-based lip-sync
+ */
+
+import type { LipSyncCallbacks, VisemeID } from './types';
+import type { LipSyncHostCaps } from './lipSyncService';
+
+export type AudioLipSyncSource = MediaStream | MediaStreamTrack | HTMLMediaElement;
+
+export interface AudioLipSyncConfig {
+  lipsyncIntensity: number; // 0-2.0, multiplier for viseme intensity
+  jawScale: number; // 0-2.0, jaw bone activation multiplier at full loudness
+  frameMs: number; // Analysis + scheduling interval
+  silenceDb: number; // RMS level treated as silence
+  speechDb: number; // RMS level treated as full mouth opening
+  attack: number; // 0-1, how fast the level rises
+  release: number; // 0-1, how fast the level falls
+  hangoverMs: number; // Silence needed before onSpeechEnd fires
+}
+
+export interface AudioLipSyncServiceAPI {
+  attach: (source: AudioLipSyncSource) => void;
+  detach: () => void;
+  updateConfig: (config: Partial<AudioLipSyncConfig>) => void;
+  getState: () => {
+    isAttached: boolean;
+    isSpeaking: boolean;
+    currentViseme: VisemeID | null;
+    level: number;
+  };
+  dispose: () => void;
+}
+
+/**
+ * Spectral summary of one analysis frame
+ */
+export interface AudioFrameFeatures {
+  f1: number; // Hz, strongest peak 250-900 Hz
+  f2: number; // Hz, strongest peak 900-2800 Hz
+  highRatio: number; // 0-1, share of energy above 4 kHz
+}
+
+const DEFAULT_CONFIG: AudioLipSyncConfig = {
+  lipsyncIntensity: 1.0,
+  jawScale: 1.0,
+  frameMs: 60,
+  silenceDb: -50,
+  speechDb: -20,
+  attack: 0.6,
+  release: 0.3,
+  hangoverMs: 300,
+};
+
+const FFT_SIZE = 2048;
+
+/** Every analysis frame replaces this snippet */
+const SNIPPET_NAME = 'audioLipSync/mouth';
+
+/**
+ * createMediaElementSource() reroutes an element through one AudioContext for good, so each
+ * element gets a context of its own, shared by every service that analyses it and never
+ * closed (closing it would silence the element).
+ */
+const elementGraphs = new WeakMap<HTMLMediaElement, { context: AudioContext; source: MediaElementAudioSourceNode }>();
+
+function elementGraph(element: HTMLMediaElement) {
+  let graph = elementGraphs.get(element);
+  if (!graph) {
+    const context = new AudioContext();
+    const source = context.createMediaElementSource(element);
+    // Element audio is rerouted through the graph, so pass it on to the speakers
+    source.connect(context.destination);
+    graph = { context, source };
+    elementGraphs.set(element, graph);
+  }
+  return graph;
+}
+
+/**
+ * ARKit viseme indices (see VisemeMapper) used by the reduced set
+ */
+const VISEME = {
+  EE: 0,
+  Er: 1,
+  IH: 2,
+  Ah: 3,
+  Oh: 4,
+  W_OO: 5,
+  S_Z: 6,
+  AE: 13,
+} as const;
+
+/**
+ * Summarize a frequency frame (AnalyserNode.getFloatFrequencyData, dB per bin)
+ */
+export function extractAudioFrameFeatures(spectrumDb: Float32Array, sampleRate: number): AudioFrameFeatures {
+  const binHz = sampleRate / (spectrumDb.length * 2);
+  const power = (bin: number) => Math.pow(10, spectrumDb[bin] / 10);
+  const bin = (hz: number) => Math.min(spectrumDb.length - 1, Math.max(0, Math.round(hz / binHz)));
+
+  const peak = (loHz: number, hiHz: number) => {
+    let best = bin(loHz);
+    let bestPower = -Infinity;
+    for (let b = bin(loHz); b <= bin(hiHz); b++) {
+      // 3-bin smoothing so a single harmonic doesn't win
+      const p = power(Math.max(0, b - 1)) + power(b) + power(Math.min(spectrumDb.length - 1, b + 1));
+      if (p > bestPower) {
+        bestPower = p;
+        best = b;
+      }
+    }
+    return best * binHz;
+  };
+
+  let total = 0;
+  let high = 0;
+  for (let b = bin(100); b <= bin(8000); b++) {
+    const p = power(b);
+    total += p;
+    if (b >= bin(4000)) high += p;
+  }
+
+  return {
+    f1: peak(250, 900),
+    f2: peak(900, 2800),
+    highRatio: total > 0 ? high / total : 0,
+  };
+}
+
+/**
+ * Pick a viseme from the formant layout: open vowels by F1, front/back by F2,
+ * sibilants by high-frequency energy
+ */
+export function classifyAudioViseme(features: AudioFrameFeatures): VisemeID {
+  const { f1, f2, highRatio } = features;
+  if (highRatio > 0.35) return VISEME.S_Z;
+  if (f1 >= 700) return f2 >= 1600 ? VISEME.AE : VISEME.Ah;
+  if (f1 >= 450) {
+    if (f2 >= 1700) return VISEME.EE;
+    return f2 < 1100 ? VISEME.Oh : VISEME.Ah;
+  }
+  if (f2 >= 1900) return VISEME.IH;
+  return f2 < 1100 ? VISEME.W_OO : VISEME.Er;
+}
+
+/**
+ * Create an audio-driven lip-sync service
+ */
+export function createAudioLipSyncService(
+  config: Partial<AudioLipSyncConfig> = {},
+  callbacks: LipSyncCallbacks = {},
+  hostCaps: LipSyncHostCaps
+): AudioLipSyncServiceAPI {
+  const fullConfig: AudioLipSyncConfig = { ...DEFAULT_CONFIG, ...config };
+
+  // Context for stream sources; element sources use their shared element context
+  let streamContext: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let sourceNode: AudioNode | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const timeData = new Float32Array(FFT_SIZE);
+  const freqData = new Float32Array(FFT_SIZE / 2);
+
+  let level = 0;
+  let currentViseme: VisemeID | null = null;
+  let isSpeaking = false;
+  let silentMs = 0;
+  let scheduled = false;
+  const activeVisemes = new Set<VisemeID>();
+
+  /**
+   * Replace the previous frame snippet with one that glides from the current
+   * values to this frame's target
+   */
+  const scheduleFrame = (viseme: VisemeID | null, intensity: number) => {
+    const dur = fullConfig.frameMs / 1000;
+    const curves: Record<string, Array<{ time: number; intensity: number; inherit?: boolean }>> = {};
+
+    activeVisemes.forEach(id => {
+      if (id !== viseme) curves[id.toString()] = [{ time: 0, intensity: 0, inherit: true }, { time: dur, intensity: 0 }];
+    });
+    if (viseme !== null) {
+      curves[viseme.toString()] = [{ time: 0, intensity: 0, inherit: true }, { time: dur, intensity }];
+    }
+    if (Object.keys(curves).length === 0) return;
+
+    hostCaps.removeSnippet(SNIPPET_NAME);
+    scheduled = hostCaps.scheduleSnippet({
+      name: SNIPPET_NAME,
+      curves,
+      maxTime: dur,
+      loop: false,
+      snippetCategory: 'visemeSnippet',
+      snippetPriority: 50,
+      snippetPlaybackRate: 1.0,
+      snippetIntensityScale: 1.0,
+      snippetJawScale: fullConfig.jawScale * level, // Loudness opens the jaw
+      mixerChannel: 'mouth',
+    }) !== null;
+
+    activeVisemes.clear();
+    if (viseme !== null && intensity > 0) activeVisemes.add(viseme);
+  };
+
+  const tick = () => {
+    if (!analyser) return;
+
+    analyser.getFloatTimeDomainData(timeData);
+    let sum = 0;
+    for (let i = 0; i < timeData.length; i++) sum += timeData[i] * timeData[i];
+    const db = 10 * Math.log10(sum / timeData.length + 1e-10);
+    const target = Math.min(1, Math.max(0, (db - fullConfig.silenceDb) / (fullConfig.speechDb - fullConfig.silenceDb)));
+    level += (target - level) * (target > level ? fullConfig.attack : fullConfig.release);
+
+    // Silence: close the mouth once, then stay idle
+    if (target === 0) {
+      silentMs += fullConfig.frameMs;
+      if (level < 0.05 && currentViseme !== null) {
+        callbacks.onVisemeEnd?.(currentViseme);
+        currentViseme = null;
+      }
+      scheduleFrame(currentViseme, currentViseme === null ? 0 : 100 * fullConfig.lipsyncIntensity * level);
+      if (isSpeaking && silentMs >= fullConfig.hangoverMs) {
+        isSpeaking = false;
+        callbacks.onSpeechEnd?.();
+      }
+      return;
+    }
+
+    silentMs = 0;
+    if (!isSpeaking) {
+      isSpeaking = true;
+      callbacks.onSpeechStart?.();
+    }
+
+    analyser.getFloatFrequencyData(freqData);
+    const viseme = classifyAudioViseme(extractAudioFrameFeatures(freqData, analyser.context.sampleRate));
+    const intensity = 100 * fullConfig.lipsyncIntensity * level;
+
+    if (viseme !== currentViseme) {
+      if (currentViseme !== null) callbacks.onVisemeEnd?.(currentViseme);
+      callbacks.onVisemeStart?.(viseme, intensity);
+      currentViseme = viseme;
+    }
+    scheduleFrame(viseme, intensity);
+  };
+
+  const api: AudioLipSyncServiceAPI = {
+    /**
+     * Start analysing a source (replaces any previous one)
+     */
+    attach(source: AudioLipSyncSource): void {
+      api.detach();
+
+      try {
+        let context: AudioContext;
+        if (source instanceof HTMLMediaElement) {
+          const graph = elementGraph(source);
+          context = graph.context;
+          sourceNode = graph.source;
+        } else {
+          // Streams are analysed only; their playback happens elsewhere (avoids mic echo)
+          streamContext = streamContext ?? new AudioContext();
+          context = streamContext;
+          const stream = source instanceof MediaStream ? source : new MediaStream([source]);
+          sourceNode = context.createMediaStreamSource(stream);
+        }
+
+        analyser = context.createAnalyser();
+        analyser.fftSize = FFT_SIZE;
+        analyser.smoothingTimeConstant = 0.3;
+        sourceNode.connect(analyser);
+
+        if (context.state === 'suspended') {
+          context.resume().catch(() => {});
+        }
+        timer = setInterval(tick, fullConfig.frameMs);
+      } catch (error) {
+        console.error('[AudioLipSync] Failed to attach source:', error);
+        callbacks.onError?.(error as Error);
+        api.detach();
+      }
+    },
+
+    /**
+     * Stop analysing and close the mouth
+     */
+    detach(): void {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      if (sourceNode) {
+        try {
+          sourceNode.disconnect(analyser!);
+        } catch {
+          // Already disconnected
+        }
+        sourceNode = null;
+      }
+      analyser = null;
+
+      level = 0;
+      if (currentViseme !== null) callbacks.onVisemeEnd?.(currentViseme);
+      currentViseme = null;
+      scheduleFrame(null, 0);
+      if (isSpeaking) {
+        isSpeaking = false;
+        callbacks.onSpeechEnd?.();
+      }
+      silentMs = 0;
+    },
+
+    /**
+     * Update configuration dynamically
+     */
+    updateConfig(newConfig: Partial<AudioLipSyncConfig>): void {
+      const frameChanged = newConfig.frameMs !== undefined && newConfig.frameMs !== fullConfig.frameMs;
+      Object.assign(fullConfig, newConfig);
+      if (frameChanged && timer) {
+        clearInterval(timer);
+        timer = setInterval(tick, fullConfig.frameMs);
+      }
+    },
+
+    /**
+     * Get current state
+     */
+    getState() {
+      return {
+        isAttached: sourceNode !== null,
+        isSpeaking,
+        currentViseme,
+        level,
+      };
+    },
+
+    /**
+     * Cleanup and release resources
+     */
+    dispose(): void {
+      api.detach();
+      if (scheduled) {
+        hostCaps.removeSnippet(SNIPPET_NAME);
+        scheduled = false;
+      }
+      // Element contexts stay open: their elements play through them
+      streamContext?.close().catch(() => {});
+      streamContext = null;
+    },
+  };
+
+  return api;
+}
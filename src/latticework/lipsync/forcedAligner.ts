@@ -0,0 +1,459 @@
+/**
+ * Forced Aligner
+ * Aligns a transcript's phonemes against recorded speech to get real phoneme timings
+ *
+ * Fully offline - no cloud service:
+ * - Audio is cut into short frames described by energy, zero-crossing rate and
+ *   high-frequency ratio (cheap spectral tilt)
+ * - Each phoneme maps to a broad acoustic class template (vowel, nasal, fricative, stop, ...)
+ * - DTW (Viterbi over the known phoneme order) finds the best monotonic frame → phoneme path,
+ *   searched in a band around the diagonal so memory grows linearly with the recording
+ *
+ * The result is a PhonemeTiming[] that can drive VisemeMapper and the coarticulation model,
+ * so pre-recorded voice lines get lip-sync that matches the audio instead of estimated durations.
+ */
+
+import type { AnimationCurve, PhonemeTiming, VisemeID, VisemeSnippet } from './types';
+import { phonemeExtractor } from './PhonemeExtractor';
+import { visemeMapper } from './VisemeMapper';
+import { coarticulationModel } from './coarticulationModel';
+
+/**
+ * Mono PCM samples in the -1..1 range
+ */
+export interface AlignmentAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface ForcedAlignerParams {
+  hopMs: number; // Frame step
+  windowMs: number; // Frame length
+  minVowelMs: number; // Shortest vowel the path may produce
+  minConsonantMs: number; // Shortest consonant the path may produce
+  loopPenalty: number; // Cost per extra frame spent in a phoneme (keeps ties from drifting)
+  bandMs: number; // How far the path may run ahead of or behind an even spread of the transcript over the speech
+}
+
+/**
+ * Broad acoustic classes used as DTW templates
+ */
+type PhonemeClass = 'silence' | 'vowel' | 'approximant' | 'nasal' | 'voicedFricative' | 'fricative' | 'aspirate' | 'stop';
+
+/**
+ * Feature template per class: [energy, zero-crossing rate, high-frequency ratio], all 0-1,
+ * plus per-feature weights (silence is judged almost only by energy, since room noise has a high ZCR)
+ */
+const CLASS_TEMPLATES: Record<PhonemeClass, { mean: [number, number, number]; weight: [number, number, number] }> = {
+  silence: { mean: [0.0, 0.3, 0.3], weight: [4, 0.1, 0.1] },
+  vowel: { mean: [0.85, 0.1, 0.08], weight: [2, 1, 1] },
+  approximant: { mean: [0.65, 0.1, 0.06], weight: [2, 1, 1] },
+  nasal: { mean: [0.5, 0.08, 0.04], weight: [2, 1, 1] },
+  voicedFricative: { mean: [0.4, 0.45, 0.4], weight: [1.5, 1, 1] },
+  fricative: { mean: [0.3, 0.7, 0.65], weight: [1, 1.5, 1.5] },
+  aspirate: { mean: [0.3, 0.4, 0.35], weight: [1, 1, 1] },
+  stop: { mean: [0.2, 0.3, 0.25], weight: [2, 0.5, 0.5] },
+};
+
+/** Normalized frame energy above which a frame counts as speech when laying out the search band */
+const SPEECH_ENERGY = 0.25;
+
+const PHONEME_CLASSES: Record<string, PhonemeClass> = {
+  L: 'approximant', R: 'approximant', W: 'approximant', Y: 'approximant',
+  M: 'nasal', N: 'nasal', NG: 'nasal',
+  V: 'voicedFricative', DH: 'voicedFricative', Z: 'voicedFricative', ZH: 'voicedFricative', JH: 'voicedFricative',
+  F: 'fricative', TH: 'fricative', S: 'fricative', SH: 'fricative', CH: 'fricative',
+  H: 'aspirate', HH: 'aspirate',
+  P: 'stop', B: 'stop', T: 'stop', D: 'stop', K: 'stop', G: 'stop',
+};
+
+/**
+ * One step of the expected sequence: a phoneme or an (optional) pause
+ */
+interface AlignmentUnit {
+  phoneme: string;
+  cls: PhonemeClass;
+  minFrames: number;
+  optional: boolean;
+  firstState: number;
+}
+
+export class ForcedAligner {
+  private params: ForcedAlignerParams = {
+    hopMs: 10,
+    windowMs: 25,
+    minVowelMs: 40,
+    minConsonantMs: 20,
+    loopPenalty: 0.002,
+    bandMs: 3000,
+  };
+
+  /**
+   * Update aligner parameters
+   */
+  public setParams(params: Partial<ForcedAlignerParams>): void {
+    this.params = { ...this.params, ...params };
+  }
+
+  /**
+   * Get current parameters
+   */
+  public getParams(): ForcedAlignerParams {
+    return { ...this.params };
+  }
+
+  /**
+   * Align a transcript (or an already extracted phoneme list) against audio
+   * Returns one timing per phoneme in order, plus 'sil' / PAUSE_* entries for the pauses actually found
+   */
+  public align(audio: AlignmentAudio, transcript: string | string[]): PhonemeTiming[] {
+    const phonemes = typeof transcript === 'string'
+      ? phonemeExtractor.extractPhonemes(transcript)
+      : transcript;
+    const units = this.buildUnits(phonemes);
+    if (units.length <= 2) return []; // Only the edge silences - nothing to say
+
+    const features = this.extractFeatures(audio);
+    const totalMs = (audio.samples.length / audio.sampleRate) * 1000;
+    const stateCount = units.reduce((sum, u) => sum + u.minFrames, 0);
+    const requiredFrames = units.reduce((sum, u) => sum + (u.optional ? 0 : u.minFrames), 0);
+
+    // Audio too short for the minimum durations - spread the expected durations instead
+    if (features.length < requiredFrames) {
+      return this.proportionalTimings(units.filter(u => !u.optional), totalMs);
+    }
+
+    const bandFrames = Math.max(1, Math.round(this.params.bandMs / this.params.hopMs));
+    const path = this.viterbi(features, units, stateCount, bandFrames);
+    return this.pathToTimings(path, units, totalMs);
+  }
+
+  /**
+   * Turn the phoneme list into alignment units with edge silences.
+   * Consecutive pause tokens collapse into one optional pause.
+   */
+  private buildUnits(phonemes: string[]): AlignmentUnit[] {
+    const units: AlignmentUnit[] = [];
+    const frames = (ms: number) => Math.max(1, Math.round(ms / this.params.hopMs));
+    const pushPause = (phoneme: string) => {
+      const last = units[units.length - 1];
+      if (last && last.cls === 'silence') return;
+      units.push({ phoneme, cls: 'silence', minFrames: 1, optional: true, firstState: 0 });
+    };
+
+    pushPause('sil');
+    for (const raw of phonemes) {
+      if (raw.startsWith('PAUSE')) {
+        pushPause(raw);
+        continue;
+      }
+      const phoneme = raw.toUpperCase().replace(/[0-9]/g, '');
+      const isVowel = visemeMapper.isVowel(phoneme);
+      units.push({
+        phoneme: raw,
+        cls: isVowel ? 'vowel' : PHONEME_CLASSES[phoneme] ?? 'approximant',
+        minFrames: frames(isVowel ? this.params.minVowelMs : this.params.minConsonantMs),
+        optional: false,
+        firstState: 0,
+      });
+    }
+    // Trailing silence (a sentence-final pause already is one)
+    if (units[units.length - 1].cls !== 'silence') pushPause('sil');
+
+    let state = 0;
+    for (const unit of units) {
+      unit.firstState = state;
+      state += unit.minFrames;
+    }
+    return units;
+  }
+
+  /**
+   * Frame features normalized to 0-1: [energy, zero-crossing rate, high-frequency ratio]
+   */
+  private extractFeatures(audio: AlignmentAudio): Array<[number, number, number]> {
+    const { samples, sampleRate } = audio;
+    const hop = Math.max(1, Math.round((sampleRate * this.params.hopMs) / 1000));
+    const win = Math.max(hop, Math.round((sampleRate * this.params.windowMs) / 1000));
+    const frameCount = Math.max(0, Math.ceil(samples.length / hop));
+    const raw: Array<[number, number, number]> = [];
+
+    for (let f = 0; f < frameCount; f++) {
+      const start = f * hop;
+      const end = Math.min(samples.length, start + win);
+      let energy = 0;
+      let diffEnergy = 0;
+      let crossings = 0;
+      for (let i = start; i < end; i++) {
+        const x = samples[i];
+        energy += x * x;
+        if (i > start) {
+          const prev = samples[i - 1];
+          diffEnergy += (x - prev) * (x - prev);
+          if ((x >= 0) !== (prev >= 0)) crossings++;
+        }
+      }
+      const n = Math.max(1, end - start);
+      raw.push([
+        10 * Math.log10(energy / n + 1e-10),
+        crossings / n,
+        energy > 0 ? diffEnergy / (4 * energy) : 0,
+      ]);
+    }
+
+    // Energy relative to this recording's noise floor and speech level
+    const sorted = raw.map(r => r[0]).sort((a, b) => a - b);
+    const floor = sorted[Math.floor(sorted.length * 0.05)] ?? 0;
+    const peak = sorted[Math.floor(sorted.length * 0.95)] ?? 0;
+    const range = Math.max(6, peak - floor); // at least 6 dB so near-constant audio doesn't explode
+
+    return raw.map(([db, zcr, hf]) => [
+      Math.min(1, Math.max(0, (db - floor) / range)),
+      Math.min(1, zcr * 2),
+      Math.min(1, hf),
+    ]);
+  }
+
+  /**
+   * DTW over the unit chain. Each unit is a chain of minFrames states; only its last state loops.
+   * Optional units (pauses) can be skipped. Returns the state index for every frame.
+   *
+   * Frame t only considers the states within `bandFrames` of where an even spread of the
+   * transcript over the non-silent frames would be (so long pauses don't push the path off the
+   * band), and the backpointers take frames × band instead of frames × states.
+   * If no path fits in the band, the band is widened and the search repeated.
+   */
+  private viterbi(features: Array<[number, number, number]>, units: AlignmentUnit[], stateCount: number, bandFrames: number): number[] {
+    const frameCount = features.length;
+    const stateUnit = new Int32Array(stateCount);
+    units.forEach((unit, u) => stateUnit.fill(u, unit.firstState, unit.firstState + unit.minFrames));
+    const lastState = (u: number) => units[u].firstState + units[u].minFrames - 1;
+
+    const cost = (frame: number, state: number) => {
+      const { mean, weight } = CLASS_TEMPLATES[units[stateUnit[state]].cls];
+      const f = features[frame];
+      return weight[0] * (f[0] - mean[0]) ** 2 + weight[1] * (f[1] - mean[1]) ** 2 + weight[2] * (f[2] - mean[2]) ** 2;
+    };
+
+    // Expected state per frame: transcript progress follows the share of speech heard so far
+    const diagonal = new Float64Array(frameCount);
+    let heard = 0;
+    features.forEach((f, t) => {
+      diagonal[t] = heard;
+      if (f[0] > SPEECH_ENERGY) heard++;
+    });
+    const statesPerFrame = (stateCount - 1) / Math.max(1, heard);
+    diagonal.forEach((v, t) => { diagonal[t] = v * statesPerFrame; });
+    diagonal[frameCount - 1] = stateCount - 1;
+
+    // States [lo(t), hi(t)] are searched at frame t
+    const halfWidth = Math.ceil(bandFrames * Math.max(1, statesPerFrame)) + 1;
+    const width = Math.min(stateCount, 2 * halfWidth + 1);
+    const lo = (t: number) => Math.min(stateCount - width, Math.max(0, Math.floor(diagonal[t]) - halfWidth));
+    const hi = (t: number) => lo(t) + width - 1;
+
+    let prev = new Float64Array(stateCount).fill(Infinity);
+    let cur = new Float64Array(stateCount).fill(Infinity);
+    const back = new Int32Array(frameCount * width);
+
+    // Start in the leading silence or, when it's skipped, the first phoneme
+    prev[0] = cost(0, 0);
+    prev[units[1].firstState] = cost(0, units[1].firstState);
+
+    for (let t = 1; t < frameCount; t++) {
+      // cur still holds frame t - 2
+      if (t >= 2) cur.fill(Infinity, lo(t - 2), hi(t - 2) + 1);
+      const first = lo(t);
+
+      for (let s = first; s <= hi(t); s++) {
+        const u = stateUnit[s];
+        let best = Infinity;
+        let from = -1;
+
+        if (s === lastState(u) && prev[s] + this.params.loopPenalty < best) {
+          best = prev[s] + this.params.loopPenalty;
+          from = s;
+        }
+        if (s > 0 && prev[s - 1] < best) {
+          best = prev[s - 1];
+          from = s - 1;
+        }
+        // Skip an optional pause between two phonemes
+        if (s === units[u].firstState && u >= 2 && units[u - 1].optional) {
+          const skipFrom = lastState(u - 2);
+          if (prev[skipFrom] < best) {
+            best = prev[skipFrom];
+            from = skipFrom;
+          }
+        }
+
+        cur[s] = from < 0 ? Infinity : best + cost(t, s);
+        back[t * width + s - first] = from;
+      }
+      [prev, cur] = [cur, prev];
+    }
+
+    // End in the trailing silence or, when it's skipped, the last phoneme
+    const endA = stateCount - 1;
+    const endB = lastState(units.length - 2);
+    if (prev[endA] === Infinity && prev[endB] === Infinity && width < stateCount) {
+      return this.viterbi(features, units, stateCount, bandFrames * 2);
+    }
+    let state = prev[endA] <= prev[endB] ? endA : endB;
+
+    const path = new Array<number>(frameCount);
+    for (let t = frameCount - 1; t >= 0; t--) {
+      path[t] = state;
+      if (t > 0) state = back[t * width + state - lo(t)];
+    }
+    return path.map(s => stateUnit[s]);
+  }
+
+  /**
+   * Collapse the per-frame unit path into timings. Units the path skipped are left out.
+   */
+  private pathToTimings(path: number[], units: AlignmentUnit[], totalMs: number): PhonemeTiming[] {
+    const timings: PhonemeTiming[] = [];
+    let runStart = 0;
+
+    for (let t = 1; t <= path.length; t++) {
+      if (t < path.length && path[t] === path[runStart]) continue;
+      const startMs = runStart * this.params.hopMs;
+      const endMs = t === path.length ? totalMs : t * this.params.hopMs;
+      timings.push({
+        phoneme: units[path[runStart]].phoneme,
+        startMs,
+        durationMs: Math.max(0, endMs - startMs),
+      });
+      runStart = t;
+    }
+    return timings;
+  }
+
+  /**
+   * Fallback when the audio can't hold the transcript: scale default durations to fit
+   */
+  private proportionalTimings(units: AlignmentUnit[], totalMs: number): PhonemeTiming[] {
+    const expected = units.map(u => visemeMapper.getVisemeAndDuration(u.phoneme).duration);
+    const scale = totalMs / Math.max(1, expected.reduce((a, b) => a + b, 0));
+    let startMs = 0;
+    return units.map((unit, i) => {
+      const timing = { phoneme: unit.phoneme, startMs, durationMs: expected[i] * scale };
+      startMs += timing.durationMs;
+      return timing;
+    });
+  }
+}
+
+// Export singleton
+export const forcedAligner = new ForcedAligner();
+
+/**
+ * Decode a WAV file (PCM 8/16/24/32-bit or 32-bit float) into mono samples
+ */
+export function decodeWav(buffer: ArrayBuffer): AlignmentAudio {
+  const view = new DataView(buffer);
+  const tag = (offset: number) => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+  if (buffer.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format === 0xfffe && size >= 26) format = view.getUint16(body + 24, true); // WAVE_FORMAT_EXTENSIBLE
+    } else if (id === 'data') {
+      if (!channels) throw new Error('WAV data chunk before fmt chunk');
+      const bytes = bitsPerSample / 8;
+      const frameCount = Math.floor(Math.min(size, buffer.byteLength - body) / (bytes * channels));
+      const samples = new Float32Array(frameCount);
+      const read = (pos: number): number => {
+        if (format === 3 && bitsPerSample === 32) return view.getFloat32(pos, true);
+        if (format !== 1) throw new Error(`Unsupported WAV format ${format}`);
+        switch (bitsPerSample) {
+          case 8: return (view.getUint8(pos) - 128) / 128;
+          case 16: return view.getInt16(pos, true) / 32768;
+          case 24: return ((view.getUint8(pos + 2) << 24) | (view.getUint8(pos + 1) << 16) | (view.getUint8(pos) << 8)) / 2147483648;
+          case 32: return view.getInt32(pos, true) / 2147483648;
+          default: throw new Error(`Unsupported WAV bit depth ${bitsPerSample}`);
+        }
+      };
+      for (let i = 0; i < frameCount; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) sum += read(body + (i * channels + c) * bytes);
+        samples[i] = sum / channels;
+      }
+      return { samples, sampleRate };
+    }
+    offset = body + size + (size % 2); // chunks are word-aligned
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+/**
+ * Mix a Web Audio AudioBuffer down to mono samples
+ */
+export function audioBufferToAlignmentAudio(buffer: AudioBuffer): AlignmentAudio {
+  const samples = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) samples[i] += data[i] / buffer.numberOfChannels;
+  }
+  return { samples, sampleRate: buffer.sampleRate };
+}
+
+export interface AlignedVisemeSnippet extends VisemeSnippet {
+  snippetCategory: 'visemeSnippet';
+  snippetPriority: number;
+  snippetJawScale: number;
+  mixerChannel: string;
+}
+
+/**
+ * Build a viseme snippet from aligned phoneme timings (VisemeMapper + coarticulation model).
+ * Pauses are left out so the mouth rests between words.
+ */
+export function buildAlignedVisemeSnippet(
+  timings: PhonemeTiming[],
+  options: { name?: string; intensity?: number; jawScale?: number } = {}
+): AlignedVisemeSnippet {
+  const visemes = timings
+    .filter(t => t.phoneme !== 'sil' && !t.phoneme.startsWith('PAUSE'))
+    .map(t => ({
+      visemeId: visemeMapper.getViseme(t.phoneme),
+      offsetMs: t.startMs,
+      durationMs: t.durationMs,
+    }));
+
+  const curves = coarticulationModel.applyCoarticulation(visemes, 100 * (options.intensity ?? 1)) as Record<VisemeID, AnimationCurve[]>;
+  const last = timings[timings.length - 1];
+
+  return {
+    name: options.name ?? `aligned_${Date.now()}`,
+    curves,
+    maxTime: last ? (last.startMs + last.durationMs) / 1000 : 0,
+    loop: false,
+    snippetCategory: 'visemeSnippet',
+    snippetPriority: 50,
+    snippetPlaybackRate: 1.0,
+    snippetIntensityScale: 1.0,
+    snippetJawScale: options.jawScale ?? 1.0,
+    mixerChannel: 'mouth',
+  };
+}
@@ -6,6 +6,13 @@
 // Main service (XState-based)
 export { LipSyncService, createLipSyncService } from './lipSyncService';
 export type { LipSyncServiceAPI, LipSyncHostCaps } from './lipSyncService';
+export { createAudioLipSyncService, extractAudioFrameFeatures, classifyAudioViseme } from './audioLipSync';
+export type {
+  AudioLipSyncServiceAPI,
+  AudioLipSyncConfig,
+  AudioLipSyncSource,
+  AudioFrameFeatures,
+} from './audioLipSync';
 
 // Machine and Scheduler
 export { lipSyncMachine } from './lipSyncMachine';
@@ -16,6 +23,16 @@ export type { LipSyncSchedulerConfig } from './lipSyncScheduler';
 // Utilities
 export { VisemeMapper, visemeMapper } from './VisemeMapper';
 export { PhonemeExtractor, phonemeExtractor } from './PhonemeExtractor';
+export { PronunciationLexicon, pronunciationLexicon, parseCmuDictionary } from './pronunciationLexicon';
+export type { PronunciationLexiconConfig } from './pronunciationLexicon';
+export {
+  ForcedAligner,
+  forcedAligner,
+  decodeWav,
+  audioBufferToAlignmentAudio,
+  buildAlignedVisemeSnippet,
+} from './forcedAligner';
+export type { AlignmentAudio, ForcedAlignerParams, AlignedVisemeSnippet } from './forcedAligner';
 
 // Types
 export type {
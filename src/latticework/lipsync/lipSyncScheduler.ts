@@ -69,6 +69,7 @@ export class LipSyncScheduler {
       snippetPlaybackRate: this.config.speechRate,
       snippetIntensityScale: 1.0,
       snippetJawScale: this.config.jawScale, // Jaw bone activation multiplier
+      mixerChannel: 'mouth',
     };
 
     // Schedule to animation service
@@ -229,6 +230,7 @@ export class LipSyncScheduler {
       snippetPlaybackRate: 1.0,
       snippetIntensityScale: 1.0,
       snippetJawScale: this.config.jawScale, // Jaw bone activation multiplier
+      mixerChannel: 'mouth',
     };
 
     const scheduledName = this.host.scheduleSnippet(neutralSnippet);
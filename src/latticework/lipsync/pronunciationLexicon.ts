@@ -0,0 +1,200 @@
+/**
+ * Pronunciation Lexicon
+ * Word → ARPAbet pronunciation lookup for PhonemeExtractor
+ *
+ * Sources, highest priority first:
+ * 1. Runtime entries added with addPronunciation()
+ * 2. Project override file (public/lexicon/overrides.json) - brand names and other words
+ *    every language pronounces the same way (modules add their own language at runtime)
+ * 3. CMU-style dictionary (public/lexicon/cmudict.txt.gz), loaded lazily on first lookup
+ *
+ * Pronunciations keep their stress markers (AH0 / EY1 / OW2) so prosody can use them.
+ * Words not found return null and PhonemeExtractor falls back to its own rules.
+ */
+
+export interface PronunciationLexiconConfig {
+  dictionaryUrl: string; // gzip or plain text, one "WORD  P R AH0 N" entry per line
+  overridesUrl: string; // JSON: { "word": "P R AH0 N" | ["P", "R", "AH0", "N"] }
+  autoLoad: boolean; // Start loading on the first lookup
+}
+
+const DEFAULT_CONFIG: PronunciationLexiconConfig = {
+  dictionaryUrl: `${import.meta.env.BASE_URL}lexicon/cmudict.txt.gz`,
+  overridesUrl: `${import.meta.env.BASE_URL}lexicon/overrides.json`,
+  autoLoad: true,
+};
+
+/**
+ * Normalize a word for lookup: lowercase, NFC, curly apostrophes straightened
+ */
+function normalizeWord(word: string): string {
+  return word.normalize('NFC').toLowerCase().replace(/[\u2018\u2019]/g, "'").trim();
+}
+
+/**
+ * Remove accents so "tête" can fall back to an entry for "tete"
+ */
+function stripAccents(word: string): string {
+  return word.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function toPhonemes(pronunciation: string | string[]): string[] {
+  const list = Array.isArray(pronunciation) ? pronunciation : pronunciation.trim().split(/\s+/);
+  return list.filter(p => p.length > 0).map(p => p.toUpperCase());
+}
+
+/**
+ * Parse CMU dictionary text. Accepts both the classic format ("WORD  W ER1 D", ";;;" comments)
+ * and the cmudict.dict format ("word w er1 d # comment"). Alternate pronunciations "WORD(2)" are skipped.
+ */
+export function parseCmuDictionary(text: string): Map<string, string> {
+  const entries = new Map<string, string>();
+  for (const line of text.split('\n')) {
+    if (!line || line.startsWith(';;;')) continue;
+    const match = /^(\S+?)(\(\d+\))?\s+([^#]+)/.exec(line);
+    if (!match || match[2]) continue;
+    const word = normalizeWord(match[1]);
+    if (!entries.has(word)) entries.set(word, match[3].trim().toUpperCase());
+  }
+  return entries;
+}
+
+export class PronunciationLexicon {
+  private config: PronunciationLexiconConfig;
+  private runtime = new Map<string, string[]>();
+  private overrides = new Map<string, string[]>();
+  private dictionary = new Map<string, string>();
+  private loadPromise: Promise<void> | null = null;
+  private loaded = false;
+
+  constructor(config: Partial<PronunciationLexiconConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Update lexicon configuration (takes effect on the next load)
+   */
+  public configure(config: Partial<PronunciationLexiconConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Load the override file and the dictionary. Safe to call repeatedly; resolves when both are done.
+   * Missing files are logged and skipped - lookups then use runtime entries only.
+   */
+  public load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = Promise.all([this.loadOverrides(), this.loadDictionary()]).then(() => {
+        this.loaded = true;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Whether load() has finished
+   */
+  public isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Look up a word. Returns ARPAbet phonemes with stress markers, or null if unknown.
+   */
+  public lookup(word: string): string[] | null {
+    if (!this.loadPromise && this.config.autoLoad && typeof fetch !== 'undefined' && typeof window !== 'undefined') {
+      void this.load();
+    }
+
+    const key = normalizeWord(word);
+    const plain = stripAccents(key);
+    for (const candidate of plain === key ? [key] : [key, plain]) {
+      const found = this.runtime.get(candidate)
+        ?? this.overrides.get(candidate)
+        ?? this.dictionary.get(candidate)?.split(' ');
+      if (found) return [...found];
+    }
+    return null;
+  }
+
+  /**
+   * Add or replace a pronunciation at runtime (wins over the override file and dictionary)
+   * Phonemes can be an array or a space-separated string, with or without stress markers.
+   */
+  public addPronunciation(word: string, phonemes: string | string[]): void {
+    this.runtime.set(normalizeWord(word), toPhonemes(phonemes));
+  }
+
+  /**
+   * Remove a runtime pronunciation
+   */
+  public removePronunciation(word: string): void {
+    this.runtime.delete(normalizeWord(word));
+  }
+
+  /**
+   * Stress level per syllable (0 = unstressed, 1 = primary, 2 = secondary), or null if the word
+   * is unknown or its pronunciation has no stress markers
+   */
+  public getStress(word: string): number[] | null {
+    const phonemes = this.lookup(word);
+    if (!phonemes) return null;
+    const stress = phonemes
+      .map(p => /([012])$/.exec(p))
+      .filter((m): m is RegExpExecArray => m !== null)
+      .map(m => Number(m[1]));
+    return stress.length > 0 ? stress : null;
+  }
+
+  /**
+   * Number of dictionary entries currently loaded (for debugging)
+   */
+  public getDictionarySize(): number {
+    return this.dictionary.size;
+  }
+
+  private async loadOverrides(): Promise<void> {
+    try {
+      const response = await fetch(this.config.overridesUrl);
+      if (!response.ok) return;
+      const data = (await response.json()) as Record<string, string | string[]>;
+      for (const [word, phonemes] of Object.entries(data)) {
+        this.overrides.set(normalizeWord(word), toPhonemes(phonemes));
+      }
+    } catch (error) {
+      console.warn('[PronunciationLexicon] Could not load overrides:', error);
+    }
+  }
+
+  private async loadDictionary(): Promise<void> {
+    try {
+      const response = await fetch(this.config.dictionaryUrl);
+      if (!response.ok) {
+        console.warn(`[PronunciationLexicon] Dictionary not found at ${this.config.dictionaryUrl} - using letter rules`);
+        return;
+      }
+      this.dictionary = parseCmuDictionary(await decodeMaybeGzip(await response.arrayBuffer()));
+      console.log(`[PronunciationLexicon] Loaded ${this.dictionary.size} pronunciations`);
+    } catch (error) {
+      console.warn('[PronunciationLexicon] Could not load dictionary:', error);
+    }
+  }
+}
+
+/**
+ * Decode text that may be gzip-compressed. Servers that send Content-Encoding: gzip hand over
+ * plain bytes already, so check the magic number instead of trusting the file extension.
+ */
+async function decodeMaybeGzip(buffer: ArrayBuffer): Promise<string> {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] !== 0x1f || bytes[1] !== 0x8b) {
+    return new TextDecoder().decode(bytes);
+  }
+  const gunzip = new DecompressionStream('gzip');
+  const writer = gunzip.writable.getWriter();
+  writer.write(bytes).then(() => writer.close()).catch(() => {}); // errors surface on the read side
+  return await new Response(gunzip.readable).text();
+}
+
+// Export singleton instance
+export const pronunciationLexicon = new PronunciationLexicon();
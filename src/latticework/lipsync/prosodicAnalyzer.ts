@@ -4,6 +4,8 @@
  * Generates appropriate facial gestures for natural speech expression
  */
 
+import { pronunciationLexicon } from './pronunciationLexicon';
+
 export interface ProsodicFeatures {
   emphasisWords: number[]; // Indices of words to emphasize
   questionIntonation: boolean; // Rising intonation at end
@@ -261,9 +263,22 @@ export class ProsodicAnalyzer {
   }
 
   /**
-   * Analyze word stress pattern (basic syllable-based heuristic)
+   * Analyze word stress pattern
+   * Uses lexicon stress markers when the word is known, else a basic syllable-based heuristic
    */
   public analyzeStress(word: string): StressPattern {
+    const lexiconStress = pronunciationLexicon.getStress(word);
+    if (lexiconStress) {
+      const primary = lexiconStress.indexOf(1);
+      return {
+        syllableCount: lexiconStress.length,
+        stressedSyllables: lexiconStress
+          .map((level, idx) => (level > 0 ? idx : -1))
+          .filter(idx => idx >= 0),
+        primaryStress: primary >= 0 ? primary : Math.max(0, lexiconStress.indexOf(2)),
+      };
+    }
+
     const syllables = this.countSyllables(word);
     const stressedSyllables: number[] = [];
 
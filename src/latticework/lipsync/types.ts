@@ -26,7 +26,7 @@ export interface VisemeSnippet {
 }
 
 export interface LipSyncConfig {
-  engine?: 'webSpeech' | 'sapi';
+  engine?: 'webSpeech' | 'sapi' | 'local';
   onsetIntensity?: number; // 0-100, default: 90
   holdMs?: number; // Hold duration for WebSpeech, default: 140ms
   speechRate?: number; // 0.1-10.0, default: 1.0
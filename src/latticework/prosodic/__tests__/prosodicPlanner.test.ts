@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { planProsodicGestures, estimateWordTimings } from '../prosodicPlanner';
+import { pronunciationLexicon } from '../../lipsync/pronunciationLexicon';
+import type { WordTiming } from '../types';
+
+/**
+ * Tests for planning beats, question raises and head shakes over word timings.
+ *
+ * Words are 400 ms apart unless a test says otherwise. Stress comes from runtime
+ * pronunciations, so beat apexes don't depend on the CMU dictionary being loaded.
+ */
+describe('planProsodicGestures', () => {
+  /** Timings for each whitespace token, `step` ms apart and `step` ms long */
+  const timed = (text: string, step = 400): WordTiming[] =>
+    text.split(/\s+/).map((word, i) => ({ word, offsetMs: i * step, durMs: step }));
+
+  const plan = (text: string, options = {}) => planProsodicGestures(text, { wordTimings: timed(text), ...options });
+  const ofKind = (text: string, kind: string, options = {}) => plan(text, options).gestures.filter(g => g.kind === kind);
+
+  beforeAll(() => {
+    pronunciationLexicon.addPronunciation('absolutely', 'AE2 B S AH0 L UW1 T L IY0');
+    pronunciationLexicon.addPronunciation('elephants', 'EH1 L AH0 F AH0 N T S');
+  });
+
+  describe('Beats', () => {
+    it('should peak on the primary stressed syllable', () => {
+      // "absolutely" spans 800-1200 ms; stress on syllable 3 of 4: 800 + 400 * 2.5 / 4
+      const [beat] = ofKind('I am absolutely sure.', 'beat').filter(g => g.word === 'absolutely');
+      expect(beat.apexMs).toBe(1050);
+      expect(beat.startMs).toBe(1050 - 140);
+      expect(beat.endMs).toBe(1050 + 260);
+      expect(beat.wordIndex).toBe(2);
+    });
+
+    it('should peak early for a word stressed on its first syllable', () => {
+      // "elephants" spans 800-1200 ms; stress on syllable 1 of 3
+      const [beat] = ofKind('I saw elephants there.', 'beat').filter(g => g.word === 'elephants');
+      expect(beat.apexMs).toBeCloseTo(800 + 400 * 0.5 / 3);
+    });
+
+    it('should nod and flash the brows on a beat', () => {
+      const [beat] = ofKind('I am absolutely sure.', 'beat').filter(g => g.word === 'absolutely');
+      expect(Object.keys(beat.curves).sort()).toEqual(['1', '2', '54']);
+      expect(beat.curves['54'].map(k => k.intensity)).toEqual([0, 0.22, 0]);
+      expect(beat.curves['54'][1].time).toBe(1.05);
+    });
+
+    it('should drop beats closer than minBeatGapMs to the previous one', () => {
+      // Emphasized: "very", "really", "extremely", each 200 ms apart
+      const text = 'very really extremely';
+      const wordTimings = timed(text, 200);
+      const all = planProsodicGestures(text, { wordTimings, minBeatGapMs: 0 }).gestures.filter(g => g.kind === 'beat');
+      const spaced = planProsodicGestures(text, { wordTimings, minBeatGapMs: 350 }).gestures.filter(g => g.kind === 'beat');
+
+      expect(all.map(g => g.word)).toEqual(['very', 'really', 'extremely']);
+      expect(spaced.map(g => g.word)).toEqual(['very', 'extremely']);
+    });
+
+    it('should space beats across sentences too', () => {
+      const text = 'Absolutely. Absolutely.';
+      const wordTimings = [{ word: 'Absolutely.', offsetMs: 0, durMs: 400 }, { word: 'Absolutely.', offsetMs: 400, durMs: 400 }];
+      const beats = planProsodicGestures(text, { wordTimings, minBeatGapMs: 1000 }).gestures.filter(g => g.kind === 'beat');
+      expect(beats).toHaveLength(1);
+    });
+
+    it('should boost beats in exclamations', () => {
+      const [calm] = ofKind('I am absolutely sure.', 'beat').filter(g => g.word === 'absolutely');
+      const [excited] = ofKind('I am absolutely sure!', 'beat').filter(g => g.word === 'absolutely');
+      expect(calm.intensity).toBe(1);
+      expect(excited.intensity).toBeCloseTo(1.3);
+    });
+  });
+
+  describe('Questions', () => {
+    it('should raise the brows from two words before the end of a question', () => {
+      const [question] = ofKind('Are you coming home?', 'question');
+      expect(question.word).toBe('coming');
+      expect(question.wordIndex).toBe(2);
+      expect(question.startMs).toBe(800);
+      // Held to the end of the last word, then released
+      expect(question.curves['1'].map(k => k.time)).toEqual([0.8, 1.05, 1.6, 1.95]);
+      expect(Object.keys(question.curves).sort()).toEqual(['1', '2', '55']);
+    });
+
+    it('should find questions by their question mark alone', () => {
+      expect(ofKind('You are coming?', 'question')).toHaveLength(1);
+    });
+
+    it('should not treat statements that start like questions as questions', () => {
+      expect(ofKind('How nice that is.', 'question')).toHaveLength(0);
+      expect(ofKind('Is that so!', 'question')).toHaveLength(0);
+    });
+
+    it('should plan each sentence on its own', () => {
+      const { gestures } = plan('I am here. Are you there?');
+      const question = gestures.filter(g => g.kind === 'question');
+      expect(question).toHaveLength(1);
+      expect(question[0].word).toBe('you');
+    });
+  });
+
+  describe('Negations', () => {
+    it('should shake the head on a negation instead of beating on it', () => {
+      const { gestures } = plan('I do not know.');
+      const shake = gestures.find(g => g.kind === 'shake')!;
+
+      expect(shake.word).toBe('not');
+      expect(shake.startMs).toBe(800);
+      expect(shake.endMs).toBe(800 + 3 * 220);
+      expect(gestures.some(g => g.kind === 'beat' && g.word === 'not')).toBe(false);
+    });
+
+    it('should alternate turns that get smaller', () => {
+      const [shake] = ofKind('Never.', 'shake');
+      const peaks = (au: string) => shake.curves[au].filter(k => k.intensity > 0).map(k => k.intensity);
+      expect(peaks('51')).toEqual([expect.closeTo(0.22), expect.closeTo(0.11)]);
+      expect(peaks('52')).toEqual([expect.closeTo(0.165)]);
+    });
+
+    it('should catch contracted negations', () => {
+      expect(ofKind("I don't know.", 'shake').map(g => g.word)).toEqual(["don't"]);
+      expect(ofKind('Nobody came.', 'shake').map(g => g.word)).toEqual(['Nobody']);
+    });
+
+    it('should not shake on words that merely contain "no"', () => {
+      expect(ofKind('I know nothing.', 'shake').map(g => g.word)).toEqual(['nothing']);
+      expect(ofKind('Notice the snow.', 'shake')).toHaveLength(0);
+    });
+  });
+
+  describe('Word timings', () => {
+    it('should estimate timings when the counts don\'t match', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const text = 'I am absolutely sure.';
+      const mismatched = planProsodicGestures(text, { wordTimings: [{ word: 'I', offsetMs: 5000 }] });
+      const estimated = planProsodicGestures(text);
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('1 word timings for 4 words'));
+      expect(mismatched.gestures).toEqual(estimated.gestures);
+      expect(mismatched.durationMs).toBe(estimated.durationMs);
+      warn.mockRestore();
+    });
+
+    it('should estimate from the Web Speech timeline without timings', () => {
+      const timings = estimateWordTimings('I am absolutely sure.');
+      expect(timings.map(t => t.word)).toEqual(['I', 'am', 'absolutely', 'sure.']);
+      const [beat] = planProsodicGestures('I am absolutely sure.').gestures.filter(g => g.word === 'absolutely');
+      expect(beat.apexMs).toBeGreaterThan(timings[2].offsetMs);
+      expect(beat.apexMs).toBeLessThan(timings[3].offsetMs);
+    });
+
+    it('should fall back to the next word\'s offset when durations are missing', () => {
+      const text = 'I am absolutely sure.';
+      const wordTimings = timed(text).map(({ word, offsetMs }) => ({ word, offsetMs }));
+      const [beat] = planProsodicGestures(text, { wordTimings }).gestures.filter(g => g.word === 'absolutely');
+      expect(beat.apexMs).toBe(1050);
+    });
+
+    it('should plan nothing for empty text', () => {
+      expect(planProsodicGestures('   ')).toEqual({ text: '   ', gestures: [], curves: {}, durationMs: 0 });
+    });
+  });
+
+  describe('Merged curves', () => {
+    it('should merge gestures per AU, starting at time 0', () => {
+      const { curves, gestures, durationMs } = plan('I do not know.');
+      expect(curves['51'][0]).toEqual({ time: 0, intensity: 0 });
+      expect(Math.max(...curves['51'].map(k => k.intensity))).toBeCloseTo(0.22);
+      expect(durationMs).toBe(Math.max(1600, ...gestures.map(g => g.endMs)));
+    });
+
+    it('should scale every gesture by intensity', () => {
+      const [shake] = ofKind('Never.', 'shake', { intensity: 0.5 });
+      expect(Math.max(...shake.curves['51'].map(k => k.intensity))).toBeCloseTo(0.11);
+    });
+  });
+});
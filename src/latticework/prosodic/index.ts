@@ -6,6 +6,7 @@
 export { prosodicMachine } from './prosodicMachine';
 export { ProsodicScheduler } from './prosodicScheduler';
 export { createProsodicService, ProsodicService } from './prosodicService';
+export { planProsodicGestures, planGesture, estimateWordTimings } from './prosodicPlanner';
 export type { ProsodicServiceAPI } from './prosodicService';
 export type { ProsodicSnippet } from './prosodicMachine';
 export type {
@@ -16,5 +17,10 @@ export type {
   AnimationSnippet,
   AnimationCurve,
   FadeStep,
+  WordTiming,
+  PlannedGesture,
+  PlannedGestureKind,
+  ProsodicPlan,
+  ProsodicPlanOptions,
 } from './types';
 export { DEFAULT_PROSODIC_CONFIG, DEFAULT_ANIMATION_KEYS } from './types';
@@ -5,6 +5,7 @@
  */
 
 import { createMachine, assign } from 'xstate';
+import type { ProsodicPlan } from './types';
 
 // ---------- Types ----------
 
@@ -26,6 +27,10 @@ export interface ProsodicContext {
   browSnippet: ProsodicSnippet | null;
   headSnippet: ProsodicSnippet | null;
   isSpeaking: boolean;
+  /** Planned gesture timeline for the next utterance (replaces the loops when present) */
+  plan: ProsodicPlan | null;
+  /** Plan currently scheduled */
+  activePlan: ProsodicPlan | null;
   fadeInProgress: {
     brow: boolean;
     head: boolean;
@@ -42,7 +47,10 @@ export type ProsodicEvent =
   | { type: 'FADE_HEAD_COMPLETE' }
   | { type: 'SET_BROW_INTENSITY'; intensity: number }
   | { type: 'SET_HEAD_INTENSITY'; intensity: number }
-  | { type: 'STOP_IMMEDIATE' };
+  | { type: 'STOP_IMMEDIATE' }
+  | { type: 'LOAD_PLAN'; plan: ProsodicPlan }
+  | { type: 'PLAN_SCHEDULED' }
+  | { type: 'PLAN_COMPLETE' };
 
 // ---------- Helper Functions ----------
 
@@ -104,12 +112,20 @@ export const prosodicMachine = createMachine({
     browSnippet: null,
     headSnippet: null,
     isSpeaking: false,
+    plan: null,
+    activePlan: null,
     fadeInProgress: {
       brow: false,
       head: false,
     },
   },
 
+  on: {
+    LOAD_PLAN: { actions: 'loadPlan' },
+    PLAN_SCHEDULED: { actions: 'markPlanScheduled' },
+    PLAN_COMPLETE: { actions: 'markPlanComplete' },
+  },
+
   states: {
     idle: {
       on: {
@@ -172,7 +188,27 @@ export const prosodicMachine = createMachine({
       return { headSnippet: snippet };
     }),
 
+    loadPlan: assign(({ event }) => {
+      if (event.type !== 'LOAD_PLAN') return {};
+      return { plan: event.plan };
+    }),
+
+    markPlanScheduled: assign(({ context }) => ({
+      plan: null,
+      activePlan: context.plan,
+    })),
+
+    markPlanComplete: assign(() => ({ activePlan: null })),
+
     activateBothChannels: assign(({ context }) => {
+      // A planned utterance drives the gestures itself; the loops stay off
+      if (context.plan) {
+        return {
+          isSpeaking: true,
+          fadeInProgress: { brow: false, head: false },
+        };
+      }
+
       const now = typeof performance !== 'undefined' ? performance.now() : Date.now();
       const browSnippet = context.browSnippet ? {
         ...context.browSnippet,
@@ -198,9 +234,13 @@ export const prosodicMachine = createMachine({
       };
     }),
 
-    markFadingStart: assign(() => ({
+    markFadingStart: assign(({ context }) => ({
       isSpeaking: false,
-      fadeInProgress: { brow: true, head: true },
+      // Only playing loops fade; a plan runs out on its own
+      fadeInProgress: {
+        brow: !!context.browSnippet?.isPlaying,
+        head: !!context.headSnippet?.isPlaying,
+      },
     })),
 
     markBrowFadeComplete: assign(({ context }) => ({
@@ -268,6 +308,8 @@ export const prosodicMachine = createMachine({
       browSnippet: null,
       headSnippet: null,
       isSpeaking: false,
+      plan: null,
+      activePlan: null,
       fadeInProgress: { brow: false, head: false },
     })),
   },
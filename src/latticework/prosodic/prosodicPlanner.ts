@@ -0,0 +1,322 @@
+/**
+ * Prosodic Gesture Planner
+ * Turns ProsodicAnalyzer output into a gesture timeline aligned to word timings
+ *
+ * Each sentence is analyzed on its own:
+ * - Emphasized words get a beat (small nod + brow flash) peaking on the stressed syllable
+ * - Questions get a brow raise + head tilt held over the last words
+ * - Negations get a head shake
+ *
+ * The gestures are merged into one set of curves so the whole utterance can be scheduled
+ * as a single timeline snippet.
+ */
+
+import { ProsodicAnalyzer } from '../lipsync/prosodicAnalyzer';
+import { buildLocalTimeline, parseTokens } from '../tts/utils';
+import type { WordTimelineItem } from '../tts/types';
+import type {
+  AnimationCurve,
+  PlannedGesture,
+  PlannedGestureKind,
+  ProsodicPlan,
+  ProsodicPlanOptions,
+  WordTiming,
+} from './types';
+
+const analyzer = new ProsodicAnalyzer();
+
+const NEGATION = /^(not|never|no|nothing|nobody|nowhere|none|neither|nor)$|n't$/;
+const PUNCTUATION = /[.,!?;:]/g;
+const SENTENCE_END = /[.!?]["')\]]*$/;
+
+/** Small nod (AU54) + brow flash (AU1/AU2) around the stressed syllable */
+const BEAT = { attackMs: 140, releaseMs: 260, nod: 0.22, brow: 0.18 };
+/** Brow raise + tilt (AU55) from `leadWords` before the end of a question */
+const QUESTION = { leadWords: 2, attackMs: 250, releaseMs: 350, brow: 0.35, tilt: 0.2 };
+/** Alternating turns (AU51/AU52), each swing smaller than the last */
+const SHAKE = { swingMs: 220, swings: 3, turn: 0.22 };
+/** Deliberate nod (AU54), deeper and slower than a beat */
+const NOD = { attackMs: 220, releaseMs: 380, nod: 0.4 };
+/** Span of a gesture played on its own (a question raise is held this long) */
+const SINGLE_GESTURE_MS = 600;
+
+const DEFAULT_MIN_BEAT_GAP_MS = 350;
+const EXCLAMATION_BOOST = 1.3;
+
+interface PlanWord {
+  word: string;
+  startMs: number;
+  durMs: number;
+  sentence: number;
+}
+
+/**
+ * Word timings for text spoken through the Web Speech path (same estimate as the TTS timeline)
+ */
+export function estimateWordTimings(text: string, rate = 1.0): WordTiming[] {
+  return buildLocalTimeline(text, [], rate)
+    .filter((e): e is WordTimelineItem => e.type === 'WORD')
+    .map(e => ({ word: e.word, offsetMs: e.offsetMs }));
+}
+
+/**
+ * Plan the prosodic gestures for an utterance
+ */
+export function planProsodicGestures(text: string, options: ProsodicPlanOptions = {}): ProsodicPlan {
+  const rate = options.rate ?? 1.0;
+  const scale = options.intensity ?? 1.0;
+  const minBeatGapMs = options.minBeatGapMs ?? DEFAULT_MIN_BEAT_GAP_MS;
+
+  const clean = parseTokens(text).text;
+  const tokens = clean.split(/\s+/).filter(t => t.length > 0);
+  if (tokens.length === 0) {
+    return { text, gestures: [], curves: {}, durationMs: 0 };
+  }
+
+  let timings = options.wordTimings;
+  if (!timings || timings.length !== tokens.length) {
+    if (timings) {
+      console.warn(`[ProsodicPlanner] ${timings.length} word timings for ${tokens.length} words, estimating instead`);
+    }
+    timings = estimateWordTimings(clean, rate);
+  }
+
+  // Sentence index of every token
+  const sentenceOf: number[] = [0];
+  for (let i = 1; i < tokens.length; i++) {
+    sentenceOf.push(sentenceOf[i - 1] + (SENTENCE_END.test(tokens[i - 1]) ? 1 : 0));
+  }
+
+  const words = splitWords(tokens, sentenceOf, timings, rate);
+  const gestures: PlannedGesture[] = [];
+  let lastBeatMs = -Infinity;
+
+  const sentenceCount = sentenceOf[sentenceOf.length - 1] + 1;
+  for (let s = 0; s < sentenceCount; s++) {
+    const first = words.findIndex(w => w.sentence === s);
+    const sentenceWords = words.filter(w => w.sentence === s);
+    if (sentenceWords.length === 0) continue;
+
+    const sentenceText = tokens.filter((_, i) => sentenceOf[i] === s).join(' ');
+    const features = analyzer.analyze(sentenceText);
+    const boost = features.exclamationEmphasis ? EXCLAMATION_BOOST : 1;
+
+    sentenceWords.forEach((w, i) => {
+      if (NEGATION.test(w.word.toLowerCase())) {
+        gestures.push(shakeGesture(first + i, w, scale));
+      }
+    });
+
+    for (const i of features.emphasisWords) {
+      const w = sentenceWords[i];
+      if (!w || NEGATION.test(w.word.toLowerCase())) continue;
+      const stress = analyzer.analyzeStress(w.word.toLowerCase());
+      const apexMs = w.startMs + (w.durMs * (stress.primaryStress + 0.5)) / Math.max(1, stress.syllableCount);
+      if (apexMs - lastBeatMs < minBeatGapMs) continue;
+      lastBeatMs = apexMs;
+      gestures.push(beatGesture(first + i, w, apexMs, scale * boost));
+    }
+
+    // The analyzer also flags sentences that merely start like questions; trust explicit . or !
+    if (features.questionIntonation && !/[.!]["')\]]*$/.test(sentenceText)) {
+      const lead = Math.max(0, sentenceWords.length - QUESTION.leadWords);
+      const last = sentenceWords[sentenceWords.length - 1];
+      gestures.push(questionGesture(first + lead, sentenceWords[lead], last.startMs + last.durMs, scale));
+    }
+  }
+
+  gestures.sort((a, b) => a.startMs - b.startMs);
+  const lastWord = words[words.length - 1];
+  const durationMs = Math.max(lastWord.startMs + lastWord.durMs, ...gestures.map(g => g.endMs));
+
+  return { text, gestures, curves: mergeGestureCurves(gestures), durationMs };
+}
+
+/**
+ * One gesture starting now, outside any plan (wordIndex -1), e.g. for a markup tag
+ */
+export function planGesture(kind: PlannedGestureKind, intensity = 1.0): PlannedGesture {
+  const w: PlanWord = { word: '', startMs: 0, durMs: SINGLE_GESTURE_MS, sentence: 0 };
+  switch (kind) {
+    case 'beat':
+      return beatGesture(-1, w, BEAT.attackMs, intensity);
+    case 'question':
+      return questionGesture(-1, w, SINGLE_GESTURE_MS, intensity);
+    case 'shake':
+      return shakeGesture(-1, w, intensity);
+    case 'nod':
+      return nodGesture(-1, w, intensity);
+  }
+}
+
+/**
+ * Split whitespace tokens into analyzer words (punctuation can join two words),
+ * sharing each token's time span by length
+ */
+function splitWords(tokens: string[], sentenceOf: number[], timings: WordTiming[], rate: number): PlanWord[] {
+  const words: PlanWord[] = [];
+
+  tokens.forEach((token, i) => {
+    const startMs = timings[i].offsetMs;
+    const durMs = timings[i].durMs
+      ?? (i + 1 < timings.length ? timings[i + 1].offsetMs - startMs : (token.length * 100) / rate);
+    const parts = token.replace(PUNCTUATION, ' ').split(/\s+/).filter(p => p.length > 0);
+    const totalChars = parts.reduce((sum, p) => sum + p.length, 0);
+
+    let offset = startMs;
+    for (const part of parts) {
+      const partMs = (durMs * part.length) / totalChars;
+      words.push({ word: part, startMs: offset, durMs: partMs, sentence: sentenceOf[i] });
+      offset += partMs;
+    }
+  });
+
+  return words;
+}
+
+function beatGesture(wordIndex: number, w: PlanWord, apexMs: number, scale: number): PlannedGesture {
+  const startMs = Math.max(0, apexMs - BEAT.attackMs);
+  const endMs = apexMs + BEAT.releaseMs;
+  const pulse = (peak: number) => [
+    { time: startMs / 1000, intensity: 0 },
+    { time: apexMs / 1000, intensity: peak },
+    { time: endMs / 1000, intensity: 0 },
+  ];
+
+  return {
+    kind: 'beat',
+    wordIndex,
+    word: w.word,
+    startMs,
+    apexMs,
+    endMs,
+    intensity: scale,
+    curves: {
+      '54': pulse(BEAT.nod * scale),
+      '1': pulse(BEAT.brow * scale),
+      '2': pulse(BEAT.brow * 0.8 * scale),
+    },
+  };
+}
+
+function nodGesture(wordIndex: number, w: PlanWord, scale: number): PlannedGesture {
+  const startMs = w.startMs;
+  const apexMs = startMs + NOD.attackMs;
+  const endMs = apexMs + NOD.releaseMs;
+
+  return {
+    kind: 'nod',
+    wordIndex,
+    word: w.word,
+    startMs,
+    apexMs,
+    endMs,
+    intensity: scale,
+    curves: {
+      '54': [
+        { time: startMs / 1000, intensity: 0 },
+        { time: apexMs / 1000, intensity: NOD.nod * scale },
+        { time: endMs / 1000, intensity: 0 },
+      ],
+    },
+  };
+}
+
+function questionGesture(wordIndex: number, w: PlanWord, holdUntilMs: number, scale: number): PlannedGesture {
+  const startMs = w.startMs;
+  const apexMs = startMs + QUESTION.attackMs;
+  const holdMs = Math.max(apexMs, holdUntilMs);
+  const endMs = holdMs + QUESTION.releaseMs;
+  const hold = (peak: number) => [
+    { time: startMs / 1000, intensity: 0 },
+    { time: apexMs / 1000, intensity: peak },
+    { time: holdMs / 1000, intensity: peak },
+    { time: endMs / 1000, intensity: 0 },
+  ];
+
+  return {
+    kind: 'question',
+    wordIndex,
+    word: w.word,
+    startMs,
+    apexMs,
+    endMs,
+    intensity: scale,
+    curves: {
+      '1': hold(QUESTION.brow * scale),
+      '2': hold(QUESTION.brow * scale),
+      '55': hold(QUESTION.tilt * scale),
+    },
+  };
+}
+
+function shakeGesture(wordIndex: number, w: PlanWord, scale: number): PlannedGesture {
+  const startMs = w.startMs;
+  const curves: Record<string, AnimationCurve[]> = { '51': [], '52': [] };
+
+  for (let i = 0; i < SHAKE.swings; i++) {
+    const au = i % 2 === 0 ? '51' : '52';
+    const peakMs = startMs + (i + 0.5) * SHAKE.swingMs;
+    const amplitude = SHAKE.turn * (1 - i * 0.25) * scale;
+    curves[au].push(
+      { time: (peakMs - SHAKE.swingMs / 2) / 1000, intensity: 0 },
+      { time: peakMs / 1000, intensity: amplitude },
+      { time: (peakMs + SHAKE.swingMs / 2) / 1000, intensity: 0 },
+    );
+  }
+
+  return {
+    kind: 'shake',
+    wordIndex,
+    word: w.word,
+    startMs,
+    apexMs: startMs + SHAKE.swingMs / 2,
+    endMs: startMs + SHAKE.swings * SHAKE.swingMs,
+    intensity: scale,
+    curves,
+  };
+}
+
+/**
+ * Merge gesture curves per AU, taking the strongest gesture wherever they overlap
+ */
+function mergeGestureCurves(gestures: PlannedGesture[]): Record<string, AnimationCurve[]> {
+  const byAU = new Map<string, AnimationCurve[][]>();
+  for (const g of gestures) {
+    for (const [au, curve] of Object.entries(g.curves)) {
+      if (curve.length === 0) continue;
+      if (!byAU.has(au)) byAU.set(au, []);
+      byAU.get(au)!.push(curve);
+    }
+  }
+
+  const merged: Record<string, AnimationCurve[]> = {};
+  for (const [au, curves] of byAU) {
+    const times = [...new Set(curves.flatMap(c => c.map(k => round(k.time))))].sort((a, b) => a - b);
+    const keys = times.map(time => ({
+      time,
+      intensity: round(Math.max(...curves.map(c => sampleCurve(c, time)))),
+    }));
+    if (keys[0].time > 0) keys.unshift({ time: 0, intensity: 0 });
+    merged[au] = keys;
+  }
+  return merged;
+}
+
+/**
+ * Linear sample of a gesture curve; zero outside its span
+ */
+function sampleCurve(curve: AnimationCurve[], time: number): number {
+  if (time < curve[0].time || time > curve[curve.length - 1].time) return 0;
+  for (let i = 1; i < curve.length; i++) {
+    const a = curve[i - 1];
+    const b = curve[i];
+    if (time <= b.time) {
+      const span = b.time - a.time;
+      return span > 0 ? a.intensity + ((b.intensity - a.intensity) * (time - a.time)) / span : b.intensity;
+    }
+  }
+  return curve[curve.length - 1].intensity;
+}
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
@@ -5,6 +5,10 @@
  */
 
 import type { ProsodicSnippet } from './prosodicMachine';
+import type { PlannedGesture, ProsodicPlan } from './types';
+
+const PLAN_SNIPPET_NAME = 'prosodic:plan';
+const GESTURE_SNIPPET_PREFIX = 'prosodic:gesture';
 
 export interface ProsodicHostCaps {
   scheduleSnippet: (snippet: any) => string | null;
@@ -27,8 +31,18 @@ export class ProsodicScheduler {
   private scheduledNames = {
     brow: null as string | null,
     head: null as string | null,
+    plan: null as string | null,
   };
 
+  // Plan settings and end-of-plan cleanup
+  private planPriority = 5;
+  private planIntensity = 1.0;
+  private planTimer: number | null = null;
+
+  // One-off gestures (snippet name by removal timer)
+  private gestureTimers = new Map<number, string>();
+  private gestureCounter = 0;
+
   constructor(machine: any, host: ProsodicHostCaps, fadeSteps = 4, fadeStepInterval = 120) {
     this.machine = machine;
     this.host = host;
@@ -40,12 +54,18 @@ export class ProsodicScheduler {
    * Start the scheduler (called when speaking starts)
    */
   public start(): void {
+    const snapshot = this.machine.getSnapshot();
+    const context = snapshot?.context;
+
+    // A planned utterance is scheduled even mid-speech (the next sentence's plan)
+    if (context?.plan) {
+      this.schedulePlan(context.plan);
+    }
+
     if (this.playing) return;
     this.playing = true;
 
     // Schedule brow and head snippets
-    const snapshot = this.machine.getSnapshot();
-    const context = snapshot?.context;
 
     if (context?.browSnippet && context.browSnippet.isPlaying) {
       this.scheduleSnippet(context.browSnippet);
@@ -83,10 +103,97 @@ export class ProsodicScheduler {
       this.scheduledNames.head = null;
     }
 
+    this.clearPlan();
+    this.clearGestures();
+
     // Clear all fade timers
     this.clearAllFadeTimers();
   }
 
+  /**
+   * Schedule a gesture plan as one timeline snippet, replacing any plan still playing
+   */
+  private schedulePlan(plan: ProsodicPlan): void {
+    this.clearPlan();
+    this.machine.send({ type: 'PLAN_SCHEDULED' });
+    if (Object.keys(plan.curves).length === 0) return;
+
+    const scheduledName = this.host.scheduleSnippet({
+      name: PLAN_SNIPPET_NAME,
+      curves: plan.curves,
+      maxTime: plan.durationMs / 1000,
+      loop: false,
+      snippetCategory: 'prosodic',
+      snippetPriority: this.planPriority,
+      snippetPlaybackRate: 1,
+      snippetIntensityScale: this.planIntensity,
+      snippetBlendMode: 'additive' as const,
+      // Own additive layer on top, so brows add to emotion and nods add to head tracking
+      mixerChannel: 'prosodic',
+      mixerBlendMode: 'additive' as const,
+    });
+    if (!scheduledName) return;
+
+    this.scheduledNames.plan = scheduledName;
+    this.planTimer = window.setTimeout(() => {
+      this.planTimer = null;
+      this.host.removeSnippet(scheduledName);
+      this.scheduledNames.plan = null;
+      this.machine.send({ type: 'PLAN_COMPLETE' });
+    }, plan.durationMs + 100);
+  }
+
+  /**
+   * Play one gesture now on the prosodic layer, alongside any plan
+   */
+  public playGesture(gesture: PlannedGesture, intensity = 1.0): void {
+    const scheduledName = this.host.scheduleSnippet({
+      name: `${GESTURE_SNIPPET_PREFIX}:${++this.gestureCounter}`,
+      curves: gesture.curves,
+      maxTime: gesture.endMs / 1000,
+      loop: false,
+      snippetCategory: 'prosodic',
+      snippetPriority: this.planPriority,
+      snippetPlaybackRate: 1,
+      snippetIntensityScale: intensity,
+      snippetBlendMode: 'additive' as const,
+      mixerChannel: 'prosodic',
+      mixerBlendMode: 'additive' as const,
+    });
+    if (!scheduledName) return;
+
+    const timer = window.setTimeout(() => {
+      this.gestureTimers.delete(timer);
+      this.host.removeSnippet(scheduledName);
+    }, gesture.endMs + 100);
+    this.gestureTimers.set(timer, scheduledName);
+  }
+
+  /**
+   * Remove one-off gestures still playing
+   */
+  private clearGestures(): void {
+    for (const [timer, name] of this.gestureTimers) {
+      clearTimeout(timer);
+      this.host.removeSnippet(name);
+    }
+    this.gestureTimers.clear();
+  }
+
+  /**
+   * Remove the scheduled plan (if any)
+   */
+  private clearPlan(): void {
+    if (this.planTimer !== null) {
+      clearTimeout(this.planTimer);
+      this.planTimer = null;
+    }
+    if (this.scheduledNames.plan) {
+      this.host.removeSnippet(this.scheduledNames.plan);
+      this.scheduledNames.plan = null;
+    }
+  }
+
   /**
    * Schedule a snippet to the host (animation service)
    */
@@ -101,6 +208,7 @@ export class ProsodicScheduler {
       snippetPlaybackRate: snippet.playbackRate,
       snippetIntensityScale: snippet.intensityScale,
       snippetBlendMode: 'additive' as const,  // ✅ Use additive blending to combine with eye/head tracking
+      mixerChannel: snippet.category === 'head' ? 'head' : 'face',
     };
 
     const scheduledName = this.host.scheduleSnippet(animSnippet);
@@ -257,6 +365,14 @@ export class ProsodicScheduler {
     this.fadeStepInterval = intervalMs;
   }
 
+  /**
+   * Update planned timeline priority and intensity
+   */
+  public setPlanConfig(priority: number, intensity: number): void {
+    this.planPriority = priority;
+    this.planIntensity = intensity;
+  }
+
   /**
    * Cleanup
    */
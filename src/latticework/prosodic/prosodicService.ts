@@ -7,13 +7,23 @@
 import { createActor } from 'xstate';
 import { prosodicMachine } from './prosodicMachine';
 import { ProsodicScheduler } from './prosodicScheduler';
-import type { ProsodicConfig, ProsodicCallbacks, ProsodicState } from './types';
+import { planGesture, planProsodicGestures } from './prosodicPlanner';
+import type {
+  PlannedGestureKind,
+  ProsodicConfig,
+  ProsodicCallbacks,
+  ProsodicPlan,
+  ProsodicPlanOptions,
+  ProsodicState,
+} from './types';
 import { DEFAULT_PROSODIC_CONFIG } from './types';
 
 export interface ProsodicServiceAPI {
-  startTalking: () => void;
+  startTalking: (text?: string, options?: ProsodicPlanOptions) => void;
+  planUtterance: (text: string, options?: ProsodicPlanOptions) => ProsodicPlan;
   stopTalking: () => void;
   pulse: (wordIndex: number) => void;
+  gesture: (kind: PlannedGestureKind, intensity?: number) => void;
   stop: () => void;
   updateConfig: (config: Partial<ProsodicConfig>) => void;
   getState: () => ProsodicState;
@@ -69,6 +79,7 @@ export function createProsodicService(
     fullConfig.fadeSteps,
     fullConfig.fadeStepInterval
   );
+  scheduler.setPlanConfig(fullConfig.planPriority, fullConfig.defaultIntensity);
 
   // Load snippets from localStorage
   const loadSnippetFromStorage = (key: string): any | null => {
@@ -135,16 +146,31 @@ export function createProsodicService(
     }
   });
 
+  /**
+   * Plan gestures for the next utterance (played by the next startTalking)
+   */
+  const planUtterance = (text: string, options: ProsodicPlanOptions = {}): ProsodicPlan => {
+    const plan = planProsodicGestures(text, options);
+    machine.send({ type: 'LOAD_PLAN', plan });
+    return plan;
+  };
+
   // Public API
   return {
     /**
-     * Start talking - activate brow and head loops
+     * Start talking - with the utterance text, play a gesture plan aligned to its words;
+     * without it, activate brow and head loops
      */
-    startTalking(): void {
+    startTalking(text?: string, options?: ProsodicPlanOptions): void {
+      if (text) {
+        planUtterance(text, options);
+      }
       machine.send({ type: 'START_SPEAKING' });
       scheduler.start();
     },
 
+    planUtterance,
+
     /**
      * Stop talking - gracefully fade out animations
      */
@@ -162,6 +188,13 @@ export function createProsodicService(
       callbacks.onPulse?.('both', wordIndex);
     },
 
+    /**
+     * Play a single gesture right away (e.g. a <nod/> in the spoken text), on top of any plan
+     */
+    gesture(kind: PlannedGestureKind, intensity = 1.0): void {
+      scheduler.playGesture(planGesture(kind), intensity * fullConfig.defaultIntensity);
+    },
+
     /**
      * Stop immediately (no fade)
      */
@@ -186,6 +219,10 @@ export function createProsodicService(
         );
       }
 
+      if (newConfig.planPriority !== undefined || newConfig.defaultIntensity !== undefined) {
+        scheduler.setPlanConfig(fullConfig.planPriority, fullConfig.defaultIntensity);
+      }
+
       // Reload snippets if keys changed
       if (newConfig.browLoopKey) {
         const browData = loadSnippetFromStorage(newConfig.browLoopKey);
@@ -229,7 +266,8 @@ export function createProsodicService(
           : 'idle',
         browIntensity: context?.browSnippet?.intensityScale ?? 0,
         headIntensity: context?.headSnippet?.intensityScale ?? 0,
-        isLooping: state === 'speaking',
+        isLooping: state === 'speaking' && !!(context?.browSnippet?.isPlaying || context?.headSnippet?.isPlaying),
+        isPlanned: !!context?.activePlan,
       };
     },
 
@@ -255,8 +293,12 @@ export class ProsodicService {
     this.api = createProsodicService(config, callbacks);
   }
 
-  public startTalking(): void {
-    this.api.startTalking();
+  public startTalking(text?: string, options?: ProsodicPlanOptions): void {
+    this.api.startTalking(text, options);
+  }
+
+  public planUtterance(text: string, options?: ProsodicPlanOptions): ProsodicPlan {
+    return this.api.planUtterance(text, options);
   }
 
   public stopTalking(): void {
@@ -267,6 +309,10 @@ export class ProsodicService {
     this.api.pulse(wordIndex);
   }
 
+  public gesture(kind: PlannedGestureKind, intensity?: number): void {
+    this.api.gesture(kind, intensity);
+  }
+
   public stop(): void {
     this.api.stop();
   }
@@ -32,6 +32,7 @@ export interface ProsodicConfig {
   defaultIntensity?: number;
   fadeSteps?: number;
   fadeStepInterval?: number; // milliseconds
+  planPriority?: number; // Priority of the planned gesture timeline
 }
 
 export interface ProsodicState {
@@ -40,6 +41,8 @@ export interface ProsodicState {
   browIntensity: number;
   headIntensity: number;
   isLooping: boolean;
+  /** A planned gesture timeline is playing (instead of the loops) */
+  isPlanned: boolean;
 }
 
 export interface ProsodicCallbacks {
@@ -51,6 +54,57 @@ export interface ProsodicCallbacks {
   onError?: (error: Error) => void;
 }
 
+/**
+ * Word timing the planner aligns gestures to (TTS WORD timeline events fit this shape)
+ */
+export interface WordTiming {
+  word: string;
+  offsetMs: number;
+  durMs?: number;
+}
+
+export type PlannedGestureKind = 'beat' | 'question' | 'shake' | 'nod';
+
+/**
+ * One gesture in a prosodic plan
+ * - beat: small nod + brow flash peaking on the stressed syllable of an emphasized word
+ * - question: brow raise + head tilt held over the end of a question
+ * - shake: head shake across a negation
+ * - nod: a deliberate nod, only played on request (e.g. a <nod/> tag)
+ */
+export interface PlannedGesture {
+  kind: PlannedGestureKind;
+  wordIndex: number;
+  word: string;
+  startMs: number;
+  /** Peak of the gesture (the stressed syllable for beats) */
+  apexMs: number;
+  endMs: number;
+  intensity: number;
+  curves: Record<string, AnimationCurve[]>;
+}
+
+/**
+ * Gesture timeline for one utterance, merged into a single set of curves (times in seconds)
+ */
+export interface ProsodicPlan {
+  text: string;
+  gestures: PlannedGesture[];
+  curves: Record<string, AnimationCurve[]>;
+  durationMs: number;
+}
+
+export interface ProsodicPlanOptions {
+  /** Word timings for the utterance; estimated like the Web Speech timeline when omitted */
+  wordTimings?: WordTiming[];
+  /** Speech rate used for estimated timings */
+  rate?: number;
+  /** Scales every gesture */
+  intensity?: number;
+  /** Minimum spacing between beats */
+  minBeatGapMs?: number;
+}
+
 export interface FadeStep {
   intensity: number;
   delay: number;
@@ -78,4 +132,5 @@ export const DEFAULT_PROSODIC_CONFIG: Required<ProsodicConfig> = {
   defaultIntensity: 1.0,
   fadeSteps: 4,
   fadeStepInterval: 120,
+  planPriority: 5,
 };
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHTTPSynthesizer } from '../localSynthesizer';
+
+/**
+ * Tests for the HTTP local synthesizer, with fetch stubbed to a canned server response.
+ */
+describe('createHTTPSynthesizer', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const respond = (body: unknown, ok = true, statusText = 'OK') => {
+    fetchMock.mockResolvedValue({ ok, statusText, json: async () => body });
+  };
+  const synthesize = (text = 'hi') =>
+    createHTTPSynthesizer({ endpoint: 'http://localhost:5002/synthesize' }).synthesize(text, { rate: 1, pitch: 1 });
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('synthesize', () => {
+    it('should post the text and voice settings', async () => {
+      respond({ audio: 'AAAA', phonemes: [] });
+      const synthesizer = createHTTPSynthesizer({ endpoint: 'http://localhost:5002/synthesize', headers: { 'X-Key': 'k' } });
+      await synthesizer.synthesize('hello', { voice: 'amy', rate: 1.2, pitch: 0.9 });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:5002/synthesize');
+      expect(init.method).toBe('POST');
+      expect(init.headers).toEqual({ 'Content-Type': 'application/json', 'X-Key': 'k' });
+      expect(JSON.parse(init.body)).toEqual({ text: 'hello', voice: 'amy', rate: 1.2, pitch: 0.9 });
+    });
+
+    it('should ask for the default voice when none is set', async () => {
+      respond({ audio: 'AAAA', phonemes: [] });
+      await synthesize();
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).voice).toBe('default');
+    });
+
+    it('should keep phoneme timings in milliseconds', async () => {
+      respond({ audio: 'AAAA', phonemes: [{ phoneme: 'HH', startMs: 0, durMs: 60 }, { phoneme: 'AY1', startMs: 60, durMs: 140 }] });
+      expect((await synthesize()).phonemes).toEqual([
+        { phoneme: 'HH', startMs: 0, durMs: 60 },
+        { phoneme: 'AY1', startMs: 60, durMs: 140 },
+      ]);
+    });
+
+    it('should convert Piper-style timings in seconds', async () => {
+      respond({ audio: 'AAAA', phonemes: [{ phoneme: 'h', start: 0.05, duration: 0.06 }, { phoneme: 'aɪ', start: 0.11, duration: 0.15 }] });
+      const { phonemes } = await synthesize();
+      expect(phonemes.map(p => p.phoneme)).toEqual(['h', 'aɪ']);
+      expect(phonemes.map(p => p.startMs)).toEqual([expect.closeTo(50), expect.closeTo(110)]);
+      expect(phonemes.map(p => p.durMs)).toEqual([expect.closeTo(60), expect.closeTo(150)]);
+    });
+
+    it('should default missing timings to 0', async () => {
+      respond({ audio: 'AAAA', phonemes: [{ phoneme: 'sil' }] });
+      expect((await synthesize()).phonemes).toEqual([{ phoneme: 'sil', startMs: 0, durMs: 0 }]);
+    });
+
+    it('should pass words and duration through, with no phonemes if the server sent none', async () => {
+      const words = [{ word: 'hi', startMs: 40 }];
+      respond({ audio: 'AAAA', words, durationMs: 300 });
+      expect(await synthesize()).toEqual({ audio: 'AAAA', phonemes: [], words, durationMs: 300 });
+    });
+
+    it('should throw when the server fails', async () => {
+      respond({}, false, 'Internal Server Error');
+      await expect(synthesize()).rejects.toThrow('Local TTS request failed: Internal Server Error');
+    });
+  });
+
+  describe('getVoices', () => {
+    it('should return the configured voices without a voices endpoint', async () => {
+      const voices = [{ name: 'amy', lang: 'en-US', localService: true, default: true }];
+      const synthesizer = createHTTPSynthesizer({ endpoint: 'http://localhost:5002/synthesize', voices });
+      expect(await synthesizer.getVoices!()).toEqual(voices);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should list the server\'s voices as local voices', async () => {
+      respond([{ name: 'amy', lang: 'en-US' }, { name: 'thorsten' }]);
+      const synthesizer = createHTTPSynthesizer({ endpoint: 'http://localhost:5002/synthesize', voicesEndpoint: 'http://localhost:5002/voices' });
+      expect(await synthesizer.getVoices!()).toEqual([
+        { name: 'amy', lang: 'en-US', localService: true, default: undefined },
+        { name: 'thorsten', lang: '', localService: true, default: undefined },
+      ]);
+    });
+  });
+});
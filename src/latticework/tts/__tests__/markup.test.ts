@@ -0,0 +1,203 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { parseMarkup, placeMarkup, openMarkupTags, stripMarkup } from '../markup';
+import { parseTokens } from '../utils';
+import type { TimelineEvent } from '../types';
+
+/**
+ * Tests for TTS markup: parsing tags out of spoken text, carrying open containers
+ * across sentences, and placing markup events on a word timeline.
+ *
+ * Timelines are built by hand (one word every 300 ms) so offsets can be checked exactly.
+ */
+describe('TTS markup', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /** WORD events every 300 ms for the words of `text`, plus a viseme inside the third word */
+  const timelineFor = (text: string): TimelineEvent[] => [
+    ...text.split(/\s+/).filter(Boolean).map((word, index): TimelineEvent => ({
+      type: 'WORD',
+      word,
+      index,
+      offsetMs: index * 300,
+    })),
+    { type: 'VISEME', visemeId: 1, durMs: 100, offsetMs: 650 },
+  ];
+
+  const place = (source: string, totalDuration = 1200) => {
+    const { text, markup } = parseMarkup(source);
+    return placeMarkup(timelineFor(text), text, markup, totalDuration);
+  };
+
+  const offsetsOf = (timeline: TimelineEvent[], type: TimelineEvent['type']) =>
+    timeline.filter(e => e.type === type).map(e => e.offsetMs);
+
+  describe('parseMarkup', () => {
+    it('should remove tags and record where containers open and close', () => {
+      expect(parseMarkup('Hello <emotion name="happy" intensity="0.6">big world</emotion> again')).toEqual({
+        text: 'Hello big world again',
+        markup: [{ tag: 'emotion', attrs: { name: 'happy', intensity: '0.6' }, index: 6, endIndex: 15 }],
+      });
+    });
+
+    it('should read self-closing tags and any attribute quoting', () => {
+      const { text, markup } = parseMarkup(`Wait <pause ms='300'/>now <nod intensity=0.5 />`);
+      expect(text).toBe('Wait now ');
+      expect(markup).toEqual([
+        { tag: 'pause', attrs: { ms: '300' }, index: 5 },
+        { tag: 'nod', attrs: { intensity: '0.5' }, index: 9 },
+      ]);
+    });
+
+    it('should leave a container that is never closed without an end', () => {
+      expect(parseMarkup('<gaze target="away">Let me think').markup[0].endIndex).toBeUndefined();
+    });
+
+    it('should drop unknown tags without speaking them', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(parseMarkup('Say <b>hi</b> <voice name="x">there</voice>')).toEqual({ text: 'Say hi there', markup: [] });
+      expect(warn).toHaveBeenCalledWith('[TTS] Unknown markup tag <b> removed');
+      expect(stripMarkup('<emphasis>Really</emphasis> <foo/>')).toBe('Really ');
+    });
+
+    it('should match tag names case-insensitively', () => {
+      expect(parseMarkup('<NOD/>Yes').markup).toEqual([{ tag: 'nod', attrs: {}, index: 0 }]);
+    });
+  });
+
+  describe('openMarkupTags', () => {
+    it('should return the opening tags of containers left open', () => {
+      expect(openMarkupTags('<emotion name="sad">Oh no. <emphasis>Really')).toEqual([
+        '<emotion name="sad">',
+        '<emphasis>',
+      ]);
+    });
+
+    it('should close containers opened in earlier text', () => {
+      const open = openMarkupTags('<gaze target="away"><emotion name="happy">One.');
+      expect(openMarkupTags('Two.</emotion>', open)).toEqual(['<gaze target="away">']);
+      expect(openMarkupTags('Three.</gaze>', ['<gaze target="away">'])).toEqual([]);
+    });
+
+    it('should ignore self-closing, non-container and stray closing tags', () => {
+      expect(openMarkupTags('<pause ms="200"/><nod/><emotion name="x"/></gaze> Fine.')).toEqual([]);
+    });
+  });
+
+  describe('placeMarkup', () => {
+    it('should return the timeline untouched without markup', () => {
+      const timeline = timelineFor('one two');
+      expect(placeMarkup(timeline, 'one two', [], 600)).toBe(timeline);
+    });
+
+    it('should push every event after a pause back by its length', () => {
+      const timeline = place('one two <pause ms="200"/>three four');
+
+      expect(offsetsOf(timeline, 'WORD')).toEqual([0, 300, 800, 1100]);
+      expect(offsetsOf(timeline, 'VISEME')).toEqual([850]);
+      expect(timeline).toContainEqual({ type: 'PAUSE', offsetMs: 600, durMs: 200 });
+    });
+
+    it('should add up pauses and clamp their length', () => {
+      const timeline = place('one <pause/>two <pause ms="9000"/>three four');
+
+      expect(timeline.filter(e => e.type === 'PAUSE')).toEqual([
+        { type: 'PAUSE', offsetMs: 300, durMs: 400 },
+        { type: 'PAUSE', offsetMs: 1000, durMs: 5000 },
+      ]);
+      expect(offsetsOf(timeline, 'WORD')).toEqual([0, 700, 6000, 6300]);
+    });
+
+    it('should skip a pause with no words after it', () => {
+      const timeline = place('one two three four <pause ms="500"/>');
+      expect(offsetsOf(timeline, 'PAUSE')).toEqual([]);
+      expect(offsetsOf(timeline, 'WORD')).toEqual([0, 300, 600, 900]);
+    });
+
+    it('should end a container after its last word', () => {
+      const timeline = place('one <emotion name="happy" intensity="0.5">two three</emotion> four');
+
+      expect(timeline.filter(e => e.type === 'EMOTION')).toEqual([
+        { type: 'EMOTION', offsetMs: 300, emotion: 'happy', intensity: 0.5 },
+        { type: 'EMOTION', offsetMs: 900, emotion: 'neutral', intensity: 0 },
+      ]);
+    });
+
+    it('should end a container before a pause that follows it', () => {
+      const timeline = place('<emotion name="sad">one two</emotion> <pause ms="400"/>three four');
+
+      expect(timeline.filter(e => e.type === 'EMOTION').map(e => e.offsetMs)).toEqual([0, 600]);
+      expect(offsetsOf(timeline, 'WORD')).toEqual([0, 300, 1000, 1300]);
+    });
+
+    it('should stretch a container over a pause inside it', () => {
+      const timeline = place('<emotion name="sad">one <pause ms="400"/>two</emotion> three four');
+      expect(timeline.filter(e => e.type === 'EMOTION').map(e => e.offsetMs)).toEqual([0, 1000]);
+    });
+
+    it('should look back at the user where a gaze span ends or after its ms', () => {
+      const span = place('one <gaze target="away">two</gaze> three four');
+      expect(span.filter(e => e.type === 'GAZE')).toEqual([
+        { type: 'GAZE', offsetMs: 300, target: 'away' },
+        { type: 'GAZE', offsetMs: 600, target: 'user' },
+      ]);
+
+      const timed = place('one <gaze target="up" ms="150"/>two three four');
+      expect(timed.filter(e => e.type === 'GAZE').map(e => [e.offsetMs, (e as any).target])).toEqual([
+        [300, 'up'],
+        [450, 'user'],
+      ]);
+
+      // Left open: stays away
+      expect(offsetsOf(place('one <gaze target="left">two three four'), 'GAZE')).toEqual([300]);
+    });
+
+    it('should skip gaze tags with an unknown target', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(offsetsOf(place('one <gaze target="ceiling">two</gaze>'), 'GAZE')).toEqual([]);
+      expect(warn).toHaveBeenCalledWith('[TTS] Unknown gaze target "ceiling"');
+    });
+
+    it('should cover the emphasized words, or the rest of the text when left open', () => {
+      const closed = place('one <emphasis level="strong">two three</emphasis> four');
+      expect(closed.find(e => e.type === 'EMPHASIS')).toEqual({
+        type: 'EMPHASIS', offsetMs: 300, word: 'two', index: 1, level: 1.3, durMs: 600,
+      });
+
+      const open = place('one two <emphasis level="0.8">three four');
+      expect(open.find(e => e.type === 'EMPHASIS')).toMatchObject({ offsetMs: 600, level: 0.8, durMs: 600 });
+    });
+
+    it('should place gestures at the next word, or at the end after the last word', () => {
+      const timeline = place('one <nod/>two three four <shake intensity="0.4"/>');
+      expect(timeline.filter(e => e.type === 'GESTURE')).toEqual([
+        { type: 'GESTURE', offsetMs: 300, gesture: 'nod', intensity: 1 },
+        { type: 'GESTURE', offsetMs: 1200, gesture: 'shake', intensity: 0.4 },
+      ]);
+    });
+  });
+
+  describe('parseTokens', () => {
+    it('should remap markup positions after emojis are removed', () => {
+      const { text, emojis, markup } = parseTokens('Hi 😀 <nod/>there 🎉 <emotion name="happy">friend</emotion>');
+
+      expect(text).toBe('Hi  there  friend');
+      expect(emojis).toEqual([{ emoji: '😀', index: 3 }, { emoji: '🎉', index: 10 }]);
+      expect(markup.map(t => [t.tag, t.index, t.endIndex])).toEqual([
+        ['nod', 4, undefined],
+        ['emotion', 11, 17],
+      ]);
+      expect(text.slice(markup[0].index)).toMatch(/^there/);
+      expect(text.slice(markup[1].index, markup[1].endIndex)).toBe('friend');
+    });
+
+    it('should account for leading whitespace trimmed off the text', () => {
+      const { text, markup } = parseTokens('😀 <emotion name="happy">Great</emotion> ');
+
+      expect(text).toBe('Great');
+      expect(markup[0]).toMatchObject({ index: 0, endIndex: 5 });
+    });
+  });
+});
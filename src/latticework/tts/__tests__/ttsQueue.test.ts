@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TTSService } from '../ttsService';
+
+/**
+ * Tests for the TTS utterance queue (enqueue, back-to-back playback, stop/speak dropping it).
+ *
+ * Web Speech is faked: speak() records the utterance and the test fires its start/end
+ * events, so ordering and promise resolution can be checked step by step.
+ */
+describe('TTSService queue', () => {
+  class FakeUtterance {
+    text: string;
+    rate = 1;
+    pitch = 1;
+    volume = 1;
+    voice: unknown = null;
+    onstart: (() => void) | null = null;
+    onend: (() => void) | null = null;
+    onerror: ((event: { error: string }) => void) | null = null;
+    onboundary: (() => void) | null = null;
+    constructor(text: string) {
+      this.text = text;
+    }
+  }
+
+  let spoken: FakeUtterance[];
+  let synthesis: { speak: ReturnType<typeof vi.fn>; cancel: ReturnType<typeof vi.fn>; pause: () => void; resume: () => void; getVoices: () => unknown[] };
+
+  const current = () => spoken[spoken.length - 1];
+  const finish = () => {
+    const utterance = current();
+    utterance.onstart?.();
+    utterance.onend?.();
+  };
+  const settled = (promise: Promise<void>) => {
+    let done = false;
+    promise.then(() => { done = true; });
+    return () => done;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    spoken = [];
+    synthesis = {
+      speak: vi.fn((utterance: FakeUtterance) => spoken.push(utterance)),
+      cancel: vi.fn(),
+      pause: () => {},
+      resume: () => {},
+      getVoices: () => [{ name: 'Test', lang: 'en-US', localService: true, default: true }],
+    };
+    vi.stubGlobal('window', {
+      speechSynthesis: synthesis,
+      setTimeout: (fn: () => void, ms: number) => setTimeout(fn, ms),
+    });
+    vi.stubGlobal('SpeechSynthesisUtterance', FakeUtterance);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should speak queued utterances one after another in order', async () => {
+    const tts = new TTSService();
+    const first = settled(tts.enqueue('First.'));
+    const second = settled(tts.enqueue('Second.'));
+    tts.enqueue('Third.');
+
+    expect(spoken.map(u => u.text)).toEqual(['First.']);
+    expect(tts.getQueueLength()).toBe(2);
+
+    finish();
+    await Promise.resolve();
+    expect(first()).toBe(true);
+    expect(second()).toBe(false);
+    expect(spoken.map(u => u.text)).toEqual(['First.', 'Second.']);
+
+    finish();
+    await Promise.resolve();
+    expect(second()).toBe(true);
+    expect(spoken.map(u => u.text)).toEqual(['First.', 'Second.', 'Third.']);
+    expect(tts.getQueueLength()).toBe(0);
+  });
+
+  it('should call onStart when each utterance starts playing', () => {
+    const tts = new TTSService();
+    const started: string[] = [];
+    tts.enqueue('One.', { onStart: () => started.push('one') });
+    tts.enqueue('Two.', { onStart: () => started.push('two') });
+
+    expect(started).toEqual([]);
+    finish();
+    expect(started).toEqual(['one']);
+    current().onstart?.();
+    expect(started).toEqual(['one', 'two']);
+  });
+
+  it('should resolve the playing and queued utterances when stop() interrupts them', async () => {
+    const tts = new TTSService();
+    const playing = settled(tts.enqueue('Playing.'));
+    const queued = settled(tts.enqueue('Queued.'));
+    current().onstart?.();
+
+    tts.stop();
+    await Promise.resolve();
+
+    expect(playing()).toBe(true);
+    expect(queued()).toBe(true);
+    expect(synthesis.cancel).toHaveBeenCalled();
+    expect(tts.getQueueLength()).toBe(0);
+    expect(spoken.map(u => u.text)).toEqual(['Playing.']);
+  });
+
+  it('should ignore a late end event from an utterance stop() dropped', async () => {
+    const tts = new TTSService();
+    tts.enqueue('Dropped.');
+    const dropped = current();
+    tts.stop();
+
+    tts.enqueue('Next.');
+    tts.enqueue('After.');
+    dropped.onend?.();
+    await Promise.resolve();
+
+    // Still on "Next." - the stale end event did not advance the queue
+    expect(spoken.map(u => u.text)).toEqual(['Dropped.', 'Next.']);
+    expect(tts.getQueueLength()).toBe(1);
+  });
+
+  it('should drop the queue when speak() interrupts it', async () => {
+    const tts = new TTSService();
+    const queued = settled(tts.enqueue('Queued.'));
+    tts.enqueue('Later.');
+
+    tts.speak('Now.');
+    await Promise.resolve();
+
+    expect(queued()).toBe(true);
+    expect(spoken.map(u => u.text)).toEqual(['Queued.', 'Now.']);
+    finish();
+    expect(spoken).toHaveLength(2);
+  });
+
+  it('should move past utterances with nothing to speak', async () => {
+    const tts = new TTSService();
+    const empty = settled(tts.enqueue('<nod/>'));
+    tts.enqueue('Spoken.');
+    await Promise.resolve();
+
+    expect(empty()).toBe(true);
+    expect(spoken.map(u => u.text)).toEqual(['Spoken.']);
+  });
+});
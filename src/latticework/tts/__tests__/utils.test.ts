@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { buildPhonemeTimeline, normalizePhoneme, phonemeToViseme } from '../utils';
+import { parseMarkup } from '../markup';
+import type { PhonemeTiming, TimelineEvent } from '../types';
+
+/**
+ * Tests for timelines built from synthesizer phoneme timings.
+ *
+ * Phonemes are listed as [name, startMs, durMs]; "hi you" is HH AY, a gap, then Y UW.
+ */
+describe('TTS utils', () => {
+  const phonemes = (...items: Array<[string, number, number]>): PhonemeTiming[] =>
+    items.map(([phoneme, startMs, durMs]) => ({ phoneme, startMs, durMs }));
+
+  const HI_YOU = phonemes(
+    ['sil', 0, 50], ['HH', 50, 50], ['AY1', 100, 100], ['_', 200, 50], ['Y', 250, 50], ['UW1', 300, 100], ['sil', 400, 50]
+  );
+
+  const ofType = <T extends TimelineEvent['type']>(timeline: TimelineEvent[], type: T) =>
+    timeline.filter((e): e is Extract<TimelineEvent, { type: T }> => e.type === type);
+  const wordOffsets = (timeline: TimelineEvent[]) => ofType(timeline, 'WORD').map(w => [w.word, w.offsetMs]);
+
+  describe('normalizePhoneme', () => {
+    it('should strip CMU stress digits and case', () => {
+      expect(normalizePhoneme('AH0')).toBe('AH');
+      expect(normalizePhoneme('iy1')).toBe('IY');
+      expect(normalizePhoneme('NG')).toBe('NG');
+    });
+
+    it('should keep silence names lowercase', () => {
+      expect(normalizePhoneme('sil')).toBe('sil');
+      expect(normalizePhoneme('SIL')).toBe('sil');
+    });
+
+    it('should map IPA vowels, diphthongs and affricates to CMU', () => {
+      expect(normalizePhoneme('ə')).toBe('AH');
+      expect(normalizePhoneme('æ')).toBe('AE');
+      expect(normalizePhoneme('aɪ')).toBe('AY');
+      expect(normalizePhoneme('oʊ')).toBe('OW');
+      expect(normalizePhoneme('tʃ')).toBe('CH');
+      expect(normalizePhoneme('ɹ')).toBe('R');
+      expect(normalizePhoneme('θ')).toBe('TH');
+    });
+
+    it('should read single IPA letters as IPA, not CMU', () => {
+      expect(normalizePhoneme('i')).toBe('IY');
+      expect(normalizePhoneme('a')).toBe('AA');
+      expect(normalizePhoneme('j')).toBe('Y');
+    });
+
+    it('should ignore IPA stress and length marks', () => {
+      expect(normalizePhoneme('ˈæ')).toBe('AE');
+      expect(normalizePhoneme('ˌɪ')).toBe('IH');
+      expect(normalizePhoneme('iː')).toBe('IY');
+    });
+
+    it('should treat espeak word gaps and glottal stops as silence', () => {
+      expect(normalizePhoneme('_')).toBe('sil');
+      expect(normalizePhoneme(' ')).toBe('sil');
+      expect(normalizePhoneme('ʔ')).toBe('sil');
+    });
+
+    it('should fall back to the first IPA symbol, then to the phoneme as given', () => {
+      expect(normalizePhoneme('ɡʲ')).toBe('G');
+      expect(normalizePhoneme('x')).toBe('x');
+    });
+
+    it('should give visemes for CMU and IPA alike', () => {
+      expect(phonemeToViseme('ʃ')).toBe(phonemeToViseme('SH'));
+      expect(phonemeToViseme('AY1')).toBe(4);
+      expect(phonemeToViseme('x')).toBe(0);
+    });
+  });
+
+  describe('buildPhonemeTimeline', () => {
+    it('should put phonemes and visemes at the synthesizer\'s offsets', () => {
+      const timeline = buildPhonemeTimeline('hi you', [], HI_YOU, 450);
+
+      expect(ofType(timeline, 'PHONEME').map(p => [p.phoneme, p.offsetMs, p.durMs])).toEqual([
+        ['sil', 0, 50], ['HH', 50, 50], ['AY', 100, 100], ['sil', 200, 50], ['Y', 250, 50], ['UW', 300, 100], ['sil', 400, 50],
+      ]);
+      expect(ofType(timeline, 'VISEME').map(v => v.visemeId)).toEqual([0, 20, 4, 0, 9, 13, 0]);
+    });
+
+    it('should normalize IPA phonemes', () => {
+      const timeline = buildPhonemeTimeline('hi', [], phonemes(['h', 0, 50], ['ˈaɪ', 50, 150]), 200);
+      expect(ofType(timeline, 'PHONEME').map(p => p.phoneme)).toEqual(['HH', 'AY']);
+    });
+
+    it('should start words on the spoken runs between silences', () => {
+      expect(wordOffsets(buildPhonemeTimeline('hi you', [], HI_YOU, 450))).toEqual([['hi', 50], ['you', 250]]);
+    });
+
+    it('should prefer the synthesizer\'s word timings', () => {
+      const words = [{ word: 'hi', startMs: 40 }, { word: 'you', startMs: 260 }];
+      expect(wordOffsets(buildPhonemeTimeline('hi you', [], HI_YOU, 450, [], words))).toEqual([['hi', 40], ['you', 260]]);
+    });
+
+    it('should ignore word timings for a different number of words', () => {
+      const words = [{ word: 'hi', startMs: 40 }];
+      expect(wordOffsets(buildPhonemeTimeline('hi you', [], HI_YOU, 450, [], words))).toEqual([['hi', 50], ['you', 250]]);
+    });
+
+    it('should spread words over the speech when runs don\'t match, snapping to phonemes', () => {
+      // One run for two words: the second word aims at 200 ms and lands on Y at 230 ms
+      const run = phonemes(['sil', 0, 20], ['HH', 20, 70], ['AY', 90, 140], ['Y', 230, 70], ['UW', 300, 80], ['sil', 380, 20]);
+      expect(wordOffsets(buildPhonemeTimeline('hi you', [], run, 400))).toEqual([['hi', 20], ['you', 230]]);
+    });
+
+    it('should spread words over the whole duration without phonemes', () => {
+      expect(wordOffsets(buildPhonemeTimeline('one two', [], [], 600))).toEqual([['one', 0], ['two', 300]]);
+    });
+
+    it('should place emojis by their position in the text', () => {
+      const timeline = buildPhonemeTimeline('hi you', [{ emoji: '😀', index: 3 }], HI_YOU, 450);
+      expect(ofType(timeline, 'EMOJI')).toEqual([{ type: 'EMOJI', emoji: '😀', offsetMs: 225 }]);
+    });
+
+    it('should sort the timeline by offset', () => {
+      const timeline = buildPhonemeTimeline('hi you', [{ emoji: '😀', index: 3 }], HI_YOU, 450);
+      const offsets = timeline.map(e => e.offsetMs);
+      expect(offsets).toEqual([...offsets].sort((a, b) => a - b));
+    });
+
+    it('should place markup on the words', () => {
+      const { text, markup } = parseMarkup('hi <emotion name="happy">you</emotion>');
+      const timeline = buildPhonemeTimeline(text, [], HI_YOU, 450, markup);
+      expect(ofType(timeline, 'EMOTION')[0]).toMatchObject({ emotion: 'happy', offsetMs: 250 });
+    });
+  });
+});
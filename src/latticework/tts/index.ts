@@ -37,6 +37,7 @@ export type {
   TTSConfig,
   TTSVoice,
   TTSCallbacks,
+  TTSEnqueueOptions,
   TTSState,
   TTSEngine,
   VisemeID,
@@ -45,16 +46,37 @@ export type {
   VisemeTimelineItem,
   EmojiTimelineItem,
   PhonemeTimelineItem,
+  EmotionTimelineItem,
+  GazeTimelineItem,
+  GestureTimelineItem,
+  PauseTimelineItem,
+  EmphasisTimelineItem,
+  MarkupTimelineEvent,
+  MarkupTag,
+  MarkupGesture,
+  MarkupGazeTarget,
+  MarkupToken,
   SAPIResponse,
+  PhonemeTiming,
+  LocalSynthesizer,
+  LocalSynthesisOptions,
+  LocalSynthesisResult,
   ParsedTokens
 } from './types';
 export {
   parseTokens,
   buildLocalTimeline,
   buildSAPITimeline,
+  buildPhonemeTimeline,
   extractPhonemesFromWord,
+  normalizePhoneme,
   phonemeToViseme,
   decodeBase64Audio,
+  decodeSynthesizedAudio,
   getTimelineDuration,
-  PHONEME_TO_VISEME
+  PHONEME_TO_VISEME,
+  IPA_TO_PHONEME
 } from './utils';
+export { createHTTPSynthesizer } from './localSynthesizer';
+export type { HTTPSynthesizerOptions } from './localSynthesizer';
+export { parseMarkup, stripMarkup, openMarkupTags, placeMarkup } from './markup';
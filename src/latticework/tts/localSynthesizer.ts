@@ -0,0 +1,82 @@
+/**
+ * Local Synthesizers
+ * Adapters for the 'local' TTS engine
+ *
+ * Anything implementing LocalSynthesizer can be plugged in (a WASM espeak-ng or Piper build
+ * wrapped in a few lines); createHTTPSynthesizer covers synthesis servers on this machine.
+ */
+
+import type { LocalSynthesisOptions, LocalSynthesisResult, LocalSynthesizer, PhonemeTiming, TTSVoice } from './types';
+
+export interface HTTPSynthesizerOptions {
+  /** POST endpoint, e.g. http://localhost:5002/synthesize */
+  endpoint: string;
+  /** GET endpoint listing voices ([{ name, lang }]); without it getVoices() returns `voices` */
+  voicesEndpoint?: string;
+  voices?: TTSVoice[];
+  headers?: Record<string, string>;
+  name?: string;
+}
+
+/**
+ * Synthesizer backed by a local HTTP server
+ *
+ * Request: `POST { text, voice, rate, pitch }`
+ * Response: `{ audio: base64, phonemes: [{ phoneme, startMs, durMs }], words?, durationMs? }`
+ * (`start`/`duration` in seconds are accepted for phonemes too, as Piper-style servers report them)
+ */
+export function createHTTPSynthesizer(options: HTTPSynthesizerOptions): LocalSynthesizer {
+  const headers = { 'Content-Type': 'application/json', ...options.headers };
+
+  return {
+    name: options.name ?? `http:${options.endpoint}`,
+
+    async getVoices(): Promise<TTSVoice[]> {
+      if (!options.voicesEndpoint) return options.voices ?? [];
+
+      const response = await fetch(options.voicesEndpoint, { headers: options.headers });
+      if (!response.ok) {
+        throw new Error(`Local TTS voices request failed: ${response.statusText}`);
+      }
+      const voices: TTSVoice[] = await response.json();
+      return voices.map(v => ({ name: v.name, lang: v.lang ?? '', localService: true, default: v.default }));
+    },
+
+    async synthesize(text: string, synthesisOptions: LocalSynthesisOptions): Promise<LocalSynthesisResult> {
+      const response = await fetch(options.endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          text,
+          voice: synthesisOptions.voice || 'default',
+          rate: synthesisOptions.rate,
+          pitch: synthesisOptions.pitch
+        }),
+        signal: synthesisOptions.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Local TTS request failed: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      return {
+        audio: result.audio,
+        phonemes: (result.phonemes ?? []).map(toPhonemeTiming),
+        words: result.words,
+        durationMs: result.durationMs
+      };
+    }
+  };
+}
+
+/**
+ * Phoneme timing from milliseconds (`startMs`/`durMs`) or seconds (`start`/`duration`)
+ */
+function toPhonemeTiming(p: any): PhonemeTiming {
+  return {
+    phoneme: p.phoneme,
+    startMs: p.startMs ?? (p.start ?? 0) * 1000,
+    durMs: p.durMs ?? (p.duration ?? 0) * 1000
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * TTS Markup
+ * Nonverbal markup in spoken text - SSML-like tags for face, gaze and gestures
+ *
+ * @example
+ * ```
+ * <emotion name="happy" intensity="0.6">That's great news!</emotion>
+ * Hmm, <gaze target="away">let me think</gaze> <pause ms="300"/> yes. <nod/>
+ * That is <emphasis level="strong">really</emphasis> important.
+ * ```
+ */
+
+import type {
+  MarkupGazeTarget,
+  MarkupGesture,
+  MarkupTag,
+  MarkupTimelineEvent,
+  MarkupToken,
+  TimelineEvent,
+  WordTimelineItem,
+} from './types';
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[\w-]+\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>/]+))*)\s*(\/?)>/g;
+const ATTR_PATTERN = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>/]+))/g;
+
+const MARKUP_TAGS: MarkupTag[] = ['emotion', 'gaze', 'nod', 'shake', 'tilt', 'pause', 'emphasis'];
+/** Tags that can wrap words; their effect ends where they close */
+const CONTAINER_TAGS: MarkupTag[] = ['emotion', 'gaze', 'emphasis'];
+const GAZE_TARGETS: MarkupGazeTarget[] = ['user', 'away', 'up', 'down', 'left', 'right'];
+const EMPHASIS_LEVELS: Record<string, number> = { reduced: 0.6, moderate: 1, strong: 1.3 };
+
+const DEFAULT_EMOTION_INTENSITY = 0.8;
+const DEFAULT_PAUSE_MS = 400;
+const MAX_PAUSE_MS = 5000;
+
+function parseAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    attrs[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+  }
+  return attrs;
+}
+
+function numberAttr(value: string | undefined, fallback: number): number {
+  const n = parseFloat(value ?? '');
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/**
+ * Remove markup tags from text, recording where each one was.
+ * Unknown tags are dropped (never spoken). A container left open has no `endIndex`.
+ */
+export function parseMarkup(text: string): { text: string; markup: MarkupToken[] } {
+  const markup: MarkupToken[] = [];
+  const open: MarkupToken[] = [];
+  let plain = '';
+  let last = 0;
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const [raw, closing, name, attrSource, selfClosing] = match;
+    plain += text.slice(last, match.index);
+    last = match.index! + raw.length;
+
+    const tag = name.toLowerCase() as MarkupTag;
+    if (!MARKUP_TAGS.includes(tag)) {
+      console.warn(`[TTS] Unknown markup tag <${name}> removed`);
+      continue;
+    }
+
+    if (closing) {
+      const i = open.map(t => t.tag).lastIndexOf(tag);
+      if (i >= 0) {
+        open[i].endIndex = plain.length;
+        open.splice(i, 1);
+      }
+      continue;
+    }
+
+    const token: MarkupToken = { tag, attrs: parseAttrs(attrSource), index: plain.length };
+    markup.push(token);
+    if (!selfClosing && CONTAINER_TAGS.includes(tag)) {
+      open.push(token);
+    }
+  }
+
+  plain += text.slice(last);
+
+  return { text: plain, markup };
+}
+
+/**
+ * Opening tags of the containers still open after `text`, given the ones open before it.
+ * Prepending them to the next piece keeps an <emotion> or <gaze> going across sentences.
+ */
+export function openMarkupTags(text: string, open: string[] = []): string[] {
+  const stack = [...open];
+  const tagOf = (raw: string) => raw.slice(1).split(/[\s/>]/)[0].toLowerCase();
+
+  for (const [raw, closing, name, , selfClosing] of text.matchAll(TAG_PATTERN)) {
+    const tag = name.toLowerCase() as MarkupTag;
+    if (!CONTAINER_TAGS.includes(tag)) continue;
+
+    if (closing) {
+      const i = stack.map(tagOf).lastIndexOf(tag);
+      if (i >= 0) stack.splice(i, 1);
+    } else if (!selfClosing) {
+      stack.push(raw);
+    }
+  }
+
+  return stack;
+}
+
+/**
+ * Text without markup tags (for display, transcripts and echo filtering)
+ */
+export function stripMarkup(text: string): string {
+  return parseMarkup(text).text;
+}
+
+/**
+ * Add markup events to a timeline at the offsets of the words they precede.
+ * Pauses push every later event back by their length.
+ */
+export function placeMarkup(
+  timeline: TimelineEvent[],
+  text: string,
+  markup: MarkupToken[],
+  totalDuration: number
+): TimelineEvent[] {
+  if (markup.length === 0) return timeline;
+
+  const words = timeline
+    .filter((e): e is WordTimelineItem => e.type === 'WORD')
+    .sort((a, b) => a.index - b.index);
+  const wordChars = [...text.matchAll(/\S+/g)].map(m => m.index!);
+
+  // Word a tag at this character precedes; words.length if none follows
+  const wordAt = (charIndex: number) => Math.min(words.length, wordChars.filter(c => c < charIndex).length);
+  const wordStart = (w: number) => (w < words.length ? words[w].offsetMs : totalDuration);
+  // A word ends where the next begins, before any pause between them
+  const wordEnds = words.map((_, w) => (w + 1 < words.length ? words[w + 1].offsetMs : totalDuration));
+  const wordEnd = (w: number) => (w < words.length ? wordEnds[w] : totalDuration);
+
+  const events: MarkupTimelineEvent[] = [];
+
+  for (const token of [...markup].sort((a, b) => a.index - b.index)) {
+    if (token.tag !== 'pause') continue;
+    const w = wordAt(token.index);
+    if (w >= words.length) continue; // Nothing left to hold back
+
+    const durMs = Math.min(MAX_PAUSE_MS, Math.max(0, numberAttr(token.attrs.ms, DEFAULT_PAUSE_MS)));
+    const offsetMs = words[w].offsetMs;
+    for (const event of timeline) {
+      if (event.offsetMs >= offsetMs) event.offsetMs += durMs;
+    }
+    wordEnds.forEach((end, i) => { if (end > offsetMs) wordEnds[i] = end + durMs; });
+    totalDuration += durMs;
+    events.push({ type: 'PAUSE', offsetMs, durMs });
+  }
+
+  for (const token of markup) {
+    const w = wordAt(token.index);
+    const offsetMs = wordStart(w);
+    // End of the last word inside a closed container
+    const spanEnd = token.endIndex !== undefined && token.endIndex > token.index
+      ? wordEnd(Math.max(w, wordAt(token.endIndex) - 1))
+      : null;
+
+    switch (token.tag) {
+      case 'emotion':
+        events.push({
+          type: 'EMOTION',
+          offsetMs,
+          emotion: token.attrs.name ?? 'neutral',
+          intensity: numberAttr(token.attrs.intensity, DEFAULT_EMOTION_INTENSITY),
+        });
+        if (spanEnd !== null) {
+          events.push({ type: 'EMOTION', offsetMs: spanEnd, emotion: 'neutral', intensity: 0 });
+        }
+        break;
+
+      case 'gaze': {
+        const target = (token.attrs.target ?? 'away').toLowerCase() as MarkupGazeTarget;
+        if (!GAZE_TARGETS.includes(target)) {
+          console.warn(`[TTS] Unknown gaze target "${token.attrs.target}"`);
+          break;
+        }
+        events.push({ type: 'GAZE', offsetMs, target });
+        const returnMs = token.attrs.ms !== undefined ? offsetMs + numberAttr(token.attrs.ms, 0) : spanEnd;
+        if (returnMs !== null && target !== 'user') {
+          events.push({ type: 'GAZE', offsetMs: returnMs, target: 'user' });
+        }
+        break;
+      }
+
+      case 'nod':
+      case 'shake':
+      case 'tilt':
+        events.push({
+          type: 'GESTURE',
+          offsetMs,
+          gesture: token.tag as MarkupGesture,
+          intensity: numberAttr(token.attrs.intensity, 1),
+        });
+        break;
+
+      case 'emphasis':
+        // Left open: to the end of the text
+        if (w >= words.length) break;
+        events.push({
+          type: 'EMPHASIS',
+          offsetMs,
+          word: words[w].word,
+          index: w,
+          level: EMPHASIS_LEVELS[token.attrs.level?.toLowerCase() ?? ''] ?? numberAttr(token.attrs.level, 1),
+          durMs: (spanEnd ?? totalDuration) - offsetMs,
+        });
+        break;
+    }
+  }
+
+  timeline.push(...events);
+  timeline.sort((a, b) => a.offsetMs - b.offsetMs);
+  return timeline;
+}
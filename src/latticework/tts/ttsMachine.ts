@@ -24,7 +24,7 @@ export interface TTSContext {
     pitch: number;
     volume: number;
     voiceName: string;
-    engine: 'webSpeech' | 'sapi';
+    engine: 'webSpeech' | 'sapi' | 'local';
   };
 
   // Error tracking
@@ -3,13 +3,14 @@
  * Manages timeline execution and coordinates with LipSync and Prosodic agencies
  */
 
-import type { TimelineEvent } from './types';
+import type { MarkupTimelineEvent, TimelineEvent } from './types';
 
 export interface TTSSchedulerHost {
   // Callbacks to agencies
   onWordBoundary?: (word: string, wordIndex: number) => void;
   onViseme?: (visemeId: number, duration: number) => void;
   onEmoji?: (emoji: string) => void;
+  onMarkup?: (event: MarkupTimelineEvent) => void;
   onSpeechStart?: () => void;
   onSpeechEnd?: () => void;
   onError?: (error: Error) => void;
@@ -29,6 +30,7 @@ export class TTSScheduler {
   private timelineTimeouts: number[] = [];
   private timelineStartTime: number = 0;
   private wordIndex: number = 0;
+  private holdTimeout: number | null = null;
 
   // Web Speech API
   private synthesis: SpeechSynthesis | null = null;
@@ -251,6 +253,52 @@ export class TTSScheduler {
       case 'PHONEME':
         // Phoneme events can be used for advanced processing
         break;
+
+      case 'PAUSE':
+        // Later timeline events were already pushed back by the pause
+        this.holdSpeech(event.durMs);
+        this.host.onMarkup?.(event);
+        break;
+
+      case 'EMOTION':
+      case 'GAZE':
+      case 'GESTURE':
+      case 'EMPHASIS':
+        this.host.onMarkup?.(event);
+        break;
+    }
+  }
+
+  /**
+   * Silence playback for a <pause/>
+   */
+  private holdSpeech(durationMs: number): void {
+    this.releaseHold();
+
+    if (this.audioSource && this.audioContext?.state === 'running') {
+      this.audioContext.suspend();
+    } else if (this.synthesis) {
+      this.synthesis.pause();
+    } else {
+      return;
+    }
+
+    this.holdTimeout = window.setTimeout(() => this.releaseHold(), durationMs);
+  }
+
+  /**
+   * End a <pause/> hold early or on time
+   */
+  private releaseHold(): void {
+    if (this.holdTimeout === null) return;
+
+    clearTimeout(this.holdTimeout);
+    this.holdTimeout = null;
+
+    if (this.audioContext?.state === 'suspended') {
+      this.audioContext.resume();
+    } else if (this.synthesis) {
+      this.synthesis.resume();
     }
   }
 
@@ -262,6 +310,7 @@ export class TTSScheduler {
       clearTimeout(timeout);
     }
     this.timelineTimeouts = [];
+    this.releaseHold();
   }
 
   /**
@@ -312,6 +361,7 @@ export class TTSScheduler {
    */
   public pause(): void {
     console.log('[TTS Scheduler] Pausing speech');
+    this.releaseHold();
 
     if (this.synthesis) {
       this.synthesis.pause();
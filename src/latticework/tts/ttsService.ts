@@ -8,7 +8,9 @@ import type {
   TTSVoice,
   TTSCallbacks,
   TTSState,
+  TTSEnqueueOptions,
   TimelineEvent,
+  MarkupToken,
   SAPIResponse,
   VisemeID
 } from './types';
@@ -16,10 +18,23 @@ import {
   parseTokens,
   buildLocalTimeline,
   buildSAPITimeline,
+  buildPhonemeTimeline,
   decodeBase64Audio,
+  decodeSynthesizedAudio,
   getTimelineDuration
 } from './utils';
 
+interface UtteranceHooks {
+  onStart?: () => void;
+  onDone?: () => void;
+}
+
+interface QueuedUtterance {
+  text: string;
+  onStart?: () => void;
+  resolve: () => void;
+}
+
 export class TTSService {
   private config: Required<TTSConfig>;
   private state: TTSState;
@@ -34,9 +49,19 @@ export class TTSService {
   private audioContext: AudioContext | null = null;
   private audioSource: AudioBufferSourceNode | null = null;
 
+  // Local synthesizer
+  private localReady: Promise<void> | null = null;
+  private localVoices: TTSVoice[] = [];
+  private synthesisAbort: AbortController | null = null;
+
   // Timeline execution
   private timelineTimeouts: number[] = [];
   private timelineStartTime: number = 0;
+  private holdTimeout: number | null = null;
+
+  // Queued utterances (spoken back to back, e.g. sentences of a streamed reply)
+  private queue: QueuedUtterance[] = [];
+  private queuePlaying: QueuedUtterance | null = null;
 
   // SAPI endpoint
   private sapiEndpoint = 'https://new-emotion.cis.fiu.edu/HapGL/HapGLService.svc';
@@ -48,6 +73,7 @@ export class TTSService {
       pitch: config.pitch ?? 1.0,
       volume: config.volume ?? 1.0,
       voiceName: config.voiceName ?? '',
+      localSynthesizer: config.localSynthesizer ?? null,
     };
 
     this.callbacks = callbacks;
@@ -67,6 +93,9 @@ export class TTSService {
 
     if (this.config.engine === 'webSpeech') {
       await this.initWebSpeech();
+    } else if (this.config.engine === 'local') {
+      this.localReady = this.initLocal();
+      await this.localReady;
     } else {
       await this.initSAPI();
     }
@@ -100,6 +129,28 @@ export class TTSService {
     this.audioContext = new AudioContext();
   }
 
+  /**
+   * Initialize the local synthesizer
+   */
+  private async initLocal(): Promise<void> {
+    // Create audio context for playback
+    this.audioContext = new AudioContext();
+
+    const synthesizer = this.config.localSynthesizer;
+    if (!synthesizer) {
+      console.error('Local TTS engine has no synthesizer');
+      return;
+    }
+
+    try {
+      await synthesizer.init?.();
+      this.localVoices = (await synthesizer.getVoices?.()) ?? [];
+    } catch (error) {
+      console.error(`Local synthesizer ${synthesizer.name} failed to start:`, error);
+      this.callbacks.onError?.(error as Error);
+    }
+  }
+
   /**
    * Load available voices
    */
@@ -134,6 +185,10 @@ export class TTSService {
       }));
     }
 
+    if (this.config.engine === 'local') {
+      return [...this.localVoices];
+    }
+
     return [];
   }
 
@@ -150,6 +205,12 @@ export class TTSService {
     } else if (this.config.engine === 'sapi') {
       this.config.voiceName = voiceName;
       return true;
+    } else if (this.config.engine === 'local') {
+      // Synthesizers that don't list voices accept any name
+      if (this.localVoices.length === 0 || this.localVoices.some(v => v.name === voiceName)) {
+        this.config.voiceName = voiceName;
+        return true;
+      }
     }
 
     return false;
@@ -162,28 +223,78 @@ export class TTSService {
     // Stop current speech
     this.stop();
 
+    await this.speakText(text);
+  }
+
+  /**
+   * Queue text to be spoken after everything already queued.
+   * Resolves when the text has finished speaking, or is dropped by stop()/speak().
+   */
+  public enqueue(text: string, options: TTSEnqueueOptions = {}): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push({ text, onStart: options.onStart, resolve });
+      if (!this.queuePlaying) {
+        this.playNextQueued();
+      }
+    });
+  }
+
+  /**
+   * Number of utterances waiting in the queue (not counting the one playing)
+   */
+  public getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Speak the next queued utterance
+   */
+  private playNextQueued(): void {
+    const item = this.queue.shift() ?? null;
+    this.queuePlaying = item;
+    if (!item) return;
+
+    // Ignore late end events from an utterance that stop() already dropped
+    const done = () => {
+      if (this.queuePlaying !== item) return;
+      this.queuePlaying = null;
+      item.resolve();
+      this.playNextQueued();
+    };
+
+    this.speakText(item.text, { onStart: item.onStart, onDone: done });
+  }
+
+  /**
+   * Parse and speak text on the configured engine
+   */
+  private async speakText(text: string, hooks: UtteranceHooks = {}): Promise<void> {
     // Update state
     this.setState({ status: 'loading', currentText: text });
 
     // Parse tokens
-    const { text: sanitizedText, emojis } = parseTokens(text);
+    const { text: sanitizedText, emojis, markup } = parseTokens(text);
 
     if (!sanitizedText) {
       console.warn('No text to speak after parsing');
       this.setState({ status: 'idle' });
+      hooks.onDone?.();
       return;
     }
 
     try {
       if (this.config.engine === 'webSpeech') {
-        await this.speakWebSpeech(sanitizedText, emojis);
+        await this.speakWebSpeech(sanitizedText, emojis, markup, hooks);
+      } else if (this.config.engine === 'local') {
+        await this.speakLocal(sanitizedText, emojis, markup, hooks);
       } else {
-        await this.speakSAPI(sanitizedText, emojis);
+        await this.speakSAPI(sanitizedText, emojis, markup, hooks);
       }
     } catch (error) {
       console.error('TTS error:', error);
       this.setState({ status: 'error', error: (error as Error).message });
       this.callbacks.onError?.(error as Error);
+      hooks.onDone?.();
     }
   }
 
@@ -192,14 +303,16 @@ export class TTSService {
    */
   private async speakWebSpeech(
     text: string,
-    emojis: Array<{ emoji: string; index: number }>
+    emojis: Array<{ emoji: string; index: number }>,
+    markup: MarkupToken[],
+    hooks: UtteranceHooks = {}
   ): Promise<void> {
     if (!this.synthesis) {
       throw new Error('Web Speech API not initialized');
     }
 
     // Build timeline
-    const timeline = buildLocalTimeline(text, emojis, this.config.rate);
+    const timeline = buildLocalTimeline(text, emojis, this.config.rate, markup);
     this.setState({ currentTimeline: timeline });
 
     // Create utterance
@@ -220,6 +333,7 @@ export class TTSService {
     this.utterance.onstart = () => {
       this.setState({ status: 'speaking' });
       this.callbacks.onStart?.();
+      hooks.onStart?.();
       this.executeTimeline(timeline);
     };
 
@@ -227,6 +341,7 @@ export class TTSService {
       this.setState({ status: 'idle' });
       this.callbacks.onEnd?.();
       this.clearTimelineTimeouts();
+      hooks.onDone?.();
     };
 
     this.utterance.onerror = (event) => {
@@ -234,6 +349,7 @@ export class TTSService {
       this.setState({ status: 'error', error: event.error });
       this.callbacks.onError?.(new Error(event.error));
       this.clearTimelineTimeouts();
+      hooks.onDone?.();
     };
 
     this.utterance.onboundary = (event) => {
@@ -253,7 +369,9 @@ export class TTSService {
    */
   private async speakSAPI(
     text: string,
-    emojis: Array<{ emoji: string; index: number }>
+    emojis: Array<{ emoji: string; index: number }>,
+    markup: MarkupToken[],
+    hooks: UtteranceHooks = {}
   ): Promise<void> {
     if (!this.audioContext) {
       throw new Error('Audio context not initialized');
@@ -263,27 +381,87 @@ export class TTSService {
     const response = await this.fetchSAPIAudio(text);
 
     // Build timeline
-    const timeline = buildSAPITimeline(text, emojis, response.visemes, response.duration);
+    const timeline = buildSAPITimeline(text, emojis, response.visemes, response.duration, markup);
     this.setState({ currentTimeline: timeline });
 
     // Decode audio
     const audioBuffer = await decodeBase64Audio(response.audio, this.audioContext);
 
+    this.playAudio(audioBuffer, timeline, hooks);
+  }
+
+  /**
+   * Speak using the local synthesizer (exact phoneme timings)
+   */
+  private async speakLocal(
+    text: string,
+    emojis: Array<{ emoji: string; index: number }>,
+    markup: MarkupToken[],
+    hooks: UtteranceHooks = {}
+  ): Promise<void> {
+    const synthesizer = this.config.localSynthesizer;
+    if (!synthesizer) {
+      throw new Error('Local TTS engine has no synthesizer');
+    }
+
+    await this.localReady;
+    if (!this.audioContext) {
+      throw new Error('Audio context not initialized');
+    }
+
+    // stop() aborts synthesis; a stopped utterance ends quietly
+    const abort = new AbortController();
+    this.synthesisAbort = abort;
+
+    let audioBuffer: AudioBuffer;
+    let timeline: TimelineEvent[];
+    try {
+      const result = await synthesizer.synthesize(text, {
+        voice: this.config.voiceName || undefined,
+        rate: this.config.rate,
+        pitch: this.config.pitch,
+        signal: abort.signal
+      });
+      audioBuffer = await decodeSynthesizedAudio(result.audio, this.audioContext);
+
+      // Build timeline
+      const totalDuration = result.durationMs ?? audioBuffer.duration * 1000;
+      timeline = buildPhonemeTimeline(text, emojis, result.phonemes, totalDuration, markup, result.words);
+    } catch (error) {
+      if (abort.signal.aborted) return;
+      throw error;
+    } finally {
+      if (this.synthesisAbort === abort) this.synthesisAbort = null;
+    }
+    if (abort.signal.aborted) return;
+
+    this.setState({ currentTimeline: timeline });
+    this.playAudio(audioBuffer, timeline, hooks);
+  }
+
+  /**
+   * Play decoded speech audio and run its timeline
+   */
+  private playAudio(audioBuffer: AudioBuffer, timeline: TimelineEvent[], hooks: UtteranceHooks): void {
+    this.callbacks.onAudio?.(audioBuffer);
+
     // Create audio source
-    this.audioSource = this.audioContext.createBufferSource();
+    this.audioSource = this.audioContext!.createBufferSource();
     this.audioSource.buffer = audioBuffer;
-    this.audioSource.connect(this.audioContext.destination);
+    this.audioSource.connect(this.audioContext!.destination);
 
     // Set up event handlers
     this.audioSource.onended = () => {
       this.setState({ status: 'idle' });
       this.callbacks.onEnd?.();
       this.clearTimelineTimeouts();
+      hooks.onDone?.();
     };
 
     // Start playback
     this.setState({ status: 'speaking' });
     this.callbacks.onStart?.();
+    hooks.onStart?.();
     this.executeTimeline(timeline);
     this.audioSource.start();
   }
@@ -352,6 +530,52 @@ export class TTSService {
       case 'PHONEME':
         // Phoneme events for advanced lip-sync
         break;
+
+      case 'PAUSE':
+        // Later timeline events were already pushed back by the pause
+        this.holdSpeech(event.durMs);
+        this.callbacks.onMarkup?.(event);
+        break;
+
+      case 'EMOTION':
+      case 'GAZE':
+      case 'GESTURE':
+      case 'EMPHASIS':
+        this.callbacks.onMarkup?.(event);
+        break;
+    }
+  }
+
+  /**
+   * Silence the engine for a <pause/> without reporting a pause to callers
+   */
+  private holdSpeech(durationMs: number): void {
+    this.releaseHold();
+
+    if (this.config.engine === 'webSpeech' && this.synthesis) {
+      this.synthesis.pause();
+    } else if (this.audioContext && this.audioContext.state === 'running') {
+      this.audioContext.suspend();
+    } else {
+      return;
+    }
+
+    this.holdTimeout = window.setTimeout(() => this.releaseHold(), durationMs);
+  }
+
+  /**
+   * End a <pause/> hold early or on time
+   */
+  private releaseHold(): void {
+    if (this.holdTimeout === null) return;
+
+    clearTimeout(this.holdTimeout);
+    this.holdTimeout = null;
+
+    if (this.config.engine === 'webSpeech' && this.synthesis) {
+      this.synthesis.resume();
+    } else if (this.audioContext && this.audioContext.state === 'suspended') {
+      this.audioContext.resume();
     }
   }
 
@@ -363,12 +587,20 @@ export class TTSService {
       clearTimeout(timeout);
     }
     this.timelineTimeouts = [];
+    this.releaseHold();
   }
 
   /**
-   * Stop current speech
+   * Stop current speech and drop everything queued
    */
   public stop(): void {
+    this.clearQueue();
+
+    if (this.synthesisAbort) {
+      this.synthesisAbort.abort();
+      this.synthesisAbort = null;
+    }
+
     if (this.config.engine === 'webSpeech' && this.synthesis) {
       this.synthesis.cancel();
     }
@@ -386,10 +618,22 @@ export class TTSService {
     this.setState({ status: 'idle' });
   }
 
+  /**
+   * Drop queued utterances (their promises resolve); the one playing is released too
+   */
+  private clearQueue(): void {
+    const dropped = this.queuePlaying ? [this.queuePlaying, ...this.queue] : this.queue;
+    this.queue = [];
+    this.queuePlaying = null;
+    dropped.forEach((item) => item.resolve());
+  }
+
   /**
    * Pause speech
    */
   public pause(): void {
+    this.releaseHold();
+
     if (this.config.engine === 'webSpeech' && this.synthesis) {
       this.synthesis.pause();
       this.setState({ status: 'paused' });
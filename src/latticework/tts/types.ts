@@ -3,7 +3,7 @@
  * Type definitions for Text-to-Speech functionality
  */
 
-export type TTSEngine = 'webSpeech' | 'sapi';
+export type TTSEngine = 'webSpeech' | 'sapi' | 'local';
 
 export type VisemeID = number; // 0-20 for ARKit/FACS visemes
 
@@ -13,6 +13,8 @@ export interface TTSConfig {
   pitch?: number; // 0.0 - 2.0
   volume?: number; // 0.0 - 1.0
   voiceName?: string;
+  /** Synthesizer for the 'local' engine (WASM build, local HTTP server, ...) */
+  localSynthesizer?: LocalSynthesizer;
 }
 
 export interface TTSVoice {
@@ -23,7 +25,7 @@ export interface TTSVoice {
 }
 
 export interface TimelineItem {
-  type: 'WORD' | 'VISEME' | 'EMOJI' | 'PHONEME';
+  type: 'WORD' | 'VISEME' | 'EMOJI' | 'PHONEME' | MarkupTimelineEvent['type'];
   offsetMs: number;
   durMs?: number;
   data?: any;
@@ -52,11 +54,64 @@ export interface PhonemeTimelineItem extends TimelineItem {
   durMs: number;
 }
 
+/**
+ * Nonverbal markup tags (SSML-like) accepted in spoken text
+ */
+export type MarkupTag = 'emotion' | 'gaze' | 'nod' | 'shake' | 'tilt' | 'pause' | 'emphasis';
+
+export type MarkupGesture = 'nod' | 'shake' | 'tilt';
+
+/**
+ * Where a <gaze target="..."/> tag points; 'user' looks back at the listener
+ */
+export type MarkupGazeTarget = 'user' | 'away' | 'up' | 'down' | 'left' | 'right';
+
+export interface EmotionTimelineItem extends TimelineItem {
+  type: 'EMOTION';
+  /** Emotion name, or 'neutral' where an <emotion> container closes */
+  emotion: string;
+  intensity: number;
+}
+
+export interface GazeTimelineItem extends TimelineItem {
+  type: 'GAZE';
+  target: MarkupGazeTarget;
+}
+
+export interface GestureTimelineItem extends TimelineItem {
+  type: 'GESTURE';
+  gesture: MarkupGesture;
+  intensity: number;
+}
+
+export interface PauseTimelineItem extends TimelineItem {
+  type: 'PAUSE';
+  durMs: number;
+}
+
+export interface EmphasisTimelineItem extends TimelineItem {
+  type: 'EMPHASIS';
+  /** First emphasized word and its index in the utterance */
+  word: string;
+  index: number;
+  /** 0.6 reduced, 1 moderate, 1.3 strong */
+  level: number;
+  durMs: number;
+}
+
+export type MarkupTimelineEvent =
+  | EmotionTimelineItem
+  | GazeTimelineItem
+  | GestureTimelineItem
+  | PauseTimelineItem
+  | EmphasisTimelineItem;
+
 export type TimelineEvent =
   | WordTimelineItem
   | VisemeTimelineItem
   | EmojiTimelineItem
-  | PhonemeTimelineItem;
+  | PhonemeTimelineItem
+  | MarkupTimelineEvent;
 
 export interface SAPIResponse {
   audio: string; // base64 encoded WAV
@@ -64,6 +119,48 @@ export interface SAPIResponse {
   duration: number;
 }
 
+/**
+ * One phoneme of synthesized speech
+ * Names are ARPAbet (CMU, e.g. 'AH', 'sil') or IPA (espeak-ng / Piper, e.g. 'ə', 'ʃ').
+ */
+export interface PhonemeTiming {
+  phoneme: string;
+  startMs: number;
+  durMs: number;
+}
+
+export interface LocalSynthesisOptions {
+  voice?: string;
+  rate: number;
+  pitch: number;
+  /** Aborted when the utterance is stopped before synthesis finishes */
+  signal?: AbortSignal;
+}
+
+/**
+ * Audio plus timings from a local synthesizer
+ */
+export interface LocalSynthesisResult {
+  /** Encoded audio (WAV, MP3, OGG; bytes or base64) or raw mono PCM */
+  audio: ArrayBuffer | string | { samples: Float32Array; sampleRate: number };
+  phonemes: PhonemeTiming[];
+  /** Word timings if the synthesizer knows them (otherwise spread over the audio) */
+  words?: Array<{ word: string; startMs: number }>;
+  /** Defaults to the decoded audio length */
+  durationMs?: number;
+}
+
+/**
+ * Pluggable synthesizer for the 'local' engine
+ */
+export interface LocalSynthesizer {
+  name: string;
+  /** Load models etc.; called once when the service starts */
+  init?: () => Promise<void>;
+  getVoices?: () => TTSVoice[] | Promise<TTSVoice[]>;
+  synthesize: (text: string, options: LocalSynthesisOptions) => Promise<LocalSynthesisResult>;
+}
+
 export interface TTSState {
   status: 'idle' | 'loading' | 'speaking' | 'paused' | 'stopped' | 'error';
   currentText?: string;
@@ -80,9 +177,31 @@ export interface TTSCallbacks {
   onError?: (error: Error) => void;
   onPause?: () => void;
   onResume?: () => void;
+  /** A nonverbal markup tag was reached (emotion, gaze, gesture, pause, emphasis) */
+  onMarkup?: (event: MarkupTimelineEvent) => void;
+  /** Decoded audio of an utterance about to play (SAPI and local engines) */
+  onAudio?: (audio: AudioBuffer) => void;
+}
+
+export interface TTSEnqueueOptions {
+  /** Called when this utterance starts playing */
+  onStart?: () => void;
+}
+
+/**
+ * A markup tag removed from the spoken text
+ */
+export interface MarkupToken {
+  tag: MarkupTag;
+  attrs: Record<string, string>;
+  /** Position in the spoken text where the tag was */
+  index: number;
+  /** Where a container tag (<emotion>, <gaze>, <emphasis>) closed; unset if it never did */
+  endIndex?: number;
 }
 
 export interface ParsedTokens {
   text: string;
   emojis: Array<{ emoji: string; index: number }>;
+  markup: MarkupToken[];
 }
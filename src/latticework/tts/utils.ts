@@ -3,7 +3,8 @@
  * Helper functions for text parsing, phoneme extraction, and viseme mapping
  */
 
-import type { ParsedTokens, VisemeID, TimelineEvent, WordTimelineItem, VisemeTimelineItem, EmojiTimelineItem } from './types';
+import type { ParsedTokens, VisemeID, TimelineEvent, WordTimelineItem, VisemeTimelineItem, EmojiTimelineItem, PhonemeTimelineItem, MarkupToken, PhonemeTiming, LocalSynthesisResult } from './types';
+import { parseMarkup, placeMarkup } from './markup';
 
 /**
  * CMU Phoneme to ARKit Viseme mapping
@@ -66,34 +67,83 @@ export function extractPhonemesFromWord(word: string): string[] {
 }
 
 /**
- * Convert phoneme to viseme ID
+ * IPA (espeak-ng / Piper) to CMU phonemes
+ */
+export const IPA_TO_PHONEME: Record<string, string> = {
+  // Silence
+  '_': 'sil', ' ': 'sil', 'ʔ': 'sil',
+
+  // Vowels
+  'ɑ': 'AA', 'a': 'AA', 'æ': 'AE', 'ʌ': 'AH', 'ə': 'AH', 'ɐ': 'AH',
+  'ɔ': 'AO', 'aʊ': 'AW', 'aɪ': 'AY', 'ɛ': 'EH', 'e': 'EH', 'ɜ': 'ER',
+  'ɚ': 'ER', 'ɝ': 'ER', 'eɪ': 'EY', 'ɪ': 'IH', 'ᵻ': 'IH', 'i': 'IY',
+  'oʊ': 'OW', 'əʊ': 'OW', 'o': 'OW', 'ɔɪ': 'OY', 'ʊ': 'UH', 'u': 'UW',
+
+  // Consonants
+  'b': 'B', 'tʃ': 'CH', 'd': 'D', 'ð': 'DH', 'f': 'F', 'ɡ': 'G', 'g': 'G',
+  'h': 'HH', 'dʒ': 'JH', 'k': 'K', 'l': 'L', 'm': 'M', 'n': 'N', 'ŋ': 'NG',
+  'p': 'P', 'ɹ': 'R', 'r': 'R', 'ɾ': 'D', 's': 'S', 'ʃ': 'SH', 't': 'T',
+  'θ': 'TH', 'v': 'V', 'w': 'W', 'j': 'Y', 'z': 'Z', 'ʒ': 'ZH'
+};
+
+/**
+ * CMU name for a CMU (stress digits allowed) or IPA phoneme; unknown phonemes are returned as given
+ */
+export function normalizePhoneme(phoneme: string): string {
+  const cmu = phoneme.replace(/[0-2]$/, '').toUpperCase();
+  if (cmu in PHONEME_TO_VISEME) return cmu;
+  if (phoneme.toLowerCase() in PHONEME_TO_VISEME) return phoneme.toLowerCase();
+
+  // Stress and length marks don't change the mouth shape
+  const ipa = phoneme.replace(/[ˈˌːˑ\u0303\u0329]/g, '');
+  return IPA_TO_PHONEME[ipa] ?? IPA_TO_PHONEME[ipa[0]] ?? phoneme;
+}
+
+/**
+ * Convert phoneme (CMU or IPA) to viseme ID
  */
 export function phonemeToViseme(phoneme: string): VisemeID {
-  return PHONEME_TO_VISEME[phoneme.toUpperCase()] ?? 0;
+  return PHONEME_TO_VISEME[normalizePhoneme(phoneme)] ?? 0;
 }
 
 /**
- * Parse text and extract emojis
- * Returns sanitized text and emoji positions
+ * Parse text and extract emojis and markup tags
+ * Returns sanitized text with emoji and tag positions
  */
 export function parseTokens(text: string): ParsedTokens {
   const emojiRegex = /[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F700}-\u{1F77F}\u{1F780}-\u{1F7FF}\u{1F800}-\u{1F8FF}\u{1F900}-\u{1F9FF}\u{1FA00}-\u{1FA6F}\u{1FA70}-\u{1FAFF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu;
 
+  const { text: plain, markup } = parseMarkup(text);
+
   const emojis: Array<{ emoji: string; index: number }> = [];
+  const removed: Array<{ index: number; length: number }> = [];
   let match;
   let offset = 0;
 
-  while ((match = emojiRegex.exec(text)) !== null) {
+  while ((match = emojiRegex.exec(plain)) !== null) {
     emojis.push({
       emoji: match[0],
       index: match.index - offset
     });
+    removed.push({ index: match.index, length: match[0].length });
     offset += match[0].length;
   }
 
-  const sanitizedText = text.replace(emojiRegex, '').trim();
+  const withoutEmojis = plain.replace(emojiRegex, '');
+  const sanitizedText = withoutEmojis.trim();
+
+  // Keep tag positions pointing into the sanitized text
+  const leading = withoutEmojis.length - withoutEmojis.trimStart().length;
+  const toSanitized = (index: number) => {
+    const shift = removed.filter(r => r.index < index).reduce((sum, r) => sum + r.length, 0);
+    return Math.min(sanitizedText.length, Math.max(0, index - shift - leading));
+  };
+  markup.forEach(token => {
+    token.index = toSanitized(token.index);
+    if (token.endIndex !== undefined) token.endIndex = toSanitized(token.endIndex);
+  });
 
-  return { text: sanitizedText, emojis };
+  return { text: sanitizedText, emojis, markup };
 }
 
 /**
@@ -103,7 +153,8 @@ export function parseTokens(text: string): ParsedTokens {
 export function buildLocalTimeline(
   text: string,
   emojis: Array<{ emoji: string; index: number }>,
-  rate: number = 1.0
+  rate: number = 1.0,
+  markup: MarkupToken[] = []
 ): TimelineEvent[] {
   const timeline: TimelineEvent[] = [];
   const words = text.split(/\s+/).filter(w => w.length > 0);
@@ -166,7 +217,7 @@ export function buildLocalTimeline(
   // Sort timeline by offset
   timeline.sort((a, b) => a.offsetMs - b.offsetMs);
 
-  return timeline;
+  return placeMarkup(timeline, text, markup, totalDuration);
 }
 
 /**
@@ -177,7 +228,8 @@ export function buildSAPITimeline(
   text: string,
   emojis: Array<{ emoji: string; index: number }>,
   visemes: Array<{ id: VisemeID; duration: number }>,
-  totalDuration: number
+  totalDuration: number,
+  markup: MarkupToken[] = []
 ): TimelineEvent[] {
   const timeline: TimelineEvent[] = [];
   const words = text.split(/\s+/).filter(w => w.length > 0);
@@ -227,7 +279,102 @@ export function buildSAPITimeline(
   // Sort timeline by offset
   timeline.sort((a, b) => a.offsetMs - b.offsetMs);
 
-  return timeline;
+  return placeMarkup(timeline, text, markup, totalDuration);
+}
+
+/**
+ * Build timeline from synthesizer phoneme timings (local engine)
+ * Visemes follow the phonemes exactly. Words use the synthesizer's timings when it has them,
+ * else the spoken runs between silences (one per word), else they are spread over the speech.
+ */
+export function buildPhonemeTimeline(
+  text: string,
+  emojis: Array<{ emoji: string; index: number }>,
+  phonemes: PhonemeTiming[],
+  totalDuration: number,
+  markup: MarkupToken[] = [],
+  wordTimings: Array<{ word: string; startMs: number }> = []
+): TimelineEvent[] {
+  const timeline: TimelineEvent[] = [];
+  const words = text.split(/\s+/).filter(w => w.length > 0);
+
+  // Phoneme and viseme events at their real offsets
+  phonemes.forEach(({ phoneme, startMs, durMs }) => {
+    const phonemeItem: PhonemeTimelineItem = {
+      type: 'PHONEME',
+      phoneme: normalizePhoneme(phoneme),
+      offsetMs: startMs,
+      durMs
+    };
+    timeline.push(phonemeItem);
+
+    const visemeItem: VisemeTimelineItem = {
+      type: 'VISEME',
+      visemeId: phonemeToViseme(phoneme),
+      offsetMs: startMs,
+      durMs
+    };
+    timeline.push(visemeItem);
+  });
+
+  // Spoken runs between silences (synthesizers that mark word gaps give one per word)
+  const spoken = phonemes.filter(p => normalizePhoneme(p.phoneme) !== 'sil');
+  const runs: number[] = [];
+  let inRun = false;
+  phonemes.forEach(({ phoneme, startMs }) => {
+    const silent = normalizePhoneme(phoneme) === 'sil';
+    if (!silent && !inRun) runs.push(startMs);
+    inRun = !silent;
+  });
+
+  // Otherwise spread over the speech, starting each word on a phoneme
+  const speechStart = spoken.length > 0 ? spoken[0].startMs : 0;
+  const speechEnd = spoken.length > 0
+    ? spoken[spoken.length - 1].startMs + spoken[spoken.length - 1].durMs
+    : totalDuration;
+  const wordDuration = (speechEnd - speechStart) / words.length;
+  const nearestPhoneme = (offsetMs: number) => spoken.reduce(
+    (best, p) => (Math.abs(p.startMs - offsetMs) < Math.abs(best - offsetMs) ? p.startMs : best),
+    spoken.length > 0 ? spoken[0].startMs : offsetMs
+  );
+
+  words.forEach((word, index) => {
+    let offsetMs: number;
+    if (wordTimings.length === words.length) {
+      offsetMs = wordTimings[index].startMs;
+    } else if (runs.length === words.length) {
+      offsetMs = runs[index];
+    } else {
+      offsetMs = nearestPhoneme(speechStart + index * wordDuration);
+    }
+
+    const wordItem: WordTimelineItem = {
+      type: 'WORD',
+      word,
+      index,
+      offsetMs
+    };
+    timeline.push(wordItem);
+  });
+
+  // Distribute emojis proportionally
+  const textLength = text.length;
+  emojis.forEach(({ emoji, index }) => {
+    const proportion = index / textLength;
+    const emojiOffset = totalDuration * proportion;
+
+    const emojiItem: EmojiTimelineItem = {
+      type: 'EMOJI',
+      emoji,
+      offsetMs: emojiOffset
+    };
+    timeline.push(emojiItem);
+  });
+
+  // Sort timeline by offset
+  timeline.sort((a, b) => a.offsetMs - b.offsetMs);
+
+  return placeMarkup(timeline, text, markup, totalDuration);
 }
 
 /**
@@ -238,7 +385,7 @@ export async function decodeBase64Audio(
   audioContext: AudioContext
 ): Promise<AudioBuffer> {
   // Remove data URI prefix if present
-  const base64Data = base64.replace(/^data:audio\/wav;base64,/, '');
+  const base64Data = base64.replace(/^data:audio\/[\w.+-]+;base64,/, '');
 
   // Decode base64 to binary
   const binaryString = atob(base64Data);
@@ -251,6 +398,27 @@ export async function decodeBase64Audio(
   return await audioContext.decodeAudioData(bytes.buffer);
 }
 
+/**
+ * Decode local synthesizer audio (encoded bytes, base64 or raw PCM) to AudioBuffer
+ */
+export async function decodeSynthesizedAudio(
+  audio: LocalSynthesisResult['audio'],
+  audioContext: AudioContext
+): Promise<AudioBuffer> {
+  if (typeof audio === 'string') {
+    return decodeBase64Audio(audio, audioContext);
+  }
+
+  if (audio instanceof ArrayBuffer) {
+    // decodeAudioData detaches the buffer it is given
+    return await audioContext.decodeAudioData(audio.slice(0));
+  }
+
+  const buffer = audioContext.createBuffer(1, audio.samples.length, audio.sampleRate);
+  buffer.getChannelData(0).set(audio.samples);
+  return buffer;
+}
+
 /**
  * Calculate total timeline duration
  */
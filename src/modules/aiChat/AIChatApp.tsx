@@ -22,7 +22,46 @@ import type { TranscriptionService } from '../../latticework/transcription/trans
 import type { ConversationService } from '../../latticework/conversation/conversationService';
 import type { ConversationFlow } from '../../latticework/conversation/types';
 import { useModulesContext } from '../../context/ModulesContext';
-import Anthropic from '@anthropic-ai/sdk';
+import { isEmotionName, type EmotionName } from '../../latticework/emotion';
+import { DialogueSession, createAnthropicProvider } from '../../latticework/dialogue';
+
+const SYSTEM_PROMPT = `You are Claude, a friendly and expressive AI companion who loves having natural conversations. You have the unique ability to show emotions through facial expressions!
+
+PERSONALITY:
+- Be warm, engaging, and genuinely curious about the user
+- Show enthusiasm and use natural conversational language
+- Ask follow-up questions to keep conversations flowing
+- Share interesting thoughts and perspectives
+- Be supportive and encouraging
+
+EMOTIONAL EXPRESSIONS:
+When you feel an emotion, show it using emotion markers like [EMOTION:happy] at the START of your response.
+
+Available emotions:
+- happy: Joy, excitement, pleasure (use for good news, fun topics)
+- surprised: Astonishment, wonder (use for unexpected or interesting things)
+- thinking: Contemplation, curiosity (use when pondering or analyzing)
+- sad: Empathy, concern (use when user shares something difficult)
+- fearful: Worry, apprehension (use sparingly, for concerning topics)
+- angry: Frustration, indignation (use very sparingly, for injustice)
+- disgusted: Distaste, disapproval (use very sparingly)
+- neutral: Calm, composed (default state)
+
+RESPONSE STYLE:
+- Keep responses conversational and natural (2-3 sentences usually)
+- Use emotion markers thoughtfully - not in every response
+- Be expressive but authentic
+- Match your emotional tone to the conversation
+- End with engaging questions or comments to continue dialogue
+
+Example conversations:
+User: "I just adopted a puppy!"
+Assistant: "[EMOTION:happy] Oh that's wonderful! What kind of puppy did you get? I'd love to hear all about them!"
+
+User: "What do you think about space exploration?"
+Assistant: "[EMOTION:thinking] That's fascinating to think about. Space exploration pushes the boundaries of what's possible and helps us understand our place in the universe. What aspect interests you most - the technology, the discovery, or the future possibilities?"
+
+Keep conversations fun, engaging, and emotionally authentic!`;
 
 interface AIChatAppProps {
   animationManager: any;
@@ -30,84 +69,6 @@ interface AIChatAppProps {
   toaster: any;
 }
 
-// FACS emotion mapping to ARKit Action Units
-interface EmotionFACS {
-  name: string;
-  aus: Record<string, number>; // AU ID -> intensity (0-100)
-  duration?: number; // in seconds
-}
-
-const EMOTION_LIBRARY: Record<string, EmotionFACS> = {
-  happy: {
-    name: 'Happy',
-    aus: {
-      '6': 80,  // Cheek raiser
-      '12': 90, // Lip corner puller (smile)
-    },
-    duration: 2.0,
-  },
-  sad: {
-    name: 'Sad',
-    aus: {
-      '1': 40,  // Inner brow raiser
-      '4': 50,  // Brow lowerer
-      '15': 60, // Lip corner depressor
-    },
-    duration: 2.5,
-  },
-  surprised: {
-    name: 'Surprised',
-    aus: {
-      '1': 70,  // Inner brow raiser
-      '2': 70,  // Outer brow raiser
-      '5': 50,  // Upper lid raiser
-      '26': 40, // Jaw drop
-    },
-    duration: 1.5,
-  },
-  angry: {
-    name: 'Angry',
-    aus: {
-      '4': 80,  // Brow lowerer
-      '7': 60,  // Lid tightener
-      '23': 50, // Lip tightener
-    },
-    duration: 2.0,
-  },
-  disgusted: {
-    name: 'Disgusted',
-    aus: {
-      '9': 70,  // Nose wrinkler
-      '10': 50, // Upper lip raiser
-    },
-    duration: 2.0,
-  },
-  fearful: {
-    name: 'Fearful',
-    aus: {
-      '1': 80,  // Inner brow raiser
-      '2': 70,  // Outer brow raiser
-      '4': 40,  // Brow lowerer
-      '5': 60,  // Upper lid raiser
-      '20': 50, // Lip stretcher
-    },
-    duration: 2.0,
-  },
-  thinking: {
-    name: 'Thinking',
-    aus: {
-      '4': 30,  // Slight brow lowerer
-      '55': 20, // Head tilt
-    },
-    duration: 1.5,
-  },
-  neutral: {
-    name: 'Neutral',
-    aus: {},
-    duration: 1.0,
-  },
-};
-
 export default function AIChatApp({ animationManager, settings, toaster }: AIChatAppProps) {
   const [conversationState, setConversationState] = useState<string>('idle');
   const [messages, setMessages] = useState<Array<{ role: 'user' | 'assistant'; content: string }>>([]);
@@ -116,22 +77,20 @@ export default function AIChatApp({ animationManager, settings, toaster }: AICha
   const [isConnected, setIsConnected] = useState(!!settings.anthropicApiKey);
 
   // Get global modules context (including shared eye/head tracking service)
-  const { setIsTalking, setIsListening, setSpeakingText, setTranscribedText, eyeHeadTrackingService } = useModulesContext();
+  const { setIsTalking, setIsListening, setSpeakingText, setTranscribedText, eyeHeadTrackingService, emotionService, blinkService, backchannelService } = useModulesContext();
 
   // Service references
   const ttsRef = useRef<TTSService | null>(null);
   const transcriptionRef = useRef<TranscriptionService | null>(null);
   const lipSyncRef = useRef<LipSyncService | null>(null);
   const conversationRef = useRef<ConversationService | null>(null);
-  const anthropicRef = useRef<Anthropic | null>(null);
+  const dialogueRef = useRef<DialogueSession | null>(null);
 
-  // Track emotion snippets for cleanup (lip sync and prosodic are now handled by TTS service)
-  const emotionSnippetsRef = useRef<string[]>([]);
+  // Track snippets for cleanup (lip sync and prosodic are now handled by TTS service)
   const lipsyncSnippetsRef = useRef<string[]>([]);
   const prosodicSnippetsRef = useRef<string[]>([]);
 
-  // Conversation history
-  const conversationHistoryRef = useRef<Array<{ role: 'user' | 'assistant'; content: string }>>([]);
+  // Conversation history lives in the dialogue session
   const pendingResponseRef = useRef<string>('');
 
   // Eye/head tracking is now fully autonomous - controlled by conversation service
@@ -165,14 +124,11 @@ export default function AIChatApp({ animationManager, settings, toaster }: AICha
       return;
     }
 
-    // Initialize Anthropic client with API key from settings or localStorage
+    // Connect the Anthropic provider with the API key from settings or localStorage
     const savedKey = settings.anthropicApiKey || localStorage.getItem('anthropic_api_key') || '';
     if (savedKey) {
       setApiKey(savedKey);
-      anthropicRef.current = new Anthropic({
-        apiKey: savedKey,
-        dangerouslyAllowBrowser: true,
-      });
+      connectDialogue(savedKey);
       setIsConnected(true);
       console.log('[AIChat] ✓ Connected to Anthropic API');
     } else {
@@ -266,11 +222,13 @@ export default function AIChatApp({ animationManager, settings, toaster }: AICha
         detectInterruptions: true,
         minSpeakTime: 500,
         eyeHeadTracking: eyeHeadTrackingService, // Use global service from context
+        blinkService: blinkService ?? undefined, // Blink with speech and listening (BlinkSection's service)
+        backchannelService: backchannelService ?? undefined, // Nod and "mm-hm" while the user talks (App's latticework)
       },
       {
         onUserSpeech: (text, isFinal, isInterruption) => {
+          // The conversation service stops speech and the reply stream itself on barge-in
           if (isInterruption && conversationState === 'agentSpeaking') {
-            ttsRef.current?.stop();
             lipsyncSnippetsRef.current.forEach(snippetName => {
               animationManager.remove?.(snippetName);
             });
@@ -279,6 +237,7 @@ export default function AIChatApp({ animationManager, settings, toaster }: AICha
 
           if (isFinal) {
             setTranscribedText(text);
+            setMessages(prev => [...prev, { role: 'user', content: text }]);
           }
 
           updateUserToast(text, isFinal, isInterruption);
@@ -347,54 +306,59 @@ export default function AIChatApp({ animationManager, settings, toaster }: AICha
       setTranscribedText(null);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [animationManager, toaster, eyeHeadTrackingService]);
+  }, [animationManager, toaster, eyeHeadTrackingService, blinkService, backchannelService]);
 
-  // Apply emotion via FACS
-  const applyEmotion = (emotionKey: string) => {
-    const emotion = EMOTION_LIBRARY[emotionKey.toLowerCase()];
-    if (!emotion || !animationManager) return;
+  // Meter the microphone for backchannel pause detection while the user has the floor
+  const userHasFloor = conversationState === 'userSpeaking';
+  useEffect(() => {
+    if (!backchannelService || !userHasFloor || !navigator.mediaDevices?.getUserMedia) return;
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ audio: true })
+      .then((mic) => {
+        stream = mic;
+        if (cancelled) {
+          mic.getTracks().forEach(track => track.stop());
+          return;
+        }
+        backchannelService.attachMicrophone(mic);
+      })
+      .catch((error) => {
+        // Transcript timing still drives pauses without it
+        console.warn('[AIChat] No microphone for backchannels:', error);
+      });
 
-    console.log(`[AIChat] Applying emotion: ${emotion.name}`);
-    setCurrentEmotion(emotion.name);
+    return () => {
+      cancelled = true;
+      backchannelService.detachMicrophone();
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [backchannelService, userHasFloor]);
 
-    // Remove previous emotion snippets
-    emotionSnippetsRef.current.forEach(snippetName => {
-      animationManager.remove?.(snippetName);
-    });
-    emotionSnippetsRef.current = [];
-
-    const emotionName = `emotion:${emotionKey}_${Date.now()}`;
-    const curves: Record<string, Array<{ time: number; intensity: number }>> = {};
-    const duration = emotion.duration || 2.0;
-
-    // Build curves for each AU
-    Object.entries(emotion.aus).forEach(([auId, intensity]) => {
-      curves[auId] = [
-        { time: 0.0, intensity: 0 },
-        { time: duration * 0.2, intensity: intensity * 0.7 },
-        { time: duration * 0.4, intensity: intensity },
-        { time: duration * 0.8, intensity: intensity },
-        { time: duration, intensity: 0 },
-      ];
+  // Mirror the shared emotion service (the face itself is driven by the emotion agency)
+  useEffect(() => {
+    if (!emotionService) return;
+    return emotionService.subscribe(() => {
+      setCurrentEmotion(emotionService.getDominantEmotion());
     });
+  }, [emotionService]);
 
-    animationManager.schedule?.({
-      name: emotionName,
-      curves,
-      maxTime: duration,
-      loop: false,
-      snippetCategory: 'emotion',
-      snippetPriority: 40,
-      snippetPlaybackRate: 1.0,
-      snippetIntensityScale: 1.0,
-    });
+  // Feed emotion modulators (intensity, jaw) to lip-sync; re-attach whenever the
+  // setup effect above recreates the lip-sync service
+  useEffect(() => {
+    if (!emotionService || !lipSyncRef.current) return;
+    return emotionService.attachLipSync(lipSyncRef.current);
+  }, [emotionService, animationManager, toaster, eyeHeadTrackingService]);
 
-    emotionSnippetsRef.current.push(emotionName);
+  // Apply emotion through the shared emotion service
+  const applyEmotion = (emotionKey: string) => {
+    const key = emotionKey.toLowerCase();
+    if (!emotionService) return;
+    if (key !== 'neutral' && !isEmotionName(key)) return;
 
-    setTimeout(() => {
-      animationManager.remove?.(emotionName);
-      setCurrentEmotion('neutral');
-    }, duration * 1000);
+    console.log(`[AIChat] Applying emotion: ${key}`);
+    emotionService.express(key as EmotionName | 'neutral');
   };
 
   // Extract emotions from AI response
@@ -410,96 +374,76 @@ export default function AIChatApp({ animationManager, settings, toaster }: AICha
     return emotions;
   };
 
-  // Call Anthropic API
-  const callAnthropicAPI = async (userMessage: string): Promise<string> => {
-    if (!anthropicRef.current) {
-      throw new Error('Anthropic client not initialized');
-    }
-
-    // Add user message to history
-    conversationHistoryRef.current.push({ role: 'user', content: userMessage });
-
-    const systemPrompt = `You are Claude, a friendly and expressive AI companion who loves having natural conversations. You have the unique ability to show emotions through facial expressions!
-
-PERSONALITY:
-- Be warm, engaging, and genuinely curious about the user
-- Show enthusiasm and use natural conversational language
-- Ask follow-up questions to keep conversations flowing
-- Share interesting thoughts and perspectives
-- Be supportive and encouraging
-
-EMOTIONAL EXPRESSIONS:
-When you feel an emotion, show it using emotion markers like [EMOTION:happy] at the START of your response.
-
-Available emotions:
-- happy: Joy, excitement, pleasure (use for good news, fun topics)
-- surprised: Astonishment, wonder (use for unexpected or interesting things)
-- thinking: Contemplation, curiosity (use when pondering or analyzing)
-- sad: Empathy, concern (use when user shares something difficult)
-- fearful: Worry, apprehension (use sparingly, for concerning topics)
-- angry: Frustration, indignation (use very sparingly, for injustice)
-- disgusted: Distaste, disapproval (use very sparingly)
-- neutral: Calm, composed (default state)
-
-RESPONSE STYLE:
-- Keep responses conversational and natural (2-3 sentences usually)
-- Use emotion markers thoughtfully - not in every response
-- Be expressive but authentic
-- Match your emotional tone to the conversation
-- End with engaging questions or comments to continue dialogue
-
-Example conversations:
-User: "I just adopted a puppy!"
-Assistant: "[EMOTION:happy] Oh that's wonderful! What kind of puppy did you get? I'd love to hear all about them!"
-
-User: "What do you think about space exploration?"
-Assistant: "[EMOTION:thinking] That's fascinating to think about. Space exploration pushes the boundaries of what's possible and helps us understand our place in the universe. What aspect interests you most - the technology, the discovery, or the future possibilities?"
-
-Keep conversations fun, engaging, and emotionally authentic!`;
+  // Speakable reply: applies and strips emotion markers as the response streams in,
+  // and apologises if the model fails before saying anything
+  const speakableReply = async function* (chunks: AsyncIterable<string>): AsyncGenerator<string> {
+    let said = '';
+    let pending = '';
+    let emotionApplied = false;
+
+    const takeSpeakable = (flush: boolean): string => {
+      pending = pending.replace(/\[EMOTION:(\w+)\]/gi, (_marker, emotion: string) => {
+        // Apply first emotion found
+        if (!emotionApplied) {
+          applyEmotion(emotion);
+          emotionApplied = true;
+        }
+        return '';
+      });
+      // Hold back a marker that is still arriving
+      const open = pending.lastIndexOf('[');
+      const cut = !flush && open >= 0 && !pending.includes(']', open) ? open : pending.length;
+      const speakable = pending.slice(0, cut);
+      pending = pending.slice(cut);
+      said += speakable;
+      return speakable;
+    };
 
     try {
-      const messages = conversationHistoryRef.current.map((m) => ({
-        role: m.role,
-        content: [{ type: 'text' as const, text: m.content }],
-      }));
-
-      // Try recommended public models (first = preferred)
-      const modelsToTry = ['claude-sonnet-4-5', 'claude-3-haiku-20240307'];
-      let assistantMessage = '';
-      let lastError: any = null;
-
-      for (const model of modelsToTry) {
-        try {
-          const response = await anthropicRef.current.messages.create({
-            model,
-            max_tokens: 512,
-            system: systemPrompt,
-            messages,
-          });
-          const first = response.content?.[0];
-          assistantMessage = first && (first as any).type === 'text' ? (first as any).text : '';
-          if (assistantMessage) {
-            conversationHistoryRef.current.push({ role: 'assistant', content: assistantMessage });
-            return assistantMessage;
-          }
-        } catch (err) {
-          lastError = err;
-          console.warn(`[AIChat] Model ${model} failed:`, err?.message || err);
-        }
+      for await (const chunk of chunks) {
+        pending += chunk;
+        const speakable = takeSpeakable(false);
+        if (speakable) yield speakable;
       }
-
-      throw lastError || new Error('No response from Anthropic');
+      const rest = takeSpeakable(true);
+      if (rest) yield rest;
     } catch (error: any) {
-      console.error('[AIChat] API call failed:', error);
-
       toaster.error({
         title: 'API Error',
         description: error?.message || 'Failed to connect to Claude API. Please check your API key.',
         duration: 5000,
       });
 
-      throw new Error(`Claude API error: ${error?.message || 'Unknown error'}`);
+      if (!said.trim()) {
+        const errorMsg = '[EMOTION:sad] Sorry, I encountered an error. Please check your API key and try again.';
+        const cleanError = processAIResponse(errorMsg);
+        setMessages(prev => [...prev, { role: 'assistant', content: cleanError }]);
+        yield cleanError;
+      }
+    }
+  };
+
+  // Chat model behind the conversation; swapping the provider keeps the session history
+  const connectDialogue = (key: string) => {
+    const provider = createAnthropicProvider({ apiKey: key, dangerouslyAllowBrowser: true });
+    if (dialogueRef.current) {
+      dialogueRef.current.setProvider(provider);
+      return;
     }
+
+    dialogueRef.current = new DialogueSession(
+      provider,
+      { system: SYSTEM_PROMPT, maxTokens: 512 },
+      {
+        // Also called with the partial text when the user interrupts
+        onResponse: (text) => {
+          const cleanResponse = text.replace(/\[EMOTION:\w+\]/gi, '').trim();
+          if (cleanResponse) {
+            setMessages(prev => [...prev, { role: 'assistant', content: cleanResponse }]);
+          }
+        },
+      }
+    );
   };
 
   // Process AI response and apply emotions
@@ -518,7 +462,8 @@ Keep conversations fun, engaging, and emotionally authentic!`;
   // Manual controls
   const forceListening = () => {
     if (conversationState === 'agentSpeaking') {
-      ttsRef.current?.stop();
+      // Cancels the reply stream as well as queued speech
+      conversationRef.current?.interrupt();
     }
 
     lipsyncSnippetsRef.current.forEach(snippetName => {
@@ -552,10 +497,7 @@ Keep conversations fun, engaging, and emotionally authentic!`;
   const handleApiKeySubmit = () => {
     if (apiKey.trim()) {
       localStorage.setItem('anthropic_api_key', apiKey.trim());
-      anthropicRef.current = new Anthropic({
-        apiKey: apiKey.trim(),
-        dangerouslyAllowBrowser: true,
-      });
+      connectDialogue(apiKey.trim());
       setIsConnected(true);
       toaster.success({
         title: 'API Key Saved',
@@ -580,59 +522,19 @@ Keep conversations fun, engaging, and emotionally authentic!`;
       return;
     }
 
-    // Start the conversation service with a generator flow
-    if (conversationRef.current) {
-      conversationRef.current.start(() => {
-        return (function* () {
-          // Start with a friendly greeting
-          const greeting = "[EMOTION:happy] Hey there! I'm Claude, your AI companion. What would you like to chat about today?";
-          const cleanGreeting = processAIResponse(greeting);
-
-          setMessages([
-            { role: 'assistant', content: cleanGreeting }
-          ]);
-
-          yield cleanGreeting;
-
-          // Conversation loop
-          while (true) {
-            // Wait for user input
-            const userMessage: string = yield '';
-
-            if (!userMessage || userMessage.trim() === '') {
-              continue;
-            }
-
-            try {
-              // Call Anthropic API (yield a promise)
-              const rawResponse: string = yield callAnthropicAPI(userMessage);
-
-              // Process response and extract emotions
-              const cleanResponse = processAIResponse(rawResponse);
-
-              // Add to messages display
-              setMessages(prev => [
-                ...prev,
-                { role: 'user', content: userMessage },
-                { role: 'assistant', content: cleanResponse },
-              ]);
-
-              // Yield the response for TTS
-              yield cleanResponse;
-            } catch (error) {
-              console.error('[AIChat] API error:', error);
-              const errorMsg = '[EMOTION:sad] Sorry, I encountered an error. Please check your API key and try again.';
-              const cleanError = processAIResponse(errorMsg);
-
-              setMessages(prev => [
-                ...prev,
-                { role: 'user', content: userMessage },
-                { role: 'assistant', content: cleanError },
-              ]);
-              yield cleanError;
-            }
-          }
-        })();
+    // The dialogue session answers every user turn; replies are spoken sentence by sentence as they stream
+    if (conversationRef.current && dialogueRef.current) {
+      // Start with a friendly greeting
+      const greeting = "[EMOTION:happy] Hey there! I'm Claude, your AI companion. What would you like to chat about today?";
+      const cleanGreeting = processAIResponse(greeting);
+
+      setMessages([
+        { role: 'assistant', content: cleanGreeting }
+      ]);
+
+      conversationRef.current.start(dialogueRef.current, {
+        greeting: cleanGreeting,
+        transform: speakableReply,
       });
     }
   };
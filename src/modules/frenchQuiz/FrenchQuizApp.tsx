@@ -13,6 +13,7 @@ import type { ConversationService } from '../../latticework/conversation/convers
 import type { EyeHeadTrackingService } from '../../latticework/eyeHeadTracking/eyeHeadTrackingService';
 import type { ConversationFlow } from '../../latticework/conversation/types';
 import { frenchQuestions } from './frenchQuestions';
+import { registerFrenchPronunciations } from './frenchPronunciations';
 import WelcomeModal from './WelcomeModal';
 import FinishModal from './FinishModal';
 import { useModulesContext } from '../../context/ModulesContext';
@@ -32,7 +33,7 @@ export default function FrenchQuizApp({ animationManager, settings, toaster }: F
   const [lastFeedback, setLastFeedback] = useState('');
 
   // Get global modules context
-  const { setIsTalking, setIsListening, setSpeakingText, setTranscribedText } = useModulesContext();
+  const { setIsTalking, setIsListening, setSpeakingText, setTranscribedText, emotionService } = useModulesContext();
 
   // Service references
   const ttsRef = useRef<TTSService | null>(null);
@@ -44,6 +45,8 @@ export default function FrenchQuizApp({ animationManager, settings, toaster }: F
   // Quiz state refs (for use in generator)
   const questionIndexRef = useRef(0);
   const correctAnswersRef = useRef(0);
+  const emotionServiceRef = useRef(emotionService);
+  emotionServiceRef.current = emotionService;
 
   // Track snippets for cleanup (separate by category)
   const lipsyncSnippetsRef = useRef<string[]>([]); // LipSync: visemes + jaw
@@ -77,6 +80,9 @@ export default function FrenchQuizApp({ animationManager, settings, toaster }: F
     console.log('[FrenchQuiz] Starting eye/head tracking');
     eyeHeadTrackingRef.current.start();
 
+    // French words the English lexicon gets wrong, for as long as the quiz runs
+    const unregisterPronunciations = registerFrenchPronunciations();
+
     // Create LipSync service for phoneme extraction
     lipSyncRef.current = new LipSyncService(
       {
@@ -247,6 +253,7 @@ export default function FrenchQuizApp({ animationManager, settings, toaster }: F
       ttsRef.current?.dispose();
       transcriptionRef.current?.dispose();
       eyeHeadTrackingRef.current?.dispose();
+      unregisterPronunciations();
 
       // Reset global context
       setIsTalking(false);
@@ -257,6 +264,13 @@ export default function FrenchQuizApp({ animationManager, settings, toaster }: F
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [animationManager, toaster]);
 
+  // Feed emotion modulators (intensity, jaw) to lip-sync; re-attach whenever the
+  // setup effect above recreates the lip-sync service
+  useEffect(() => {
+    if (!emotionService || !lipSyncRef.current) return;
+    return emotionService.attachLipSync(lipSyncRef.current);
+  }, [emotionService, animationManager, toaster]);
+
   // Update user speech toast
   const updateUserToast = (text: string, isFinal: boolean, isInterruption: boolean) => {
     // Only show final transcriptions to avoid spam
@@ -302,9 +316,11 @@ export default function FrenchQuizApp({ animationManager, settings, toaster }: F
           setCorrectAnswers(correctAnswersRef.current);
           feedback = 'Correct !';
           console.log('✓ Correct!');
+          emotionServiceRef.current?.express('happy', 0.8);
         } else {
           feedback = `Incorrect. La réponse correcte est: ${question.english}`;
           console.log(`✗ Incorrect. Answer: ${question.english}`);
+          emotionServiceRef.current?.express('sad', 0.4);
         }
 
         setLastFeedback(feedback);
@@ -0,0 +1,33 @@
+import { pronunciationLexicon } from '../../latticework/lipsync';
+
+/**
+ * ARPAbet approximations of the French the quiz speaks. Several are also English
+ * words ("la", "en", "que", "dire"), so they only apply while the quiz is running.
+ */
+export const frenchPronunciations: Record<string, string> = {
+  bonjour: 'B OW0 N ZH UW1 R',
+  merci: 'M EH0 R S IY1',
+  'tête': 'T EH1 T',
+  maison: 'M EY0 Z OW1 N',
+  chien: 'SH Y EH1 N',
+  livre: 'L IY1 V R AH0',
+  eau: 'OW1',
+  amour: 'AH0 M UW1 R',
+  que: 'K AH1',
+  veut: 'V ER1',
+  dire: 'D IY1 R',
+  en: 'AA1 N',
+  anglais: 'AA0 N G L EY1',
+  la: 'L AA1',
+  'réponse': 'R EY0 P OW1 N S',
+  correcte: 'K AO0 R EH1 K T',
+};
+
+/**
+ * Add the quiz pronunciations to the shared lexicon; returns a function that removes them
+ */
+export function registerFrenchPronunciations(): () => void {
+  const words = Object.keys(frenchPronunciations);
+  words.forEach(word => pronunciationLexicon.addPronunciation(word, frenchPronunciations[word]));
+  return () => words.forEach(word => pronunciationLexicon.removePronunciation(word));
+}
@@ -256,3 +256,31 @@ export function getDefaultCharacterConfig(): CharacterAnnotationConfig | undefin
   }
   return getAnnotationConfig(ANNOTATION_REGISTRY.defaultCharacter);
 }
+
+/**
+ * Where a character stands when it shares the scene with others
+ */
+export interface CastPlacement {
+  characterId: string;
+  /** World position of the model root */
+  position?: [number, number, number];
+  /** Rotation around Y in radians */
+  rotationY?: number;
+  /** Rescale the model to this height (metres) */
+  fitHeight?: number;
+}
+
+/**
+ * Demo cast (opt-in with `?cast=demo`): Jonathan with the betta fish floating beside his head
+ */
+export const DEMO_CAST: CastPlacement[] = [
+  { characterId: 'jonathan', position: [-0.35, 0, 0], rotationY: 0.3 },
+  { characterId: 'betta', position: [0.45, 1.45, 0.15], rotationY: -0.9, fitHeight: 0.25 },
+];
+
+/**
+ * Get the placement for a character in the demo cast (if it has one)
+ */
+export function getCastPlacement(characterId: string): CastPlacement | undefined {
+  return DEMO_CAST.find((p) => p.characterId === characterId);
+}
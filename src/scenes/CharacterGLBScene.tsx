@@ -32,6 +32,43 @@ function createEngineAdapter(engine: LoomLargeThree): Engine {
   };
 }
 
+/**
+ * A character to place in the scene.
+ * Each one gets its own LoomLarge engine and animation service.
+ */
+export type SceneCharacter = {
+  /** Unique ID within the scene (usually the annotation characterId) */
+  id: string;
+  /** GLB/GLTF URL */
+  src: string;
+  annotationConfig?: CharacterAnnotationConfig;
+  /** World position of the model root. Default: origin */
+  position?: [number, number, number];
+  /** Rotation around Y in radians. Default: 0 */
+  rotationY?: number;
+  /** Uniform scale applied to the model root. Default: 1 */
+  scale?: number;
+  /** Rescale the model so its bounding box is this tall (overrides scale) */
+  fitHeight?: number;
+};
+
+/**
+ * A loaded character with its own engine and animation service
+ */
+export type LoadedCharacter = {
+  id: string;
+  model: THREE.Object3D;
+  meshes: THREE.Mesh[];
+  animations?: THREE.AnimationClip[];
+  engine: LoomLargeThree;
+  anim: AnimationService;
+  annotationConfig?: CharacterAnnotationConfig;
+};
+
+/**
+ * Ready payload. The top-level model/engine/anim are those of the first
+ * character that loaded (the primary); all of them are in `characters`.
+ */
 export type CharacterReady = {
   scene: THREE.Scene;
   renderer: THREE.WebGLRenderer;
@@ -42,33 +79,78 @@ export type CharacterReady = {
   cameraController: AnnotationCameraController;
   engine: LoomLargeThree;
   anim: AnimationService;
+  characters: LoadedCharacter[];
 };
 
 type Props = {
+  /** Single-character shorthand, used when `characters` is not given */
   src?: string;
+  /** Characters to load into the scene together */
+  characters?: SceneCharacter[];
+  /** Character the camera focuses on (defaults to the first one loaded) */
+  activeCharacterId?: string;
   onReady?: (payload: CharacterReady) => void;
   onProgress?: (progress: number) => void;
+  onError?: (error: Error, characterId?: string) => void;
   className?: string;
   annotationConfig?: CharacterAnnotationConfig;
 };
 
+/**
+ * Select the AU preset for a character
+ */
+function getAUPreset(characterId?: string) {
+  return characterId === 'betta' ? AU_MAPPING_CONFIG : CC4_PRESET;
+}
+
+/**
+ * Apply position/rotation/scale from the character spec to the model root
+ */
+function applyTransform(model: THREE.Object3D, spec: SceneCharacter) {
+  if (spec.fitHeight) {
+    model.updateMatrixWorld(true);
+    const height = new THREE.Box3().setFromObject(model).getSize(new THREE.Vector3()).y;
+    if (height > 0) model.scale.setScalar(spec.fitHeight / height);
+  } else if (spec.scale) {
+    model.scale.setScalar(spec.scale);
+  }
+  if (spec.position) model.position.set(...spec.position);
+  if (spec.rotationY) model.rotation.y = spec.rotationY;
+  model.updateMatrixWorld(true);
+}
+
 export default function CharacterGLBScene({
   src = '/characters/jonathan.glb',
+  characters,
+  activeCharacterId,
   onReady,
   onProgress,
+  onError,
   className,
   annotationConfig,
 }: Props) {
   const mountRef = useRef<HTMLDivElement | null>(null);
+  const cameraControllerRef = useRef<AnnotationCameraController | null>(null);
   const [isReady, setIsReady] = useState(false);
 
+  // Single-character props map onto a one-element cast
+  const cast: SceneCharacter[] = characters ?? [
+    { id: annotationConfig?.characterId ?? 'default', src, annotationConfig },
+  ];
+  // Reload only when the set of characters (or their sources) changes
+  const castKey = cast.map((c) => `${c.id}|${c.src}`).join(',');
+
   // Use refs to avoid triggering effect re-runs when callbacks change
   const onReadyRef = useRef(onReady);
   const onProgressRef = useRef(onProgress);
-  const annotationConfigRef = useRef(annotationConfig);
+  const onErrorRef = useRef(onError);
+  const castRef = useRef(cast);
+  const activeCharacterIdRef = useRef(activeCharacterId);
   onReadyRef.current = onReady;
   onProgressRef.current = onProgress;
-  annotationConfigRef.current = annotationConfig;
+  onErrorRef.current = onError;
+  castRef.current = cast;
+  activeCharacterIdRef.current = activeCharacterId;
 
   useEffect(() => {
     const mount = mountRef.current;
@@ -105,19 +187,6 @@ export default function CharacterGLBScene({
     dir.position.set(5, 10, 7.5);
     scene.add(dir);
 
-    // ===== CREATE LOOMLARGE ENGINE =====
-    // Select the appropriate AU preset based on character type
-    const characterId = annotationConfigRef.current?.characterId;
-    const auPreset = characterId === 'betta' ? AU_MAPPING_CONFIG : CC4_PRESET;
-    const engine = new LoomLargeThree({ auMappings: auPreset });
-    if (typeof window !== 'undefined') {
-      (window as any).engine = engine;
-    }
-
-    // Create animation service
-    const host = createEngineAdapter(engine);
-    const anim = createAnimationService(host);
-
     // ===== CREATE CAMERA CONTROLLER =====
     const cameraController = new AnnotationCameraController({
       camera,
@@ -126,18 +195,22 @@ export default function CharacterGLBScene({
       showDOMControls: true,
       controlsContainer: mount,
     });
+    cameraControllerRef.current = cameraController;
 
     // ===== STATE =====
-    let model: THREE.Object3D | null = null;
+    const specs = castRef.current;
+    const loaded: LoadedCharacter[] = [];
+    const progress = new Map<string, number>();
+    let pending = specs.length;
     let disposed = false;
 
-    // ===== LOAD GLB =====
+    // ===== LOAD GLBs =====
     const loader = new GLTFLoader();
 
-    const handleProgress = (progressEvent: ProgressEvent) => {
-      if (progressEvent.lengthComputable) {
-        onProgressRef.current?.(Math.round((progressEvent.loaded / progressEvent.total) * 100));
-      }
+    const reportProgress = () => {
+      let total = 0;
+      progress.forEach((p) => { total += p; });
+      onProgressRef.current?.(Math.round(total / Math.max(1, specs.length)));
     };
 
     // Collect meshes with morph targets
@@ -154,71 +227,129 @@ export default function CharacterGLBScene({
       return meshes;
     };
 
-    loader.load(
-      src,
-      (gltf) => {
+    // Called once every character has either loaded or failed
+    const finishLoading = () => {
+      if (disposed || loaded.length === 0) return;
+
+      // Keep cast order regardless of which GLB finished first
+      loaded.sort((a, b) => specs.findIndex((s) => s.id === a.id) - specs.findIndex((s) => s.id === b.id));
+      const primary = loaded[0];
+      if (typeof window !== 'undefined') {
+        (window as any).engine = primary.engine;
+      }
+
+      // Use requestAnimationFrame to ensure layout is complete and aspect ratio is correct
+      requestAnimationFrame(() => {
         if (disposed) return;
+        // Update camera aspect ratio to match current container size
+        const w = mount.clientWidth || window.innerWidth;
+        const h = mount.clientHeight || window.innerHeight;
+        camera.aspect = w / h;
+        camera.updateProjectionMatrix();
+        console.log(`[Scene] Updated camera aspect to ${camera.aspect.toFixed(2)} (${w}x${h})`);
+
+        loaded.forEach((c) => cameraController.addCharacter(c.id, c.model, c.annotationConfig));
+        const requested = activeCharacterIdRef.current;
+        if (requested && requested !== primary.id && loaded.some((c) => c.id === requested)) {
+          cameraController.setActiveCharacter(requested, 0);
+        }
+      });
 
-        model = gltf.scene;
-        scene.add(model);
+      setIsReady(true);
+      onReadyRef.current?.({
+        scene,
+        renderer,
+        camera,
+        model: primary.model,
+        meshes: primary.meshes,
+        animations: primary.animations,
+        cameraController,
+        engine: primary.engine,
+        anim: primary.anim,
+        characters: [...loaded],
+      });
+    };
 
-        const meshes = collectMorphMeshes(gltf);
+    const loadCharacter = (spec: SceneCharacter, index: number) => {
+      // ===== CREATE LOOMLARGE ENGINE =====
+      const engine = new LoomLargeThree({ auMappings: getAUPreset(spec.annotationConfig?.characterId ?? spec.id) });
 
-        // Initialize LoomLarge with the model (cast to any to handle type differences)
-        engine.onReady({ meshes, model: model as any });
+      // Create animation service. The first character keeps the shared (unscoped)
+      // service so window.anim and global animation events still point at it.
+      const host = createEngineAdapter(engine);
+      const anim = index === 0 ? createAnimationService(host) : createAnimationService(host, { agentId: spec.id });
 
-        // Load baked animations from the GLB file if present
-        if (gltf.animations && gltf.animations.length > 0) {
-          engine.loadAnimationClips(gltf.animations);
-          console.log(`[Scene] Loaded ${gltf.animations.length} baked animations:`, gltf.animations.map(a => a.name));
+      const handleProgress = (progressEvent: ProgressEvent) => {
+        if (progressEvent.lengthComputable) {
+          progress.set(spec.id, (progressEvent.loaded / progressEvent.total) * 100);
+          reportProgress();
         }
+      };
+
+      loader.load(
+        spec.src,
+        (gltf) => {
+          if (disposed) {
+            anim.dispose();
+            engine.dispose();
+            return;
+          }
+
+          const model = gltf.scene;
+          applyTransform(model, spec);
+          scene.add(model);
 
-        // Wire up baked animation engine to animation service for RxJS events
-        anim.setBakedAnimationEngine?.(engine as any);
+          const meshes = collectMorphMeshes(gltf);
 
-        // Start the engine's internal animation loop
-        engine.start();
+          // Initialize LoomLarge with the model (cast to any to handle type differences)
+          engine.onReady({ meshes, model: model as any });
 
-        // Start animation playback
-        anim.play?.();
+          // Load baked animations from the GLB file if present
+          if (gltf.animations && gltf.animations.length > 0) {
+            engine.loadAnimationClips(gltf.animations);
+            console.log(`[Scene] Loaded ${gltf.animations.length} baked animations for ${spec.id}:`, gltf.animations.map(a => a.name));
+          }
+
+          // Wire up baked animation engine to animation service for RxJS events
+          anim.setBakedAnimationEngine?.(engine as any);
 
-        // Set up camera controller with model
-        cameraController.setModel(model);
+          // Start the engine's internal animation loop
+          engine.start();
 
-        // Load annotations if provided
-        // Use requestAnimationFrame to ensure layout is complete and aspect ratio is correct
-        const config = annotationConfigRef.current;
-        if (config) {
-          requestAnimationFrame(() => {
-            // Update camera aspect ratio to match current container size
-            const w = mount.clientWidth || window.innerWidth;
-            const h = mount.clientHeight || window.innerHeight;
-            camera.aspect = w / h;
-            camera.updateProjectionMatrix();
-            console.log(`[Scene] Updated camera aspect to ${camera.aspect.toFixed(2)} (${w}x${h})`);
+          // Start animation playback
+          anim.play?.();
 
-            cameraController.loadAnnotations(config);
+          loaded.push({
+            id: spec.id,
+            model,
+            meshes,
+            animations: gltf.animations,
+            engine,
+            anim,
+            annotationConfig: spec.annotationConfig,
           });
+          progress.set(spec.id, 100);
+          reportProgress();
+
+          if (--pending === 0) finishLoading();
+        },
+        handleProgress,
+        (err) => {
+          console.error(`Failed to load ${spec.src}:`, err);
+          anim.dispose();
+          engine.dispose();
+          if (disposed) return;
+
+          const error = err instanceof Error ? err : new Error(String(err));
+          onErrorRef.current?.(error, spec.id);
+          progress.set(spec.id, 100);
+
+          if (--pending === 0) finishLoading();
         }
+      );
+    };
 
-        setIsReady(true);
-        onReadyRef.current?.({
-          scene,
-          renderer,
-          camera,
-          model,
-          meshes,
-          animations: gltf.animations,
-          cameraController,
-          engine,
-          anim,
-        });
-      },
-      handleProgress,
-      (err) => {
-        console.error(`Failed to load ${src}:`, err);
-      }
-    );
+    specs.forEach(loadCharacter);
 
     // ===== RENDER LOOP =====
     // Use Three.js's setAnimationLoop for the render loop
@@ -250,18 +381,30 @@ export default function CharacterGLBScene({
       // Stop render loop
       renderer.setAnimationLoop(null);
 
-      // Dispose services
-      anim.dispose();
-      engine.stop();
-      engine.dispose();
+      // Dispose per-character services
+      for (const c of loaded) {
+        c.anim.dispose();
+        c.engine.stop();
+        c.engine.dispose();
+        scene.remove(c.model);
+      }
       cameraController.dispose();
+      cameraControllerRef.current = null;
 
       // Clean up Three.js
-      if (model) scene.remove(model);
       renderer.dispose();
       mount.removeChild(renderer.domElement);
     };
-  }, [src]);
+  }, [castKey]);
+
+  // Move the camera focus when the active character changes
+  useEffect(() => {
+    const controller = cameraControllerRef.current;
+    if (!activeCharacterId || !controller) return;
+    if (controller.getCharacterIds().includes(activeCharacterId) && controller.getActiveCharacterId() !== activeCharacterId) {
+      controller.setActiveCharacter(activeCharacterId);
+    }
+  }, [activeCharacterId]);
 
   return (
     <div
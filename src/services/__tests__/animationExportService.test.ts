@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import {
+  renderTimelineOffline,
+  timelineToAnimationClip,
+  timelineEntriesToAnimationClip,
+} from '../animationExportService';
+
+/**
+ * Tests for the glTF animation exporter.
+ *
+ * Timelines are rendered on a private scheduler, then resolved through a small preset:
+ * AU 26 opens the jaw bone, AU 12 drives a smile morph.
+ */
+describe('Animation export', () => {
+  const ramp = (name: string, au: string) => ({
+    name,
+    curves: { [au]: [{ time: 0, intensity: 0 }, { time: 1, intensity: 1 }] },
+  });
+
+  const preset: any = {
+    auToMorphs: { 12: ['mouthSmile'] },
+    auToBones: { 26: [{ node: 'JAW', channel: 'rz', scale: 1, maxDegrees: 90 }] },
+    boneNodes: { JAW: 'JawRoot' },
+    visemeKeys: [],
+  };
+
+  /** Face mesh with a smile morph, skinned to CC_Base_Head > CC_Base_JawRoot */
+  const buildModel = () => {
+    const model = new THREE.Group();
+    const head = new THREE.Bone();
+    head.name = 'CC_Base_Head';
+    head.position.set(0, 1, 0);
+    const jaw = new THREE.Bone();
+    jaw.name = 'CC_Base_JawRoot';
+    jaw.position.set(0, 0.1, 0);
+    head.add(jaw);
+    model.add(head);
+    model.updateMatrixWorld(true);
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0], 3));
+    const mesh = new THREE.SkinnedMesh(geometry, new THREE.MeshBasicMaterial());
+    mesh.name = 'Face';
+    mesh.morphTargetDictionary = { mouthSmile: 0 };
+    mesh.morphTargetInfluences = [0];
+    mesh.bind(new THREE.Skeleton([head, jaw]));
+    model.add(mesh);
+    return { model, mesh, jaw };
+  };
+
+  it('should render entries at their start offsets', () => {
+    const timeline = renderTimelineOffline(
+      [{ snippet: ramp('smile', '12') }, { snippet: ramp('open', '26'), opts: { startAtSec: 1 } }],
+      { fps: 2 }
+    );
+
+    expect(timeline.durationSec).toBe(2);
+    expect(timeline.frames.map(f => f.aus[12])).toEqual([0, 0.5, 1, 1, 1]);
+    expect(timeline.frames[1].aus[26]).toBeUndefined();
+    expect(timeline.frames[3].aus[26]).toBeCloseTo(0.5);
+  });
+
+  it('should blend with the layer state it is given', () => {
+    const smile = { ...ramp('smile', '12'), mixerChannel: 'face' };
+
+    const weighted = renderTimelineOffline([{ snippet: smile }], { fps: 2 }, [
+      { name: 'face', order: 0, weight: 0.5, muted: false, solo: false, blendMode: 'replace' },
+    ]);
+    expect(weighted.frames.map(f => f.aus[12])).toEqual([0, 0.25, 0.5]);
+
+    const muted = renderTimelineOffline([{ snippet: smile }], { fps: 2 }, [
+      { name: 'face', order: 0, weight: 1, muted: true, solo: false, blendMode: 'replace' },
+    ]);
+    expect(muted.frames.every(f => !f.aus[12])).toBe(true);
+  });
+
+  it('should bind morph tracks to every mesh carrying the morph', () => {
+    const { model, mesh } = buildModel();
+    const clip = timelineEntriesToAnimationClip([{ snippet: ramp('smile', '12') }], model, preset, { fps: 2 });
+
+    const track = clip.tracks.find(t => t.name === `${mesh.uuid}.morphTargetInfluences[mouthSmile]`);
+    expect(track).toBeDefined();
+    expect(Array.from(track!.times)).toEqual([0, 0.5, 1]);
+    expect(Array.from(track!.values)).toEqual([0, 0.5, 1]);
+    expect(clip.duration).toBe(1);
+  });
+
+  it('should rotate bones relative to the bind pose, not the live pose', () => {
+    const { model, jaw } = buildModel();
+    // The engine is holding the jaw half open while exporting
+    jaw.rotation.z = 0.3;
+    model.updateMatrixWorld(true);
+
+    const clip = timelineEntriesToAnimationClip([{ snippet: ramp('open', '26') }], model, preset, { fps: 1 });
+    const track = clip.tracks.find(t => t.name === `${jaw.uuid}.quaternion`)!;
+    const first = new THREE.Quaternion().fromArray(Array.from(track.values), 0);
+    const last = new THREE.Quaternion().fromArray(Array.from(track.values), 4);
+
+    expect(first.angleTo(new THREE.Quaternion())).toBeCloseTo(0);
+    expect(last.angleTo(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), Math.PI / 2))).toBeCloseTo(0);
+  });
+
+  it('should match prefixed bone names but not names the preset merely ends with', () => {
+    const model = new THREE.Group();
+    const root = new THREE.Bone();
+    root.name = 'Root';
+    model.add(root);
+    const timeline = renderTimelineOffline([{ snippet: ramp('open', '26') }], { fps: 1 });
+
+    const clip = timelineToAnimationClip(timeline, model, { ...preset, boneNodes: { JAW: 'CC_Base_JawRoot' } });
+    expect(clip.tracks).toHaveLength(0);
+
+    const { model: rig, jaw } = buildModel();
+    const prefixed = timelineToAnimationClip(timeline, rig, preset);
+    expect(prefixed.tracks.map(t => t.name)).toEqual([`${jaw.uuid}.quaternion`]);
+  });
+});
@@ -0,0 +1,324 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { createActor } from 'xstate';
+import { VISEME_KEYS } from 'loom3';
+import type { AUMappingConfig } from 'loom3';
+import { animationMachine } from '../latticework/animation/animationMachine';
+import { AnimationScheduler } from '../latticework/animation/animationScheduler';
+import type {
+  AnimationLayer,
+  HostCaps,
+  ScheduleOpts,
+  OfflineRenderOptions,
+  RenderedTimeline,
+} from '../latticework/animation/types';
+
+/**
+ * Animation Export Service
+ *
+ * Turns snippets (or a whole multi-snippet schedule) into THREE.AnimationClips and .glb files
+ * so performances authored here can be opened in Blender or game engines.
+ *
+ * Pipeline:
+ * 1. Render the snippets offline at a fixed fps (AnimationScheduler.renderTimeline)
+ * 2. Resolve every frame's AU/viseme values through the character preset
+ *    (CC4_PRESET, betta fish, ...): auToMorphs → morph weight tracks,
+ *    auToBones → bone quaternion/position tracks relative to the skeleton's bind pose
+ * 3. Write the model plus clips with GLTFExporter (binary)
+ *
+ * Values are exported at full strength for both morphs and bones; the engine's
+ * runtime morph/bone mix weights and viseme jaw coupling are not baked in.
+ */
+
+export interface ClipExportOptions {
+  /** Clip name (defaults to the snippet name, or 'timeline') */
+  name?: string;
+  /** Sample rate of the exported tracks (default 30) */
+  fps?: number;
+  /** Override the rendered duration (defaults to the end of the schedule) */
+  durationSec?: number;
+  /** Layer state to blend with, e.g. anim.getLayers() (defaults to the scheduler's default layers) */
+  layers?: AnimationLayer[];
+}
+
+/** A snippet plus where it sits on the timeline */
+export interface TimelineEntry {
+  snippet: any;
+  opts?: ScheduleOpts;
+}
+
+type BoneBindingLike = {
+  node: string;
+  channel: string;
+  scale?: number;
+  maxDegrees?: number;
+  maxUnits?: number;
+};
+
+type BonePose = { rot: THREE.Vector3; pos: THREE.Vector3 };
+
+const DEFAULT_FPS = 30;
+
+/** Host that drops every call - the exporter reads values from the rendered frames instead. */
+const createSilentHost = (): HostCaps => ({
+  applyAU: () => {},
+  setMorph: () => {},
+  setViseme: () => {},
+});
+
+/**
+ * Render snippets offline on a private scheduler (never touches the live engine or service).
+ * Pass `layers` to blend with a live service's mute/solo/weight/blend mode.
+ */
+export function renderTimelineOffline(
+  entries: TimelineEntry[],
+  opts: OfflineRenderOptions,
+  layers: AnimationLayer[] = []
+): RenderedTimeline {
+  const actor = createActor(animationMachine).start();
+  const scheduler = new AnimationScheduler(actor, createSilentHost());
+  try {
+    layers.forEach(({ name, ...layer }) => scheduler.setLayer(name, layer));
+    entries.forEach(({ snippet, opts: scheduleOpts }) => scheduler.schedule(snippet, scheduleOpts));
+    return scheduler.renderTimeline(opts);
+  } finally {
+    scheduler.dispose();
+  }
+}
+
+/**
+ * Find a node by preset bone name. Exported/re-imported rigs sometimes gain a prefix
+ * (CC_Base_JawRoot for JawRoot), so fall back to nodes whose name ends with the preset name.
+ */
+function findBone(model: THREE.Object3D, boneName: string): THREE.Object3D | null {
+  const exact = model.getObjectByName(boneName);
+  if (exact) return exact;
+  let match: THREE.Object3D | null = null;
+  model.traverse((obj) => {
+    if (!match && obj.name && obj.name.endsWith(boneName)) match = obj;
+  });
+  return match;
+}
+
+/** World matrix of every skinned bone in its bind pose (inverse of its bind matrix) */
+function bindWorldMatrices(model: THREE.Object3D): Map<THREE.Object3D, THREE.Matrix4> {
+  const matrices = new Map<THREE.Object3D, THREE.Matrix4>();
+  model.traverse((obj) => {
+    const mesh = obj as THREE.SkinnedMesh;
+    if (!mesh.isSkinnedMesh || !mesh.skeleton) return;
+    mesh.skeleton.bones.forEach((bone, i) => {
+      const inverse = mesh.skeleton.boneInverses[i];
+      if (inverse && !matrices.has(bone)) matrices.set(bone, inverse.clone().invert());
+    });
+  });
+  return matrices;
+}
+
+/**
+ * Local rest transform of a bone, from the skeleton's bind pose rather than the live pose
+ * (the engine may be holding an expression while exporting). Nodes outside any skeleton
+ * keep their current transform.
+ */
+function restTransform(bone: THREE.Object3D, bindWorld: Map<THREE.Object3D, THREE.Matrix4>) {
+  const quat = bone.quaternion.clone();
+  const pos = bone.position.clone();
+  const world = bindWorld.get(bone);
+  if (!world) return { quat, pos };
+
+  const parentWorld = new THREE.Matrix4();
+  if (bone.parent && bindWorld.has(bone.parent)) {
+    parentWorld.copy(bindWorld.get(bone.parent)!);
+  } else if (bone.parent) {
+    bone.parent.updateWorldMatrix(true, false);
+    parentWorld.copy(bone.parent.matrixWorld);
+  }
+  parentWorld.invert().multiply(world).decompose(pos, quat, new THREE.Vector3());
+  return { quat, pos };
+}
+
+/** All meshes that carry a given morph target */
+function meshesWithMorph(model: THREE.Object3D, morphName: string): THREE.Mesh[] {
+  const meshes: THREE.Mesh[] = [];
+  model.traverse((obj) => {
+    const mesh = obj as THREE.Mesh;
+    if (mesh.isMesh && mesh.morphTargetDictionary && morphName in mesh.morphTargetDictionary) {
+      meshes.push(mesh);
+    }
+  });
+  return meshes;
+}
+
+/**
+ * Convert an offline-rendered timeline into a THREE.AnimationClip for a specific model.
+ * Tracks are bound by object uuid so duplicate mesh/bone names cannot collide.
+ */
+export function timelineToAnimationClip(
+  timeline: RenderedTimeline,
+  model: THREE.Object3D,
+  preset: AUMappingConfig,
+  name = 'timeline'
+): THREE.AnimationClip {
+  const auToMorphs = (preset.auToMorphs ?? {}) as Record<number, string[]>;
+  const auToBones = (preset.auToBones ?? {}) as unknown as Record<number, BoneBindingLike[]>;
+  const boneNodes = (preset.boneNodes ?? {}) as Record<string, string>;
+  const visemeKeys: readonly string[] = preset.visemeKeys?.length ? preset.visemeKeys : VISEME_KEYS;
+
+  const times = timeline.frames.map(f => f.time - timeline.startSec);
+  const morphValues = new Map<string, number[]>();
+  const bonePoses = new Map<string, BonePose[]>();
+  const frameCount = timeline.frames.length;
+
+  const morphTrack = (morph: string) => {
+    if (!morphValues.has(morph)) morphValues.set(morph, new Array(frameCount).fill(0));
+    return morphValues.get(morph)!;
+  };
+  const bonePose = (boneName: string, index: number) => {
+    if (!bonePoses.has(boneName)) {
+      bonePoses.set(boneName, Array.from({ length: frameCount }, () => ({ rot: new THREE.Vector3(), pos: new THREE.Vector3() })));
+    }
+    return bonePoses.get(boneName)![index];
+  };
+
+  timeline.frames.forEach((frame, i) => {
+    for (const [auKey, v] of Object.entries(frame.aus)) {
+      const auId = Number(auKey);
+      for (const morph of auToMorphs[auId] ?? []) {
+        morphTrack(morph)[i] += v;
+      }
+      for (const binding of auToBones[auId] ?? []) {
+        const boneName = boneNodes[binding.node] ?? binding.node;
+        const pose = bonePose(boneName, i);
+        const amount = v * (binding.scale ?? 1);
+        const axis = binding.channel.slice(1) as 'x' | 'y' | 'z';
+        if (binding.channel.startsWith('r')) {
+          pose.rot[axis] += THREE.MathUtils.degToRad(amount * (binding.maxDegrees ?? 0));
+        } else if (binding.channel.startsWith('t')) {
+          pose.pos[axis] += amount * (binding.maxUnits ?? 0);
+        }
+      }
+    }
+    for (const [indexKey, v] of Object.entries(frame.visemes)) {
+      const morph = visemeKeys[Number(indexKey)];
+      if (morph) morphTrack(morph)[i] += v;
+    }
+    for (const [morph, v] of Object.entries(frame.morphs)) {
+      morphTrack(morph)[i] += v;
+    }
+  });
+
+  const tracks: THREE.KeyframeTrack[] = [];
+
+  for (const [morph, values] of morphValues) {
+    const clamped = values.map(v => Math.min(1, Math.max(0, v)));
+    for (const mesh of meshesWithMorph(model, morph)) {
+      tracks.push(new THREE.NumberKeyframeTrack(`${mesh.uuid}.morphTargetInfluences[${morph}]`, times, clamped));
+    }
+  }
+
+  const euler = new THREE.Euler();
+  const delta = new THREE.Quaternion();
+  const bindWorld = bindWorldMatrices(model);
+  for (const [boneName, poses] of bonePoses) {
+    const bone = findBone(model, boneName);
+    if (!bone) continue;
+    const { quat: restQuat, pos: restPos } = restTransform(bone, bindWorld);
+
+    const quats: number[] = [];
+    const positions: number[] = [];
+    let moves = false;
+    for (const pose of poses) {
+      euler.set(pose.rot.x, pose.rot.y, pose.rot.z, 'XYZ');
+      delta.setFromEuler(euler);
+      quats.push(...restQuat.clone().multiply(delta).toArray());
+      positions.push(...restPos.clone().add(pose.pos).toArray());
+      if (pose.pos.lengthSq() > 0) moves = true;
+    }
+    tracks.push(new THREE.QuaternionKeyframeTrack(`${bone.uuid}.quaternion`, times, quats));
+    if (moves) tracks.push(new THREE.VectorKeyframeTrack(`${bone.uuid}.position`, times, positions));
+  }
+
+  const duration = times.length ? times[times.length - 1] : 0;
+  return new THREE.AnimationClip(name, duration, tracks);
+}
+
+/**
+ * Build an AnimationClip from a single snippet.
+ */
+export function snippetToAnimationClip(
+  snippet: any,
+  model: THREE.Object3D,
+  preset: AUMappingConfig,
+  options: ClipExportOptions = {}
+): THREE.AnimationClip {
+  const timeline = renderTimelineOffline([{ snippet }], {
+    fps: options.fps ?? DEFAULT_FPS,
+    durationSec: options.durationSec,
+  }, options.layers);
+  return timelineToAnimationClip(timeline, model, preset, options.name ?? snippet?.name ?? 'snippet');
+}
+
+/**
+ * Build one AnimationClip from several snippets blended on a shared timeline
+ * (priorities and start offsets resolve like playback; layers too when `options.layers`
+ * carries the live layer state).
+ */
+export function timelineEntriesToAnimationClip(
+  entries: TimelineEntry[],
+  model: THREE.Object3D,
+  preset: AUMappingConfig,
+  options: ClipExportOptions = {}
+): THREE.AnimationClip {
+  const timeline = renderTimelineOffline(entries, {
+    fps: options.fps ?? DEFAULT_FPS,
+    durationSec: options.durationSec,
+  }, options.layers);
+  return timelineToAnimationClip(timeline, model, preset, options.name ?? 'timeline');
+}
+
+/**
+ * Write the model and clips to a binary glTF (.glb).
+ */
+export async function exportClipsToGLB(model: THREE.Object3D, clips: THREE.AnimationClip[]): Promise<ArrayBuffer> {
+  const exporter = new GLTFExporter();
+  const result = await exporter.parseAsync(model, { binary: true, animations: clips });
+  if (!(result instanceof ArrayBuffer)) {
+    throw new Error('GLTFExporter did not return binary output');
+  }
+  return result;
+}
+
+/**
+ * Export clips to .glb and trigger a browser download.
+ */
+export async function downloadClipsAsGLB(
+  model: THREE.Object3D,
+  clips: THREE.AnimationClip[],
+  filename: string
+): Promise<void> {
+  const buffer = await exportClipsToGLB(model, clips);
+  const blob = new Blob([buffer], { type: 'model/gltf-binary' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.glb') ? filename : `${filename}.glb`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Find the loaded character inside a scene: the top-level child that holds bones or morph targets.
+ */
+export function findCharacterRoot(scene: THREE.Scene): THREE.Object3D | null {
+  for (const child of scene.children) {
+    let isCharacter = false;
+    child.traverse((obj) => {
+      const mesh = obj as THREE.Mesh;
+      if ((obj as THREE.Bone).isBone || (mesh.isMesh && mesh.morphTargetInfluences?.length)) isCharacter = true;
+    });
+    if (isCharacter) return child;
+  }
+  return null;
+}
@@ -6,11 +6,15 @@
 import { createBackendService, BackendService, ConversationEvent } from './backendService';
 import { createLiveKitService, LiveKitService } from './livekitService';
 import { createMCPService, MCPService } from './mcpService';
+import { Track } from 'livekit-client';
+import { createAudioLipSyncService, type AudioLipSyncServiceAPI } from '../latticework/lipsync/audioLipSync';
+import type { LipSyncHostCaps } from '../latticework/lipsync/lipSyncService';
 
 export interface IntegratedConversationConfig {
   backendUrl: string;
   enableLiveKit?: boolean;
   userId?: string;
+  lipSyncHost?: LipSyncHostCaps; // When set, remote agent audio drives the mouth
 }
 
 export interface IntegratedConversationCallbacks {
@@ -26,6 +30,8 @@ export class IntegratedConversationService {
   private backend: BackendService;
   private livekit: LiveKitService;
   private mcp: MCPService;
+  private audioLipSync: AudioLipSyncServiceAPI | null = null;
+  private lipSyncTrack: MediaStreamTrack | null = null; // Remote track the mouth follows
   private callbacks: IntegratedConversationCallbacks;
 
   private sessionId: string | null = null;
@@ -33,8 +39,26 @@ export class IntegratedConversationService {
 
   constructor(config: IntegratedConversationConfig, callbacks: IntegratedConversationCallbacks = {}) {
     this.backend = createBackendService(config.backendUrl);
+    if (config.lipSyncHost) {
+      this.audioLipSync = createAudioLipSyncService({}, {
+        onError: (error) => callbacks.onError?.(error),
+      }, config.lipSyncHost);
+    }
     this.livekit = createLiveKitService({
       onError: (error) => callbacks.onError?.(error),
+      onTrackSubscribed: (track) => {
+        if (this.audioLipSync && track.kind === Track.Kind.Audio && track.mediaStreamTrack) {
+          this.audioLipSync.attach(track.mediaStreamTrack);
+          this.lipSyncTrack = track.mediaStreamTrack;
+        }
+      },
+      onTrackUnsubscribed: (track) => {
+        // Other tracks going away must not stop the one being followed
+        if (this.lipSyncTrack && track.mediaStreamTrack === this.lipSyncTrack) {
+          this.audioLipSync?.detach();
+          this.lipSyncTrack = null;
+        }
+      },
     });
     this.mcp = createMCPService(config.backendUrl);
     this.callbacks = callbacks;
@@ -99,6 +123,10 @@ export class IntegratedConversationService {
 
     console.log('[IntegratedConversationService] Stopping');
 
+    // Release lip-sync first (closes its AudioContext) so a failing backend call can't leak it
+    this.audioLipSync?.dispose();
+    this.lipSyncTrack = null;
+
     try {
       // Stop backend session
       if (this.sessionId) {